@@ -22,6 +22,7 @@ const config = {
     '!src/models/**/*.ts',
     '!src/middleware.ts',
     '!src/lib/supabase/middleware.ts',
+    '!src/test-utils/**',
   ],
   coverageThreshold: {
     global: {
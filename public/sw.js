@@ -1,4 +1,6 @@
-const CACHE_NAME = 'kanbanpro-v1';
+const CACHE_NAME = 'kanbanpro-v2';
+// Board data, so boards open offline; cleared on sign out
+const API_CACHE_NAME = 'kanbanpro-api-v1';
 const STATIC_ASSETS = [
   '/',
   '/boards',
@@ -24,7 +26,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((name) => name !== CACHE_NAME)
+          .filter((name) => name !== CACHE_NAME && name !== API_CACHE_NAME)
           .map((name) => caches.delete(name))
       );
     })
@@ -39,7 +41,35 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
-  // Skip API requests - always use network
+  // Board API requests - network first, fallback to the last response
+  // Changes made offline are queued by the app and replayed, not handled here
+  if (event.request.url.includes('/api/boards')) {
+    event.respondWith(
+      fetch(event.request)
+        .then((response) => {
+          if (response.ok) {
+            const responseClone = response.clone();
+            caches.open(API_CACHE_NAME).then((cache) => {
+              cache.put(event.request, responseClone);
+            });
+          }
+          return response;
+        })
+        .catch(() =>
+          caches.match(event.request).then(
+            (cachedResponse) =>
+              cachedResponse ||
+              new Response(JSON.stringify({ error: 'Offline' }), {
+                status: 503,
+                headers: { 'Content-Type': 'application/json' },
+              })
+          )
+        )
+    );
+    return;
+  }
+
+  // Skip other API requests - always use network
   if (event.request.url.includes('/api/')) {
     return;
   }
@@ -77,6 +107,13 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
+// Drop cached board data, e.g. when the user signs out
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CLEAR_API_CACHE') {
+    event.waitUntil(caches.delete(API_CACHE_NAME));
+  }
+});
+
 // Handle push notifications
 self.addEventListener('push', (event) => {
   if (!event.data) return;
@@ -0,0 +1,19 @@
+/**
+ * Script to send due date reminders once, e.g. from a local cron
+ * Usage: npx tsx scripts/send-due-reminders.ts
+ */
+
+import { createAdminClient } from '../src/lib/supabase/admin';
+import { sendDueDateReminders } from '../src/lib/notifications/dueDates';
+
+async function main() {
+  try {
+    const { tasks, notified } = await sendDueDateReminders(createAdminClient());
+    console.warn(`✓ Checked ${tasks} due tasks, sent ${notified} reminders`);
+  } catch (error) {
+    console.error('Error sending due date reminders:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,24 @@
+/**
+ * Script to send queued notification emails once, e.g. from a local cron
+ * Usage: EMAIL_TRANSPORT=file npx tsx scripts/send-emails.ts
+ */
+
+import { createAdminClient } from '../src/lib/supabase/admin';
+import { processEmailOutbox } from '../src/lib/notifications/outbox';
+import { createEmailTransport } from '../src/lib/email/transports';
+
+async function main() {
+  try {
+    const supabase = createAdminClient();
+    const transport = createEmailTransport(supabase);
+    const { sent, digests, skipped, failed } = await processEmailOutbox(supabase, transport);
+    console.warn(
+      `✓ Sent ${sent} emails and ${digests} digests via ${transport.name} (${skipped} skipped, ${failed} failed)`
+    );
+  } catch (error) {
+    console.error('Error sending notification emails:', error);
+    process.exit(1);
+  }
+}
+
+main();
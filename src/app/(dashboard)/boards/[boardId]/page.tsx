@@ -1,6 +1,6 @@
 'use client';
 
-import { useCallback, useState, lazy, Suspense, useEffect } from 'react';
+import { useCallback, useState, lazy, Suspense, useEffect, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
 import { Loader2 } from 'lucide-react';
@@ -11,36 +11,98 @@ import type { Task, Status, BoardMemberRole } from '@/types/board';
 // React Query Hooks
 import {
   useBoard,
+  useBoardMembers,
+  useRealtimeCacheHandlers,
   useCreateTaskMutation,
   useUpdateTaskMutation,
   useDeleteTaskMutation,
   useMoveTaskMutation,
   useReorderTasksMutation,
+  useBulkTaskMutation,
   useCreateStatusMutation,
   useUpdateStatusMutation,
   useDeleteStatusMutation,
+  useBoardCommands,
+  useBoardSubscription,
+  useSetBoardSubscription,
+  useSavedFilters,
+  useSaveFilter,
+  useDeleteSavedFilter,
+  type TaskUpdates,
+  type StatusInput,
 } from '@/hooks/api';
+import {
+  applyBulkAction,
+  describeBulkAction,
+  filterBoardTasks,
+  formatWipLimitMessage,
+  getBoardTags,
+  getBulkTaskUpdates,
+  getNavigationColumns,
+} from '@/lib/tasks';
+import type { UndoableCommand } from '@/lib/undo';
+import type { BulkTaskAction } from '@/lib/validation';
+import { getTaskPresence } from '@/lib/presence';
+import { useAuth } from '@/contexts/AuthContext';
 
 // Other Hooks
 import { useDragAndDrop } from '@/hooks/useDragAndDrop';
+import { useSwimlanes } from '@/hooks/useSwimlanes';
+import { useBoardView } from '@/hooks/useBoardView';
 import { useRealtimeBoardState } from '@/hooks/useRealtimeBoard';
 import { usePermissions } from '@/hooks/usePermissions';
+import { useUndoRedo } from '@/hooks/useUndoRedo';
+import { useBoardPresence } from '@/hooks/useBoardPresence';
+import { useTaskFilters } from '@/hooks/useTaskFilters';
+import { useBoardShortcuts } from '@/hooks/useBoardShortcuts';
+import { useTaskSelection } from '@/hooks/useTaskSelection';
 
 // Components
 import { BoardHeader } from '@/components/board/BoardHeader';
 import { BoardColumns } from '@/components/board/BoardColumns';
+import { BoardFilterBar } from '@/components/board/BoardFilterBar';
+import { BulkActionBar } from '@/components/board/BulkActionBar';
 import ConfirmDialog from '@/components/ConfirmDialog';
+import { toastWithUndo } from '@/components/ToastProvider';
 
 // Lazy-loaded modals
 const CreateTaskModal = lazy(() => import('@/components/board/CreateTaskModal'));
 const TaskDrawer = lazy(() => import('@/components/board/TaskDrawer'));
 const StatusModal = lazy(() => import('@/components/board/StatusModal'));
+
+// Lazy-loaded board views
+const BoardTableView = lazy(() => import('@/components/board/BoardTableView'));
+const BoardCalendarView = lazy(() => import('@/components/board/BoardCalendarView'));
+const BoardTimelineView = lazy(() => import('@/components/board/BoardTimelineView'));
 const BoardMembersModal = lazy(() => import('@/components/board/BoardMembersModal'));
+const ImportBoardModal = lazy(() => import('@/components/board/ImportBoardModal'));
+const BoardWebhooksModal = lazy(() => import('@/components/board/BoardWebhooksModal'));
+const BoardActivityModal = lazy(() => import('@/components/board/BoardActivityModal'));
+const BoardTimeReportModal = lazy(() => import('@/components/board/BoardTimeReportModal'));
+const MoveTaskDialog = lazy(() => import('@/components/board/MoveTaskDialog'));
+const KeyboardShortcutsDialog = lazy(() => import('@/components/board/KeyboardShortcutsDialog'));
+
+/**
+ * Let the user know where a finished recurring task went
+ */
+function announceNextOccurrence(occurrence: Task | null) {
+  if (!occurrence) return;
+
+  const due = occurrence.due_date
+    ? new Date(occurrence.due_date).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        timeZone: 'UTC',
+      })
+    : null;
+  toast.success(due ? `Next occurrence due ${due}` : 'Next occurrence created', { icon: '🔁' });
+}
 
 export default function BoardPageWithReactQuery() {
   const params = useParams();
   const router = useRouter();
   const boardId = params.boardId as string;
+  const { user } = useAuth();
 
   // React Query - fetch board data
   const { data: boardData, isLoading, error, refetch } = useBoard(boardId);
@@ -51,9 +113,16 @@ export default function BoardPageWithReactQuery() {
   const deleteTaskMutation = useDeleteTaskMutation(boardId);
   const moveTaskMutation = useMoveTaskMutation(boardId);
   const reorderTasksMutation = useReorderTasksMutation(boardId);
+  const bulkTaskMutation = useBulkTaskMutation(boardId);
   const createStatusMutation = useCreateStatusMutation(boardId);
   const updateStatusMutation = useUpdateStatusMutation(boardId);
   const deleteStatusMutation = useDeleteStatusMutation(boardId);
+  const commands = useBoardCommands(boardId);
+  const { data: subscriptionLevel } = useBoardSubscription(boardId);
+  const setBoardSubscription = useSetBoardSubscription(boardId);
+  const { data: savedFilters } = useSavedFilters(boardId);
+  const saveFilter = useSaveFilter(boardId);
+  const deleteSavedFilter = useDeleteSavedFilter(boardId);
 
   // Local UI state
   const [activeTaskId, setActiveTaskId] = useState<string | null>(null);
@@ -62,42 +131,145 @@ export default function BoardPageWithReactQuery() {
   const [isStatusModalOpen, setIsStatusModalOpen] = useState(false);
   const [editingStatus, setEditingStatus] = useState<Status | null>(null);
   const [isMembersModalOpen, setIsMembersModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isWebhooksModalOpen, setIsWebhooksModalOpen] = useState(false);
+  const [isActivityModalOpen, setIsActivityModalOpen] = useState(false);
+  const [isTimeReportOpen, setIsTimeReportOpen] = useState(false);
   const [deletingStatusId, setDeletingStatusId] = useState<string | null>(null);
+  const [movingTaskId, setMovingTaskId] = useState<string | null>(null);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
 
   const board = boardData?.board || null;
+
+  // Filters live in the URL; the columns show only matching tasks
+  const { filters, setFilters, activeCount: activeFilterCount } = useTaskFilters();
+  const visibleBoard = useMemo(
+    () => (board ? filterBoardTasks(board, filters) : null),
+    [board, filters]
+  );
+  const boardTags = useMemo(() => (board ? getBoardTags(board) : []), [board]);
+  const countTasks = (b: typeof board) =>
+    b?.statuses.reduce((count, status) => count + status.tasks.length, 0) ?? 0;
+
   const userRole = (boardData?.userRole as BoardMemberRole) || 'viewer';
 
   // Permissions
   const permissions = usePermissions({ role: userRole });
+  const canEdit = permissions.canEditTask || permissions.canCreateTask || permissions.canDeleteTask;
+  const canBulkEdit =
+    permissions.canEditTask || permissions.canMoveTask || permissions.canDeleteTask;
+
+  // Undo/redo - each successful operation records its inverse command
+  const { record, undo } = useUndoRedo({
+    enabled: canEdit,
+    onUndo: (command) => toast.success(`Undid: ${command.label}`),
+    onRedo: (command) => toast.success(`Redid: ${command.label}`),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const recordWithUndo = useCallback(
+    (message: string, command: UndoableCommand | null) => {
+      record(command);
+      if (command) {
+        toastWithUndo(message, () => undo(command));
+      } else {
+        toast.success(message);
+      }
+    },
+    [record, undo]
+  );
+
+  const findTask = useCallback(
+    (taskId: string) => board?.statuses.flatMap((s) => s.tasks).find((t) => t.id === taskId),
+    [board]
+  );
+
+  // Swimlanes - members are included so empty assignee lanes can be dropped into
+  const { data: members } = useBoardMembers(boardId);
+  const memberProfiles = useMemo(
+    () => (members || []).flatMap((member) => (member.profile ? [member.profile] : [])),
+    [members]
+  );
+  const swimlanes = useSwimlanes(boardId, visibleBoard, memberProfiles);
+
+  // Board view - columns, table, calendar or timeline, remembered per board
+  const boardView = useBoardView(boardId);
+
+  // Presence - who is on the board and which task they have open
+  const currentProfile = useMemo(() => {
+    if (!user) return null;
+    const profile = memberProfiles.find((p) => p.id === user.id);
+    return {
+      id: user.id,
+      email: profile?.email ?? user.email ?? '',
+      display_name: profile?.display_name ?? null,
+      avatar_url: profile?.avatar_url ?? null,
+    };
+  }, [user, memberProfiles]);
+  const {
+    members: presentMembers,
+    presence,
+    onPresenceSync,
+    setViewingTask,
+    setTyping,
+  } = useBoardPresence(currentProfile);
+
+  useEffect(() => {
+    setViewingTask(activeTaskId);
+  }, [activeTaskId, setViewingTask]);
 
   // Drag and drop logic
   const dragAndDrop = useDragAndDrop({
     board,
+    swimlanes: swimlanes.swimlanes,
     onReorder: (statusId, tasks) => {
+      const previousTasks = board?.statuses.find((s) => s.id === statusId)?.tasks || [];
+
       reorderTasksMutation.mutate(tasks, {
+        onSuccess: () => record(commands.tasksReordered(previousTasks, tasks)),
         onError: () => {
           toast.error('Failed to save task order');
           refetch();
         },
       });
     },
-    onMove: (taskId, newStatusId, newOrder) => {
+    onMove: (taskId, newStatusId, newOrder, lane) => {
+      const previousTask = findTask(taskId);
+
       moveTaskMutation.mutate(
-        { taskId, newStatusId, newOrder },
+        { taskId, newStatusId, newOrder, lane },
         {
-          onError: () => {
-            toast.error('Failed to move task');
+          onSuccess: ({ warning, nextOccurrence }) => {
+            if (previousTask) {
+              record(commands.taskMoved(previousTask, newStatusId, newOrder, lane));
+            }
+            if (warning) toast(warning.message, { icon: '⚠️' });
+            announceNextOccurrence(nextOccurrence);
+          },
+          onError: (error) => {
+            toast.error(error.message || 'Failed to move task');
             refetch();
           },
         }
       );
     },
+    onWipLimitExceeded: (check) => {
+      // Soft limits are reported by the move response, so only hard blocks need a toast here
+      if (check.blocked) {
+        toast.error(formatWipLimitMessage(check));
+      }
+    },
   });
 
-  // Subscribe to realtime updates
-  useRealtimeBoardState(board, () => {
-    refetch();
-  });
+  // Subscribe to realtime updates; discussion and member events patch their caches in place
+  const realtimeCacheHandlers = useRealtimeCacheHandlers(boardId, user?.id ?? null);
+  useRealtimeBoardState(
+    board,
+    () => {
+      refetch();
+    },
+    { presence, onPresenceSync, ...realtimeCacheHandlers }
+  );
 
   // Handle 404 error - redirect to boards list
   useEffect(() => {
@@ -117,51 +289,62 @@ export default function BoardPageWithReactQuery() {
       status_id: string;
       priority?: string;
       due_date?: string;
+      recurrence_rule?: string;
     }) => {
       return new Promise<void>((resolve, reject) => {
         createTaskMutation.mutate(data, {
-          onSuccess: () => {
-            toast.success('Task created');
+          onSuccess: ({ task, warning }) => {
+            recordWithUndo('Task created', commands.taskCreated(task));
+            if (warning) toast(warning.message, { icon: '⚠️' });
             setIsTaskModalOpen(false);
             setSelectedStatusId(null);
             resolve();
           },
           onError: (error) => {
-            toast.error('Failed to create task');
+            toast.error(error.message || 'Failed to create task');
             reject(error);
           },
         });
       });
     },
-    [createTaskMutation]
+    [createTaskMutation, commands, recordWithUndo]
   );
 
   const handleUpdateTask = useCallback(
-    async (taskId: string, updates: Partial<Task>) => {
+    async (taskId: string, updates: TaskUpdates) => {
+      const previousTask = findTask(taskId);
+
       return new Promise<void>((resolve, reject) => {
         updateTaskMutation.mutate(
           { taskId, updates },
           {
-            onSuccess: () => {
-              toast.success('Task updated');
+            onSuccess: ({ warning, nextOccurrence }) => {
+              recordWithUndo(
+                'Task updated',
+                previousTask ? commands.taskUpdated(previousTask, updates) : null
+              );
+              if (warning) toast(warning.message, { icon: '⚠️' });
+              announceNextOccurrence(nextOccurrence);
               resolve();
             },
             onError: (error) => {
-              toast.error('Failed to update task');
+              toast.error(error.message || 'Failed to update task');
               reject(error);
             },
           }
         );
       });
     },
-    [updateTaskMutation]
+    [updateTaskMutation, findTask, commands, recordWithUndo]
   );
 
   const handleDeleteTask = useCallback(
     (taskId: string) => {
+      const previousTask = findTask(taskId);
+
       deleteTaskMutation.mutate(taskId, {
         onSuccess: () => {
-          toast.success('Task deleted');
+          recordWithUndo('Task deleted', previousTask ? commands.taskDeleted(previousTask) : null);
           setActiveTaskId(null);
         },
         onError: () => {
@@ -169,21 +352,21 @@ export default function BoardPageWithReactQuery() {
         },
       });
     },
-    [deleteTaskMutation]
+    [deleteTaskMutation, findTask, commands, recordWithUndo]
   );
 
   /**
    * Status operations
    */
   const handleCreateOrUpdateStatus = useCallback(
-    async (data: { name: string; color: string }) => {
+    async (data: StatusInput & { name: string; color: string }) => {
       return new Promise<void>((resolve, reject) => {
         if (editingStatus) {
           updateStatusMutation.mutate(
             { statusId: editingStatus.id, data },
             {
               onSuccess: () => {
-                toast.success('Status updated');
+                recordWithUndo('Status updated', commands.statusUpdated(editingStatus, data));
                 setIsStatusModalOpen(false);
                 setEditingStatus(null);
                 resolve();
@@ -196,8 +379,8 @@ export default function BoardPageWithReactQuery() {
           );
         } else {
           createStatusMutation.mutate(data, {
-            onSuccess: () => {
-              toast.success('Status created');
+            onSuccess: (status) => {
+              recordWithUndo('Status created', commands.statusCreated(status));
               setIsStatusModalOpen(false);
               resolve();
             },
@@ -209,15 +392,19 @@ export default function BoardPageWithReactQuery() {
         }
       });
     },
-    [editingStatus, updateStatusMutation, createStatusMutation]
+    [editingStatus, updateStatusMutation, createStatusMutation, commands, recordWithUndo]
   );
 
   const handleDeleteStatus = useCallback(() => {
     if (!deletingStatusId) return;
+    const previousStatus = board?.statuses.find((s) => s.id === deletingStatusId);
 
     deleteStatusMutation.mutate(deletingStatusId, {
       onSuccess: () => {
-        toast.success('Status deleted');
+        recordWithUndo(
+          'Status deleted',
+          previousStatus ? commands.statusDeleted(previousStatus) : null
+        );
         setDeletingStatusId(null);
       },
       onError: (error) => {
@@ -225,7 +412,7 @@ export default function BoardPageWithReactQuery() {
         setDeletingStatusId(null);
       },
     });
-  }, [deletingStatusId, deleteStatusMutation]);
+  }, [deletingStatusId, deleteStatusMutation, board, commands, recordWithUndo]);
 
   /**
    * Modal handlers
@@ -246,16 +433,124 @@ export default function BoardPageWithReactQuery() {
     setIsStatusModalOpen(true);
   }, []);
 
+  const handleShowShortcuts = useCallback(() => setIsShortcutsOpen(true), []);
+
   /**
-   * Permission-based UI checks
+   * Keyboard shortcuts - cards in the order they are shown, paused while a modal is open
    */
-  const canEdit = permissions.canEditTask || permissions.canCreateTask || permissions.canDeleteTask;
+  const navigationColumns = useMemo(
+    () =>
+      visibleBoard && boardView.view === 'board'
+        ? getNavigationColumns(
+            visibleBoard,
+            swimlanes.grouping
+              ? {
+                  grouping: swimlanes.grouping,
+                  lanes: swimlanes.lanes,
+                  collapsedLanes: swimlanes.collapsedLanes,
+                }
+              : null
+          )
+        : [],
+    [visibleBoard, boardView.view, swimlanes.grouping, swimlanes.lanes, swimlanes.collapsedLanes]
+  );
+  const isModalOpen =
+    !!activeTaskId ||
+    isTaskModalOpen ||
+    isStatusModalOpen ||
+    isMembersModalOpen ||
+    isImportModalOpen ||
+    isWebhooksModalOpen ||
+    isActivityModalOpen ||
+    isTimeReportOpen ||
+    !!deletingStatusId ||
+    !!movingTaskId ||
+    isShortcutsOpen;
+
+  // Multi-select - Ctrl/Cmd-click, Shift-click or x on the focused card
+  const selection = useTaskSelection(navigationColumns);
+
+  const { focusTask } = useBoardShortcuts({
+    columns: navigationColumns,
+    enabled: !isModalOpen && !dragAndDrop.activeTask,
+    onOpenTask: setActiveTaskId,
+    onMoveTask: permissions.canMoveTask ? setMovingTaskId : undefined,
+    onCreateTask: permissions.canCreateTask ? handleOpenTaskModal : undefined,
+    onToggleSelect: canBulkEdit ? selection.toggle : undefined,
+    onClearSelection: selection.selectedIds.size > 0 ? selection.clear : undefined,
+    onShowHelp: handleShowShortcuts,
+  });
+
+  /**
+   * Bulk actions - one request for the whole selection, undone as a single step
+   */
+  const handleBulkAction = useCallback(
+    (action: BulkTaskAction) => {
+      if (!board) return;
+      const taskIds = Array.from(selection.selectedIds);
+      const previousTasks = taskIds.flatMap((id) => findTask(id) ?? []);
+      const after = applyBulkAction(board, taskIds, action);
+      const statusName =
+        action.type === 'move'
+          ? board.statuses.find((status) => status.id === action.status_id)?.name
+          : undefined;
+
+      const undoCommands = previousTasks.map((task) => {
+        if (action.type === 'delete') return commands.taskDeleted(task);
+
+        const updates = getBulkTaskUpdates(task, action);
+        if (!updates) return null;
+        if (action.type !== 'move') return commands.taskUpdated(task, updates);
+
+        const moved = after.statuses
+          .find((status) => status.id === action.status_id)
+          ?.tasks.find((t) => t.id === task.id);
+        return moved ? commands.taskMoved(task, action.status_id, moved.order) : null;
+      });
+      const label =
+        action.type === 'delete'
+          ? 'Delete tasks'
+          : action.type === 'move'
+            ? 'Move tasks'
+            : 'Edit tasks';
+
+      bulkTaskMutation.mutate(
+        { taskIds, action },
+        {
+          onSuccess: ({ warning, nextOccurrences }) => {
+            recordWithUndo(
+              describeBulkAction(action, taskIds.length, statusName),
+              commands.tasksChanged(label, undoCommands)
+            );
+            if (action.type === 'delete') selection.clear();
+            if (warning) toast(warning.message, { icon: '⚠️' });
+            nextOccurrences.forEach(announceNextOccurrence);
+          },
+          onError: (error) => {
+            toast.error(error.message || 'Failed to update tasks');
+          },
+        }
+      );
+    },
+    [board, selection, findTask, commands, bulkTaskMutation, recordWithUndo]
+  );
+
+  const handleMoveTaskTo = useCallback(
+    (statusId: string) => {
+      if (!movingTaskId) return;
+      dragAndDrop.moveTask(movingTaskId, statusId);
+      setMovingTaskId(null);
+      focusTask(movingTaskId);
+    },
+    [movingTaskId, dragAndDrop, focusTask]
+  );
 
   /**
    * Get active task for drawer
    */
   const activeTask =
     board?.statuses.flatMap((s) => s.tasks).find((t) => t.id === activeTaskId) || null;
+  const movingTask = movingTaskId ? (findTask(movingTaskId) ?? null) : null;
 
   /**
    * Loading state
@@ -293,27 +588,113 @@ export default function BoardPageWithReactQuery() {
       <BoardHeader
         board={board}
         canEdit={canEdit}
+        presentMembers={presentMembers}
+        view={boardView.view}
+        onViewChange={boardView.setView}
+        grouping={swimlanes.grouping}
+        onGroupingChange={boardView.view === 'board' ? swimlanes.setGrouping : undefined}
+        subscriptionLevel={subscriptionLevel ?? null}
+        onSubscriptionChange={setBoardSubscription.mutateAsync}
         onBack={() => router.push('/boards')}
         onOpenMembers={() => setIsMembersModalOpen(true)}
         onOpenStatusModal={() => handleOpenStatusModal()}
+        onOpenImport={() => setIsImportModalOpen(true)}
+        onOpenActivity={() => setIsActivityModalOpen(true)}
+        onOpenTimeReport={() => setIsTimeReportOpen(true)}
+        onOpenWebhooks={
+          permissions.canManageWebhooks ? () => setIsWebhooksModalOpen(true) : undefined
+        }
       />
 
-      {/* Board Columns */}
-      <BoardColumns
-        board={board}
-        canEdit={canEdit}
-        sensors={dragAndDrop.sensors}
-        activeTask={dragAndDrop.activeTask}
-        onDragStart={dragAndDrop.handleDragStart}
-        onDragOver={dragAndDrop.handleDragOver}
-        onDragEnd={dragAndDrop.handleDragEnd}
-        onTaskClick={handleOpenTaskDrawer}
-        onTaskDelete={handleDeleteTask}
-        onAddTask={handleOpenTaskModal}
-        onEditStatus={handleOpenStatusModal}
-        onDeleteStatus={setDeletingStatusId}
+      <BoardFilterBar
+        filters={filters}
+        onChange={setFilters}
+        tags={boardTags}
+        members={memberProfiles}
+        matchCount={countTasks(visibleBoard)}
+        totalCount={countTasks(board)}
+        savedFilters={savedFilters}
+        onSaveFilter={(name) => saveFilter.mutateAsync({ name, filters })}
+        onDeleteSavedFilter={deleteSavedFilter.mutateAsync}
       />
 
+      {/* Board Columns - dragging is off while filtered, since hidden tasks keep their order */}
+      {boardView.view === 'board' ? (
+        <BoardColumns
+          board={visibleBoard ?? board}
+          canEdit={canEdit}
+          sensors={activeFilterCount > 0 ? [] : dragAndDrop.sensors}
+          accessibility={dragAndDrop.accessibility}
+          activeTask={dragAndDrop.activeTask}
+          onDragStart={dragAndDrop.handleDragStart}
+          onDragOver={dragAndDrop.handleDragOver}
+          onDragEnd={dragAndDrop.handleDragEnd}
+          wipLimitViolation={dragAndDrop.wipLimitViolation}
+          swimlanes={
+            swimlanes.grouping
+              ? {
+                  grouping: swimlanes.grouping,
+                  lanes: swimlanes.lanes,
+                  collapsedLanes: swimlanes.collapsedLanes,
+                  onToggleLane: swimlanes.toggleLane,
+                }
+              : null
+          }
+          onTaskClick={handleOpenTaskDrawer}
+          onTaskDelete={handleDeleteTask}
+          selectedTaskIds={selection.selectedIds}
+          onTaskSelect={canBulkEdit ? selection.onSelect : undefined}
+          onAddTask={handleOpenTaskModal}
+          onEditStatus={handleOpenStatusModal}
+          onDeleteStatus={setDeletingStatusId}
+        />
+      ) : (
+        <Suspense fallback={<div className="flex-1" />}>
+          {boardView.view === 'table' && (
+            <BoardTableView
+              board={visibleBoard ?? board}
+              columns={boardView.tableColumns}
+              sort={boardView.tableSort}
+              onColumnsChange={boardView.setTableColumns}
+              onSortChange={boardView.setTableSort}
+              canEdit={permissions.canEditTask}
+              canMove={permissions.canMoveTask}
+              onOpenTask={handleOpenTaskDrawer}
+              onUpdateTask={handleUpdateTask}
+              onMoveTask={dragAndDrop.moveTask}
+            />
+          )}
+          {boardView.view === 'calendar' && (
+            <BoardCalendarView
+              board={visibleBoard ?? board}
+              mode={boardView.calendarMode}
+              onModeChange={boardView.setCalendarMode}
+              canEdit={permissions.canEditTask}
+              onOpenTask={handleOpenTaskDrawer}
+              onUpdateTask={handleUpdateTask}
+            />
+          )}
+          {boardView.view === 'timeline' && (
+            <BoardTimelineView board={visibleBoard ?? board} onOpenTask={handleOpenTaskDrawer} />
+          )}
+        </Suspense>
+      )}
+
+      {canBulkEdit && selection.selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedCount={selection.selectedIds.size}
+          statuses={board.statuses}
+          tags={boardTags}
+          members={memberProfiles}
+          canMove={permissions.canMoveTask}
+          canEdit={permissions.canEditTask}
+          canDelete={permissions.canDeleteTask}
+          isPending={bulkTaskMutation.isPending}
+          onAction={handleBulkAction}
+          onClear={selection.clear}
+        />
+      )}
+
       {/* Modals - Lazy loaded with Suspense */}
       <Suspense fallback={null}>
         {isTaskModalOpen && (
@@ -335,7 +716,13 @@ export default function BoardPageWithReactQuery() {
             task={activeTask}
             statuses={board.statuses}
             boardId={boardId}
-            onClose={() => setActiveTaskId(null)}
+            currentUserRole={userRole}
+            presence={getTaskPresence(presentMembers, activeTask.id, user?.id ?? null)}
+            onTyping={setTyping}
+            onClose={() => {
+              setActiveTaskId(null);
+              focusTask(activeTask.id);
+            }}
             onUpdate={handleUpdateTask}
             onDelete={handleDeleteTask}
           />
@@ -361,6 +748,53 @@ export default function BoardPageWithReactQuery() {
             currentUserRole={userRole}
           />
         )}
+
+        {isImportModalOpen && (
+          <ImportBoardModal
+            isOpen={isImportModalOpen}
+            boardId={boardId}
+            onClose={() => setIsImportModalOpen(false)}
+          />
+        )}
+
+        {isWebhooksModalOpen && (
+          <BoardWebhooksModal
+            isOpen={isWebhooksModalOpen}
+            boardId={boardId}
+            onClose={() => setIsWebhooksModalOpen(false)}
+          />
+        )}
+
+        {movingTask && (
+          <MoveTaskDialog
+            task={movingTask}
+            statuses={board.statuses}
+            onMove={handleMoveTaskTo}
+            onClose={() => {
+              setMovingTaskId(null);
+              focusTask(movingTask.id);
+            }}
+          />
+        )}
+
+        {isShortcutsOpen && <KeyboardShortcutsDialog onClose={() => setIsShortcutsOpen(false)} />}
+
+        {isActivityModalOpen && (
+          <BoardActivityModal
+            isOpen={isActivityModalOpen}
+            boardId={boardId}
+            onClose={() => setIsActivityModalOpen(false)}
+          />
+        )}
+
+        {isTimeReportOpen && (
+          <BoardTimeReportModal
+            isOpen={isTimeReportOpen}
+            boardId={boardId}
+            statuses={board.statuses}
+            onClose={() => setIsTimeReportOpen(false)}
+          />
+        )}
       </Suspense>
 
       {/* Delete Status Confirmation */}
@@ -1,130 +1,289 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
 import Link from 'next/link';
-import { Bell, CheckCheck, Loader2, ArrowLeft, Mail, UserPlus, FileText } from 'lucide-react';
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowLeft,
+  AtSign,
+  Bell,
+  CheckCheck,
+  Clock,
+  FileText,
+  Loader2,
+  Mail,
+  MailOpen,
+  MessageSquare,
+  MoveRight,
+  Pencil,
+  Trash2,
+  UserPlus,
+} from 'lucide-react';
 import toast from 'react-hot-toast';
-import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
-
-interface Notification {
-  id: string;
-  user_id: string;
-  type: string;
-  title: string;
-  message: string;
-  board_id: string | null;
-  task_id: string | null;
-  read_at: string | null;
-  created_at: string;
-}
+import {
+  useBoards,
+  useDeleteNotifications,
+  useNotifications,
+  useUpdateNotifications,
+  type NotificationAction,
+} from '@/hooks/api';
+import {
+  NOTIFICATION_TYPE_OPTIONS,
+  getNotificationHref,
+  groupNotifications,
+  type NotificationGroup,
+} from '@/lib/notifications';
+import type { NotificationType, NotificationWithContext } from '@/types/board';
 
-const typeIcons: Record<string, typeof Bell> = {
-  board_invite: UserPlus,
+const typeIcons: Record<NotificationType, typeof Bell> = {
   task_assigned: FileText,
-  task_due: Bell,
-  comment_mention: Mail,
+  task_due_soon: Clock,
+  task_overdue: Clock,
+  comment_added: MessageSquare,
+  comment_mention: AtSign,
+  board_invite: UserPlus,
   board_role_changed: UserPlus,
+  task_moved: MoveRight,
+  task_updated: Pencil,
 };
 
-export default function NotificationsPage() {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [marking, setMarking] = useState(false);
+const actionMessages: Record<NotificationAction, string> = {
+  read: 'Marked as read',
+  unread: 'Marked as unread',
+  archive: 'Archived',
+  unarchive: 'Moved to inbox',
+};
 
-  useEffect(() => {
-    fetchNotifications();
-  }, []);
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diff = now.getTime() - date.getTime();
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(diff / 86400000);
 
-  const fetchNotifications = async () => {
-    try {
-      setLoading(true);
-      const response = await fetch('/api/notifications?limit=50');
-      const data = await response.json();
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  if (days < 7) return `${days}d ago`;
+  return date.toLocaleDateString();
+};
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch notifications');
-      }
+const iconButtonClass =
+  'p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors';
 
-      setNotifications(data.notifications || []);
-    } catch (error) {
-      console.error('Error fetching notifications:', error);
-      toast.error('Failed to load notifications');
-    } finally {
-      setLoading(false);
-    }
-  };
+export default function NotificationsPage() {
+  const [archived, setArchived] = useState(false);
+  const [type, setType] = useState<NotificationType | ''>('');
+  const [boardId, setBoardId] = useState('');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [grouped, setGrouped] = useState(true);
+
+  const { data: boards = [] } = useBoards();
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useNotifications({
+      types: type ? [type] : undefined,
+      boardId: boardId || undefined,
+      unreadOnly,
+      archived,
+    });
+  const updateNotifications = useUpdateNotifications();
+  const deleteNotifications = useDeleteNotifications();
 
-  const markAllAsRead = async () => {
-    setMarking(true);
+  const notifications = useMemo(
+    () => data?.pages.flatMap((page) => page.notifications) ?? [],
+    [data]
+  );
+  const groups = useMemo(() => groupNotifications(notifications), [notifications]);
+  const unreadCount = data?.pages[0]?.unread_count ?? 0;
+  const isFiltered = !!type || !!boardId || unreadOnly;
+
+  const runAction = async (action: NotificationAction, ids?: string[]) => {
     try {
-      const response = await fetchWithCsrf('/api/notifications', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mark_all: true }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to mark as read');
+      await updateNotifications.mutateAsync({ action, ids });
+      if (!ids || ids.length > 1 || action === 'archive' || action === 'unarchive') {
+        toast.success(actionMessages[action]);
       }
-
-      setNotifications((prev) =>
-        prev.map((n) => ({ ...n, read_at: n.read_at || new Date().toISOString() }))
-      );
-      toast.success('All marked as read');
     } catch (error) {
-      console.error('Error marking notifications:', error);
-      toast.error('Failed to mark as read');
-    } finally {
-      setMarking(false);
+      toast.error(error instanceof Error ? error.message : 'Failed to update notifications');
     }
   };
 
-  const markAsRead = async (id: string) => {
+  const handleDelete = async (ids: string[]) => {
     try {
-      const response = await fetchWithCsrf('/api/notifications', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ notification_ids: [id] }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to mark as read');
-      }
-
-      setNotifications((prev) =>
-        prev.map((n) => (n.id === id ? { ...n, read_at: new Date().toISOString() } : n))
-      );
+      await deleteNotifications.mutateAsync(ids);
+      toast.success(ids.length === 1 ? 'Notification deleted' : 'Notifications deleted');
     } catch (error) {
-      console.error('Error marking notification:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete notifications');
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const minutes = Math.floor(diff / 60000);
-    const hours = Math.floor(diff / 3600000);
-    const days = Math.floor(diff / 86400000);
-
-    if (minutes < 1) return 'just now';
-    if (minutes < 60) return `${minutes}m ago`;
-    if (hours < 24) return `${hours}h ago`;
-    if (days < 7) return `${days}d ago`;
-    return date.toLocaleDateString();
+  const renderNotification = (notification: NotificationWithContext, showContext: boolean) => {
+    const Icon = typeIcons[notification.type] || Bell;
+    const isUnread = !notification.read_at;
+    const href = getNotificationHref(notification);
+    const context = [notification.board?.name, notification.task?.title]
+      .filter(Boolean)
+      .join(' / ');
+
+    const content = (
+      <>
+        <div
+          className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${
+            isUnread ? 'bg-blue-100 dark:bg-blue-900/50' : 'bg-gray-100 dark:bg-gray-700'
+          }`}
+        >
+          <Icon
+            className={`h-5 w-5 ${isUnread ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500'}`}
+          />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start gap-2">
+            <p
+              className={`font-medium ${isUnread ? 'text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}
+            >
+              {notification.title}
+            </p>
+            {isUnread && (
+              <span
+                className="w-2 h-2 bg-blue-600 rounded-full flex-shrink-0 mt-2"
+                aria-label="Unread"
+              />
+            )}
+          </div>
+          {notification.message && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-0.5">
+              {notification.message}
+            </p>
+          )}
+          <p className="text-xs text-gray-400 mt-1">
+            {showContext && context ? `${context} · ` : ''}
+            {formatDate(notification.created_at)}
+          </p>
+        </div>
+      </>
+    );
+
+    return (
+      <li
+        key={notification.id}
+        className={`group flex items-start gap-2 p-4 rounded-xl transition-colors ${
+          isUnread
+            ? 'bg-blue-50 dark:bg-blue-900/20'
+            : 'bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+        }`}
+      >
+        {href ? (
+          <Link
+            href={href}
+            onClick={() => isUnread && runAction('read', [notification.id])}
+            className="flex flex-1 gap-4 min-w-0"
+          >
+            {content}
+          </Link>
+        ) : (
+          <div
+            onClick={() => isUnread && runAction('read', [notification.id])}
+            className="flex flex-1 gap-4 min-w-0 cursor-pointer"
+          >
+            {content}
+          </div>
+        )}
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => runAction(isUnread ? 'read' : 'unread', [notification.id])}
+            className={iconButtonClass}
+            aria-label={isUnread ? 'Mark as read' : 'Mark as unread'}
+            title={isUnread ? 'Mark as read' : 'Mark as unread'}
+          >
+            {isUnread ? <MailOpen className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
+          </button>
+          <button
+            type="button"
+            onClick={() => runAction(archived ? 'unarchive' : 'archive', [notification.id])}
+            className={iconButtonClass}
+            aria-label={archived ? 'Move to inbox' : 'Archive'}
+            title={archived ? 'Move to inbox' : 'Archive'}
+          >
+            {archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDelete([notification.id])}
+            className={`${iconButtonClass} hover:!text-red-600`}
+            aria-label="Delete"
+            title="Delete"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </li>
+    );
   };
 
-  const unreadCount = notifications.filter((n) => !n.read_at).length;
+  const renderGroup = (group: NotificationGroup) => {
+    const ids = group.notifications.map((n) => n.id);
+    const href = group.boardId
+      ? getNotificationHref({ board_id: group.boardId, task_id: group.taskId })
+      : null;
 
-  if (loading) {
     return (
-      <div className="flex items-center justify-center min-h-[60vh]">
-        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
-      </div>
+      <section key={group.key} aria-label={group.title}>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="min-w-0">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+              {href ? (
+                <Link href={href} className="hover:underline">
+                  {group.title}
+                </Link>
+              ) : (
+                group.title
+              )}
+              {group.unreadCount > 0 && (
+                <span className="ml-2 px-1.5 py-0.5 text-xs font-medium bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300 rounded-full">
+                  {group.unreadCount}
+                </span>
+              )}
+            </h2>
+            {group.subtitle && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{group.subtitle}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {group.unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => runAction('read', ids)}
+                className={iconButtonClass}
+                aria-label={`Mark ${group.title} as read`}
+                title="Mark group as read"
+              >
+                <CheckCheck className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => runAction(archived ? 'unarchive' : 'archive', ids)}
+              className={iconButtonClass}
+              aria-label={`${archived ? 'Move to inbox' : 'Archive'}: ${group.title}`}
+              title={archived ? 'Move group to inbox' : 'Archive group'}
+            >
+              {archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+            </button>
+          </div>
+        </div>
+        <ul className="space-y-2">
+          {group.notifications.map((notification) => renderNotification(notification, false))}
+        </ul>
+      </section>
     );
-  }
+  };
+
+  const selectClass =
+    'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
 
   return (
     <div className="p-6 max-w-2xl mx-auto">
@@ -142,13 +301,13 @@ export default function NotificationsPage() {
           </div>
         </div>
 
-        {unreadCount > 0 && (
+        {!archived && unreadCount > 0 && (
           <button
-            onClick={markAllAsRead}
-            disabled={marking}
+            onClick={() => runAction('read')}
+            disabled={updateNotifications.isPending}
             className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
           >
-            {marking ? (
+            {updateNotifications.isPending ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
               <CheckCheck className="h-4 w-4" />
@@ -158,64 +317,120 @@ export default function NotificationsPage() {
         )}
       </div>
 
-      {notifications.length === 0 ? (
+      <div className="flex items-center gap-1 mb-4 border-b border-gray-200 dark:border-gray-700">
+        {[
+          { value: false, label: 'Inbox', icon: Bell },
+          { value: true, label: 'Archived', icon: Archive },
+        ].map(({ value, label, icon: TabIcon }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => setArchived(value)}
+            aria-pressed={archived === value}
+            className={`flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+              archived === value
+                ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white'
+            }`}
+          >
+            <TabIcon className="h-4 w-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as NotificationType | '')}
+          className={selectClass}
+          aria-label="Filter by type"
+        >
+          <option value="">All types</option>
+          {NOTIFICATION_TYPE_OPTIONS.map((option) => (
+            <option key={option.type} value={option.type}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={boardId}
+          onChange={(e) => setBoardId(e.target.value)}
+          className={selectClass}
+          aria-label="Filter by board"
+        >
+          <option value="">All boards</option>
+          {boards.map((board) => (
+            <option key={board.id} value={board.id}>
+              {board.name}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={unreadOnly}
+            onChange={(e) => setUnreadOnly(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Unread only
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={grouped}
+            onChange={(e) => setGrouped(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Group by task or board
+        </label>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      ) : isError ? (
+        <p className="text-center py-12 text-gray-600 dark:text-gray-400">
+          Failed to load notifications
+        </p>
+      ) : notifications.length === 0 ? (
         <div className="text-center py-12">
           <Bell className="h-16 w-16 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
           <h2 className="text-xl font-medium text-gray-900 dark:text-white mb-2">
-            No notifications yet
+            {isFiltered
+              ? 'No matching notifications'
+              : archived
+                ? 'No archived notifications'
+                : 'No notifications yet'}
           </h2>
           <p className="text-gray-600 dark:text-gray-400">
-            You&apos;ll see notifications here when there&apos;s activity
+            {isFiltered
+              ? 'Try clearing the filters'
+              : archived
+                ? 'Archived notifications show up here'
+                : "You'll see notifications here when there's activity"}
           </p>
         </div>
+      ) : grouped ? (
+        <div className="space-y-6">{groups.map(renderGroup)}</div>
       ) : (
-        <div className="space-y-2">
-          {notifications.map((notification) => {
-            const Icon = typeIcons[notification.type] || Bell;
-            const isUnread = !notification.read_at;
-
-            return (
-              <div
-                key={notification.id}
-                onClick={() => isUnread && markAsRead(notification.id)}
-                className={`flex gap-4 p-4 rounded-xl cursor-pointer transition-colors ${
-                  isUnread
-                    ? 'bg-blue-50 dark:bg-blue-900/20'
-                    : 'bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700/50'
-                }`}
-              >
-                <div
-                  className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${
-                    isUnread ? 'bg-blue-100 dark:bg-blue-900/50' : 'bg-gray-100 dark:bg-gray-700'
-                  }`}
-                >
-                  <Icon
-                    className={`h-5 w-5 ${
-                      isUnread ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500'
-                    }`}
-                  />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between gap-2">
-                    <p
-                      className={`font-medium ${isUnread ? 'text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}
-                    >
-                      {notification.title}
-                    </p>
-                    {isUnread && (
-                      <span className="w-2 h-2 bg-blue-600 rounded-full flex-shrink-0 mt-2" />
-                    )}
-                  </div>
-                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-0.5">
-                    {notification.message}
-                  </p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    {formatDate(notification.created_at)}
-                  </p>
-                </div>
-              </div>
-            );
-          })}
+        <ul className="space-y-2">
+          {notifications.map((notification) => renderNotification(notification, true))}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center mt-6">
+          <button
+            type="button"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-60"
+          >
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin" />}
+            Load more
+          </button>
         </div>
       )}
     </div>
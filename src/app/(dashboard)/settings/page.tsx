@@ -2,11 +2,23 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, Loader2, User, Bell, Mail, Save, Check } from 'lucide-react';
+import { ArrowLeft, Loader2, User, Bell, BellOff, Eye, Mail, Save, Check, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 import FormInput from '@/components/ui/FormInput';
 import { useFormValidation } from '@/hooks/useFormValidation';
 import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+import {
+  EMAIL_TEMPLATE_BY_TYPE,
+  NOTIFICATION_TYPE_OPTIONS,
+  getNotificationChannels,
+} from '@/lib/notifications';
+import type {
+  EmailFrequency,
+  NotificationChannels,
+  NotificationPreferences,
+  NotificationSubscription,
+  NotificationType,
+} from '@/types/board';
 
 const validationRules = {
   displayName: {
@@ -22,25 +34,35 @@ interface Profile {
   email: string;
   display_name: string | null;
   avatar_url: string | null;
-  notification_preferences: {
-    email_task_assigned: boolean;
-    email_task_due: boolean;
-    email_comments: boolean;
-    email_board_invites: boolean;
-  };
+  notification_preferences: Partial<NotificationPreferences>;
 }
 
+type SubscriptionWithTarget = NotificationSubscription & {
+  board: { id: string; name: string } | null;
+  task: { id: string; title: string } | null;
+};
+
+type ChannelMatrix = Record<NotificationType, NotificationChannels>;
+
+const buildChannelMatrix = (preferences?: Partial<NotificationPreferences> | null) =>
+  Object.fromEntries(
+    NOTIFICATION_TYPE_OPTIONS.map(({ type }) => [type, getNotificationChannels(preferences, type)])
+  ) as ChannelMatrix;
+
+const frequencyOptions: { value: EmailFrequency; label: string; description: string }[] = [
+  { value: 'instant', label: 'Instantly', description: 'One email per notification' },
+  { value: 'hourly', label: 'Hourly digest', description: 'At most one email an hour' },
+  { value: 'daily', label: 'Daily digest', description: 'At most one email a day' },
+];
+
 export default function SettingsPage() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [displayName, setDisplayName] = useState('');
-  const [preferences, setPreferences] = useState({
-    email_task_assigned: true,
-    email_task_due: true,
-    email_comments: true,
-    email_board_invites: true,
-  });
+  const [channels, setChannels] = useState<ChannelMatrix>(() => buildChannelMatrix());
+  const [subscriptions, setSubscriptions] = useState<SubscriptionWithTarget[]>([]);
+  const [emailFrequency, setEmailFrequency] = useState<EmailFrequency>('instant');
 
   const { getFieldError, handleBlur, validateAllFields, clearErrors } = useFormValidation<{
     displayName: string;
@@ -53,18 +75,22 @@ export default function SettingsPage() {
 
   const fetchProfile = async () => {
     try {
-      const response = await fetch('/api/profile');
+      const [response, subscriptionsResponse] = await Promise.all([
+        fetch('/api/profile'),
+        fetch('/api/profile/subscriptions'),
+      ]);
       const data = await response.json();
 
+      if (subscriptionsResponse.ok) {
+        const { subscriptions } = await subscriptionsResponse.json();
+        setSubscriptions(subscriptions || []);
+      }
+
       if (response.ok && data.profile) {
         setProfile(data.profile);
         setDisplayName(data.profile.display_name || '');
-        setPreferences({
-          email_task_assigned: data.profile.notification_preferences?.email_task_assigned ?? true,
-          email_task_due: data.profile.notification_preferences?.email_task_due ?? true,
-          email_comments: data.profile.notification_preferences?.email_comments ?? true,
-          email_board_invites: data.profile.notification_preferences?.email_board_invites ?? true,
-        });
+        setChannels(buildChannelMatrix(data.profile.notification_preferences));
+        setEmailFrequency(data.profile.notification_preferences?.email_frequency ?? 'instant');
         clearErrors();
       }
     } catch (error) {
@@ -110,7 +136,7 @@ export default function SettingsPage() {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          notification_preferences: preferences,
+          notification_preferences: { channels, email_frequency: emailFrequency },
         }),
       });
 
@@ -128,13 +154,31 @@ export default function SettingsPage() {
     }
   };
 
-  const togglePreference = (key: keyof typeof preferences) => {
-    setPreferences((prev) => ({
+  const toggleChannel = (type: NotificationType, channel: keyof NotificationChannels) => {
+    setChannels((prev) => ({
       ...prev,
-      [key]: !prev[key],
+      [type]: { ...prev[type], [channel]: !prev[type][channel] },
     }));
   };
 
+  const handleRemoveSubscription = async (subscription: SubscriptionWithTarget) => {
+    const url = subscription.task_id
+      ? `/api/boards/${subscription.board_id}/tasks/${subscription.task_id}/subscription`
+      : `/api/boards/${subscription.board_id}/subscription`;
+
+    try {
+      const response = await fetchWithCsrf(url, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update notifications');
+      }
+      setSubscriptions((prev) => prev.filter((s) => s.id !== subscription.id));
+    } catch (error) {
+      console.error('Error removing subscription:', error);
+      toast.error('Failed to update notifications');
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -197,113 +241,100 @@ export default function SettingsPage() {
         </div>
       </div>
 
-      {/* Email Notifications Section */}
+      {/* Notifications Section */}
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
         <div className="flex items-center gap-3 mb-4">
           <div className="w-10 h-10 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center">
             <Mail className="h-5 w-5 text-green-600" />
           </div>
           <div>
-            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-              Email Notifications
-            </h2>
-            <p className="text-sm text-gray-500">Choose when to receive email updates</p>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Notifications</h2>
+            <p className="text-sm text-gray-500">
+              Choose where each kind of notification reaches you
+            </p>
           </div>
         </div>
 
-        <div className="space-y-3">
-          <label className="flex items-center justify-between p-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg cursor-pointer transition-colors">
-            <div className="flex items-center gap-3">
-              <Bell className="h-5 w-5 text-gray-400" />
-              <div>
-                <p className="font-medium text-gray-900 dark:text-white">Task Assigned</p>
-                <p className="text-sm text-gray-500">When a task is assigned to you</p>
-              </div>
-            </div>
-            <button
-              type="button"
-              onClick={() => togglePreference('email_task_assigned')}
-              className={`relative w-11 h-6 rounded-full transition-colors ${
-                preferences.email_task_assigned ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
-              }`}
-            >
-              <span
-                className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
-                  preferences.email_task_assigned ? 'translate-x-5' : ''
-                }`}
-              />
-            </button>
-          </label>
-
-          <label className="flex items-center justify-between p-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg cursor-pointer transition-colors">
-            <div className="flex items-center gap-3">
-              <Bell className="h-5 w-5 text-gray-400" />
-              <div>
-                <p className="font-medium text-gray-900 dark:text-white">Due Date Reminder</p>
-                <p className="text-sm text-gray-500">When a task is due soon</p>
-              </div>
-            </div>
-            <button
-              type="button"
-              onClick={() => togglePreference('email_task_due')}
-              className={`relative w-11 h-6 rounded-full transition-colors ${
-                preferences.email_task_due ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
-              }`}
-            >
-              <span
-                className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
-                  preferences.email_task_due ? 'translate-x-5' : ''
-                }`}
-              />
-            </button>
-          </label>
-
-          <label className="flex items-center justify-between p-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg cursor-pointer transition-colors">
-            <div className="flex items-center gap-3">
-              <Bell className="h-5 w-5 text-gray-400" />
-              <div>
-                <p className="font-medium text-gray-900 dark:text-white">Comments</p>
-                <p className="text-sm text-gray-500">When someone comments on your task</p>
-              </div>
-            </div>
-            <button
-              type="button"
-              onClick={() => togglePreference('email_comments')}
-              className={`relative w-11 h-6 rounded-full transition-colors ${
-                preferences.email_comments ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
-              }`}
-            >
-              <span
-                className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
-                  preferences.email_comments ? 'translate-x-5' : ''
-                }`}
-              />
-            </button>
-          </label>
-
-          <label className="flex items-center justify-between p-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg cursor-pointer transition-colors">
-            <div className="flex items-center gap-3">
-              <Bell className="h-5 w-5 text-gray-400" />
-              <div>
-                <p className="font-medium text-gray-900 dark:text-white">Board Invitations</p>
-                <p className="text-sm text-gray-500">When you&apos;re invited to a board</p>
-              </div>
-            </div>
-            <button
-              type="button"
-              onClick={() => togglePreference('email_board_invites')}
-              className={`relative w-11 h-6 rounded-full transition-colors ${
-                preferences.email_board_invites ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
-              }`}
-            >
-              <span
-                className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
-                  preferences.email_board_invites ? 'translate-x-5' : ''
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-xs uppercase tracking-wide text-gray-500">
+              <th scope="col" className="py-2 font-medium">
+                Notification
+              </th>
+              <th scope="col" className="w-20 py-2 text-center font-medium">
+                In-app
+              </th>
+              <th scope="col" className="w-20 py-2 text-center font-medium">
+                Email
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {NOTIFICATION_TYPE_OPTIONS.map(({ type, label, description }) => (
+              <tr key={type}>
+                <th scope="row" className="py-3 pr-4 font-normal">
+                  <p className="font-medium text-gray-900 dark:text-white">{label}</p>
+                  <p className="text-sm text-gray-500">{description}</p>
+                </th>
+                <td className="py-3 text-center">
+                  <input
+                    type="checkbox"
+                    checked={channels[type].in_app}
+                    onChange={() => toggleChannel(type, 'in_app')}
+                    aria-label={`${label} in the app`}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="py-3 text-center">
+                  {EMAIL_TEMPLATE_BY_TYPE[type] ? (
+                    <input
+                      type="checkbox"
+                      checked={channels[type].email}
+                      onChange={() => toggleChannel(type, 'email')}
+                      aria-label={`${label} by email`}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <span className="text-sm text-gray-400" title="No email for this notification">
+                      —
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <fieldset className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <legend className="sr-only">Email frequency</legend>
+          <p className="font-medium text-gray-900 dark:text-white">Delivery</p>
+          <p className="text-sm text-gray-500 mb-3">
+            Get each email right away, or batch them into a digest
+          </p>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {frequencyOptions.map((option) => (
+              <label
+                key={option.value}
+                className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                  emailFrequency === option.value
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                    : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
                 }`}
-              />
-            </button>
-          </label>
-        </div>
+              >
+                <input
+                  type="radio"
+                  name="email_frequency"
+                  value={option.value}
+                  checked={emailFrequency === option.value}
+                  onChange={() => setEmailFrequency(option.value)}
+                  className="sr-only"
+                />
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.description}</p>
+              </label>
+            ))}
+          </div>
+        </fieldset>
 
         <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
           <button
@@ -316,6 +347,70 @@ export default function SettingsPage() {
           </button>
         </div>
       </div>
+
+      {/* Watched and Muted Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mt-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-full bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center">
+            <Bell className="h-5 w-5 text-purple-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Watched and Muted
+            </h2>
+            <p className="text-sm text-gray-500">
+              Watch or mute a board from its header, or a task from its details panel
+            </p>
+          </div>
+        </div>
+
+        {subscriptions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            You are not watching or muting any boards or tasks.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {subscriptions.map((subscription) => (
+              <li key={subscription.id} className="flex items-center justify-between gap-3 py-3">
+                <div className="flex min-w-0 items-center gap-3">
+                  {subscription.level === 'watch' ? (
+                    <Eye className="h-5 w-5 flex-shrink-0 text-blue-600" aria-label="Watching" />
+                  ) : (
+                    <BellOff className="h-5 w-5 flex-shrink-0 text-gray-400" aria-label="Muted" />
+                  )}
+                  <div className="min-w-0">
+                    <Link
+                      href={
+                        subscription.task_id
+                          ? `/boards/${subscription.board_id}?task=${subscription.task_id}`
+                          : `/boards/${subscription.board_id}`
+                      }
+                      className="block truncate font-medium text-gray-900 hover:underline dark:text-white"
+                    >
+                      {subscription.task?.title ?? subscription.board?.name ?? 'Untitled'}
+                    </Link>
+                    <p className="text-sm text-gray-500">
+                      {subscription.level === 'watch' ? 'Watching' : 'Muted'}{' '}
+                      {subscription.task_id
+                        ? `task on ${subscription.board?.name ?? 'a board'}`
+                        : 'board'}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveSubscription(subscription)}
+                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  aria-label="Back to default notifications"
+                  title="Back to default notifications"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ExportQuerySchema, validateSearchParams } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import {
+  BOARD_EXPORT_FORMAT,
+  BOARD_EXPORT_VERSION,
+  getExportContentType,
+  getExportFilename,
+  getReferencedUserIds,
+  serializeBoard,
+  type BoardExport,
+  type ExportStatus,
+} from '@/lib/export';
+
+type RouteParams = { params: Promise<{ boardId: string }> };
+
+// GET /api/boards/[boardId]/export?format=json|csv|md - Download the board
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    // Authorize user for board read access
+    const { userId } = await authorizeBoard(boardId, 'board:read');
+
+    // Exports load the whole board, so they get a tighter limit than reads
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.export, 'boards:export');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = validateSearchParams(ExportQuerySchema, searchParams);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { format } = validation.data;
+    const supabase = await createClient();
+
+    const { data: board, error } = await supabase
+      .from('boards')
+      .select(
+        `
+        *,
+        statuses:statuses(
+          *,
+          tasks:tasks(
+            *,
+            assignees:task_assignees(user_id, assigned_by, created_at),
+            checklist_items(*),
+            comments(*),
+            attachments(id, user_id, filename, file_size, mime_type, storage_path, created_at)
+          )
+        )
+      `
+      )
+      .eq('id', boardId)
+      .single();
+
+    if (error || !board) {
+      if (error?.code === 'PGRST116' || !board) {
+        return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+      }
+      console.error('Error exporting board:', error);
+      return NextResponse.json({ error: 'Failed to export board' }, { status: 500 });
+    }
+
+    const { statuses: rawStatuses, ...boardRow } = board;
+
+    // Keep board order, and a stable order for nested rows
+    const statuses: ExportStatus[] = [...(rawStatuses || [])]
+      .sort((a, b) => a.order - b.order)
+      .map((status) => ({
+        ...status,
+        tasks: [...(status.tasks || [])]
+          .sort((a, b) => a.order - b.order)
+          .map((task) => ({
+            ...task,
+            assignees: [...task.assignees].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+            checklist_items: [...task.checklist_items].sort((a, b) => a.order - b.order),
+            comments: [...task.comments].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+            attachments: [...task.attachments].sort((a, b) =>
+              a.created_at.localeCompare(b.created_at)
+            ),
+          })),
+      }));
+
+    const userIds = getReferencedUserIds(statuses);
+    const { data: users } =
+      userIds.length > 0
+        ? await supabase.from('profiles').select('id, email, display_name').in('id', userIds)
+        : { data: [] };
+
+    const exportData: BoardExport = {
+      format: BOARD_EXPORT_FORMAT,
+      version: BOARD_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      board: boardRow,
+      users: users || [],
+      statuses,
+    };
+
+    const filename = getExportFilename(board.name, format);
+
+    return new NextResponse(serializeBoard(exportData, format), {
+      headers: {
+        'Content-Type': getExportContentType(format),
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/export:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+
+type RouteParams = { params: Promise<{ boardId: string; filterId: string }> };
+
+// DELETE /api/boards/[boardId]/filters/[filterId] - Delete an own saved filter
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, filterId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'board:read');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'filters:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+    const { data: deleted, error } = await supabase
+      .from('saved_filters')
+      .delete()
+      .eq('id', filterId)
+      .eq('board_id', boardId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting saved filter:', error);
+      return NextResponse.json({ error: 'Failed to delete saved filter' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Saved filter not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in DELETE /api/boards/[boardId]/filters/[filterId]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
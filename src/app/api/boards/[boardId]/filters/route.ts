@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { SaveFilterSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+
+type RouteParams = { params: Promise<{ boardId: string }> };
+
+/** Keeps the saved filter menu short */
+const MAX_SAVED_FILTERS_PER_BOARD = 20;
+
+// GET /api/boards/[boardId]/filters - Own saved filters for the board
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'board:read');
+
+    const supabase = await createClient();
+    const { data: filters, error } = await supabase
+      .from('saved_filters')
+      .select('*')
+      .eq('board_id', boardId)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching saved filters:', error);
+      return NextResponse.json({ error: 'Failed to fetch saved filters' }, { status: 500 });
+    }
+
+    return NextResponse.json({ filters });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/filters:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/boards/[boardId]/filters - Save a named filter, replacing one with the same name
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'board:read');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'filters:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(SaveFilterSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { name, filters } = validation.data;
+    const supabase = await createClient();
+
+    const { data: existing } = await supabase
+      .from('saved_filters')
+      .select('name')
+      .eq('board_id', boardId)
+      .eq('user_id', userId);
+
+    if (
+      (existing?.length ?? 0) >= MAX_SAVED_FILTERS_PER_BOARD &&
+      !existing?.some((filter) => filter.name === name)
+    ) {
+      return NextResponse.json(
+        { error: `You can save at most ${MAX_SAVED_FILTERS_PER_BOARD} filters per board` },
+        { status: 400 }
+      );
+    }
+
+    const { data: filter, error } = await supabase
+      .from('saved_filters')
+      .upsert(
+        { user_id: userId, board_id: boardId, name, filters },
+        { onConflict: 'user_id,board_id,name' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving filter:', error);
+      return NextResponse.json({ error: 'Failed to save filter' }, { status: 500 });
+    }
+
+    return NextResponse.json({ filter }, { status: 201 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in POST /api/boards/[boardId]/filters:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
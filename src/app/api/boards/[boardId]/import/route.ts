@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import type { Json } from '@/lib/supabase/types';
+import { ImportRequestSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { getAssignableUserIds } from '@/lib/tasks';
+import { DEFAULT_IMPORT_STATUS, parseImport, prepareImport } from '@/lib/import';
+
+type RouteParams = { params: Promise<{ boardId: string }> };
+
+// POST /api/boards/[boardId]/import - Preview (dry_run) or import tasks from a file
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    // Imports can create statuses as well as tasks
+    const { userId } = await authorizeBoard(boardId, 'status:create');
+
+    // Imports write a whole board at once, so they get a tighter limit than writes
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.import, 'boards:import');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(ImportRequestSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { source, content, mapping, dry_run } = validation.data;
+    const supabase = await createClient();
+
+    const [{ data: statuses }, assignableIds] = await Promise.all([
+      supabase.from('statuses').select('name').eq('board_id', boardId).order('order'),
+      getAssignableUserIds(supabase, boardId),
+    ]);
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, email')
+      .in('id', [...assignableIds, userId]);
+
+    const parsed = parseImport(source, content, {
+      mapping,
+      defaultStatus: statuses?.[0]?.name || DEFAULT_IMPORT_STATUS,
+    });
+
+    const { payload, preview } = prepareImport(parsed, {
+      existingStatuses: statuses || [],
+      members: (profiles || [])
+        .filter((profile) => assignableIds.has(profile.id))
+        .map((profile) => ({ user_id: profile.id, email: profile.email })),
+      importerEmail: profiles?.find((profile) => profile.id === userId)?.email,
+    });
+
+    if (dry_run) {
+      return NextResponse.json({ preview });
+    }
+
+    // All or nothing: fix the file and try again
+    if (preview.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Import has errors, nothing was imported', preview },
+        { status: 422 }
+      );
+    }
+
+    const { data: result, error } = await supabase.rpc('import_board_data', {
+      p_board_id: boardId,
+      p_payload: payload as unknown as Json,
+    });
+
+    if (error) {
+      console.error('Error importing board:', error);
+      return NextResponse.json({ error: 'Failed to import board' }, { status: 500 });
+    }
+
+    // Log activity
+    await supabase.from('activities').insert({
+      board_id: boardId,
+      user_id: userId,
+      action: 'board_updated',
+      details: { import: { source, ...result } },
+    });
+
+    return NextResponse.json({ result, preview }, { status: 201 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in POST /api/boards/[boardId]/import:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
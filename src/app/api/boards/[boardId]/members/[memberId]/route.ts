@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { notifyUsers } from '@/lib/notifications';
 
 // PATCH /api/boards/[boardId]/members/[memberId] - Update member role
 export async function PATCH(
@@ -85,12 +86,13 @@ export async function PATCH(
     const memberWithProfile = { ...member, profile };
 
     // Create notification
-    await supabase.from('notifications').insert({
-      user_id: targetMember.user_id,
+    await notifyUsers(supabase, {
       type: 'board_role_changed',
+      recipientIds: [targetMember.user_id],
+      actorId: user.id,
       title: 'Role Updated',
       message: `Your role has been changed to ${role}`,
-      board_id: boardId,
+      boardId,
     });
 
     // Log activity
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { notifyUsers } from '@/lib/notifications';
 
 // GET /api/boards/[boardId]/members
 export async function GET(
@@ -188,13 +189,23 @@ export async function POST(
       profile: memberProfile,
     };
 
-    // Create notification for invitee
-    await supabase.from('notifications').insert({
-      user_id: inviteeProfile.id,
+    // Notify the invitee (and queue the invitation email)
+    const [{ data: boardDetails }, { data: inviter }] = await Promise.all([
+      supabase.from('boards').select('name').eq('id', boardId).single(),
+      supabase.from('profiles').select('display_name, email').eq('id', user.id).single(),
+    ]);
+    const inviterName = inviter?.display_name || inviter?.email || 'Someone';
+
+    await notifyUsers(supabase, {
       type: 'board_invite',
+      recipientIds: [inviteeProfile.id],
+      actorId: user.id,
       title: 'Board Invitation',
-      message: `You have been invited to join a board`,
-      board_id: boardId,
+      message: boardDetails?.name
+        ? `${inviterName} invited you to join "${boardDetails.name}"`
+        : `You have been invited to join a board`,
+      boardId,
+      emailData: { inviterName, boardName: boardDetails?.name, boardId },
     });
 
     // Log activity
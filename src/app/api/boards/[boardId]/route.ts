@@ -21,7 +21,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         *,
         statuses:statuses(
           *,
-          tasks:tasks(*)
+          tasks:tasks(
+            *,
+            assignees:task_assignees(
+              *,
+              profile:profiles(id, email, display_name, avatar_url)
+            ),
+            checklist_items(id, is_completed)
+          )
         )
       `
       )
@@ -31,7 +31,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { name, color, order } = body;
+    const { name, color, order, wip_limit, wip_limit_mode } = body;
 
     // Validation
     if (name !== undefined) {
@@ -54,10 +54,30 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Order must be a non-negative number' }, { status: 400 });
     }
 
-    const updateData: Record<string, string | number> = {};
+    if (
+      wip_limit !== undefined &&
+      wip_limit !== null &&
+      (!Number.isInteger(wip_limit) || wip_limit < 1)
+    ) {
+      return NextResponse.json(
+        { error: 'WIP limit must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    if (wip_limit_mode !== undefined && !['soft', 'hard'].includes(wip_limit_mode)) {
+      return NextResponse.json(
+        { error: 'WIP limit mode must be one of: soft, hard' },
+        { status: 400 }
+      );
+    }
+
+    const updateData: Record<string, string | number | null> = {};
     if (name !== undefined) updateData.name = name.trim();
     if (color !== undefined) updateData.color = color;
     if (order !== undefined) updateData.order = order;
+    if (wip_limit !== undefined) updateData.wip_limit = wip_limit;
+    if (wip_limit_mode !== undefined) updateData.wip_limit_mode = wip_limit_mode;
 
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
@@ -76,7 +76,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { name, color } = body;
+    const { name, color, wip_limit, wip_limit_mode } = body;
 
     // Validation
     if (!name || typeof name !== 'string') {
@@ -94,6 +94,24 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (
+      wip_limit !== undefined &&
+      wip_limit !== null &&
+      (!Number.isInteger(wip_limit) || wip_limit < 1)
+    ) {
+      return NextResponse.json(
+        { error: 'WIP limit must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    if (wip_limit_mode !== undefined && !['soft', 'hard'].includes(wip_limit_mode)) {
+      return NextResponse.json(
+        { error: 'WIP limit mode must be one of: soft, hard' },
+        { status: 400 }
+      );
+    }
+
     // Get next order
     const { data: maxOrder } = await supabase
       .from('statuses')
@@ -112,6 +130,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         name: name.trim(),
         color: color || '#6B7280',
         order: nextOrder,
+        wip_limit: wip_limit ?? null,
+        wip_limit_mode: wip_limit_mode || 'soft',
       })
       .select()
       .single();
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { NotificationSubscriptionSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import {
+  deleteSubscription,
+  fetchSubscriptions,
+  getSubscriptionLevel,
+  saveSubscription,
+} from '@/lib/notifications';
+
+type RouteParams = { params: Promise<{ boardId: string }> };
+
+// GET /api/boards/[boardId]/subscription - Own watch/mute level for the board
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'board:read');
+
+    const supabase = await createClient();
+
+    const subscriptions = await fetchSubscriptions(supabase, boardId);
+
+    return NextResponse.json({
+      level: getSubscriptionLevel(subscriptions, userId),
+    });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/subscription:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/boards/[boardId]/subscription - Watch or mute the board
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'board:read');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'subscriptions:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(NotificationSubscriptionSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const supabase = await createClient();
+
+    const subscription = await saveSubscription(supabase, {
+      userId,
+      boardId,
+      taskId: null,
+      level: validation.data.level,
+    });
+
+    return NextResponse.json({ subscription });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in PUT /api/boards/[boardId]/subscription:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/boards/[boardId]/subscription - Go back to the default notifications for the board
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'board:read');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'subscriptions:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+    await deleteSubscription(supabase, { userId, boardId, taskId: null });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in DELETE /api/boards/[boardId]/subscription:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Integration tests for the task update endpoint
+ * Tests the route handler with a mocked Supabase client
+ */
+
+import { NextRequest } from 'next/server';
+import { PUT } from '../route';
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+// Notifications and recurring tasks have their own tests
+jest.mock('@/lib/tasks', () => ({
+  ...jest.requireActual('@/lib/tasks'),
+  notifyTaskChange: jest.fn(),
+  spawnNextOccurrence: jest.fn().mockResolvedValue(null),
+}));
+
+import { createClient } from '@/lib/supabase/server';
+import { createSupabaseMock } from '@/test-utils/supabase';
+
+const updateRequest = (body: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/boards/board-1/tasks/task-1', {
+    method: 'PUT',
+    body: JSON.stringify(body),
+  });
+
+const params = { params: Promise.resolve({ boardId: 'board-1', taskId: 'task-1' }) };
+
+describe('Tasks API - PUT /api/boards/[boardId]/tasks/[taskId]', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Column changes', () => {
+    it('should return 409 when the new column is at a hard WIP limit', async () => {
+      const { supabase, writes } = createSupabaseMock({
+        boards: [{ data: { id: 'board-1' } }],
+        statuses: [
+          { data: { id: 'status-2', name: 'Doing', wip_limit: 2, wip_limit_mode: 'hard' } },
+        ],
+        tasks: [{ data: { status_id: 'status-1' } }, { count: 2 }],
+      });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await PUT(updateRequest({ status_id: 'status-2' }), params);
+
+      expect(response.status).toBe(409);
+
+      const data = await response.json();
+      expect(data.code).toBe('WIP_LIMIT_EXCEEDED');
+      expect(data.wip_limit).toMatchObject({ limit: 2, count: 3, blocked: true });
+      expect(writes).toHaveLength(0);
+    });
+
+    it('should return 400 when the new column is not on the board', async () => {
+      const { supabase, writes } = createSupabaseMock({
+        boards: [{ data: { id: 'board-1' } }],
+        statuses: [{ data: null }],
+        tasks: [{ data: { status_id: 'status-1' } }],
+      });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await PUT(updateRequest({ status_id: 'other-board-status' }), params);
+
+      expect(response.status).toBe(400);
+      expect(writes).toHaveLength(0);
+    });
+
+    it('should update the task with a warning over a soft WIP limit', async () => {
+      const { supabase, writes } = createSupabaseMock({
+        boards: [{ data: { id: 'board-1' } }],
+        statuses: [
+          { data: { id: 'status-2', name: 'Doing', wip_limit: 2, wip_limit_mode: 'soft' } },
+        ],
+        tasks: [
+          { data: { status_id: 'status-1' } },
+          { count: 2 },
+          { data: { id: 'task-1', title: 'Ship it' } },
+          { data: { id: 'task-1', title: 'Ship it', status_id: 'status-2' } },
+        ],
+      });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await PUT(updateRequest({ status_id: 'status-2' }), params);
+
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.warning).toMatchObject({
+        code: 'WIP_LIMIT_EXCEEDED',
+        message: '"Doing" is over its WIP limit (3/2)',
+      });
+      expect(writes).toEqual([{ table: 'tasks', values: { status_id: 'status-2' } }]);
+    });
+
+    it('should skip the WIP check when the column is unchanged', async () => {
+      const { supabase } = createSupabaseMock({
+        boards: [{ data: { id: 'board-1' } }],
+        tasks: [
+          { data: { status_id: 'status-1' } },
+          { data: { id: 'task-1', title: 'Ship it' } },
+          { data: { id: 'task-1', title: 'Ship it', status_id: 'status-1' } },
+        ],
+      });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await PUT(updateRequest({ status_id: 'status-1' }), params);
+
+      expect(response.status).toBe(200);
+      expect(supabase.from).not.toHaveBeenCalledWith('statuses');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  UpdateChecklistItemSchema,
+  createValidationError,
+  validateRequestBody,
+} from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import {
+  CHECKLIST_ITEM_SELECT,
+  findBoardTask,
+  findNonMemberIds,
+  validateChecklistParent,
+} from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string; itemId: string }> };
+
+// PATCH /api/boards/[boardId]/tasks/[taskId]/checklist/[itemId] - Update or check/uncheck an item
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId, itemId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:update');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(UpdateChecklistItemSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { title, is_completed, parent_id, assignee_id, due_date, order } = validation.data;
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from('checklist_items')
+      .select('id, title, is_completed')
+      .eq('id', itemId)
+      .eq('task_id', taskId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Checklist item not found' }, { status: 404 });
+    }
+
+    if (parent_id) {
+      const parentError = await validateChecklistParent(supabase, taskId, parent_id, itemId);
+      if (parentError) {
+        return createValidationError(parentError, [{ field: 'parent_id', message: parentError }]);
+      }
+    }
+
+    if (assignee_id) {
+      const nonMemberIds = await findNonMemberIds(supabase, boardId, [assignee_id]);
+      if (nonMemberIds.length > 0) {
+        return createValidationError('Assignee must be a member of this board', [
+          { field: 'assignee_id', message: 'Not a board member' },
+        ]);
+      }
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (title !== undefined) updateData.title = title;
+    if (parent_id !== undefined) updateData.parent_id = parent_id;
+    if (assignee_id !== undefined) updateData.assignee_id = assignee_id;
+    if (due_date !== undefined) updateData.due_date = due_date;
+    if (order !== undefined) updateData.order = order;
+    if (is_completed !== undefined) {
+      updateData.is_completed = is_completed;
+      updateData.completed_at = is_completed ? new Date().toISOString() : null;
+      updateData.completed_by = is_completed ? userId : null;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
+    }
+
+    const { data: item, error } = await supabase
+      .from('checklist_items')
+      .update(updateData)
+      .eq('id', itemId)
+      .eq('task_id', taskId)
+      .select(CHECKLIST_ITEM_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error updating checklist item:', error);
+      return NextResponse.json({ error: 'Failed to update checklist item' }, { status: 500 });
+    }
+
+    // Log activity when an item is checked or unchecked
+    if (is_completed !== undefined && is_completed !== existing.is_completed) {
+      await supabase.from('activities').insert({
+        board_id: boardId,
+        task_id: taskId,
+        user_id: userId,
+        action: 'task_updated',
+        details: {
+          task_title: task.title,
+          checklist_item_id: itemId,
+          checklist_item_title: existing.title,
+          completed: is_completed,
+        },
+      });
+    }
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in PATCH /api/boards/[boardId]/tasks/[taskId]/checklist/[itemId]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/boards/[boardId]/tasks/[taskId]/checklist/[itemId] - Delete an item and its sub-items
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId, itemId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:update');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { error } = await supabase
+      .from('checklist_items')
+      .delete()
+      .eq('id', itemId)
+      .eq('task_id', taskId);
+
+    if (error) {
+      console.error('Error deleting checklist item:', error);
+      return NextResponse.json({ error: 'Failed to delete checklist item' }, { status: 500 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error(
+      'Error in DELETE /api/boards/[boardId]/tasks/[taskId]/checklist/[itemId]:',
+      error
+    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  CreateChecklistItemSchema,
+  createValidationError,
+  validateRequestBody,
+} from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import {
+  CHECKLIST_ITEM_SELECT,
+  findBoardTask,
+  findNonMemberIds,
+  validateChecklistParent,
+} from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string }> };
+
+// GET /api/boards/[boardId]/tasks/[taskId]/checklist - List checklist items
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    await authorizeBoard(boardId, 'task:read');
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: items, error } = await supabase
+      .from('checklist_items')
+      .select(CHECKLIST_ITEM_SELECT)
+      .eq('task_id', taskId)
+      .order('order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching checklist items:', error);
+      return NextResponse.json({ error: 'Failed to fetch checklist' }, { status: 500 });
+    }
+
+    return NextResponse.json({ items: items || [] });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/tasks/[taskId]/checklist:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/boards/[boardId]/tasks/[taskId]/checklist - Add a checklist item
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:update');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(CreateChecklistItemSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { title, parent_id, assignee_id, due_date, order } = validation.data;
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (parent_id) {
+      const parentError = await validateChecklistParent(supabase, taskId, parent_id);
+      if (parentError) {
+        return createValidationError(parentError, [{ field: 'parent_id', message: parentError }]);
+      }
+    }
+
+    if (assignee_id) {
+      const nonMemberIds = await findNonMemberIds(supabase, boardId, [assignee_id]);
+      if (nonMemberIds.length > 0) {
+        return createValidationError('Assignee must be a member of this board', [
+          { field: 'assignee_id', message: 'Not a board member' },
+        ]);
+      }
+    }
+
+    // Append to the end of its sibling list unless an order was given
+    let nextOrder = order;
+    if (nextOrder === undefined) {
+      const siblings = supabase
+        .from('checklist_items')
+        .select('order')
+        .eq('task_id', taskId)
+        .order('order', { ascending: false })
+        .limit(1);
+
+      const { data: last } = await (
+        parent_id ? siblings.eq('parent_id', parent_id) : siblings.is('parent_id', null)
+      ).maybeSingle();
+
+      nextOrder = (last?.order ?? -1) + 1;
+    }
+
+    const { data: item, error } = await supabase
+      .from('checklist_items')
+      .insert({
+        task_id: taskId,
+        parent_id,
+        title,
+        assignee_id,
+        due_date,
+        order: nextOrder,
+        created_by: userId,
+      })
+      .select(CHECKLIST_ITEM_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error creating checklist item:', error);
+      return NextResponse.json({ error: 'Failed to create checklist item' }, { status: 500 });
+    }
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in POST /api/boards/[boardId]/tasks/[taskId]/checklist:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ToggleCommentReactionSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { findBoardTask } from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string; commentId: string }> };
+
+// POST /api/boards/[boardId]/tasks/[taskId]/comments/[commentId]/reactions - Add or remove own reaction
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId, commentId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'comment:create');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'comments:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(ToggleCommentReactionSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { emoji } = validation.data;
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: comment } = await supabase
+      .from('comments')
+      .select('id')
+      .eq('id', commentId)
+      .eq('task_id', taskId)
+      .single();
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from('comment_reactions')
+      .select('id')
+      .eq('comment_id', commentId)
+      .eq('user_id', userId)
+      .eq('emoji', emoji)
+      .maybeSingle();
+
+    const { error } = existing
+      ? await supabase.from('comment_reactions').delete().eq('id', existing.id)
+      : await supabase
+          .from('comment_reactions')
+          .insert({ comment_id: commentId, user_id: userId, emoji });
+
+    // A duplicate insert means a concurrent toggle already added it
+    if (error && error.code !== '23505') {
+      console.error('Error toggling comment reaction:', error);
+      return NextResponse.json({ error: 'Failed to update reaction' }, { status: 500 });
+    }
+
+    const { data: reactions } = await supabase
+      .from('comment_reactions')
+      .select('*')
+      .eq('comment_id', commentId)
+      .order('created_at', { ascending: true });
+
+    return NextResponse.json({ reactions: reactions || [], reacted: !existing });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error(
+      'Error in POST /api/boards/[boardId]/tasks/[taskId]/comments/[commentId]/reactions:',
+      error
+    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
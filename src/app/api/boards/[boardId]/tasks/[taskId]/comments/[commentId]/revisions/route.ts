@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { findBoardTask } from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string; commentId: string }> };
+
+// GET /api/boards/[boardId]/tasks/[taskId]/comments/[commentId]/revisions - Edit history, oldest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId, commentId } = await params;
+
+    await authorizeBoard(boardId, 'comment:read');
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: comment } = await supabase
+      .from('comments')
+      .select('id')
+      .eq('id', commentId)
+      .eq('task_id', taskId)
+      .single();
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    const { data: revisions, error } = await supabase
+      .from('comment_revisions')
+      .select('*')
+      .eq('comment_id', commentId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching comment revisions:', error);
+      return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 });
+    }
+
+    const editorIds = [
+      ...new Set((revisions || []).flatMap((r) => (r.edited_by ? [r.edited_by] : []))),
+    ];
+    const { data: editors } =
+      editorIds.length > 0
+        ? await supabase
+            .from('profiles')
+            .select('id, email, display_name, avatar_url')
+            .in('id', editorIds)
+        : { data: [] };
+
+    const revisionsWithEditors = (revisions || []).map((revision) => ({
+      ...revision,
+      editor: editors?.find((p) => p.id === revision.edited_by) || null,
+    }));
+
+    return NextResponse.json({ revisions: revisionsWithEditors });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error(
+      'Error in GET /api/boards/[boardId]/tasks/[taskId]/comments/[commentId]/revisions:',
+      error
+    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { UpdateCommentSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { hasPermission } from '@/lib/security/rbac';
+import { sanitizeMarkdown } from '@/lib/security/sanitize';
+import { findBoardTask, getAssignableUserIds } from '@/lib/tasks';
+import { diffText, notifyMentionedUsers, parseMentionIds, summarizeDiff } from '@/lib/comments';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string; commentId: string }> };
+
+// PATCH /api/boards/[boardId]/tasks/[taskId]/comments/[commentId] - Edit own comment
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId, commentId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'comment:update_own');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'comments:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(UpdateCommentSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    // Markdown is stored as source; raw HTML and unsafe links are stripped here
+    const content = sanitizeMarkdown(validation.data.content, { maxLength: 5000 });
+    if (!content) {
+      return NextResponse.json({ error: 'Content is required' }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from('comments')
+      .select('id, user_id, content, mentions')
+      .eq('id', commentId)
+      .eq('task_id', taskId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    if (existing.user_id !== userId) {
+      return NextResponse.json({ error: 'You can only edit your own comments' }, { status: 403 });
+    }
+
+    const mentionedIds = parseMentionIds(content);
+    const memberIds =
+      mentionedIds.length > 0 ? await getAssignableUserIds(supabase, boardId) : null;
+    const mentions = mentionedIds.filter((id) => memberIds?.has(id));
+
+    // The revision row and edited_at are written by the record_comment_revision trigger
+    const { data: comment, error } = await supabase
+      .from('comments')
+      .update({ content, mentions })
+      .eq('id', commentId)
+      .eq('task_id', taskId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error updating comment:', error);
+      return NextResponse.json({ error: 'Failed to update comment' }, { status: 500 });
+    }
+
+    const [{ data: profile }, { data: reactions }] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, email, display_name, avatar_url')
+        .eq('id', userId)
+        .single(),
+      supabase
+        .from('comment_reactions')
+        .select('*')
+        .eq('comment_id', commentId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (existing.content !== content) {
+      await supabase.from('activities').insert({
+        board_id: boardId,
+        task_id: taskId,
+        user_id: userId,
+        action: 'comment_updated',
+        details: {
+          comment_id: commentId,
+          task_title: task.title,
+          diff: summarizeDiff(diffText(existing.content, content)),
+        },
+      });
+    }
+
+    // Only members newly mentioned by this edit are notified
+    const previousMentions = new Set(existing.mentions ?? []);
+    await notifyMentionedUsers(supabase, {
+      boardId,
+      taskId,
+      authorId: userId,
+      content,
+      mentionedIds: mentions.filter((id) => !previousMentions.has(id)),
+    });
+
+    return NextResponse.json({ comment: { ...comment, profile, reactions: reactions || [] } });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error(
+      'Error in PATCH /api/boards/[boardId]/tasks/[taskId]/comments/[commentId]:',
+      error
+    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/boards/[boardId]/tasks/[taskId]/comments/[commentId] - Delete a comment and its replies
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId, commentId } = await params;
+
+    const { userId, role } = await authorizeBoard(boardId, 'comment:delete_own');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'comments:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from('comments')
+      .select('id, user_id')
+      .eq('id', commentId)
+      .eq('task_id', taskId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    if (existing.user_id !== userId && !hasPermission(role, 'comment:delete_any')) {
+      return NextResponse.json({ error: 'You can only delete your own comments' }, { status: 403 });
+    }
+
+    const { error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', commentId)
+      .eq('task_id', taskId);
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      return NextResponse.json({ error: 'Failed to delete comment' }, { status: 500 });
+    }
+
+    await supabase.from('activities').insert({
+      board_id: boardId,
+      task_id: taskId,
+      user_id: userId,
+      action: 'comment_deleted',
+      details: { comment_id: commentId, task_title: task.title },
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error(
+      'Error in DELETE /api/boards/[boardId]/tasks/[taskId]/comments/[commentId]:',
+      error
+    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getAssignableUserIds } from '@/lib/tasks';
+import { notifyCommentWatchers, notifyMentionedUsers, parseMentionIds } from '@/lib/comments';
+import { sanitizeMarkdown, sanitizeUUID } from '@/lib/security/sanitize';
 
 // GET /api/boards/[boardId]/tasks/[taskId]/comments
 export async function GET(
@@ -35,9 +38,20 @@ export async function GET(
       .select('id, email, display_name, avatar_url')
       .in('id', userIds);
 
+    const commentIds = (comments || []).map((c) => c.id);
+    const { data: reactions } =
+      commentIds.length > 0
+        ? await supabase
+            .from('comment_reactions')
+            .select('*')
+            .in('comment_id', commentIds)
+            .order('created_at', { ascending: true })
+        : { data: [] };
+
     const commentsWithProfiles = (comments || []).map((comment) => ({
       ...comment,
       profile: profiles?.find((p) => p.id === comment.user_id) || null,
+      reactions: reactions?.filter((r) => r.comment_id === comment.id) || [],
     }));
 
     return NextResponse.json({ comments: commentsWithProfiles });
@@ -54,12 +68,18 @@ export async function POST(
   try {
     const { boardId, taskId } = await params;
     const body = await request.json();
-    const { content } = body;
+    // Markdown is stored as source; raw HTML and unsafe links are stripped here
+    const content = sanitizeMarkdown(body.content, { maxLength: 5000 });
 
-    if (!content?.trim()) {
+    if (!content) {
       return NextResponse.json({ error: 'Content is required' }, { status: 400 });
     }
 
+    const requestedParentId = body.parent_id ? sanitizeUUID(body.parent_id) : null;
+    if (body.parent_id && !requestedParentId) {
+      return NextResponse.json({ error: 'Invalid parent comment' }, { status: 400 });
+    }
+
     const supabase = await createClient();
 
     const {
@@ -70,13 +90,37 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Threads are one level deep: a reply to a reply joins the root comment's thread
+    let parentId: string | null = null;
+    if (requestedParentId) {
+      const { data: parent } = await supabase
+        .from('comments')
+        .select('id, parent_id')
+        .eq('id', requestedParentId)
+        .eq('task_id', taskId)
+        .single();
+
+      if (!parent) {
+        return NextResponse.json({ error: 'Parent comment not found' }, { status: 404 });
+      }
+      parentId = parent.parent_id ?? parent.id;
+    }
+
+    // Only board members can be mentioned; tokens for anyone else stay as plain text
+    const mentionedIds = parseMentionIds(content);
+    const memberIds =
+      mentionedIds.length > 0 ? await getAssignableUserIds(supabase, boardId) : null;
+    const mentions = mentionedIds.filter((id) => memberIds?.has(id));
+
     // Create comment
     const { data: comment, error } = await supabase
       .from('comments')
       .insert({
         task_id: taskId,
         user_id: user.id,
-        content: content.trim(),
+        content,
+        mentions,
+        parent_id: parentId,
       })
       .select('*')
       .single();
@@ -92,7 +136,7 @@ export async function POST(
       .eq('id', user.id)
       .single();
 
-    const commentWithProfile = { ...comment, profile };
+    const commentWithProfile = { ...comment, profile, reactions: [] };
 
     // Log activity
     await supabase.from('activities').insert({
@@ -100,7 +144,23 @@ export async function POST(
       task_id: taskId,
       user_id: user.id,
       action: 'comment_added',
-      details: { comment_id: comment.id },
+      details: { comment_id: comment.id, parent_id: parentId },
+    });
+
+    await notifyMentionedUsers(supabase, {
+      boardId,
+      taskId,
+      authorId: user.id,
+      content: comment.content,
+      mentionedIds: mentions,
+    });
+
+    await notifyCommentWatchers(supabase, {
+      boardId,
+      taskId,
+      authorId: user.id,
+      content: comment.content,
+      mentionedIds: mentions,
     });
 
     return NextResponse.json({ comment: commentWithProfile }, { status: 201 });
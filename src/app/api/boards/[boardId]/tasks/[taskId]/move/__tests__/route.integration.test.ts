@@ -0,0 +1,94 @@
+/**
+ * Integration tests for the task move endpoint
+ * Tests the route handler with a mocked Supabase client
+ */
+
+import { NextRequest } from 'next/server';
+import { PATCH } from '../route';
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+// Notifications and recurring tasks have their own tests
+jest.mock('@/lib/tasks', () => ({
+  ...jest.requireActual('@/lib/tasks'),
+  notifyTaskChange: jest.fn(),
+  spawnNextOccurrence: jest.fn().mockResolvedValue(null),
+}));
+
+import { createClient } from '@/lib/supabase/server';
+import { createSupabaseMock } from '@/test-utils/supabase';
+
+const moveRequest = (body: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/boards/board-1/tasks/task-1/move', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+
+const params = { params: Promise.resolve({ boardId: 'board-1', taskId: 'task-1' }) };
+
+describe('Tasks API - PATCH /api/boards/[boardId]/tasks/[taskId]/move', () => {
+  const existingTask = { id: 'task-1', title: 'Ship it', status_id: 'status-1', tags: [] };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 409 when the target column is at a hard WIP limit', async () => {
+    const { supabase, writes } = createSupabaseMock({
+      boards: [{ data: { id: 'board-1' } }],
+      statuses: [{ data: { id: 'status-2', name: 'Doing', wip_limit: 2, wip_limit_mode: 'hard' } }],
+      tasks: [{ data: existingTask }, { count: 2 }],
+    });
+    (createClient as jest.Mock).mockResolvedValue(supabase);
+
+    const response = await PATCH(moveRequest({ status_id: 'status-2', order: 0 }), params);
+
+    expect(response.status).toBe(409);
+
+    const data = await response.json();
+    expect(data.code).toBe('WIP_LIMIT_EXCEEDED');
+    expect(data.error).toBe('"Doing" is at its WIP limit of 2');
+    expect(writes).toHaveLength(0);
+  });
+
+  it('should move the task with a warning over a soft WIP limit', async () => {
+    const { supabase, writes } = createSupabaseMock({
+      boards: [{ data: { id: 'board-1' } }],
+      statuses: [{ data: { id: 'status-2', name: 'Doing', wip_limit: 2, wip_limit_mode: 'soft' } }],
+      tasks: [
+        { data: existingTask },
+        { count: 2 },
+        {},
+        { data: { ...existingTask, status_id: 'status-2' } },
+      ],
+    });
+    (createClient as jest.Mock).mockResolvedValue(supabase);
+
+    const response = await PATCH(moveRequest({ status_id: 'status-2', order: 0 }), params);
+
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.warning).toMatchObject({
+      code: 'WIP_LIMIT_EXCEEDED',
+      message: '"Doing" is over its WIP limit (3/2)',
+    });
+    expect(writes).toEqual([{ table: 'tasks', values: { status_id: 'status-2', order: 0 } }]);
+  });
+
+  it('should not count the limit when reordering within a column', async () => {
+    const { supabase } = createSupabaseMock({
+      boards: [{ data: { id: 'board-1' } }],
+      statuses: [{ data: { id: 'status-1', name: 'Doing', wip_limit: 1, wip_limit_mode: 'hard' } }],
+      tasks: [{ data: existingTask }, {}, { data: existingTask }],
+    });
+    (createClient as jest.Mock).mockResolvedValue(supabase);
+
+    const response = await PATCH(moveRequest({ status_id: 'status-1', order: 3 }), params);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).warning).toBeUndefined();
+  });
+});
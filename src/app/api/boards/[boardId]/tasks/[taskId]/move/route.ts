@@ -1,9 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase/types';
+import type { TaskPriority } from '@/types/board';
+import {
+  findNonMemberIds,
+  formatWipLimitMessage,
+  getAssigneeIdsForLane,
+  getTagsForLane,
+  getWipLimitCheck,
+  getWipLimitWarning,
+  notifyAssignees,
+  notifyTaskChange,
+  spawnNextOccurrence,
+  syncTaskAssignees,
+  TASK_WITH_ASSIGNEES_SELECT,
+} from '@/lib/tasks';
+import { MoveTaskLaneSchema } from '@/lib/validation';
 
 type RouteParams = { params: Promise<{ boardId: string; taskId: string }> };
 
 // PATCH /api/boards/[boardId]/tasks/[taskId]/move - Move task to different status/position
+// An optional `lane` moves the task into another swimlane by changing the grouped attribute
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
     const { boardId, taskId } = await params;
@@ -31,7 +48,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { status_id, order } = body;
+    const { status_id, order, lane } = body;
 
     // Validation
     if (!status_id) {
@@ -42,10 +59,19 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Order must be a non-negative number' }, { status: 400 });
     }
 
+    const laneValidation = lane !== undefined ? MoveTaskLaneSchema.safeParse(lane) : null;
+    if (laneValidation && !laneValidation.success) {
+      return NextResponse.json(
+        { error: laneValidation.error.issues[0]?.message || 'Invalid lane' },
+        { status: 400 }
+      );
+    }
+    const laneChange = laneValidation?.data;
+
     // Verify status belongs to this board
     const { data: status } = await supabase
       .from('statuses')
-      .select('id')
+      .select('id, name, wip_limit, wip_limit_mode')
       .eq('id', status_id)
       .eq('board_id', boardId)
       .single();
@@ -57,7 +83,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     // Verify task exists
     const { data: existingTask } = await supabase
       .from('tasks')
-      .select('id')
+      .select('id, title, status_id, tags, assignees:task_assignees(user_id, created_at)')
       .eq('id', taskId)
       .eq('board_id', boardId)
       .single();
@@ -66,25 +92,100 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 });
     }
 
+    // Enforce the target column's WIP limit when changing columns
+    const wipCheck =
+      existingTask.status_id !== status_id
+        ? await getWipLimitCheck(supabase, status, taskId)
+        : null;
+
+    if (wipCheck?.blocked) {
+      return NextResponse.json(
+        {
+          error: formatWipLimitMessage(wipCheck),
+          code: 'WIP_LIMIT_EXCEEDED',
+          wip_limit: wipCheck,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Work out the attribute change for a swimlane move
+    const updateData: Database['public']['Tables']['tasks']['Update'] = { status_id, order };
+    let laneAssigneeIds: string[] | undefined;
+
+    if (laneChange?.field === 'priority') {
+      updateData.priority = laneChange.value as TaskPriority | null;
+    } else if (laneChange?.field === 'lane') {
+      updateData.lane = laneChange.value;
+    } else if (laneChange?.field === 'tag') {
+      updateData.tags = getTagsForLane(existingTask.tags || [], laneChange.value);
+    } else if (laneChange?.field === 'assignee') {
+      if (laneChange.value) {
+        const nonMemberIds = await findNonMemberIds(supabase, boardId, [laneChange.value]);
+        if (nonMemberIds.length > 0) {
+          return NextResponse.json(
+            { error: 'Assignees must be members of this board' },
+            { status: 400 }
+          );
+        }
+      }
+
+      const currentIds = [...(existingTask.assignees || [])]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((a) => a.user_id);
+      laneAssigneeIds = getAssigneeIdsForLane(currentIds, laneChange.value);
+    }
+
     // Simple update - let the client handle order calculations
     // For complex reordering, use the batch /tasks/reorder endpoint
-    const { data: task, error } = await supabase
+    const { error } = await supabase
       .from('tasks')
-      .update({
-        status_id,
-        order,
-      })
+      .update(updateData)
       .eq('id', taskId)
-      .eq('board_id', boardId)
-      .select()
-      .single();
+      .eq('board_id', boardId);
 
     if (error) {
       console.error('Error moving task:', error);
       return NextResponse.json({ error: 'Failed to move task' }, { status: 500 });
     }
 
-    return NextResponse.json({ task });
+    if (laneAssigneeIds) {
+      const { added } = await syncTaskAssignees(supabase, taskId, laneAssigneeIds, user.id);
+      await notifyAssignees(supabase, {
+        boardId,
+        task: existingTask,
+        assigneeIds: added,
+        assignedBy: user.id,
+      });
+    }
+
+    // Finishing a recurring task schedules the next one
+    const nextOccurrence =
+      existingTask.status_id !== status_id
+        ? await spawnNextOccurrence(supabase, { boardId, taskId, actorId: user.id })
+        : null;
+
+    if (existingTask.status_id !== status_id) {
+      await notifyTaskChange(supabase, {
+        type: 'task_moved',
+        boardId,
+        task: existingTask,
+        actorId: user.id,
+        change: `moved "${existingTask.title}" to ${status.name}`,
+      });
+    }
+
+    const { data: task } = await supabase
+      .from('tasks')
+      .select(TASK_WITH_ASSIGNEES_SELECT)
+      .eq('id', taskId)
+      .single();
+
+    return NextResponse.json({
+      task,
+      warning: getWipLimitWarning(wipCheck),
+      next_occurrence: nextOccurrence,
+    });
   } catch (error) {
     console.error('Error in PATCH /api/boards/[boardId]/tasks/[taskId]/move:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -1,5 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import {
+  AssigneeIdsSchema,
+  DateOnlySchema,
+  EstimateSchema,
+  EstimateUnitEnum,
+  ISODateSchema,
+  LaneSchema,
+  RecurrenceRuleSchema,
+} from '@/lib/validation';
+import {
+  findNonMemberIds,
+  formatWipLimitMessage,
+  getWipLimitCheck,
+  getWipLimitWarning,
+  isStartAfterDue,
+  notifyAssignees,
+  describeTaskFields,
+  notifyTaskChange,
+  spawnNextOccurrence,
+  syncTaskAssignees,
+  TASK_WITH_ASSIGNEES_SELECT,
+  type WipLimitCheck,
+} from '@/lib/tasks';
+import { sanitizeMarkdown } from '@/lib/security/sanitize';
 
 type RouteParams = { params: Promise<{ boardId: string; taskId: string }> };
 
@@ -32,7 +56,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     const { data: task, error } = await supabase
       .from('tasks')
-      .select('*')
+      .select(TASK_WITH_ASSIGNEES_SELECT)
       .eq('id', taskId)
       .eq('board_id', boardId)
       .single();
@@ -87,7 +111,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       tags,
       assignee_name,
       assignee_color,
+      assignee_ids,
       due_date,
+      start_date,
+      estimate,
+      estimate_unit,
+      lane,
+      recurrence_rule,
       status_id,
       order,
     } = body;
@@ -120,28 +150,176 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (assignee_ids !== undefined) {
+      const parsed = AssigneeIdsSchema.safeParse(assignee_ids);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: 'Assignees must be an array of up to 10 unique user IDs' },
+          { status: 400 }
+        );
+      }
+
+      const nonMemberIds = await findNonMemberIds(supabase, boardId, parsed.data);
+      if (nonMemberIds.length > 0) {
+        return NextResponse.json(
+          { error: 'Assignees must be members of this board' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (lane !== undefined && lane !== null && !LaneSchema.safeParse(lane).success) {
+      return NextResponse.json(
+        { error: 'Lane must be a string of at most 50 characters' },
+        { status: 400 }
+      );
+    }
+
+    const recurrenceValidation =
+      recurrence_rule !== undefined && recurrence_rule !== null
+        ? RecurrenceRuleSchema.safeParse(recurrence_rule)
+        : null;
+    if (recurrenceValidation && !recurrenceValidation.success) {
+      return NextResponse.json(
+        { error: recurrenceValidation.error.issues[0]?.message || 'Invalid recurrence rule' },
+        { status: 400 }
+      );
+    }
+
+    // The drawer sends calendar dates, API clients full timestamps
+    if (
+      start_date &&
+      !ISODateSchema.safeParse(start_date).success &&
+      !DateOnlySchema.safeParse(start_date).success
+    ) {
+      return NextResponse.json({ error: 'Start date must be a valid date' }, { status: 400 });
+    }
+
+    const estimateValidation =
+      estimate !== undefined && estimate !== null ? EstimateSchema.safeParse(estimate) : null;
+    if (estimateValidation && !estimateValidation.success) {
+      return NextResponse.json(
+        { error: estimateValidation.error.issues[0]?.message || 'Invalid estimate' },
+        { status: 400 }
+      );
+    }
+
+    if (estimate_unit !== undefined && !EstimateUnitEnum.safeParse(estimate_unit).success) {
+      return NextResponse.json(
+        { error: 'Estimate unit must be one of: hours, points' },
+        { status: 400 }
+      );
+    }
+
+    // Compare with the stored date when only one of the two changes
+    if (start_date || due_date) {
+      const { data: current } =
+        start_date === undefined || due_date === undefined
+          ? await supabase
+              .from('tasks')
+              .select('start_date, due_date')
+              .eq('id', taskId)
+              .eq('board_id', boardId)
+              .single()
+          : { data: null };
+
+      if (
+        isStartAfterDue(
+          start_date !== undefined ? start_date : current?.start_date,
+          due_date !== undefined ? due_date : current?.due_date
+        )
+      ) {
+        return NextResponse.json(
+          { error: 'Start date must be on or before the due date' },
+          { status: 400 }
+        );
+      }
+    }
+
     const updateData: Record<string, unknown> = {};
     if (title !== undefined) updateData.title = title.trim();
-    if (description !== undefined) updateData.description = description?.trim() || null;
+    if (description !== undefined) {
+      updateData.description = description
+        ? sanitizeMarkdown(description, { maxLength: 2000 }) || null
+        : null;
+    }
     if (priority !== undefined) updateData.priority = priority;
     if (tags !== undefined) updateData.tags = tags;
     if (assignee_name !== undefined) updateData.assignee_name = assignee_name?.trim() || null;
     if (assignee_color !== undefined) updateData.assignee_color = assignee_color || null;
     if (due_date !== undefined) updateData.due_date = due_date || null;
+    if (start_date !== undefined) updateData.start_date = start_date || null;
+    if (estimate !== undefined) updateData.estimate = estimateValidation?.data ?? null;
+    if (estimate_unit !== undefined) updateData.estimate_unit = estimate_unit;
+    if (lane !== undefined) updateData.lane = lane?.trim() || null;
+    if (recurrence_rule !== undefined) {
+      updateData.recurrence_rule = recurrenceValidation?.data ?? null;
+    }
     if (status_id !== undefined) updateData.status_id = status_id;
     if (order !== undefined) updateData.order = order;
 
-    if (Object.keys(updateData).length === 0) {
+    if (Object.keys(updateData).length === 0 && assignee_ids === undefined) {
       return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
     }
 
-    const { data: task, error } = await supabase
-      .from('tasks')
-      .update(updateData)
-      .eq('id', taskId)
-      .eq('board_id', boardId)
-      .select()
-      .single();
+    // Remember the column so a status change can notify as a move
+    const { data: previous } =
+      status_id !== undefined
+        ? await supabase
+            .from('tasks')
+            .select('status_id')
+            .eq('id', taskId)
+            .eq('board_id', boardId)
+            .single()
+        : { data: null };
+
+    const statusChanged = !!previous && previous.status_id !== status_id;
+    let status: { id: string; name: string } | null = null;
+    let wipCheck: WipLimitCheck | null = null;
+
+    // A column change from the drawer obeys the same WIP limit as a drag
+    if (statusChanged) {
+      const { data: targetStatus } = await supabase
+        .from('statuses')
+        .select('id, name, wip_limit, wip_limit_mode')
+        .eq('id', status_id)
+        .eq('board_id', boardId)
+        .single();
+
+      if (!targetStatus) {
+        return NextResponse.json({ error: 'Status not found in this board' }, { status: 400 });
+      }
+      status = targetStatus;
+
+      wipCheck = await getWipLimitCheck(supabase, targetStatus, taskId);
+      if (wipCheck?.blocked) {
+        return NextResponse.json(
+          {
+            error: formatWipLimitMessage(wipCheck),
+            code: 'WIP_LIMIT_EXCEEDED',
+            wip_limit: wipCheck,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Update fields, or just confirm the task exists when only assignees change
+    const { data: updatedTask, error } =
+      Object.keys(updateData).length > 0
+        ? await supabase
+            .from('tasks')
+            .update(updateData)
+            .eq('id', taskId)
+            .eq('board_id', boardId)
+            .select('id, title')
+            .single()
+        : await supabase
+            .from('tasks')
+            .select('id, title')
+            .eq('id', taskId)
+            .eq('board_id', boardId)
+            .single();
 
     if (error) {
       if (error.code === 'PGRST116') {
@@ -151,7 +329,55 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Failed to update task' }, { status: 500 });
     }
 
-    return NextResponse.json({ task });
+    if (assignee_ids !== undefined) {
+      const { added } = await syncTaskAssignees(supabase, taskId, assignee_ids, user.id);
+      await notifyAssignees(supabase, {
+        boardId,
+        task: updatedTask,
+        assigneeIds: added,
+        assignedBy: user.id,
+      });
+    }
+
+    // Finishing a recurring task schedules the next one
+    const nextOccurrence = statusChanged
+      ? await spawnNextOccurrence(supabase, { boardId, taskId, actorId: user.id })
+      : null;
+
+    if (statusChanged) {
+      await notifyTaskChange(supabase, {
+        type: 'task_moved',
+        boardId,
+        task: updatedTask,
+        actorId: user.id,
+        change: `moved "${updatedTask.title}" to ${status?.name || 'another column'}`,
+      });
+    }
+
+    const changedFields = Object.keys(updateData).filter(
+      (field) => field !== 'order' && field !== 'status_id'
+    );
+    if (changedFields.length > 0) {
+      await notifyTaskChange(supabase, {
+        type: 'task_updated',
+        boardId,
+        task: updatedTask,
+        actorId: user.id,
+        change: `updated ${describeTaskFields(changedFields)} on "${updatedTask.title}"`,
+      });
+    }
+
+    const { data: task } = await supabase
+      .from('tasks')
+      .select(TASK_WITH_ASSIGNEES_SELECT)
+      .eq('id', taskId)
+      .single();
+
+    return NextResponse.json({
+      task,
+      warning: getWipLimitWarning(wipCheck),
+      next_occurrence: nextOccurrence,
+    });
   } catch (error) {
     console.error('Error in PUT /api/boards/[boardId]/tasks/[taskId]:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
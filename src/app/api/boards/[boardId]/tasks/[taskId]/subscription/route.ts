@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { NotificationSubscriptionSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { deleteSubscription, fetchSubscriptions, saveSubscription } from '@/lib/notifications';
+import { findBoardTask } from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string }> };
+
+// GET /api/boards/[boardId]/tasks/[taskId]/subscription - Own task level and the board level it overrides
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:read');
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const subscriptions = await fetchSubscriptions(supabase, boardId, taskId);
+    const own = subscriptions.filter((s) => s.user_id === userId);
+
+    return NextResponse.json({
+      level: own.find((s) => s.task_id === taskId)?.level ?? null,
+      board_level: own.find((s) => s.task_id === null)?.level ?? null,
+    });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/tasks/[taskId]/subscription:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/boards/[boardId]/tasks/[taskId]/subscription - Watch or mute the task
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:read');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'subscriptions:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(NotificationSubscriptionSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const subscription = await saveSubscription(supabase, {
+      userId,
+      boardId,
+      taskId: taskId,
+      level: validation.data.level,
+    });
+
+    return NextResponse.json({ subscription });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in PUT /api/boards/[boardId]/tasks/[taskId]/subscription:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/boards/[boardId]/tasks/[taskId]/subscription - Go back to the default notifications for the task
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:read');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'subscriptions:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+    await deleteSubscription(supabase, { userId, boardId, taskId: taskId });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in DELETE /api/boards/[boardId]/tasks/[taskId]/subscription:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
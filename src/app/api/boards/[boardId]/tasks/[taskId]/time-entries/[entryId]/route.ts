@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  UpdateTimeEntrySchema,
+  createValidationError,
+  validateRequestBody,
+} from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { TIME_ENTRY_SELECT, findBoardTask } from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string; entryId: string }> };
+
+// PATCH /api/boards/[boardId]/tasks/[taskId]/time-entries/[entryId] - Correct one of your entries
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId, entryId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:update');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(UpdateTimeEntrySchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { started_at, duration_minutes, note } = validation.data;
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from('time_entries')
+      .select('id, user_id, started_at, ended_at')
+      .eq('id', entryId)
+      .eq('task_id', taskId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Time entry not found' }, { status: 404 });
+    }
+
+    if (existing.user_id !== userId) {
+      return NextResponse.json({ error: 'You can only edit your own time' }, { status: 403 });
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (note !== undefined) updateData.note = note || null;
+
+    if (started_at !== undefined || duration_minutes !== undefined) {
+      if (!existing.ended_at) {
+        return createValidationError('Stop the timer before changing its times', [
+          { field: 'started_at', message: 'Timer is still running' },
+        ]);
+      }
+
+      // Keep the current length when only the start moves
+      const start = Date.parse(started_at ?? existing.started_at);
+      const minutes =
+        duration_minutes ??
+        (Date.parse(existing.ended_at) - Date.parse(existing.started_at)) / 60000;
+      const end = start + minutes * 60000;
+
+      if (end > Date.now()) {
+        return createValidationError('Time entries cannot end in the future', [
+          { field: 'started_at', message: 'Entry would end in the future' },
+        ]);
+      }
+
+      updateData.started_at = new Date(start).toISOString();
+      updateData.ended_at = new Date(end).toISOString();
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
+    }
+
+    const { data: entry, error } = await supabase
+      .from('time_entries')
+      .update(updateData)
+      .eq('id', entryId)
+      .eq('task_id', taskId)
+      .select(TIME_ENTRY_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error updating time entry:', error);
+      return NextResponse.json({ error: 'Failed to update time entry' }, { status: 500 });
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error(
+      'Error in PATCH /api/boards/[boardId]/tasks/[taskId]/time-entries/[entryId]:',
+      error
+    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/boards/[boardId]/tasks/[taskId]/time-entries/[entryId] - Delete one of your entries
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId, entryId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:update');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from('time_entries')
+      .select('id, user_id')
+      .eq('id', entryId)
+      .eq('task_id', taskId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Time entry not found' }, { status: 404 });
+    }
+
+    if (existing.user_id !== userId) {
+      return NextResponse.json({ error: 'You can only delete your own time' }, { status: 403 });
+    }
+
+    const { error } = await supabase.from('time_entries').delete().eq('id', entryId);
+
+    if (error) {
+      console.error('Error deleting time entry:', error);
+      return NextResponse.json({ error: 'Failed to delete time entry' }, { status: 500 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error(
+      'Error in DELETE /api/boards/[boardId]/tasks/[taskId]/time-entries/[entryId]:',
+      error
+    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
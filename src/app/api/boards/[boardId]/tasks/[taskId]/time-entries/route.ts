@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  CreateTimeEntrySchema,
+  createValidationError,
+  validateRequestBody,
+} from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { TIME_ENTRY_SELECT, findBoardTask } from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string }> };
+
+// GET /api/boards/[boardId]/tasks/[taskId]/time-entries - List time logged on a task
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    await authorizeBoard(boardId, 'task:read');
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: entries, error } = await supabase
+      .from('time_entries')
+      .select(TIME_ENTRY_SELECT)
+      .eq('task_id', taskId)
+      .order('started_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching time entries:', error);
+      return NextResponse.json({ error: 'Failed to fetch time entries' }, { status: 500 });
+    }
+
+    return NextResponse.json({ entries: entries || [] });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/tasks/[taskId]/time-entries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/boards/[boardId]/tasks/[taskId]/time-entries - Log time by hand
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:update');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(CreateTimeEntrySchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { started_at, duration_minutes, note } = validation.data;
+
+    const endedAt = new Date(Date.parse(started_at) + duration_minutes * 60000);
+    if (endedAt.getTime() > Date.now()) {
+      return createValidationError('Time entries cannot end in the future', [
+        { field: 'started_at', message: 'Entry would end in the future' },
+      ]);
+    }
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: entry, error } = await supabase
+      .from('time_entries')
+      .insert({
+        task_id: taskId,
+        user_id: userId,
+        started_at,
+        ended_at: endedAt.toISOString(),
+        note,
+        is_manual: true,
+      })
+      .select(TIME_ENTRY_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error creating time entry:', error);
+      return NextResponse.json({ error: 'Failed to log time' }, { status: 500 });
+    }
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in POST /api/boards/[boardId]/tasks/[taskId]/time-entries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
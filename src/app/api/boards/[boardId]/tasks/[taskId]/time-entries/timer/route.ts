@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { TIME_ENTRY_SELECT, findBoardTask } from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string; taskId: string }> };
+
+// POST /api/boards/[boardId]/tasks/[taskId]/time-entries/timer - Start a timer on the task
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:update');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+
+    // A member times one task at a time: starting here stops a timer running elsewhere
+    const { data: running } = await supabase
+      .from('time_entries')
+      .select('id, task_id')
+      .eq('user_id', userId)
+      .is('ended_at', null)
+      .maybeSingle();
+
+    if (running?.task_id === taskId) {
+      return NextResponse.json(
+        { error: 'A timer is already running on this task' },
+        { status: 409 }
+      );
+    }
+
+    let stopped = null;
+    if (running) {
+      const { data, error: stopError } = await supabase
+        .from('time_entries')
+        .update({ ended_at: now })
+        .eq('id', running.id)
+        .select(TIME_ENTRY_SELECT)
+        .single();
+
+      if (stopError) {
+        console.error('Error stopping running timer:', stopError);
+        return NextResponse.json({ error: 'Failed to stop the running timer' }, { status: 500 });
+      }
+      stopped = data;
+    }
+
+    const { data: entry, error } = await supabase
+      .from('time_entries')
+      .insert({ task_id: taskId, user_id: userId, started_at: now })
+      .select(TIME_ENTRY_SELECT)
+      .single();
+
+    if (error) {
+      // Unique running-timer index: another request started one first
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A timer is already running' }, { status: 409 });
+      }
+      console.error('Error starting timer:', error);
+      return NextResponse.json({ error: 'Failed to start timer' }, { status: 500 });
+    }
+
+    return NextResponse.json({ entry, stopped }, { status: 201 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in POST /api/boards/[boardId]/tasks/[taskId]/time-entries/timer:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/boards/[boardId]/tasks/[taskId]/time-entries/timer - Stop the user's timer on the task
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, taskId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'task:update');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+
+    const task = await findBoardTask(supabase, boardId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { data: entry, error } = await supabase
+      .from('time_entries')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('task_id', taskId)
+      .eq('user_id', userId)
+      .is('ended_at', null)
+      .select(TIME_ENTRY_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error stopping timer:', error);
+      return NextResponse.json({ error: 'Failed to stop timer' }, { status: 500 });
+    }
+
+    if (!entry) {
+      return NextResponse.json({ error: 'No timer is running on this task' }, { status: 404 });
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error(
+      'Error in DELETE /api/boards/[boardId]/tasks/[taskId]/time-entries/timer:',
+      error
+    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -34,6 +34,9 @@ jest.mock('@/lib/security', () => ({
 jest.mock('@/lib/validation', () => ({
   CreateTaskSchema: {},
   TaskListQuerySchema: {},
+  createValidationError: jest.fn((message: string, details?: unknown) =>
+    Response.json({ error: 'Validation failed', message, details }, { status: 400 })
+  ),
   validateRequestBody: jest.fn(),
   validateSearchParams: jest.fn(),
 }));
@@ -58,6 +61,11 @@ describe('Tasks API - GET /api/boards/[boardId]/tasks', () => {
       delete: jest.fn().mockReturnThis(),
       eq: jest.fn().mockReturnThis(),
       or: jest.fn().mockReturnThis(),
+      overlaps: jest.fn().mockReturnThis(),
+      ilike: jest.fn().mockReturnThis(),
+      gte: jest.fn().mockReturnThis(),
+      lt: jest.fn().mockReturnThis(),
+      lte: jest.fn().mockReturnThis(),
       order: jest.fn().mockImplementation(() => {
         // Return chainable object that resolves to result when awaited
         const chainableResult = {
@@ -268,6 +276,52 @@ describe('Tasks API - GET /api/boards/[boardId]/tasks', () => {
       );
     });
 
+    it('should filter by any of the tags and an inclusive due range', async () => {
+      (validateSearchParams as jest.Mock).mockReturnValue({
+        success: true,
+        data: {
+          tags: ['bug', 'ui'],
+          due_after: '2026-03-01',
+          due_before: '2026-03-31',
+        },
+      });
+
+      orderFinalResult = { data: [], error: null };
+
+      const request = new NextRequest(
+        'http://localhost:3000/api/boards/board-1/tasks?tags=bug&tags=ui&due_after=2026-03-01&due_before=2026-03-31'
+      );
+
+      const response = await GET(request, {
+        params: Promise.resolve({ boardId: 'board-1' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(mockSupabase.overlaps).toHaveBeenCalledWith('tags', ['bug', 'ui']);
+      expect(mockSupabase.gte).toHaveBeenCalledWith('due_date', '2026-03-01T00:00:00.000Z');
+      expect(mockSupabase.lt).toHaveBeenCalledWith('due_date', '2026-04-01T00:00:00.000Z');
+      expect(mockSupabase.lte).not.toHaveBeenCalled();
+    });
+
+    it('should filter by legacy assignee name', async () => {
+      (validateSearchParams as jest.Mock).mockReturnValue({
+        success: true,
+        data: { assignee_name: 'Ada' },
+      });
+
+      orderFinalResult = { data: [], error: null };
+
+      const request = new NextRequest(
+        'http://localhost:3000/api/boards/board-1/tasks?assignee_name=Ada'
+      );
+
+      await GET(request, {
+        params: Promise.resolve({ boardId: 'board-1' }),
+      });
+
+      expect(mockSupabase.ilike).toHaveBeenCalledWith('assignee_name', '%Ada%');
+    });
+
     it('should order tasks by status_id and order', async () => {
       // Reset authorization for this test
       (authorizeBoard as jest.Mock).mockResolvedValue({
@@ -778,6 +832,113 @@ describe('Tasks API - POST /api/boards/[boardId]/tasks', () => {
       );
     });
 
+    it('should reject assignees who are not board members', async () => {
+      const outsiderId = 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a33';
+
+      (validateRequestBody as jest.Mock).mockResolvedValue({
+        success: true,
+        data: {
+          title: 'Assigned Task',
+          status_id: statusId,
+          assignee_ids: [outsiderId],
+        },
+      });
+
+      // Board owner lookup for membership check
+      mockSupabase.single.mockResolvedValueOnce({ data: { user_id: 'user-1' }, error: null });
+
+      const request = new NextRequest('http://localhost:3000/api/boards/board-1/tasks', {
+        method: 'POST',
+        body: JSON.stringify({
+          title: 'Assigned Task',
+          status_id: statusId,
+          assignee_ids: [outsiderId],
+        }),
+      });
+
+      const response = await POST(request, {
+        params: Promise.resolve({ boardId: 'board-1' }),
+      });
+
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.details[0].field).toBe('assignee_ids');
+      expect(mockSupabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the column is at a hard WIP limit', async () => {
+      (validateRequestBody as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { title: 'One Too Many', status_id: statusId },
+      });
+
+      // Replace the status from beforeEach with a full hard-limited column
+      mockSupabase.single.mockReset();
+      mockSupabase.single.mockResolvedValueOnce({
+        data: { id: statusId, name: 'Doing', wip_limit: 2, wip_limit_mode: 'hard' },
+        error: null,
+      });
+
+      // Count query for the column
+      mockSupabase.select.mockImplementation((_columns: string, options?: { head?: boolean }) =>
+        options?.head ? { eq: jest.fn().mockResolvedValue({ count: 2 }) } : mockSupabase
+      );
+
+      const request = new NextRequest('http://localhost:3000/api/boards/board-1/tasks', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'One Too Many', status_id: statusId }),
+      });
+
+      const response = await POST(request, {
+        params: Promise.resolve({ boardId: 'board-1' }),
+      });
+
+      expect(response.status).toBe(409);
+
+      const data = await response.json();
+      expect(data.code).toBe('WIP_LIMIT_EXCEEDED');
+      expect(data.wip_limit).toMatchObject({ limit: 2, count: 3, blocked: true });
+      expect(mockSupabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('should create the task with a warning over a soft WIP limit', async () => {
+      (validateRequestBody as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { title: 'Squeezed In', status_id: statusId },
+      });
+
+      mockSupabase.single.mockReset();
+      mockSupabase.single
+        .mockResolvedValueOnce({
+          data: { id: statusId, name: 'Doing', wip_limit: 2, wip_limit_mode: 'soft' },
+          error: null,
+        })
+        .mockResolvedValueOnce({ data: { order: 1 }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'new-task-id' }, error: null });
+
+      mockSupabase.select.mockImplementation((_columns: string, options?: { head?: boolean }) =>
+        options?.head ? { eq: jest.fn().mockResolvedValue({ count: 2 }) } : mockSupabase
+      );
+
+      const request = new NextRequest('http://localhost:3000/api/boards/board-1/tasks', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Squeezed In', status_id: statusId }),
+      });
+
+      const response = await POST(request, {
+        params: Promise.resolve({ boardId: 'board-1' }),
+      });
+
+      expect(response.status).toBe(201);
+
+      const data = await response.json();
+      expect(data.warning).toMatchObject({
+        code: 'WIP_LIMIT_EXCEEDED',
+        message: '"Doing" is over its WIP limit (3/2)',
+      });
+    });
+
     it('should handle optional fields correctly', async () => {
       // Mock successful validation with minimal data
       (validateRequestBody as jest.Mock).mockResolvedValue({
@@ -0,0 +1,216 @@
+/**
+ * Integration tests for the bulk task endpoint
+ * Tests the route handler with a mocked Supabase client and the real request schema
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/security/authMiddleware', () => ({
+  ...jest.requireActual('@/lib/security/authMiddleware'),
+  getCurrentUser: jest.fn(),
+  authorizeBoard: jest.fn(),
+}));
+
+jest.mock('@/lib/security', () => ({
+  ...jest.requireActual('@/lib/security'),
+  enforceRateLimit: jest.fn(),
+}));
+
+// Notifications and recurring tasks have their own tests
+jest.mock('@/lib/tasks', () => ({
+  ...jest.requireActual('@/lib/tasks'),
+  notifyAssignees: jest.fn(),
+  notifyTaskChange: jest.fn(),
+  spawnNextOccurrence: jest.fn().mockResolvedValue(null),
+}));
+
+import { createClient } from '@/lib/supabase/server';
+import { AuthorizationError } from '@/lib/security';
+import { authorizeBoard, getCurrentUser } from '@/lib/security/authMiddleware';
+import { notifyTaskChange } from '@/lib/tasks';
+import { createSupabaseMock } from '@/test-utils/supabase';
+
+const TASK_A = '11111111-1111-4111-8111-111111111111';
+const TASK_B = '22222222-2222-4222-8222-222222222222';
+const STATUS_ID = '33333333-3333-4333-8333-333333333333';
+
+const bulkTask = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: `Task ${id.slice(0, 1)}`,
+  status_id: 'status-1',
+  priority: null,
+  tags: [],
+  due_date: null,
+  start_date: null,
+  assignees: [],
+  ...overrides,
+});
+
+const bulkRequest = (action: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/boards/board-1/tasks/bulk', {
+    method: 'POST',
+    body: JSON.stringify({ task_ids: [TASK_A, TASK_B], action }),
+  });
+
+const params = { params: Promise.resolve({ boardId: 'board-1' }) };
+
+describe('Tasks API - POST /api/boards/[boardId]/tasks/bulk', () => {
+  beforeEach(() => {
+    (getCurrentUser as jest.Mock).mockResolvedValue({ id: 'user-1' });
+    (authorizeBoard as jest.Mock).mockResolvedValue({ userId: 'user-1', role: 'member' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Permissions', () => {
+    it.each([
+      [{ type: 'delete' }, 'task:delete'],
+      [{ type: 'move', status_id: STATUS_ID }, 'task:move'],
+      [{ type: 'set_priority', priority: 'high' }, 'task:update'],
+    ])('should require the permission for %o', async (action, permission) => {
+      (authorizeBoard as jest.Mock).mockRejectedValue(new AuthorizationError());
+      const { supabase } = createSupabaseMock({});
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await POST(bulkRequest(action), params);
+
+      expect(response.status).toBe(403);
+      expect(authorizeBoard).toHaveBeenCalledWith('board-1', permission);
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should return 404 when a task is not on the board', async () => {
+      const { supabase } = createSupabaseMock({ tasks: [{ data: [bulkTask(TASK_A)] }] });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await POST(bulkRequest({ type: 'delete' }), params);
+
+      expect(response.status).toBe(404);
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when moving the tasks would break a hard WIP limit', async () => {
+      const { supabase } = createSupabaseMock({
+        tasks: [{ data: [bulkTask(TASK_A), bulkTask(TASK_B)] }, { count: 1 }],
+        statuses: [
+          { data: { id: STATUS_ID, name: 'Doing', wip_limit: 2, wip_limit_mode: 'hard' } },
+        ],
+      });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await POST(bulkRequest({ type: 'move', status_id: STATUS_ID }), params);
+
+      expect(response.status).toBe(409);
+
+      const data = await response.json();
+      expect(data.code).toBe('WIP_LIMIT_EXCEEDED');
+      expect(data.wip_limit).toMatchObject({ limit: 2, count: 3, blocked: true });
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when a task already has the maximum number of tags', async () => {
+      const fullTags = Array.from({ length: 10 }, (_, i) => `tag-${i}`);
+      const { supabase } = createSupabaseMock({
+        tasks: [{ data: [bulkTask(TASK_A), bulkTask(TASK_B, { tags: fullTags })] }],
+      });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await POST(bulkRequest({ type: 'add_tag', tag: 'urgent' }), params);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Some tasks already have the maximum of 10 tags');
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the due date falls before a start date', async () => {
+      const { supabase } = createSupabaseMock({
+        tasks: [{ data: [bulkTask(TASK_A), bulkTask(TASK_B, { start_date: '2024-03-10' })] }],
+      });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await POST(
+        bulkRequest({ type: 'set_due_date', due_date: '2024-03-01T00:00:00.000Z' }),
+        params
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Start date must be on or before the due date');
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Applying the action', () => {
+    it('should return 500 when the bulk update fails', async () => {
+      const { supabase } = createSupabaseMock({
+        tasks: [{ data: [bulkTask(TASK_A), bulkTask(TASK_B)] }],
+      });
+      supabase.rpc.mockResolvedValue({ data: null, error: { message: 'boom' } });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await POST(bulkRequest({ type: 'set_priority', priority: 'high' }), params);
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error).toBe('Failed to update tasks');
+      expect(notifyTaskChange).not.toHaveBeenCalled();
+    });
+
+    it('should delete the tasks in one call', async () => {
+      const { supabase } = createSupabaseMock({
+        tasks: [{ data: [bulkTask(TASK_A), bulkTask(TASK_B)] }],
+      });
+      supabase.rpc.mockResolvedValue({ data: { affected: 2 }, error: null });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await POST(bulkRequest({ type: 'delete' }), params);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        result: { affected: 2 },
+        deleted_ids: [TASK_A, TASK_B],
+      });
+      expect(supabase.rpc).toHaveBeenCalledWith('bulk_update_tasks', {
+        p_board_id: 'board-1',
+        p_task_ids: [TASK_A, TASK_B],
+        p_action: { type: 'delete' },
+      });
+    });
+
+    it('should move the tasks with a warning over a soft WIP limit', async () => {
+      const { supabase } = createSupabaseMock({
+        tasks: [
+          { data: [bulkTask(TASK_A), bulkTask(TASK_B)] },
+          { count: 1 },
+          { data: [bulkTask(TASK_A, { status_id: STATUS_ID })] },
+        ],
+        statuses: [
+          { data: { id: STATUS_ID, name: 'Doing', wip_limit: 2, wip_limit_mode: 'soft' } },
+        ],
+      });
+      (createClient as jest.Mock).mockResolvedValue(supabase);
+
+      const response = await POST(bulkRequest({ type: 'move', status_id: STATUS_ID }), params);
+
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.warning).toMatchObject({
+        code: 'WIP_LIMIT_EXCEEDED',
+        message: '"Doing" is over its WIP limit (3/2)',
+      });
+      expect(notifyTaskChange).toHaveBeenCalledTimes(2);
+      expect(notifyTaskChange).toHaveBeenCalledWith(
+        supabase,
+        expect.objectContaining({ type: 'task_moved', change: 'moved "Task 1" to Doing' })
+      );
+    });
+  });
+});
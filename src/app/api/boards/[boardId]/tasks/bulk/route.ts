@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import type { Json } from '@/lib/supabase/types';
+import { BulkTaskRequestSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs, type Permission } from '@/lib/security';
+import { authorizeBoard, getCurrentUser, handleAuthError } from '@/lib/security/authMiddleware';
+import {
+  checkWipLimit,
+  describeTaskFields,
+  findNonMemberIds,
+  findTasksOverTagLimit,
+  formatWipLimitMessage,
+  getBulkTaskUpdates,
+  getWipLimitWarning,
+  isStartAfterDue,
+  notifyAssignees,
+  notifyTaskChange,
+  spawnNextOccurrence,
+  TASK_WITH_ASSIGNEES_SELECT,
+  type WipLimitCheck,
+} from '@/lib/tasks';
+import type { Task } from '@/types/board';
+
+type RouteParams = { params: Promise<{ boardId: string }> };
+
+// POST /api/boards/[boardId]/tasks/bulk - Apply one action to several tasks at once
+// All tasks change in one transaction and each gets its own activity entry
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    // Rate limit before reading the body; the board permission is checked below
+    const user = await getCurrentUser();
+
+    try {
+      enforceRateLimit(user.id, rateLimitConfigs.api.write, 'tasks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    // The permission needed depends on the action, so read it first
+    const validation = await validateRequestBody(BulkTaskRequestSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { task_ids, action } = validation.data;
+    const permission: Permission =
+      action.type === 'delete'
+        ? 'task:delete'
+        : action.type === 'move'
+          ? 'task:move'
+          : 'task:update';
+    const { userId } = await authorizeBoard(boardId, permission);
+
+    const supabase = await createClient();
+
+    const { data: tasks } = await supabase
+      .from('tasks')
+      .select(
+        'id, title, status_id, priority, tags, due_date, start_date, assignees:task_assignees(user_id)'
+      )
+      .eq('board_id', boardId)
+      .in('id', task_ids);
+
+    if (!tasks || tasks.length !== task_ids.length) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    // Only tasks the action really changes get notified about
+    const changes = tasks.flatMap((task) => {
+      const updates = getBulkTaskUpdates(task, action);
+      return updates ? [{ task, updates }] : [];
+    });
+
+    let wipCheck: WipLimitCheck | null = null;
+    let statusName: string | undefined;
+
+    if (action.type === 'move') {
+      const { data: status } = await supabase
+        .from('statuses')
+        .select('id, name, wip_limit, wip_limit_mode')
+        .eq('id', action.status_id)
+        .eq('board_id', boardId)
+        .single();
+
+      if (!status) {
+        return NextResponse.json({ error: 'Status not found in this board' }, { status: 400 });
+      }
+      statusName = status.name;
+
+      // Enforce the target column's WIP limit for everything moving in at once
+      if (status.wip_limit && changes.length > 0) {
+        const { count } = await supabase
+          .from('tasks')
+          .select('id', { count: 'exact', head: true })
+          .eq('status_id', status.id);
+
+        wipCheck = checkWipLimit(status, (count ?? 0) + changes.length);
+      }
+
+      if (wipCheck?.blocked) {
+        return NextResponse.json(
+          {
+            error: formatWipLimitMessage(wipCheck),
+            code: 'WIP_LIMIT_EXCEEDED',
+            wip_limit: wipCheck,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (findTasksOverTagLimit(tasks, action).length > 0) {
+      return NextResponse.json(
+        { error: 'Some tasks already have the maximum of 10 tags' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      action.type === 'set_due_date' &&
+      tasks.some((task) => isStartAfterDue(task.start_date, action.due_date))
+    ) {
+      return NextResponse.json(
+        { error: 'Start date must be on or before the due date' },
+        { status: 400 }
+      );
+    }
+
+    if (action.type === 'assign' && action.assignee_ids.length > 0) {
+      const nonMemberIds = await findNonMemberIds(supabase, boardId, action.assignee_ids);
+      if (nonMemberIds.length > 0) {
+        return NextResponse.json(
+          { error: 'Assignees must be members of this board' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: result, error } = await supabase.rpc('bulk_update_tasks', {
+      p_board_id: boardId,
+      p_task_ids: task_ids,
+      p_action: action as unknown as Json,
+    });
+
+    if (error) {
+      console.error('Error applying bulk task action:', error);
+      return NextResponse.json({ error: 'Failed to update tasks' }, { status: 500 });
+    }
+
+    if (action.type === 'delete') {
+      return NextResponse.json({ result, deleted_ids: task_ids });
+    }
+
+    const nextOccurrences: Task[] = [];
+
+    for (const { task, updates } of changes) {
+      if (action.type === 'move') {
+        // Finishing a recurring task schedules the next one
+        const nextOccurrence = await spawnNextOccurrence(supabase, {
+          boardId,
+          taskId: task.id,
+          actorId: userId,
+        });
+        if (nextOccurrence) nextOccurrences.push(nextOccurrence);
+
+        await notifyTaskChange(supabase, {
+          type: 'task_moved',
+          boardId,
+          task,
+          actorId: userId,
+          change: `moved "${task.title}" to ${statusName}`,
+        });
+        continue;
+      }
+
+      if (action.type === 'assign') {
+        const currentIds = (task.assignees || []).map((assignee) => assignee.user_id);
+        await notifyAssignees(supabase, {
+          boardId,
+          task,
+          assigneeIds: action.assignee_ids.filter((id) => !currentIds.includes(id)),
+          assignedBy: userId,
+        });
+      }
+
+      await notifyTaskChange(supabase, {
+        type: 'task_updated',
+        boardId,
+        task,
+        actorId: userId,
+        change: `updated ${describeTaskFields(Object.keys(updates))} on "${task.title}"`,
+      });
+    }
+
+    const { data: updatedTasks } = await supabase
+      .from('tasks')
+      .select(TASK_WITH_ASSIGNEES_SELECT)
+      .in('id', task_ids);
+
+    return NextResponse.json({
+      result,
+      tasks: updatedTasks || [],
+      warning: getWipLimitWarning(wipCheck),
+      next_occurrences: nextOccurrences,
+    });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in POST /api/boards/[boardId]/tasks/bulk:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -3,11 +3,24 @@ import { createClient } from '@/lib/supabase/server';
 import {
   CreateTaskSchema,
   TaskListQuerySchema,
+  createValidationError,
   validateRequestBody,
   validateSearchParams,
 } from '@/lib/validation';
 import { sanitizeSearchInput, enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { sanitizeMarkdown } from '@/lib/security/sanitize';
 import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import {
+  findNonMemberIds,
+  formatWipLimitMessage,
+  getDueRange,
+  getTaskAssignees,
+  getWipLimitCheck,
+  getWipLimitWarning,
+  notifyAssignees,
+  syncTaskAssignees,
+  TASK_WITH_ASSIGNEES_SELECT,
+} from '@/lib/tasks';
 
 type RouteParams = { params: Promise<{ boardId: string }> };
 
@@ -38,10 +51,29 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return validation.error;
     }
 
-    const { status_id, priority, search } = validation.data;
+    const { status_id, priority, search, tags, assignee_id, assignee_name, due_after, due_before } =
+      validation.data;
 
     // Build query with optional filters
-    let query = supabase.from('tasks').select('*').eq('board_id', boardId);
+    let query = supabase.from('tasks').select(TASK_WITH_ASSIGNEES_SELECT).eq('board_id', boardId);
+
+    // Filter by assignee; an inner join would also trim the returned assignee lists
+    if (assignee_id) {
+      const { data: assigned, error: assignedError } = await supabase
+        .from('task_assignees')
+        .select('task_id')
+        .eq('user_id', assignee_id);
+
+      if (assignedError) {
+        console.error('Error fetching assigned tasks:', assignedError);
+        return NextResponse.json({ error: 'Failed to fetch tasks' }, { status: 500 });
+      }
+
+      query = query.in(
+        'id',
+        (assigned || []).map((row) => row.task_id)
+      );
+    }
 
     // Filter by status
     if (status_id) {
@@ -59,6 +91,28 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       query = query.or(`title.ilike.%${sanitizedSearch}%,description.ilike.%${sanitizedSearch}%`);
     }
 
+    // Tasks with any of the tags
+    if (tags && tags.length > 0) {
+      query = query.overlaps('tags', tags);
+    }
+
+    // Legacy free-text assignee
+    if (assignee_name) {
+      query = query.ilike('assignee_name', `%${sanitizeSearchInput(assignee_name)}%`);
+    }
+
+    // Due date range; calendar days are inclusive
+    const dueRange = getDueRange({ due_after, due_before });
+    if (dueRange.gte) {
+      query = query.gte('due_date', dueRange.gte);
+    }
+    if (dueRange.lt) {
+      query = query.lt('due_date', dueRange.lt);
+    }
+    if (dueRange.lte) {
+      query = query.lte('due_date', dueRange.lte);
+    }
+
     // Order by status_id and order
     query = query.order('status_id').order('order', { ascending: true });
 
@@ -121,13 +175,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       tags,
       assignee_name,
       assignee_color,
+      assignee_ids = [],
       due_date,
+      start_date,
+      estimate,
+      estimate_unit,
+      lane,
+      recurrence_rule,
     } = validation.data;
 
     // Verify status belongs to this board
     const { data: status } = await supabase
       .from('statuses')
-      .select('id')
+      .select('id, name, wip_limit, wip_limit_mode')
       .eq('id', status_id)
       .eq('board_id', boardId)
       .single();
@@ -136,6 +196,29 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Status not found in this board' }, { status: 400 });
     }
 
+    // Assignees must be members of this board
+    const nonMemberIds = await findNonMemberIds(supabase, boardId, assignee_ids);
+    if (nonMemberIds.length > 0) {
+      return createValidationError('Assignees must be members of this board', [
+        { field: 'assignee_ids', message: `Not a board member: ${nonMemberIds.join(', ')}` },
+      ]);
+    }
+
+    // Enforce the column's WIP limit
+    const wipCheck = await getWipLimitCheck(supabase, status);
+    if (wipCheck?.blocked) {
+      return NextResponse.json(
+        {
+          error: formatWipLimitMessage(wipCheck),
+          code: 'WIP_LIMIT_EXCEEDED',
+          wip_limit: wipCheck,
+        },
+        { status: 409 }
+      );
+    }
+
+    const warning = getWipLimitWarning(wipCheck);
+
     // Get next order for this status
     const { data: maxOrder } = await supabase
       .from('tasks')
@@ -153,12 +236,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         board_id: boardId,
         status_id,
         title,
-        description,
+        description: description
+          ? sanitizeMarkdown(description, { maxLength: 2000 }) || null
+          : null,
         priority,
         tags,
         assignee_name,
         assignee_color,
         due_date,
+        start_date,
+        estimate,
+        estimate_unit,
+        lane,
+        recurrence_rule,
         order: nextOrder,
       })
       .select()
@@ -169,7 +259,21 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Failed to create task' }, { status: 500 });
     }
 
-    return NextResponse.json({ task }, { status: 201 });
+    if (assignee_ids.length === 0) {
+      return NextResponse.json({ task: { ...task, assignees: [] }, warning }, { status: 201 });
+    }
+
+    await syncTaskAssignees(supabase, task.id, assignee_ids, userId);
+    await notifyAssignees(supabase, {
+      boardId,
+      task,
+      assigneeIds: assignee_ids,
+      assignedBy: userId,
+    });
+
+    const assignees = await getTaskAssignees(supabase, task.id);
+
+    return NextResponse.json({ task: { ...task, assignees }, warning }, { status: 201 });
   } catch (error) {
     // Check if it's an auth error
     if (
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { buildTimeReport } from '@/lib/tasks';
+
+type RouteParams = { params: Promise<{ boardId: string }> };
+
+// GET /api/boards/[boardId]/time-report - Estimates vs. tracked time per status and for the board
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    await authorizeBoard(boardId, 'board:read');
+
+    const supabase = await createClient();
+
+    const [{ data: statuses, error: statusError }, { data: tasks, error: taskError }] =
+      await Promise.all([
+        supabase
+          .from('statuses')
+          .select('id')
+          .eq('board_id', boardId)
+          .order('order', { ascending: true }),
+        supabase
+          .from('tasks')
+          .select('id, status_id, estimate, estimate_unit')
+          .eq('board_id', boardId),
+      ]);
+
+    if (statusError || taskError) {
+      console.error('Error fetching board for time report:', statusError || taskError);
+      return NextResponse.json({ error: 'Failed to build time report' }, { status: 500 });
+    }
+
+    const taskIds = (tasks || []).map((task) => task.id);
+    const { data: entries, error: entryError } =
+      taskIds.length > 0
+        ? await supabase
+            .from('time_entries')
+            .select('task_id, started_at, ended_at')
+            .in('task_id', taskIds)
+        : { data: [], error: null };
+
+    if (entryError) {
+      console.error('Error fetching time entries for report:', entryError);
+      return NextResponse.json({ error: 'Failed to build time report' }, { status: 500 });
+    }
+
+    const report = buildTimeReport(statuses || [], tasks || [], entries || []);
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/time-report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+
+type RouteParams = { params: Promise<{ boardId: string; webhookId: string }> };
+
+const DELIVERY_LOG_LIMIT = 50;
+
+// GET /api/boards/[boardId]/webhooks/[webhookId]/deliveries - Most recent deliveries
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, webhookId } = await params;
+
+    await authorizeBoard(boardId, 'webhook:manage');
+
+    const supabase = await createClient();
+
+    const { data: webhook } = await supabase
+      .from('webhooks')
+      .select('id')
+      .eq('id', webhookId)
+      .eq('board_id', boardId)
+      .single();
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const { data: deliveries, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId)
+      .order('created_at', { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT);
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return NextResponse.json({ error: 'Failed to fetch deliveries' }, { status: 500 });
+    }
+
+    return NextResponse.json({ deliveries: deliveries || [] });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/webhooks/[webhookId]/deliveries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { UpdateWebhookSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { generateWebhookSecret, withMaskedSecret } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ boardId: string; webhookId: string }> };
+
+// PATCH /api/boards/[boardId]/webhooks/[webhookId] - Update a webhook or rotate its secret
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, webhookId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'webhook:manage');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'webhooks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(UpdateWebhookSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { url, events, is_active, rotate_secret } = validation.data;
+
+    const updateData: Record<string, unknown> = {};
+    if (url !== undefined) updateData.url = url;
+    if (events !== undefined) updateData.events = events;
+    if (is_active !== undefined) updateData.is_active = is_active;
+    if (rotate_secret) updateData.secret = generateWebhookSecret();
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+    const { data: webhook, error } = await supabase
+      .from('webhooks')
+      .update(updateData)
+      .eq('id', webhookId)
+      .eq('board_id', boardId)
+      .select()
+      .single();
+
+    if (error || !webhook) {
+      if (error?.code === 'PGRST116' || !webhook) {
+        return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+      }
+      console.error('Error updating webhook:', error);
+      return NextResponse.json({ error: 'Failed to update webhook' }, { status: 500 });
+    }
+
+    // A rotated secret is shown once, like on create
+    return NextResponse.json({ webhook: rotate_secret ? webhook : withMaskedSecret(webhook) });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in PATCH /api/boards/[boardId]/webhooks/[webhookId]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/boards/[boardId]/webhooks/[webhookId] - Delete a webhook and its delivery log
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, webhookId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'webhook:manage');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'webhooks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+    const { data: deleted, error } = await supabase
+      .from('webhooks')
+      .delete()
+      .eq('id', webhookId)
+      .eq('board_id', boardId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting webhook:', error);
+      return NextResponse.json({ error: 'Failed to delete webhook' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in DELETE /api/boards/[boardId]/webhooks/[webhookId]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
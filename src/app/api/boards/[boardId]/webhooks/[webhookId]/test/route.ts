@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { sendWebhook } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ boardId: string; webhookId: string }> };
+
+// POST /api/boards/[boardId]/webhooks/[webhookId]/test - Send a signed ping now and log it
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId, webhookId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'webhook:manage');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'webhooks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const supabase = await createClient();
+
+    const { data: webhook } = await supabase
+      .from('webhooks')
+      .select('id, url, secret')
+      .eq('id', webhookId)
+      .eq('board_id', boardId)
+      .single();
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const deliveryId = randomUUID();
+    const payload = {
+      id: deliveryId,
+      event: 'ping',
+      board_id: boardId,
+      task_id: null,
+      actor_id: userId,
+      details: {},
+      created_at: new Date().toISOString(),
+    };
+
+    const attempt = await sendWebhook({
+      url: webhook.url,
+      secret: webhook.secret,
+      deliveryId,
+      event: 'ping',
+      payload,
+    });
+
+    const { data: delivery, error } = await supabase
+      .from('webhook_deliveries')
+      .insert({
+        id: deliveryId,
+        webhook_id: webhookId,
+        event: 'ping',
+        payload,
+        // Pings are not retried
+        status: attempt.ok ? 'succeeded' : 'failed',
+        attempts: 1,
+        next_attempt_at: null,
+        response_status: attempt.status,
+        response_body: attempt.responseBody,
+        latency_ms: attempt.latencyMs,
+        error: attempt.error,
+        delivered_at: attempt.ok ? new Date().toISOString() : null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error logging webhook delivery:', error);
+    }
+
+    return NextResponse.json({ delivery: delivery ?? null, ok: attempt.ok });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in POST /api/boards/[boardId]/webhooks/[webhookId]/test:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
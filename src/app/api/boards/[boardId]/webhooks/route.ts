@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { CreateWebhookSchema, validateRequestBody } from '@/lib/validation';
+import { enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import { authorizeBoard, handleAuthError } from '@/lib/security/authMiddleware';
+import { generateWebhookSecret, withMaskedSecret } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ boardId: string }> };
+
+/** Upper bound so a board cannot fan every event out to an unbounded list */
+const MAX_WEBHOOKS_PER_BOARD = 10;
+
+// GET /api/boards/[boardId]/webhooks - List webhooks (secrets masked)
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    await authorizeBoard(boardId, 'webhook:manage');
+
+    const supabase = await createClient();
+    const { data: webhooks, error } = await supabase
+      .from('webhooks')
+      .select('*')
+      .eq('board_id', boardId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+      return NextResponse.json({ error: 'Failed to fetch webhooks' }, { status: 500 });
+    }
+
+    return NextResponse.json({ webhooks: (webhooks || []).map(withMaskedSecret) });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/boards/[boardId]/webhooks:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/boards/[boardId]/webhooks - Create a webhook; the secret is only returned here
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { boardId } = await params;
+
+    const { userId } = await authorizeBoard(boardId, 'webhook:manage');
+
+    try {
+      enforceRateLimit(userId, rateLimitConfigs.api.write, 'webhooks:write');
+    } catch (error) {
+      if ((error as Error & { code?: string }).code === 'RATE_LIMIT_EXCEEDED') {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+      throw error;
+    }
+
+    const validation = await validateRequestBody(CreateWebhookSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const { url, events, is_active } = validation.data;
+    const supabase = await createClient();
+
+    const { count } = await supabase
+      .from('webhooks')
+      .select('id', { count: 'exact', head: true })
+      .eq('board_id', boardId);
+
+    if ((count ?? 0) >= MAX_WEBHOOKS_PER_BOARD) {
+      return NextResponse.json(
+        { error: `A board can have at most ${MAX_WEBHOOKS_PER_BOARD} webhooks` },
+        { status: 400 }
+      );
+    }
+
+    const { data: webhook, error } = await supabase
+      .from('webhooks')
+      .insert({
+        board_id: boardId,
+        url,
+        events,
+        is_active,
+        secret: generateWebhookSecret(),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating webhook:', error);
+      return NextResponse.json({ error: 'Failed to create webhook' }, { status: 500 });
+    }
+
+    return NextResponse.json({ webhook }, { status: 201 });
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      (error.name === 'AuthenticationError' || error.name === 'AuthorizationError')
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in POST /api/boards/[boardId]/webhooks:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
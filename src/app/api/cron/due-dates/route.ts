@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { sendDueDateReminders } from '@/lib/notifications';
+import { authorizeCron, handleAuthError } from '@/lib/security/authMiddleware';
+
+// GET /api/cron/due-dates - Send due soon / overdue reminders; schedule every 15 minutes
+export async function GET(request: NextRequest) {
+  try {
+    authorizeCron(request);
+
+    const result = await sendDueDateReminders(createAdminClient());
+
+    return NextResponse.json(result);
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      error.name === 'AuthenticationError'
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/cron/due-dates:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
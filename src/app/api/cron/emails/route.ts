@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { processEmailOutbox } from '@/lib/notifications';
+import { createEmailTransport } from '@/lib/email';
+import { authorizeCron, handleAuthError } from '@/lib/security/authMiddleware';
+
+// GET /api/cron/emails - Send queued notification emails and due digests; schedule every 5 minutes
+export async function GET(request: NextRequest) {
+  try {
+    authorizeCron(request);
+
+    const supabase = createAdminClient();
+    const result = await processEmailOutbox(supabase, createEmailTransport(supabase));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    // Check if it's an auth error
+    if (
+      error &&
+      typeof error === 'object' &&
+      'name' in error &&
+      error.name === 'AuthenticationError'
+    ) {
+      return handleAuthError(error);
+    }
+
+    // Other errors
+    console.error('Error in GET /api/cron/emails:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,12 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-
-// GET /api/notifications
+import {
+  DeleteNotificationsSchema,
+  NotificationListQuerySchema,
+  UpdateNotificationsSchema,
+  validateRequestBody,
+  validateSearchParams,
+} from '@/lib/validation';
+import { decodeNotificationCursor, encodeNotificationCursor } from '@/lib/notifications';
+
+// GET /api/notifications - Inbox or archive, newest first, filtered and paged by cursor
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const unreadOnly = searchParams.get('unread') === 'true';
-    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const validation = validateSearchParams(NotificationListQuerySchema, searchParams);
+    if (!validation.success) {
+      return validation.error;
+    }
+    const { type, board_id, unread, archived, cursor, limit } = validation.data;
+
+    const after = cursor ? decodeNotificationCursor(cursor) : null;
+    if (cursor && !after) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
 
     const supabase = await createClient();
 
@@ -20,30 +36,56 @@ export async function GET(request: NextRequest) {
 
     let query = supabase
       .from('notifications')
-      .select('*')
+      .select('*, board:boards(id, name), task:tasks(id, title)')
       .eq('user_id', user.id)
+      .eq('in_app', true)
       .order('created_at', { ascending: false })
-      .limit(limit);
+      .order('id', { ascending: false })
+      // One extra row tells whether there is a next page
+      .limit(limit + 1);
+
+    query = archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
 
-    if (unreadOnly) {
+    if (type.length > 0) {
+      query = query.in('type', type);
+    }
+    if (board_id) {
+      query = query.eq('board_id', board_id);
+    }
+    if (unread) {
       query = query.is('read_at', null);
     }
+    if (after) {
+      query = query.or(
+        `created_at.lt.${after.created_at},and(created_at.eq.${after.created_at},id.lt.${after.id})`
+      );
+    }
 
-    const { data: notifications, error } = await query;
+    const { data, error } = await query;
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    // Get unread count
+    const notifications = (data || []).slice(0, limit);
+    const last = notifications[notifications.length - 1];
+    const nextCursor =
+      data && data.length > limit && last
+        ? encodeNotificationCursor({ created_at: last.created_at, id: last.id })
+        : null;
+
+    // Unread count for the inbox badge, regardless of filters
     const { count } = await supabase
       .from('notifications')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .eq('in_app', true)
+      .is('archived_at', null)
       .is('read_at', null);
 
     return NextResponse.json({
       notifications,
+      next_cursor: nextCursor,
       unread_count: count || 0,
     });
   } catch {
@@ -51,11 +93,14 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PATCH /api/notifications - Mark notifications as read
+// PATCH /api/notifications - Mark read or unread, archive or restore notifications
 export async function PATCH(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { notification_ids, mark_all } = body;
+    const validation = await validateRequestBody(UpdateNotificationsSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+    const { action, notification_ids, mark_all } = validation.data;
 
     const supabase = await createClient();
 
@@ -67,30 +112,34 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const now = new Date().toISOString();
+    // Archiving clears the item out of the unread count as well
+    const changes = {
+      read: { read_at: now },
+      unread: { read_at: null },
+      archive: { archived_at: now, read_at: now },
+      unarchive: { archived_at: null },
+    }[action];
+
+    let query = supabase.from('notifications').update(changes).eq('user_id', user.id);
+
     if (mark_all) {
-      // Mark all as read
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read_at: new Date().toISOString() })
-        .eq('user_id', user.id)
-        .is('read_at', null);
-
-      if (error) {
-        return NextResponse.json({ error: error.message }, { status: 500 });
-      }
-    } else if (notification_ids && Array.isArray(notification_ids)) {
-      // Mark specific notifications as read
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read_at: new Date().toISOString() })
-        .eq('user_id', user.id)
-        .in('id', notification_ids);
-
-      if (error) {
-        return NextResponse.json({ error: error.message }, { status: 500 });
+      // "All" means the inbox; restoring applies to the whole archive
+      query =
+        action === 'unarchive'
+          ? query.not('archived_at', 'is', null)
+          : query.is('archived_at', null);
+      if (action === 'read') {
+        query = query.is('read_at', null);
       }
     } else {
-      return NextResponse.json({ error: 'notification_ids or mark_all required' }, { status: 400 });
+      query = query.in('id', notification_ids!);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
     return NextResponse.json({ success: true });
@@ -98,3 +147,37 @@ export async function PATCH(request: NextRequest) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
+
+// DELETE /api/notifications - Delete notifications for good
+export async function DELETE(request: NextRequest) {
+  try {
+    const validation = await validateRequestBody(DeleteNotificationsSchema, request);
+    if (!validation.success) {
+      return validation.error;
+    }
+
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .eq('user_id', user.id)
+      .in('id', validation.data.notification_ids);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+// GET /api/profile/subscriptions - Boards and tasks the user watches or muted
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: subscriptions, error } = await supabase
+      .from('notification_subscriptions')
+      .select('*, board:boards(id, name), task:tasks(id, title)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching subscriptions:', error);
+      return NextResponse.json({ error: 'Failed to fetch subscriptions' }, { status: 500 });
+    }
+
+    return NextResponse.json({ subscriptions });
+  } catch (error) {
+    console.error('Error in GET /api/profile/subscriptions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
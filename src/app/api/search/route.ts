@@ -2,8 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { SearchQuerySchema, validateSearchParams } from '@/lib/validation';
 import { sanitizeSearchInput, enforceRateLimit, rateLimitConfigs } from '@/lib/security';
+import {
+  getHighlightTerms,
+  hasSearchCriteria,
+  makeExcerpt,
+  parseSearchQuery,
+  translateSearchQuery,
+} from '@/lib/search';
+import { markdownToPlainText } from '@/lib/markdown';
+import type { Json } from '@/lib/supabase/types';
 
-// GET /api/search?q=query
+// GET /api/search?q=query - Free text plus operators such as board:, tag:, due:<2026-11-01, is:overdue
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -37,17 +46,32 @@ export async function GET(request: NextRequest) {
 
     const { q: query, limit } = validation.data;
 
-    // Sanitize the search query for SQL LIKE/ILIKE operations
-    const sanitizedQuery = sanitizeSearchInput(query);
+    const parsed = parseSearchQuery(query);
+    const search = translateSearchQuery(parsed, { userId: user.id });
+    const terms = getHighlightTerms(parsed);
 
-    // Use the search function we created in the migration
-    const { data: results, error } = await supabase.rpc('search_tasks', {
-      search_query: query.trim(),
-      user_uuid: user.id,
+    if (!hasSearchCriteria(search)) {
+      return NextResponse.json({ results: [], terms, errors: search.errors });
+    }
+
+    const { data: results, error } = await supabase.rpc('search_tasks_advanced', {
+      search_query: search.text,
+      filters: search.filters as unknown as Json,
+      search_scope: search.scope,
+      max_results: limit,
     });
 
     if (error) {
-      // Fallback to simple ILIKE search if full-text search fails
+      // Fallback to a simple ILIKE search on the free text if the search function fails;
+      // operators cannot be applied here
+      const text = terms.join(' ');
+      if (!text) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      // Sanitize the search query for SQL LIKE/ILIKE operations
+      const sanitizedQuery = sanitizeSearchInput(text);
+
       const { data: fallbackResults, error: fallbackError } = await supabase
         .from('tasks')
         .select(
@@ -80,6 +104,7 @@ export async function GET(request: NextRequest) {
         .map((task: Record<string, unknown>) => {
           const boards = task.boards as { name: string } | undefined;
           const statuses = task.statuses as { name: string } | undefined;
+          const description = task.description as string | null;
           return {
             id: task.id,
             board_id: task.board_id,
@@ -87,18 +112,32 @@ export async function GET(request: NextRequest) {
             status_id: task.status_id,
             status_name: statuses?.name || '',
             title: task.title,
-            description: task.description,
+            description,
+            excerpt: description ? makeExcerpt(markdownToPlainText(description), terms) : null,
             priority: task.priority,
             tags: task.tags,
             due_date: task.due_date,
             rank: 1,
+            comment_id: null,
+            comment_excerpt: null,
           };
         });
 
-      return NextResponse.json({ results: formattedResults });
+      return NextResponse.json({ results: formattedResults, terms, errors: search.errors });
     }
 
-    return NextResponse.json({ results: results || [] });
+    // Comments and descriptions are Markdown; excerpts are plain text around the first match
+    const formattedResults = (results || []).map(({ comment_content, ...result }) => ({
+      ...result,
+      excerpt: result.description
+        ? makeExcerpt(markdownToPlainText(result.description), terms)
+        : null,
+      comment_excerpt: comment_content
+        ? makeExcerpt(markdownToPlainText(comment_content), terms)
+        : null,
+    }));
+
+    return NextResponse.json({ results: formattedResults, terms, errors: search.errors });
   } catch {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
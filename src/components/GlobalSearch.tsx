@@ -2,7 +2,17 @@
 
 import { useState, useEffect, useRef, useId, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { Search, X, Loader2, FileText, Calendar, Tag } from 'lucide-react';
+import {
+  Search,
+  X,
+  Loader2,
+  FileText,
+  Calendar,
+  Tag,
+  MessageSquare,
+  AlertCircle,
+} from 'lucide-react';
+import { SEARCH_OPERATORS, splitHighlights, type SearchQueryError } from '@/lib/search';
 
 interface SearchResult {
   id: string;
@@ -16,6 +26,11 @@ interface SearchResult {
   tags: string[];
   due_date: string | null;
   rank: number;
+  /** Plain-text description around the first match */
+  excerpt: string | null;
+  /** Best matching comment, when the match came from comments */
+  comment_id: string | null;
+  comment_excerpt: string | null;
 }
 
 interface GlobalSearchProps {
@@ -30,11 +45,32 @@ const priorityColors: Record<string, string> = {
   critical: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
 };
 
+/**
+ * Text with the search terms wrapped in <mark>
+ */
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
 export default function GlobalSearch({ isOpen, onClose }: GlobalSearchProps) {
   const router = useRouter();
   const inputRef = useRef<HTMLInputElement>(null);
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [terms, setTerms] = useState<string[]>([]);
+  const [queryErrors, setQueryErrors] = useState<SearchQueryError[]>([]);
   const [loading, setLoading] = useState(false);
   const [searched, setSearched] = useState(false);
   const [activeIndex, setActiveIndex] = useState(-1);
@@ -48,6 +84,8 @@ export default function GlobalSearch({ isOpen, onClose }: GlobalSearchProps) {
     if (isOpen) {
       setQuery('');
       setResults([]);
+      setTerms([]);
+      setQueryErrors([]);
       setSearched(false);
       setActiveIndex(-1);
       setTimeout(() => inputRef.current?.focus(), 100);
@@ -60,6 +98,7 @@ export default function GlobalSearch({ isOpen, onClose }: GlobalSearchProps) {
         performSearch();
       } else {
         setResults([]);
+        setQueryErrors([]);
         setSearched(false);
       }
     }, 300);
@@ -80,9 +119,12 @@ export default function GlobalSearch({ isOpen, onClose }: GlobalSearchProps) {
       }
 
       setResults(data.results || []);
+      setTerms(data.terms || []);
+      setQueryErrors(data.errors || []);
     } catch (error) {
       console.error('Search error:', error);
       setResults([]);
+      setQueryErrors([]);
     } finally {
       setLoading(false);
     }
@@ -160,7 +202,7 @@ export default function GlobalSearch({ isOpen, onClose }: GlobalSearchProps) {
             type="text"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder="Search tasks..."
+            placeholder="Search tasks... try tag:bug is:overdue"
             aria-autocomplete="list"
             aria-controls={listboxId}
             aria-activedescendant={activeIndex >= 0 ? getOptionId(activeIndex) : undefined}
@@ -176,12 +218,49 @@ export default function GlobalSearch({ isOpen, onClose }: GlobalSearchProps) {
           </button>
         </div>
 
+        {/* Operators that could not be applied */}
+        {queryErrors.length > 0 && (
+          <ul
+            className="px-4 py-2 space-y-1 border-b border-gray-200 dark:border-gray-700 bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300"
+            role="status"
+          >
+            {queryErrors.map((queryError) => (
+              <li key={queryError.token} className="flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+                <span>
+                  <code className="font-mono">{queryError.token}</code> ignored:{' '}
+                  {queryError.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Results */}
         <div className="max-h-96 overflow-y-auto">
           {!searched ? (
-            <div className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
-              <Search className="h-12 w-12 mx-auto mb-3 opacity-50" aria-hidden="true" />
-              <p>Type at least 2 characters to search</p>
+            <div className="px-4 py-6 text-gray-500 dark:text-gray-400">
+              <p className="text-center">Type at least 2 characters to search</p>
+              <p className="mt-4 mb-2 text-xs font-medium uppercase tracking-wide text-gray-400">
+                Narrow results with
+              </p>
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1.5 text-sm">
+                {SEARCH_OPERATORS.map((operator) => (
+                  <li key={operator.example}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setQuery((current) => `${current.trim()} ${operator.example} `.trimStart());
+                        inputRef.current?.focus();
+                      }}
+                      className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {operator.example}
+                    </button>{' '}
+                    <span className="text-xs">{operator.description}</span>
+                  </li>
+                ))}
+              </ul>
             </div>
           ) : loading ? (
             <div className="px-4 py-8 text-center" aria-live="polite" aria-busy="true">
@@ -219,11 +298,22 @@ export default function GlobalSearch({ isOpen, onClose }: GlobalSearchProps) {
                     />
                     <div className="flex-1 min-w-0">
                       <p className="font-medium text-gray-900 dark:text-white truncate">
-                        {result.title}
+                        <Highlighted text={result.title} terms={terms} />
                       </p>
-                      {result.description && (
+                      {result.excerpt && (
                         <p className="text-sm text-gray-500 dark:text-gray-400 truncate mt-0.5">
-                          {result.description}
+                          <Highlighted text={result.excerpt} terms={terms} />
+                        </p>
+                      )}
+                      {result.comment_excerpt && (
+                        <p className="flex items-start gap-1.5 text-sm text-gray-500 dark:text-gray-400 mt-1">
+                          <MessageSquare
+                            className="h-3.5 w-3.5 mt-0.5 flex-shrink-0"
+                            aria-label="Comment"
+                          />
+                          <span className="line-clamp-2">
+                            <Highlighted text={result.comment_excerpt} terms={terms} />
+                          </span>
                         </p>
                       )}
                       <div className="flex items-center gap-2 mt-1.5 flex-wrap">
@@ -6,30 +6,16 @@ import { useTheme } from '@/components/ThemeProvider';
 import { Sun, Moon, LogOut, LayoutDashboard, Search, Bell, Settings } from 'lucide-react';
 import Link from 'next/link';
 import GlobalSearch from './GlobalSearch';
+import OfflineStatus from './OfflineStatus';
+import { useUnreadNotificationCount } from '@/hooks/api';
+import { useRealtimeNotifications } from '@/hooks/useRealtimeNotifications';
 
 export default function Header() {
   const { user, signOut } = useAuth();
   const { resolvedTheme, toggleTheme } = useTheme();
   const [isSearchOpen, setIsSearchOpen] = useState(false);
-  const [unreadCount, setUnreadCount] = useState(0);
-
-  useEffect(() => {
-    const fetchUnreadCount = async () => {
-      try {
-        const response = await fetch('/api/notifications?unread=true&limit=1');
-        const data = await response.json();
-        if (response.ok) {
-          setUnreadCount(data.unread_count || 0);
-        }
-      } catch (error) {
-        console.error('Error fetching notifications:', error);
-      }
-    };
-
-    if (user) {
-      fetchUnreadCount();
-    }
-  }, [user]);
+  const { data: unreadCount = 0 } = useUnreadNotificationCount({ enabled: !!user });
+  useRealtimeNotifications(user?.id);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -69,6 +55,8 @@ export default function Header() {
             )}
 
             <div className="flex items-center gap-1 sm:gap-2">
+              {user && <OfflineStatus />}
+
               {/* Mobile search button */}
               {user && (
                 <button
@@ -96,6 +84,9 @@ export default function Header() {
                 <>
                   <Link
                     href="/notifications"
+                    aria-label={
+                      unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'
+                    }
                     className="relative p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
                   >
                     <Bell className="h-5 w-5" />
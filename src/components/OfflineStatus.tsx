@@ -0,0 +1,180 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { AlertTriangle, CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { getConflictFields, type QueuedMutation } from '@/lib/offline';
+import { describeTaskFields } from '@/lib/tasks';
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'None';
+  if (Array.isArray(value)) {
+    if (field === 'assignee_ids') {
+      return value.length === 1 ? '1 assignee' : `${value.length} assignees`;
+    }
+    return value.length > 0 ? value.join(', ') : 'None';
+  }
+  if (field === 'due_date') return String(value).slice(0, 10);
+  return String(value);
+}
+
+function describeConflict(mutation: QueuedMutation): string {
+  const conflict = mutation.conflict!;
+  const fields = describeTaskFields(getConflictFields(conflict));
+  switch (conflict.type) {
+    case 'delete_edit':
+      return `You deleted it, but someone else changed ${fields}.`;
+    case 'move_edit':
+      return 'Someone else moved it to another column.';
+    default:
+      return `Someone else also changed ${fields}.`;
+  }
+}
+
+function ConflictItem({
+  mutation,
+  onResolve,
+}: {
+  mutation: QueuedMutation;
+  onResolve: (id: string, choice: 'mine' | 'theirs') => Promise<void>;
+}) {
+  const [saving, setSaving] = useState(false);
+  const conflict = mutation.conflict!;
+  const showValues = conflict.type === 'concurrent_edit';
+
+  const handleResolve = async (choice: 'mine' | 'theirs') => {
+    setSaving(true);
+    try {
+      await onResolve(mutation.id, choice);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve the conflict');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <li className="px-3 py-2">
+      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{mutation.label}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">{describeConflict(mutation)}</p>
+
+      {showValues && (
+        <div className="mt-1 space-y-0.5 text-xs">
+          {getConflictFields(conflict).map((field) => (
+            <div key={field} className="grid grid-cols-2 gap-2">
+              <span className="truncate text-blue-700 dark:text-blue-300">
+                Yours: {formatValue(field, conflict.localVersion.data[field])}
+              </span>
+              <span className="truncate text-gray-600 dark:text-gray-300">
+                Theirs: {formatValue(field, conflict.remoteVersion.data[field])}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 flex gap-2">
+        <button
+          type="button"
+          onClick={() => handleResolve('mine')}
+          disabled={saving}
+          className="rounded-md bg-blue-600 px-2 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {conflict.type === 'delete_edit' ? 'Delete anyway' : 'Keep mine'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleResolve('theirs')}
+          disabled={saving}
+          className="rounded-md px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-60 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          {conflict.type === 'delete_edit' ? 'Keep the task' : 'Keep theirs'}
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Header indicator for offline editing: offline, syncing, queued changes and
+ * conflicts that need the user to pick a version
+ */
+export default function OfflineStatus() {
+  const { online, pending, conflicts, syncing, sync, resolveConflict } = useOfflineSync();
+  const [open, setOpen] = useState(false);
+  const panelId = useId();
+
+  if (online && !syncing && pending === 0 && conflicts.length === 0) return null;
+
+  const queuedLabel = pending === 1 ? '1 change' : `${pending} changes`;
+  let label: string;
+  let Icon = CloudOff;
+  if (!online) {
+    label = pending > 0 ? `Offline, ${queuedLabel} waiting to sync` : 'Offline';
+  } else if (syncing) {
+    label = `Syncing ${queuedLabel}`;
+    Icon = Loader2;
+  } else if (pending > 0) {
+    label = `${queuedLabel} not synced`;
+    Icon = RefreshCw;
+  } else {
+    label = conflicts.length === 1 ? '1 sync conflict' : `${conflicts.length} sync conflicts`;
+    Icon = AlertTriangle;
+  }
+
+  const hasConflicts = conflicts.length > 0;
+  const handleClick = () => {
+    if (hasConflicts) setOpen(!open);
+    else if (online && !syncing) void sync();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={!online && !hasConflicts}
+        aria-live="polite"
+        aria-haspopup={hasConflicts ? 'dialog' : undefined}
+        aria-expanded={hasConflicts ? open : undefined}
+        aria-controls={open ? panelId : undefined}
+        title={!hasConflicts && online && !syncing ? 'Sync now' : undefined}
+        className={`flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors disabled:cursor-default ${
+          hasConflicts
+            ? 'text-amber-700 hover:bg-amber-50 dark:text-amber-400 dark:hover:bg-amber-900/20'
+            : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+        }`}
+      >
+        <Icon className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} aria-hidden="true" />
+        <span className="hidden md:inline">{label}</span>
+        <span className="sr-only md:hidden">{label}</span>
+        {hasConflicts && Icon !== AlertTriangle && (
+          <span className="rounded-full bg-amber-500 px-1.5 text-xs text-white">
+            {conflicts.length}
+          </span>
+        )}
+      </button>
+
+      {open && hasConflicts && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} aria-hidden="true" />
+          <div
+            id={panelId}
+            role="dialog"
+            aria-label="Sync conflicts"
+            className="absolute right-0 top-full z-20 mt-1 w-80 rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-700 dark:bg-gray-800"
+          >
+            <p className="border-b border-gray-200 px-3 py-2 text-xs text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              These offline changes clash with edits made by others. Pick which version to keep.
+            </p>
+            <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto dark:divide-gray-700">
+              {conflicts.map((mutation) => (
+                <ConflictItem key={mutation.id} mutation={mutation} onResolve={resolveConflict} />
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,33 @@
 'use client';
 
-import { Toaster } from 'react-hot-toast';
+import toast, { Toaster } from 'react-hot-toast';
+
+/** Undo toasts stay up a little longer than the default so there is time to click */
+const UNDO_TOAST_DURATION = 6000;
+
+/**
+ * Success toast with an "Undo" button
+ */
+export function toastWithUndo(message: string, onUndo: () => void) {
+  return toast.success(
+    (t) => (
+      <span className="flex items-center gap-3">
+        {message}
+        <button
+          type="button"
+          onClick={() => {
+            toast.dismiss(t.id);
+            onUndo();
+          }}
+          className="rounded px-2 py-0.5 text-sm font-medium text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          Undo
+        </button>
+      </span>
+    ),
+    { duration: UNDO_TOAST_DURATION }
+  );
+}
 
 export default function ToastProvider() {
   return (
@@ -0,0 +1,107 @@
+'use client';
+
+import { memo } from 'react';
+import type { Profile } from '@/types/board';
+
+type AvatarProfile = Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'>;
+
+interface AssigneeAvatarsProps {
+  profiles: AvatarProfile[];
+  /** Maximum avatars shown before collapsing into a "+N" bubble */
+  max?: number;
+  size?: 'sm' | 'md';
+}
+
+const avatarColors = ['#6366f1', '#10b981', '#f97316', '#ec4899', '#8b5cf6', '#0ea5e9', '#ef4444'];
+
+const sizeClasses = {
+  sm: 'w-6 h-6 text-xs',
+  md: 'w-8 h-8 text-sm',
+};
+
+export function getProfileName(profile: AvatarProfile): string {
+  return profile.display_name || profile.email || 'Unknown';
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+/**
+ * Stable color per user so the same person looks the same on every card
+ */
+function getAvatarColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return avatarColors[Math.abs(hash) % avatarColors.length];
+}
+
+export const UserAvatar = memo(function UserAvatar({
+  profile,
+  size = 'sm',
+}: {
+  profile: AvatarProfile;
+  size?: 'sm' | 'md';
+}) {
+  const name = getProfileName(profile);
+
+  if (profile.avatar_url) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={profile.avatar_url}
+        alt={name}
+        title={name}
+        className={`${sizeClasses[size]} rounded-full object-cover ring-2 ring-white dark:ring-gray-800`}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={`${sizeClasses[size]} rounded-full flex items-center justify-center font-medium text-white ring-2 ring-white dark:ring-gray-800`}
+      style={{ backgroundColor: getAvatarColor(profile.id) }}
+      title={name}
+      role="img"
+      aria-label={name}
+    >
+      {getInitials(name)}
+    </div>
+  );
+});
+
+function AssigneeAvatars({ profiles, max = 3, size = 'sm' }: AssigneeAvatarsProps) {
+  if (profiles.length === 0) return null;
+
+  const visible = profiles.slice(0, max);
+  const extraCount = profiles.length - visible.length;
+
+  return (
+    <div
+      className="flex -space-x-2"
+      role="group"
+      aria-label={`Assigned to ${profiles.map(getProfileName).join(', ')}`}
+    >
+      {visible.map((profile) => (
+        <UserAvatar key={profile.id} profile={profile} size={size} />
+      ))}
+      {extraCount > 0 && (
+        <div
+          className={`${sizeClasses[size]} rounded-full flex items-center justify-center font-medium bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 ring-2 ring-white dark:ring-gray-800`}
+        >
+          +{extraCount}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(AssigneeAvatars);
@@ -1,21 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { X, Loader2, Activity, Plus, Edit, Trash, Move, UserPlus, UserMinus } from 'lucide-react';
-
-interface ActivityItem {
-  id: string;
-  board_id: string;
-  task_id: string | null;
-  user_id: string;
-  action: string;
-  details: Record<string, unknown>;
-  created_at: string;
-  profile?: {
-    display_name: string | null;
-    email: string;
-  };
-}
+import {
+  X,
+  Loader2,
+  Activity,
+  Plus,
+  Edit,
+  Trash,
+  Move,
+  UserPlus,
+  UserMinus,
+  Paperclip,
+} from 'lucide-react';
+import { useBoardActivities } from '@/hooks/api';
+import type { TextDiffPart } from '@/lib/comments';
+import CommentDiff from './CommentDiff';
 
 interface BoardActivityModalProps {
   isOpen: boolean;
@@ -36,6 +35,10 @@ const actionIcons: Record<string, typeof Activity> = {
   member_removed: UserMinus,
   member_role_changed: Edit,
   comment_added: Edit,
+  comment_updated: Edit,
+  comment_deleted: Trash,
+  attachment_added: Paperclip,
+  attachment_deleted: Trash,
 };
 
 const actionLabels: Record<string, string> = {
@@ -51,50 +54,19 @@ const actionLabels: Record<string, string> = {
   member_removed: 'removed a member',
   member_role_changed: 'changed a member role',
   comment_added: 'added a comment',
+  comment_updated: 'edited a comment',
+  comment_deleted: 'deleted a comment',
+  attachment_added: 'attached a file',
+  attachment_deleted: 'removed a file',
 };
 
 export default function BoardActivityModal({ isOpen, onClose, boardId }: BoardActivityModalProps) {
-  const [activities, setActivities] = useState<ActivityItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [hasMore, setHasMore] = useState(false);
-  const [page, setPage] = useState(1);
-
-  useEffect(() => {
-    if (isOpen) {
-      setPage(1);
-      fetchActivities(1, true);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, boardId]);
-
-  const fetchActivities = async (pageNum: number, reset = false) => {
-    try {
-      setLoading(true);
-      const response = await fetch(`/api/boards/${boardId}/activities?page=${pageNum}&limit=20`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch activities');
-      }
-
-      if (reset) {
-        setActivities(data.activities || []);
-      } else {
-        setActivities((prev) => [...prev, ...(data.activities || [])]);
-      }
-      setHasMore(data.hasMore || false);
-    } catch (error) {
-      console.error('Error fetching activities:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const loadMore = () => {
-    const nextPage = page + 1;
-    setPage(nextPage);
-    fetchActivities(nextPage);
-  };
+  // New activity is prepended live by the board's realtime subscription
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useBoardActivities(
+    boardId,
+    { enabled: isOpen }
+  );
+  const activities = data?.pages.flat() ?? [];
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -132,7 +104,7 @@ export default function BoardActivityModal({ isOpen, onClose, boardId }: BoardAc
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4">
-          {loading && activities.length === 0 ? (
+          {isLoading ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
             </div>
@@ -161,6 +133,13 @@ export default function BoardActivityModal({ isOpen, onClose, boardId }: BoardAc
                           {activity.details.task_title
                             ? `"${String(activity.details.task_title)}"`
                             : null}
+                          {activity.details.checklist_item_title ? (
+                            <span>
+                              {' '}
+                              {activity.details.completed ? 'checked' : 'unchecked'} &quot;
+                              {String(activity.details.checklist_item_title)}&quot;
+                            </span>
+                          ) : null}
                           {activity.details.old_status && activity.details.new_status ? (
                             <span>
                               {String(activity.details.old_status)} →{' '}
@@ -169,6 +148,12 @@ export default function BoardActivityModal({ isOpen, onClose, boardId }: BoardAc
                           ) : null}
                         </p>
                       )}
+                      {Array.isArray(activity.details?.diff) && (
+                        <CommentDiff
+                          parts={activity.details.diff as TextDiffPart[]}
+                          className="mt-1 rounded bg-gray-50 p-2 dark:bg-gray-700/50"
+                        />
+                      )}
                       <p className="text-xs text-gray-400 mt-1">
                         {formatDate(activity.created_at)}
                       </p>
@@ -177,13 +162,13 @@ export default function BoardActivityModal({ isOpen, onClose, boardId }: BoardAc
                 );
               })}
 
-              {hasMore && (
+              {hasNextPage && (
                 <button
-                  onClick={loadMore}
-                  disabled={loading}
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
                   className="w-full py-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
                 >
-                  {loading ? 'Loading...' : 'Load more'}
+                  {isFetchingNextPage ? 'Loading...' : 'Load more'}
                 </button>
               )}
             </div>
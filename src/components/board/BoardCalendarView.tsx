@@ -0,0 +1,272 @@
+'use client';
+
+import { memo, useMemo, useState } from 'react';
+import {
+  DndContext,
+  KeyboardCode,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { BoardWithData, Task } from '@/types/board';
+import {
+  getCalendarDays,
+  getRescheduledDueDate,
+  groupTasksByDueDay,
+  shiftCalendarAnchor,
+  toDayKey,
+  type CalendarMode,
+} from '@/lib/tasks';
+import type { TaskUpdates } from '@/hooks/api';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const navButtonClass =
+  'rounded-lg p-1.5 text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700';
+
+interface BoardCalendarViewProps {
+  board: BoardWithData;
+  mode: CalendarMode;
+  onModeChange: (mode: CalendarMode) => void;
+  canEdit: boolean;
+  onOpenTask: (task: Task) => void;
+  onUpdateTask: (taskId: string, updates: TaskUpdates) => Promise<void>;
+}
+
+function formatDay(day: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(day).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+interface CalendarTaskProps {
+  task: Task;
+  color: string;
+  canEdit: boolean;
+  onOpenTask: (task: Task) => void;
+}
+
+function CalendarTask({ task, color, canEdit, onOpenTask }: CalendarTaskProps) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: task.id,
+    disabled: !canEdit,
+  });
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      {...attributes}
+      {...listeners}
+      onClick={() => onOpenTask(task)}
+      className={`flex w-full items-center gap-1.5 truncate rounded border-l-4 bg-white px-1.5 py-0.5 text-left text-xs text-gray-900 shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 ${
+        isDragging ? 'opacity-50' : ''
+      }`}
+      style={{ borderLeftColor: color }}
+      aria-label={`${task.title}, due ${formatDay(toDayKey(task.due_date!), {
+        month: 'long',
+        day: 'numeric',
+      })}`}
+    >
+      <span className="truncate">{task.title}</span>
+    </button>
+  );
+}
+
+interface CalendarDayProps {
+  day: string;
+  isToday: boolean;
+  isOutside: boolean;
+  tall: boolean;
+  children: React.ReactNode;
+}
+
+function CalendarDay({ day, isToday, isOutside, tall, children }: CalendarDayProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: day });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col gap-1 border-b border-r border-gray-200 p-1.5 dark:border-gray-700 ${
+        tall ? 'min-h-64' : 'min-h-28'
+      } ${isOutside ? 'bg-gray-50 dark:bg-gray-900/40' : 'bg-white dark:bg-gray-800'} ${
+        isOver ? 'ring-2 ring-inset ring-blue-400' : ''
+      }`}
+    >
+      <span
+        className={`self-end rounded-full px-1.5 text-xs ${
+          isToday
+            ? 'bg-blue-600 font-semibold text-white'
+            : isOutside
+              ? 'text-gray-400'
+              : 'text-gray-600 dark:text-gray-300'
+        }`}
+      >
+        {Number(day.slice(8))}
+      </span>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Tasks on the day they are due, a month or a week at a time
+ * Dragging a task to another day reschedules it
+ */
+function BoardCalendarView({
+  board,
+  mode,
+  onModeChange,
+  canEdit,
+  onOpenTask,
+  onUpdateTask,
+}: BoardCalendarViewProps) {
+  const today = toDayKey(new Date());
+  const [anchor, setAnchor] = useState(today);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 5 } }),
+    useSensor(KeyboardSensor, {
+      // Enter opens the focused task, so only space picks it up
+      keyboardCodes: {
+        start: [KeyboardCode.Space],
+        cancel: [KeyboardCode.Esc],
+        end: [KeyboardCode.Space, KeyboardCode.Enter],
+      },
+    })
+  );
+
+  const days = useMemo(() => getCalendarDays(anchor, mode), [anchor, mode]);
+  const tasksByDay = useMemo(() => groupTasksByDueDay(board), [board]);
+  const statusColors = useMemo(
+    () => new Map(board.statuses.map((status) => [status.id, status.color])),
+    [board.statuses]
+  );
+  const undatedCount = useMemo(
+    () =>
+      board.statuses.reduce(
+        (count, status) => count + status.tasks.filter((task) => !task.due_date).length,
+        0
+      ),
+    [board.statuses]
+  );
+
+  const title =
+    mode === 'month'
+      ? formatDay(anchor, { month: 'long', year: 'numeric' })
+      : `${formatDay(days[0], { month: 'short', day: 'numeric' })} – ${formatDay(days[6], {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+        })}`;
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over) return;
+    const task = board.statuses.flatMap((s) => s.tasks).find((t) => t.id === active.id);
+    const day = over.id as string;
+    if (!task || (task.due_date && toDayKey(task.due_date) === day)) return;
+    // The page shows a toast when a save fails and the cache rolls back
+    onUpdateTask(task.id, { due_date: getRescheduledDueDate(task, day) }).catch(() => {});
+  };
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setAnchor(shiftCalendarAnchor(anchor, mode, -1))}
+          className={navButtonClass}
+          aria-label={mode === 'month' ? 'Previous month' : 'Previous week'}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setAnchor(today)}
+          className="rounded-lg px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          Today
+        </button>
+        <button
+          type="button"
+          onClick={() => setAnchor(shiftCalendarAnchor(anchor, mode, 1))}
+          className={navButtonClass}
+          aria-label={mode === 'month' ? 'Next month' : 'Next week'}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white" aria-live="polite">
+          {title}
+        </h2>
+
+        <div className="ml-auto flex items-center gap-3">
+          {undatedCount > 0 && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {undatedCount === 1 ? '1 task' : `${undatedCount} tasks`} without a due date
+            </span>
+          )}
+          <div
+            role="group"
+            aria-label="Calendar range"
+            className="flex rounded-lg border border-gray-300 dark:border-gray-600"
+          >
+            {(['month', 'week'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onModeChange(value)}
+                aria-pressed={mode === value}
+                className={`px-3 py-1 text-sm capitalize first:rounded-l-lg last:rounded-r-lg ${
+                  mode === value
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className="grid grid-cols-7 overflow-hidden rounded-lg border-l border-t border-gray-200 dark:border-gray-700">
+          {WEEKDAYS.map((weekday) => (
+            <div
+              key={weekday}
+              className="border-b border-r border-gray-200 bg-gray-50 px-2 py-1 text-xs font-semibold text-gray-600 dark:border-gray-700 dark:bg-gray-900/50 dark:text-gray-400"
+            >
+              {weekday}
+            </div>
+          ))}
+          {days.map((day) => (
+            <CalendarDay
+              key={day}
+              day={day}
+              isToday={day === today}
+              isOutside={mode === 'month' && day.slice(0, 7) !== anchor.slice(0, 7)}
+              tall={mode === 'week'}
+            >
+              {(tasksByDay.get(day) || []).map((task) => (
+                <CalendarTask
+                  key={task.id}
+                  task={task}
+                  color={statusColors.get(task.status_id) ?? '#9ca3af'}
+                  canEdit={canEdit}
+                  onOpenTask={onOpenTask}
+                />
+              ))}
+            </CalendarDay>
+          ))}
+        </div>
+      </DndContext>
+    </div>
+  );
+}
+
+export default memo(BoardCalendarView);
@@ -5,13 +5,20 @@ import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { MoreHorizontal, Plus, Pencil, Trash2 } from 'lucide-react';
 import { Status, Task } from '@/types/board';
+import type { WipLimitCheck } from '@/lib/tasks';
 import BoardTaskCard from './BoardTaskCard';
+import WipLimitBadge from './WipLimitBadge';
+import type { TaskSelectHandler } from '@/hooks/useTaskSelection';
 
 interface BoardColumnProps {
   status: Status;
   tasks: Task[];
+  /** Set while a task dragged over this column would exceed its WIP limit */
+  wipLimitCheck?: WipLimitCheck | null;
   onTaskClick: (task: Task) => void;
   onTaskDelete: (taskId: string) => void;
+  selectedTaskIds?: Set<string>;
+  onTaskSelect?: TaskSelectHandler;
   onAddTask: () => void;
   onEditStatus: () => void;
   onDeleteStatus: () => void;
@@ -20,8 +27,11 @@ interface BoardColumnProps {
 function BoardColumn({
   status,
   tasks,
+  wipLimitCheck,
   onTaskClick,
   onTaskDelete,
+  selectedTaskIds,
+  onTaskSelect,
   onAddTask,
   onEditStatus,
   onDeleteStatus,
@@ -42,7 +52,15 @@ function BoardColumn({
         bg-gray-100 dark:bg-gray-800/50
         transition-all duration-200
         snap-center sm:snap-align-none
-        ${isOver ? 'ring-2 ring-blue-400 ring-offset-2 scale-[1.01]' : ''}
+        ${
+          wipLimitCheck
+            ? wipLimitCheck.blocked
+              ? 'ring-2 ring-red-500 ring-offset-2'
+              : 'ring-2 ring-amber-400 ring-offset-2 scale-[1.01]'
+            : isOver
+              ? 'ring-2 ring-blue-400 ring-offset-2 scale-[1.01]'
+              : ''
+        }
       `}
     >
       {/* Header */}
@@ -54,12 +72,13 @@ function BoardColumn({
           <h2 id={headingId} className="font-semibold text-white">
             {status.name}
           </h2>
-          <span
-            className="bg-white/25 text-white text-xs font-medium px-2 py-0.5 rounded-full"
-            aria-label={`${tasks.length} tasks`}
-          >
-            {tasks.length}
-          </span>
+          <WipLimitBadge
+            count={tasks.length}
+            limit={status.wip_limit}
+            mode={status.wip_limit_mode}
+            className="text-white"
+            baseClassName="bg-white/25"
+          />
         </div>
 
         <div className="relative">
@@ -134,6 +153,8 @@ function BoardColumn({
                 task={task}
                 onClick={onTaskClick}
                 onDelete={onTaskDelete}
+                onSelect={onTaskSelect}
+                isSelected={selectedTaskIds?.has(task.id)}
               />
             ))
           )}
@@ -8,23 +8,41 @@ import {
   type DragStartEvent,
   type DragOverEvent,
   type DragEndEvent,
+  type DndContextProps,
   type SensorDescriptor,
   type SensorOptions,
 } from '@dnd-kit/core';
 import BoardColumn from './BoardColumn';
+import BoardSwimlanes from './BoardSwimlanes';
 import BoardTaskCard from './BoardTaskCard';
 import type { BoardWithData, Task, Status } from '@/types/board';
+import type { WipLimitViolation } from '@/hooks/useDragAndDrop';
+import type { TaskSelectHandler } from '@/hooks/useTaskSelection';
+import type { Swimlane, SwimlaneGrouping } from '@/lib/tasks';
 
 interface BoardColumnsProps {
   board: BoardWithData;
   canEdit: boolean;
   sensors: SensorDescriptor<SensorOptions>[];
+  /** Screen reader instructions and announcements for keyboard dragging */
+  accessibility?: DndContextProps['accessibility'];
   activeTask: Task | null;
+  wipLimitViolation?: WipLimitViolation | null;
+  /** Swimlane mode, set when the board is grouped into lanes */
+  swimlanes?: {
+    grouping: SwimlaneGrouping;
+    lanes: Swimlane[];
+    collapsedLanes: Set<string>;
+    onToggleLane: (laneKey: string) => void;
+  } | null;
   onDragStart: (event: DragStartEvent) => void;
   onDragOver: (event: DragOverEvent) => void;
   onDragEnd: (event: DragEndEvent) => void;
   onTaskClick: (task: Task) => void;
   onTaskDelete: (taskId: string) => void;
+  /** Cards picked for a bulk action */
+  selectedTaskIds?: Set<string>;
+  onTaskSelect?: TaskSelectHandler;
   onAddTask: (statusId: string) => void;
   onEditStatus?: (status: Status) => void;
   onDeleteStatus?: (statusId: string) => void;
@@ -34,12 +52,17 @@ function BoardColumnsComponent({
   board,
   canEdit,
   sensors,
+  accessibility,
   activeTask,
+  wipLimitViolation,
+  swimlanes,
   onDragStart,
   onDragOver,
   onDragEnd,
   onTaskClick,
   onTaskDelete,
+  selectedTaskIds,
+  onTaskSelect,
   onAddTask,
   onEditStatus,
   onDeleteStatus,
@@ -48,38 +71,59 @@ function BoardColumnsComponent({
     <div className="flex-1 overflow-x-auto p-6">
       <DndContext
         sensors={sensors}
+        accessibility={accessibility}
         collisionDetection={closestCorners}
         onDragStart={onDragStart}
         onDragOver={onDragOver}
         onDragEnd={onDragEnd}
       >
-        <div className="flex gap-4 pb-4">
-          {board.statuses.map((status) => (
-            <BoardColumn
-              key={status.id}
-              status={status}
-              tasks={status.tasks}
-              onTaskClick={onTaskClick}
-              onTaskDelete={onTaskDelete}
-              onAddTask={() => onAddTask(status.id)}
-              onEditStatus={() => onEditStatus?.(status)}
-              onDeleteStatus={() => onDeleteStatus?.(status.id)}
-            />
-          ))}
+        {swimlanes && board.statuses.length > 0 ? (
+          <BoardSwimlanes
+            board={board}
+            grouping={swimlanes.grouping}
+            lanes={swimlanes.lanes}
+            collapsedLanes={swimlanes.collapsedLanes}
+            wipLimitViolation={wipLimitViolation}
+            onToggleLane={swimlanes.onToggleLane}
+            onTaskClick={onTaskClick}
+            onTaskDelete={onTaskDelete}
+            selectedTaskIds={selectedTaskIds}
+            onTaskSelect={onTaskSelect}
+          />
+        ) : (
+          <div className="flex gap-4 pb-4">
+            {board.statuses.map((status) => (
+              <BoardColumn
+                key={status.id}
+                status={status}
+                tasks={status.tasks}
+                wipLimitCheck={
+                  wipLimitViolation?.statusId === status.id ? wipLimitViolation.check : null
+                }
+                onTaskClick={onTaskClick}
+                onTaskDelete={onTaskDelete}
+                selectedTaskIds={selectedTaskIds}
+                onTaskSelect={onTaskSelect}
+                onAddTask={() => onAddTask(status.id)}
+                onEditStatus={() => onEditStatus?.(status)}
+                onDeleteStatus={() => onDeleteStatus?.(status.id)}
+              />
+            ))}
 
-          {board.statuses.length === 0 && (
-            <div className="flex h-96 w-full items-center justify-center rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700">
-              <div className="text-center">
-                <p className="text-gray-500 dark:text-gray-400">No statuses yet</p>
-                {canEdit && (
-                  <p className="mt-2 text-sm text-gray-400">
-                    Click &quot;Add Status&quot; to create your first column
-                  </p>
-                )}
+            {board.statuses.length === 0 && (
+              <div className="flex h-96 w-full items-center justify-center rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700">
+                <div className="text-center">
+                  <p className="text-gray-500 dark:text-gray-400">No statuses yet</p>
+                  {canEdit && (
+                    <p className="mt-2 text-sm text-gray-400">
+                      Click &quot;Add Status&quot; to create your first column
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
 
         {/* Drag overlay for better UX */}
         <DragOverlay>{activeTask && <BoardTaskCard task={activeTask} isDragOverlay />}</DragOverlay>
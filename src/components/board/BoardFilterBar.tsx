@@ -0,0 +1,351 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { Bookmark, Check, Filter, Search, Tag, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { Profile, SavedFilter, TaskFilters, TaskPriority } from '@/types/board';
+import { areTaskFiltersEqual, countActiveFilters } from '@/lib/tasks';
+import { useDebouncedCallback } from '@/hooks/useDebounce';
+
+const priorityOptions: { value: TaskPriority; label: string }[] = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const controlClass =
+  'rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-white';
+
+const menuButtonClass =
+  'flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700';
+
+type FilterMember = Pick<Profile, 'id' | 'email' | 'display_name'>;
+
+interface BoardFilterBarProps {
+  filters: TaskFilters;
+  onChange: (filters: TaskFilters) => void;
+  /** Tags used on the board */
+  tags: string[];
+  members: FilterMember[];
+  /** Visible and total task counts, shown while filtering */
+  matchCount: number;
+  totalCount: number;
+  savedFilters?: SavedFilter[];
+  onSaveFilter?: (name: string) => Promise<unknown>;
+  onDeleteSavedFilter?: (filterId: string) => Promise<unknown>;
+}
+
+/**
+ * Filter bar above the board columns: text, priority, tags, assignee and due range,
+ * plus the current user's saved filters
+ */
+export function BoardFilterBar({
+  filters,
+  onChange,
+  tags,
+  members,
+  matchCount,
+  totalCount,
+  savedFilters = [],
+  onSaveFilter,
+  onDeleteSavedFilter,
+}: BoardFilterBarProps) {
+  const [searchDraft, setSearchDraft] = useState(filters.search ?? '');
+  const [showTagMenu, setShowTagMenu] = useState(false);
+  const [showSavedMenu, setShowSavedMenu] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const tagMenuId = useId();
+  const savedMenuId = useId();
+
+  const activeCount = countActiveFilters(filters);
+  const activeSaved = savedFilters.find((saved) => areTaskFiltersEqual(saved.filters, filters));
+
+  // Applying a saved filter or clearing replaces the search from outside the input
+  useEffect(() => {
+    const next = filters.search ?? '';
+    setSearchDraft((draft) => (draft.trim() === next ? draft : next));
+  }, [filters.search]);
+
+  const commitSearch = useDebouncedCallback((value: string) => {
+    onChange({ ...filters, search: value.trim() || undefined });
+  }, 300);
+
+  const update = (changes: Partial<TaskFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleTag = (tag: string) => {
+    const selected = filters.tags || [];
+    const next = selected.includes(tag) ? selected.filter((t) => t !== tag) : [...selected, tag];
+    update({ tags: next.length > 0 ? next : undefined });
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!onSaveFilter || !saveName.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSaveFilter(saveName.trim());
+      toast.success('Filter saved');
+      setSaveName('');
+      setShowSavedMenu(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save filter');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSaved = async (filterId: string) => {
+    try {
+      await onDeleteSavedFilter?.(filterId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete saved filter');
+    }
+  };
+
+  return (
+    <div
+      role="search"
+      aria-label="Filter tasks"
+      className="flex flex-wrap items-center gap-2 border-b border-gray-200 bg-white px-6 py-2 dark:border-gray-700 dark:bg-gray-800"
+    >
+      <Filter className="h-4 w-4 text-gray-400" aria-hidden="true" />
+
+      <div className="relative">
+        <Search
+          className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400"
+          aria-hidden="true"
+        />
+        <input
+          type="search"
+          value={searchDraft}
+          onChange={(e) => {
+            setSearchDraft(e.target.value);
+            commitSearch(e.target.value);
+          }}
+          placeholder="Filter by text..."
+          aria-label="Filter by text"
+          maxLength={200}
+          className={`${controlClass} w-48 pl-8`}
+        />
+      </div>
+
+      <select
+        value={filters.priority ?? ''}
+        onChange={(e) => update({ priority: (e.target.value || undefined) as TaskPriority })}
+        aria-label="Filter by priority"
+        className={controlClass}
+      >
+        <option value="">Any priority</option>
+        {priorityOptions.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      <div className="relative">
+        <button
+          type="button"
+          onClick={() => setShowTagMenu(!showTagMenu)}
+          className={`${controlClass} flex items-center gap-1`}
+          aria-haspopup="true"
+          aria-expanded={showTagMenu}
+          aria-controls={showTagMenu ? tagMenuId : undefined}
+        >
+          <Tag className="h-4 w-4 text-gray-400" aria-hidden="true" />
+          {filters.tags?.length ? `Tags (${filters.tags.length})` : 'Any tag'}
+        </button>
+
+        {showTagMenu && (
+          <>
+            <div
+              className="fixed inset-0 z-10"
+              onClick={() => setShowTagMenu(false)}
+              aria-hidden="true"
+            />
+            <div
+              id={tagMenuId}
+              role="group"
+              aria-label="Tags"
+              className="absolute left-0 top-full z-20 mt-1 max-h-64 w-56 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+            >
+              {tags.length === 0 ? (
+                <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                  No tags on this board
+                </p>
+              ) : (
+                tags.map((tag) => (
+                  <label
+                    key={tag}
+                    className="flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={filters.tags?.includes(tag) ?? false}
+                      onChange={() => toggleTag(tag)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="truncate">{tag}</span>
+                  </label>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <select
+        value={filters.assignee_id ?? ''}
+        onChange={(e) => update({ assignee_id: e.target.value || undefined })}
+        aria-label="Filter by assignee"
+        className={controlClass}
+      >
+        <option value="">Anyone</option>
+        {members.map((member) => (
+          <option key={member.id} value={member.id}>
+            {member.display_name || member.email}
+          </option>
+        ))}
+      </select>
+
+      <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+        Due
+        <input
+          type="date"
+          value={filters.due_after?.slice(0, 10) ?? ''}
+          max={filters.due_before?.slice(0, 10)}
+          onChange={(e) => update({ due_after: e.target.value || undefined })}
+          aria-label="Due from"
+          className={controlClass}
+        />
+      </label>
+      <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+        to
+        <input
+          type="date"
+          value={filters.due_before?.slice(0, 10) ?? ''}
+          min={filters.due_after?.slice(0, 10)}
+          onChange={(e) => update({ due_before: e.target.value || undefined })}
+          aria-label="Due until"
+          className={controlClass}
+        />
+      </label>
+
+      {activeCount > 0 && (
+        <>
+          <button
+            type="button"
+            onClick={() => {
+              setSearchDraft('');
+              onChange({});
+            }}
+            className={menuButtonClass}
+          >
+            <X className="h-4 w-4" />
+            Clear
+          </button>
+          <span className="text-sm text-gray-500 dark:text-gray-400" aria-live="polite">
+            {matchCount} of {totalCount} tasks
+          </span>
+        </>
+      )}
+
+      {onSaveFilter && (
+        <div className="relative ml-auto">
+          <button
+            type="button"
+            onClick={() => setShowSavedMenu(!showSavedMenu)}
+            className={menuButtonClass}
+            aria-haspopup="menu"
+            aria-expanded={showSavedMenu}
+            aria-controls={showSavedMenu ? savedMenuId : undefined}
+          >
+            <Bookmark className="h-4 w-4" />
+            {activeSaved ? activeSaved.name : 'Saved filters'}
+          </button>
+
+          {showSavedMenu && (
+            <>
+              <div
+                className="fixed inset-0 z-10"
+                onClick={() => setShowSavedMenu(false)}
+                aria-hidden="true"
+              />
+              <div
+                id={savedMenuId}
+                role="menu"
+                aria-label="Saved filters"
+                className="absolute right-0 top-full z-20 mt-1 w-64 rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+              >
+                {savedFilters.length === 0 && (
+                  <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                    No saved filters yet
+                  </p>
+                )}
+                {savedFilters.map((saved) => (
+                  <div
+                    key={saved.id}
+                    className="flex items-center hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <button
+                      type="button"
+                      role="menuitem"
+                      onClick={() => {
+                        onChange(saved.filters);
+                        setShowSavedMenu(false);
+                      }}
+                      className="flex flex-1 items-center gap-2 px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300"
+                    >
+                      <Check
+                        className={`h-4 w-4 text-blue-600 ${saved.id === activeSaved?.id ? '' : 'invisible'}`}
+                        aria-hidden="true"
+                      />
+                      <span className="truncate">{saved.name}</span>
+                    </button>
+                    {onDeleteSavedFilter && (
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteSaved(saved.id)}
+                        className="mr-1 rounded p-1.5 text-gray-400 hover:text-red-600"
+                        aria-label={`Delete saved filter ${saved.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+
+                {activeCount > 0 && (
+                  <form
+                    onSubmit={handleSave}
+                    className="mt-1 flex items-center gap-2 border-t border-gray-200 px-3 pb-1 pt-2 dark:border-gray-700"
+                  >
+                    <input
+                      type="text"
+                      value={saveName}
+                      onChange={(e) => setSaveName(e.target.value)}
+                      placeholder="Save current as..."
+                      aria-label="Saved filter name"
+                      maxLength={50}
+                      className={`${controlClass} min-w-0 flex-1`}
+                    />
+                    <button
+                      type="submit"
+                      disabled={saving || !saveName.trim()}
+                      className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </form>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,81 @@
 'use client';
 
-import { ArrowLeft, Plus, Users } from 'lucide-react';
-import type { BoardWithData } from '@/types/board';
+import { useId, useState } from 'react';
+import {
+  Activity,
+  ArrowLeft,
+  Clock,
+  Download,
+  LayoutGrid,
+  Plus,
+  Rows3,
+  Upload,
+  Users,
+  Webhook,
+} from 'lucide-react';
+import type { BoardPresenceMember, BoardWithData, SubscriptionLevel } from '@/types/board';
+import {
+  BOARD_VIEWS,
+  SWIMLANE_GROUPINGS,
+  isBoardView,
+  isSwimlaneGrouping,
+  type BoardView,
+  type SwimlaneGrouping,
+} from '@/lib/tasks';
+import PresenceAvatars from './PresenceAvatars';
+import SubscriptionMenu from './SubscriptionMenu';
+
+const exportFormats = [
+  { format: 'csv', label: 'CSV (spreadsheet)' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON (full backup)' },
+] as const;
 
 interface BoardHeaderProps {
   board: BoardWithData;
   canEdit: boolean;
+  /** Everyone currently on the board, from realtime presence */
+  presentMembers?: BoardPresenceMember[];
+  /** Columns, table, calendar or timeline */
+  view?: BoardView;
+  onViewChange?: (view: BoardView) => void;
+  /** Current swimlane grouping, null for a single row of columns */
+  grouping?: SwimlaneGrouping | null;
+  onGroupingChange?: (grouping: SwimlaneGrouping | null) => void;
+  /** The current user's watch/mute level for the board */
+  subscriptionLevel?: SubscriptionLevel | null;
+  onSubscriptionChange?: (level: SubscriptionLevel | null) => Promise<unknown>;
   onBack: () => void;
   onOpenMembers: () => void;
   onOpenStatusModal: () => void;
+  onOpenImport?: () => void;
+  onOpenActivity?: () => void;
+  onOpenTimeReport?: () => void;
+  /** Only passed to owners and admins */
+  onOpenWebhooks?: () => void;
 }
 
 export function BoardHeader({
   board,
   canEdit,
+  presentMembers = [],
+  view = 'board',
+  onViewChange,
+  grouping = null,
+  onGroupingChange,
+  subscriptionLevel = null,
+  onSubscriptionChange,
   onBack,
   onOpenMembers,
   onOpenStatusModal,
+  onOpenImport,
+  onOpenActivity,
+  onOpenTimeReport,
+  onOpenWebhooks,
 }: BoardHeaderProps) {
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const exportMenuId = useId();
+
   return (
     <header className="flex items-center justify-between border-b border-gray-200 bg-white px-6 py-4 dark:border-gray-700 dark:bg-gray-800">
       {/* Left side - Title */}
@@ -39,6 +97,133 @@ export function BoardHeader({
 
       {/* Right side - Actions */}
       <div className="flex items-center gap-2">
+        {presentMembers.length > 0 && (
+          <div className="mr-2">
+            <PresenceAvatars members={presentMembers} label="On this board" />
+          </div>
+        )}
+
+        {onViewChange && (
+          <label className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm text-gray-700 dark:text-gray-300">
+            <LayoutGrid className="h-4 w-4" aria-hidden="true" />
+            <span className="sr-only sm:not-sr-only">View</span>
+            <select
+              value={view}
+              onChange={(e) => isBoardView(e.target.value) && onViewChange(e.target.value)}
+              className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            >
+              {BOARD_VIEWS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {onGroupingChange && (
+          <label className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm text-gray-700 dark:text-gray-300">
+            <Rows3 className="h-4 w-4" aria-hidden="true" />
+            <span className="sr-only sm:not-sr-only">Group by</span>
+            <select
+              value={grouping ?? ''}
+              onChange={(e) =>
+                onGroupingChange(isSwimlaneGrouping(e.target.value) ? e.target.value : null)
+              }
+              className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">None</option>
+              {SWIMLANE_GROUPINGS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {onSubscriptionChange && (
+          <SubscriptionMenu
+            scope="board"
+            level={subscriptionLevel}
+            onChange={onSubscriptionChange}
+          />
+        )}
+
+        <div className="relative">
+          <button
+            onClick={() => setShowExportMenu(!showExportMenu)}
+            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+            aria-haspopup="menu"
+            aria-expanded={showExportMenu}
+            aria-controls={showExportMenu ? exportMenuId : undefined}
+          >
+            <Download className="h-4 w-4" />
+            Export
+          </button>
+
+          {showExportMenu && (
+            <>
+              <div
+                className="fixed inset-0 z-10"
+                onClick={() => setShowExportMenu(false)}
+                aria-hidden="true"
+              />
+              <div
+                id={exportMenuId}
+                role="menu"
+                aria-label="Export board"
+                className="absolute right-0 top-full z-20 mt-1 w-48 rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+              >
+                {exportFormats.map(({ format, label }) => (
+                  <a
+                    key={format}
+                    role="menuitem"
+                    href={`/api/boards/${board.id}/export?format=${format}`}
+                    download
+                    onClick={() => setShowExportMenu(false)}
+                    className="block px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+                  >
+                    {label}
+                  </a>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {canEdit && onOpenImport && (
+          <button
+            onClick={onOpenImport}
+            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </button>
+        )}
+
+        {onOpenActivity && (
+          <button
+            onClick={onOpenActivity}
+            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+            aria-label="Show board activity"
+          >
+            <Activity className="h-4 w-4" />
+            Activity
+          </button>
+        )}
+
+        {onOpenTimeReport && (
+          <button
+            onClick={onOpenTimeReport}
+            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+            aria-label="Show estimates and time tracked"
+          >
+            <Clock className="h-4 w-4" />
+            Time
+          </button>
+        )}
+
         <button
           onClick={onOpenMembers}
           className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
@@ -48,6 +233,17 @@ export function BoardHeader({
           Members
         </button>
 
+        {onOpenWebhooks && (
+          <button
+            onClick={onOpenWebhooks}
+            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+            aria-label="Manage webhooks"
+          >
+            <Webhook className="h-4 w-4" />
+            Webhooks
+          </button>
+        )}
+
         {canEdit && (
           <button
             onClick={onOpenStatusModal}
@@ -0,0 +1,195 @@
+'use client';
+
+import { memo, useId } from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { BoardWithData, Status, Task } from '@/types/board';
+import {
+  getLaneCellId,
+  getLaneKey,
+  getTaskLaneValue,
+  type Swimlane,
+  type SwimlaneGrouping,
+} from '@/lib/tasks';
+import type { WipLimitViolation } from '@/hooks/useDragAndDrop';
+import type { TaskSelectHandler } from '@/hooks/useTaskSelection';
+import BoardTaskCard from './BoardTaskCard';
+import WipLimitBadge from './WipLimitBadge';
+import { UserAvatar } from './AssigneeAvatars';
+
+interface BoardSwimlanesProps {
+  board: BoardWithData;
+  grouping: SwimlaneGrouping;
+  lanes: Swimlane[];
+  collapsedLanes: Set<string>;
+  wipLimitViolation?: WipLimitViolation | null;
+  onToggleLane: (laneKey: string) => void;
+  onTaskClick: (task: Task) => void;
+  onTaskDelete: (taskId: string) => void;
+  selectedTaskIds?: Set<string>;
+  onTaskSelect?: TaskSelectHandler;
+}
+
+interface SwimlaneCellProps {
+  status: Status;
+  lane: Swimlane;
+  tasks: Task[];
+  onTaskClick: (task: Task) => void;
+  onTaskDelete: (taskId: string) => void;
+  selectedTaskIds?: Set<string>;
+  onTaskSelect?: TaskSelectHandler;
+}
+
+/**
+ * Drop target where a lane crosses a status column
+ */
+const SwimlaneCell = memo(function SwimlaneCell({
+  status,
+  lane,
+  tasks,
+  onTaskClick,
+  onTaskDelete,
+  selectedTaskIds,
+  onTaskSelect,
+}: SwimlaneCellProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: getLaneCellId(status.id, lane.key) });
+
+  return (
+    <div
+      ref={setNodeRef}
+      role="list"
+      aria-label={`Tasks in ${status.name}, ${lane.label}`}
+      className={`w-[280px] sm:w-72 min-w-[280px] sm:min-w-72 min-h-[96px] p-2 space-y-2 rounded-xl
+        bg-gray-100 dark:bg-gray-800/50 transition-all duration-200
+        ${isOver ? 'ring-2 ring-blue-400 ring-offset-2' : ''}`}
+    >
+      <SortableContext items={tasks.map((task) => task.id)} strategy={verticalListSortingStrategy}>
+        {tasks.map((task) => (
+          <BoardTaskCard
+            key={task.id}
+            task={task}
+            onClick={onTaskClick}
+            onDelete={onTaskDelete}
+            onSelect={onTaskSelect}
+            isSelected={selectedTaskIds?.has(task.id)}
+          />
+        ))}
+      </SortableContext>
+    </div>
+  );
+});
+
+interface SwimlaneRowProps extends Omit<BoardSwimlanesProps, 'lanes' | 'collapsedLanes'> {
+  lane: Swimlane;
+  collapsed: boolean;
+}
+
+const SwimlaneRow = memo(function SwimlaneRow({
+  board,
+  grouping,
+  lane,
+  collapsed,
+  onToggleLane,
+  onTaskClick,
+  onTaskDelete,
+  selectedTaskIds,
+  onTaskSelect,
+}: SwimlaneRowProps) {
+  const headingId = useId();
+
+  const tasksByStatus = board.statuses.map((status) => ({
+    status,
+    tasks: status.tasks.filter((task) => getLaneKey(getTaskLaneValue(task, grouping)) === lane.key),
+  }));
+  const taskCount = tasksByStatus.reduce((sum, { tasks }) => sum + tasks.length, 0);
+
+  return (
+    <section role="region" aria-labelledby={headingId} className="space-y-2">
+      <button
+        onClick={() => onToggleLane(lane.key)}
+        aria-expanded={!collapsed}
+        className="sticky left-0 flex items-center gap-2 rounded-lg px-2 py-1 text-sm font-semibold text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+      >
+        {collapsed ? (
+          <ChevronRight className="h-4 w-4" aria-hidden="true" />
+        ) : (
+          <ChevronDown className="h-4 w-4" aria-hidden="true" />
+        )}
+        {lane.profile && <UserAvatar profile={lane.profile} size="sm" />}
+        <span id={headingId}>{lane.label}</span>
+        <span className="text-xs font-medium text-gray-500 dark:text-gray-400">{taskCount}</span>
+      </button>
+
+      {!collapsed && (
+        <div className="flex gap-4">
+          {tasksByStatus.map(({ status, tasks }) => (
+            <SwimlaneCell
+              key={status.id}
+              status={status}
+              lane={lane}
+              tasks={tasks}
+              onTaskClick={onTaskClick}
+              onTaskDelete={onTaskDelete}
+              selectedTaskIds={selectedTaskIds}
+              onTaskSelect={onTaskSelect}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+});
+
+/**
+ * Board split into horizontal lanes, one row of status cells per lane
+ * Must be rendered inside the board's DndContext
+ */
+function BoardSwimlanes({
+  board,
+  lanes,
+  collapsedLanes,
+  wipLimitViolation,
+  ...rest
+}: BoardSwimlanesProps) {
+  return (
+    <div className="inline-flex min-w-full flex-col gap-4 pb-4">
+      {/* Column headers */}
+      <div className="flex gap-4">
+        {board.statuses.map((status) => {
+          const check = wipLimitViolation?.statusId === status.id ? wipLimitViolation.check : null;
+
+          return (
+            <div
+              key={status.id}
+              className={`flex w-[280px] sm:w-72 min-w-[280px] sm:min-w-72 items-center gap-2 rounded-xl px-4 py-3
+                ${check ? (check.blocked ? 'ring-2 ring-red-500 ring-offset-2' : 'ring-2 ring-amber-400 ring-offset-2') : ''}`}
+              style={{ backgroundColor: status.color }}
+            >
+              <h2 className="font-semibold text-white">{status.name}</h2>
+              <WipLimitBadge
+                count={status.tasks.length}
+                limit={status.wip_limit}
+                mode={status.wip_limit_mode}
+                className="text-white"
+                baseClassName="bg-white/25"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {lanes.map((lane) => (
+        <SwimlaneRow
+          key={lane.key}
+          board={board}
+          lane={lane}
+          collapsed={collapsedLanes.has(lane.key)}
+          {...rest}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default memo(BoardSwimlanes);
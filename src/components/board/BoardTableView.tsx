@@ -0,0 +1,376 @@
+'use client';
+
+import { memo, useId, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Columns3, Maximize2 } from 'lucide-react';
+import type { BoardWithData, Status, Task, TaskPriority } from '@/types/board';
+import {
+  TABLE_COLUMNS,
+  getNextTableSort,
+  getTableRows,
+  type TableColumn,
+  type TableSort,
+} from '@/lib/tasks';
+import type { TaskUpdates } from '@/hooks/api';
+import AssigneeAvatars from './AssigneeAvatars';
+
+const priorityOptions: { value: TaskPriority; label: string }[] = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const cellControlClass =
+  'w-full rounded border border-transparent bg-transparent px-1 py-0.5 text-sm text-gray-900 hover:border-gray-300 focus:border-blue-500 focus:outline-none dark:text-white dark:hover:border-gray-600';
+
+interface BoardTableViewProps {
+  board: BoardWithData;
+  columns: TableColumn[];
+  sort: TableSort | null;
+  onColumnsChange: (columns: TableColumn[]) => void;
+  onSortChange: (sort: TableSort | null) => void;
+  canEdit: boolean;
+  canMove: boolean;
+  onOpenTask: (task: Task) => void;
+  onUpdateTask: (taskId: string, updates: TaskUpdates) => Promise<void>;
+  /** Moves the task to the end of another column, checking its WIP limit */
+  onMoveTask: (taskId: string, statusId: string) => void;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Title edited in place; Enter or leaving the field saves, Escape reverts
+ */
+function TitleCell({ task, onSave }: { task: Task; onSave: (title: string) => Promise<void> }) {
+  const [draft, setDraft] = useState(task.title);
+  const [editing, setEditing] = useState(false);
+  const value = editing ? draft : task.title;
+
+  const commit = () => {
+    setEditing(false);
+    const title = draft.trim();
+    if (title && title !== task.title) {
+      onSave(title).catch(() => {});
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={value}
+      onFocus={() => {
+        setDraft(task.title);
+        setEditing(true);
+      }}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          setDraft(task.title);
+          setEditing(false);
+          e.currentTarget.blur();
+        }
+      }}
+      maxLength={200}
+      aria-label={`Title of ${task.title}`}
+      className={`${cellControlClass} font-medium`}
+    />
+  );
+}
+
+interface TableCellProps {
+  column: TableColumn;
+  task: Task;
+  status: Status;
+  statuses: Status[];
+  canEdit: boolean;
+  canMove: boolean;
+  onOpenTask: (task: Task) => void;
+  onUpdateTask: (taskId: string, updates: TaskUpdates) => Promise<void>;
+  onMoveTask: (taskId: string, statusId: string) => void;
+}
+
+function TableCell({
+  column,
+  task,
+  status,
+  statuses,
+  canEdit,
+  canMove,
+  onOpenTask,
+  onUpdateTask,
+  onMoveTask,
+}: TableCellProps) {
+  // The page shows a toast when a save fails and the cache rolls back
+  const save = (updates: TaskUpdates) => onUpdateTask(task.id, updates).catch(() => {});
+
+  switch (column) {
+    case 'title':
+      return (
+        <div className="flex items-center gap-1">
+          {canEdit ? (
+            <TitleCell task={task} onSave={(title) => onUpdateTask(task.id, { title })} />
+          ) : (
+            <span className="px-1 font-medium text-gray-900 dark:text-white">{task.title}</span>
+          )}
+          <button
+            type="button"
+            onClick={() => onOpenTask(task)}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-700"
+            aria-label={`Open ${task.title}`}
+          >
+            <Maximize2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      );
+
+    case 'status':
+      return canMove ? (
+        <select
+          value={status.id}
+          onChange={(e) => onMoveTask(task.id, e.target.value)}
+          aria-label={`Status of ${task.title}`}
+          className={cellControlClass}
+        >
+          {statuses.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span className="flex items-center gap-2 px-1">
+          <span
+            className="h-2 w-2 rounded-full"
+            style={{ backgroundColor: status.color }}
+            aria-hidden="true"
+          />
+          {status.name}
+        </span>
+      );
+
+    case 'priority':
+      return canEdit ? (
+        <select
+          value={task.priority ?? ''}
+          onChange={(e) => save({ priority: (e.target.value || null) as TaskPriority | null })}
+          aria-label={`Priority of ${task.title}`}
+          className={cellControlClass}
+        >
+          <option value="">None</option>
+          {priorityOptions.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span className="px-1 capitalize">{task.priority ?? '—'}</span>
+      );
+
+    case 'assignees': {
+      const profiles = (task.assignees || []).flatMap((a) => (a.profile ? [a.profile] : []));
+      if (profiles.length > 0) return <AssigneeAvatars profiles={profiles} />;
+      return <span className="px-1 text-gray-400">{task.assignee_name ?? '—'}</span>;
+    }
+
+    case 'tags':
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(task.tags || []).map((tag) => (
+            <span
+              key={tag}
+              className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      );
+
+    case 'due_date':
+      return canEdit ? (
+        <input
+          type="date"
+          value={task.due_date ? task.due_date.slice(0, 10) : ''}
+          onChange={(e) => save({ due_date: e.target.value || null })}
+          aria-label={`Due date of ${task.title}`}
+          className={cellControlClass}
+        />
+      ) : (
+        <span className="px-1">{task.due_date ? formatDate(task.due_date) : '—'}</span>
+      );
+
+    case 'created_at':
+      return <span className="px-1">{formatDate(task.created_at)}</span>;
+
+    case 'updated_at':
+      return <span className="px-1">{formatDate(task.updated_at)}</span>;
+  }
+}
+
+/**
+ * Every task of the board as a table row
+ * Headers sort the rows, the Columns menu picks which columns are shown, and title,
+ * status, priority and due date can be edited in place
+ */
+function BoardTableView({
+  board,
+  columns,
+  sort,
+  onColumnsChange,
+  onSortChange,
+  canEdit,
+  canMove,
+  onOpenTask,
+  onUpdateTask,
+  onMoveTask,
+}: BoardTableViewProps) {
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const columnMenuId = useId();
+
+  const rows = useMemo(() => getTableRows(board, sort), [board, sort]);
+  const visibleColumns = TABLE_COLUMNS.filter(({ value }) => columns.includes(value));
+
+  const toggleColumn = (column: TableColumn) => {
+    const next = columns.includes(column)
+      ? columns.filter((c) => c !== column)
+      : TABLE_COLUMNS.map(({ value }) => value).filter((c) => c === column || columns.includes(c));
+    onColumnsChange(next);
+  };
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {rows.length === 1 ? '1 task' : `${rows.length} tasks`}
+        </p>
+
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setShowColumnMenu(!showColumnMenu)}
+            className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+            aria-haspopup="true"
+            aria-expanded={showColumnMenu}
+            aria-controls={showColumnMenu ? columnMenuId : undefined}
+          >
+            <Columns3 className="h-4 w-4" aria-hidden="true" />
+            Columns
+          </button>
+
+          {showColumnMenu && (
+            <>
+              <div
+                className="fixed inset-0 z-10"
+                onClick={() => setShowColumnMenu(false)}
+                aria-hidden="true"
+              />
+              <div
+                id={columnMenuId}
+                role="group"
+                aria-label="Table columns"
+                className="absolute right-0 top-full z-20 mt-1 w-48 rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+              >
+                {TABLE_COLUMNS.map(({ value, label }) => (
+                  <label
+                    key={value}
+                    className="flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(value)}
+                      onChange={() => toggleColumn(value)}
+                      disabled={value === 'title'}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+        <table className="min-w-full text-sm text-gray-700 dark:text-gray-300">
+          <thead className="border-b border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-900/50">
+            <tr>
+              {visibleColumns.map(({ value, label }) => {
+                const direction = sort?.column === value ? sort.direction : null;
+
+                return (
+                  <th
+                    key={value}
+                    scope="col"
+                    aria-sort={
+                      direction === 'asc'
+                        ? 'ascending'
+                        : direction === 'desc'
+                          ? 'descending'
+                          : 'none'
+                    }
+                    className="px-3 py-2 text-left font-semibold"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => onSortChange(getNextTableSort(sort, value))}
+                      className="flex items-center gap-1 hover:text-gray-900 dark:hover:text-white"
+                    >
+                      {label}
+                      {direction === 'asc' && <ArrowUp className="h-3 w-3" aria-hidden="true" />}
+                      {direction === 'desc' && <ArrowDown className="h-3 w-3" aria-hidden="true" />}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {rows.map(({ task, status }) => (
+              <tr key={task.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                {visibleColumns.map(({ value }) => (
+                  <td key={value} className="px-3 py-1.5 align-middle">
+                    <TableCell
+                      column={value}
+                      task={task}
+                      status={status}
+                      statuses={board.statuses}
+                      canEdit={canEdit}
+                      canMove={canMove}
+                      onOpenTask={onOpenTask}
+                      onUpdateTask={onUpdateTask}
+                      onMoveTask={onMoveTask}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={visibleColumns.length}
+                  className="px-3 py-8 text-center text-gray-500 dark:text-gray-400"
+                >
+                  No tasks
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default memo(BoardTableView);
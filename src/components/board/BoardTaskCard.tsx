@@ -3,13 +3,20 @@
 import { memo } from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Calendar, Trash2 } from 'lucide-react';
+import { Calendar, CheckSquare, Trash2 } from 'lucide-react';
 import { Task, TaskPriority } from '@/types/board';
+import AssigneeAvatars from './AssigneeAvatars';
+import { getChecklistProgress } from '@/lib/tasks';
+import { markdownToPlainText } from '@/lib/markdown';
+import type { TaskSelectHandler } from '@/hooks/useTaskSelection';
 
 interface BoardTaskCardProps {
   task: Task;
   onDelete?: (taskId: string) => void;
   onClick?: (task: Task) => void;
+  /** Ctrl/Cmd- or Shift-click selects instead of opening; omitted when bulk actions are off */
+  onSelect?: TaskSelectHandler;
+  isSelected?: boolean;
   isDragOverlay?: boolean;
 }
 
@@ -62,7 +69,14 @@ function getDueDateStatus(dateString: string): 'overdue' | 'soon' | 'normal' {
   return 'normal';
 }
 
-function BoardTaskCard({ task, onDelete, onClick, isDragOverlay }: BoardTaskCardProps) {
+function BoardTaskCard({
+  task,
+  onDelete,
+  onClick,
+  onSelect,
+  isSelected,
+  isDragOverlay,
+}: BoardTaskCardProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: task.id,
     disabled: isDragOverlay,
@@ -81,20 +95,36 @@ function BoardTaskCard({ task, onDelete, onClick, isDragOverlay }: BoardTaskCard
   const dueDateStatus = task.due_date ? getDueDateStatus(task.due_date) : null;
   const visibleTags = task.tags?.slice(0, 2) || [];
   const extraTagsCount = (task.tags?.length || 0) - 2;
+  const assigneeProfiles = (task.assignees || []).flatMap((a) => (a.profile ? [a.profile] : []));
+  const checklist = getChecklistProgress(task.checklist_items);
 
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onDelete) onDelete(task.id);
   };
 
-  const handleClick = () => {
-    if (!isDragging && onClick) onClick(task);
+  const handleClick = (e: React.MouseEvent) => {
+    if (isDragging) return;
+    if (onSelect && (e.shiftKey || e.metaKey || e.ctrlKey)) {
+      onSelect(task, { range: e.shiftKey });
+      return;
+    }
+    if (onClick) onClick(task);
   };
 
+  // Space picks the card up for keyboard dragging when that is enabled, otherwise opens it
+  const startKeyboardDrag = listeners?.onKeyDown;
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === ' ' && startKeyboardDrag && e.target === e.currentTarget) {
+      startKeyboardDrag(e);
+      return;
+    }
+    if (isDragging) return;
+
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
-      if (!isDragging && onClick) onClick(task);
+      if (onClick) onClick(task);
     }
     if (e.key === 'Delete' && onDelete) {
       e.preventDefault();
@@ -109,8 +139,9 @@ function BoardTaskCard({ task, onDelete, onClick, isDragOverlay }: BoardTaskCard
       {...attributes}
       {...listeners}
       role="listitem"
+      data-task-id={isDragOverlay ? undefined : task.id}
       aria-roledescription="draggable task"
-      aria-label={`Task: ${task.title}${task.priority ? `, Priority: ${task.priority}` : ''}${task.due_date ? `, Due: ${formatDueDate(task.due_date)}` : ''}`}
+      aria-label={`Task: ${task.title}${task.priority ? `, Priority: ${task.priority}` : ''}${task.due_date ? `, Due: ${formatDueDate(task.due_date)}` : ''}${isSelected ? ', Selected' : ''}`}
       tabIndex={0}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
@@ -121,6 +152,7 @@ function BoardTaskCard({ task, onDelete, onClick, isDragOverlay }: BoardTaskCard
         hover:shadow-md hover:scale-[1.02]
         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
         ${isDragging ? 'shadow-lg ring-2 ring-blue-400 scale-105' : ''}
+        ${isSelected && !isDragging ? 'ring-2 ring-indigo-500 ring-offset-1' : ''}
         ${isDragOverlay ? 'shadow-xl rotate-3' : ''}
       `}
     >
@@ -140,7 +172,7 @@ function BoardTaskCard({ task, onDelete, onClick, isDragOverlay }: BoardTaskCard
 
       {task.description && (
         <p className="text-xs mt-1 text-gray-600 dark:text-gray-400 line-clamp-2">
-          {task.description}
+          {markdownToPlainText(task.description)}
         </p>
       )}
 
@@ -164,8 +196,11 @@ function BoardTaskCard({ task, onDelete, onClick, isDragOverlay }: BoardTaskCard
       )}
 
       {/* Footer */}
-      {(task.due_date || task.assignee_name) && (
-        <div className="flex items-center justify-between mt-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+      {(task.due_date ||
+        checklist.total > 0 ||
+        assigneeProfiles.length > 0 ||
+        task.assignee_name) && (
+        <div className="flex items-center gap-3 mt-2 pt-2 border-t border-gray-100 dark:border-gray-700">
           {task.due_date && (
             <div
               className={`flex items-center gap-1 text-xs ${
@@ -182,16 +217,38 @@ function BoardTaskCard({ task, onDelete, onClick, isDragOverlay }: BoardTaskCard
             </div>
           )}
 
-          {task.assignee_name && (
+          {checklist.total > 0 && (
             <div
-              className="w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium text-white"
-              style={{ backgroundColor: task.assignee_color || '#6b7280' }}
-              title={task.assignee_name}
-              role="img"
-              aria-label={`Assigned to ${task.assignee_name}`}
+              className={`flex items-center gap-1 text-xs ${
+                checklist.completed === checklist.total
+                  ? 'text-green-600 dark:text-green-500'
+                  : 'text-gray-500 dark:text-gray-400'
+              }`}
+              aria-label={`Checklist: ${checklist.completed} of ${checklist.total} done`}
             >
-              {getInitials(task.assignee_name)}
+              <CheckSquare className="w-3 h-3" aria-hidden="true" />
+              <span>
+                {checklist.completed}/{checklist.total}
+              </span>
+            </div>
+          )}
+
+          {assigneeProfiles.length > 0 ? (
+            <div className="ml-auto">
+              <AssigneeAvatars profiles={assigneeProfiles} />
             </div>
+          ) : (
+            task.assignee_name && (
+              <div
+                className="ml-auto w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium text-white"
+                style={{ backgroundColor: task.assignee_color || '#6b7280' }}
+                title={task.assignee_name}
+                role="img"
+                aria-label={`Assigned to ${task.assignee_name}`}
+              >
+                {getInitials(task.assignee_name)}
+              </div>
+            )
           )}
         </div>
       )}
@@ -0,0 +1,126 @@
+'use client';
+
+import { X, Loader2, Clock } from 'lucide-react';
+import { useTimeReport } from '@/hooks/api';
+import { formatDuration, type TimeRollup } from '@/lib/tasks';
+import type { Status } from '@/types/board';
+
+interface BoardTimeReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardId: string;
+  statuses: Pick<Status, 'id' | 'name' | 'color'>[];
+}
+
+const formatPoints = (points: number) => (points > 0 ? `${points} pts` : '—');
+
+/**
+ * Tracked time against the hour estimates, e.g. "120%"; points are not comparable
+ */
+function formatUsage({ estimateHours, trackedMinutes }: TimeRollup): string {
+  if (estimateHours === 0) return '—';
+  return `${Math.round((trackedMinutes / (estimateHours * 60)) * 100)}%`;
+}
+
+function RollupCells({ rollup }: { rollup: TimeRollup }) {
+  const over = rollup.estimateHours > 0 && rollup.trackedMinutes > rollup.estimateHours * 60;
+
+  return (
+    <>
+      <td className="px-3 py-2 text-right">{rollup.taskCount}</td>
+      <td className="px-3 py-2 text-right">
+        {rollup.estimateHours > 0 ? formatDuration(rollup.estimateHours * 60) : '—'}
+      </td>
+      <td className="px-3 py-2 text-right">{formatPoints(rollup.estimatePoints)}</td>
+      <td className="px-3 py-2 text-right">{formatDuration(rollup.trackedMinutes)}</td>
+      <td className={`px-3 py-2 text-right ${over ? 'text-red-600 dark:text-red-400' : ''}`}>
+        {formatUsage(rollup)}
+      </td>
+    </>
+  );
+}
+
+export default function BoardTimeReportModal({
+  isOpen,
+  onClose,
+  boardId,
+  statuses,
+}: BoardTimeReportModalProps) {
+  const { data: report, isLoading, isError } = useTimeReport(boardId, { enabled: isOpen });
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Estimates vs. Time Tracked
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          ) : isError || !report ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+              Failed to load the time report
+            </p>
+          ) : (
+            <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-xs uppercase text-gray-500 dark:text-gray-400">
+                  <th className="px-3 py-2 text-left font-medium">Status</th>
+                  <th className="px-3 py-2 text-right font-medium">Tasks</th>
+                  <th className="px-3 py-2 text-right font-medium">Estimate</th>
+                  <th className="px-3 py-2 text-right font-medium">Points</th>
+                  <th className="px-3 py-2 text-right font-medium">Tracked</th>
+                  <th className="px-3 py-2 text-right font-medium">Used</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.statuses.map((rollup) => {
+                  const status = statuses.find((s) => s.id === rollup.statusId);
+                  return (
+                    <tr
+                      key={rollup.statusId}
+                      className="border-b border-gray-100 dark:border-gray-700/50"
+                    >
+                      <td className="px-3 py-2">
+                        <span className="inline-flex items-center gap-2">
+                          <span
+                            className="h-2.5 w-2.5 rounded-full"
+                            style={{ backgroundColor: status?.color }}
+                          />
+                          {status?.name ?? 'Unknown'}
+                        </span>
+                      </td>
+                      <RollupCells rollup={rollup} />
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-900 dark:text-white">
+                  <td className="px-3 py-2">Board total</td>
+                  <RollupCells rollup={report.total} />
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
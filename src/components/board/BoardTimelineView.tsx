@@ -0,0 +1,163 @@
+'use client';
+
+import { memo, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { BoardWithData, Task } from '@/types/board';
+import { addDays, getTimelineGroups, toDayKey } from '@/lib/tasks';
+
+/** Days shown at once */
+const TIMELINE_DAYS = 28;
+
+/** Days the range moves with the previous and next buttons */
+const TIMELINE_STEP = 7;
+
+const navButtonClass =
+  'rounded-lg p-1.5 text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700';
+
+interface BoardTimelineViewProps {
+  board: BoardWithData;
+  onOpenTask: (task: Task) => void;
+}
+
+function formatDay(day: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(day).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * Gantt-like view: one bar per task from its start to its due day, grouped by status
+ */
+function BoardTimelineView({ board, onOpenTask }: BoardTimelineViewProps) {
+  const today = toDayKey(new Date());
+  // Start a few days back so work that just finished stays in view
+  const [rangeStart, setRangeStart] = useState(() => addDays(today, -TIMELINE_STEP));
+
+  const days = useMemo(
+    () => Array.from({ length: TIMELINE_DAYS }, (_, i) => addDays(rangeStart, i)),
+    [rangeStart]
+  );
+  const groups = useMemo(
+    () => getTimelineGroups(board, rangeStart, TIMELINE_DAYS),
+    [board, rangeStart]
+  );
+  const undatedCount = useMemo(
+    () =>
+      board.statuses.reduce(
+        (count, status) => count + status.tasks.filter((task) => !task.due_date).length,
+        0
+      ),
+    [board.statuses]
+  );
+
+  const gridStyle = { gridTemplateColumns: `repeat(${TIMELINE_DAYS}, minmax(2rem, 1fr))` };
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setRangeStart(addDays(rangeStart, -TIMELINE_STEP))}
+          className={navButtonClass}
+          aria-label="Previous week"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setRangeStart(addDays(today, -TIMELINE_STEP))}
+          className="rounded-lg px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          Today
+        </button>
+        <button
+          type="button"
+          onClick={() => setRangeStart(addDays(rangeStart, TIMELINE_STEP))}
+          className={navButtonClass}
+          aria-label="Next week"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white" aria-live="polite">
+          {formatDay(days[0], { month: 'short', day: 'numeric' })} –{' '}
+          {formatDay(days[days.length - 1], { month: 'short', day: 'numeric', year: 'numeric' })}
+        </h2>
+        {undatedCount > 0 && (
+          <span className="ml-auto text-sm text-gray-500 dark:text-gray-400">
+            {undatedCount === 1 ? '1 task' : `${undatedCount} tasks`} without a due date
+          </span>
+        )}
+      </div>
+
+      <div className="min-w-max overflow-hidden rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+        <div className="flex border-b border-gray-200 dark:border-gray-700">
+          <div className="w-48 shrink-0" />
+          <div className="grid flex-1" style={gridStyle}>
+            {days.map((day) => (
+              <div
+                key={day}
+                className={`border-l border-gray-100 py-1 text-center text-xs dark:border-gray-700 ${
+                  day === today
+                    ? 'font-semibold text-blue-600 dark:text-blue-400'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                <div>{formatDay(day, { weekday: 'narrow' })}</div>
+                <div>{Number(day.slice(8))}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {groups.map(({ status, items }) => (
+          <section
+            key={status.id}
+            aria-label={status.name}
+            className="border-b border-gray-200 last:border-b-0 dark:border-gray-700"
+          >
+            <div className="flex items-center gap-2 bg-gray-50 px-3 py-1.5 text-sm font-semibold text-gray-700 dark:bg-gray-900/50 dark:text-gray-300">
+              <span
+                className="h-2 w-2 rounded-full"
+                style={{ backgroundColor: status.color }}
+                aria-hidden="true"
+              />
+              {status.name}
+              <span className="font-normal text-gray-400">{items.length}</span>
+            </div>
+
+            {items.map(({ task, offset, span, clippedStart, clippedEnd }) => (
+              <div key={task.id} className="flex items-center">
+                <div className="w-48 shrink-0 truncate px-3 py-1 text-sm text-gray-700 dark:text-gray-300">
+                  {task.title}
+                </div>
+                <div className="grid flex-1 py-1" style={gridStyle}>
+                  <button
+                    type="button"
+                    onClick={() => onOpenTask(task)}
+                    className={`h-6 truncate px-2 text-left text-xs font-medium text-white hover:opacity-90 ${
+                      clippedStart ? '' : 'rounded-l-md'
+                    } ${clippedEnd ? '' : 'rounded-r-md'}`}
+                    style={{
+                      gridColumn: `${offset + 1} / span ${span}`,
+                      backgroundColor: status.color,
+                    }}
+                    aria-label={`${task.title}, due ${formatDay(toDayKey(task.due_date!), {
+                      month: 'long',
+                      day: 'numeric',
+                    })}`}
+                  >
+                    {task.title}
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {items.length === 0 && (
+              <p className="px-3 py-2 text-sm text-gray-400">No tasks in this range</p>
+            )}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default memo(BoardTimelineView);
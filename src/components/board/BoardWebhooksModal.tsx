@@ -0,0 +1,385 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Loader2, Plus, Trash2, Send, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import {
+  useWebhooks,
+  useWebhookDeliveries,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  useTestWebhook,
+} from '@/hooks/api';
+import { ActivityActionEnum } from '@/lib/validation';
+import type { ActivityAction, Webhook } from '@/types/board';
+
+interface BoardWebhooksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardId: string;
+}
+
+const eventGroups: { label: string; prefix: string }[] = [
+  { label: 'Tasks', prefix: 'task_' },
+  { label: 'Columns', prefix: 'status_' },
+  { label: 'Comments', prefix: 'comment_' },
+  { label: 'Attachments', prefix: 'attachment_' },
+  { label: 'Members', prefix: 'member_' },
+  { label: 'Board', prefix: 'board_' },
+];
+
+function eventLabel(event: string): string {
+  return event.replace(/_/g, ' ');
+}
+
+const deliveryStatusStyles = {
+  succeeded: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  pending: 'text-amber-600 dark:text-amber-400',
+};
+
+function DeliveryLog({ boardId, webhookId }: { boardId: string; webhookId: string }) {
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(boardId, webhookId);
+
+  if (isLoading) {
+    return <Loader2 className="mx-auto my-3 h-4 w-4 animate-spin text-gray-400" />;
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="py-2 text-xs text-gray-500 dark:text-gray-400">No deliveries yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-left text-xs">
+      <thead className="text-gray-500 dark:text-gray-400">
+        <tr>
+          <th className="py-1 pr-2 font-medium">Event</th>
+          <th className="py-1 pr-2 font-medium">Result</th>
+          <th className="py-1 pr-2 font-medium">Latency</th>
+          <th className="py-1 pr-2 font-medium">Attempts</th>
+          <th className="py-1 font-medium">Sent</th>
+        </tr>
+      </thead>
+      <tbody className="text-gray-700 dark:text-gray-300">
+        {deliveries.map((delivery) => (
+          <tr
+            key={delivery.id}
+            className="border-t border-gray-100 dark:border-gray-700"
+            title={delivery.error || delivery.response_body || undefined}
+          >
+            <td className="py-1 pr-2">{eventLabel(delivery.event)}</td>
+            <td className={`py-1 pr-2 ${deliveryStatusStyles[delivery.status]}`}>
+              {delivery.response_status ?? '—'} {delivery.status}
+            </td>
+            <td className="py-1 pr-2">
+              {delivery.latency_ms !== null ? `${delivery.latency_ms} ms` : '—'}
+            </td>
+            <td className="py-1 pr-2">{delivery.attempts}</td>
+            <td className="py-1">{new Date(delivery.created_at).toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function BoardWebhooksModal({ isOpen, onClose, boardId }: BoardWebhooksModalProps) {
+  const { data: webhooks = [], isLoading } = useWebhooks(boardId);
+  const createWebhook = useCreateWebhook(boardId);
+  const updateWebhook = useUpdateWebhook(boardId);
+  const deleteWebhook = useDeleteWebhook(boardId);
+  const testWebhook = useTestWebhook(boardId);
+
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<ActivityAction[]>(['task_created', 'task_moved']);
+  const [revealedSecret, setRevealedSecret] = useState<{ id: string; secret: string } | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Webhook | null>(null);
+
+  const toggleEvent = (event: ActivityAction) => {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const webhook = await createWebhook.mutateAsync({ url: url.trim(), events });
+      setRevealedSecret({ id: webhook.id, secret: webhook.secret });
+      setUrl('');
+      toast.success('Webhook added');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add webhook');
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    try {
+      await updateWebhook.mutateAsync({
+        webhookId: webhook.id,
+        updates: { is_active: !webhook.is_active },
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update webhook');
+    }
+  };
+
+  const handleRotate = async (webhook: Webhook) => {
+    try {
+      const updated = await updateWebhook.mutateAsync({
+        webhookId: webhook.id,
+        updates: { rotate_secret: true },
+      });
+      setRevealedSecret({ id: updated.id, secret: updated.secret });
+      toast.success('Secret rotated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rotate secret');
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      const { ok } = await testWebhook.mutateAsync(webhook.id);
+      setExpandedId(webhook.id);
+      if (ok) {
+        toast.success('Test delivery succeeded');
+      } else {
+        toast.error('Test delivery failed');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send test');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      await deleteWebhook.mutateAsync(deleteTarget.id);
+      toast.success('Webhook deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete webhook');
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="board-webhooks-title"
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2
+            id="board-webhooks-title"
+            className="text-lg font-semibold text-gray-900 dark:text-white"
+          >
+            Webhooks
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6">
+          {/* Add webhook */}
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div>
+              <label
+                htmlFor="webhook-url"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Payload URL
+              </label>
+              <input
+                id="webhook-url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/hooks/kanban"
+                required
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Events
+              </legend>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">
+                {eventGroups.map(({ label, prefix }) => (
+                  <div key={prefix}>
+                    <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+                      {label}
+                    </p>
+                    {ActivityActionEnum.options
+                      .filter((event) => event.startsWith(prefix))
+                      .map((event) => (
+                        <label
+                          key={event}
+                          className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={events.includes(event)}
+                            onChange={() => toggleEvent(event)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          {eventLabel(event.slice(prefix.length))}
+                        </label>
+                      ))}
+                  </div>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={!url.trim() || events.length === 0 || createWebhook.isPending}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {createWebhook.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4" />
+                )}
+                Add Webhook
+              </button>
+            </div>
+          </form>
+
+          {revealedSecret && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-700 dark:bg-amber-900/20">
+              <p className="font-medium text-amber-800 dark:text-amber-300">
+                Copy the signing secret now. It will not be shown again.
+              </p>
+              <code className="mt-1 block break-all font-mono text-xs text-gray-800 dark:text-gray-200">
+                {revealedSecret.secret}
+              </code>
+              <button
+                type="button"
+                onClick={() => {
+                  navigator.clipboard?.writeText(revealedSecret.secret);
+                  toast.success('Secret copied');
+                }}
+                className="mt-2 text-xs font-medium text-blue-600 hover:underline dark:text-blue-400"
+              >
+                Copy
+              </button>
+            </div>
+          )}
+
+          {/* Existing webhooks */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Webhooks ({webhooks.length})
+            </h3>
+
+            {isLoading ? (
+              <Loader2 className="mx-auto h-5 w-5 animate-spin text-gray-400" />
+            ) : webhooks.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No webhooks yet.</p>
+            ) : (
+              webhooks.map((webhook) => (
+                <div
+                  key={webhook.id}
+                  className="rounded-lg border border-gray-200 p-3 dark:border-gray-700"
+                >
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                      aria-expanded={expandedId === webhook.id}
+                      aria-label="Show deliveries"
+                      className="rounded p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      {expandedId === webhook.id ? (
+                        <ChevronDown className="h-4 w-4" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4" />
+                      )}
+                    </button>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                        {webhook.url}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {webhook.events.length} event{webhook.events.length === 1 ? '' : 's'} ·
+                        secret {webhook.secret}
+                      </p>
+                    </div>
+                    <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={webhook.is_active}
+                        onChange={() => handleToggleActive(webhook)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Active
+                    </label>
+                    <button
+                      onClick={() => handleTest(webhook)}
+                      disabled={testWebhook.isPending}
+                      className="rounded p-1.5 text-gray-500 hover:bg-gray-100 hover:text-blue-600 dark:hover:bg-gray-700"
+                      aria-label="Send test delivery"
+                      title="Send test delivery"
+                    >
+                      <Send className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRotate(webhook)}
+                      className="rounded p-1.5 text-gray-500 hover:bg-gray-100 hover:text-blue-600 dark:hover:bg-gray-700"
+                      aria-label="Rotate secret"
+                      title="Rotate secret"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteTarget(webhook)}
+                      className="rounded p-1.5 text-gray-500 hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-700"
+                      aria-label="Delete webhook"
+                      title="Delete webhook"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  {expandedId === webhook.id && (
+                    <div className="mt-2 pl-8">
+                      <DeliveryLog boardId={boardId} webhookId={webhook.id} />
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        title="Delete Webhook"
+        message={`Stop sending events to ${deleteTarget?.url}? Its delivery log will be deleted too.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        onConfirm={handleDelete}
+        onClose={() => setDeleteTarget(null)}
+        loading={deleteWebhook.isPending}
+        variant="danger"
+      />
+    </div>
+  );
+}
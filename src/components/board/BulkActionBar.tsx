@@ -0,0 +1,241 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { Loader2, Tag, Trash2, X } from 'lucide-react';
+import type { Profile, Status, TaskPriority } from '@/types/board';
+import type { BulkTaskAction } from '@/lib/validation';
+import ConfirmDialog from '@/components/ConfirmDialog';
+
+const priorityOptions: { value: TaskPriority; label: string }[] = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const controlClass =
+  'rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-white';
+
+const buttonClass =
+  'flex items-center gap-1 rounded-lg px-2 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50 dark:text-gray-300 dark:hover:bg-gray-700';
+
+/** Value of the "none" option in the priority and assignee selects */
+const NONE = '__none__';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  statuses: Status[];
+  /** Tags used on the board, suggested in the tag field */
+  tags: string[];
+  members: Pick<Profile, 'id' | 'email' | 'display_name'>[];
+  canMove: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  /** True while a bulk request is running */
+  isPending?: boolean;
+  onAction: (action: BulkTaskAction) => void;
+  onClear: () => void;
+}
+
+/**
+ * Toolbar for the selected cards: move, priority, tags, due date, assignees and delete
+ * Each control applies to the whole selection as soon as it is used
+ */
+export function BulkActionBar({
+  selectedCount,
+  statuses,
+  tags,
+  members,
+  canMove,
+  canEdit,
+  canDelete,
+  isPending,
+  onAction,
+  onClear,
+}: BulkActionBarProps) {
+  const [tag, setTag] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const tagListId = useId();
+
+  const trimmedTag = tag.trim();
+  const tasksLabel = selectedCount === 1 ? '1 task' : `${selectedCount} tasks`;
+
+  const applyTag = (type: 'add_tag' | 'remove_tag') => {
+    if (!trimmedTag) return;
+    onAction({ type, tag: trimmedTag });
+    setTag('');
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="fixed bottom-6 left-1/2 z-30 flex max-w-[calc(100vw-2rem)] -translate-x-1/2 flex-wrap items-center gap-2 rounded-xl border border-gray-200 bg-white px-4 py-2 shadow-xl dark:border-gray-700 dark:bg-gray-800"
+    >
+      <span className="text-sm font-medium text-gray-900 dark:text-white" aria-live="polite">
+        {tasksLabel} selected
+      </span>
+      {isPending && <Loader2 className="h-4 w-4 animate-spin text-gray-400" aria-hidden="true" />}
+
+      {canMove && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onAction({ type: 'move', status_id: e.target.value })}
+          disabled={isPending}
+          aria-label="Move selected tasks to"
+          className={controlClass}
+        >
+          <option value="">Move to...</option>
+          {statuses.map((status) => (
+            <option key={status.id} value={status.id}>
+              {status.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {canEdit && (
+        <>
+          <select
+            value=""
+            onChange={(e) =>
+              e.target.value &&
+              onAction({
+                type: 'set_priority',
+                priority: e.target.value === NONE ? null : (e.target.value as TaskPriority),
+              })
+            }
+            disabled={isPending}
+            aria-label="Set priority of selected tasks"
+            className={controlClass}
+          >
+            <option value="">Priority...</option>
+            {priorityOptions.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+            <option value={NONE}>No priority</option>
+          </select>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyTag('add_tag');
+            }}
+            className="flex items-center gap-1"
+          >
+            <Tag className="h-4 w-4 text-gray-400" aria-hidden="true" />
+            <input
+              type="text"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              list={tagListId}
+              placeholder="Tag"
+              aria-label="Tag to add or remove"
+              maxLength={50}
+              disabled={isPending}
+              className={`${controlClass} w-28`}
+            />
+            <datalist id={tagListId}>
+              {tags.map((t) => (
+                <option key={t} value={t} />
+              ))}
+            </datalist>
+            <button type="submit" disabled={isPending || !trimmedTag} className={buttonClass}>
+              Add
+            </button>
+            <button
+              type="button"
+              onClick={() => applyTag('remove_tag')}
+              disabled={isPending || !trimmedTag}
+              className={buttonClass}
+            >
+              Remove
+            </button>
+          </form>
+
+          <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+            Due
+            <input
+              type="date"
+              value=""
+              onChange={(e) =>
+                e.target.value &&
+                onAction({ type: 'set_due_date', due_date: `${e.target.value}T00:00:00.000Z` })
+              }
+              disabled={isPending}
+              aria-label="Set due date of selected tasks"
+              className={controlClass}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => onAction({ type: 'set_due_date', due_date: null })}
+            disabled={isPending}
+            className={buttonClass}
+          >
+            Clear due
+          </button>
+
+          <select
+            value=""
+            onChange={(e) =>
+              e.target.value &&
+              onAction({
+                type: 'assign',
+                assignee_ids: e.target.value === NONE ? [] : [e.target.value],
+              })
+            }
+            disabled={isPending}
+            aria-label="Assign selected tasks to"
+            className={controlClass}
+          >
+            <option value="">Assign to...</option>
+            {members.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.display_name || member.email}
+              </option>
+            ))}
+            <option value={NONE}>Nobody</option>
+          </select>
+        </>
+      )}
+
+      {canDelete && (
+        <button
+          type="button"
+          onClick={() => setConfirmDelete(true)}
+          disabled={isPending}
+          className={`${buttonClass} text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/30`}
+        >
+          <Trash2 className="h-4 w-4" aria-hidden="true" />
+          Delete
+        </button>
+      )}
+
+      <button
+        type="button"
+        onClick={onClear}
+        className="ml-auto rounded-lg p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-700"
+        aria-label="Clear selection"
+      >
+        <X className="h-4 w-4" />
+      </button>
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        title="Delete Tasks"
+        message={`Are you sure you want to delete ${tasksLabel}?`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        onConfirm={() => {
+          setConfirmDelete(false);
+          onAction({ type: 'delete' });
+        }}
+        onClose={() => setConfirmDelete(false)}
+        variant="danger"
+      />
+    </div>
+  );
+}
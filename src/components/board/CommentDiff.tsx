@@ -0,0 +1,43 @@
+'use client';
+
+import { memo } from 'react';
+import type { TextDiffPart } from '@/lib/comments';
+
+interface CommentDiffProps {
+  parts: TextDiffPart[];
+  className?: string;
+}
+
+/**
+ * Inline word diff: removed text struck through in red, added text in green
+ * Shows the Markdown source, not rendered output, so every change is visible
+ */
+function CommentDiff({ parts, className = '' }: CommentDiffProps) {
+  return (
+    <p className={`whitespace-pre-wrap break-words text-xs ${className}`}>
+      {parts.map((part, index) =>
+        part.type === 'insert' ? (
+          <ins
+            key={index}
+            className="rounded bg-green-100 text-green-800 no-underline dark:bg-green-900/40 dark:text-green-300"
+          >
+            {part.text}
+          </ins>
+        ) : part.type === 'delete' ? (
+          <del
+            key={index}
+            className="rounded bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300"
+          >
+            {part.text}
+          </del>
+        ) : (
+          <span key={index} className="text-gray-600 dark:text-gray-400">
+            {part.text}
+          </span>
+        )
+      )}
+    </p>
+  );
+}
+
+export default memo(CommentDiff);
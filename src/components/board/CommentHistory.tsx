@@ -0,0 +1,77 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useCommentRevisions } from '@/hooks/api';
+import { diffText } from '@/lib/comments';
+import CommentDiff from './CommentDiff';
+
+interface CommentHistoryProps {
+  boardId: string;
+  taskId: string;
+  commentId: string;
+  /** Current text, compared against the latest revision */
+  content: string;
+}
+
+/**
+ * Edit history of a comment, newest edit first
+ */
+export default function CommentHistory({
+  boardId,
+  taskId,
+  commentId,
+  content,
+}: CommentHistoryProps) {
+  const {
+    data: revisions = [],
+    isLoading,
+    error,
+  } = useCommentRevisions(boardId, taskId, commentId);
+
+  // Each revision holds the text before an edit; the next revision (or the current
+  // content) is the text after it
+  const edits = useMemo(
+    () =>
+      revisions
+        .map((revision, index) => ({
+          revision,
+          parts: diffText(revision.content, revisions[index + 1]?.content ?? content),
+        }))
+        .reverse(),
+    [revisions, content]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-600 dark:text-red-400">Failed to load edit history</p>;
+  }
+
+  if (edits.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">No earlier versions</p>;
+  }
+
+  return (
+    <ol aria-label="Edit history" className="space-y-2">
+      {edits.map(({ revision, parts }) => (
+        <li
+          key={revision.id}
+          className="rounded border border-gray-200 bg-white p-2 dark:border-gray-600 dark:bg-gray-800"
+        >
+          <p className="mb-1 text-xs text-gray-500 dark:text-gray-400">
+            {revision.editor?.display_name || revision.editor?.email || 'Someone'} edited{' '}
+            {new Date(revision.created_at).toLocaleString()}
+          </p>
+          <CommentDiff parts={parts} />
+        </li>
+      ))}
+    </ol>
+  );
+}
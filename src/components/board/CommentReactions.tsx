@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import type { CommentReaction, Profile } from '@/types/board';
+import { COMMENT_REACTIONS, getMentionName, summarizeReactions } from '@/lib/comments';
+
+interface CommentReactionsProps {
+  reactions: CommentReaction[];
+  currentUserId?: string | null;
+  members: Pick<Profile, 'id' | 'email' | 'display_name'>[];
+  /** Omit to show reactions read-only */
+  onToggle?: (emoji: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Reaction counts under a comment, with a picker to add one
+ */
+export default function CommentReactions({
+  reactions,
+  currentUserId,
+  members,
+  onToggle,
+  disabled,
+}: CommentReactionsProps) {
+  const [showPicker, setShowPicker] = useState(false);
+  const summary = summarizeReactions(reactions, currentUserId);
+
+  if (summary.length === 0 && !onToggle) return null;
+
+  const names = (userIds: string[]) =>
+    userIds
+      .map((id) => {
+        if (id === currentUserId) return 'You';
+        const member = members.find((m) => m.id === id);
+        return member ? getMentionName(member) : 'Someone';
+      })
+      .join(', ');
+
+  return (
+    <div className="relative mt-2 flex flex-wrap items-center gap-1">
+      {summary.map(({ emoji, count, userIds, reacted }) => (
+        <button
+          key={emoji}
+          type="button"
+          onClick={() => onToggle?.(emoji)}
+          disabled={!onToggle || disabled}
+          aria-pressed={reacted}
+          title={names(userIds)}
+          className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors disabled:cursor-default ${
+            reacted
+              ? 'border-blue-300 bg-blue-50 text-blue-700 dark:border-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+              : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+          }`}
+        >
+          <span aria-hidden="true">{emoji}</span>
+          <span>{count}</span>
+          <span className="sr-only">{reacted ? 'Remove reaction' : 'Add reaction'}</span>
+        </button>
+      ))}
+
+      {onToggle && (
+        <button
+          type="button"
+          onClick={() => setShowPicker((open) => !open)}
+          disabled={disabled}
+          aria-label="Add reaction"
+          aria-expanded={showPicker}
+          className="rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 disabled:opacity-50 dark:hover:bg-gray-700 dark:hover:text-gray-300"
+        >
+          <SmilePlus className="h-3.5 w-3.5" />
+        </button>
+      )}
+
+      {showPicker && onToggle && (
+        <div
+          role="menu"
+          aria-label="Reactions"
+          className="absolute left-0 top-full z-10 mt-1 flex gap-0.5 rounded-lg border border-gray-200 bg-white p-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+        >
+          {COMMENT_REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              role="menuitem"
+              onClick={() => {
+                setShowPicker(false);
+                onToggle(emoji);
+              }}
+              className="rounded p-1 text-base hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
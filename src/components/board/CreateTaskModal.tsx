@@ -6,6 +6,8 @@ import { Status } from '@/types/board';
 import FormInput from '@/components/ui/FormInput';
 import FormTextarea from '@/components/ui/FormTextarea';
 import FormSelect from '@/components/ui/FormSelect';
+import RecurrenceField from './RecurrenceField';
+import { parseRecurrenceRule } from '@/lib/tasks';
 import { useFormValidation, createValidationRules } from '@/hooks/useFormValidation';
 
 interface CreateTaskModalProps {
@@ -17,6 +19,7 @@ interface CreateTaskModalProps {
     status_id: string;
     priority?: string;
     due_date?: string;
+    recurrence_rule?: string;
   }) => Promise<void>;
   statuses: Status[];
   defaultStatusId: string | null;
@@ -41,6 +44,7 @@ export default function CreateTaskModal({
   const [statusId, setStatusId] = useState('');
   const [priority, setPriority] = useState('');
   const [dueDate, setDueDate] = useState('');
+  const [recurrence, setRecurrence] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
   const { getFieldError, handleBlur, validateAllFields, clearErrors, setFieldTouched } =
@@ -56,6 +60,7 @@ export default function CreateTaskModal({
       setDescription('');
       setPriority('');
       setDueDate('');
+      setRecurrence(null);
       clearErrors();
     }
   }, [isOpen, defaultStatusId, statuses, clearErrors]);
@@ -64,7 +69,7 @@ export default function CreateTaskModal({
     e.preventDefault();
 
     const isValid = validateAllFields({ title, status_id: statusId });
-    if (!isValid) return;
+    if (!isValid || recurrenceInvalid) return;
 
     setLoading(true);
     try {
@@ -74,12 +79,15 @@ export default function CreateTaskModal({
         status_id: statusId,
         priority: priority || undefined,
         due_date: dueDate || undefined,
+        recurrence_rule: recurrence || undefined,
       });
     } finally {
       setLoading(false);
     }
   };
 
+  const recurrenceInvalid = !!recurrence && !parseRecurrenceRule(recurrence).success;
+
   if (!isOpen) return null;
 
   return (
@@ -163,6 +171,8 @@ export default function CreateTaskModal({
             onChange={(e) => setDueDate(e.target.value)}
           />
 
+          <RecurrenceField value={recurrence} onChange={setRecurrence} dueDate={dueDate} />
+
           <div className="flex justify-end gap-3 pt-4">
             <button
               type="button"
@@ -173,7 +183,7 @@ export default function CreateTaskModal({
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || recurrenceInvalid}
               className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors"
             >
               {loading && <Loader2 className="h-4 w-4 animate-spin" />}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Loader2, Upload, AlertTriangle, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useImportBoard } from '@/hooks/api';
+import { getCsvHeaders, type ImportIssue, type ImportPreview } from '@/lib/import';
+import type { CsvColumnMapping, ImportField, ImportSource } from '@/lib/validation';
+
+interface ImportBoardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardId: string;
+}
+
+type Step = 'file' | 'mapping' | 'preview';
+
+const sources: { value: ImportSource; label: string; accept: string }[] = [
+  { value: 'kanbanpro', label: 'Board export (JSON)', accept: '.json,application/json' },
+  { value: 'trello', label: 'Trello (JSON)', accept: '.json,application/json' },
+  { value: 'jira', label: 'Jira (CSV)', accept: '.csv,text/csv' },
+  { value: 'csv', label: 'Other CSV', accept: '.csv,text/csv' },
+];
+
+const mappingFields: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'title', label: 'Title *', aliases: ['title', 'name', 'summary', 'task'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'details', 'notes'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'column', 'list', 'state'] },
+  { field: 'priority', label: 'Priority', aliases: ['priority'] },
+  { field: 'tags', label: 'Tags', aliases: ['tags', 'labels', 'tag', 'label'] },
+  { field: 'due_date', label: 'Due date', aliases: ['due date', 'due', 'due_date', 'deadline'] },
+  { field: 'assignees', label: 'Assignees (emails)', aliases: ['assignees', 'assignee', 'owner'] },
+  { field: 'lane', label: 'Lane', aliases: ['lane', 'swimlane'] },
+];
+
+/**
+ * Pick columns whose header matches a known field name
+ */
+function guessMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  mappingFields.forEach(({ field, aliases }) => {
+    const header = headers.find((h) => aliases.includes(h.toLowerCase()));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+}
+
+function IssueList({ issues, tone }: { issues: ImportIssue[]; tone: 'error' | 'warning' }) {
+  if (issues.length === 0) return null;
+
+  const Icon = tone === 'error' ? AlertCircle : AlertTriangle;
+  const color =
+    tone === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400';
+
+  return (
+    <div>
+      <h3 className={`flex items-center gap-1 text-sm font-medium ${color}`}>
+        <Icon className="h-4 w-4" aria-hidden="true" />
+        {issues.length} {tone === 'error' ? 'error' : 'warning'}
+        {issues.length === 1 ? '' : 's'}
+      </h3>
+      <ul className="mt-1 max-h-32 overflow-y-auto text-xs text-gray-600 dark:text-gray-400">
+        {issues.map((issue, index) => (
+          <li key={index}>
+            {issue.row > 0 ? `Row ${issue.row}` : 'File'}
+            {issue.field ? ` (${issue.field})` : ''}: {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ImportBoardModal({ isOpen, onClose, boardId }: ImportBoardModalProps) {
+  const [step, setStep] = useState<Step>('file');
+  const [source, setSource] = useState<ImportSource>('kanbanpro');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const importMutation = useImportBoard(boardId);
+
+  const sourceConfig = sources.find((s) => s.value === source) ?? sources[0];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setPreview(null);
+
+    if (source === 'csv') {
+      const csvHeaders = getCsvHeaders(text);
+      setHeaders(csvHeaders);
+      setMapping(guessMapping(csvHeaders));
+    }
+  };
+
+  const runPreview = async () => {
+    try {
+      const { preview } = await importMutation.mutateAsync({
+        source,
+        content,
+        mapping: source === 'csv' ? mapping : undefined,
+        dry_run: true,
+      });
+      setPreview(preview);
+      setStep('preview');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  };
+
+  const runImport = async () => {
+    try {
+      const { result } = await importMutation.mutateAsync({
+        source,
+        content,
+        mapping: source === 'csv' ? mapping : undefined,
+        dry_run: false,
+      });
+      toast.success(`Imported ${result?.tasks_created ?? 0} tasks`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const hasErrors = (preview?.errors.length ?? 0) > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-board-title"
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2
+            id="import-board-title"
+            className="text-lg font-semibold text-gray-900 dark:text-white"
+          >
+            Import Tasks
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {step === 'file' && (
+            <>
+              <div>
+                <label
+                  htmlFor="import-source"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Import from
+                </label>
+                <select
+                  id="import-source"
+                  value={source}
+                  onChange={(e) => {
+                    setSource(e.target.value as ImportSource);
+                    setContent('');
+                    setFileName('');
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {sources.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed border-gray-300 px-4 py-8 text-sm text-gray-600 hover:border-blue-400 dark:border-gray-600 dark:text-gray-400">
+                <Upload className="h-6 w-6" aria-hidden="true" />
+                {fileName || 'Choose a file'}
+                <input
+                  type="file"
+                  accept={sourceConfig.accept}
+                  onChange={handleFileChange}
+                  className="sr-only"
+                />
+              </label>
+            </>
+          )}
+
+          {step === 'mapping' && (
+            <div className="grid grid-cols-2 gap-3">
+              <p className="col-span-2 text-sm text-gray-600 dark:text-gray-400">
+                Choose which column holds each field.
+              </p>
+              {mappingFields.map(({ field, label }) => (
+                <label key={field} className="text-sm text-gray-700 dark:text-gray-300">
+                  {label}
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) =>
+                      setMapping((prev) => ({ ...prev, [field]: e.target.value || undefined }))
+                    }
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Not imported</option>
+                    {headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {step === 'preview' && preview && (
+            <>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {preview.task_count} tasks, {preview.checklist_item_count} checklist items and{' '}
+                {preview.comment_count} comments will be imported.
+                {preview.statuses_to_create.length > 0 &&
+                  ` New columns: ${preview.statuses_to_create.join(', ')}.`}
+              </p>
+
+              <IssueList issues={preview.errors} tone="error" />
+              <IssueList issues={preview.warnings} tone="warning" />
+
+              {preview.sample.length > 0 && (
+                <div className="max-h-60 overflow-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                  <table className="w-full text-left text-xs">
+                    <thead className="bg-gray-50 text-gray-500 dark:bg-gray-900 dark:text-gray-400">
+                      <tr>
+                        <th className="px-2 py-1">Row</th>
+                        <th className="px-2 py-1">Title</th>
+                        <th className="px-2 py-1">Status</th>
+                        <th className="px-2 py-1">Priority</th>
+                        <th className="px-2 py-1">Due</th>
+                        <th className="px-2 py-1">Assignees</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-700 dark:text-gray-300">
+                      {preview.sample.map((task) => (
+                        <tr
+                          key={task.row}
+                          className="border-t border-gray-100 dark:border-gray-700"
+                        >
+                          <td className="px-2 py-1">{task.row}</td>
+                          <td className="px-2 py-1">{task.title}</td>
+                          <td className="px-2 py-1">{task.status}</td>
+                          <td className="px-2 py-1">{task.priority ?? ''}</td>
+                          <td className="px-2 py-1">{task.due_date?.slice(0, 10) ?? ''}</td>
+                          <td className="px-2 py-1">{task.assignees.join(', ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={() =>
+                step === 'file'
+                  ? onClose()
+                  : setStep(step === 'preview' && source === 'csv' ? 'mapping' : 'file')
+              }
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              {step === 'file' ? 'Cancel' : 'Back'}
+            </button>
+
+            {step === 'preview' ? (
+              <button
+                type="button"
+                onClick={runImport}
+                disabled={hasErrors || importMutation.isPending || preview?.task_count === 0}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {importMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Import
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() =>
+                  step === 'file' && source === 'csv' ? setStep('mapping') : runPreview()
+                }
+                disabled={!content || importMutation.isPending}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {importMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                {step === 'file' && source === 'csv' ? 'Next' : 'Preview'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useId } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { BOARD_SHORTCUTS } from '@/hooks/useBoardShortcuts';
+
+interface KeyboardShortcutsDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Cheatsheet overlay listing the board's keyboard shortcuts
+ */
+export default function KeyboardShortcutsDialog({ onClose }: KeyboardShortcutsDialogProps) {
+  const titleId = useId();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === '?') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md max-h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2
+            id={titleId}
+            className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white"
+          >
+            <Keyboard className="h-5 w-5 text-gray-500" aria-hidden="true" />
+            Keyboard shortcuts
+          </h2>
+          <button
+            onClick={onClose}
+            autoFocus
+            aria-label="Close"
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" aria-hidden="true" />
+          </button>
+        </div>
+
+        <dl className="overflow-y-auto px-6 py-4 space-y-2">
+          {BOARD_SHORTCUTS.map(({ keys, description }) => (
+            <div key={description} className="flex items-center justify-between gap-4 text-sm">
+              <dt className="text-gray-600 dark:text-gray-300">{description}</dt>
+              <dd className="flex flex-shrink-0 gap-1">
+                {keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="min-w-[1.75rem] px-2 py-1 text-center text-xs font-mono bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded border border-gray-200 dark:border-gray-600"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { memo, useMemo, type ReactNode } from 'react';
+import type { Attachment, Profile } from '@/types/board';
+import { getMentionName } from '@/lib/comments';
+import { sanitizeUrl } from '@/lib/security/sanitize';
+import {
+  getAttachmentImageId,
+  isEmbeddableImage,
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from '@/lib/markdown';
+
+type MentionProfile = Pick<Profile, 'id' | 'email' | 'display_name'>;
+
+interface MarkdownContentProps {
+  content: string;
+  /** Board members, so mention chips show current names rather than the name at mention time */
+  members?: MentionProfile[];
+  /** Mentions of this user are highlighted */
+  currentUserId?: string | null;
+  /** Task attachments that `attachment:<id>` images resolve to */
+  attachments?: Attachment[];
+  /** Makes task-list checkboxes clickable */
+  onToggleTask?: (line: number, checked: boolean) => void;
+  className?: string;
+}
+
+interface RenderContext {
+  members: MentionProfile[];
+  currentUserId?: string | null;
+  attachments: Attachment[];
+  onToggleTask?: (line: number, checked: boolean) => void;
+}
+
+const headingClasses: Record<number, string> = {
+  1: 'text-lg font-semibold',
+  2: 'text-base font-semibold',
+  3: 'text-sm font-semibold',
+  4: 'text-sm font-medium',
+  5: 'text-sm font-medium',
+  6: 'text-sm font-medium text-gray-500 dark:text-gray-400',
+};
+
+function renderInline(nodes: MarkdownInline[], context: RenderContext): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, context)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, context)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children, context)}</del>;
+      case 'code':
+        return (
+          <code
+            key={index}
+            className="rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.85em] dark:bg-gray-800"
+          >
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return node.href ? (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 underline hover:text-blue-700 dark:text-blue-400"
+          >
+            {renderInline(node.children, context)}
+          </a>
+        ) : (
+          <span key={index}>{renderInline(node.children, context)}</span>
+        );
+      case 'image': {
+        const attachmentId = getAttachmentImageId(node.src);
+        const attachment = attachmentId
+          ? context.attachments.find((a) => a.id === attachmentId)
+          : undefined;
+
+        if (attachment?.url && isEmbeddableImage(attachment)) {
+          return (
+            <a key={index} href={attachment.url} target="_blank" rel="noopener noreferrer">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={attachment.url}
+                alt={node.alt || attachment.original_name}
+                loading="lazy"
+                className="my-1 max-h-80 max-w-full rounded border border-gray-200 dark:border-gray-700"
+              />
+            </a>
+          );
+        }
+
+        // Only attachment images are embedded; anything else becomes a link
+        const href = attachment ? attachment.url : attachmentId ? null : sanitizeUrl(node.src);
+        const label = node.alt || attachment?.original_name || 'image';
+
+        return href ? (
+          <a
+            key={index}
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 underline hover:text-blue-700 dark:text-blue-400"
+          >
+            {label}
+          </a>
+        ) : (
+          <span key={index} className="text-gray-500 dark:text-gray-400">
+            [{label}]
+          </span>
+        );
+      }
+      case 'mention': {
+        const member = context.members.find((m) => m.id === node.userId);
+        const isSelf = node.userId === context.currentUserId;
+
+        return (
+          <span
+            key={index}
+            title={member?.email}
+            className={`rounded px-1 py-0.5 font-medium ${
+              isSelf
+                ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300'
+                : 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
+            }`}
+          >
+            @{member ? getMentionName(member) : node.name}
+          </span>
+        );
+      }
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[], context: RenderContext): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as const;
+        return (
+          <Heading key={index} className={headingClasses[block.level]}>
+            {renderInline(block.children, context)}
+          </Heading>
+        );
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, context)}</p>;
+      case 'code':
+        return (
+          <pre
+            key={index}
+            data-language={block.language ?? undefined}
+            className="overflow-x-auto rounded-lg bg-gray-100 p-3 font-mono text-xs dark:bg-gray-800"
+          >
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote
+            key={index}
+            className="space-y-2 border-l-4 border-gray-200 pl-3 text-gray-500 dark:border-gray-600 dark:text-gray-400"
+          >
+            {renderBlocks(block.children, context)}
+          </blockquote>
+        );
+      case 'hr':
+        return <hr key={index} className="border-gray-200 dark:border-gray-700" />;
+      case 'list': {
+        const isTaskList = block.items.some((item) => item.checked !== null);
+        const items = block.items.map((item) => {
+          // Single-paragraph items render inline, like a tight list
+          const [first, ...rest] = item.children;
+          const body =
+            first?.type === 'paragraph' ? (
+              <>
+                {renderInline(first.children, context)}
+                {rest.length > 0 && (
+                  <div className="mt-1 space-y-1">{renderBlocks(rest, context)}</div>
+                )}
+              </>
+            ) : (
+              <div className="space-y-1">{renderBlocks(item.children, context)}</div>
+            );
+
+          if (item.checked === null) {
+            return <li key={item.line}>{body}</li>;
+          }
+
+          return (
+            <li key={item.line} className="flex list-none items-start gap-2">
+              <input
+                type="checkbox"
+                checked={item.checked}
+                disabled={!context.onToggleTask}
+                onChange={(e) => context.onToggleTask?.(item.line, e.target.checked)}
+                aria-label={item.checked ? 'Mark as not done' : 'Mark as done'}
+                className="mt-0.5 h-4 w-4 shrink-0 rounded border-gray-300 text-blue-600 disabled:opacity-70 dark:border-gray-600"
+              />
+              <div className={`min-w-0 ${item.checked ? 'text-gray-400 line-through' : ''}`}>
+                {body}
+              </div>
+            </li>
+          );
+        });
+
+        const listClass = `space-y-1 ${isTaskList ? 'pl-1' : 'pl-5'}`;
+        return block.ordered ? (
+          <ol key={index} start={block.start} className={`list-decimal ${listClass}`}>
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className={`list-disc ${listClass}`}>
+            {items}
+          </ul>
+        );
+      }
+    }
+  });
+}
+
+/**
+ * Rendered Markdown for task descriptions and comments
+ * Built from the parsed tree as React elements, so user content is never injected as HTML
+ */
+function MarkdownContent({
+  content,
+  members = [],
+  currentUserId,
+  attachments = [],
+  onToggleTask,
+  className = '',
+}: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className={`space-y-2 break-words text-sm text-gray-700 dark:text-gray-300 ${className}`}>
+      {renderBlocks(blocks, { members, currentUserId, attachments, onToggleTask })}
+    </div>
+  );
+}
+
+export default memo(MarkdownContent);
@@ -0,0 +1,293 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  Bold,
+  Italic,
+  Strikethrough,
+  Code,
+  Link,
+  Heading,
+  TextQuote,
+  List,
+  ListOrdered,
+  ListChecks,
+  SquareCode,
+  ImagePlus,
+  type LucideIcon,
+} from 'lucide-react';
+import type { Attachment, Profile } from '@/types/board';
+import {
+  applyMarkdownFormat,
+  formatAttachmentImage,
+  insertMarkdown,
+  isEmbeddableImage,
+  toggleTaskListItem,
+  type MarkdownEdit,
+  type MarkdownFormat,
+} from '@/lib/markdown';
+import MentionTextarea from './MentionTextarea';
+import MarkdownContent from './MarkdownContent';
+
+type MentionProfile = Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'>;
+
+type EditorMode = 'write' | 'preview';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  maxLength?: number;
+  rows?: number;
+  disabled?: boolean;
+  /** Enables @mention autocomplete; also used for mention chips in the preview */
+  members?: MentionProfile[];
+  currentUserId?: string | null;
+  /** Task attachments offered by the image button and resolved in the preview */
+  attachments?: Attachment[];
+  /** Enter submits, Shift+Enter inserts a newline */
+  onSubmit?: () => void;
+  /** Called after a task-list checkbox is toggled in the preview, with the new value */
+  onTaskListToggle?: (value: string) => void;
+  defaultMode?: EditorMode;
+  'aria-label'?: string;
+}
+
+const toolbarActions: { format: MarkdownFormat; label: string; icon: LucideIcon }[] = [
+  { format: 'bold', label: 'Bold (Ctrl+B)', icon: Bold },
+  { format: 'italic', label: 'Italic (Ctrl+I)', icon: Italic },
+  { format: 'strikethrough', label: 'Strikethrough', icon: Strikethrough },
+  { format: 'heading', label: 'Heading', icon: Heading },
+  { format: 'code', label: 'Inline code', icon: Code },
+  { format: 'codeBlock', label: 'Code block', icon: SquareCode },
+  { format: 'link', label: 'Link (Ctrl+K)', icon: Link },
+  { format: 'quote', label: 'Quote', icon: TextQuote },
+  { format: 'bulletList', label: 'Bulleted list', icon: List },
+  { format: 'numberedList', label: 'Numbered list', icon: ListOrdered },
+  { format: 'taskList', label: 'Task list', icon: ListChecks },
+];
+
+const shortcutFormats: Record<string, MarkdownFormat> = {
+  b: 'bold',
+  i: 'italic',
+  k: 'link',
+};
+
+/**
+ * Markdown editor with a formatting toolbar and a Write/Preview toggle
+ */
+export default function MarkdownEditor({
+  value,
+  onChange,
+  placeholder,
+  maxLength,
+  rows = 4,
+  disabled,
+  members,
+  currentUserId,
+  attachments = [],
+  onSubmit,
+  onTaskListToggle,
+  defaultMode = 'write',
+  'aria-label': ariaLabel,
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingSelectionRef = useRef<MarkdownEdit | null>(null);
+  const [mode, setMode] = useState<EditorMode>(defaultMode);
+  const [showImagePicker, setShowImagePicker] = useState(false);
+
+  const images = attachments.filter(
+    (attachment) => attachment.url && isEmbeddableImage(attachment)
+  );
+
+  // Restore the selection after a toolbar edit updates the controlled value
+  useEffect(() => {
+    const edit = pendingSelectionRef.current;
+    if (edit && textareaRef.current) {
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      pendingSelectionRef.current = null;
+    }
+  }, [value]);
+
+  const applyEdit = (edit: MarkdownEdit) => {
+    if (maxLength !== undefined && edit.text.length > maxLength) return;
+    pendingSelectionRef.current = edit;
+    onChange(edit.text);
+  };
+
+  const applyFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea || disabled) return;
+    applyEdit(applyMarkdownFormat(value, textarea.selectionStart, textarea.selectionEnd, format));
+  };
+
+  const insertImage = (attachment: Attachment) => {
+    const textarea = textareaRef.current;
+    setShowImagePicker(false);
+    if (!textarea) return;
+    applyEdit(
+      insertMarkdown(
+        value,
+        textarea.selectionStart,
+        textarea.selectionEnd,
+        formatAttachmentImage(attachment)
+      )
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const format = shortcutFormats[e.key.toLowerCase()];
+    if (format && (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && mode === 'write') {
+      e.preventDefault();
+      applyFormat(format);
+    }
+  };
+
+  const handleToggleTask = (line: number, checked: boolean) => {
+    const next = toggleTaskListItem(value, line, checked);
+    onChange(next);
+    onTaskListToggle?.(next);
+  };
+
+  const textareaClassName =
+    'w-full resize-y border-0 bg-transparent px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-0 dark:text-white';
+
+  const tabClassName = (tab: EditorMode) =>
+    `rounded px-2 py-1 text-xs font-medium transition-colors ${
+      mode === tab
+        ? 'bg-gray-100 text-gray-900 dark:bg-gray-700 dark:text-white'
+        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+    }`;
+
+  return (
+    <div
+      onKeyDown={handleKeyDown}
+      className="rounded-lg border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-1 border-b border-gray-200 px-2 py-1 dark:border-gray-600">
+        <div role="tablist" aria-label="Editor mode" className="flex gap-1">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'write'}
+            onClick={() => setMode('write')}
+            className={tabClassName('write')}
+          >
+            Write
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'preview'}
+            onClick={() => {
+              setMode('preview');
+              setShowImagePicker(false);
+            }}
+            className={tabClassName('preview')}
+          >
+            Preview
+          </button>
+        </div>
+
+        {mode === 'write' && (
+          <div role="toolbar" aria-label="Formatting" className="relative flex flex-wrap gap-0.5">
+            {toolbarActions.map(({ format, label, icon: Icon }) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => applyFormat(format)}
+                disabled={disabled}
+                title={label}
+                aria-label={label}
+                className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50 dark:text-gray-400 dark:hover:bg-gray-600 dark:hover:text-gray-200"
+              >
+                <Icon className="h-3.5 w-3.5" />
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setShowImagePicker((open) => !open)}
+              disabled={disabled || images.length === 0}
+              title={images.length > 0 ? 'Insert image' : 'Attach an image to this task first'}
+              aria-label="Insert image"
+              aria-expanded={showImagePicker}
+              className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50 dark:text-gray-400 dark:hover:bg-gray-600 dark:hover:text-gray-200"
+            >
+              <ImagePlus className="h-3.5 w-3.5" />
+            </button>
+
+            {showImagePicker && (
+              <ul
+                aria-label="Image attachments"
+                className="absolute right-0 top-full z-10 mt-1 max-h-60 w-56 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+              >
+                {images.map((attachment) => (
+                  <li key={attachment.id}>
+                    <button
+                      type="button"
+                      onClick={() => insertImage(attachment)}
+                      className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-gray-700 hover:bg-gray-50 dark:text-gray-300 dark:hover:bg-gray-700"
+                    >
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={attachment.url}
+                        alt=""
+                        className="h-6 w-6 shrink-0 rounded object-cover"
+                      />
+                      <span className="truncate">{attachment.original_name}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      {mode === 'write' ? (
+        members ? (
+          <MentionTextarea
+            textareaRef={textareaRef}
+            value={value}
+            onChange={onChange}
+            members={members}
+            onSubmit={onSubmit}
+            placeholder={placeholder}
+            disabled={disabled}
+            rows={rows}
+            maxLength={maxLength}
+            aria-label={ariaLabel}
+            className={textareaClassName}
+          />
+        ) : (
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            disabled={disabled}
+            rows={rows}
+            maxLength={maxLength}
+            aria-label={ariaLabel}
+            className={textareaClassName}
+          />
+        )
+      ) : (
+        <div className="min-h-[4rem] px-3 py-2">
+          {value.trim() ? (
+            <MarkdownContent
+              content={value}
+              members={members}
+              currentUserId={currentUserId}
+              attachments={attachments}
+              onToggleTask={disabled ? undefined : handleToggleTask}
+            />
+          ) : (
+            <p className="text-sm text-gray-400">Nothing to preview</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import type { Profile } from '@/types/board';
+import {
+  filterMentionCandidates,
+  getMentionName,
+  getMentionQuery,
+  insertMention,
+  type MentionQuery,
+} from '@/lib/comments';
+import { UserAvatar } from './AssigneeAvatars';
+
+type MentionProfile = Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'>;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Board members offered in the @ autocomplete */
+  members: MentionProfile[];
+  /** Enter submits, Shift+Enter inserts a newline */
+  onSubmit?: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  rows?: number;
+  maxLength?: number;
+  className?: string;
+  'aria-label'?: string;
+  /** For callers that edit the selection themselves, e.g. a formatting toolbar */
+  textareaRef?: React.RefObject<HTMLTextAreaElement | null>;
+}
+
+/**
+ * Textarea with @mention autocomplete over board members
+ * Picking a member inserts a mention token, see src/lib/comments/mentions.ts
+ */
+export default function MentionTextarea({
+  value,
+  onChange,
+  members,
+  onSubmit,
+  placeholder,
+  disabled,
+  rows = 1,
+  maxLength,
+  className = '',
+  'aria-label': ariaLabel,
+  textareaRef: externalRef,
+}: MentionTextareaProps) {
+  const ownRef = useRef<HTMLTextAreaElement>(null);
+  const textareaRef = externalRef ?? ownRef;
+  const pendingCaretRef = useRef<number | null>(null);
+  const listboxId = useId();
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const candidates = useMemo(
+    () => (mention ? filterMentionCandidates(members, mention.query) : []),
+    [members, mention]
+  );
+  const isOpen = candidates.length > 0;
+
+  // Restore the caret after a mention is inserted into the controlled value
+  useEffect(() => {
+    const caret = pendingCaretRef.current;
+    if (caret !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(caret, caret);
+      pendingCaretRef.current = null;
+    }
+  }, [value, textareaRef]);
+
+  const updateMention = (text: string, caret: number) => {
+    const next = getMentionQuery(text, caret);
+    setMention(next);
+    if (next?.start !== mention?.start) setActiveIndex(0);
+  };
+
+  const selectCandidate = (profile: MentionProfile) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const result = insertMention(value, mention.start, textarea.selectionStart, profile);
+    pendingCaretRef.current = result.caret;
+    setMention(null);
+    onChange(result.text);
+    textarea.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((index) => (index + step + candidates.length) % candidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectCandidate(candidates[Math.min(activeIndex, candidates.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onSelect={(e) => updateMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        placeholder={placeholder}
+        disabled={disabled}
+        rows={rows}
+        maxLength={maxLength}
+        role="combobox"
+        aria-label={ariaLabel}
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? listboxId : undefined}
+        aria-activedescendant={isOpen ? `${listboxId}-${activeIndex}` : undefined}
+        className={`w-full resize-none ${className}`}
+      />
+
+      {isOpen && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label="Mention a board member"
+          className="absolute bottom-full left-0 z-10 mb-1 max-h-60 w-64 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+        >
+          {candidates.map((profile, index) => (
+            <li
+              key={profile.id}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the textarea so the caret position survives
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectCandidate(profile)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm ${
+                index === activeIndex
+                  ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <UserAvatar profile={profile} />
+              <span className="truncate font-medium">{getMentionName(profile)}</span>
+              <span className="truncate text-xs text-gray-500 dark:text-gray-400">
+                {profile.email}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
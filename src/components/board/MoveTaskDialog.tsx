@@ -0,0 +1,123 @@
+'use client';
+
+import { useId, useRef } from 'react';
+import { Check, X } from 'lucide-react';
+import type { StatusWithTasks, Task } from '@/types/board';
+import WipLimitBadge from './WipLimitBadge';
+
+interface MoveTaskDialogProps {
+  task: Task;
+  statuses: StatusWithTasks[];
+  onMove: (statusId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Status picker for moving a task without dragging it
+ * Arrow keys move between columns, number keys pick one directly
+ */
+export default function MoveTaskDialog({ task, statuses, onMove, onClose }: MoveTaskDialogProps) {
+  const titleId = useId();
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const getOptions = () =>
+    Array.from(listRef.current?.querySelectorAll<HTMLButtonElement>('button') ?? []);
+
+  // Start on the column after the task's own, the usual next step
+  const currentIndex = statuses.findIndex((status) => status.id === task.status_id);
+  const initialIndex = currentIndex + 1 < statuses.length ? currentIndex + 1 : 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const options = getOptions();
+    const index = options.indexOf(document.activeElement as HTMLButtonElement);
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown' || e.key === 'j') {
+      e.preventDefault();
+      options[(index + 1) % options.length]?.focus();
+    } else if (e.key === 'ArrowUp' || e.key === 'k') {
+      e.preventDefault();
+      options[(index - 1 + options.length) % options.length]?.focus();
+    } else if (/^[1-9]$/.test(e.key)) {
+      const status = statuses[Number(e.key) - 1];
+      if (status) {
+        e.preventDefault();
+        onMove(status.id);
+      }
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        onKeyDown={handleKeyDown}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-sm"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <div className="min-w-0">
+            <h2 id={titleId} className="text-base font-semibold text-gray-900 dark:text-white">
+              Move task
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{task.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" aria-hidden="true" />
+          </button>
+        </div>
+
+        <ul ref={listRef} className="p-2 space-y-1" aria-label="Columns">
+          {statuses.map((status, index) => {
+            const isCurrent = status.id === task.status_id;
+
+            return (
+              <li key={status.id}>
+                <button
+                  type="button"
+                  autoFocus={index === initialIndex}
+                  onClick={() => (isCurrent ? onClose() : onMove(status.id))}
+                  aria-current={isCurrent || undefined}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {index < 9 && (
+                    <kbd className="w-5 text-center text-xs font-mono text-gray-400">
+                      {index + 1}
+                    </kbd>
+                  )}
+                  <span
+                    className="h-3 w-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: status.color }}
+                    aria-hidden="true"
+                  />
+                  <span className="flex-1 truncate">{status.name}</span>
+                  {isCurrent ? (
+                    <Check className="h-4 w-4 text-blue-600" aria-label="Current column" />
+                  ) : (
+                    <WipLimitBadge
+                      count={status.tasks.length}
+                      limit={status.wip_limit}
+                      mode={status.wip_limit_mode}
+                      baseClassName="bg-gray-100 dark:bg-gray-700"
+                      className="text-gray-600 dark:text-gray-300"
+                    />
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useDroppable } from '@dnd-kit/core';
 import { Plus, MoreVertical, Edit2, Trash2 } from 'lucide-react';
 import { Status, Task } from '@/types/board';
 import BoardTaskCard from './BoardTaskCard';
+import WipLimitBadge from './WipLimitBadge';
 
 interface OptimizedBoardColumnProps {
   status: Status;
@@ -128,9 +129,13 @@ const OptimizedBoardColumn = memo<OptimizedBoardColumnProps>(
         <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
           <div className="flex items-center gap-2 flex-1">
             <h3 className={`font-semibold ${headerColorClasses}`}>{status.name}</h3>
-            <span className="text-sm text-gray-500 dark:text-gray-400 bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded-full">
-              {tasks.length}
-            </span>
+            <WipLimitBadge
+              count={tasks.length}
+              limit={status.wip_limit}
+              mode={status.wip_limit_mode}
+              baseClassName="bg-gray-200 dark:bg-gray-700"
+              className="text-gray-500 dark:text-gray-400"
+            />
           </div>
           {canEdit && (
             <div className="flex items-center gap-1">
@@ -194,6 +199,8 @@ const OptimizedBoardColumn = memo<OptimizedBoardColumnProps>(
       prevProps.status.id === nextProps.status.id &&
       prevProps.status.name === nextProps.status.name &&
       prevProps.status.color === nextProps.status.color &&
+      prevProps.status.wip_limit === nextProps.status.wip_limit &&
+      prevProps.status.wip_limit_mode === nextProps.status.wip_limit_mode &&
       prevProps.tasks.length === nextProps.tasks.length &&
       prevProps.canEdit === nextProps.canEdit &&
       prevProps.isDragging === nextProps.isDragging &&
@@ -204,7 +211,9 @@ const OptimizedBoardColumn = memo<OptimizedBoardColumnProps>(
           task.id === nextTask.id &&
           task.title === nextTask.title &&
           task.priority === nextTask.priority &&
-          task.assignee_name === nextTask.assignee_name
+          task.assignee_name === nextTask.assignee_name &&
+          task.assignees === nextTask.assignees &&
+          task.checklist_items === nextTask.checklist_items
         );
       })
     );
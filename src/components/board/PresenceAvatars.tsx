@@ -0,0 +1,45 @@
+'use client';
+
+import { memo } from 'react';
+import type { BoardPresenceMember } from '@/types/board';
+import { UserAvatar, getProfileName } from './AssigneeAvatars';
+
+interface PresenceAvatarsProps {
+  members: BoardPresenceMember[];
+  /** Prefix for the accessible label, e.g. "Viewing this board" */
+  label: string;
+  /** Maximum avatars shown before collapsing into a "+N" bubble */
+  max?: number;
+}
+
+function PresenceAvatars({ members, label, max = 5 }: PresenceAvatarsProps) {
+  if (members.length === 0) return null;
+
+  const visible = members.slice(0, max);
+  const extra = members.slice(max);
+  const names = members.map((member) => getProfileName(member.profile));
+
+  return (
+    <div className="flex -space-x-2" role="group" aria-label={`${label}: ${names.join(', ')}`}>
+      {visible.map((member) => (
+        <div key={member.user_id} className="relative">
+          <UserAvatar profile={member.profile} />
+          <span
+            className="absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full bg-green-500 ring-2 ring-white dark:ring-gray-800"
+            aria-hidden="true"
+          />
+        </div>
+      ))}
+      {extra.length > 0 && (
+        <div
+          className="w-6 h-6 text-xs rounded-full flex items-center justify-center font-medium bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 ring-2 ring-white dark:ring-gray-800"
+          title={extra.map((member) => getProfileName(member.profile)).join(', ')}
+        >
+          +{extra.length}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(PresenceAvatars);
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import { Repeat } from 'lucide-react';
+import {
+  WEEKDAYS,
+  describeRecurrence,
+  formatRecurrenceRule,
+  getPresetRule,
+  getRecurrencePreset,
+  parseRecurrenceRule,
+  type RecurrencePreset,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/lib/tasks';
+
+const presetOptions: { value: RecurrencePreset; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Every weekday (Mon–Fri)' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom (RRULE)…' },
+];
+
+const intervalUnits: Partial<Record<RecurrencePreset, string>> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+const weekdayLabels: Record<Weekday, string> = {
+  MO: 'M',
+  TU: 'T',
+  WE: 'W',
+  TH: 'T',
+  FR: 'F',
+  SA: 'S',
+  SU: 'S',
+};
+
+const weekdayNames: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+interface RecurrenceFieldProps {
+  /** RRULE string, or null for a one-off task */
+  value: string | null;
+  onChange: (value: string | null) => void;
+  /** Due date (YYYY-MM-DD) that weekly and monthly presets follow */
+  dueDate?: string;
+  id?: string;
+}
+
+/**
+ * Repeat settings for a task: common presets, or any supported RRULE
+ * Custom text is passed up as typed; use parseRecurrenceRule to check it before saving
+ */
+export default function RecurrenceField({ value, onChange, dueDate, id }: RecurrenceFieldProps) {
+  const [preset, setPreset] = useState<RecurrencePreset>(() => getRecurrencePreset(value));
+
+  const parsed = value ? parseRecurrenceRule(value) : null;
+  const rule = parsed?.success ? parsed.rule : null;
+
+  const emit = (next: RecurrenceRule) => onChange(formatRecurrenceRule(next));
+
+  const handlePresetChange = (next: RecurrencePreset) => {
+    setPreset(next);
+    if (next === 'none') onChange(null);
+    else if (next === 'custom')
+      onChange(value ?? formatRecurrenceRule(getPresetRule('weekly', dueDate)));
+    else emit(getPresetRule(next, dueDate));
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    if (!rule) return;
+    const selected = (rule.byDay || []).map((entry) => entry.day);
+    const next = selected.includes(day) ? selected.filter((d) => d !== day) : [...selected, day];
+    // A weekly rule needs at least one day
+    if (next.length === 0) return;
+    emit({
+      ...rule,
+      byDay: WEEKDAYS.filter((d) => next.includes(d)).map((d) => ({ day: d })),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+          <Repeat className="h-4 w-4 text-gray-500" aria-hidden="true" />
+        </div>
+        <select
+          id={id}
+          value={preset}
+          onChange={(e) => handlePresetChange(e.target.value as RecurrencePreset)}
+          aria-label="Repeat"
+          className={`flex-1 ${inputClass}`}
+        >
+          {presetOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {rule && intervalUnits[preset] && (
+        <label className="ml-11 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          Every
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={rule.interval}
+            onChange={(e) => {
+              const interval = Math.min(365, Math.max(1, Math.floor(Number(e.target.value)) || 1));
+              emit({ ...rule, interval });
+            }}
+            aria-label="Repeat interval"
+            className={`w-20 ${inputClass} py-1`}
+          />
+          {intervalUnits[preset]}
+        </label>
+      )}
+
+      {rule && preset === 'weekly' && (
+        <div className="ml-11 flex gap-1" role="group" aria-label="Repeat on">
+          {WEEKDAYS.map((day) => {
+            const selected = rule.byDay?.some((entry) => entry.day === day) ?? false;
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                aria-pressed={selected}
+                aria-label={weekdayNames[day]}
+                className={`w-8 h-8 rounded-full text-xs font-medium transition-colors ${
+                  selected
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {weekdayLabels[day]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {preset === 'custom' && (
+        <input
+          type="text"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+          maxLength={200}
+          aria-label="Recurrence rule"
+          aria-invalid={parsed ? !parsed.success : undefined}
+          className={`ml-11 w-[calc(100%-2.75rem)] font-mono text-sm ${inputClass}`}
+        />
+      )}
+
+      {parsed && (
+        <p
+          className={`ml-11 text-xs ${
+            parsed.success ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'
+          }`}
+          aria-live="polite"
+        >
+          {parsed.success
+            ? `${describeRecurrence(parsed.rule)}. Finishing this task creates the next one.`
+            : parsed.error}
+        </p>
+      )}
+    </div>
+  );
+}
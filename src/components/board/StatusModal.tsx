@@ -2,12 +2,19 @@
 
 import { useState, useEffect } from 'react';
 import { X, Loader2 } from 'lucide-react';
-import { Status } from '@/types/board';
+import { Status, WipLimitMode } from '@/types/board';
+
+export interface StatusFormData {
+  name: string;
+  color: string;
+  wip_limit: number | null;
+  wip_limit_mode: WipLimitMode;
+}
 
 interface StatusModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: { name: string; color: string }) => Promise<void>;
+  onSubmit: (data: StatusFormData) => Promise<void>;
   status?: Status | null;
 }
 
@@ -35,6 +42,8 @@ const colorPresets = [
 export default function StatusModal({ isOpen, onClose, onSubmit, status }: StatusModalProps) {
   const [name, setName] = useState('');
   const [color, setColor] = useState('#6366F1');
+  const [wipLimit, setWipLimit] = useState('');
+  const [wipLimitMode, setWipLimitMode] = useState<WipLimitMode>('soft');
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -42,9 +51,13 @@ export default function StatusModal({ isOpen, onClose, onSubmit, status }: Statu
       if (status) {
         setName(status.name);
         setColor(status.color);
+        setWipLimit(status.wip_limit ? String(status.wip_limit) : '');
+        setWipLimitMode(status.wip_limit_mode || 'soft');
       } else {
         setName('');
         setColor('#6366F1');
+        setWipLimit('');
+        setWipLimitMode('soft');
       }
     }
   }, [isOpen, status]);
@@ -55,7 +68,13 @@ export default function StatusModal({ isOpen, onClose, onSubmit, status }: Statu
 
     setLoading(true);
     try {
-      await onSubmit({ name: name.trim(), color });
+      const parsedLimit = parseInt(wipLimit, 10);
+      await onSubmit({
+        name: name.trim(),
+        color,
+        wip_limit: parsedLimit > 0 ? parsedLimit : null,
+        wip_limit_mode: wipLimitMode,
+      });
     } finally {
       setLoading(false);
     }
@@ -129,6 +148,40 @@ export default function StatusModal({ isOpen, onClose, onSubmit, status }: Statu
             </div>
           </div>
 
+          <div>
+            <label
+              htmlFor="status-wip-limit"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              WIP limit
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="status-wip-limit"
+                type="number"
+                min={1}
+                max={999}
+                value={wipLimit}
+                onChange={(e) => setWipLimit(e.target.value)}
+                placeholder="No limit"
+                className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={wipLimitMode}
+                onChange={(e) => setWipLimitMode(e.target.value as WipLimitMode)}
+                disabled={!wipLimit}
+                aria-label="When the limit is exceeded"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+              >
+                <option value="soft">Warn when exceeded</option>
+                <option value="hard">Block new tasks</option>
+              </select>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Maximum number of tasks in this column. Leave empty for no limit.
+            </p>
+          </div>
+
           {/* Preview */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -0,0 +1,130 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { Bell, BellOff, Check, Eye, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { SubscriptionLevel } from '@/types/board';
+
+const levelOptions: {
+  level: SubscriptionLevel | null;
+  label: string;
+  description: string;
+}[] = [
+  {
+    level: null,
+    label: 'Default',
+    description: 'Assignments, mentions and your own tasks',
+  },
+  { level: 'watch', label: 'Watch', description: 'All comments, moves and updates' },
+  { level: 'mute', label: 'Mute', description: 'No notifications at all' },
+];
+
+const levelIcons = { watch: Eye, mute: BellOff } as const;
+
+interface SubscriptionMenuProps {
+  /** What the level applies to, for labels */
+  scope: 'board' | 'task';
+  level: SubscriptionLevel | null;
+  /** Level that applies while none is set, e.g. the board level for a task */
+  inheritedLevel?: SubscriptionLevel | null;
+  isLoading?: boolean;
+  onChange: (level: SubscriptionLevel | null) => Promise<unknown>;
+}
+
+/**
+ * Watch/mute dropdown for a board or a task
+ */
+export default function SubscriptionMenu({
+  scope,
+  level,
+  inheritedLevel = null,
+  isLoading = false,
+  onChange,
+}: SubscriptionMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const menuId = useId();
+
+  const effective = level ?? inheritedLevel;
+  const Icon = effective ? levelIcons[effective] : Bell;
+  const buttonLabel =
+    effective === 'watch' ? 'Watching' : effective === 'mute' ? 'Muted' : 'Notify';
+
+  const handleSelect = async (next: SubscriptionLevel | null) => {
+    setOpen(false);
+    if (next === level) return;
+
+    setSaving(true);
+    try {
+      await onChange(next);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update notifications');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={isLoading || saving}
+        className={`flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium hover:bg-gray-100 disabled:opacity-60 dark:hover:bg-gray-700 ${
+          effective === 'watch'
+            ? 'text-blue-600 dark:text-blue-400'
+            : 'text-gray-700 dark:text-gray-300'
+        }`}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-controls={open ? menuId : undefined}
+        aria-label={`${scope === 'board' ? 'Board' : 'Task'} notifications: ${buttonLabel}`}
+      >
+        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Icon className="h-4 w-4" />}
+        <span className="hidden sm:inline">{buttonLabel}</span>
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} aria-hidden="true" />
+          <div
+            id={menuId}
+            role="menu"
+            aria-label={`${scope === 'board' ? 'Board' : 'Task'} notifications`}
+            className="absolute right-0 top-full z-20 mt-1 w-64 rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+          >
+            {levelOptions.map((option) => {
+              const selected = option.level === level;
+              const inherited = option.level === null && scope === 'task' && inheritedLevel;
+              return (
+                <button
+                  key={option.label}
+                  type="button"
+                  role="menuitemradio"
+                  aria-checked={selected}
+                  onClick={() => handleSelect(option.level)}
+                  className="flex w-full items-start gap-2 px-3 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <Check
+                    className={`mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600 ${selected ? '' : 'invisible'}`}
+                    aria-hidden="true"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900 dark:text-white">
+                      {inherited
+                        ? `Board setting (${inheritedLevel === 'watch' ? 'watching' : 'muted'})`
+                        : option.label}
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {inherited ? 'Follow the board setting' : option.description}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useRef } from 'react';
 import {
   Paperclip,
   Upload,
@@ -14,19 +14,7 @@ import {
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import ConfirmDialog from '@/components/ConfirmDialog';
-import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
-
-interface Attachment {
-  id: string;
-  task_id: string;
-  user_id: string;
-  filename: string;
-  file_size: number;
-  mime_type: string;
-  storage_path: string;
-  created_at: string;
-  url?: string;
-}
+import { useAttachments, useUploadAttachment, useDeleteAttachment } from '@/hooks/api';
 
 interface TaskAttachmentsProps {
   boardId: string;
@@ -40,38 +28,17 @@ interface UploadProgress {
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 export default function TaskAttachments({ boardId, taskId }: TaskAttachmentsProps) {
-  const [attachments, setAttachments] = useState<Attachment[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Kept live by the board's realtime subscription
+  const { data: attachments = [], isLoading: loading } = useAttachments(boardId, taskId);
+  const uploadAttachment = useUploadAttachment(boardId, taskId);
+  const deleteAttachment = useDeleteAttachment(boardId, taskId);
   const [uploading, setUploading] = useState(false);
-  const [deleting, setDeleting] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<{ id: string; filename: string } | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dragCounter = useRef(0);
-
-  useEffect(() => {
-    fetchAttachments();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [taskId]);
-
-  const fetchAttachments = async () => {
-    try {
-      setLoading(true);
-      const response = await fetch(`/api/boards/${boardId}/tasks/${taskId}/attachments`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch attachments');
-      }
-
-      setAttachments(data.attachments || []);
-    } catch (error) {
-      console.error('Error fetching attachments:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const deleting = deleteAttachment.isPending;
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -112,24 +79,8 @@ export default function TaskAttachments({ boardId, taskId }: TaskAttachmentsProp
         // Simulate progress (since we can't track actual upload progress with fetch)
         setUploadProgress((prev) => ({ ...prev, [file.name]: 30 }));
 
-        const formData = new FormData();
-        formData.append('file', file);
-
-        const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}/attachments`, {
-          method: 'POST',
-          body: formData,
-        });
-
-        setUploadProgress((prev) => ({ ...prev, [file.name]: 70 }));
-
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new Error(data.error || 'Failed to upload file');
-        }
-
+        await uploadAttachment.mutateAsync(file);
         setUploadProgress((prev) => ({ ...prev, [file.name]: 100 }));
-        setAttachments((prev) => [...prev, data.attachment]);
 
         // Remove progress after success
         setTimeout(() => {
@@ -200,28 +151,13 @@ export default function TaskAttachments({ boardId, taskId }: TaskAttachmentsProp
   const handleDeleteConfirm = async () => {
     if (!deleteTarget) return;
 
-    setDeleting(true);
     try {
-      const response = await fetchWithCsrf(
-        `/api/boards/${boardId}/tasks/${taskId}/attachments?attachmentId=${deleteTarget.id}`,
-        {
-          method: 'DELETE',
-        }
-      );
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete attachment');
-      }
-
-      setAttachments((prev) => prev.filter((a) => a.id !== deleteTarget.id));
+      await deleteAttachment.mutateAsync(deleteTarget.id);
       toast.success('File deleted');
       setDeleteTarget(null);
     } catch (error) {
       console.error('Error deleting attachment:', error);
       toast.error('Failed to delete file');
-    } finally {
-      setDeleting(false);
     }
   };
 
@@ -0,0 +1,271 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckSquare, Loader2, Plus, Trash2, CornerDownRight, Calendar } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { BoardMember, ChecklistItem } from '@/types/board';
+import { UserAvatar } from './AssigneeAvatars';
+import {
+  useChecklist,
+  useCreateChecklistItem,
+  useUpdateChecklistItem,
+  useDeleteChecklistItem,
+  type ChecklistItemInput,
+} from '@/hooks/api';
+import { getChecklistProgress } from '@/lib/tasks';
+
+interface TaskChecklistProps {
+  boardId: string;
+  taskId: string;
+  members: BoardMember[];
+}
+
+interface ChecklistRowProps {
+  item: ChecklistItem;
+  members: BoardMember[];
+  isNested?: boolean;
+  onToggle: (item: ChecklistItem) => void;
+  onUpdate: (itemId: string, updates: ChecklistItemInput) => void;
+  onDelete: (itemId: string) => void;
+  onAddSubItem?: (parentId: string) => void;
+}
+
+function ChecklistRow({
+  item,
+  members,
+  isNested = false,
+  onToggle,
+  onUpdate,
+  onDelete,
+  onAddSubItem,
+}: ChecklistRowProps) {
+  const assignee = members.find((m) => m.user_id === item.assignee_id)?.profile;
+
+  return (
+    <div className={`group flex items-center gap-2 py-1 ${isNested ? 'pl-6' : ''}`}>
+      {isNested && <CornerDownRight className="h-3 w-3 text-gray-400 flex-shrink-0" />}
+      <input
+        type="checkbox"
+        checked={item.is_completed}
+        onChange={() => onToggle(item)}
+        aria-label={`Mark "${item.title}" as ${item.is_completed ? 'not done' : 'done'}`}
+        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+      />
+      <span
+        className={`flex-1 text-sm ${
+          item.is_completed
+            ? 'line-through text-gray-400 dark:text-gray-500'
+            : 'text-gray-700 dark:text-gray-300'
+        }`}
+      >
+        {item.title}
+      </span>
+
+      <label className="relative flex items-center" title="Due date">
+        <Calendar
+          className={`h-3.5 w-3.5 ${item.due_date ? 'text-gray-500' : 'text-gray-300 opacity-0 group-hover:opacity-100'}`}
+        />
+        {item.due_date && (
+          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+            {new Date(`${item.due_date}T00:00:00`).toLocaleDateString(undefined, {
+              month: 'short',
+              day: 'numeric',
+            })}
+          </span>
+        )}
+        <input
+          type="date"
+          value={item.due_date || ''}
+          onChange={(e) => onUpdate(item.id, { due_date: e.target.value || null })}
+          aria-label={`Due date for "${item.title}"`}
+          className="absolute inset-0 opacity-0 cursor-pointer"
+        />
+      </label>
+
+      <label className="relative flex items-center" title="Assignee">
+        {assignee ? (
+          <UserAvatar profile={assignee} />
+        ) : (
+          <span className="w-6 h-6 rounded-full border border-dashed border-gray-300 dark:border-gray-600 opacity-0 group-hover:opacity-100" />
+        )}
+        <select
+          value={item.assignee_id || ''}
+          onChange={(e) => onUpdate(item.id, { assignee_id: e.target.value || null })}
+          aria-label={`Assignee for "${item.title}"`}
+          className="absolute inset-0 opacity-0 cursor-pointer"
+        >
+          <option value="">Unassigned</option>
+          {members.map((member) => (
+            <option key={member.user_id} value={member.user_id}>
+              {member.profile?.display_name || member.profile?.email || member.user_id}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {onAddSubItem && (
+        <button
+          type="button"
+          onClick={() => onAddSubItem(item.id)}
+          className="p-1 text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Add sub-item"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => onDelete(item.id)}
+        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Delete item"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
+export default function TaskChecklist({ boardId, taskId, members }: TaskChecklistProps) {
+  const [newItemTitle, setNewItemTitle] = useState('');
+  const [parentId, setParentId] = useState<string | null>(null);
+
+  const { data: items = [], isLoading } = useChecklist(boardId, taskId);
+  const createItem = useCreateChecklistItem(boardId, taskId);
+  const updateItem = useUpdateChecklistItem(boardId, taskId);
+  const deleteItem = useDeleteChecklistItem(boardId, taskId);
+
+  const { completed, total } = getChecklistProgress(items);
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  const topLevelItems = items.filter((item) => !item.parent_id);
+  const parentItem = items.find((item) => item.id === parentId);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItemTitle.trim()) return;
+
+    try {
+      await createItem.mutateAsync({ title: newItemTitle.trim(), parent_id: parentId });
+      setNewItemTitle('');
+    } catch (error) {
+      console.error('Error adding checklist item:', error);
+      toast.error('Failed to add checklist item');
+    }
+  };
+
+  const handleToggle = (item: ChecklistItem) => {
+    updateItem.mutate(
+      { itemId: item.id, updates: { is_completed: !item.is_completed } },
+      { onError: () => toast.error('Failed to update checklist item') }
+    );
+  };
+
+  const handleUpdate = (itemId: string, updates: ChecklistItemInput) => {
+    updateItem.mutate(
+      { itemId, updates },
+      { onError: () => toast.error('Failed to update checklist item') }
+    );
+  };
+
+  const handleDelete = (itemId: string) => {
+    deleteItem.mutate(itemId, {
+      onError: () => toast.error('Failed to delete checklist item'),
+    });
+    if (parentId === itemId) setParentId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+          <CheckSquare className="h-4 w-4 text-gray-500" />
+        </div>
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Checklist {total > 0 && `(${completed}/${total})`}
+        </span>
+      </div>
+
+      {total > 0 && (
+        <div
+          className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-valuenow={percent}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-label="Checklist progress"
+        >
+          <div
+            className={`h-full transition-all ${percent === 100 ? 'bg-green-500' : 'bg-blue-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <div>
+          {topLevelItems.map((item) => (
+            <div key={item.id}>
+              <ChecklistRow
+                item={item}
+                members={members}
+                onToggle={handleToggle}
+                onUpdate={handleUpdate}
+                onDelete={handleDelete}
+                onAddSubItem={setParentId}
+              />
+              {items
+                .filter((child) => child.parent_id === item.id)
+                .map((child) => (
+                  <ChecklistRow
+                    key={child.id}
+                    item={child}
+                    members={members}
+                    isNested
+                    onToggle={handleToggle}
+                    onUpdate={handleUpdate}
+                    onDelete={handleDelete}
+                  />
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-1">
+        {parentItem && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Adding sub-item to &quot;{parentItem.title}&quot;{' '}
+            <button
+              type="button"
+              onClick={() => setParentId(null)}
+              className="text-blue-600 hover:underline"
+            >
+              Cancel
+            </button>
+          </p>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newItemTitle}
+            onChange={(e) => setNewItemTitle(e.target.value)}
+            placeholder={parentItem ? 'Add a sub-item' : 'Add an item'}
+            maxLength={500}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm placeholder-gray-500"
+          />
+          <button
+            type="submit"
+            disabled={createItem.isPending || !newItemTitle.trim()}
+            className="px-3 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            {createItem.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,92 +1,116 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Send, Loader2, Trash2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Send, Loader2, Trash2, Pencil, Reply, History } from 'lucide-react';
 import toast from 'react-hot-toast';
 import ConfirmDialog from '@/components/ConfirmDialog';
-import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  useComments,
+  useAddComment,
+  useUpdateComment,
+  useDeleteComment,
+  useToggleCommentReaction,
+  useBoardMembers,
+  useAttachments,
+} from '@/hooks/api';
+import { buildCommentThreads } from '@/lib/comments';
+import type { Attachment, BoardMemberRole, Comment, Profile } from '@/types/board';
+import MarkdownEditor from './MarkdownEditor';
+import MarkdownContent from './MarkdownContent';
+import CommentReactions from './CommentReactions';
+import CommentHistory from './CommentHistory';
 
-interface Profile {
-  id: string;
-  email: string;
-  display_name: string | null;
-  avatar_url: string | null;
-}
-
-interface Comment {
-  id: string;
-  task_id: string;
-  user_id: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-  profile: Profile;
-}
+type MentionProfile = Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'>;
 
 interface TaskCommentsProps {
   boardId: string;
   taskId: string;
+  /** Current user's role on the board; decides who may edit, delete and react */
+  currentUserRole?: BoardMemberRole;
+  /** Called on each keystroke in the comment box, for typing indicators */
+  onTyping?: () => void;
 }
 
-export default function TaskComments({ boardId, taskId }: TaskCommentsProps) {
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [loading, setLoading] = useState(true);
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diff = now.getTime() - date.getTime();
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(diff / 86400000);
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  if (days < 7) return `${days}d ago`;
+  return date.toLocaleDateString();
+};
+
+export default function TaskComments({
+  boardId,
+  taskId,
+  currentUserRole = 'member',
+  onTyping,
+}: TaskCommentsProps) {
+  // Kept live by the board's realtime subscription
+  const { data: comments = [], isLoading: loading } = useComments(boardId, taskId);
+  const addComment = useAddComment(boardId, taskId);
+  const deleteComment = useDeleteComment(boardId, taskId);
+  const { user } = useAuth();
+  const permissions = usePermissions({ role: currentUserRole });
+  const { data: members } = useBoardMembers(boardId);
+  const { data: attachments = [] } = useAttachments(boardId, taskId);
+  const memberProfiles = useMemo(
+    () => (members || []).flatMap((member) => (member.profile ? [member.profile] : [])),
+    [members]
+  );
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
   const [newComment, setNewComment] = useState('');
-  const [sending, setSending] = useState(false);
-  const [deleting, setDeleting] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
   const [deleteCommentId, setDeleteCommentId] = useState<string | null>(null);
+  const sending = addComment.isPending;
+  const deleting = deleteComment.isPending;
 
-  useEffect(() => {
-    fetchComments();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [taskId]);
-
-  const fetchComments = async () => {
-    try {
-      setLoading(true);
-      const response = await fetch(`/api/boards/${boardId}/tasks/${taskId}/comments`);
-      const data = await response.json();
+  const canDelete = (comment: Comment) =>
+    comment.user_id === user?.id
+      ? permissions.canDeleteOwnComment
+      : permissions.canDeleteAnyComment;
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch comments');
-      }
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!newComment.trim() || sending) return;
 
-      setComments(data.comments || []);
+    try {
+      await addComment.mutateAsync({ content: newComment.trim() });
+      setNewComment('');
     } catch (error) {
-      console.error('Error fetching comments:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error adding comment:', error);
+      toast.error('Failed to add comment');
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newComment.trim()) return;
+  const handleReplySubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!replyTo || !replyText.trim() || sending) return;
 
-    setSending(true);
     try {
-      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}/comments`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ content: newComment.trim() }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to add comment');
-      }
-
-      setComments((prev) => [...prev, data.comment]);
-      setNewComment('');
+      await addComment.mutateAsync({ content: replyText.trim(), parentId: replyTo });
+      setReplyText('');
+      setReplyTo(null);
     } catch (error) {
-      console.error('Error adding comment:', error);
-      toast.error('Failed to add comment');
-    } finally {
-      setSending(false);
+      console.error('Error adding reply:', error);
+      toast.error('Failed to add reply');
     }
   };
 
+  const handleReplyClick = (commentId: string) => {
+    setReplyTo(commentId);
+    setReplyText('');
+  };
+
   const handleDeleteClick = (commentId: string) => {
     setDeleteCommentId(commentId);
   };
@@ -94,45 +118,37 @@ export default function TaskComments({ boardId, taskId }: TaskCommentsProps) {
   const handleDeleteConfirm = async () => {
     if (!deleteCommentId) return;
 
-    setDeleting(true);
     try {
-      const response = await fetchWithCsrf(
-        `/api/boards/${boardId}/tasks/${taskId}/comments?commentId=${deleteCommentId}`,
-        {
-          method: 'DELETE',
-        }
-      );
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete comment');
-      }
-
-      setComments((prev) => prev.filter((c) => c.id !== deleteCommentId));
+      await deleteComment.mutateAsync(deleteCommentId);
       toast.success('Comment deleted');
+      if (replyTo === deleteCommentId) setReplyTo(null);
       setDeleteCommentId(null);
     } catch (error) {
       console.error('Error deleting comment:', error);
       toast.error('Failed to delete comment');
-    } finally {
-      setDeleting(false);
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const minutes = Math.floor(diff / 60000);
-    const hours = Math.floor(diff / 3600000);
-    const days = Math.floor(diff / 86400000);
-
-    if (minutes < 1) return 'just now';
-    if (minutes < 60) return `${minutes}m ago`;
-    if (hours < 24) return `${hours}h ago`;
-    if (days < 7) return `${days}d ago`;
-    return date.toLocaleDateString();
-  };
+  const deletingThread = threads.find(({ comment }) => comment.id === deleteCommentId);
+
+  const renderComment = (comment: Comment, isReply: boolean) => (
+    <CommentItem
+      key={comment.id}
+      comment={comment}
+      boardId={boardId}
+      taskId={taskId}
+      currentUserId={user?.id ?? null}
+      members={memberProfiles}
+      attachments={attachments}
+      isReply={isReply}
+      canReply={permissions.canAddComment}
+      canEdit={comment.user_id === user?.id && permissions.canEditOwnComment}
+      canDelete={canDelete(comment)}
+      canReact={permissions.canAddComment}
+      onReply={() => handleReplyClick(isReply ? comment.parent_id! : comment.id)}
+      onDelete={() => handleDeleteClick(comment.id)}
+    />
+  );
 
   return (
     <div className="space-y-4">
@@ -141,22 +157,39 @@ export default function TaskComments({ boardId, taskId }: TaskCommentsProps) {
       </h3>
 
       {/* Comment Form */}
-      <form onSubmit={handleSubmit} className="flex gap-2">
-        <input
-          type="text"
-          value={newComment}
-          onChange={(e) => setNewComment(e.target.value)}
-          placeholder="Write a comment..."
-          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm placeholder-gray-500"
-        />
-        <button
-          type="submit"
-          disabled={sending || !newComment.trim()}
-          className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg text-sm transition-colors"
-        >
-          {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-        </button>
-      </form>
+      {permissions.canAddComment && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <MarkdownEditor
+            value={newComment}
+            onChange={(value) => {
+              setNewComment(value);
+              onTyping?.();
+            }}
+            onSubmit={handleSubmit}
+            members={memberProfiles}
+            currentUserId={user?.id}
+            attachments={attachments}
+            rows={2}
+            maxLength={5000}
+            placeholder="Write a comment... Type @ to mention someone"
+            aria-label="Write a comment"
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={sending || !newComment.trim()}
+              className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg text-sm transition-colors"
+            >
+              {sending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+              Comment
+            </button>
+          </div>
+        </form>
+      )}
 
       {/* Comments List */}
       {loading ? (
@@ -167,45 +200,56 @@ export default function TaskComments({ boardId, taskId }: TaskCommentsProps) {
         <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No comments yet</p>
       ) : (
         <div className="space-y-3">
-          {comments.map((comment) => (
-            <div key={comment.id} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3">
-              <div className="flex items-start justify-between gap-2">
-                <div className="flex items-center gap-2">
-                  <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-600 flex items-center justify-center flex-shrink-0">
-                    {comment.profile?.avatar_url ? (
-                      // eslint-disable-next-line @next/next/no-img-element
-                      <img
-                        src={comment.profile.avatar_url}
-                        alt=""
-                        className="w-8 h-8 rounded-full object-cover"
+          {threads.map(({ comment, replies }) => (
+            <div key={comment.id} className="space-y-2">
+              {renderComment(comment, false)}
+
+              {(replies.length > 0 || replyTo === comment.id) && (
+                <div className="ml-6 space-y-2 border-l-2 border-gray-200 pl-3 dark:border-gray-600">
+                  {replies.map((reply) => renderComment(reply, true))}
+
+                  {replyTo === comment.id && (
+                    <form onSubmit={handleReplySubmit} className="space-y-2">
+                      <MarkdownEditor
+                        value={replyText}
+                        onChange={(value) => {
+                          setReplyText(value);
+                          onTyping?.();
+                        }}
+                        onSubmit={handleReplySubmit}
+                        members={memberProfiles}
+                        currentUserId={user?.id}
+                        attachments={attachments}
+                        rows={2}
+                        maxLength={5000}
+                        placeholder="Write a reply..."
+                        aria-label="Write a reply"
                       />
-                    ) : (
-                      <span className="text-xs font-medium text-gray-600 dark:text-gray-300">
-                        {(comment.profile?.display_name ||
-                          comment.profile?.email)?.[0]?.toUpperCase() || '?'}
-                      </span>
-                    )}
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium text-gray-900 dark:text-white">
-                      {comment.profile?.display_name || comment.profile?.email || 'Unknown'}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      {formatDate(comment.created_at)}
-                    </p>
-                  </div>
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setReplyTo(null)}
+                          className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="submit"
+                          disabled={sending || !replyText.trim()}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg text-sm transition-colors"
+                        >
+                          {sending ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Send className="h-4 w-4" />
+                          )}
+                          Reply
+                        </button>
+                      </div>
+                    </form>
+                  )}
                 </div>
-                <button
-                  onClick={() => handleDeleteClick(comment.id)}
-                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-                  title="Delete comment"
-                >
-                  <Trash2 className="h-3.5 w-3.5" />
-                </button>
-              </div>
-              <p className="mt-2 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
-                {comment.content}
-              </p>
+              )}
             </div>
           ))}
         </div>
@@ -216,7 +260,11 @@ export default function TaskComments({ boardId, taskId }: TaskCommentsProps) {
         onClose={() => setDeleteCommentId(null)}
         onConfirm={handleDeleteConfirm}
         title="Delete Comment"
-        message="Are you sure you want to delete this comment? This action cannot be undone."
+        message={
+          deletingThread && deletingThread.replies.length > 0
+            ? `Are you sure you want to delete this comment and its ${deletingThread.replies.length} ${deletingThread.replies.length === 1 ? 'reply' : 'replies'}? This action cannot be undone.`
+            : 'Are you sure you want to delete this comment? This action cannot be undone.'
+        }
         confirmText="Delete"
         icon="delete"
         variant="danger"
@@ -225,3 +273,225 @@ export default function TaskComments({ boardId, taskId }: TaskCommentsProps) {
     </div>
   );
 }
+
+interface CommentItemProps {
+  comment: Comment;
+  boardId: string;
+  taskId: string;
+  currentUserId: string | null;
+  members: MentionProfile[];
+  attachments: Attachment[];
+  isReply: boolean;
+  canReply: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  canReact: boolean;
+  onReply: () => void;
+  onDelete: () => void;
+}
+
+function CommentItem({
+  comment,
+  boardId,
+  taskId,
+  currentUserId,
+  members,
+  attachments,
+  isReply,
+  canReply,
+  canEdit,
+  canDelete,
+  canReact,
+  onReply,
+  onDelete,
+}: CommentItemProps) {
+  const updateComment = useUpdateComment(boardId, taskId);
+  const toggleReaction = useToggleCommentReaction(boardId, taskId);
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const saving = updateComment.isPending;
+
+  const startEditing = () => {
+    setEditText(comment.content);
+    setEditing(true);
+  };
+
+  const handleSave = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const content = editText.trim();
+    if (!content || saving) return;
+
+    if (content === comment.content) {
+      setEditing(false);
+      return;
+    }
+
+    try {
+      await updateComment.mutateAsync({ commentId: comment.id, content });
+      setEditing(false);
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      toast.error('Failed to update comment');
+    }
+  };
+
+  const handleToggleReaction = async (emoji: string) => {
+    try {
+      await toggleReaction.mutateAsync({ commentId: comment.id, emoji });
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      toast.error('Failed to update reaction');
+    }
+  };
+
+  const avatarSize = isReply ? 'w-6 h-6' : 'w-8 h-8';
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div
+            className={`${avatarSize} rounded-full bg-gray-200 dark:bg-gray-600 flex items-center justify-center flex-shrink-0`}
+          >
+            {comment.profile?.avatar_url ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={comment.profile.avatar_url}
+                alt=""
+                className={`${avatarSize} rounded-full object-cover`}
+              />
+            ) : (
+              <span className="text-xs font-medium text-gray-600 dark:text-gray-300">
+                {(comment.profile?.display_name || comment.profile?.email)?.[0]?.toUpperCase() ||
+                  '?'}
+              </span>
+            )}
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              {comment.profile?.display_name || comment.profile?.email || 'Unknown'}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {formatDate(comment.created_at)}
+              {comment.edited_at && (
+                <>
+                  {' · '}
+                  <button
+                    type="button"
+                    onClick={() => setShowHistory((open) => !open)}
+                    aria-expanded={showHistory}
+                    title={`Edited ${new Date(comment.edited_at).toLocaleString()}`}
+                    className="hover:underline"
+                  >
+                    edited
+                  </button>
+                </>
+              )}
+            </p>
+          </div>
+        </div>
+        {!editing && (
+          <div className="flex items-center gap-0.5">
+            {canReply && (
+              <button
+                onClick={onReply}
+                className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                title="Reply"
+              >
+                <Reply className="h-3.5 w-3.5" />
+              </button>
+            )}
+            {comment.edited_at && (
+              <button
+                onClick={() => setShowHistory((open) => !open)}
+                className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                title="Edit history"
+              >
+                <History className="h-3.5 w-3.5" />
+              </button>
+            )}
+            {canEdit && (
+              <button
+                onClick={startEditing}
+                className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                title="Edit comment"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={onDelete}
+                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                title="Delete comment"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {editing ? (
+        <form onSubmit={handleSave} className="mt-2 space-y-2">
+          <MarkdownEditor
+            value={editText}
+            onChange={setEditText}
+            onSubmit={handleSave}
+            members={members}
+            currentUserId={currentUserId}
+            attachments={attachments}
+            rows={2}
+            maxLength={5000}
+            aria-label="Edit comment"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !editText.trim()}
+              className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg text-sm transition-colors"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        <MarkdownContent
+          content={comment.content}
+          members={members}
+          currentUserId={currentUserId}
+          attachments={attachments}
+          className="mt-2"
+        />
+      )}
+
+      {showHistory && comment.edited_at && (
+        <div className="mt-2">
+          <CommentHistory
+            boardId={boardId}
+            taskId={taskId}
+            commentId={comment.id}
+            content={comment.content}
+          />
+        </div>
+      )}
+
+      <CommentReactions
+        reactions={comment.reactions || []}
+        currentUserId={currentUserId}
+        members={members}
+        onToggle={canReact ? handleToggleReaction : undefined}
+        disabled={toggleReaction.isPending}
+      />
+    </div>
+  );
+}
@@ -1,12 +1,39 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Trash2, Calendar, Tag, User, Flag, MessageSquare, AlertCircle } from 'lucide-react';
-import { Task, Status } from '@/types/board';
+import {
+  X,
+  Trash2,
+  Calendar,
+  Tag,
+  User,
+  Flag,
+  MessageSquare,
+  AlertCircle,
+  Rows3,
+  Timer,
+} from 'lucide-react';
+import { Task, Status, PresenceActivity, BoardMemberRole, EstimateUnit } from '@/types/board';
+import type { TaskPresence } from '@/lib/presence';
 import TaskComments from './TaskComments';
 import TaskAttachments from './TaskAttachments';
+import TaskChecklist from './TaskChecklist';
+import TaskTimeTracking from './TaskTimeTracking';
+import MarkdownEditor from './MarkdownEditor';
+import { UserAvatar, getProfileName } from './AssigneeAvatars';
+import PresenceAvatars from './PresenceAvatars';
+import SubscriptionMenu from './SubscriptionMenu';
+import RecurrenceField from './RecurrenceField';
 import ConfirmDialog from '@/components/ConfirmDialog';
+import { ESTIMATE_UNITS, isStartAfterDue, parseRecurrenceRule } from '@/lib/tasks';
 import { useFormValidation, createValidationRules } from '@/hooks/useFormValidation';
+import {
+  useAttachments,
+  useBoardMembers,
+  useSetTaskSubscription,
+  useTaskSubscription,
+  type TaskUpdates,
+} from '@/hooks/api';
 
 const validationRules = {
   title: createValidationRules.title(200),
@@ -16,12 +43,22 @@ interface TaskDrawerProps {
   task: Task | null;
   isOpen: boolean;
   onClose: () => void;
-  onUpdate: (taskId: string, updates: Partial<Task>) => Promise<void>;
+  onUpdate: (taskId: string, updates: TaskUpdates) => Promise<void>;
   onDelete: (taskId: string) => void;
   statuses: Status[];
   boardId: string;
+  /** Current user's role on the board, for comment permissions */
+  currentUserRole?: BoardMemberRole;
+  /** Other users with this task open */
+  presence?: TaskPresence;
+  onTyping?: (activity: PresenceActivity) => void;
 }
 
+const typingLabels: Record<PresenceActivity, string> = {
+  description: 'editing the description',
+  comment: 'writing a comment',
+};
+
 const priorityOptions = [
   { value: '', label: 'None', color: 'gray' },
   { value: 'low', label: 'Low', color: 'green' },
@@ -38,22 +75,37 @@ export default function TaskDrawer({
   onDelete,
   statuses,
   boardId,
+  currentUserRole,
+  presence,
+  onTyping,
 }: TaskDrawerProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [statusId, setStatusId] = useState('');
   const [priority, setPriority] = useState('');
   const [dueDate, setDueDate] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [estimate, setEstimate] = useState('');
+  const [estimateUnit, setEstimateUnit] = useState<EstimateUnit>('hours');
+  const [lane, setLane] = useState('');
+  const [recurrence, setRecurrence] = useState<string | null>(null);
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
-  const [assigneeName, setAssigneeName] = useState('');
-  const [assigneeColor, setAssigneeColor] = useState('#6366f1');
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
   const [saving, setSaving] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
   const { getFieldError, handleBlur, validateAllFields, clearErrors, setFieldTouched } =
     useFormValidation<{ title: string }>(validationRules);
 
+  const { data: members = [] } = useBoardMembers(boardId);
+  const { data: attachments = [] } = useAttachments(boardId, task?.id ?? '');
+  const { data: subscription, isLoading: subscriptionLoading } = useTaskSubscription(
+    boardId,
+    task?.id ?? null
+  );
+  const setTaskSubscription = useSetTaskSubscription(boardId, task?.id ?? '');
+
   useEffect(() => {
     if (task) {
       setTitle(task.title);
@@ -61,9 +113,13 @@ export default function TaskDrawer({
       setStatusId(task.status_id);
       setPriority(task.priority || '');
       setDueDate(task.due_date ? task.due_date.split('T')[0] : '');
+      setStartDate(task.start_date ? task.start_date.split('T')[0] : '');
+      setEstimate(task.estimate !== null ? String(task.estimate) : '');
+      setEstimateUnit(task.estimate_unit);
+      setLane(task.lane || '');
+      setRecurrence(task.recurrence_rule);
       setTags(task.tags || []);
-      setAssigneeName(task.assignee_name || '');
-      setAssigneeColor(task.assignee_color || '#6366f1');
+      setAssigneeIds((task.assignees || []).map((a) => a.user_id));
       clearErrors();
     }
   }, [task, clearErrors]);
@@ -72,7 +128,7 @@ export default function TaskDrawer({
     if (!task) return;
 
     const isValid = validateAllFields({ title });
-    if (!isValid) return;
+    if (!isValid || recurrenceInvalid || datesInvalid || estimateInvalid) return;
 
     setSaving(true);
     try {
@@ -81,9 +137,13 @@ export default function TaskDrawer({
         description: description.trim() || null,
         priority: (priority as Task['priority']) || null,
         due_date: dueDate || null,
+        start_date: startDate || null,
+        estimate: estimate ? Number(estimate) : null,
+        estimate_unit: estimateUnit,
+        lane: lane.trim() || null,
+        recurrence_rule: recurrence || null,
         tags,
-        assignee_name: assigneeName.trim() || null,
-        assignee_color: assigneeName.trim() ? assigneeColor : null,
+        assignee_ids: assigneeIds,
       });
     } finally {
       setSaving(false);
@@ -97,6 +157,12 @@ export default function TaskDrawer({
     await onUpdate(task.id, { status_id: newStatusId } as Partial<Task>);
   };
 
+  const handleToggleAssignee = (userId: string) => {
+    setAssigneeIds((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    );
+  };
+
   const handleAddTag = () => {
     if (newTag.trim() && !tags.includes(newTag.trim()) && tags.length < 10) {
       setTags([...tags, newTag.trim()]);
@@ -120,6 +186,10 @@ export default function TaskDrawer({
     }
   };
 
+  const recurrenceInvalid = !!recurrence && !parseRecurrenceRule(recurrence).success;
+  const datesInvalid = isStartAfterDue(startDate, dueDate);
+  const estimateInvalid = !!estimate && !(Number(estimate) > 0 && Number(estimate) <= 10000);
+
   if (!isOpen || !task) return null;
 
   return (
@@ -131,6 +201,13 @@ export default function TaskDrawer({
         <div className="sticky top-0 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4 flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Task Details</h2>
           <div className="flex items-center gap-2">
+            <SubscriptionMenu
+              scope="task"
+              level={subscription?.level ?? null}
+              inheritedLevel={subscription?.board_level ?? null}
+              isLoading={subscriptionLoading}
+              onChange={setTaskSubscription.mutateAsync}
+            />
             <button
               onClick={handleDeleteClick}
               className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
@@ -147,6 +224,23 @@ export default function TaskDrawer({
           </div>
         </div>
 
+        {/* Presence - others with this task open */}
+        {presence && presence.viewers.length > 0 && (
+          <div className="flex items-center gap-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 px-6 py-2">
+            <PresenceAvatars members={presence.viewers} label="Also viewing" />
+            <p className="text-xs text-gray-600 dark:text-gray-400" aria-live="polite">
+              {presence.typing.length > 0
+                ? presence.typing
+                    .map(
+                      ({ member, activity }) =>
+                        `${getProfileName(member.profile)} is ${typingLabels[activity]}…`
+                    )
+                    .join(' ')
+                : 'Also viewing this task'}
+            </p>
+          </div>
+        )}
+
         {/* Content */}
         <div className="p-6 space-y-6">
           {/* Title */}
@@ -216,37 +310,131 @@ export default function TaskDrawer({
             </select>
           </div>
 
-          {/* Due Date */}
+          {/* Start and Due Dates */}
+          <div>
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+                <Calendar className="h-4 w-4 text-gray-500" />
+              </div>
+              <input
+                type="date"
+                value={startDate}
+                max={dueDate || undefined}
+                onChange={(e) => setStartDate(e.target.value)}
+                aria-label="Start date"
+                title="Start date"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <span className="text-gray-400">→</span>
+              <input
+                type="date"
+                value={dueDate}
+                min={startDate || undefined}
+                onChange={(e) => setDueDate(e.target.value)}
+                aria-label="Due date"
+                title="Due date"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+            {datesInvalid && (
+              <p className="mt-1 ml-11 text-sm text-red-600 dark:text-red-400">
+                Start date must be on or before the due date
+              </p>
+            )}
+          </div>
+
+          {/* Estimate */}
           <div className="flex items-center gap-3">
             <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
-              <Calendar className="h-4 w-4 text-gray-500" />
+              <Timer className="h-4 w-4 text-gray-500" />
             </div>
             <input
-              type="date"
-              value={dueDate}
-              onChange={(e) => setDueDate(e.target.value)}
-              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              type="number"
+              value={estimate}
+              onChange={(e) => setEstimate(e.target.value)}
+              min={0}
+              max={10000}
+              step="0.25"
+              placeholder="Estimate"
+              aria-label="Estimate"
+              aria-invalid={estimateInvalid}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             />
+            <select
+              value={estimateUnit}
+              onChange={(e) => setEstimateUnit(e.target.value as EstimateUnit)}
+              aria-label="Estimate unit"
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {ESTIMATE_UNITS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
           </div>
 
-          {/* Assignee */}
+          {/* Recurrence */}
+          <RecurrenceField
+            key={task.id}
+            value={recurrence}
+            onChange={setRecurrence}
+            dueDate={dueDate}
+          />
+
+          {/* Swimlane */}
           <div className="flex items-center gap-3">
             <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
-              <User className="h-4 w-4 text-gray-500" />
+              <Rows3 className="h-4 w-4 text-gray-500" />
             </div>
             <input
               type="text"
-              value={assigneeName}
-              onChange={(e) => setAssigneeName(e.target.value)}
-              placeholder="Assignee name"
+              value={lane}
+              onChange={(e) => setLane(e.target.value)}
+              placeholder="Lane"
+              maxLength={50}
+              aria-label="Lane"
               className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             />
-            <input
-              type="color"
-              value={assigneeColor}
-              onChange={(e) => setAssigneeColor(e.target.value)}
-              className="w-10 h-10 rounded-lg cursor-pointer"
-            />
+          </div>
+
+          {/* Assignees */}
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+                <User className="h-4 w-4 text-gray-500" />
+              </div>
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Assignees ({assigneeIds.length})
+              </span>
+            </div>
+            {members.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No board members to assign</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {members.map((member) => {
+                  if (!member.profile) return null;
+                  const isAssigned = assigneeIds.includes(member.user_id);
+
+                  return (
+                    <button
+                      key={member.user_id}
+                      type="button"
+                      onClick={() => handleToggleAssignee(member.user_id)}
+                      aria-pressed={isAssigned}
+                      className={`inline-flex items-center gap-2 pl-1 pr-3 py-1 rounded-full text-sm border transition-colors ${
+                        isAssigned
+                          ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
+                          : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      <UserAvatar profile={member.profile} />
+                      {getProfileName(member.profile)}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
           {/* Tags */}
@@ -306,13 +494,20 @@ export default function TaskDrawer({
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Description
             </label>
-            <textarea
+            <MarkdownEditor
+              key={task.id}
               value={description}
-              onChange={(e) => setDescription(e.target.value)}
+              onChange={(value) => {
+                setDescription(value);
+                onTyping?.('description');
+              }}
+              onTaskListToggle={(value) => onUpdate(task.id, { description: value.trim() || null })}
+              attachments={attachments}
+              defaultMode={task.description ? 'preview' : 'write'}
               rows={6}
               maxLength={2000}
-              placeholder="Add a description..."
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none"
+              placeholder="Add a description... Markdown is supported"
+              aria-label="Description"
             />
             <p className="mt-1 text-xs text-gray-400 text-right">{description.length}/2000</p>
           </div>
@@ -320,12 +515,28 @@ export default function TaskDrawer({
           {/* Save Button */}
           <button
             onClick={handleSave}
-            disabled={saving}
+            disabled={saving || recurrenceInvalid || datesInvalid || estimateInvalid}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white py-3 rounded-lg font-medium transition-colors"
           >
             {saving ? 'Saving...' : 'Save Changes'}
           </button>
 
+          {/* Checklist Section */}
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+            <TaskChecklist boardId={boardId} taskId={task.id} members={members} />
+          </div>
+
+          {/* Time Tracking Section */}
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+            <TaskTimeTracking
+              boardId={boardId}
+              taskId={task.id}
+              estimate={task.estimate}
+              estimateUnit={task.estimate_unit}
+              canTrack={currentUserRole !== 'viewer'}
+            />
+          </div>
+
           {/* Attachments Section */}
           <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
             <TaskAttachments boardId={boardId} taskId={task.id} />
@@ -337,7 +548,12 @@ export default function TaskDrawer({
               <MessageSquare className="h-4 w-4 text-gray-500" />
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Activity</span>
             </div>
-            <TaskComments boardId={boardId} taskId={task.id} />
+            <TaskComments
+              boardId={boardId}
+              taskId={task.id}
+              currentUserRole={currentUserRole}
+              onTyping={onTyping ? () => onTyping('comment') : undefined}
+            />
           </div>
 
           {/* Metadata */}
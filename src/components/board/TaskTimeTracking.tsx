@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock, Loader2, Play, Square, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import type { EstimateUnit, TimeEntry } from '@/types/board';
+import { UserAvatar, getProfileName } from './AssigneeAvatars';
+import { useDeleteTimeEntry, useLogTime, useTimeEntries, useToggleTimer } from '@/hooks/api';
+import {
+  findRunningEntry,
+  formatDuration,
+  getEntryMinutes,
+  getTrackedByUser,
+  getTrackedMinutes,
+  parseDuration,
+} from '@/lib/tasks';
+
+interface TaskTimeTrackingProps {
+  boardId: string;
+  taskId: string;
+  estimate: number | null;
+  estimateUnit: EstimateUnit;
+  /** Viewers see the log but cannot track time */
+  canTrack: boolean;
+}
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Start of a manual entry on the chosen day: 9:00, or early enough to end by now
+ */
+function getManualStart(day: string, minutes: number, now: Date): Date {
+  const start = new Date(`${day}T09:00:00`);
+  const latest = new Date(now.getTime() - minutes * 60000);
+  return start < latest ? start : latest;
+}
+
+export default function TaskTimeTracking({
+  boardId,
+  taskId,
+  estimate,
+  estimateUnit,
+  canTrack,
+}: TaskTimeTrackingProps) {
+  const { user } = useAuth();
+  const [now, setNow] = useState(() => new Date());
+  const [day, setDay] = useState(() => toDateInput(new Date()));
+  const [duration, setDuration] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data: entries = [], isLoading } = useTimeEntries(boardId, taskId);
+  const toggleTimer = useToggleTimer(boardId, taskId);
+  const logTime = useLogTime(boardId, taskId);
+  const deleteEntry = useDeleteTimeEntry(boardId, taskId);
+
+  const running = user ? findRunningEntry(entries, user.id) : undefined;
+  const hasRunning = entries.some((entry) => !entry.ended_at);
+
+  // Tick while any timer on the task runs so totals count up
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(() => setNow(new Date()), 15000);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  const tracked = getTrackedMinutes(entries, now);
+  const byUser = getTrackedByUser(entries, now);
+  const estimateMinutes = estimate !== null && estimateUnit === 'hours' ? estimate * 60 : null;
+  const percent = estimateMinutes ? Math.round((tracked / estimateMinutes) * 100) : 0;
+  const parsedDuration = parseDuration(duration);
+
+  const handleToggleTimer = () => {
+    toggleTimer.mutate(running ? 'stop' : 'start', {
+      onSuccess: () => setNow(new Date()),
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const handleLogTime = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsedDuration || !day) return;
+
+    try {
+      await logTime.mutateAsync({
+        started_at: getManualStart(day, parsedDuration, new Date()).toISOString(),
+        duration_minutes: parsedDuration,
+        note: note.trim() || null,
+      });
+      setDuration('');
+      setNote('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to log time');
+    }
+  };
+
+  const handleDelete = (entry: TimeEntry) => {
+    deleteEntry.mutate(entry.id, {
+      onError: () => toast.error('Failed to delete time entry'),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+          <Clock className="h-4 w-4 text-gray-500" />
+        </div>
+        <span className="flex-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+          Time tracked: {formatDuration(tracked)}
+          {estimate !== null && (
+            <span className="font-normal text-gray-500 dark:text-gray-400">
+              {' '}
+              of {estimate} {estimateUnit === 'hours' ? 'h' : 'pts'} estimated
+            </span>
+          )}
+        </span>
+        {canTrack && (
+          <button
+            type="button"
+            onClick={handleToggleTimer}
+            disabled={toggleTimer.isPending || !user}
+            className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+              running
+                ? 'bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/40 dark:text-red-300'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+            }`}
+          >
+            {running ? <Square className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+            {running ? `Stop (${formatDuration(getEntryMinutes(running, now))})` : 'Start timer'}
+          </button>
+        )}
+      </div>
+
+      {estimateMinutes !== null && (
+        <div
+          className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-valuenow={percent}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-label="Tracked time against estimate"
+        >
+          <div
+            className={`h-full transition-all ${percent > 100 ? 'bg-red-500' : 'bg-blue-500'}`}
+            style={{ width: `${Math.min(percent, 100)}%` }}
+          />
+        </div>
+      )}
+
+      {byUser.length > 1 && (
+        <div className="flex flex-wrap gap-3">
+          {byUser.map(({ userId, user: profile, minutes }) => (
+            <span
+              key={userId}
+              className="inline-flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400"
+            >
+              {profile && <UserAvatar profile={profile} />}
+              {formatDuration(minutes)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        entries.length > 0 && (
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {entries.map((entry) => (
+              <li key={entry.id} className="group flex items-center gap-2 py-1.5 text-sm">
+                {entry.user && <UserAvatar profile={entry.user} />}
+                <span className="w-16 flex-shrink-0 font-medium text-gray-700 dark:text-gray-300">
+                  {entry.ended_at ? formatDuration(getEntryMinutes(entry, now)) : 'Running'}
+                </span>
+                <span className="flex-1 truncate text-gray-500 dark:text-gray-400">
+                  {entry.note ||
+                    `${entry.user ? getProfileName(entry.user) : 'Someone'}${entry.is_manual ? ' (manual)' : ''}`}
+                </span>
+                <span className="text-xs text-gray-400">
+                  {new Date(entry.started_at).toLocaleDateString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                  })}
+                </span>
+                {canTrack && entry.user_id === user?.id && entry.ended_at && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(entry)}
+                    className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete entry"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {canTrack && (
+        <form onSubmit={handleLogTime} className="flex gap-2">
+          <input
+            type="date"
+            value={day}
+            max={toDateInput(new Date())}
+            onChange={(e) => setDay(e.target.value)}
+            aria-label="Day worked"
+            className="w-36 px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+          />
+          <input
+            type="text"
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+            placeholder="1h 30m"
+            aria-label="Time spent"
+            aria-invalid={!!duration.trim() && !parsedDuration}
+            className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm placeholder-gray-500"
+          />
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note"
+            maxLength={500}
+            aria-label="Note"
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm placeholder-gray-500"
+          />
+          <button
+            type="submit"
+            disabled={logTime.isPending || !parsedDuration}
+            className="px-3 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            {logTime.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Log'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { memo } from 'react';
+import type { WipLimitMode } from '@/types/board';
+
+interface WipLimitBadgeProps {
+  count: number;
+  limit: number | null;
+  mode: WipLimitMode;
+  /** Classes for the badge when the column is under its limit */
+  baseClassName: string;
+  className?: string;
+}
+
+/**
+ * Column task count, shown as "4/5" when the column has a WIP limit
+ */
+function WipLimitBadge({ count, limit, mode, baseClassName, className = '' }: WipLimitBadgeProps) {
+  if (!limit) {
+    return (
+      <span
+        className={`${baseClassName} ${className} text-xs font-medium px-2 py-0.5 rounded-full`}
+        aria-label={`${count} tasks`}
+      >
+        {count}
+      </span>
+    );
+  }
+
+  const stateClassName =
+    count > limit
+      ? 'bg-red-500 text-white'
+      : count === limit
+        ? 'bg-amber-400 text-gray-900'
+        : `${baseClassName} ${className}`;
+
+  return (
+    <span
+      className={`${stateClassName} text-xs font-medium px-2 py-0.5 rounded-full`}
+      aria-label={`${count} of ${limit} tasks, ${mode === 'hard' ? 'hard' : 'soft'} WIP limit`}
+      title={`WIP limit: ${limit} (${mode === 'hard' ? 'blocks new tasks' : 'warns only'})`}
+    >
+      {count}/{limit}
+    </span>
+  );
+}
+
+export default memo(WipLimitBadge);
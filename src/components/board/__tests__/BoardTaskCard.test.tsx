@@ -2,12 +2,14 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import BoardTaskCard from '../BoardTaskCard';
 import { Task } from '@/types/board';
+import { makeTask } from '@/test-utils/tasks';
 
 // Mock dnd-kit
+let mockListeners: Record<string, jest.Mock> = {};
 jest.mock('@dnd-kit/sortable', () => ({
   useSortable: () => ({
     attributes: {},
-    listeners: {},
+    listeners: mockListeners,
     setNodeRef: jest.fn(),
     transform: null,
     transition: null,
@@ -29,10 +31,7 @@ describe('BoardTaskCard', () => {
   futureDate.setDate(futureDate.getDate() + 30);
   const futureDateStr = futureDate.toISOString().split('T')[0];
 
-  const mockTask: Task = {
-    id: 'task-1',
-    board_id: 'board-1',
-    status_id: 'status-1',
+  const mockTask = makeTask({
     title: 'Test Task',
     description: 'Test description',
     priority: 'high',
@@ -40,16 +39,14 @@ describe('BoardTaskCard', () => {
     assignee_name: 'John Doe',
     assignee_color: '#6366f1',
     due_date: futureDateStr,
-    order: 0,
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  };
+  });
 
   const mockOnClick = jest.fn();
   const mockOnDelete = jest.fn();
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockListeners = {};
   });
 
   it('should render task title', () => {
@@ -113,6 +110,30 @@ describe('BoardTaskCard', () => {
     expect(screen.queryByTitle('John Doe')).not.toBeInTheDocument();
   });
 
+  it('should render checklist progress', () => {
+    const taskWithChecklist: Task = {
+      ...mockTask,
+      checklist_items: [
+        { id: 'item-1', is_completed: true },
+        { id: 'item-2', is_completed: true },
+        { id: 'item-3', is_completed: false },
+      ],
+    };
+
+    render(
+      <BoardTaskCard task={taskWithChecklist} onClick={mockOnClick} onDelete={mockOnDelete} />
+    );
+
+    expect(screen.getByText('2/3')).toBeInTheDocument();
+    expect(screen.getByLabelText('Checklist: 2 of 3 done')).toBeInTheDocument();
+  });
+
+  it('should not render checklist progress for tasks without items', () => {
+    render(<BoardTaskCard task={mockTask} onClick={mockOnClick} onDelete={mockOnDelete} />);
+
+    expect(screen.queryByLabelText(/Checklist:/)).not.toBeInTheDocument();
+  });
+
   it('should render different priority border colors', () => {
     const priorityColors: Record<string, string> = {
       critical: 'rgb(239, 68, 68)', // #ef4444
@@ -208,4 +229,75 @@ describe('BoardTaskCard', () => {
     // onClick should not be called when delete is clicked
     expect(mockOnClick).not.toHaveBeenCalled();
   });
+
+  describe('selection', () => {
+    const mockOnSelect = jest.fn();
+
+    it('should select instead of opening on Ctrl/Cmd- and Shift-click', () => {
+      render(<BoardTaskCard task={mockTask} onClick={mockOnClick} onSelect={mockOnSelect} />);
+
+      fireEvent.click(screen.getByText('Test Task'), { ctrlKey: true });
+      fireEvent.click(screen.getByText('Test Task'), { metaKey: true });
+      fireEvent.click(screen.getByText('Test Task'), { shiftKey: true });
+
+      expect(mockOnSelect.mock.calls).toEqual([
+        [mockTask, { range: false }],
+        [mockTask, { range: false }],
+        [mockTask, { range: true }],
+      ]);
+      expect(mockOnClick).not.toHaveBeenCalled();
+    });
+
+    it('should open on modified clicks when selection is off', () => {
+      render(<BoardTaskCard task={mockTask} onClick={mockOnClick} />);
+
+      fireEvent.click(screen.getByText('Test Task'), { ctrlKey: true });
+
+      expect(mockOnClick).toHaveBeenCalledWith(mockTask);
+    });
+
+    it('should mark selected cards', () => {
+      render(<BoardTaskCard task={mockTask} onSelect={mockOnSelect} isSelected />);
+
+      const card = screen.getByRole('listitem');
+      expect(card).toHaveClass('ring-indigo-500');
+      expect(card.getAttribute('aria-label')).toMatch(/, Selected$/);
+    });
+  });
+
+  describe('keyboard', () => {
+    const getCard = () => screen.getByRole('listitem');
+
+    it('should open the task with Enter', () => {
+      render(<BoardTaskCard task={mockTask} onClick={mockOnClick} />);
+
+      fireEvent.keyDown(getCard(), { key: 'Enter' });
+
+      expect(mockOnClick).toHaveBeenCalledWith(mockTask);
+    });
+
+    it('should pick the task up with Space when keyboard dragging is available', () => {
+      mockListeners = { onKeyDown: jest.fn() };
+      render(<BoardTaskCard task={mockTask} onClick={mockOnClick} />);
+
+      fireEvent.keyDown(getCard(), { key: ' ', code: 'Space' });
+
+      expect(mockListeners.onKeyDown).toHaveBeenCalled();
+      expect(mockOnClick).not.toHaveBeenCalled();
+    });
+
+    it('should open the task with Space when dragging is off', () => {
+      render(<BoardTaskCard task={mockTask} onClick={mockOnClick} />);
+
+      fireEvent.keyDown(getCard(), { key: ' ', code: 'Space' });
+
+      expect(mockOnClick).toHaveBeenCalledWith(mockTask);
+    });
+
+    it('should expose the task id for board navigation', () => {
+      render(<BoardTaskCard task={mockTask} />);
+
+      expect(getCard()).toHaveAttribute('data-task-id', 'task-1');
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const mockFetch = jest.fn<Promise<any>, any[]>();
@@ -48,6 +49,12 @@ const mockAttachments = [
   },
 ];
 
+// Attachments are loaded through React Query, so each test gets a fresh cache
+const renderWithClient = (ui: React.ReactElement) => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(<QueryClientProvider client={queryClient}>{ui}</QueryClientProvider>);
+};
+
 describe('TaskAttachments', () => {
   const boardId = 'board-1';
   const taskId = 'task-1';
@@ -64,7 +71,7 @@ describe('TaskAttachments', () => {
         json: () => Promise.resolve({ attachments: mockAttachments }),
       });
 
-      render(<TaskAttachments boardId={boardId} taskId={taskId} />);
+      renderWithClient(<TaskAttachments boardId={boardId} taskId={taskId} />);
 
       await waitFor(() => {
         expect(screen.getByText('test-file.pdf')).toBeInTheDocument();
@@ -80,7 +87,7 @@ describe('TaskAttachments', () => {
         json: () => Promise.resolve({ attachments: [] }),
       });
 
-      render(<TaskAttachments boardId={boardId} taskId={taskId} />);
+      renderWithClient(<TaskAttachments boardId={boardId} taskId={taskId} />);
 
       await waitFor(() => {
         expect(screen.getByText('No attachments yet')).toBeInTheDocument();
@@ -93,7 +100,7 @@ describe('TaskAttachments', () => {
         json: () => Promise.resolve({ attachments: mockAttachments }),
       });
 
-      render(<TaskAttachments boardId={boardId} taskId={taskId} />);
+      renderWithClient(<TaskAttachments boardId={boardId} taskId={taskId} />);
 
       await waitFor(() => {
         expect(screen.getByText('Attachments (2)')).toBeInTheDocument();
@@ -108,7 +115,7 @@ describe('TaskAttachments', () => {
         json: () => Promise.resolve({ attachments: mockAttachments }),
       });
 
-      render(<TaskAttachments boardId={boardId} taskId={taskId} />);
+      renderWithClient(<TaskAttachments boardId={boardId} taskId={taskId} />);
 
       await waitFor(() => {
         expect(screen.getByText('test-file.pdf')).toBeInTheDocument();
@@ -131,7 +138,7 @@ describe('TaskAttachments', () => {
         json: () => Promise.resolve({ attachments: mockAttachments }),
       });
 
-      render(<TaskAttachments boardId={boardId} taskId={taskId} />);
+      renderWithClient(<TaskAttachments boardId={boardId} taskId={taskId} />);
 
       await waitFor(() => {
         expect(screen.getByText('test-file.pdf')).toBeInTheDocument();
@@ -176,7 +183,7 @@ describe('TaskAttachments', () => {
         json: () => Promise.resolve({ attachments: mockAttachments }),
       });
 
-      render(<TaskAttachments boardId={boardId} taskId={taskId} />);
+      renderWithClient(<TaskAttachments boardId={boardId} taskId={taskId} />);
 
       await waitFor(() => {
         expect(screen.getByText('test-file.pdf')).toBeInTheDocument();
@@ -210,7 +217,7 @@ describe('TaskAttachments', () => {
         json: () => Promise.resolve({ attachments: mockAttachments }),
       });
 
-      render(<TaskAttachments boardId={boardId} taskId={taskId} />);
+      renderWithClient(<TaskAttachments boardId={boardId} taskId={taskId} />);
 
       await waitFor(() => {
         expect(screen.getByText('test-file.pdf')).toBeInTheDocument();
@@ -255,7 +262,7 @@ describe('TaskAttachments', () => {
         json: () => Promise.resolve({ attachments: [attachmentWith1KB] }),
       });
 
-      render(<TaskAttachments boardId={boardId} taskId={taskId} />);
+      renderWithClient(<TaskAttachments boardId={boardId} taskId={taskId} />);
 
       await waitFor(() => {
         expect(screen.getByText('test-file.pdf')).toBeInTheDocument();
@@ -3,6 +3,7 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/client';
+import { getMutationQueue } from '@/lib/offline';
 import { useRouter } from 'next/navigation';
 
 interface AuthContextType {
@@ -55,6 +56,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    // Offline changes and cached boards belong to this user
+    await getMutationQueue().clear();
+    navigator.serviceWorker?.controller?.postMessage({ type: 'CLEAR_API_CACHE' });
     router.push('/login');
     router.refresh();
   };
@@ -0,0 +1,124 @@
+import { renderHook } from '@testing-library/react';
+import { useBoardShortcuts } from '../useBoardShortcuts';
+import type { NavigationColumn } from '@/lib/tasks';
+
+describe('useBoardShortcuts', () => {
+  const columns: NavigationColumn[] = [
+    { statusId: 'todo', taskIds: ['task-1', 'task-2'] },
+    { statusId: 'done', taskIds: ['task-3'] },
+  ];
+
+  const press = (key: string, target: EventTarget = window) => {
+    const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+    target.dispatchEvent(event);
+    return event;
+  };
+
+  const setup = (options: Partial<Parameters<typeof useBoardShortcuts>[0]> = {}) => {
+    const handlers = {
+      onOpenTask: jest.fn(),
+      onMoveTask: jest.fn(),
+      onCreateTask: jest.fn(),
+      onShowHelp: jest.fn(),
+    };
+    const hook = renderHook(() => useBoardShortcuts({ columns, ...handlers, ...options }));
+    return { ...hook, ...handlers };
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = ['task-1', 'task-2', 'task-3']
+      .map((id) => `<div tabindex="0" data-task-id="${id}"></div>`)
+      .join('');
+  });
+
+  const card = (id: string) => document.querySelector<HTMLElement>(`[data-task-id="${id}"]`)!;
+
+  it('should move focus between cards and columns', () => {
+    setup();
+
+    press('j');
+    expect(document.activeElement).toBe(card('task-1'));
+
+    press('j');
+    expect(document.activeElement).toBe(card('task-2'));
+
+    press('l');
+    expect(document.activeElement).toBe(card('task-3'));
+
+    press('h');
+    expect(document.activeElement).toBe(card('task-1'));
+  });
+
+  it('should act on the focused card', () => {
+    const { onOpenTask, onMoveTask, onCreateTask } = setup();
+    card('task-3').focus();
+
+    press('e');
+    press('m');
+    press('n');
+
+    expect(onOpenTask).toHaveBeenCalledWith('task-3');
+    expect(onMoveTask).toHaveBeenCalledWith('task-3');
+    expect(onCreateTask).toHaveBeenCalledWith('done');
+  });
+
+  it('should create in the first column and show help without a focused card', () => {
+    const { onOpenTask, onCreateTask, onShowHelp } = setup();
+
+    press('e');
+    press('n');
+    press('?');
+
+    expect(onOpenTask).not.toHaveBeenCalled();
+    expect(onCreateTask).toHaveBeenCalledWith('todo');
+    expect(onShowHelp).toHaveBeenCalled();
+  });
+
+  it('should select the focused card and clear the selection', () => {
+    const onToggleSelect = jest.fn();
+    const onClearSelection = jest.fn();
+    setup({ onToggleSelect, onClearSelection });
+    card('task-2').focus();
+
+    press('x');
+    press('Escape');
+
+    expect(onToggleSelect).toHaveBeenCalledWith('task-2');
+    expect(onClearSelection).toHaveBeenCalled();
+  });
+
+  it('should leave Escape alone while nothing is selected', () => {
+    setup();
+
+    expect(press('Escape').defaultPrevented).toBe(false);
+  });
+
+  it('should leave typing and modified keys alone', () => {
+    const { onCreateTask } = setup();
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+
+    const event = press('n', input);
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'n', ctrlKey: true }));
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(onCreateTask).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing while disabled', () => {
+    const { onCreateTask, onShowHelp } = setup({ enabled: false });
+
+    press('n');
+    press('?');
+
+    expect(onCreateTask).not.toHaveBeenCalled();
+    expect(onShowHelp).not.toHaveBeenCalled();
+  });
+
+  it('should skip actions the user has no handler for', () => {
+    setup({ onMoveTask: undefined });
+    card('task-1').focus();
+
+    expect(press('m').defaultPrevented).toBe(false);
+  });
+});
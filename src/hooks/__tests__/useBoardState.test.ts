@@ -1,6 +1,7 @@
 import { renderHook, act } from '@testing-library/react';
 import { useBoardState } from '../useBoardState';
-import type { BoardWithData, Task } from '@/types/board';
+import type { BoardWithData } from '@/types/board';
+import { makeTask } from '@/test-utils/tasks';
 
 describe('useBoardState', () => {
   const mockBoard: BoardWithData = {
@@ -17,6 +18,8 @@ describe('useBoardState', () => {
         name: 'Todo',
         color: 'blue',
         order: 0,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
         tasks: [],
@@ -24,21 +27,7 @@ describe('useBoardState', () => {
     ],
   };
 
-  const mockTask: Task = {
-    id: 'task-1',
-    board_id: 'board-1',
-    status_id: 'status-1',
-    title: 'Test Task',
-    description: null,
-    priority: 'medium',
-    tags: [],
-    assignee_name: null,
-    assignee_color: null,
-    due_date: null,
-    order: 0,
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  };
+  const mockTask = makeTask({ title: 'Test Task', priority: 'medium' });
 
   it('should initialize with default state', () => {
     const { result } = renderHook(() => useBoardState());
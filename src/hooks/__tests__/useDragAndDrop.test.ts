@@ -2,39 +2,12 @@ import { renderHook, act } from '@testing-library/react';
 import type { DragStartEvent, DragEndEvent } from '@dnd-kit/core';
 import { useDragAndDrop } from '../useDragAndDrop';
 import type { BoardWithData, Task } from '@/types/board';
+import { makeTask } from '@/test-utils/tasks';
 
 describe('useDragAndDrop', () => {
   const mockTasks: Task[] = [
-    {
-      id: 'task-1',
-      board_id: 'board-1',
-      status_id: 'status-1',
-      title: 'Task 1',
-      description: null,
-      priority: 'medium',
-      tags: [],
-      assignee_name: null,
-      assignee_color: null,
-      due_date: null,
-      order: 0,
-      created_at: '2024-01-01T00:00:00Z',
-      updated_at: '2024-01-01T00:00:00Z',
-    },
-    {
-      id: 'task-2',
-      board_id: 'board-1',
-      status_id: 'status-1',
-      title: 'Task 2',
-      description: null,
-      priority: 'high',
-      tags: [],
-      assignee_name: null,
-      assignee_color: null,
-      due_date: null,
-      order: 1,
-      created_at: '2024-01-01T00:00:00Z',
-      updated_at: '2024-01-01T00:00:00Z',
-    },
+    makeTask({ id: 'task-1', title: 'Task 1', priority: 'medium', order: 0 }),
+    makeTask({ id: 'task-2', title: 'Task 2', priority: 'high', order: 1 }),
   ];
 
   const mockBoard: BoardWithData = {
@@ -51,6 +24,8 @@ describe('useDragAndDrop', () => {
         name: 'Todo',
         color: 'blue',
         order: 0,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
         tasks: mockTasks,
@@ -61,6 +36,8 @@ describe('useDragAndDrop', () => {
         name: 'Done',
         color: 'green',
         order: 1,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
         tasks: [],
@@ -205,6 +182,143 @@ describe('useDragAndDrop', () => {
     expect(mockOnReorder).not.toHaveBeenCalled();
   });
 
+  describe('WIP limits', () => {
+    const withDoneLimit = (mode: 'soft' | 'hard'): BoardWithData => ({
+      ...mockBoard,
+      statuses: mockBoard.statuses.map((status) =>
+        status.id === 'status-2'
+          ? {
+              ...status,
+              wip_limit: 1,
+              wip_limit_mode: mode,
+              tasks: [{ ...mockTasks[1], status_id: 'status-2' }],
+            }
+          : { ...status, tasks: [mockTasks[0]] }
+      ),
+    });
+
+    const dropTaskOnDone = (board: BoardWithData) => {
+      const onMove = jest.fn();
+      const onWipLimitExceeded = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragAndDrop({ board, onReorder: jest.fn(), onMove, onWipLimitExceeded })
+      );
+
+      act(() => {
+        result.current.handleDragEnd({
+          active: { id: 'task-1', data: {} },
+          over: { id: 'status-2', data: {} },
+        } as DragEndEvent);
+      });
+
+      return { onMove, onWipLimitExceeded };
+    };
+
+    it('should refuse drops into a column at its hard limit', () => {
+      const { onMove, onWipLimitExceeded } = dropTaskOnDone(withDoneLimit('hard'));
+
+      expect(onMove).not.toHaveBeenCalled();
+      expect(onWipLimitExceeded).toHaveBeenCalledWith(
+        expect.objectContaining({ limit: 1, count: 2, blocked: true })
+      );
+    });
+
+    it('should allow but flag drops over a soft limit', () => {
+      const { onMove, onWipLimitExceeded } = dropTaskOnDone(withDoneLimit('soft'));
+
+      expect(onMove).toHaveBeenCalledWith('task-1', 'status-2', expect.any(Number));
+      expect(onWipLimitExceeded).toHaveBeenCalledWith(
+        expect.objectContaining({ exceeded: true, blocked: false })
+      );
+    });
+  });
+
+  describe('swimlanes', () => {
+    const priorityLanes = {
+      grouping: 'priority' as const,
+      lanes: [
+        { key: 'v:high', label: 'High', value: 'high' },
+        { key: 'v:medium', label: 'Medium', value: 'medium' },
+        { key: 'none', label: 'No priority', value: null },
+      ],
+    };
+
+    it('should move within a column when dropped into another lane', () => {
+      const mockOnReorder = jest.fn();
+      const mockOnMove = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragAndDrop({
+          board: mockBoard,
+          swimlanes: priorityLanes,
+          onReorder: mockOnReorder,
+          onMove: mockOnMove,
+        })
+      );
+
+      act(() => {
+        result.current.handleDragEnd({
+          active: { id: 'task-1', data: {} },
+          over: { id: 'status-1|none', data: {} },
+        } as DragEndEvent);
+      });
+
+      expect(mockOnMove).toHaveBeenCalledWith('task-1', 'status-1', expect.any(Number), {
+        field: 'priority',
+        value: null,
+      });
+      expect(mockOnReorder).not.toHaveBeenCalled();
+    });
+
+    it('should take the lane of the task dropped onto', () => {
+      const mockOnMove = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragAndDrop({
+          board: mockBoard,
+          swimlanes: priorityLanes,
+          onReorder: jest.fn(),
+          onMove: mockOnMove,
+        })
+      );
+
+      act(() => {
+        result.current.handleDragEnd({
+          active: { id: 'task-1', data: {} },
+          over: { id: 'task-2', data: {} },
+        } as DragEndEvent);
+      });
+
+      expect(mockOnMove).toHaveBeenCalledWith('task-1', 'status-1', 1, {
+        field: 'priority',
+        value: 'high',
+      });
+    });
+
+    it('should not change the lane when dropped into a cell of its own lane', () => {
+      const mockOnMove = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragAndDrop({
+          board: mockBoard,
+          swimlanes: priorityLanes,
+          onReorder: jest.fn(),
+          onMove: mockOnMove,
+        })
+      );
+
+      act(() => {
+        result.current.handleDragEnd({
+          active: { id: 'task-1', data: {} },
+          over: { id: 'status-2|v:medium', data: {} },
+        } as DragEndEvent);
+      });
+
+      expect(mockOnMove).toHaveBeenCalledWith('task-1', 'status-2', 0);
+    });
+  });
+
   it('should handle drag end with no over target', () => {
     const mockOnReorder = jest.fn();
     const mockOnMove = jest.fn();
@@ -267,4 +381,65 @@ describe('useDragAndDrop', () => {
     expect(Array.isArray(result.current.sensors)).toBe(true);
     expect(result.current.sensors.length).toBeGreaterThan(0);
   });
+
+  describe('keyboard moves', () => {
+    it('should move a task to the end of another column', () => {
+      const mockOnMove = jest.fn();
+
+      const { result } = renderHook(() =>
+        useDragAndDrop({ board: mockBoard, onReorder: jest.fn(), onMove: mockOnMove })
+      );
+
+      let moved = false;
+      act(() => {
+        moved = result.current.moveTask('task-1', 'status-2');
+      });
+
+      expect(moved).toBe(true);
+      expect(mockOnMove).toHaveBeenCalledWith('task-1', 'status-2', 0);
+    });
+
+    it('should not move a task into its own column or past a hard limit', () => {
+      const mockOnMove = jest.fn();
+      const onWipLimitExceeded = jest.fn();
+      const board: BoardWithData = {
+        ...mockBoard,
+        statuses: mockBoard.statuses.map((status) =>
+          status.id === 'status-2'
+            ? {
+                ...status,
+                wip_limit: 1,
+                wip_limit_mode: 'hard',
+                tasks: [{ ...mockTasks[1], status_id: 'status-2' }],
+              }
+            : { ...status, tasks: [mockTasks[0]] }
+        ),
+      };
+
+      const { result } = renderHook(() =>
+        useDragAndDrop({ board, onReorder: jest.fn(), onMove: mockOnMove, onWipLimitExceeded })
+      );
+
+      expect(result.current.moveTask('task-1', 'status-1')).toBe(false);
+      expect(result.current.moveTask('task-1', 'status-2')).toBe(false);
+      expect(mockOnMove).not.toHaveBeenCalled();
+      expect(onWipLimitExceeded).toHaveBeenCalledWith(expect.objectContaining({ blocked: true }));
+    });
+
+    it('should announce the task and where it is dropped', () => {
+      const { result } = renderHook(() =>
+        useDragAndDrop({ board: mockBoard, onReorder: jest.fn(), onMove: jest.fn() })
+      );
+      const { announcements } = result.current.accessibility;
+      const active = { id: 'task-1' } as DragStartEvent['active'];
+      const over = { id: 'status-2' } as NonNullable<DragEndEvent['over']>;
+
+      expect(announcements.onDragStart({ active })).toBe('Picked up task "Task 1" in Todo.');
+      expect(announcements.onDragOver({ active, over })).toBe('Task "Task 1" is over Done.');
+      expect(announcements.onDragEnd({ active, over })).toBe('Task "Task 1" was dropped on Done.');
+      expect(announcements.onDragCancel({ active, over: null })).toBe(
+        'Moving task "Task 1" was cancelled. It stays in Todo.'
+      );
+    });
+  });
 });
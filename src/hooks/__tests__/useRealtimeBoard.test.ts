@@ -1,21 +1,30 @@
 import { renderHook, act } from '@testing-library/react';
 import { SetStateAction } from 'react';
 import { BoardWithData, Task, Status, StatusWithTasks } from '@/types/board';
+import { makeTask } from '@/test-utils/tasks';
 
 // Store callbacks for triggering events
-type EventCallback = (payload: { new?: unknown; old?: unknown }) => void;
+type EventPayload = { eventType?: string; new?: unknown; old?: unknown };
+type EventCallback = (payload: EventPayload) => void;
 const eventCallbacks: Map<string, EventCallback> = new Map();
 
 // Mock Supabase client
-const mockChannel: { on: jest.Mock; subscribe: jest.Mock } = {
+const mockChannel: {
+  on: jest.Mock;
+  subscribe: jest.Mock;
+  track: jest.Mock;
+  presenceState: jest.Mock;
+} = {
   on: jest.fn(),
   subscribe: jest.fn(),
+  track: jest.fn(),
+  presenceState: jest.fn(),
 };
 
 // Set up return values after object creation to avoid circular reference
 mockChannel.on.mockImplementation(
   (type: string, config: { event: string; table: string }, callback: EventCallback) => {
-    const key = `${config.table}-${config.event}`;
+    const key = `${config.table ?? type}-${config.event}`;
     eventCallbacks.set(key, callback);
     return mockChannel;
   }
@@ -35,7 +44,7 @@ jest.mock('@/lib/supabase/client', () => ({
 import { useRealtimeBoard, useRealtimeBoardState } from '../useRealtimeBoard';
 
 // Helper to trigger events
-const triggerEvent = (table: string, event: string, payload: { new?: unknown; old?: unknown }) => {
+const triggerEvent = (table: string, event: string, payload: EventPayload) => {
   const callback = eventCallbacks.get(`${table}-${event}`);
   if (callback) {
     callback(payload);
@@ -48,7 +57,7 @@ describe('useRealtimeBoard', () => {
     eventCallbacks.clear();
     mockChannel.on.mockImplementation(
       (type: string, config: { event: string; table: string }, callback: EventCallback) => {
-        const key = `${config.table}-${config.event}`;
+        const key = `${config.table ?? type}-${config.event}`;
         eventCallbacks.set(key, callback);
         return mockChannel;
       }
@@ -68,7 +77,8 @@ describe('useRealtimeBoard', () => {
 
     renderHook(() => useRealtimeBoard(callbacks));
 
-    expect(mockChannel.on).toHaveBeenCalledTimes(6); // 3 task events + 3 status events
+    // 3 task + 3 status + comments + reactions + attachments + activities + 3 member events
+    expect(mockChannel.on).toHaveBeenCalledTimes(13);
     expect(mockChannel.subscribe).toHaveBeenCalled();
   });
 
@@ -94,6 +104,52 @@ describe('useRealtimeBoard', () => {
     expect(mockRemoveChannel).toHaveBeenCalled();
   });
 
+  it('should track presence once subscribed and report merged members on sync', () => {
+    const onPresenceSync = jest.fn();
+    const presence = {
+      user_id: 'user-1',
+      email: 'ada@example.com',
+      display_name: 'Ada',
+      avatar_url: null,
+      task_id: null,
+      typing: null,
+      online_at: '2024-01-01T00:00:00.000Z',
+    };
+    mockChannel.presenceState.mockReturnValue({ 'user-1': [{ ...presence, presence_ref: 'a' }] });
+
+    const { rerender } = renderHook(
+      ({ taskId }) =>
+        useRealtimeBoard({
+          boardId: 'test-board-id',
+          presence: taskId === presence.task_id ? presence : { ...presence, task_id: taskId },
+          onPresenceSync,
+        }),
+      { initialProps: { taskId: null as string | null } }
+    );
+
+    const onStatus = mockChannel.subscribe.mock.calls[0][0];
+    act(() => onStatus('SUBSCRIBED'));
+    expect(mockChannel.track).toHaveBeenCalledWith(presence);
+
+    act(() => triggerEvent('presence', 'sync', {}));
+    expect(onPresenceSync).toHaveBeenCalledWith([
+      expect.objectContaining({ user_id: 'user-1', task_ids: [] }),
+    ]);
+
+    rerender({ taskId: 'task-1' });
+    expect(mockChannel.track).toHaveBeenLastCalledWith({ ...presence, task_id: 'task-1' });
+  });
+
+  it('should not listen for presence without a presence state', () => {
+    renderHook(() => useRealtimeBoard({ boardId: 'test-board-id' }));
+
+    expect(mockChannel.on).not.toHaveBeenCalledWith(
+      'presence',
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
   it('should call onTaskInsert when task INSERT event is received', () => {
     const onTaskInsert = jest.fn();
     renderHook(() =>
@@ -103,21 +159,7 @@ describe('useRealtimeBoard', () => {
       })
     );
 
-    const newTask: Task = {
-      id: 'task-1',
-      board_id: 'test-board-id',
-      status_id: 'status-1',
-      title: 'New Task',
-      description: null,
-      priority: 'high',
-      tags: [],
-      assignee_name: null,
-      assignee_color: null,
-      due_date: null,
-      order: 0,
-      created_at: '2024-01-01T00:00:00Z',
-      updated_at: '2024-01-01T00:00:00Z',
-    };
+    const newTask = makeTask({ board_id: 'test-board-id', title: 'New Task', priority: 'high' });
 
     act(() => {
       triggerEvent('tasks', 'INSERT', { new: newTask });
@@ -135,21 +177,11 @@ describe('useRealtimeBoard', () => {
       })
     );
 
-    const updatedTask: Task = {
-      id: 'task-1',
+    const updatedTask = makeTask({
       board_id: 'test-board-id',
-      status_id: 'status-1',
       title: 'Updated Task',
-      description: null,
       priority: 'high',
-      tags: [],
-      assignee_name: null,
-      assignee_color: null,
-      due_date: null,
-      order: 0,
-      created_at: '2024-01-01T00:00:00Z',
-      updated_at: '2024-01-01T00:00:00Z',
-    };
+    });
 
     act(() => {
       triggerEvent('tasks', 'UPDATE', { new: updatedTask });
@@ -167,21 +199,11 @@ describe('useRealtimeBoard', () => {
       })
     );
 
-    const deletedTask: Task = {
+    const deletedTask = makeTask({
       id: 'task-to-delete',
       board_id: 'test-board-id',
-      status_id: 'status-1',
       title: 'Deleted Task',
-      description: null,
-      priority: null,
-      tags: [],
-      assignee_name: null,
-      assignee_color: null,
-      due_date: null,
-      order: 0,
-      created_at: '2024-01-01T00:00:00Z',
-      updated_at: '2024-01-01T00:00:00Z',
-    };
+    });
 
     act(() => {
       triggerEvent('tasks', 'DELETE', { old: deletedTask });
@@ -205,6 +227,8 @@ describe('useRealtimeBoard', () => {
       name: 'New Status',
       color: '#FF0000',
       order: 0,
+      wip_limit: null,
+      wip_limit_mode: 'soft',
       created_at: '2024-01-01T00:00:00Z',
       updated_at: '2024-01-01T00:00:00Z',
     };
@@ -231,6 +255,8 @@ describe('useRealtimeBoard', () => {
       name: 'Updated Status',
       color: '#00FF00',
       order: 1,
+      wip_limit: null,
+      wip_limit_mode: 'soft',
       created_at: '2024-01-01T00:00:00Z',
       updated_at: '2024-01-01T00:00:00Z',
     };
@@ -257,6 +283,8 @@ describe('useRealtimeBoard', () => {
       name: 'Deleted Status',
       color: '#0000FF',
       order: 2,
+      wip_limit: null,
+      wip_limit_mode: 'soft',
       created_at: '2024-01-01T00:00:00Z',
       updated_at: '2024-01-01T00:00:00Z',
     };
@@ -299,6 +327,73 @@ describe('useRealtimeBoard', () => {
 
     expect(onTaskDelete).not.toHaveBeenCalled();
   });
+
+  it('should route comment events by type, passing the old row on delete', () => {
+    const onCommentInsert = jest.fn();
+    const onCommentUpdate = jest.fn();
+    const onCommentDelete = jest.fn();
+    renderHook(() =>
+      useRealtimeBoard({
+        boardId: 'test-board-id',
+        onCommentInsert,
+        onCommentUpdate,
+        onCommentDelete,
+      })
+    );
+    const comment = { id: 'comment-1', task_id: 'task-1', content: 'Hi' };
+
+    act(() => {
+      triggerEvent('comments', '*', { eventType: 'INSERT', new: comment, old: {} });
+      triggerEvent('comments', '*', { eventType: 'UPDATE', new: comment, old: {} });
+      triggerEvent('comments', '*', { eventType: 'DELETE', new: {}, old: comment });
+    });
+
+    expect(onCommentInsert).toHaveBeenCalledWith(comment);
+    expect(onCommentUpdate).toHaveBeenCalledWith(comment);
+    expect(onCommentDelete).toHaveBeenCalledWith(comment);
+  });
+
+  it('should report attachment inserts and deletes', () => {
+    const onAttachmentInsert = jest.fn();
+    const onAttachmentDelete = jest.fn();
+    renderHook(() =>
+      useRealtimeBoard({ boardId: 'test-board-id', onAttachmentInsert, onAttachmentDelete })
+    );
+    const attachment = { id: 'attachment-1', task_id: 'task-1' };
+
+    act(() => {
+      triggerEvent('attachments', '*', { eventType: 'INSERT', new: attachment, old: {} });
+      triggerEvent('attachments', '*', { eventType: 'DELETE', new: {}, old: attachment });
+    });
+
+    expect(onAttachmentInsert).toHaveBeenCalledWith(attachment);
+    expect(onAttachmentDelete).toHaveBeenCalledWith(attachment);
+  });
+
+  it('should call onActivityInsert for new board activity', () => {
+    const onActivityInsert = jest.fn();
+    renderHook(() => useRealtimeBoard({ boardId: 'test-board-id', onActivityInsert }));
+    const activity = { id: 'activity-1', board_id: 'test-board-id', action: 'comment_added' };
+
+    act(() => {
+      triggerEvent('activities', 'INSERT', { new: activity });
+    });
+
+    expect(onActivityInsert).toHaveBeenCalledWith(activity);
+  });
+
+  it('should only report member deletes for this board', () => {
+    const onMemberDelete = jest.fn();
+    renderHook(() => useRealtimeBoard({ boardId: 'test-board-id', onMemberDelete }));
+
+    act(() => {
+      triggerEvent('board_members', 'DELETE', { old: { id: 'm-1', board_id: 'other-board' } });
+      triggerEvent('board_members', 'DELETE', { old: { id: 'm-2', board_id: 'test-board-id' } });
+    });
+
+    expect(onMemberDelete).toHaveBeenCalledTimes(1);
+    expect(onMemberDelete).toHaveBeenCalledWith({ id: 'm-2', board_id: 'test-board-id' });
+  });
 });
 
 describe('useRealtimeBoardState', () => {
@@ -307,7 +402,7 @@ describe('useRealtimeBoardState', () => {
     eventCallbacks.clear();
     mockChannel.on.mockImplementation(
       (type: string, config: { event: string; table: string }, callback: EventCallback) => {
-        const key = `${config.table}-${config.event}`;
+        const key = `${config.table ?? type}-${config.event}`;
         eventCallbacks.set(key, callback);
         return mockChannel;
       }
@@ -330,25 +425,11 @@ describe('useRealtimeBoardState', () => {
         name: 'To Do',
         color: '#3B82F6',
         order: 0,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
-        tasks: [
-          {
-            id: 'task-1',
-            board_id: 'board-1',
-            status_id: 'status-1',
-            title: 'Task 1',
-            description: null,
-            priority: null,
-            tags: [],
-            assignee_name: null,
-            assignee_color: null,
-            due_date: null,
-            order: 0,
-            created_at: '2024-01-01T00:00:00Z',
-            updated_at: '2024-01-01T00:00:00Z',
-          },
-        ],
+        tasks: [makeTask({ title: 'Task 1' })],
       },
       {
         id: 'status-2',
@@ -356,6 +437,8 @@ describe('useRealtimeBoardState', () => {
         name: 'Done',
         color: '#22C55E',
         order: 1,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
         tasks: [],
@@ -396,21 +479,7 @@ describe('useRealtimeBoardState', () => {
 
       // Get the callbacks passed to useRealtimeBoard
       // The hook sets up handlers internally, we test the logic by calling setBoard
-      const newTask: Task = {
-        id: 'task-2',
-        board_id: 'board-1',
-        status_id: 'status-1',
-        title: 'New Task',
-        description: null,
-        priority: 'high',
-        tags: [],
-        assignee_name: null,
-        assignee_color: null,
-        due_date: null,
-        order: 1,
-        created_at: '2024-01-01T00:00:00Z',
-        updated_at: '2024-01-01T00:00:00Z',
-      };
+      const newTask = makeTask({ id: 'task-2', title: 'New Task', priority: 'high', order: 1 });
 
       // Test the update logic manually
       const updatedBoard = {
@@ -506,6 +575,8 @@ describe('useRealtimeBoardState', () => {
         name: 'In Progress',
         color: '#F59E0B',
         order: 2,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
         tasks: [],
@@ -589,21 +660,12 @@ describe('useRealtimeBoardState', () => {
 
       renderHook(() => useRealtimeBoardState(board, setBoard));
 
-      const newTask: Task = {
+      const newTask = makeTask({
         id: 'task-new',
-        board_id: 'board-1',
-        status_id: 'status-1',
         title: 'New Task from Realtime',
-        description: null,
         priority: 'medium',
-        tags: [],
-        assignee_name: null,
-        assignee_color: null,
-        due_date: null,
         order: 1,
-        created_at: '2024-01-01T00:00:00Z',
-        updated_at: '2024-01-01T00:00:00Z',
-      };
+      });
 
       act(() => {
         triggerEvent('tasks', 'INSERT', { new: newTask });
@@ -700,6 +762,8 @@ describe('useRealtimeBoardState', () => {
         name: 'New Status',
         color: '#FF00FF',
         order: 2,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -0,0 +1,55 @@
+import { act, renderHook } from '@testing-library/react';
+import { useTaskSelection } from '../useTaskSelection';
+import type { NavigationColumn } from '@/lib/tasks';
+import type { Task } from '@/types/board';
+
+describe('useTaskSelection', () => {
+  const columns: NavigationColumn[] = [
+    { statusId: 'todo', taskIds: ['task-1', 'task-2'] },
+    { statusId: 'done', taskIds: ['task-3', 'task-4'] },
+  ];
+
+  const task = (id: string) => ({ id }) as Task;
+
+  it('should toggle single cards', () => {
+    const { result } = renderHook(() => useTaskSelection(columns));
+
+    act(() => result.current.onSelect(task('task-1'), { range: false }));
+    act(() => result.current.onSelect(task('task-3'), { range: false }));
+    expect(Array.from(result.current.selectedIds)).toEqual(['task-1', 'task-3']);
+
+    act(() => result.current.onSelect(task('task-1'), { range: false }));
+    expect(Array.from(result.current.selectedIds)).toEqual(['task-3']);
+  });
+
+  it('should select a range across columns from the last toggled card', () => {
+    const { result } = renderHook(() => useTaskSelection(columns));
+
+    act(() => result.current.toggle('task-4'));
+    act(() => result.current.selectRange('task-2'));
+
+    expect(Array.from(result.current.selectedIds).sort()).toEqual(['task-2', 'task-3', 'task-4']);
+  });
+
+  it('should toggle when there is no anchor for a range', () => {
+    const { result } = renderHook(() => useTaskSelection(columns));
+
+    act(() => result.current.onSelect(task('task-2'), { range: true }));
+
+    expect(Array.from(result.current.selectedIds)).toEqual(['task-2']);
+  });
+
+  it('should drop cards that leave the board and clear', () => {
+    const { result, rerender } = renderHook(({ cols }) => useTaskSelection(cols), {
+      initialProps: { cols: columns },
+    });
+
+    act(() => result.current.toggle('task-1'));
+    act(() => result.current.toggle('task-3'));
+    rerender({ cols: [{ statusId: 'todo', taskIds: ['task-1'] }] });
+    expect(Array.from(result.current.selectedIds)).toEqual(['task-1']);
+
+    act(() => result.current.clear());
+    expect(result.current.selectedIds.size).toBe(0);
+  });
+});
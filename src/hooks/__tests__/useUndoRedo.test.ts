@@ -0,0 +1,127 @@
+import { renderHook, act } from '@testing-library/react';
+import { useUndoRedo } from '../useUndoRedo';
+import { UndoConflictError, type UndoableCommand } from '@/lib/undo';
+
+const makeCommand = (label = 'Edit task'): UndoableCommand => ({
+  label,
+  undo: jest.fn().mockResolvedValue(undefined),
+  redo: jest.fn().mockResolvedValue(undefined),
+});
+
+const pressKey = async (key: string, options: KeyboardEventInit = {}) => {
+  await act(async () => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { key, ctrlKey: true, ...options }));
+  });
+};
+
+describe('useUndoRedo', () => {
+  it('should undo and redo recorded commands', async () => {
+    const onUndo = jest.fn();
+    const onRedo = jest.fn();
+    const command = makeCommand();
+    const { result } = renderHook(() => useUndoRedo({ onUndo, onRedo }));
+
+    act(() => result.current.record(command));
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.undoLabel).toBe('Edit task');
+
+    await act(() => result.current.undo());
+    expect(command.undo).toHaveBeenCalledTimes(1);
+    expect(onUndo).toHaveBeenCalledWith(command);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(true);
+
+    await act(() => result.current.redo());
+    expect(command.redo).toHaveBeenCalledTimes(1);
+    expect(onRedo).toHaveBeenCalledWith(command);
+    expect(result.current.canUndo).toBe(true);
+  });
+
+  it('should ignore null commands', () => {
+    const { result } = renderHook(() => useUndoRedo());
+
+    act(() => result.current.record(null));
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('should respond to Ctrl+Z, Ctrl+Y and Ctrl+Shift+Z', async () => {
+    const command = makeCommand();
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => result.current.record(command));
+
+    await pressKey('z');
+    expect(command.undo).toHaveBeenCalledTimes(1);
+
+    await pressKey('y');
+    expect(command.redo).toHaveBeenCalledTimes(1);
+
+    await pressKey('z');
+    await pressKey('Z', { shiftKey: true });
+    expect(command.redo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave shortcuts in text fields alone', async () => {
+    const command = makeCommand();
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => result.current.record(command));
+
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    await act(async () => {
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true }));
+    });
+    input.remove();
+
+    expect(command.undo).not.toHaveBeenCalled();
+  });
+
+  it('should not listen when disabled', async () => {
+    const command = makeCommand();
+    const { result } = renderHook(() => useUndoRedo({ enabled: false }));
+    act(() => result.current.record(command));
+
+    await pressKey('z');
+    expect(command.undo).not.toHaveBeenCalled();
+  });
+
+  it('should drop commands that conflict with remote changes', async () => {
+    const onError = jest.fn();
+    const command = makeCommand();
+    (command.undo as jest.Mock).mockRejectedValue(new UndoConflictError());
+    const { result } = renderHook(() => useUndoRedo({ onError }));
+    act(() => result.current.record(command));
+
+    await act(() => result.current.undo());
+
+    expect(onError).toHaveBeenCalledWith(expect.any(UndoConflictError), command);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should keep commands that failed for other reasons', async () => {
+    const onError = jest.fn();
+    const command = makeCommand();
+    (command.undo as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+    const { result } = renderHook(() => useUndoRedo({ onError }));
+    act(() => result.current.record(command));
+
+    await act(() => result.current.undo());
+    expect(onError).toHaveBeenCalledWith(new Error('Network error'), command);
+    expect(result.current.canUndo).toBe(true);
+  });
+
+  it('should only undo a specific command while it is the latest', async () => {
+    const onError = jest.fn();
+    const older = makeCommand('Create task');
+    const newer = makeCommand('Move task');
+    const { result } = renderHook(() => useUndoRedo({ onError }));
+    act(() => {
+      result.current.record(older);
+      result.current.record(newer);
+    });
+
+    await act(() => result.current.undo(older));
+    expect(older.undo).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(new Error('Undo the newer changes first'), older);
+  });
+});
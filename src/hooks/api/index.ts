@@ -5,6 +5,7 @@
 export {
   useBoards,
   useBoard,
+  useBoardMembers,
   useCreateBoard,
   useUpdateBoard,
   useDeleteBoard,
@@ -26,7 +27,78 @@ export {
   useDeleteTaskMutation,
   useMoveTaskMutation,
   useReorderTasksMutation,
+  useBulkTaskMutation,
   useCreateStatusMutation,
   useUpdateStatusMutation,
   useDeleteStatusMutation,
+  useBoardCommands,
+  type TaskUpdates,
+  type StatusInput,
+  type TaskWarning,
 } from './useBoardMutations';
+
+export {
+  useChecklist,
+  useCreateChecklistItem,
+  useUpdateChecklistItem,
+  useDeleteChecklistItem,
+  type ChecklistItemInput,
+} from './useChecklist';
+
+export {
+  useTimeEntries,
+  useToggleTimer,
+  useLogTime,
+  useUpdateTimeEntry,
+  useDeleteTimeEntry,
+  useTimeReport,
+  type TimeEntryInput,
+} from './useTimeEntries';
+
+export { useImportBoard, type ImportBoardInput, type ImportBoardResult } from './useBoardImport';
+
+export {
+  useWebhooks,
+  useWebhookDeliveries,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  useTestWebhook,
+  type WebhookInput,
+} from './useWebhooks';
+
+export {
+  useComments,
+  useAddComment,
+  useUpdateComment,
+  useDeleteComment,
+  useToggleCommentReaction,
+  useCommentRevisions,
+} from './useComments';
+
+export {
+  useBoardSubscription,
+  useTaskSubscription,
+  useSetBoardSubscription,
+  useSetTaskSubscription,
+  type TaskSubscriptionState,
+} from './useSubscriptions';
+
+export { useSavedFilters, useSaveFilter, useDeleteSavedFilter } from './useSavedFilters';
+
+export {
+  useNotifications,
+  useUnreadNotificationCount,
+  useUpdateNotifications,
+  useDeleteNotifications,
+  NOTIFICATION_PAGE_SIZE,
+  type NotificationFilters,
+  type NotificationAction,
+  type UpdateNotificationsInput,
+} from './useNotifications';
+
+export { useAttachments, useUploadAttachment, useDeleteAttachment } from './useAttachments';
+
+export { useBoardActivities, ACTIVITY_PAGE_SIZE } from './useActivities';
+
+export { useRealtimeCacheHandlers, type RealtimeCacheHandlers } from './useRealtimeCacheHandlers';
@@ -0,0 +1,39 @@
+/**
+ * React Query hooks for the board activity feed
+ * Realtime events prepend to the first page, see useRealtimeCacheHandlers
+ */
+
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import type { Activity } from '@/types/board';
+
+export const ACTIVITY_PAGE_SIZE = 20;
+
+/**
+ * Fetch a board's activity feed, newest first, one page at a time
+ * The API pages by offset, so a full page means there may be more
+ */
+export function useBoardActivities(boardId: string, options: { enabled?: boolean } = {}) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.activities.byBoard(boardId),
+    queryFn: async ({ pageParam }): Promise<Activity[]> => {
+      const response = await fetch(
+        `/api/boards/${boardId}/activities?limit=${ACTIVITY_PAGE_SIZE}&offset=${pageParam}`
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to fetch activities');
+      }
+
+      const { activities } = await response.json();
+      return activities || [];
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < ACTIVITY_PAGE_SIZE
+        ? undefined
+        : allPages.reduce((count, page) => count + page.length, 0),
+    enabled: !!boardId && options.enabled !== false,
+  });
+}
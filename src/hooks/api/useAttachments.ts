@@ -0,0 +1,89 @@
+/**
+ * React Query hooks for task attachments
+ * Realtime events patch the same cache, see useRealtimeCacheHandlers
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import { removeById, upsertById } from '@/lib/react-query/cacheUpdates';
+import type { Attachment } from '@/types/board';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+/**
+ * Fetch a task's attachments with signed download URLs, newest first
+ */
+export function useAttachments(boardId: string, taskId: string) {
+  return useQuery({
+    queryKey: queryKeys.attachments.byTask(taskId),
+    queryFn: async (): Promise<Attachment[]> => {
+      const response = await fetch(`/api/boards/${boardId}/tasks/${taskId}/attachments`);
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to fetch attachments');
+      }
+
+      const { attachments } = await response.json();
+      return attachments || [];
+    },
+    enabled: !!taskId,
+  });
+}
+
+/**
+ * Upload a single file
+ */
+export function useUploadAttachment(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (file: File): Promise<Attachment> => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}/attachments`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to upload file');
+      }
+
+      const { attachment } = await response.json();
+      return attachment;
+    },
+    onSuccess: (attachment) => {
+      queryClient.setQueryData<Attachment[]>(queryKeys.attachments.byTask(taskId), (old) =>
+        upsertById(old || [], attachment, 'start')
+      );
+    },
+  });
+}
+
+/**
+ * Delete an attachment and its stored file
+ */
+export function useDeleteAttachment(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (attachmentId: string): Promise<void> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/attachments?attachmentId=${attachmentId}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to delete attachment');
+      }
+    },
+    onSuccess: (_data, attachmentId) => {
+      queryClient.setQueryData<Attachment[]>(queryKeys.attachments.byTask(taskId), (old) =>
+        old ? removeById(old, attachmentId) : old
+      );
+    },
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * React Query hook for importing tasks into a board
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import type { ImportPreview } from '@/lib/import';
+import type { CsvColumnMapping, ImportSource } from '@/lib/validation';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+export interface ImportBoardInput {
+  source: ImportSource;
+  content: string;
+  mapping?: CsvColumnMapping;
+  /** Only validate and return a preview */
+  dry_run: boolean;
+}
+
+export interface ImportBoardResult {
+  preview: ImportPreview;
+  /** Row counts written, absent for dry runs */
+  result?: {
+    statuses_created: number;
+    tasks_created: number;
+    checklist_items_created: number;
+    comments_created: number;
+  };
+}
+
+/**
+ * Preview or run an import; the board is refetched once tasks are written
+ */
+export function useImportBoard(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ImportBoardInput): Promise<ImportBoardResult> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || 'Failed to import');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, { dry_run }) => {
+      if (!dry_run) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
+      }
+    },
+  });
+}
@@ -2,11 +2,93 @@
  * React Query mutations for Board operations with optimistic updates
  */
 
+import { useMemo } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from '@/lib/react-query/queryKeys';
-import type { Task, Status } from '@/types/board';
+import type { EstimateUnit, Task, Status, WipLimitMode } from '@/types/board';
+import { applyBulkAction, applyLaneChange, type LaneChange } from '@/lib/tasks';
+import type { BulkTaskAction } from '@/lib/validation';
 import type { BoardDetailResponse } from './useBoards';
 import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+import { createBoardCommands, getTaskSnapshot } from '@/lib/undo';
+import {
+  TEMP_TASK_PREFIX,
+  getMutationQueue,
+  isNetworkError,
+  isOffline,
+  isTempTaskId,
+  type NewQueuedMutation,
+  type QueuedTaskBase,
+} from '@/lib/offline';
+
+/**
+ * Task fields accepted by the update endpoint
+ * `assignee_ids` replaces the task's assignees with the given board members
+ */
+export type TaskUpdates = Partial<Task> & { assignee_ids?: string[] };
+
+/**
+ * Fields accepted by the status create/update endpoints
+ */
+export interface StatusInput {
+  name?: string;
+  color?: string;
+  order?: number;
+  wip_limit?: number | null;
+  wip_limit_mode?: WipLimitMode;
+}
+
+/**
+ * Non-blocking warning returned by task create/update/move, e.g. a soft WIP limit being exceeded
+ */
+export interface TaskWarning {
+  code: 'WIP_LIMIT_EXCEEDED';
+  message: string;
+}
+
+/**
+ * Cached task a mutation was started on, before its optimistic update
+ * Keyed by the mutation variables, which React Query passes to both onMutate and
+ * mutationFn; for creates this is the optimistic task itself
+ */
+const mutationTasks = new WeakMap<object, Task>();
+
+/** The same for deletes, whose variables are the task id; entries are removed once read */
+const deletedTasks = new Map<string, Task>();
+
+function findCachedTask(data: BoardDetailResponse | undefined, taskId: string): Task | undefined {
+  return data?.board.statuses.flatMap((status) => status.tasks).find((task) => task.id === taskId);
+}
+
+function getTaskBase(task: Task | undefined): QueuedTaskBase | null {
+  return task && !isTempTaskId(task.id)
+    ? { ...getTaskSnapshot(task), updated_at: task.updated_at }
+    : null;
+}
+
+/**
+ * Send a task request, or queue it for replay when the server cannot be reached
+ * While earlier offline changes for the board are still queued, new ones queue
+ * behind them so the server applies them in order. Returns null when queued.
+ */
+async function sendOrQueue(
+  mutation: NewQueuedMutation,
+  request: () => Promise<Response>
+): Promise<Response | null> {
+  const queue = getMutationQueue();
+
+  if (!isOffline() && !queue.hasPending(mutation.boardId)) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await queue.enqueue(mutation);
+  if (!isOffline()) void queue.replay();
+  return null;
+}
 
 /**
  * Update board data in cache optimistically
@@ -29,23 +111,51 @@ export function useCreateTaskMutation(boardId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
+    // Run while offline too, so the request can be queued instead of paused
+    networkMode: 'always',
     mutationFn: async (data: {
       title: string;
-      description?: string;
+      description?: string | null;
       status_id: string;
-      priority?: string;
-      due_date?: string;
-    }): Promise<Task> => {
-      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      });
+      priority?: string | null;
+      due_date?: string | null;
+      start_date?: string | null;
+      estimate?: number | null;
+      estimate_unit?: EstimateUnit;
+      tags?: string[];
+      lane?: string | null;
+      recurrence_rule?: string | null;
+      assignee_ids?: string[];
+      assignee_name?: string | null;
+      assignee_color?: string | null;
+    }): Promise<{ task: Task; warning?: TaskWarning; queued?: boolean }> => {
+      const optimisticTask = mutationTasks.get(data);
+      const response = await sendOrQueue(
+        {
+          boardId,
+          kind: 'createTask',
+          taskId: optimisticTask?.id ?? null,
+          body: data,
+          base: null,
+          label: data.title,
+        },
+        () =>
+          fetchWithCsrf(`/api/boards/${boardId}/tasks`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data),
+          })
+      );
 
-      if (!response.ok) throw new Error('Failed to create task');
+      if (!response) return { task: optimisticTask!, queued: true };
 
-      const { task } = await response.json();
-      return task;
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to create task');
+      }
+
+      const { task, warning } = await response.json();
+      return { task, warning };
     },
     onMutate: async (newTask) => {
       // Cancel outgoing refetches
@@ -56,26 +166,34 @@ export function useCreateTaskMutation(boardId: string) {
         queryKeys.boards.detail(boardId)
       );
 
+      const optimisticTask: Task = {
+        id: `${TEMP_TASK_PREFIX}${Date.now()}`,
+        board_id: boardId,
+        status_id: newTask.status_id,
+        title: newTask.title,
+        description: newTask.description || null,
+        priority: (newTask.priority as Task['priority']) || null,
+        tags: newTask.tags || [],
+        assignee_name: newTask.assignee_name || null,
+        assignee_color: newTask.assignee_color || null,
+        due_date: newTask.due_date || null,
+        lane: newTask.lane || null,
+        recurrence_rule: newTask.recurrence_rule || null,
+        next_occurrence_id: null,
+        start_date: newTask.start_date || null,
+        estimate: newTask.estimate ?? null,
+        estimate_unit: newTask.estimate_unit || 'hours',
+        order: 999,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        assignees: [],
+      };
+      mutationTasks.set(newTask, optimisticTask);
+
       // Optimistically update
       updateBoardCache(queryClient, boardId, (old) => {
         if (!old) return old;
 
-        const optimisticTask: Task = {
-          id: `temp-${Date.now()}`,
-          board_id: boardId,
-          status_id: newTask.status_id,
-          title: newTask.title,
-          description: newTask.description || null,
-          priority: (newTask.priority as Task['priority']) || null,
-          tags: [],
-          assignee_name: null,
-          assignee_color: null,
-          due_date: newTask.due_date || null,
-          order: 999,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        };
-
         return {
           ...old,
           board: {
@@ -100,9 +218,9 @@ export function useCreateTaskMutation(boardId: string) {
         queryClient.setQueryData(queryKeys.boards.detail(boardId), context.previousData);
       }
     },
-    onSuccess: () => {
-      // Refetch to get real data
-      queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
+    onSuccess: ({ queued }) => {
+      // Refetch to get real data; queued tasks are refreshed once replayed
+      if (!queued) queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
     },
   });
 }
@@ -114,32 +232,57 @@ export function useUpdateTaskMutation(boardId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({
-      taskId,
-      updates,
-    }: {
+    networkMode: 'always',
+    mutationFn: async (variables: {
       taskId: string;
-      updates: Partial<Task>;
-    }): Promise<Task> => {
-      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updates),
-      });
+      updates: TaskUpdates;
+    }): Promise<{
+      task: Task | null;
+      warning?: TaskWarning;
+      nextOccurrence: Task | null;
+      queued?: boolean;
+    }> => {
+      const { taskId, updates } = variables;
+      const previousTask = mutationTasks.get(variables);
+      const response = await sendOrQueue(
+        {
+          boardId,
+          kind: 'updateTask',
+          taskId,
+          body: updates,
+          base: getTaskBase(previousTask),
+          label: previousTask?.title ?? updates.title ?? 'Task',
+        },
+        () =>
+          fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(updates),
+          })
+      );
 
-      if (!response.ok) throw new Error('Failed to update task');
+      if (!response) return { task: null, nextOccurrence: null, queued: true };
 
-      const { task } = await response.json();
-      return task;
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to update task');
+      }
+
+      const { task, warning, next_occurrence } = await response.json();
+      return { task, warning, nextOccurrence: next_occurrence ?? null };
     },
-    onMutate: async ({ taskId, updates }) => {
+    onMutate: async (variables) => {
+      const { taskId, updates } = variables;
       await queryClient.cancelQueries({ queryKey: queryKeys.boards.detail(boardId) });
 
       const previousData = queryClient.getQueryData<BoardDetailResponse>(
         queryKeys.boards.detail(boardId)
       );
+      const previousTask = findCachedTask(previousData, taskId);
+      if (previousTask) mutationTasks.set(variables, previousTask);
 
-      // Optimistically update
+      // Optimistically update (assignees are refreshed from the server)
+      const { assignee_ids: _assigneeIds, ...taskUpdates } = updates;
       updateBoardCache(queryClient, boardId, (old) => {
         if (!old) return old;
 
@@ -150,7 +293,7 @@ export function useUpdateTaskMutation(boardId: string) {
             statuses: old.board.statuses.map((status) => ({
               ...status,
               tasks: status.tasks.map((task) =>
-                task.id === taskId ? { ...task, ...updates } : task
+                task.id === taskId ? { ...task, ...taskUpdates } : task
               ),
             })),
           },
@@ -164,8 +307,8 @@ export function useUpdateTaskMutation(boardId: string) {
         queryClient.setQueryData(queryKeys.boards.detail(boardId), context.previousData);
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
+    onSuccess: ({ queued }) => {
+      if (!queued) queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
     },
   });
 }
@@ -177,12 +320,28 @@ export function useDeleteTaskMutation(boardId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (taskId: string): Promise<void> => {
-      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}`, {
-        method: 'DELETE',
-      });
+    networkMode: 'always',
+    mutationFn: async (taskId: string): Promise<{ queued: boolean }> => {
+      const previousTask = deletedTasks.get(taskId);
+      deletedTasks.delete(taskId);
+      const response = await sendOrQueue(
+        {
+          boardId,
+          kind: 'deleteTask',
+          taskId,
+          body: null,
+          base: getTaskBase(previousTask),
+          label: previousTask?.title ?? 'Task',
+        },
+        () =>
+          fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}`, {
+            method: 'DELETE',
+          })
+      );
 
+      if (!response) return { queued: true };
       if (!response.ok) throw new Error('Failed to delete task');
+      return { queued: false };
     },
     onMutate: async (taskId) => {
       await queryClient.cancelQueries({ queryKey: queryKeys.boards.detail(boardId) });
@@ -190,6 +349,8 @@ export function useDeleteTaskMutation(boardId: string) {
       const previousData = queryClient.getQueryData<BoardDetailResponse>(
         queryKeys.boards.detail(boardId)
       );
+      const previousTask = findCachedTask(previousData, taskId);
+      if (previousTask) deletedTasks.set(taskId, previousTask);
 
       // Optimistically remove
       updateBoardCache(queryClient, boardId, (old) => {
@@ -214,8 +375,8 @@ export function useDeleteTaskMutation(boardId: string) {
         queryClient.setQueryData(queryKeys.boards.detail(boardId), context.previousData);
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
+    onSuccess: ({ queued }) => {
+      if (!queued) queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
     },
   });
 }
@@ -227,42 +388,73 @@ export function useMoveTaskMutation(boardId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({
-      taskId,
-      newStatusId,
-      newOrder,
-    }: {
+    networkMode: 'always',
+    mutationFn: async (variables: {
       taskId: string;
       newStatusId: string;
       newOrder: number;
-    }): Promise<void> => {
-      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}/move`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          status_id: newStatusId,
-          order: newOrder,
-        }),
-      });
+      /** Swimlane attribute change when the task was dropped into another lane */
+      lane?: LaneChange;
+    }): Promise<{ warning?: TaskWarning; nextOccurrence: Task | null; queued?: boolean }> => {
+      const { taskId, newStatusId, newOrder, lane } = variables;
+      const previousTask = mutationTasks.get(variables);
+      const body = { status_id: newStatusId, order: newOrder, lane };
+      const response = await sendOrQueue(
+        {
+          boardId,
+          kind: 'moveTask',
+          taskId,
+          body,
+          base: getTaskBase(previousTask),
+          label: previousTask?.title ?? 'Task',
+        },
+        () =>
+          fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}/move`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          })
+      );
 
-      if (!response.ok) throw new Error('Failed to move task');
+      if (!response) return { nextOccurrence: null, queued: true };
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to move task');
+      }
+
+      const { warning, next_occurrence } = await response.json();
+      return { warning, nextOccurrence: next_occurrence ?? null };
     },
-    onMutate: async ({ taskId, newStatusId, newOrder }) => {
+    onMutate: async (variables) => {
+      const { taskId, newStatusId, newOrder, lane } = variables;
       await queryClient.cancelQueries({ queryKey: queryKeys.boards.detail(boardId) });
 
       const previousData = queryClient.getQueryData<BoardDetailResponse>(
         queryKeys.boards.detail(boardId)
       );
+      const previousTask = findCachedTask(previousData, taskId);
+      if (previousTask) mutationTasks.set(variables, previousTask);
 
       // Optimistically move task
       updateBoardCache(queryClient, boardId, (old) => {
         if (!old) return old;
 
+        // Reuse a known profile so the new assignee's avatar shows straight away
+        const laneProfile =
+          lane?.field === 'assignee'
+            ? old.board.statuses
+                .flatMap((status) => status.tasks)
+                .flatMap((task) => task.assignees || [])
+                .find((assignee) => assignee.user_id === lane.value)?.profile
+            : undefined;
+
         let taskToMove: Task | undefined;
         const newStatuses = old.board.statuses.map((status) => {
           const task = status.tasks.find((t) => t.id === taskId);
           if (task) {
-            taskToMove = { ...task, status_id: newStatusId, order: newOrder };
+            const movedTask = lane ? applyLaneChange(task, lane, laneProfile) : task;
+            taskToMove = { ...movedTask, status_id: newStatusId, order: newOrder };
             return {
               ...status,
               tasks: status.tasks.filter((t) => t.id !== taskId),
@@ -296,8 +488,8 @@ export function useMoveTaskMutation(boardId: string) {
         queryClient.setQueryData(queryKeys.boards.detail(boardId), context.previousData);
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
+    onSuccess: ({ queued }) => {
+      if (!queued) queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
     },
   });
 }
@@ -309,16 +501,22 @@ export function useReorderTasksMutation(boardId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (tasks: Task[]): Promise<void> => {
-      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/reorder`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          tasks: tasks.map((t) => ({ id: t.id, order: t.order })),
-        }),
-      });
+    networkMode: 'always',
+    mutationFn: async (tasks: Task[]): Promise<{ queued: boolean }> => {
+      const body = { tasks: tasks.map((t) => ({ id: t.id, order: t.order })) };
+      const response = await sendOrQueue(
+        { boardId, kind: 'reorderTasks', taskId: null, body, base: null, label: 'Task order' },
+        () =>
+          fetchWithCsrf(`/api/boards/${boardId}/tasks/reorder`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          })
+      );
 
+      if (!response) return { queued: true };
       if (!response.ok) throw new Error('Failed to reorder tasks');
+      return { queued: false };
     },
     onMutate: async (reorderedTasks) => {
       await queryClient.cancelQueries({ queryKey: queryKeys.boards.detail(boardId) });
@@ -357,7 +555,68 @@ export function useReorderTasksMutation(boardId: string) {
         queryClient.setQueryData(queryKeys.boards.detail(boardId), context.previousData);
       }
     },
-    onSuccess: () => {
+    onSuccess: ({ queued }) => {
+      if (!queued) queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
+    },
+  });
+}
+
+/**
+ * Apply one action to several tasks with optimistic update
+ * Bulk changes are not queued offline; the whole request succeeds or fails
+ */
+export function useBulkTaskMutation(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      taskIds,
+      action,
+    }: {
+      taskIds: string[];
+      action: BulkTaskAction;
+    }): Promise<{ warning?: TaskWarning; nextOccurrences: Task[] }> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/bulk`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ task_ids: taskIds, action }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to update tasks');
+      }
+
+      const { warning, next_occurrences } = await response.json();
+      return { warning, nextOccurrences: next_occurrences ?? [] };
+    },
+    onMutate: async ({ taskIds, action }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.boards.detail(boardId) });
+
+      const previousData = queryClient.getQueryData<BoardDetailResponse>(
+        queryKeys.boards.detail(boardId)
+      );
+
+      updateBoardCache(queryClient, boardId, (old) => {
+        if (!old) return old;
+
+        // Reuse known profiles so new assignees' avatars show straight away
+        const profiles = old.board.statuses
+          .flatMap((status) => status.tasks)
+          .flatMap((task) => task.assignees || [])
+          .flatMap((assignee) => (assignee.profile ? [assignee.profile] : []));
+
+        return { ...old, board: applyBulkAction(old.board, taskIds, action, profiles) };
+      });
+
+      return { previousData };
+    },
+    onError: (err, variables, context) => {
+      if (context?.previousData) {
+        queryClient.setQueryData(queryKeys.boards.detail(boardId), context.previousData);
+      }
+    },
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
     },
   });
@@ -370,7 +629,7 @@ export function useCreateStatusMutation(boardId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: { name: string; color: string }): Promise<Status> => {
+    mutationFn: async (data: StatusInput & { name: string; color: string }): Promise<Status> => {
       const response = await fetchWithCsrf(`/api/boards/${boardId}/statuses`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -400,7 +659,7 @@ export function useUpdateStatusMutation(boardId: string) {
       data,
     }: {
       statusId: string;
-      data: { name?: string; color?: string };
+      data: StatusInput;
     }): Promise<Status> => {
       const response = await fetchWithCsrf(`/api/boards/${boardId}/statuses/${statusId}`, {
         method: 'PUT',
@@ -444,3 +703,65 @@ export function useDeleteStatusMutation(boardId: string) {
     },
   });
 }
+
+/**
+ * Undoable commands for the board's task and status operations
+ * Commands send their requests through the mutations above and compare against
+ * the cached board, which realtime refetches keep current
+ */
+export function useBoardCommands(boardId: string) {
+  const queryClient = useQueryClient();
+  const { mutateAsync: createTask } = useCreateTaskMutation(boardId);
+  const { mutateAsync: updateTask } = useUpdateTaskMutation(boardId);
+  const { mutateAsync: deleteTask } = useDeleteTaskMutation(boardId);
+  const { mutateAsync: moveTask } = useMoveTaskMutation(boardId);
+  const { mutateAsync: reorderTasks } = useReorderTasksMutation(boardId);
+  const { mutateAsync: createStatus } = useCreateStatusMutation(boardId);
+  const { mutateAsync: updateStatus } = useUpdateStatusMutation(boardId);
+  const { mutateAsync: deleteStatus } = useDeleteStatusMutation(boardId);
+
+  return useMemo(() => {
+    const getStatuses = () =>
+      queryClient.getQueryData<BoardDetailResponse>(queryKeys.boards.detail(boardId))?.board
+        .statuses || [];
+
+    return createBoardCommands({
+      api: {
+        createTask: async (input) => (await createTask(input)).task,
+        updateTask: async (taskId, updates) => {
+          await updateTask({ taskId, updates });
+        },
+        deleteTask: async (taskId) => {
+          await deleteTask(taskId);
+        },
+        moveTask: async (taskId, newStatusId, newOrder, lane) => {
+          await moveTask({ taskId, newStatusId, newOrder, lane });
+        },
+        reorderTasks: async (tasks) => {
+          await reorderTasks(tasks);
+        },
+        createStatus: (input) => createStatus(input),
+        updateStatus: async (statusId, data) => {
+          await updateStatus({ statusId, data });
+        },
+        deleteStatus: (statusId) => deleteStatus(statusId),
+      },
+      getTask: (taskId) =>
+        getStatuses()
+          .flatMap((status) => status.tasks)
+          .find((task) => task.id === taskId),
+      getStatus: (statusId) => getStatuses().find((status) => status.id === statusId),
+    });
+  }, [
+    boardId,
+    queryClient,
+    createTask,
+    updateTask,
+    deleteTask,
+    moveTask,
+    reorderTasks,
+    createStatus,
+    updateStatus,
+    deleteStatus,
+  ]);
+}
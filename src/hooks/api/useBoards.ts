@@ -4,7 +4,7 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from '@/lib/react-query/queryKeys';
-import type { Board, BoardWithData, CreateBoardRequest } from '@/types/board';
+import type { Board, BoardMember, BoardWithData, CreateBoardRequest } from '@/types/board';
 import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
 
 /**
@@ -73,6 +73,30 @@ export function useBoard(boardId: string | null) {
   });
 }
 
+/**
+ * Fetch members of a board (owner included) with their profiles
+ * Used to pick assignees for tasks
+ */
+export function useBoardMembers(boardId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.boards.members(boardId || ''),
+    queryFn: async (): Promise<BoardMember[]> => {
+      if (!boardId) return [];
+
+      const response = await fetch(`/api/boards/${boardId}/members`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch board members');
+      }
+
+      const { members } = await response.json();
+      return members || [];
+    },
+    enabled: !!boardId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
 /**
  * Create a new board
  * Uses API endpoint to support templates
@@ -0,0 +1,192 @@
+/**
+ * React Query hooks for task checklists
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import type { ChecklistItem } from '@/types/board';
+import type { BoardDetailResponse } from './useBoards';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+export interface ChecklistItemInput {
+  title?: string;
+  is_completed?: boolean;
+  parent_id?: string | null;
+  assignee_id?: string | null;
+  due_date?: string | null;
+  order?: number;
+}
+
+/**
+ * Mirror checklist completion onto the task in the board cache so card progress updates instantly
+ */
+function updateTaskProgress(
+  queryClient: ReturnType<typeof useQueryClient>,
+  boardId: string,
+  taskId: string,
+  items: ChecklistItem[]
+) {
+  queryClient.setQueryData<BoardDetailResponse>(queryKeys.boards.detail(boardId), (old) => {
+    if (!old) return old;
+
+    return {
+      ...old,
+      board: {
+        ...old.board,
+        statuses: old.board.statuses.map((status) => ({
+          ...status,
+          tasks: status.tasks.map((task) =>
+            task.id === taskId
+              ? {
+                  ...task,
+                  checklist_items: items.map(({ id, is_completed }) => ({ id, is_completed })),
+                }
+              : task
+          ),
+        })),
+      },
+    };
+  });
+}
+
+/**
+ * Fetch checklist items for a task
+ */
+export function useChecklist(boardId: string, taskId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.checklist.byTask(taskId || ''),
+    queryFn: async (): Promise<ChecklistItem[]> => {
+      if (!taskId) return [];
+
+      const response = await fetch(`/api/boards/${boardId}/tasks/${taskId}/checklist`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch checklist');
+      }
+
+      const { items } = await response.json();
+      return items || [];
+    },
+    enabled: !!taskId,
+  });
+}
+
+/**
+ * Add a checklist item
+ */
+export function useCreateChecklistItem(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: ChecklistItemInput & { title: string }): Promise<ChecklistItem> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}/checklist`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || 'Failed to add checklist item');
+      }
+
+      const { item } = await response.json();
+      return item;
+    },
+    onSuccess: (item) => {
+      const items = [
+        ...(queryClient.getQueryData<ChecklistItem[]>(queryKeys.checklist.byTask(taskId)) || []),
+        item,
+      ];
+      queryClient.setQueryData(queryKeys.checklist.byTask(taskId), items);
+      updateTaskProgress(queryClient, boardId, taskId, items);
+    },
+  });
+}
+
+/**
+ * Update a checklist item with optimistic update (used for check/uncheck)
+ */
+export function useUpdateChecklistItem(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      itemId,
+      updates,
+    }: {
+      itemId: string;
+      updates: ChecklistItemInput;
+    }): Promise<ChecklistItem> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/checklist/${itemId}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || 'Failed to update checklist item');
+      }
+
+      const { item } = await response.json();
+      return item;
+    },
+    onMutate: async ({ itemId, updates }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.checklist.byTask(taskId) });
+
+      const previousItems = queryClient.getQueryData<ChecklistItem[]>(
+        queryKeys.checklist.byTask(taskId)
+      );
+
+      if (previousItems) {
+        const items = previousItems.map((item) =>
+          item.id === itemId ? { ...item, ...updates } : item
+        );
+        queryClient.setQueryData(queryKeys.checklist.byTask(taskId), items);
+        updateTaskProgress(queryClient, boardId, taskId, items);
+      }
+
+      return { previousItems };
+    },
+    onError: (err, variables, context) => {
+      if (context?.previousItems) {
+        queryClient.setQueryData(queryKeys.checklist.byTask(taskId), context.previousItems);
+        updateTaskProgress(queryClient, boardId, taskId, context.previousItems);
+      }
+    },
+    onSuccess: (item) => {
+      queryClient.setQueryData<ChecklistItem[]>(queryKeys.checklist.byTask(taskId), (old) =>
+        old?.map((i) => (i.id === item.id ? item : i))
+      );
+    },
+  });
+}
+
+/**
+ * Delete a checklist item (sub-items are removed with it)
+ */
+export function useDeleteChecklistItem(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (itemId: string): Promise<void> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/checklist/${itemId}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) throw new Error('Failed to delete checklist item');
+    },
+    onSuccess: (_, itemId) => {
+      const items = (
+        queryClient.getQueryData<ChecklistItem[]>(queryKeys.checklist.byTask(taskId)) || []
+      ).filter((item) => item.id !== itemId && item.parent_id !== itemId);
+      queryClient.setQueryData(queryKeys.checklist.byTask(taskId), items);
+      updateTaskProgress(queryClient, boardId, taskId, items);
+    },
+  });
+}
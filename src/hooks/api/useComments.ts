@@ -0,0 +1,200 @@
+/**
+ * React Query hooks for task comments
+ * Realtime events patch the same cache, see useRealtimeCacheHandlers
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import { removeById, upsertById } from '@/lib/react-query/cacheUpdates';
+import type { Comment, CommentReaction, CommentRevision } from '@/types/board';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+/**
+ * Fetch a task's comments, oldest first
+ */
+export function useComments(boardId: string, taskId: string) {
+  return useQuery({
+    queryKey: queryKeys.comments.byTask(taskId),
+    queryFn: async (): Promise<Comment[]> => {
+      const response = await fetch(`/api/boards/${boardId}/tasks/${taskId}/comments`);
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to fetch comments');
+      }
+
+      const { comments } = await response.json();
+      return comments || [];
+    },
+  });
+}
+
+/**
+ * Add a comment, or a reply when parentId is given
+ */
+export function useAddComment(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      content,
+      parentId,
+    }: {
+      content: string;
+      parentId?: string | null;
+    }): Promise<Comment> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, parent_id: parentId ?? null }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to add comment');
+      }
+
+      const { comment } = await response.json();
+      return comment;
+    },
+    onSuccess: (comment) => {
+      // The realtime INSERT may have arrived first, so upsert rather than append
+      queryClient.setQueryData<Comment[]>(queryKeys.comments.byTask(taskId), (old) =>
+        upsertById(old || [], comment)
+      );
+    },
+  });
+}
+
+/**
+ * Edit own comment; the server keeps the previous text as a revision
+ */
+export function useUpdateComment(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      commentId,
+      content,
+    }: {
+      commentId: string;
+      content: string;
+    }): Promise<Comment> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/comments/${commentId}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to update comment');
+      }
+
+      const { comment } = await response.json();
+      return comment;
+    },
+    onSuccess: (comment) => {
+      queryClient.setQueryData<Comment[]>(queryKeys.comments.byTask(taskId), (old) =>
+        upsertById(old || [], comment)
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.comments.revisions(comment.id) });
+    },
+  });
+}
+
+/**
+ * Delete a comment; replies to it are deleted with it
+ */
+export function useDeleteComment(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (commentId: string): Promise<void> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/comments/${commentId}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to delete comment');
+      }
+    },
+    onSuccess: (_data, commentId) => {
+      queryClient.setQueryData<Comment[]>(queryKeys.comments.byTask(taskId), (old) =>
+        old ? removeById(old, commentId).filter((comment) => comment.parent_id !== commentId) : old
+      );
+    },
+  });
+}
+
+/**
+ * Add or remove the current user's reaction on a comment
+ */
+export function useToggleCommentReaction(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      commentId,
+      emoji,
+    }: {
+      commentId: string;
+      emoji: string;
+    }): Promise<CommentReaction[]> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/comments/${commentId}/reactions`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ emoji }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to update reaction');
+      }
+
+      const { reactions } = await response.json();
+      return reactions || [];
+    },
+    onSuccess: (reactions, { commentId }) => {
+      queryClient.setQueryData<Comment[]>(queryKeys.comments.byTask(taskId), (old) =>
+        old?.map((comment) => (comment.id === commentId ? { ...comment, reactions } : comment))
+      );
+    },
+  });
+}
+
+/**
+ * Fetch a comment's earlier versions, oldest first
+ */
+export function useCommentRevisions(
+  boardId: string,
+  taskId: string,
+  commentId: string,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: queryKeys.comments.revisions(commentId),
+    queryFn: async (): Promise<CommentRevision[]> => {
+      const response = await fetch(
+        `/api/boards/${boardId}/tasks/${taskId}/comments/${commentId}/revisions`
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to fetch comment history');
+      }
+
+      const { revisions } = await response.json();
+      return revisions || [];
+    },
+    enabled,
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * React Query hooks for the notification center and the unread badge
+ * useRealtimeNotifications keeps both fresh, see src/hooks/useRealtimeNotifications.ts
+ */
+
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import type { NotificationType, NotificationWithContext } from '@/types/board';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+export const NOTIFICATION_PAGE_SIZE = 30;
+
+export interface NotificationFilters {
+  types?: NotificationType[];
+  boardId?: string;
+  unreadOnly?: boolean;
+  archived?: boolean;
+}
+
+export type NotificationAction = 'read' | 'unread' | 'archive' | 'unarchive';
+
+export interface UpdateNotificationsInput {
+  action: NotificationAction;
+  /** Omit to apply to the whole inbox (or archive, for unarchive) */
+  ids?: string[];
+}
+
+interface NotificationPage {
+  notifications: NotificationWithContext[];
+  next_cursor: string | null;
+  unread_count: number;
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.message || error.error || fallback);
+}
+
+function buildSearchParams(filters: NotificationFilters, limit: number, cursor?: string | null) {
+  const params = new URLSearchParams({ limit: String(limit) });
+  filters.types?.forEach((type) => params.append('type', type));
+  if (filters.boardId) params.set('board_id', filters.boardId);
+  if (filters.unreadOnly) params.set('unread', 'true');
+  if (filters.archived) params.set('archived', 'true');
+  if (cursor) params.set('cursor', cursor);
+  return params;
+}
+
+/**
+ * Fetch the current user's notifications, newest first, one cursor page at a time
+ */
+export function useNotifications(filters: NotificationFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.notifications.list({ ...filters }),
+    queryFn: async ({ pageParam }): Promise<NotificationPage> => {
+      const params = buildSearchParams(filters, NOTIFICATION_PAGE_SIZE, pageParam);
+      const response = await fetch(`/api/notifications?${params}`);
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch notifications');
+      }
+
+      const data = await response.json();
+      return {
+        notifications: data.notifications || [],
+        next_cursor: data.next_cursor ?? null,
+        unread_count: data.unread_count || 0,
+      };
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+  });
+}
+
+/**
+ * Unread inbox count for the header badge
+ */
+export function useUnreadNotificationCount(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.notifications.unreadCount(),
+    queryFn: async (): Promise<number> => {
+      const response = await fetch('/api/notifications?unread=true&limit=1');
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch notifications');
+      }
+
+      const { unread_count } = await response.json();
+      return unread_count || 0;
+    },
+    enabled: options.enabled !== false,
+  });
+}
+
+/**
+ * Mark read or unread, archive or restore notifications
+ */
+export function useUpdateNotifications() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ action, ids }: UpdateNotificationsInput) => {
+      const response = await fetchWithCsrf('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { action, notification_ids: ids } : { action, mark_all: true }),
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to update notifications');
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+  });
+}
+
+/**
+ * Delete notifications for good
+ */
+export function useDeleteNotifications() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      const response = await fetchWithCsrf('/api/notifications', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notification_ids: ids }),
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to delete notifications');
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Realtime handlers for comments, reactions, attachments, activities and members
+ * Patches the React Query caches so open drawers and feeds update live
+ */
+
+import { useMemo } from 'react';
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import { prependToFirstPage, removeById, upsertById } from '@/lib/react-query/cacheUpdates';
+import type { Activity, Attachment, BoardMember, Comment, CommentReaction } from '@/types/board';
+import type { BoardDetailResponse } from './useBoards';
+
+export interface RealtimeCacheHandlers {
+  onCommentInsert: (comment: Comment) => void;
+  onCommentUpdate: (comment: Comment) => void;
+  onCommentDelete: (comment: Comment) => void;
+  onReactionInsert: (reaction: CommentReaction) => void;
+  onReactionDelete: (reaction: CommentReaction) => void;
+  onAttachmentInsert: (attachment: Attachment) => void;
+  onAttachmentDelete: (attachment: Attachment) => void;
+  onActivityInsert: (activity: Activity) => void;
+  onMemberInsert: (member: BoardMember) => void;
+  onMemberUpdate: (member: BoardMember) => void;
+  onMemberDelete: (member: BoardMember) => void;
+}
+
+/**
+ * Build stable realtime callbacks for a board
+ * Comment and attachment events are not filtered by board on the server, so
+ * only tasks with a cached list are touched
+ */
+export function useRealtimeCacheHandlers(
+  boardId: string,
+  currentUserId: string | null
+): RealtimeCacheHandlers {
+  const queryClient = useQueryClient();
+
+  return useMemo(() => {
+    // Realtime rows carry no joins; fill them in from what the board already knows
+    const findProfile = (userId: string) =>
+      queryClient
+        .getQueryData<BoardMember[]>(queryKeys.boards.members(boardId))
+        ?.find((member) => member.user_id === userId)?.profile;
+
+    const findTask = (taskId: string | null) => {
+      if (!taskId) return undefined;
+      const task = queryClient
+        .getQueryData<BoardDetailResponse | null>(queryKeys.boards.detail(boardId))
+        ?.board.statuses.flatMap((status) => status.tasks)
+        .find((t) => t.id === taskId);
+      return task ? { id: task.id, title: task.title } : undefined;
+    };
+
+    const upsertComment = (comment: Comment) => {
+      const key = queryKeys.comments.byTask(comment.task_id);
+      if (!queryClient.getQueryData(key)) return;
+
+      const profile = findProfile(comment.user_id);
+      if (!profile) {
+        queryClient.invalidateQueries({ queryKey: key });
+        return;
+      }
+
+      queryClient.setQueryData<Comment[]>(key, (old) =>
+        old ? upsertById(old, { ...comment, profile }) : old
+      );
+    };
+
+    // Reaction rows only carry the comment id, so look for it in every cached task
+    const updateReactions = (
+      commentId: string,
+      update: (reactions: CommentReaction[]) => CommentReaction[]
+    ) => {
+      queryClient.setQueriesData<Comment[]>({ queryKey: queryKeys.comments.all }, (old) =>
+        old?.some((comment) => comment.id === commentId)
+          ? old.map((comment) =>
+              comment.id === commentId
+                ? { ...comment, reactions: update(comment.reactions || []) }
+                : comment
+            )
+          : old
+      );
+    };
+
+    // A role change or removal of the current user changes what they may do here
+    const refreshOwnAccess = (member: BoardMember) => {
+      if (member.user_id === currentUserId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
+      }
+    };
+
+    return {
+      onCommentInsert: upsertComment,
+      onCommentUpdate: upsertComment,
+      onCommentDelete: (comment) => {
+        queryClient.setQueryData<Comment[]>(queryKeys.comments.byTask(comment.task_id), (old) =>
+          old ? removeById(old, comment.id).filter((reply) => reply.parent_id !== comment.id) : old
+        );
+      },
+      onReactionInsert: (reaction) => {
+        updateReactions(reaction.comment_id, (reactions) => upsertById(reactions, reaction));
+      },
+      onReactionDelete: (reaction) => {
+        updateReactions(reaction.comment_id, (reactions) => removeById(reactions, reaction.id));
+      },
+      onAttachmentInsert: (attachment) => {
+        const key = queryKeys.attachments.byTask(attachment.task_id);
+        const cached = queryClient.getQueryData<Attachment[]>(key);
+
+        // Download URLs are signed by the API, so refetch rather than insert the raw row
+        if (cached && !cached.some((a) => a.id === attachment.id)) {
+          queryClient.invalidateQueries({ queryKey: key });
+        }
+      },
+      onAttachmentDelete: (attachment) => {
+        queryClient.setQueryData<Attachment[]>(
+          queryKeys.attachments.byTask(attachment.task_id),
+          (old) => (old ? removeById(old, attachment.id) : old)
+        );
+      },
+      onActivityInsert: (activity) => {
+        queryClient.setQueryData<InfiniteData<Activity[], number>>(
+          queryKeys.activities.byBoard(boardId),
+          (old) =>
+            prependToFirstPage(old, {
+              ...activity,
+              profile: findProfile(activity.user_id),
+              task: findTask(activity.task_id),
+            })
+        );
+
+        if (activity.task_id) {
+          queryClient.invalidateQueries({
+            queryKey: queryKeys.activities.byTask(activity.task_id),
+          });
+        }
+      },
+      onMemberInsert: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.boards.members(boardId) });
+      },
+      onMemberUpdate: (member) => {
+        queryClient.setQueryData<BoardMember[]>(queryKeys.boards.members(boardId), (old) =>
+          old?.map((m) => (m.id === member.id ? { ...m, role: member.role } : m))
+        );
+        refreshOwnAccess(member);
+      },
+      onMemberDelete: (member) => {
+        queryClient.setQueryData<BoardMember[]>(queryKeys.boards.members(boardId), (old) =>
+          old ? removeById(old, member.id) : old
+        );
+        refreshOwnAccess(member);
+      },
+    };
+  }, [queryClient, boardId, currentUserId]);
+}
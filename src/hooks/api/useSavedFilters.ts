@@ -0,0 +1,88 @@
+/**
+ * React Query hooks for the current user's saved filters on a board
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import type { SavedFilter, TaskFilters } from '@/types/board';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.message || error.error || fallback);
+}
+
+/**
+ * Fetch the current user's saved filters for a board, by name
+ */
+export function useSavedFilters(boardId: string) {
+  return useQuery({
+    queryKey: queryKeys.savedFilters.byBoard(boardId),
+    queryFn: async (): Promise<SavedFilter[]> => {
+      const response = await fetch(`/api/boards/${boardId}/filters`);
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch saved filters');
+      }
+
+      const { filters } = await response.json();
+      return filters || [];
+    },
+    enabled: !!boardId,
+  });
+}
+
+/**
+ * Save the given filters under a name; an existing filter with that name is replaced
+ */
+export function useSaveFilter(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { name: string; filters: TaskFilters }): Promise<SavedFilter> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/filters`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to save filter');
+      }
+
+      const { filter } = await response.json();
+      return filter;
+    },
+    onSuccess: (filter) => {
+      queryClient.setQueryData<SavedFilter[]>(queryKeys.savedFilters.byBoard(boardId), (old) =>
+        [...(old || []).filter((f) => f.id !== filter.id && f.name !== filter.name), filter].sort(
+          (a, b) => a.name.localeCompare(b.name)
+        )
+      );
+    },
+  });
+}
+
+/**
+ * Delete a saved filter
+ */
+export function useDeleteSavedFilter(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (filterId: string) => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/filters/${filterId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to delete saved filter');
+      }
+    },
+    onSuccess: (_data, filterId) => {
+      queryClient.setQueryData<SavedFilter[]>(queryKeys.savedFilters.byBoard(boardId), (old) =>
+        old?.filter((f) => f.id !== filterId)
+      );
+    },
+  });
+}
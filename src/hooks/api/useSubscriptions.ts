@@ -0,0 +1,114 @@
+/**
+ * React Query hooks for the current user's board and task watch/mute levels
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import type { SubscriptionLevel } from '@/types/board';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+export interface TaskSubscriptionState {
+  /** Level set on the task itself */
+  level: SubscriptionLevel | null;
+  /** Board level, which applies while the task has none */
+  board_level: SubscriptionLevel | null;
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.message || error.error || fallback);
+}
+
+/** Watch or mute with PUT; null clears the level with DELETE */
+async function saveLevel(url: string, level: SubscriptionLevel | null): Promise<void> {
+  const response = await fetchWithCsrf(
+    url,
+    level
+      ? {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ level }),
+        }
+      : { method: 'DELETE' }
+  );
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to update notifications');
+  }
+}
+
+/**
+ * Fetch the current user's level for a board
+ */
+export function useBoardSubscription(boardId: string) {
+  return useQuery({
+    queryKey: queryKeys.subscriptions.byBoard(boardId),
+    queryFn: async (): Promise<SubscriptionLevel | null> => {
+      const response = await fetch(`/api/boards/${boardId}/subscription`);
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch notification settings');
+      }
+
+      const { level } = await response.json();
+      return level ?? null;
+    },
+  });
+}
+
+/**
+ * Fetch the current user's level for a task, with the board level it overrides
+ */
+export function useTaskSubscription(boardId: string, taskId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.subscriptions.byTask(taskId || ''),
+    queryFn: async (): Promise<TaskSubscriptionState> => {
+      const response = await fetch(`/api/boards/${boardId}/tasks/${taskId}/subscription`);
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch notification settings');
+      }
+
+      const { level, board_level } = await response.json();
+      return { level: level ?? null, board_level: board_level ?? null };
+    },
+    enabled: !!taskId,
+  });
+}
+
+/**
+ * Watch, mute or reset a board
+ */
+export function useSetBoardSubscription(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (level: SubscriptionLevel | null) =>
+      saveLevel(`/api/boards/${boardId}/subscription`, level),
+    onSuccess: (_data, level) => {
+      queryClient.setQueryData(queryKeys.subscriptions.byBoard(boardId), level);
+      // Open tasks show the board level as their fallback
+      queryClient.invalidateQueries({
+        queryKey: [...queryKeys.subscriptions.all, 'task'],
+      });
+    },
+  });
+}
+
+/**
+ * Watch, mute or reset a task
+ */
+export function useSetTaskSubscription(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (level: SubscriptionLevel | null) =>
+      saveLevel(`/api/boards/${boardId}/tasks/${taskId}/subscription`, level),
+    onSuccess: (_data, level) => {
+      queryClient.setQueryData<TaskSubscriptionState>(
+        queryKeys.subscriptions.byTask(taskId),
+        (previous) => ({ level, board_level: previous?.board_level ?? null })
+      );
+    },
+  });
+}
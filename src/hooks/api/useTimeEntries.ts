@@ -0,0 +1,197 @@
+/**
+ * React Query hooks for task time tracking and the board's estimate vs. actual report
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import { removeById, upsertById } from '@/lib/react-query/cacheUpdates';
+import type { TimeReport } from '@/lib/tasks';
+import type { TimeEntry } from '@/types/board';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+export interface TimeEntryInput {
+  started_at?: string;
+  duration_minutes?: number;
+  note?: string | null;
+}
+
+/**
+ * Put an entry into its task's cached log, newest first
+ */
+function storeEntry(queryClient: ReturnType<typeof useQueryClient>, entry: TimeEntry) {
+  queryClient.setQueryData<TimeEntry[]>(queryKeys.timeEntries.byTask(entry.task_id), (old) =>
+    old ? upsertById(old, entry, 'start') : old
+  );
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.message || error.error || fallback);
+}
+
+/**
+ * Fetch a task's time entries, newest first
+ */
+export function useTimeEntries(boardId: string, taskId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.timeEntries.byTask(taskId || ''),
+    queryFn: async (): Promise<TimeEntry[]> => {
+      if (!taskId) return [];
+
+      const response = await fetch(`/api/boards/${boardId}/tasks/${taskId}/time-entries`);
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch time entries');
+      }
+
+      const { entries } = await response.json();
+      return entries || [];
+    },
+    enabled: !!taskId,
+  });
+}
+
+/**
+ * Start or stop the current user's timer on a task
+ * Starting stops a timer running on another task, whose log is updated too
+ */
+export function useToggleTimer(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      action: 'start' | 'stop'
+    ): Promise<{ entry: TimeEntry; stopped?: TimeEntry | null }> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/time-entries/timer`,
+        { method: action === 'start' ? 'POST' : 'DELETE' }
+      );
+
+      if (!response.ok) {
+        throw await readError(response, `Failed to ${action} timer`);
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ entry, stopped }) => {
+      if (stopped) storeEntry(queryClient, stopped);
+      storeEntry(queryClient, entry);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.report(boardId) });
+    },
+  });
+}
+
+/**
+ * Log time by hand
+ */
+export function useLogTime(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      data: TimeEntryInput & { started_at: string; duration_minutes: number }
+    ): Promise<TimeEntry> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/tasks/${taskId}/time-entries`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to log time');
+      }
+
+      const { entry } = await response.json();
+      return entry;
+    },
+    onSuccess: (entry) => {
+      storeEntry(queryClient, entry);
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.report(boardId) });
+    },
+  });
+}
+
+/**
+ * Correct one of the current user's entries
+ */
+export function useUpdateTimeEntry(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      entryId,
+      updates,
+    }: {
+      entryId: string;
+      updates: TimeEntryInput;
+    }): Promise<TimeEntry> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/time-entries/${entryId}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        }
+      );
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to update time entry');
+      }
+
+      const { entry } = await response.json();
+      return entry;
+    },
+    onSuccess: (entry) => {
+      storeEntry(queryClient, entry);
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.report(boardId) });
+    },
+  });
+}
+
+/**
+ * Delete one of the current user's entries
+ */
+export function useDeleteTimeEntry(boardId: string, taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entryId: string): Promise<void> => {
+      const response = await fetchWithCsrf(
+        `/api/boards/${boardId}/tasks/${taskId}/time-entries/${entryId}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to delete time entry');
+      }
+    },
+    onSuccess: (_, entryId) => {
+      queryClient.setQueryData<TimeEntry[]>(queryKeys.timeEntries.byTask(taskId), (old) =>
+        old ? removeById(old, entryId) : old
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.report(boardId) });
+    },
+  });
+}
+
+/**
+ * Estimates vs. tracked time per status and for the whole board
+ */
+export function useTimeReport(boardId: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.timeEntries.report(boardId),
+    queryFn: async (): Promise<TimeReport> => {
+      const response = await fetch(`/api/boards/${boardId}/time-report`);
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch time report');
+      }
+
+      const { report } = await response.json();
+      return report;
+    },
+    enabled: options.enabled ?? true,
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * React Query hooks for board webhooks
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import type { ActivityAction, Webhook, WebhookDelivery } from '@/types/board';
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+
+export interface WebhookInput {
+  url?: string;
+  events?: ActivityAction[];
+  is_active?: boolean;
+  rotate_secret?: boolean;
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.message || error.error || fallback);
+}
+
+/**
+ * Fetch a board's webhooks (secrets masked)
+ */
+export function useWebhooks(boardId: string) {
+  return useQuery({
+    queryKey: queryKeys.webhooks.byBoard(boardId),
+    queryFn: async (): Promise<Webhook[]> => {
+      const response = await fetch(`/api/boards/${boardId}/webhooks`);
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch webhooks');
+      }
+
+      const { webhooks } = await response.json();
+      return webhooks || [];
+    },
+  });
+}
+
+/**
+ * Fetch the recent delivery log of a webhook
+ */
+export function useWebhookDeliveries(boardId: string, webhookId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.webhooks.deliveries(webhookId || ''),
+    queryFn: async (): Promise<WebhookDelivery[]> => {
+      const response = await fetch(`/api/boards/${boardId}/webhooks/${webhookId}/deliveries`);
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch deliveries');
+      }
+
+      const { deliveries } = await response.json();
+      return deliveries || [];
+    },
+    enabled: !!webhookId,
+  });
+}
+
+/**
+ * Create a webhook; the returned webhook carries the unmasked secret
+ */
+export function useCreateWebhook(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      data: Required<Pick<WebhookInput, 'url' | 'events'>> & WebhookInput
+    ): Promise<Webhook> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/webhooks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to create webhook');
+      }
+
+      const { webhook } = await response.json();
+      return webhook;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.byBoard(boardId) });
+    },
+  });
+}
+
+/**
+ * Update a webhook; with rotate_secret the returned webhook carries the new secret
+ */
+export function useUpdateWebhook(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      webhookId,
+      updates,
+    }: {
+      webhookId: string;
+      updates: WebhookInput;
+    }): Promise<Webhook> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/webhooks/${webhookId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to update webhook');
+      }
+
+      const { webhook } = await response.json();
+      return webhook;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.byBoard(boardId) });
+    },
+  });
+}
+
+/**
+ * Delete a webhook
+ */
+export function useDeleteWebhook(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (webhookId: string) => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/webhooks/${webhookId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to delete webhook');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.byBoard(boardId) });
+    },
+  });
+}
+
+/**
+ * Send a test ping and refresh the delivery log
+ */
+export function useTestWebhook(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (webhookId: string): Promise<{ ok: boolean }> => {
+      const response = await fetchWithCsrf(`/api/boards/${boardId}/webhooks/${webhookId}/test`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        throw await readError(response, 'Failed to send test');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, webhookId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.deliveries(webhookId) });
+    },
+  });
+}
@@ -4,5 +4,10 @@ export { useDebounce, useDebouncedCallback, useThrottledCallback } from './useDe
 export { useLocalStorage, useCachedData } from './useLocalStorage';
 export { usePagination, useInfiniteScroll, useVirtualScroll } from './usePagination';
 export { useRealtimeBoard } from './useRealtimeBoard';
+export { useRealtimeNotifications } from './useRealtimeNotifications';
 export { usePermissions, useCanEdit, useIsAdmin, useIsOwner } from './usePermissions';
 export { useConflictResolution, useVersionTracking } from './useConflictResolution';
+export { useUndoRedo } from './useUndoRedo';
+export { useOfflineSync } from './useOfflineSync';
+export { useBoardShortcuts } from './useBoardShortcuts';
+export { useTaskSelection, type TaskSelectHandler } from './useTaskSelection';
@@ -0,0 +1,72 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { PRESENCE_TYPING_TIMEOUT_MS } from '@/lib/presence';
+import type {
+  BoardPresenceMember,
+  BoardPresenceState,
+  PresenceActivity,
+  Profile,
+} from '@/types/board';
+
+type PresenceProfile = Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'>;
+
+/**
+ * Local presence state for the board channel
+ * Pass `presence` and `onPresenceSync` to useRealtimeBoardState; typing
+ * indicators clear themselves after a few seconds without keystrokes
+ */
+export function useBoardPresence(profile: PresenceProfile | null) {
+  const [members, setMembers] = useState<BoardPresenceMember[]>([]);
+  const [taskId, setTaskId] = useState<string | null>(null);
+  const [typing, setTypingState] = useState<PresenceActivity | null>(null);
+  const [onlineAt] = useState(() => new Date().toISOString());
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const setTyping = useCallback((activity: PresenceActivity | null) => {
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    setTypingState(activity);
+
+    if (activity) {
+      typingTimerRef.current = setTimeout(() => setTypingState(null), PRESENCE_TYPING_TIMEOUT_MS);
+    }
+  }, []);
+
+  const setViewingTask = useCallback(
+    (nextTaskId: string | null) => {
+      setTaskId(nextTaskId);
+      setTyping(null);
+    },
+    [setTyping]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    };
+  }, []);
+
+  const presence = useMemo<BoardPresenceState | null>(
+    () =>
+      profile
+        ? {
+            user_id: profile.id,
+            email: profile.email,
+            display_name: profile.display_name,
+            avatar_url: profile.avatar_url,
+            task_id: taskId,
+            typing: taskId ? typing : null,
+            online_at: onlineAt,
+          }
+        : null,
+    [profile, taskId, typing, onlineAt]
+  );
+
+  return {
+    members,
+    presence,
+    onPresenceSync: setMembers,
+    setViewingTask,
+    setTyping,
+  };
+}
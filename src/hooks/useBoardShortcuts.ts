@@ -0,0 +1,169 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { getAdjacentTaskId, type NavigationColumn, type NavigationDirection } from '@/lib/tasks';
+
+interface UseBoardShortcutsOptions {
+  /** Visible cards, as returned by getNavigationColumns */
+  columns: NavigationColumn[];
+  /** Turn the shortcuts off, e.g. while a modal is open or a task is being dragged */
+  enabled?: boolean;
+  onOpenTask: (taskId: string) => void;
+  /** Omitted when the user cannot move tasks */
+  onMoveTask?: (taskId: string) => void;
+  /** Omitted when the user cannot create tasks */
+  onCreateTask?: (statusId: string) => void;
+  /** Omitted when the user cannot change tasks in bulk */
+  onToggleSelect?: (taskId: string) => void;
+  /** Omitted while nothing is selected, so Escape is left to other handlers */
+  onClearSelection?: () => void;
+  onShowHelp: () => void;
+}
+
+/**
+ * Shortcuts shown in the cheatsheet, board navigation first
+ */
+export const BOARD_SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['j', 'k'], description: 'Next / previous card in the column' },
+  { keys: ['h', 'l'], description: 'Card in the previous / next column' },
+  { keys: ['Enter'], description: 'Open the focused task' },
+  { keys: ['e'], description: 'Edit the focused task' },
+  { keys: ['m'], description: 'Move the focused task to another column' },
+  { keys: ['n'], description: 'New task in the current column' },
+  { keys: ['x'], description: 'Select or deselect the focused task' },
+  { keys: ['Shift', 'Click'], description: 'Select a range of tasks' },
+  { keys: ['Esc'], description: 'Clear the selection' },
+  { keys: ['Delete'], description: 'Delete the focused task' },
+  { keys: ['Space'], description: 'Pick up or drop the focused task' },
+  { keys: ['←', '↑', '→', '↓'], description: 'Move the picked up task' },
+  { keys: ['Esc'], description: 'Cancel the move' },
+  { keys: ['Ctrl', 'Z'], description: 'Undo' },
+  { keys: ['Ctrl', 'Shift', 'Z'], description: 'Redo' },
+  { keys: ['Ctrl', 'K'], description: 'Search' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' },
+];
+
+const DIRECTIONS: Record<string, NavigationDirection> = {
+  j: 'down',
+  k: 'up',
+  h: 'left',
+  l: 'right',
+};
+
+/**
+ * Leave keys alone while the user types or works in a dialog or menu
+ */
+function shouldIgnoreTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT' ||
+    !!target.closest('[role="dialog"], [role="menu"]')
+  );
+}
+
+function getCardElement(taskId: string): HTMLElement | null {
+  return document.querySelector<HTMLElement>(`[data-task-id="${taskId}"]`);
+}
+
+/**
+ * Board-wide keyboard shortcuts
+ * j/k/h/l move focus between cards, e edits, m moves, n creates, x selects and ? shows the
+ * cheatsheet.
+ * The focused card is the current one; after a modal closes the last focused card is used.
+ */
+export function useBoardShortcuts({
+  columns,
+  enabled = true,
+  onOpenTask,
+  onMoveTask,
+  onCreateTask,
+  onToggleSelect,
+  onClearSelection,
+  onShowHelp,
+}: UseBoardShortcutsOptions) {
+  const lastTaskIdRef = useRef<string | null>(null);
+
+  // Remember the card focused last, whether by keyboard or mouse
+  useEffect(() => {
+    const handleFocusIn = (e: FocusEvent) => {
+      const card = e.target instanceof HTMLElement ? e.target.closest('[data-task-id]') : null;
+      if (card) lastTaskIdRef.current = card.getAttribute('data-task-id');
+    };
+
+    document.addEventListener('focusin', handleFocusIn);
+    return () => document.removeEventListener('focusin', handleFocusIn);
+  }, []);
+
+  /**
+   * Focus a card, retrying after the next render for cards that are just being moved
+   */
+  const focusTask = useCallback((taskId: string) => {
+    lastTaskIdRef.current = taskId;
+    const focus = () => {
+      const card = getCardElement(taskId);
+      card?.focus();
+      card?.scrollIntoView?.({ block: 'nearest', inline: 'nearest' });
+      return !!card;
+    };
+    if (!focus()) requestAnimationFrame(focus);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const getCurrentTaskId = () => {
+      const taskId = lastTaskIdRef.current;
+      return taskId && columns.some((column) => column.taskIds.includes(taskId)) ? taskId : null;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || shouldIgnoreTarget(e.target)) return;
+
+      const taskId = getCurrentTaskId();
+      const direction = DIRECTIONS[e.key];
+
+      if (direction) {
+        e.preventDefault();
+        const nextTaskId = getAdjacentTaskId(columns, taskId, direction);
+        if (nextTaskId) focusTask(nextTaskId);
+      } else if (e.key === 'e' && taskId) {
+        e.preventDefault();
+        onOpenTask(taskId);
+      } else if (e.key === 'm' && taskId && onMoveTask) {
+        e.preventDefault();
+        onMoveTask(taskId);
+      } else if (e.key === 'n' && onCreateTask && columns.length > 0) {
+        e.preventDefault();
+        const column = columns.find((c) => taskId && c.taskIds.includes(taskId)) ?? columns[0];
+        onCreateTask(column.statusId);
+      } else if (e.key === 'x' && taskId && onToggleSelect) {
+        e.preventDefault();
+        onToggleSelect(taskId);
+      } else if (e.key === 'Escape' && onClearSelection) {
+        e.preventDefault();
+        onClearSelection();
+      } else if (e.key === '?') {
+        e.preventDefault();
+        onShowHelp();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [
+    enabled,
+    columns,
+    focusTask,
+    onOpenTask,
+    onMoveTask,
+    onCreateTask,
+    onToggleSelect,
+    onClearSelection,
+    onShowHelp,
+  ]);
+
+  return { focusTask };
+}
@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * Board view settings: which view is shown, the table's columns and sort, and the
+ * calendar range. Remembered per board in localStorage.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import {
+  DEFAULT_TABLE_COLUMNS,
+  isBoardView,
+  isCalendarMode,
+  isTableColumn,
+  type BoardView,
+  type CalendarMode,
+  type TableColumn,
+  type TableSort,
+} from '@/lib/tasks';
+import {
+  getBoardViewState,
+  setBoardViewState,
+  type BoardViewState,
+} from '@/lib/storage/safeStorage';
+
+export function useBoardView(boardId: string) {
+  const [state, setState] = useState<BoardViewState>(() => getBoardViewState(boardId));
+
+  const updateState = useCallback(
+    (changes: Partial<BoardViewState>) => {
+      setState((prev) => {
+        const next = { ...prev, ...changes };
+        setBoardViewState(boardId, next);
+        return next;
+      });
+    },
+    [boardId]
+  );
+
+  const view: BoardView = isBoardView(state.view) ? state.view : 'board';
+
+  const tableColumns = useMemo<TableColumn[]>(() => {
+    const columns = (state.tableColumns || []).filter(isTableColumn);
+    return columns.length > 0 ? columns : DEFAULT_TABLE_COLUMNS;
+  }, [state.tableColumns]);
+
+  const tableSort: TableSort | null =
+    state.tableSort && isTableColumn(state.tableSort.column)
+      ? { column: state.tableSort.column, direction: state.tableSort.direction }
+      : null;
+
+  const calendarMode: CalendarMode = isCalendarMode(state.calendarMode)
+    ? state.calendarMode
+    : 'month';
+
+  const setView = useCallback((next: BoardView) => updateState({ view: next }), [updateState]);
+
+  const setTableColumns = useCallback(
+    (columns: TableColumn[]) => updateState({ tableColumns: columns }),
+    [updateState]
+  );
+
+  const setTableSort = useCallback(
+    (sort: TableSort | null) => updateState({ tableSort: sort }),
+    [updateState]
+  );
+
+  const setCalendarMode = useCallback(
+    (mode: CalendarMode) => updateState({ calendarMode: mode }),
+    [updateState]
+  );
+
+  return {
+    view,
+    tableColumns,
+    tableSort,
+    calendarMode,
+    setView,
+    setTableColumns,
+    setTableSort,
+    setCalendarMode,
+  };
+}
@@ -1,29 +1,72 @@
 /**
  * Drag and drop logic for Board component
- * Handles all DnD operations with @dnd-kit
+ * Handles all DnD operations with @dnd-kit, by pointer, touch or keyboard
  */
 
 import { useState, useCallback, useMemo } from 'react';
-import { arrayMove } from '@dnd-kit/sortable';
+import { arrayMove, sortableKeyboardCoordinates } from '@dnd-kit/sortable';
 import {
   DragStartEvent,
   DragOverEvent,
   DragEndEvent,
+  KeyboardCode,
+  KeyboardSensor,
   PointerSensor,
   TouchSensor,
   useSensor,
   useSensors,
+  type Announcements,
+  type ScreenReaderInstructions,
 } from '@dnd-kit/core';
-import type { BoardWithData, Task } from '@/types/board';
+import type { BoardWithData, StatusWithTasks, Task } from '@/types/board';
+import {
+  checkWipLimit,
+  formatWipLimitMessage,
+  getLaneKey,
+  getTaskLaneValue,
+  parseLaneCellId,
+  type LaneChange,
+  type Swimlane,
+  type SwimlaneGrouping,
+  type WipLimitCheck,
+} from '@/lib/tasks';
 
 interface UseDragAndDropOptions {
   board: BoardWithData | null;
+  /** Active swimlane grouping; drops into another lane change the grouped attribute */
+  swimlanes?: { grouping: SwimlaneGrouping; lanes: Swimlane[] } | null;
   onReorder: (statusId: string, tasks: Task[]) => void;
-  onMove: (taskId: string, newStatusId: string, newOrder: number) => void;
+  onMove: (taskId: string, newStatusId: string, newOrder: number, lane?: LaneChange) => void;
+  /** Called when a drop exceeds a column's WIP limit; hard limits also cancel the move */
+  onWipLimitExceeded?: (check: WipLimitCheck) => void;
+}
+
+/**
+ * Column currently hovered by a drag that would exceed its WIP limit
+ */
+export interface WipLimitViolation {
+  statusId: string;
+  check: WipLimitCheck;
 }
 
-export function useDragAndDrop({ board, onReorder, onMove }: UseDragAndDropOptions) {
+/**
+ * Read out when a task card gets focus; Enter stays free to open the task
+ */
+const screenReaderInstructions: ScreenReaderInstructions = {
+  draggable:
+    'To pick up the task, press space. While dragging, use the arrow keys to move it between ' +
+    'cards and columns. Press space again to drop it, or escape to cancel. Press enter to open it.',
+};
+
+export function useDragAndDrop({
+  board,
+  swimlanes,
+  onReorder,
+  onMove,
+  onWipLimitExceeded,
+}: UseDragAndDropOptions) {
   const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const [wipLimitViolation, setWipLimitViolation] = useState<WipLimitViolation | null>(null);
 
   // Configure sensors for drag detection
   const sensors = useSensors(
@@ -32,6 +75,15 @@ export function useDragAndDrop({ board, onReorder, onMove }: UseDragAndDropOptio
     }),
     useSensor(TouchSensor, {
       activationConstraint: { delay: 200, tolerance: 5 }, // 200ms delay for mobile
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+      // Enter opens the focused task, so only space picks it up
+      keyboardCodes: {
+        start: [KeyboardCode.Space],
+        cancel: [KeyboardCode.Esc],
+        end: [KeyboardCode.Space, KeyboardCode.Enter],
+      },
     })
   );
 
@@ -41,6 +93,48 @@ export function useDragAndDrop({ board, onReorder, onMove }: UseDragAndDropOptio
     return board.statuses.flatMap((status) => status.tasks);
   }, [board]);
 
+  /**
+   * Resolve the status (and swimlane value) under a droppable or sortable ID
+   * Drop targets are status columns, lane cells, or other tasks
+   */
+  const resolveDropTarget = useCallback(
+    (overId: string) => {
+      if (!board) return null;
+
+      const overTask = allTasks.find((t) => t.id === overId);
+      const cell = swimlanes ? parseLaneCellId(overId) : null;
+      const statusId = overTask?.status_id ?? cell?.statusId ?? overId;
+      const status = board.statuses.find((s) => s.id === statusId);
+      if (!status) return null;
+
+      let laneValue: string | null | undefined;
+      if (swimlanes && overTask) {
+        laneValue = getTaskLaneValue(overTask, swimlanes.grouping);
+      } else if (swimlanes && cell) {
+        laneValue = swimlanes.lanes.find((lane) => lane.key === cell.laneKey)?.value;
+      }
+
+      return { status, overTask, laneValue };
+    },
+    [board, allTasks, swimlanes]
+  );
+
+  /**
+   * Check a move into another column against its WIP limit
+   * Reports exceeded limits; false when a hard limit refuses the task
+   */
+  const allowMoveInto = useCallback(
+    (status: StatusWithTasks) => {
+      const check = checkWipLimit(status, status.tasks.length + 1);
+      if (check?.exceeded) {
+        onWipLimitExceeded?.(check);
+        return !check.blocked;
+      }
+      return true;
+    },
+    [onWipLimitExceeded]
+  );
+
   /**
    * Handle drag start - store the dragged task
    */
@@ -55,18 +149,29 @@ export function useDragAndDrop({ board, onReorder, onMove }: UseDragAndDropOptio
   );
 
   /**
-   * Handle drag over - provide visual feedback (optional)
+   * Handle drag over - flag columns whose WIP limit the drop would exceed
    * Most UI updates happen in handleDragEnd for performance
    */
   const handleDragOver = useCallback(
     (event: DragOverEvent) => {
-      const { over } = event;
-      if (!over || !board) return;
+      const { active, over } = event;
+      if (!over || !board) {
+        setWipLimitViolation(null);
+        return;
+      }
+
+      const draggedTask = allTasks.find((t) => t.id === active.id);
+      const targetStatus = resolveDropTarget(over.id as string)?.status;
+
+      if (!draggedTask || !targetStatus || draggedTask.status_id === targetStatus.id) {
+        setWipLimitViolation(null);
+        return;
+      }
 
-      // Can add visual feedback here if needed
-      // For now, we keep it simple and handle everything in onDragEnd
+      const check = checkWipLimit(targetStatus, targetStatus.tasks.length + 1);
+      setWipLimitViolation(check?.exceeded ? { statusId: targetStatus.id, check } : null);
     },
-    [board]
+    [board, allTasks, resolveDropTarget]
   );
 
   /**
@@ -76,6 +181,7 @@ export function useDragAndDrop({ board, onReorder, onMove }: UseDragAndDropOptio
     (event: DragEndEvent) => {
       const { active, over } = event;
       setActiveTask(null);
+      setWipLimitViolation(null);
 
       if (!over || !board) return;
 
@@ -85,17 +191,24 @@ export function useDragAndDrop({ board, onReorder, onMove }: UseDragAndDropOptio
       const activeTask = allTasks.find((t) => t.id === activeId);
       if (!activeTask) return;
 
-      // Determine if dropping over a column or a task
-      const isOverColumn = board.statuses.some((s) => s.id === overId);
-      const overTask = allTasks.find((t) => t.id === overId);
+      // Determine if dropping over a column (or lane cell) or a task
+      const target = resolveDropTarget(overId);
+      if (!target) return;
 
-      const targetStatusId = isOverColumn ? overId : overTask?.status_id || activeTask.status_id;
+      const { status: targetStatus, overTask, laneValue } = target;
+      const targetStatusId = targetStatus.id;
+      const isOverColumn = !overTask;
 
-      const targetStatus = board.statuses.find((s) => s.id === targetStatusId);
-      if (!targetStatus) return;
+      // Dropping into another swimlane changes the grouped attribute
+      const laneChange: LaneChange | undefined =
+        swimlanes &&
+        laneValue !== undefined &&
+        laneValue !== getTaskLaneValue(activeTask, swimlanes.grouping)
+          ? { field: swimlanes.grouping, value: laneValue }
+          : undefined;
 
       // Handle reordering within the same column
-      if (activeTask.status_id === targetStatusId) {
+      if (activeTask.status_id === targetStatusId && !laneChange) {
         const oldIndex = targetStatus.tasks.findIndex((t) => t.id === activeId);
         const newIndex = isOverColumn
           ? targetStatus.tasks.length - 1
@@ -113,21 +226,102 @@ export function useDragAndDrop({ board, onReorder, onMove }: UseDragAndDropOptio
           onReorder(targetStatusId, tasksWithNewOrder);
         }
       } else {
-        // Handle moving to a different column
+        // Handle moving to a different column or lane, respecting the column's WIP limit
+        if (activeTask.status_id !== targetStatusId && !allowMoveInto(targetStatus)) return;
+
         const newIndex = isOverColumn
           ? targetStatus.tasks.length
           : targetStatus.tasks.findIndex((t) => t.id === overId);
 
-        onMove(activeId, targetStatusId, Math.max(0, newIndex));
+        if (laneChange) {
+          onMove(activeId, targetStatusId, Math.max(0, newIndex), laneChange);
+        } else {
+          onMove(activeId, targetStatusId, Math.max(0, newIndex));
+        }
       }
     },
-    [board, allTasks, onReorder, onMove]
+    [board, allTasks, swimlanes, resolveDropTarget, onReorder, onMove, allowMoveInto]
   );
 
+  /**
+   * Move a task to the end of another column without dragging, e.g. from a status picker
+   * Returns whether the move was made
+   */
+  const moveTask = useCallback(
+    (taskId: string, statusId: string) => {
+      const task = allTasks.find((t) => t.id === taskId);
+      const status = board?.statuses.find((s) => s.id === statusId);
+      if (!task || !status || task.status_id === statusId || !allowMoveInto(status)) return false;
+
+      onMove(taskId, statusId, status.tasks.length);
+      return true;
+    },
+    [board, allTasks, allowMoveInto, onMove]
+  );
+
+  /**
+   * Screen reader announcements naming the task and where it is over
+   */
+  const announcements = useMemo((): Announcements => {
+    const titleOf = (id: string | number) => {
+      const task = allTasks.find((t) => t.id === id);
+      return task ? `"${task.title}"` : 'Task';
+    };
+    const columnOf = (id: string | number) => {
+      const task = allTasks.find((t) => t.id === id);
+      return board?.statuses.find((s) => s.id === task?.status_id)?.name ?? 'its column';
+    };
+    const describeTarget = (overId: string | number) => {
+      const target = resolveDropTarget(overId as string);
+      if (!target) return null;
+
+      const lane =
+        swimlanes && target.laneValue !== undefined
+          ? swimlanes.lanes.find((l) => l.key === getLaneKey(target.laneValue!))
+          : undefined;
+      const place = target.overTask
+        ? `"${target.overTask.title}" in ${target.status.name}`
+        : target.status.name;
+      return lane ? `${place}, ${lane.label} lane` : place;
+    };
+
+    return {
+      onDragStart: ({ active }) =>
+        `Picked up task ${titleOf(active.id)} in ${columnOf(active.id)}.`,
+      onDragOver: ({ active, over }) => {
+        const target = over && describeTarget(over.id);
+        return target
+          ? `Task ${titleOf(active.id)} is over ${target}.`
+          : `Task ${titleOf(active.id)} is no longer over a column.`;
+      },
+      onDragEnd: ({ active, over }) => {
+        const target = over && describeTarget(over.id);
+        if (!target) {
+          return `Task ${titleOf(active.id)} was dropped and stays in ${columnOf(active.id)}.`;
+        }
+
+        const status = resolveDropTarget(over.id as string)?.status;
+        const task = allTasks.find((t) => t.id === active.id);
+        const check =
+          status && task && task.status_id !== status.id
+            ? checkWipLimit(status, status.tasks.length + 1)
+            : null;
+        return check?.blocked
+          ? `Task ${titleOf(active.id)} was not moved: ${formatWipLimitMessage(check)}.`
+          : `Task ${titleOf(active.id)} was dropped on ${target}.`;
+      },
+      onDragCancel: ({ active }) =>
+        `Moving task ${titleOf(active.id)} was cancelled. It stays in ${columnOf(active.id)}.`,
+    };
+  }, [board, allTasks, swimlanes, resolveDropTarget]);
+
   return {
     sensors,
+    accessibility: { announcements, screenReaderInstructions },
+    moveTask,
     activeTask,
     allTasks,
+    wipLimitViolation,
     handleDragStart,
     handleDragOver,
     handleDragEnd,
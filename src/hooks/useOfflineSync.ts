@@ -0,0 +1,84 @@
+'use client';
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+import { getMutationQueue, type MutationQueueState } from '@/lib/offline';
+
+/** How often queued changes are retried while online, e.g. after server errors */
+const RETRY_INTERVAL_MS = 30_000;
+
+const SERVER_STATE: MutationQueueState = { pending: 0, conflicts: [], syncing: false };
+
+function subscribeToConnection(callback: () => void) {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+}
+
+/**
+ * Connection and offline queue status, replaying queued changes when the connection returns
+ * Mount once per page (the header does); replays started elsewhere are reported here too
+ */
+export function useOfflineSync() {
+  const queryClient = useQueryClient();
+  const queue = getMutationQueue();
+
+  const online = useSyncExternalStore(
+    subscribeToConnection,
+    () => navigator.onLine,
+    () => true
+  );
+  const state = useSyncExternalStore(queue.subscribe, queue.getState, () => SERVER_STATE);
+
+  useEffect(
+    () =>
+      queue.onReplay((result) => {
+        result.boardIds.forEach((boardId) => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(boardId) });
+        });
+        result.dropped.forEach(({ mutation, reason }) => {
+          toast.error(`Couldn't sync "${mutation.label}": ${reason}`);
+        });
+        if (result.conflicts.length > 0) {
+          toast.error(
+            result.conflicts.length === 1
+              ? `"${result.conflicts[0].label}" was also changed by someone else. Pick which version to keep.`
+              : `${result.conflicts.length} offline changes conflict with other edits. Pick which versions to keep.`,
+            { id: 'offline-conflicts' }
+          );
+        } else if (result.synced > 0 && !result.interrupted) {
+          toast.success('Offline changes synced', { id: 'offline-synced' });
+        }
+      }),
+    [queue, queryClient]
+  );
+
+  const sync = useCallback(() => queue.replay(), [queue]);
+
+  // A reconnect or newly queued changes start a replay, not each pending count change
+  const hasPending = state.pending > 0;
+  useEffect(() => {
+    if (!online || !hasPending) return;
+    void sync();
+    const interval = setInterval(() => void sync(), RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [online, hasPending, sync]);
+
+  const resolveConflict = useCallback(
+    async (id: string, choice: 'mine' | 'theirs') => {
+      const conflict = state.conflicts.find((mutation) => mutation.id === id);
+      await queue.resolve(id, choice);
+      if (conflict) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.boards.detail(conflict.boardId) });
+      }
+    },
+    [queue, queryClient, state.conflicts]
+  );
+
+  return { online, ...state, sync, resolveConflict };
+}
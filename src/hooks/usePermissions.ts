@@ -98,6 +98,9 @@ export function usePermissions({ role }: UsePermissionsOptions) {
       // Activity permissions
       canViewActivity: can('activity:read'),
 
+      // Webhook permissions
+      canManageWebhooks: can('webhook:manage'),
+
       // Role checks
       isOwner: normalizedRole === 'owner',
       isAdmin: normalizedRole === 'admin',
@@ -1,9 +1,21 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
-import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { useEffect, useCallback, useRef } from 'react';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/client';
-import { Task, Status, BoardWithData } from '@/types/board';
+import { mergePresenceState } from '@/lib/presence';
+import {
+  Task,
+  Status,
+  BoardWithData,
+  BoardPresenceMember,
+  BoardPresenceState,
+  Comment,
+  CommentReaction,
+  Attachment,
+  Activity,
+  BoardMember,
+} from '@/types/board';
 
 interface UseRealtimeBoardOptions {
   boardId: string;
@@ -13,6 +25,24 @@ interface UseRealtimeBoardOptions {
   onStatusInsert?: (status: Status) => void;
   onStatusUpdate?: (status: Status) => void;
   onStatusDelete?: (statusId: string) => void;
+  /**
+   * comments, reactions and attachments have no board_id to filter on, so these fire for
+   * every task the user can see; deletes receive the full old row
+   */
+  onCommentInsert?: (comment: Comment) => void;
+  onCommentUpdate?: (comment: Comment) => void;
+  onCommentDelete?: (comment: Comment) => void;
+  onReactionInsert?: (reaction: CommentReaction) => void;
+  onReactionDelete?: (reaction: CommentReaction) => void;
+  onAttachmentInsert?: (attachment: Attachment) => void;
+  onAttachmentDelete?: (attachment: Attachment) => void;
+  onActivityInsert?: (activity: Activity) => void;
+  onMemberInsert?: (member: BoardMember) => void;
+  onMemberUpdate?: (member: BoardMember) => void;
+  onMemberDelete?: (member: BoardMember) => void;
+  /** Current user's presence; when set, the channel tracks it and reports who else is here */
+  presence?: BoardPresenceState | null;
+  onPresenceSync?: (members: BoardPresenceMember[]) => void;
 }
 
 export function useRealtimeBoard({
@@ -23,14 +53,51 @@ export function useRealtimeBoard({
   onStatusInsert,
   onStatusUpdate,
   onStatusDelete,
+  onCommentInsert,
+  onCommentUpdate,
+  onCommentDelete,
+  onReactionInsert,
+  onReactionDelete,
+  onAttachmentInsert,
+  onAttachmentDelete,
+  onActivityInsert,
+  onMemberInsert,
+  onMemberUpdate,
+  onMemberDelete,
+  presence,
+  onPresenceSync,
 }: UseRealtimeBoardOptions) {
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const isSubscribedRef = useRef(false);
+  const presenceRef = useRef(presence);
+  const onPresenceSyncRef = useRef(onPresenceSync);
+  const presenceKey = presence?.user_id;
+
+  useEffect(() => {
+    presenceRef.current = presence;
+    onPresenceSyncRef.current = onPresenceSync;
+  });
+
   useEffect(() => {
     if (!boardId) return;
 
     const supabase = createClient();
 
-    const channel = supabase
-      .channel(`board-${boardId}`)
+    // Presence shares the board channel; supabase-js hands out one channel per topic
+    const channel = supabase.channel(
+      `board-${boardId}`,
+      presenceKey ? { config: { presence: { key: presenceKey } } } : undefined
+    );
+
+    if (presenceKey) {
+      channel.on('presence', { event: 'sync' }, () => {
+        onPresenceSyncRef.current?.(
+          mergePresenceState(channel.presenceState<BoardPresenceState>())
+        );
+      });
+    }
+
+    channel
       .on<Task>(
         'postgres_changes',
         {
@@ -115,26 +182,167 @@ export function useRealtimeBoard({
           }
         }
       )
-      .subscribe();
+      .on<Comment>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'comments',
+        },
+        (payload: RealtimePostgresChangesPayload<Comment>) => {
+          if (payload.eventType === 'DELETE') {
+            if ('id' in payload.old) onCommentDelete?.(payload.old as Comment);
+          } else if (payload.eventType === 'INSERT') {
+            onCommentInsert?.(payload.new);
+          } else {
+            onCommentUpdate?.(payload.new);
+          }
+        }
+      )
+      .on<CommentReaction>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'comment_reactions',
+        },
+        (payload: RealtimePostgresChangesPayload<CommentReaction>) => {
+          if (payload.eventType === 'DELETE') {
+            if ('id' in payload.old) onReactionDelete?.(payload.old as CommentReaction);
+          } else if (payload.eventType === 'INSERT') {
+            onReactionInsert?.(payload.new);
+          }
+        }
+      )
+      .on<Attachment>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'attachments',
+        },
+        (payload: RealtimePostgresChangesPayload<Attachment>) => {
+          if (payload.eventType === 'DELETE') {
+            if ('id' in payload.old) onAttachmentDelete?.(payload.old as Attachment);
+          } else if (payload.eventType === 'INSERT') {
+            onAttachmentInsert?.(payload.new);
+          }
+        }
+      )
+      .on<Activity>(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'activities',
+          filter: `board_id=eq.${boardId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<Activity>) => {
+          if (payload.new && 'id' in payload.new) {
+            onActivityInsert?.(payload.new as Activity);
+          }
+        }
+      )
+      .on<BoardMember>(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'board_members',
+          filter: `board_id=eq.${boardId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<BoardMember>) => {
+          if (payload.new && 'id' in payload.new) {
+            onMemberInsert?.(payload.new as BoardMember);
+          }
+        }
+      )
+      .on<BoardMember>(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'board_members',
+          filter: `board_id=eq.${boardId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<BoardMember>) => {
+          if (payload.new && 'id' in payload.new) {
+            onMemberUpdate?.(payload.new as BoardMember);
+          }
+        }
+      )
+      // Realtime cannot filter DELETE events, so match the old row's board here
+      .on<BoardMember>(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'board_members',
+        },
+        (payload: RealtimePostgresChangesPayload<BoardMember>) => {
+          if (payload.old && 'id' in payload.old && payload.old.board_id === boardId) {
+            onMemberDelete?.(payload.old as BoardMember);
+          }
+        }
+      )
+      .subscribe((status) => {
+        isSubscribedRef.current = status === 'SUBSCRIBED';
+        if (isSubscribedRef.current && presenceKey && presenceRef.current) {
+          channel.track(presenceRef.current);
+        }
+      });
+
+    channelRef.current = channel;
 
     return () => {
+      channelRef.current = null;
+      isSubscribedRef.current = false;
       supabase.removeChannel(channel);
     };
   }, [
     boardId,
+    presenceKey,
     onTaskInsert,
     onTaskUpdate,
     onTaskDelete,
     onStatusInsert,
     onStatusUpdate,
     onStatusDelete,
+    onCommentInsert,
+    onCommentUpdate,
+    onCommentDelete,
+    onReactionInsert,
+    onReactionDelete,
+    onAttachmentInsert,
+    onAttachmentDelete,
+    onActivityInsert,
+    onMemberInsert,
+    onMemberUpdate,
+    onMemberDelete,
   ]);
+
+  // Re-track whenever the user opens another task or starts/stops typing
+  useEffect(() => {
+    if (presence && channelRef.current && isSubscribedRef.current) {
+      channelRef.current.track(presence);
+    }
+  }, [presence]);
 }
 
 // Hook that manages board state with realtime updates
 export function useRealtimeBoardState(
   board: BoardWithData | null,
-  setBoard: React.Dispatch<React.SetStateAction<BoardWithData | null>>
+  setBoard: React.Dispatch<React.SetStateAction<BoardWithData | null>>,
+  extraOptions: Omit<
+    UseRealtimeBoardOptions,
+    | 'boardId'
+    | 'onTaskInsert'
+    | 'onTaskUpdate'
+    | 'onTaskDelete'
+    | 'onStatusInsert'
+    | 'onStatusUpdate'
+    | 'onStatusDelete'
+  > = {}
 ) {
   const boardId = board?.id;
 
@@ -277,5 +485,6 @@ export function useRealtimeBoardState(
     onStatusInsert: handleStatusInsert,
     onStatusUpdate: handleStatusUpdate,
     onStatusDelete: handleStatusDelete,
+    ...extraOptions,
   });
 }
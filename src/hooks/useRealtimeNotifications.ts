@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/lib/supabase/client';
+import { queryKeys } from '@/lib/react-query/queryKeys';
+
+/**
+ * Refetch the unread badge and the notification center when the user's notifications change
+ * Deletes carry no user_id for the filter to match, but they only come from the user's own
+ * mutations, which invalidate on their own
+ */
+export function useRealtimeNotifications(userId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const supabase = createClient();
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+}
@@ -0,0 +1,86 @@
+'use client';
+
+/**
+ * Swimlane grouping for a board
+ * The grouping and collapsed lanes are remembered per board in localStorage
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import type { BoardWithData, Profile } from '@/types/board';
+import {
+  buildSwimlanes,
+  isSwimlaneGrouping,
+  type Swimlane,
+  type SwimlaneGrouping,
+} from '@/lib/tasks';
+import {
+  getBoardSwimlanes,
+  setBoardSwimlanes,
+  type BoardSwimlaneState,
+} from '@/lib/storage/safeStorage';
+
+type LaneProfile = Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'>;
+
+export function useSwimlanes(
+  boardId: string,
+  board: BoardWithData | null,
+  members?: LaneProfile[]
+) {
+  const [state, setState] = useState<BoardSwimlaneState>(() => getBoardSwimlanes(boardId));
+
+  const updateState = useCallback(
+    (update: (prev: BoardSwimlaneState) => BoardSwimlaneState) => {
+      setState((prev) => {
+        const next = update(prev);
+        setBoardSwimlanes(boardId, next);
+        return next;
+      });
+    },
+    [boardId]
+  );
+
+  const grouping: SwimlaneGrouping | null = isSwimlaneGrouping(state.grouping)
+    ? state.grouping
+    : null;
+
+  const lanes = useMemo<Swimlane[]>(
+    () => (board && grouping ? buildSwimlanes(board, grouping, members) : []),
+    [board, grouping, members]
+  );
+
+  const collapsedLanes = useMemo(() => new Set(state.collapsed), [state.collapsed]);
+
+  /**
+   * Change the grouping; collapsed lanes are reset since lane keys differ per grouping
+   */
+  const setGrouping = useCallback(
+    (next: SwimlaneGrouping | null) => {
+      updateState(() => ({ grouping: next, collapsed: [] }));
+    },
+    [updateState]
+  );
+
+  const toggleLane = useCallback(
+    (laneKey: string) => {
+      updateState((prev) => ({
+        ...prev,
+        collapsed: prev.collapsed.includes(laneKey)
+          ? prev.collapsed.filter((key) => key !== laneKey)
+          : [...prev.collapsed, laneKey],
+      }));
+    },
+    [updateState]
+  );
+
+  // Shape expected by useDragAndDrop
+  const swimlanes = useMemo(() => (grouping ? { grouping, lanes } : null), [grouping, lanes]);
+
+  return {
+    grouping,
+    lanes,
+    collapsedLanes,
+    swimlanes,
+    setGrouping,
+    toggleLane,
+  };
+}
@@ -0,0 +1,37 @@
+'use client';
+
+/**
+ * Board task filters kept in the URL, so a filtered board can be shared or bookmarked
+ */
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { TaskFilters } from '@/types/board';
+import { countActiveFilters, parseTaskFilters, toTaskFilterParams } from '@/lib/tasks';
+
+export function useTaskFilters() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const query = searchParams.toString();
+
+  const filters = useMemo(() => parseTaskFilters(new URLSearchParams(query)), [query]);
+
+  const setFilters = useCallback(
+    (next: TaskFilters) => {
+      const params = toTaskFilterParams(next, query).toString();
+      // Replace rather than push so typing in the search box doesn't flood history
+      router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+    },
+    [router, pathname, query]
+  );
+
+  const clearFilters = useCallback(() => setFilters({}), [setFilters]);
+
+  return {
+    filters,
+    setFilters,
+    clearFilters,
+    activeCount: countActiveFilters(filters),
+  };
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { Task } from '@/types/board';
+import type { NavigationColumn } from '@/lib/tasks';
+
+/**
+ * Called when a card is Ctrl/Cmd-clicked (`range` false) or Shift-clicked (`range` true)
+ */
+export type TaskSelectHandler = (task: Task, options: { range: boolean }) => void;
+
+/**
+ * Multi-select for board cards
+ * Toggling remembers the card as the anchor; selecting a range adds every card between the
+ * anchor and the clicked one in board order (column by column, as in keyboard navigation).
+ * Selected cards that leave the board, e.g. deleted or filtered out, drop out of the selection.
+ */
+export function useTaskSelection(columns: NavigationColumn[]) {
+  const [selection, setSelection] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const orderedIds = useMemo(() => columns.flatMap((column) => column.taskIds), [columns]);
+
+  const selectedIds = useMemo(() => {
+    const visible = new Set(orderedIds);
+    const ids = Array.from(selection).filter((id) => visible.has(id));
+    return ids.length === selection.size ? selection : new Set(ids);
+  }, [orderedIds, selection]);
+
+  const toggle = useCallback((taskId: string) => {
+    anchorRef.current = taskId;
+    setSelection((current) => {
+      const next = new Set(current);
+      if (!next.delete(taskId)) next.add(taskId);
+      return next;
+    });
+  }, []);
+
+  const selectRange = useCallback(
+    (taskId: string) => {
+      const from = anchorRef.current ? orderedIds.indexOf(anchorRef.current) : -1;
+      const to = orderedIds.indexOf(taskId);
+      if (from === -1 || to === -1) {
+        toggle(taskId);
+        return;
+      }
+
+      const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setSelection((current) => new Set([...current, ...range]));
+    },
+    [orderedIds, toggle]
+  );
+
+  const clear = useCallback(() => {
+    anchorRef.current = null;
+    setSelection(new Set());
+  }, []);
+
+  const onSelect: TaskSelectHandler = useCallback(
+    (task, { range }) => (range ? selectRange(task.id) : toggle(task.id)),
+    [selectRange, toggle]
+  );
+
+  return { selectedIds, toggle, selectRange, clear, onSelect };
+}
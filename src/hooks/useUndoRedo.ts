@@ -0,0 +1,138 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  UNDO_HISTORY_LIMIT,
+  UndoConflictError,
+  commitRedo,
+  commitUndo,
+  createUndoHistory,
+  discardCommand,
+  recordCommand,
+  type UndoableCommand,
+  type UndoHistory,
+} from '@/lib/undo';
+
+interface UseUndoRedoOptions {
+  /** Turns the keyboard shortcuts off, e.g. for viewers */
+  enabled?: boolean;
+  limit?: number;
+  onUndo?: (command: UndoableCommand) => void;
+  onRedo?: (command: UndoableCommand) => void;
+  /** Conflicting commands are dropped from the history before this is called */
+  onError?: (error: Error, command: UndoableCommand) => void;
+}
+
+/**
+ * Keep native text undo inside form fields
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  );
+}
+
+/**
+ * Session undo/redo history using the Command pattern
+ * Ctrl+Z (Cmd+Z) undoes, Ctrl+Y or Ctrl+Shift+Z redoes
+ */
+export function useUndoRedo(options: UseUndoRedoOptions = {}) {
+  const { enabled = true, limit = UNDO_HISTORY_LIMIT, onUndo, onRedo, onError } = options;
+
+  const [history, setHistory] = useState<UndoHistory>(createUndoHistory);
+  const historyRef = useRef(history);
+  const isRunningRef = useRef(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const update = useCallback((updater: (prev: UndoHistory) => UndoHistory) => {
+    historyRef.current = updater(historyRef.current);
+    setHistory(historyRef.current);
+  }, []);
+
+  /**
+   * Record an operation that has just been performed
+   */
+  const record = useCallback(
+    (command: UndoableCommand | null) => {
+      if (command) update((prev) => recordCommand(prev, command, limit));
+    },
+    [update, limit]
+  );
+
+  const run = useCallback(
+    async (direction: 'undo' | 'redo', expected?: UndoableCommand) => {
+      const stack = direction === 'undo' ? historyRef.current.past : historyRef.current.future;
+      const command = stack[stack.length - 1];
+      if (!command || isRunningRef.current) return;
+
+      if (expected && expected !== command) {
+        onError?.(new Error('Undo the newer changes first'), expected);
+        return;
+      }
+
+      isRunningRef.current = true;
+      setIsRunning(true);
+
+      try {
+        await command[direction]();
+        update(direction === 'undo' ? commitUndo : commitRedo);
+        (direction === 'undo' ? onUndo : onRedo)?.(command);
+      } catch (error) {
+        // A conflicting command can never succeed; other failures may be retried
+        if (error instanceof UndoConflictError) {
+          update((prev) => discardCommand(prev, command));
+        }
+        onError?.(error instanceof Error ? error : new Error(`Failed to ${direction}`), command);
+      } finally {
+        isRunningRef.current = false;
+        setIsRunning(false);
+      }
+    },
+    [update, onUndo, onRedo, onError]
+  );
+
+  /**
+   * Undo the latest command; pass a command to only undo it if it is still the latest
+   */
+  const undo = useCallback((command?: UndoableCommand) => run('undo', command), [run]);
+
+  const redo = useCallback(() => run('redo'), [run]);
+
+  const clear = useCallback(() => update(createUndoHistory), [update]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, undo, redo]);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: history.past.length > 0 && !isRunning,
+    canRedo: history.future.length > 0 && !isRunning,
+    isRunning,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[history.future.length - 1]?.label ?? null,
+  };
+}
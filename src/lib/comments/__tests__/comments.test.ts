@@ -0,0 +1,120 @@
+import { buildCommentThreads } from '../threads';
+import { COMMENT_REACTIONS, summarizeReactions } from '../reactions';
+import { diffText, summarizeDiff } from '../diff';
+
+describe('buildCommentThreads', () => {
+  it('should group replies under their parent in order', () => {
+    const threads = buildCommentThreads([
+      { id: 'a', parent_id: null },
+      { id: 'b', parent_id: null },
+      { id: 'a1', parent_id: 'a' },
+      { id: 'b1', parent_id: 'b' },
+      { id: 'a2', parent_id: 'a' },
+    ]);
+
+    expect(threads.map(({ comment, replies }) => [comment.id, replies.map((r) => r.id)])).toEqual([
+      ['a', ['a1', 'a2']],
+      ['b', ['b1']],
+    ]);
+  });
+
+  it('should show replies whose parent is missing as top-level comments', () => {
+    const threads = buildCommentThreads([
+      { id: 'a', parent_id: null },
+      { id: 'orphan', parent_id: 'gone' },
+    ]);
+
+    expect(threads.map((thread) => thread.comment.id)).toEqual(['a', 'orphan']);
+  });
+});
+
+describe('summarizeReactions', () => {
+  it('should count each member once per emoji, in picker order', () => {
+    const summary = summarizeReactions(
+      [
+        { emoji: '🎉', user_id: 'u1' },
+        { emoji: '👍', user_id: 'u2' },
+        { emoji: '🎉', user_id: 'u2' },
+        { emoji: '🎉', user_id: 'u2' },
+      ],
+      'u1'
+    );
+
+    expect(summary).toEqual([
+      { emoji: '👍', count: 1, userIds: ['u2'], reacted: false },
+      { emoji: '🎉', count: 2, userIds: ['u1', 'u2'], reacted: true },
+    ]);
+  });
+
+  it('should sort unknown emoji after the picker set', () => {
+    const summary = summarizeReactions([
+      { emoji: '🦄', user_id: 'u1' },
+      { emoji: COMMENT_REACTIONS[7], user_id: 'u1' },
+    ]);
+    expect(summary.map((reaction) => reaction.emoji)).toEqual([COMMENT_REACTIONS[7], '🦄']);
+  });
+});
+
+describe('diffText', () => {
+  it('should mark inserted and deleted words', () => {
+    expect(diffText('ship the fix today', 'ship the big fix tomorrow')).toEqual([
+      { type: 'equal', text: 'ship the ' },
+      { type: 'insert', text: 'big ' },
+      { type: 'equal', text: 'fix ' },
+      { type: 'delete', text: 'today' },
+      { type: 'insert', text: 'tomorrow' },
+    ]);
+  });
+
+  it('should return a single equal part for identical text', () => {
+    expect(diffText('same text', 'same text')).toEqual([{ type: 'equal', text: 'same text' }]);
+  });
+
+  it('should handle empty versions', () => {
+    expect(diffText('', 'new')).toEqual([{ type: 'insert', text: 'new' }]);
+    expect(diffText('old', '')).toEqual([{ type: 'delete', text: 'old' }]);
+  });
+
+  it('should rebuild both versions from the parts', () => {
+    const before = 'The quick brown fox\njumps over the lazy dog';
+    const after = 'A quick red fox\njumps over the dog, twice';
+    const parts = diffText(before, after);
+
+    const rebuild = (skip: string) =>
+      parts
+        .filter((part) => part.type !== skip)
+        .map((part) => part.text)
+        .join('');
+    expect(rebuild('insert')).toBe(before);
+    expect(rebuild('delete')).toBe(after);
+  });
+});
+
+describe('summarizeDiff', () => {
+  it('should trim unchanged text to the context around changes', () => {
+    const parts = diffText(
+      `${'a '.repeat(30)}old${' b'.repeat(30)}`,
+      `${'a '.repeat(30)}new${' b'.repeat(30)}`
+    );
+    const summary = summarizeDiff(parts, 6);
+
+    expect(summary).toEqual([
+      { type: 'equal', text: '…a a a ' },
+      { type: 'delete', text: 'old' },
+      { type: 'insert', text: 'new' },
+      { type: 'equal', text: ' b b b…' },
+    ]);
+  });
+
+  it('should keep both ends of unchanged text between changes', () => {
+    const summary = summarizeDiff(
+      [
+        { type: 'delete', text: 'x' },
+        { type: 'equal', text: '0123456789' },
+        { type: 'insert', text: 'y' },
+      ],
+      3
+    );
+    expect(summary[1]).toEqual({ type: 'equal', text: '012 … 789' });
+  });
+});
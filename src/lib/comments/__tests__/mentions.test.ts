@@ -0,0 +1,106 @@
+import {
+  filterMentionCandidates,
+  formatMention,
+  getMentionQuery,
+  insertMention,
+  mentionsToPlainText,
+  parseMentionIds,
+  splitMentions,
+} from '../mentions';
+
+const ALICE_ID = '11111111-1111-4111-8111-111111111111';
+const BOB_ID = '22222222-2222-4222-8222-222222222222';
+
+const alice = { id: ALICE_ID, email: 'alice@example.com', display_name: 'Alice Smith' };
+const bob = { id: BOB_ID, email: 'bob@example.com', display_name: null };
+
+describe('formatMention', () => {
+  it('should use the display name, falling back to the email name', () => {
+    expect(formatMention(alice)).toBe(`@[Alice Smith](${ALICE_ID})`);
+    expect(formatMention(bob)).toBe(`@[bob](${BOB_ID})`);
+  });
+
+  it('should strip characters that would break the token', () => {
+    expect(formatMention({ ...alice, display_name: 'A[l]ice' })).toBe(`@[Alice](${ALICE_ID})`);
+  });
+});
+
+describe('parseMentionIds', () => {
+  it('should return unique lowercased ids in order', () => {
+    const content = `@[Bob](${BOB_ID}) and @[Alice](${ALICE_ID.toUpperCase()}) and @[Bob](${BOB_ID})`;
+    expect(parseMentionIds(content)).toEqual([BOB_ID, ALICE_ID]);
+  });
+
+  it('should ignore malformed tokens and plain @ text', () => {
+    expect(parseMentionIds('@[Alice](not-a-uuid) mail alice@example.com')).toEqual([]);
+  });
+});
+
+describe('splitMentions', () => {
+  it('should split content into text and mention segments', () => {
+    expect(splitMentions(`Hi @[Alice](${ALICE_ID}), thanks`)).toEqual([
+      { type: 'text', text: 'Hi ' },
+      { type: 'mention', name: 'Alice', userId: ALICE_ID },
+      { type: 'text', text: ', thanks' },
+    ]);
+  });
+
+  it('should return a single text segment without mentions', () => {
+    expect(splitMentions('plain')).toEqual([{ type: 'text', text: 'plain' }]);
+  });
+});
+
+describe('mentionsToPlainText', () => {
+  it('should replace tokens with @Name', () => {
+    expect(mentionsToPlainText(`cc @[Alice Smith](${ALICE_ID})`)).toBe('cc @Alice Smith');
+  });
+});
+
+describe('getMentionQuery', () => {
+  it('should find the query being typed at the caret', () => {
+    expect(getMentionQuery('hello @al', 9)).toEqual({ query: 'al', start: 6 });
+    expect(getMentionQuery('@', 1)).toEqual({ query: '', start: 0 });
+  });
+
+  it('should ignore an @ inside a word such as an email', () => {
+    expect(getMentionQuery('alice@exa', 9)).toBeNull();
+  });
+
+  it('should stop once whitespace follows the query', () => {
+    expect(getMentionQuery('@al ice', 7)).toBeNull();
+  });
+
+  it('should only look at text before the caret', () => {
+    expect(getMentionQuery('@al rest', 3)).toEqual({ query: 'al', start: 0 });
+  });
+});
+
+describe('filterMentionCandidates', () => {
+  const carol = { id: 'c', email: 'carol@example.com', display_name: 'Carol Balice' };
+
+  it('should rank name prefix, then email prefix, then substring matches', () => {
+    const profiles = [carol, { ...bob, display_name: 'Bob', email: 'ali@example.com' }, alice];
+    expect(filterMentionCandidates(profiles, 'ali').map((p) => p.id)).toEqual([
+      ALICE_ID,
+      BOB_ID,
+      'c',
+    ]);
+  });
+
+  it('should return everyone for an empty query, up to the limit', () => {
+    expect(filterMentionCandidates([alice, bob, carol], '', 2)).toHaveLength(2);
+  });
+
+  it('should exclude members that do not match', () => {
+    expect(filterMentionCandidates([alice, bob], 'zed')).toEqual([]);
+  });
+});
+
+describe('insertMention', () => {
+  it('should replace the query with a token and place the caret after it', () => {
+    const result = insertMention('hi @al there', 3, 6, alice);
+    const token = `@[Alice Smith](${ALICE_ID}) `;
+    expect(result.text).toBe(`hi ${token} there`);
+    expect(result.caret).toBe(3 + token.length);
+  });
+});
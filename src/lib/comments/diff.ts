@@ -0,0 +1,125 @@
+/**
+ * Comment edit diffs
+ * Word-level diff between two versions of a comment, for edit history and activity
+ */
+
+export type TextDiffPart = {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+};
+
+/** Past this many token pairs the changed middle is shown as one replacement */
+const MAX_DIFF_CELLS = 250_000;
+
+/** Characters of unchanged text kept around each change by summarizeDiff */
+const DEFAULT_CONTEXT = 40;
+
+/** Longest inserted or deleted run kept by summarizeDiff */
+const MAX_CHANGE_LENGTH = 500;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Diff two texts word by word; adjacent parts of the same type are merged
+ */
+export function diffText(before: string, after: string): TextDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: TextDiffPart[] = [];
+
+  const push = (type: TextDiffPart['type'], text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  // Most edits touch a small part of the text, so skip the shared ends first
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const removed = a.slice(prefix, a.length - suffix);
+  const added = b.slice(prefix, b.length - suffix);
+
+  push('equal', a.slice(0, prefix).join(''));
+
+  if (removed.length * added.length > MAX_DIFF_CELLS) {
+    push('delete', removed.join(''));
+    push('insert', added.join(''));
+  } else {
+    // lcs[i * width + j] is the longest common subsequence of removed[i..] and added[j..]
+    const width = added.length + 1;
+    const lcs = new Uint32Array((removed.length + 1) * width);
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          removed[i] === added[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < removed.length && j < added.length) {
+      if (removed[i] === added[j]) {
+        push('equal', removed[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push('delete', removed[i++]);
+      } else {
+        push('insert', added[j++]);
+      }
+    }
+    while (i < removed.length) push('delete', removed[i++]);
+    while (j < added.length) push('insert', added[j++]);
+  }
+
+  push('equal', a.slice(a.length - suffix).join(''));
+  return parts;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+/**
+ * Shorten a diff for storage in activity details:
+ * unchanged text is cut down to some context around each change, long changes are truncated
+ */
+export function summarizeDiff(parts: TextDiffPart[], context = DEFAULT_CONTEXT): TextDiffPart[] {
+  return parts.map((part, index) => {
+    if (part.type !== 'equal') {
+      return { type: part.type, text: truncate(part.text, MAX_CHANGE_LENGTH) };
+    }
+
+    const isFirst = index === 0;
+    const isLast = index === parts.length - 1;
+    const { text } = part;
+
+    if (isFirst && text.length > context) {
+      return { type: 'equal', text: `…${text.slice(-context)}` };
+    }
+    if (isLast && text.length > context) {
+      return { type: 'equal', text: `${text.slice(0, context)}…` };
+    }
+    if (!isFirst && !isLast && text.length > context * 2) {
+      return { type: 'equal', text: `${text.slice(0, context)} … ${text.slice(-context)}` };
+    }
+    return { type: 'equal', text };
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * Comments
+ * Mentions, threads, reactions, edit diffs and notification helpers for task comments
+ */
+
+export {
+  MENTION_PATTERN,
+  getMentionName,
+  formatMention,
+  parseMentionIds,
+  splitMentions,
+  mentionsToPlainText,
+  getMentionQuery,
+  filterMentionCandidates,
+  insertMention,
+  type CommentSegment,
+  type MentionQuery,
+} from './mentions';
+
+export { notifyMentionedUsers, notifyCommentWatchers } from './notifications';
+
+export { buildCommentThreads, type CommentThread } from './threads';
+
+export {
+  COMMENT_REACTIONS,
+  summarizeReactions,
+  type CommentReactionEmoji,
+  type ReactionSummary,
+} from './reactions';
+
+export { diffText, summarizeDiff, type TextDiffPart } from './diff';
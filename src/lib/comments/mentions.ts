@@ -0,0 +1,145 @@
+/**
+ * Comment mentions
+ * Mentions are stored inline as `@[Display Name](user-id)` so the text reads naturally
+ * even where tokens aren't rendered, and carry the id so renames don't break them
+ */
+
+import type { Profile } from '@/types/board';
+
+type MentionProfile = Pick<Profile, 'id' | 'email' | 'display_name'>;
+
+export type CommentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; userId: string; name: string };
+
+export interface MentionQuery {
+  /** Text typed after the @ */
+  query: string;
+  /** Index of the @ in the input */
+  start: number;
+}
+
+const UUID = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+
+/** Matches one mention token; capture groups are the name and the user id */
+export const MENTION_PATTERN = new RegExp(`@\\[([^\\[\\]\\n]{1,100})\\]\\((${UUID})\\)`, 'gi');
+
+/** Longest text after an @ still treated as an autocomplete query */
+const MAX_QUERY_LENGTH = 50;
+
+/**
+ * Name shown for a member in mentions
+ */
+export function getMentionName(profile: MentionProfile): string {
+  return profile.display_name || profile.email.split('@')[0];
+}
+
+/**
+ * Build the token stored in comment content for a member
+ */
+export function formatMention(profile: MentionProfile): string {
+  const name =
+    getMentionName(profile)
+      .replace(/[[\]\n]/g, '')
+      .slice(0, 100) || 'user';
+  return `@[${name}](${profile.id})`;
+}
+
+/**
+ * Unique ids of everyone mentioned in a comment, in order of first mention
+ */
+export function parseMentionIds(content: string): string[] {
+  const ids = Array.from(content.matchAll(MENTION_PATTERN), (match) => match[2].toLowerCase());
+  return [...new Set(ids)];
+}
+
+/**
+ * Split content into text and mention segments for rendering
+ */
+export function splitMentions(content: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'mention', name: match[1], userId: match[2].toLowerCase() });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Replace mention tokens with plain "@Name", e.g. for emails and notifications
+ */
+export function mentionsToPlainText(content: string): string {
+  return content.replace(MENTION_PATTERN, (_token, name: string) => `@${name}`);
+}
+
+/**
+ * Find the @query being typed at the caret, if any
+ * The @ must start the input or follow whitespace, so emails aren't treated as mentions
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | null {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start === -1) return null;
+  if (start > 0 && !/\s/.test(before[start - 1])) return null;
+
+  const query = before.slice(start + 1);
+  if (query.length > MAX_QUERY_LENGTH || /[\s[\]]/.test(query)) return null;
+
+  return { query, start };
+}
+
+/**
+ * Members matching an autocomplete query by name or email, best matches first
+ */
+export function filterMentionCandidates<T extends MentionProfile>(
+  profiles: T[],
+  query: string,
+  limit = 6
+): T[] {
+  const q = query.toLowerCase();
+
+  return profiles
+    .map((profile) => {
+      const name = getMentionName(profile).toLowerCase();
+      const email = profile.email.toLowerCase();
+      const rank = name.startsWith(q)
+        ? 0
+        : email.startsWith(q)
+          ? 1
+          : name.includes(q) || email.includes(q)
+            ? 2
+            : -1;
+      return { profile, rank };
+    })
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ profile }) => profile);
+}
+
+/**
+ * Replace the @query at `start..caret` with a mention token followed by a space
+ * Returns the new text and where to put the caret
+ */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  profile: MentionProfile
+): { text: string; caret: number } {
+  const token = `${formatMention(profile)} `;
+  return {
+    text: text.slice(0, start) + token + text.slice(caret),
+    caret: start + token.length,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Comment notifications for API routes
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { notifyUsers } from '@/lib/notifications';
+import { markdownToPlainText } from '@/lib/markdown';
+
+/** Longest comment excerpt included in notifications */
+const EXCERPT_LENGTH = 200;
+
+/**
+ * Board name, task title, author name and a plain-text excerpt for comment notifications
+ */
+async function loadCommentContext(
+  supabase: SupabaseClient<Database>,
+  options: { boardId: string; taskId: string; authorId: string; content: string }
+) {
+  const { boardId, taskId, authorId, content } = options;
+
+  const [{ data: board }, { data: task }, { data: author }] = await Promise.all([
+    supabase.from('boards').select('name').eq('id', boardId).single(),
+    supabase.from('tasks').select('title').eq('id', taskId).single(),
+    supabase.from('profiles').select('display_name, email').eq('id', authorId).single(),
+  ]);
+
+  const text = markdownToPlainText(content).replace(/\s+/g, ' ').trim();
+
+  return {
+    boardName: board?.name,
+    taskTitle: task?.title || 'a task',
+    authorName: author?.display_name || author?.email || 'Someone',
+    excerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text,
+  };
+}
+
+/**
+ * Send comment_mention notifications (and emails) to the mentioned members
+ * The author is never notified about mentioning themselves
+ */
+export async function notifyMentionedUsers(
+  supabase: SupabaseClient<Database>,
+  options: {
+    boardId: string;
+    taskId: string;
+    authorId: string;
+    content: string;
+    mentionedIds: string[];
+  }
+): Promise<void> {
+  const { boardId, taskId, authorId, content, mentionedIds } = options;
+  if (mentionedIds.length === 0) return;
+
+  const { boardName, taskTitle, authorName, excerpt } = await loadCommentContext(supabase, {
+    boardId,
+    taskId,
+    authorId,
+    content,
+  });
+
+  await notifyUsers(supabase, {
+    type: 'comment_mention',
+    recipientIds: mentionedIds,
+    actorId: authorId,
+    title: 'You were mentioned',
+    message: `${authorName} mentioned you on "${taskTitle}": ${excerpt}`,
+    boardId,
+    taskId,
+    emailData: {
+      commenterName: authorName,
+      commentText: excerpt,
+      boardName,
+      boardId,
+      taskTitle,
+      taskId,
+      mentioned: true,
+    },
+  });
+}
+
+/**
+ * Send comment_added notifications to the task's assignees and to everyone watching
+ * the task or board; members mentioned in the comment already got comment_mention
+ */
+export async function notifyCommentWatchers(
+  supabase: SupabaseClient<Database>,
+  options: {
+    boardId: string;
+    taskId: string;
+    authorId: string;
+    content: string;
+    mentionedIds: string[];
+  }
+): Promise<void> {
+  const { boardId, taskId, authorId, content, mentionedIds } = options;
+
+  const [{ data: assignees }, context] = await Promise.all([
+    supabase.from('task_assignees').select('user_id').eq('task_id', taskId),
+    loadCommentContext(supabase, { boardId, taskId, authorId, content }),
+  ]);
+  const { boardName, taskTitle, authorName, excerpt } = context;
+
+  await notifyUsers(supabase, {
+    type: 'comment_added',
+    recipientIds: (assignees || []).map((a) => a.user_id),
+    actorId: authorId,
+    excludeIds: mentionedIds,
+    includeWatchers: true,
+    title: 'New Comment',
+    message: `${authorName} commented on "${taskTitle}": ${excerpt}`,
+    boardId,
+    taskId,
+    emailData: {
+      commenterName: authorName,
+      commentText: excerpt,
+      boardName,
+      boardId,
+      taskTitle,
+      taskId,
+    },
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Comment reactions
+ * Members react with a fixed set of emoji; each member can add each emoji once
+ */
+
+import type { CommentReaction } from '@/types/board';
+
+/** Emoji offered by the reaction picker, in display order */
+export const COMMENT_REACTIONS = ['👍', '👎', '😄', '🎉', '😕', '❤️', '🚀', '👀'] as const;
+
+export type CommentReactionEmoji = (typeof COMMENT_REACTIONS)[number];
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  /** Whether the current user has added this reaction */
+  reacted: boolean;
+}
+
+/**
+ * Group a comment's reactions by emoji, in picker order
+ */
+export function summarizeReactions(
+  reactions: Pick<CommentReaction, 'emoji' | 'user_id'>[],
+  currentUserId?: string | null
+): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+
+  for (const { emoji, user_id } of reactions) {
+    const summary = byEmoji.get(emoji) ?? { emoji, count: 0, userIds: [], reacted: false };
+    if (summary.userIds.includes(user_id)) continue;
+    summary.userIds.push(user_id);
+    summary.count += 1;
+    summary.reacted ||= user_id === currentUserId;
+    byEmoji.set(emoji, summary);
+  }
+
+  const order = (emoji: string) => {
+    const index = (COMMENT_REACTIONS as readonly string[]).indexOf(emoji);
+    return index === -1 ? COMMENT_REACTIONS.length : index;
+  };
+
+  return [...byEmoji.values()].sort((a, b) => order(a.emoji) - order(b.emoji));
+}
@@ -0,0 +1,42 @@
+/**
+ * Comment threads
+ * Replies hang one level under a top-level comment
+ */
+
+import type { Comment } from '@/types/board';
+
+export interface CommentThread<T extends Pick<Comment, 'id' | 'parent_id'>> {
+  comment: T;
+  replies: T[];
+}
+
+/**
+ * Group comments into threads, keeping the input order within each level
+ * Replies whose parent isn't loaded are shown as top-level comments rather than hidden
+ */
+export function buildCommentThreads<T extends Pick<Comment, 'id' | 'parent_id'>>(
+  comments: T[]
+): CommentThread<T>[] {
+  const threads = new Map<string, CommentThread<T>>();
+  const ids = new Set(comments.map((comment) => comment.id));
+
+  for (const comment of comments) {
+    if (!comment.parent_id || !ids.has(comment.parent_id)) {
+      threads.set(comment.id, { comment, replies: [] });
+    }
+  }
+
+  for (const comment of comments) {
+    if (comment.parent_id && ids.has(comment.parent_id)) {
+      // The API points replies at the root, so a reply-to-a-reply only shows up top-level
+      const thread = threads.get(comment.parent_id);
+      if (thread) {
+        thread.replies.push(comment);
+      } else {
+        threads.set(comment.id, { comment, replies: [] });
+      }
+    }
+  }
+
+  return [...threads.values()];
+}
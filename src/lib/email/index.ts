@@ -0,0 +1,28 @@
+/**
+ * Email
+ * Notification and digest templates, plus transports for sending them
+ */
+
+export type { EmailMessage, EmailTransport } from './types';
+
+export {
+  MAX_DIGEST_ITEMS,
+  getAppUrl,
+  renderNotificationEmail,
+  renderDigestEmail,
+  type EmailTemplate,
+  type NotificationEmailData,
+  type DigestItem,
+  type RenderedEmail,
+} from './templates';
+
+export {
+  createEmailTransport,
+  createEdgeFunctionTransport,
+  createFileTransport,
+  createSmtpTransport,
+  formatMimeMessage,
+  getSenderAddress,
+  parseSmtpUrl,
+  type EmailTransportName,
+} from './transports';
@@ -0,0 +1,239 @@
+/**
+ * Email templates
+ * Notification emails and hourly/daily digests, rendered to HTML and plain text
+ * All interpolated values are user content and are escaped
+ */
+
+import type { EmailFrequency } from '@/types/board';
+import { escapeHtml } from '@/lib/security/sanitize';
+
+/** Templates for single notification emails */
+export type EmailTemplate = 'board_invite' | 'task_assigned' | 'task_due' | 'comment_added';
+
+/** Data a notification stores for its email template */
+export interface NotificationEmailData {
+  boardName?: string;
+  boardId?: string;
+  taskTitle?: string;
+  taskId?: string;
+  inviterName?: string;
+  assignerName?: string;
+  commenterName?: string;
+  commentText?: string;
+  dueDate?: string;
+  /** task_due: the due date has passed */
+  overdue?: boolean;
+  /** comment_added: the recipient was @mentioned */
+  mentioned?: boolean;
+}
+
+/** One notification listed in a digest */
+export interface DigestItem {
+  title: string;
+  message: string | null;
+  boardId: string | null;
+  taskId: string | null;
+  createdAt: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Digests list at most this many notifications and summarize the rest */
+export const MAX_DIGEST_ITEMS = 50;
+
+const DEFAULT_APP_URL = 'https://kanbanpro.app';
+
+/**
+ * Base URL for links in emails
+ */
+export function getAppUrl(): string {
+  return (process.env.APP_URL || DEFAULT_APP_URL).replace(/\/+$/, '');
+}
+
+function link(appUrl: string, boardId?: string | null, taskId?: string | null): string {
+  if (!boardId) return appUrl;
+  const path = `${appUrl}/boards/${encodeURIComponent(boardId)}`;
+  return taskId ? `${path}?task=${encodeURIComponent(taskId)}` : path;
+}
+
+interface Layout {
+  heading: string;
+  greetingName?: string;
+  /** Paragraphs of already escaped HTML */
+  paragraphs: string[];
+  /** Block of already escaped HTML shown after the paragraphs */
+  content?: string;
+  quote?: string;
+  button?: { label: string; href: string; color: string };
+}
+
+function renderLayout({
+  heading,
+  greetingName,
+  paragraphs,
+  content,
+  quote,
+  button,
+}: Layout): string {
+  const paragraph = (html: string) =>
+    `<p style="color: #4b5563; font-size: 16px; line-height: 1.5;">${html}</p>`;
+
+  return `
+      <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h1 style="color: #1f2937; font-size: 24px; margin-bottom: 16px;">${escapeHtml(heading)}</h1>
+        ${paragraph(`Hi ${escapeHtml(greetingName || 'there')},`)}
+        ${paragraphs.map(paragraph).join('\n        ')}
+        ${content ?? ''}
+        ${
+          quote !== undefined
+            ? `<blockquote style="border-left: 4px solid #e5e7eb; margin: 16px 0; padding-left: 16px; color: #6b7280;">${escapeHtml(quote)}</blockquote>`
+            : ''
+        }
+        ${
+          button
+            ? `<a href="${escapeHtml(button.href)}" style="display: inline-block; background-color: ${button.color}; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 500; margin: 16px 0;">${escapeHtml(button.label)}</a>`
+            : ''
+        }
+        <p style="color: #9ca3af; font-size: 14px; margin-top: 24px;">
+          - The KanbanPro Team
+        </p>
+      </div>
+    `;
+}
+
+/**
+ * Render a single notification email
+ */
+export function renderNotificationEmail(
+  template: EmailTemplate,
+  data: NotificationEmailData & { recipientName?: string },
+  appUrl: string = getAppUrl()
+): RenderedEmail {
+  const greeting = `Hi ${data.recipientName || 'there'},`;
+  const strong = (value?: string) => `<strong>${escapeHtml(value || '')}</strong>`;
+  const taskUrl = link(appUrl, data.boardId, data.taskId);
+
+  switch (template) {
+    case 'board_invite': {
+      const boardUrl = link(appUrl, data.boardId);
+      return {
+        subject: `You've been invited to ${data.boardName}`,
+        html: renderLayout({
+          heading: 'Board Invitation',
+          greetingName: data.recipientName,
+          paragraphs: [
+            `${strong(data.inviterName)} has invited you to collaborate on the board ${strong(`"${data.boardName}"`)}.`,
+          ],
+          button: { label: 'View Board', href: boardUrl, color: '#2563eb' },
+        }),
+        text: `${greeting}\n\n${data.inviterName} has invited you to collaborate on the board "${data.boardName}".\n\nView board: ${boardUrl}`,
+      };
+    }
+
+    case 'task_assigned':
+      return {
+        subject: `You've been assigned to "${data.taskTitle}"`,
+        html: renderLayout({
+          heading: 'Task Assignment',
+          greetingName: data.recipientName,
+          paragraphs: [
+            `${strong(data.assignerName)} has assigned you to the task ${strong(`"${data.taskTitle}"`)} on the board ${strong(`"${data.boardName}"`)}.`,
+          ],
+          button: { label: 'View Task', href: taskUrl, color: '#2563eb' },
+        }),
+        text: `${greeting}\n\n${data.assignerName} has assigned you to the task "${data.taskTitle}" on the board "${data.boardName}".\n\nView task: ${taskUrl}`,
+      };
+
+    case 'task_due': {
+      const sentence = `The task "${data.taskTitle}" ${data.overdue ? 'was' : 'is'} due on ${data.dueDate}.`;
+      return {
+        subject: `Task "${data.taskTitle}" ${data.overdue ? 'is overdue' : 'is due soon'}`,
+        html: renderLayout({
+          heading: 'Due Date Reminder',
+          greetingName: data.recipientName,
+          paragraphs: [
+            `The task ${strong(`"${data.taskTitle}"`)} ${data.overdue ? 'was' : 'is'} due on ${strong(data.dueDate)}.`,
+          ],
+          button: { label: 'View Task', href: taskUrl, color: '#f59e0b' },
+        }),
+        text: `${greeting}\n\n${sentence}\n\nView task: ${taskUrl}`,
+      };
+    }
+
+    case 'comment_added': {
+      const verb = data.mentioned ? 'mentioned you on' : 'commented on';
+      return {
+        subject: data.mentioned
+          ? `${data.commenterName} mentioned you on "${data.taskTitle}"`
+          : `New comment on "${data.taskTitle}"`,
+        html: renderLayout({
+          heading: 'New Comment',
+          greetingName: data.recipientName,
+          paragraphs: [`${strong(data.commenterName)} ${verb} ${strong(`"${data.taskTitle}"`)}:`],
+          quote: data.commentText || '',
+          button: { label: 'View Task', href: taskUrl, color: '#2563eb' },
+        }),
+        text: `${greeting}\n\n${data.commenterName} ${verb} "${data.taskTitle}":\n\n> ${(data.commentText || '').replace(/\n/g, '\n> ')}\n\nView task: ${taskUrl}`,
+      };
+    }
+  }
+}
+
+/**
+ * Render a digest of several notifications, newest last
+ */
+export function renderDigestEmail(
+  options: {
+    recipientName?: string;
+    frequency: Exclude<EmailFrequency, 'instant'>;
+    items: DigestItem[];
+  },
+  appUrl: string = getAppUrl()
+): RenderedEmail {
+  const { recipientName, frequency, items } = options;
+  const shown = items.slice(0, MAX_DIGEST_ITEMS);
+  const hidden = items.length - shown.length;
+  const period = frequency === 'hourly' ? 'the last hour' : 'the last day';
+  const count = `${items.length} new notification${items.length === 1 ? '' : 's'}`;
+
+  const more = hidden > 0 ? `…and ${hidden} more.` : '';
+
+  const listHtml = `<ul style="color: #4b5563; padding-left: 20px; margin: 16px 0;">${shown
+    .map((item) => {
+      const href = link(appUrl, item.boardId, item.taskId);
+      return `<li style="margin-bottom: 12px;"><a href="${escapeHtml(href)}" style="color: #2563eb; font-weight: 500;">${escapeHtml(item.title)}</a>${
+        item.message
+          ? `<br /><span style="color: #6b7280; font-size: 14px;">${escapeHtml(item.message)}</span>`
+          : ''
+      }</li>`;
+    })
+    .join('')}${more ? `<li>${escapeHtml(more)}</li>` : ''}</ul>`;
+
+  return {
+    subject: `Your ${frequency} KanbanPro digest: ${count}`,
+    html: renderLayout({
+      heading: frequency === 'hourly' ? 'Hourly Digest' : 'Daily Digest',
+      greetingName: recipientName,
+      paragraphs: [`Here's what happened in ${period}:`],
+      content: listHtml,
+      button: { label: 'View Notifications', href: `${appUrl}/notifications`, color: '#2563eb' },
+    }),
+    text: [
+      `Hi ${recipientName || 'there'},`,
+      '',
+      `Here's what happened in ${period}:`,
+      '',
+      ...shown.map(
+        (item) =>
+          `- ${item.title}${item.message ? `: ${item.message}` : ''}\n  ${link(appUrl, item.boardId, item.taskId)}`
+      ),
+      ...(more ? ['', more] : []),
+      '',
+      `View notifications: ${appUrl}/notifications`,
+    ].join('\n'),
+  };
+}
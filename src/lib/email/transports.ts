@@ -0,0 +1,258 @@
+/**
+ * Email transports
+ * - edge: the send-notification-email Supabase function (Resend); the production default
+ * - smtp: plain SMTP, e.g. a local Mailpit/MailHog on localhost:1025
+ * - file: writes each message as an .eml file, for offline development and tests
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import net from 'node:net';
+import path from 'node:path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import type { EmailMessage, EmailTransport } from './types';
+
+export type EmailTransportName = 'edge' | 'smtp' | 'file';
+
+const DEFAULT_FROM = 'KanbanPro <noreply@kanbanpro.app>';
+const DEFAULT_SMTP_URL = 'smtp://localhost:1025';
+const DEFAULT_FILE_DIR = '.email-outbox';
+
+/** SMTP connections that stall longer than this are abandoned */
+const SMTP_TIMEOUT_MS = 10_000;
+
+/**
+ * The bare address from a "Name <address>" sender
+ */
+export function getSenderAddress(from: string): string {
+  return from.match(/<([^<>]+)>/)?.[1]?.trim() ?? from.trim();
+}
+
+function assertHeaderSafe(value: string, field: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Invalid ${field}: line breaks are not allowed`);
+  }
+}
+
+/** RFC 2047 encoded-word, so subjects can hold any text */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(value: string): string {
+  return (
+    Buffer.from(value, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * Format a message as a MIME document with text and HTML alternatives
+ */
+export function formatMimeMessage(
+  message: EmailMessage,
+  from: string,
+  date: Date = new Date()
+): string {
+  assertHeaderSafe(message.to, 'recipient');
+  assertHeaderSafe(from, 'sender');
+
+  const boundary = `kanbanpro-${randomUUID()}`;
+  const domain = getSenderAddress(from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Send through the send-notification-email edge function
+ */
+export function createEdgeFunctionTransport(supabase: SupabaseClient<Database>): EmailTransport {
+  return {
+    name: 'edge',
+    async send(message) {
+      const { error } = await supabase.functions.invoke('send-notification-email', {
+        body: message,
+      });
+      if (error) throw error;
+    },
+  };
+}
+
+/**
+ * Write each message to `<dir>/<timestamp>-<id>.eml`
+ */
+export function createFileTransport(
+  dir: string = DEFAULT_FILE_DIR,
+  from: string = DEFAULT_FROM
+): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const now = new Date();
+      const filename = `${now.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, filename), formatMimeMessage(message, from, now), 'utf8');
+    },
+  };
+}
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Parse `smtp://[user:password@]host[:port]`
+ */
+export function parseSmtpUrl(url: string): SmtpOptions {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'smtp:') {
+    throw new Error('SMTP_URL must start with smtp:// (TLS is not supported)');
+  }
+
+  return {
+    host: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : 25,
+    user: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+  };
+}
+
+/**
+ * Minimal SMTP client: one connection per message, optional AUTH PLAIN, no TLS
+ * Meant for local catch-all servers, not for delivering to the internet
+ */
+export function createSmtpTransport(
+  options: SmtpOptions,
+  from: string = DEFAULT_FROM
+): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const mime = formatMimeMessage(message, from);
+      const socket = net.connect({ host: options.host, port: options.port });
+      socket.setEncoding('utf8');
+      socket.setTimeout(SMTP_TIMEOUT_MS);
+
+      let buffer = '';
+      let waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | null =
+        null;
+      let failure: Error | null = null;
+
+      const fail = (error: Error) => {
+        failure = error;
+        waiting?.reject(error);
+        waiting = null;
+      };
+
+      // A reply is complete at a line whose code is followed by a space, e.g. "250 OK"
+      const takeReply = () => {
+        const lines = buffer.split('\r\n');
+        const last = lines.findIndex((line) => /^\d{3} /.test(line) || /^\d{3}$/.test(line));
+        if (last === -1 || !waiting) return;
+        const reply = lines.slice(0, last + 1).join('\n');
+        buffer = lines.slice(last + 1).join('\r\n');
+        const current = waiting;
+        waiting = null;
+        current.resolve(reply);
+      };
+
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        takeReply();
+      });
+      socket.on('timeout', () => {
+        fail(new Error('SMTP connection timed out'));
+        socket.destroy();
+      });
+      socket.on('error', fail);
+      socket.on('close', () => fail(new Error('SMTP connection closed')));
+
+      const expect = (codes: number[], command?: string) =>
+        new Promise<string>((resolve, reject) => {
+          if (failure) return reject(failure);
+          waiting = { resolve, reject };
+          if (command !== undefined) socket.write(`${command}\r\n`);
+          takeReply();
+        }).then((reply) => {
+          const code = Number(reply.slice(0, 3));
+          if (!codes.includes(code)) {
+            throw new Error(`SMTP error after ${command?.split(' ')[0] ?? 'connect'}: ${reply}`);
+          }
+          return reply;
+        });
+
+      try {
+        await expect([220]);
+        await expect([250], `EHLO ${getSenderAddress(from).split('@')[1] || 'localhost'}`);
+        if (options.user) {
+          const credentials = Buffer.from(
+            `\0${options.user}\0${options.password ?? ''}`,
+            'utf8'
+          ).toString('base64');
+          await expect([235], `AUTH PLAIN ${credentials}`);
+        }
+        await expect([250], `MAIL FROM:<${getSenderAddress(from)}>`);
+        await expect([250, 251], `RCPT TO:<${getSenderAddress(message.to)}>`);
+        await expect([354], 'DATA');
+        // Dot-stuffing: a line starting with "." gets a second one
+        await expect([250], `${mime.replace(/\r\n\./g, '\r\n..')}\r\n.`);
+        await expect([221], 'QUIT').catch(() => undefined);
+      } finally {
+        socket.removeAllListeners('close');
+        socket.end();
+      }
+    },
+  };
+}
+
+/**
+ * Pick a transport from the environment:
+ * EMAIL_TRANSPORT (edge | smtp | file), SMTP_URL, EMAIL_FILE_DIR and FROM_EMAIL
+ */
+export function createEmailTransport(
+  supabase: SupabaseClient<Database>,
+  env: Record<string, string | undefined> = process.env
+): EmailTransport {
+  const from = env.FROM_EMAIL || DEFAULT_FROM;
+  const name = (env.EMAIL_TRANSPORT || 'edge') as EmailTransportName;
+
+  switch (name) {
+    case 'edge':
+      return createEdgeFunctionTransport(supabase);
+    case 'smtp':
+      return createSmtpTransport(parseSmtpUrl(env.SMTP_URL || DEFAULT_SMTP_URL), from);
+    case 'file':
+      return createFileTransport(env.EMAIL_FILE_DIR || DEFAULT_FILE_DIR, from);
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}"; use edge, smtp or file`);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Email types
+ */
+
+/** A rendered email ready for a transport */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain text alternative */
+  text: string;
+}
+
+/** Delivers rendered emails; throws when a message could not be handed off */
+export interface EmailTransport {
+  /** Shown in logs and job results, e.g. "smtp" */
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
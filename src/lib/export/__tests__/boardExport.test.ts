@@ -0,0 +1,192 @@
+import {
+  BOARD_EXPORT_FORMAT,
+  BOARD_EXPORT_VERSION,
+  getExportFilename,
+  getReferencedUserIds,
+  toBoardCsv,
+  toBoardJson,
+  toBoardMarkdown,
+  type BoardExport,
+  type ExportTask,
+} from '../boardExport';
+
+const timestamp = '2024-03-01T10:00:00Z';
+
+const makeTask = (overrides: Partial<ExportTask> = {}): ExportTask => ({
+  id: 'task-1',
+  board_id: 'board-1',
+  status_id: 'status-1',
+  title: 'Write docs',
+  description: null,
+  priority: 'high',
+  tags: ['docs'],
+  assignee_name: null,
+  assignee_color: null,
+  due_date: '2024-03-15',
+  lane: null,
+  recurrence_rule: null,
+  next_occurrence_id: null,
+  start_date: null,
+  estimate: null,
+  estimate_unit: 'hours',
+  order: 0,
+  created_at: timestamp,
+  updated_at: timestamp,
+  assignees: [{ user_id: 'user-2', assigned_by: 'user-1', created_at: timestamp }],
+  checklist_items: [],
+  comments: [],
+  attachments: [],
+  ...overrides,
+});
+
+const makeExport = (tasks: ExportTask[]): BoardExport => ({
+  format: BOARD_EXPORT_FORMAT,
+  version: BOARD_EXPORT_VERSION,
+  exported_at: timestamp,
+  board: {
+    id: 'board-1',
+    user_id: 'user-1',
+    name: 'Sprint Board',
+    description: 'Q1 work',
+    created_at: timestamp,
+    updated_at: timestamp,
+  },
+  users: [{ id: 'user-2', email: 'sam@example.com', display_name: 'Sam' }],
+  statuses: [
+    {
+      id: 'status-1',
+      board_id: 'board-1',
+      name: 'Todo',
+      color: '#6366F1',
+      order: 0,
+      wip_limit: null,
+      wip_limit_mode: 'soft',
+      created_at: timestamp,
+      updated_at: timestamp,
+      tasks,
+    },
+  ],
+});
+
+describe('board export', () => {
+  describe('toBoardJson', () => {
+    it('should round-trip without losing data', () => {
+      const data = makeExport([makeTask({ description: 'Line 1\nLine 2' })]);
+
+      expect(JSON.parse(toBoardJson(data))).toEqual(data);
+    });
+  });
+
+  describe('toBoardCsv', () => {
+    it('should write a header and one row per task', () => {
+      const lines = toBoardCsv(makeExport([makeTask()]))
+        .trim()
+        .split('\r\n');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatch(/^Status,Title,Description,Priority,Tags,Assignees/);
+      expect(lines[1]).toContain('Todo,Write docs,,high,docs,sam@example.com');
+    });
+
+    it('should quote commas, quotes and newlines', () => {
+      const csv = toBoardCsv(makeExport([makeTask({ title: 'Say "hi", then\nleave' })]));
+
+      expect(csv).toContain('"Say ""hi"", then\nleave"');
+    });
+
+    it('should neutralise spreadsheet formulas', () => {
+      const csv = toBoardCsv(makeExport([makeTask({ title: '=HYPERLINK("x")' })]));
+
+      expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+    });
+  });
+
+  describe('toBoardMarkdown', () => {
+    it('should render statuses, task details and nested checklists', () => {
+      const md = toBoardMarkdown(
+        makeExport([
+          makeTask({
+            checklist_items: [
+              {
+                id: 'item-1',
+                task_id: 'task-1',
+                parent_id: null,
+                title: 'Outline',
+                is_completed: true,
+                completed_at: timestamp,
+                completed_by: 'user-2',
+                assignee_id: null,
+                due_date: null,
+                order: 0,
+                created_by: 'user-1',
+                created_at: timestamp,
+                updated_at: timestamp,
+              },
+              {
+                id: 'item-2',
+                task_id: 'task-1',
+                parent_id: 'item-1',
+                title: 'Intro',
+                is_completed: false,
+                completed_at: null,
+                completed_by: null,
+                assignee_id: null,
+                due_date: null,
+                order: 0,
+                created_by: 'user-1',
+                created_at: timestamp,
+                updated_at: timestamp,
+              },
+            ],
+          }),
+        ])
+      );
+
+      expect(md).toContain('# Sprint Board');
+      expect(md).toContain('## Todo (1)');
+      expect(md).toContain('### Write docs');
+      expect(md).toContain('**Priority:** high');
+      expect(md).toContain('**Assignees:** sam@example.com');
+      expect(md).toContain('- [x] Outline\n  - [ ] Intro');
+    });
+
+    it('should escape markdown in user content', () => {
+      const md = toBoardMarkdown(makeExport([makeTask({ title: '# not a heading *really*' })]));
+
+      expect(md).toContain('### \\# not a heading \\*really\\*');
+    });
+  });
+
+  describe('getReferencedUserIds', () => {
+    it('should collect assignees, commenters and uploaders once', () => {
+      const data = makeExport([
+        makeTask({
+          comments: [
+            {
+              id: 'c1',
+              task_id: 'task-1',
+              user_id: 'user-3',
+              content: 'Hi',
+              mentions: [],
+              parent_id: null,
+              edited_at: null,
+              created_at: timestamp,
+              updated_at: timestamp,
+            },
+          ],
+        }),
+      ]);
+
+      expect(getReferencedUserIds(data.statuses).sort()).toEqual(['user-1', 'user-2', 'user-3']);
+    });
+  });
+
+  describe('getExportFilename', () => {
+    it('should slugify the board name and add the date and extension', () => {
+      expect(getExportFilename('Sprint Board #3!', 'csv', new Date(timestamp))).toBe(
+        'sprint-board-3-2024-03-01.csv'
+      );
+      expect(getExportFilename('***', 'md', new Date(timestamp))).toBe('board-2024-03-01.md');
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Board export serializers
+ * Turns a fully loaded board into JSON (lossless, re-importable), CSV or Markdown
+ */
+
+import type { Database } from '@/lib/supabase/types';
+
+type Tables = Database['public']['Tables'];
+type TaskRow = Tables['tasks']['Row'];
+type StatusRow = Tables['statuses']['Row'];
+
+export type ExportFormat = 'json' | 'csv' | 'md';
+
+/** Identifies our own JSON exports when they are imported again */
+export const BOARD_EXPORT_FORMAT = 'kanbanpro-board';
+export const BOARD_EXPORT_VERSION = 1;
+
+export interface ExportUser {
+  id: string;
+  email: string;
+  display_name: string | null;
+}
+
+export type ExportAttachment = Omit<Tables['attachments']['Row'], 'task_id'>;
+
+export interface ExportTask extends TaskRow {
+  assignees: Pick<Tables['task_assignees']['Row'], 'user_id' | 'assigned_by' | 'created_at'>[];
+  checklist_items: Tables['checklist_items']['Row'][];
+  comments: Tables['comments']['Row'][];
+  /** Metadata only, file contents stay in storage */
+  attachments: ExportAttachment[];
+}
+
+export interface ExportStatus extends StatusRow {
+  tasks: ExportTask[];
+}
+
+export interface BoardExport {
+  format: typeof BOARD_EXPORT_FORMAT;
+  version: typeof BOARD_EXPORT_VERSION;
+  exported_at: string;
+  board: Tables['boards']['Row'];
+  /** Everyone referenced by the board, so user IDs can be matched by email on import */
+  users: ExportUser[];
+  statuses: ExportStatus[];
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+};
+
+export function getExportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * File name for a download, e.g. "sprint-board-2024-01-31.csv"
+ */
+export function getExportFilename(boardName: string, format: ExportFormat, date = new Date()) {
+  const slug =
+    boardName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'board';
+
+  return `${slug}-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Collect every user ID the export refers to
+ */
+export function getReferencedUserIds(statuses: ExportStatus[]): string[] {
+  const ids = new Set<string>();
+
+  statuses.forEach((status) =>
+    status.tasks.forEach((task) => {
+      task.assignees.forEach((a) => {
+        ids.add(a.user_id);
+        if (a.assigned_by) ids.add(a.assigned_by);
+      });
+      task.checklist_items.forEach((item) => {
+        if (item.assignee_id) ids.add(item.assignee_id);
+        if (item.created_by) ids.add(item.created_by);
+        if (item.completed_by) ids.add(item.completed_by);
+      });
+      task.comments.forEach((comment) => ids.add(comment.user_id));
+      task.attachments.forEach((attachment) => ids.add(attachment.user_id));
+    })
+  );
+
+  return [...ids];
+}
+
+export function toBoardJson(data: BoardExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Quote a CSV cell, neutralising values a spreadsheet would run as a formula
+ */
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function userLabel(usersById: Map<string, ExportUser>, userId: string): string {
+  const user = usersById.get(userId);
+  return user?.email || userId;
+}
+
+/**
+ * One row per task, in board order
+ */
+export function toBoardCsv(data: BoardExport): string {
+  const usersById = new Map(data.users.map((user) => [user.id, user]));
+
+  const header = [
+    'Status',
+    'Title',
+    'Description',
+    'Priority',
+    'Tags',
+    'Assignees',
+    'Lane',
+    'Due Date',
+    'Checklist',
+    'Comments',
+    'Attachments',
+    'Created',
+    'Updated',
+  ];
+
+  const rows = data.statuses.flatMap((status) =>
+    status.tasks.map((task) => {
+      const done = task.checklist_items.filter((item) => item.is_completed).length;
+
+      return [
+        status.name,
+        task.title,
+        task.description,
+        task.priority,
+        task.tags.join('; '),
+        task.assignees.map((a) => userLabel(usersById, a.user_id)).join('; '),
+        task.lane,
+        task.due_date,
+        task.checklist_items.length > 0 ? `${done}/${task.checklist_items.length}` : '',
+        task.comments.length,
+        task.attachments.map((a) => a.filename).join('; '),
+        task.created_at,
+        task.updated_at,
+      ];
+    })
+  );
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escape characters that would otherwise be read as Markdown formatting
+ */
+function mdText(text: string): string {
+  return text.replace(/([\\`*_[\]#|<>])/g, '\\$1');
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Readable document with a section per status and a sub-section per task
+ */
+export function toBoardMarkdown(data: BoardExport): string {
+  const usersById = new Map(data.users.map((user) => [user.id, user]));
+  const lines: string[] = [`# ${mdText(data.board.name)}`, ''];
+
+  if (data.board.description) {
+    lines.push(mdText(data.board.description), '');
+  }
+
+  lines.push(`_Exported ${data.exported_at.slice(0, 10)}_`, '');
+
+  data.statuses.forEach((status) => {
+    lines.push(`## ${mdText(status.name)} (${status.tasks.length})`, '');
+
+    if (status.tasks.length === 0) {
+      lines.push('_No tasks_', '');
+    }
+
+    status.tasks.forEach((task) => {
+      lines.push(`### ${mdText(task.title)}`, '');
+
+      const meta = [
+        task.priority && `**Priority:** ${task.priority}`,
+        task.due_date && `**Due:** ${task.due_date.slice(0, 10)}`,
+        task.tags.length > 0 && `**Tags:** ${task.tags.map(mdText).join(', ')}`,
+        task.assignees.length > 0 &&
+          `**Assignees:** ${task.assignees.map((a) => mdText(userLabel(usersById, a.user_id))).join(', ')}`,
+        task.lane && `**Lane:** ${mdText(task.lane)}`,
+      ].filter(Boolean);
+
+      if (meta.length > 0) {
+        lines.push(meta.join(' · '), '');
+      }
+
+      if (task.description) {
+        lines.push(...task.description.split('\n').map((line) => `> ${line}`), '');
+      }
+
+      if (task.checklist_items.length > 0) {
+        const children = new Map<string | null, typeof task.checklist_items>();
+        [...task.checklist_items]
+          .sort((a, b) => a.order - b.order)
+          .forEach((item) => {
+            children.set(item.parent_id, [...(children.get(item.parent_id) || []), item]);
+          });
+
+        const renderItems = (parentId: string | null, depth: number) => {
+          children.get(parentId)?.forEach((item) => {
+            lines.push(
+              `${'  '.repeat(depth)}- [${item.is_completed ? 'x' : ' '}] ${mdText(item.title)}`
+            );
+            renderItems(item.id, depth + 1);
+          });
+        };
+
+        renderItems(null, 0);
+        lines.push('');
+      }
+
+      if (task.attachments.length > 0) {
+        lines.push('**Attachments:**');
+        task.attachments.forEach((attachment) =>
+          lines.push(`- ${mdText(attachment.filename)} (${formatBytes(attachment.file_size)})`)
+        );
+        lines.push('');
+      }
+
+      if (task.comments.length > 0) {
+        lines.push(`**Comments (${task.comments.length}):**`, '');
+        task.comments.forEach((comment) => {
+          lines.push(
+            `- **${mdText(userLabel(usersById, comment.user_id))}** (${comment.created_at.slice(0, 10)}): ${mdText(comment.content.replace(/\s*\n\s*/g, ' '))}`
+          );
+        });
+        lines.push('');
+      }
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a board in the requested format
+ */
+export function serializeBoard(data: BoardExport, format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return toBoardCsv(data);
+    case 'md':
+      return toBoardMarkdown(data);
+    default:
+      return toBoardJson(data);
+  }
+}
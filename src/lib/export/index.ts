@@ -0,0 +1,22 @@
+/**
+ * Board export
+ * Serializers for downloading a board as JSON, CSV or Markdown
+ */
+
+export {
+  BOARD_EXPORT_FORMAT,
+  BOARD_EXPORT_VERSION,
+  getExportContentType,
+  getExportFilename,
+  getReferencedUserIds,
+  serializeBoard,
+  toBoardCsv,
+  toBoardJson,
+  toBoardMarkdown,
+  type BoardExport,
+  type ExportAttachment,
+  type ExportFormat,
+  type ExportStatus,
+  type ExportTask,
+  type ExportUser,
+} from './boardExport';
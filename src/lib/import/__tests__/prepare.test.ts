@@ -0,0 +1,131 @@
+import { prepareImport } from '../prepare';
+import type { ImportedTask, ParsedImport } from '../types';
+
+const makeTask = (overrides: Partial<ImportedTask> = {}): ImportedTask => ({
+  row: 1,
+  title: 'Write docs',
+  description: null,
+  status: 'Todo',
+  priority: null,
+  tags: [],
+  due_date: null,
+  lane: null,
+  assignee_emails: [],
+  checklist: [],
+  comments: [],
+  ...overrides,
+});
+
+const makeParsed = (
+  tasks: ImportedTask[],
+  overrides: Partial<ParsedImport> = {}
+): ParsedImport => ({
+  statuses: [],
+  tasks,
+  errors: [],
+  warnings: [],
+  ...overrides,
+});
+
+const context = {
+  existingStatuses: [{ name: 'Todo' }],
+  members: [{ user_id: 'user-2', email: 'sam@example.com' }],
+  importerEmail: 'me@example.com',
+};
+
+describe('prepareImport', () => {
+  it('should match statuses case-insensitively and create missing ones', () => {
+    const { payload, preview } = prepareImport(
+      makeParsed([makeTask({ status: 'todo' }), makeTask({ row: 2, status: 'Review' })], {
+        statuses: [{ name: 'Review', color: '#8B5CF6', wip_limit: 2, wip_limit_mode: 'hard' }],
+      }),
+      context
+    );
+
+    expect(payload.tasks.map((t) => t.status_name)).toEqual(['Todo', 'Review']);
+    expect(payload.statuses).toEqual([
+      { name: 'Review', color: '#8B5CF6', wip_limit: 2, wip_limit_mode: 'hard' },
+    ]);
+    expect(preview.statuses_to_create).toEqual(['Review']);
+  });
+
+  it('should report invalid rows and leave them out', () => {
+    const { payload, preview } = prepareImport(
+      makeParsed([makeTask({ title: '' }), makeTask({ row: 2 })]),
+      context
+    );
+
+    expect(payload.tasks).toHaveLength(1);
+    expect(preview.errors).toEqual([{ row: 1, field: 'title', message: 'Title is required' }]);
+  });
+
+  it('should map assignee emails to members and warn about others', () => {
+    const { payload, preview } = prepareImport(
+      makeParsed([makeTask({ assignee_emails: ['SAM@example.com', 'nobody@example.com'] })]),
+      context
+    );
+
+    expect(payload.tasks[0].assignee_ids).toEqual(['user-2']);
+    expect(preview.sample[0].assignees).toEqual(['sam@example.com']);
+    expect(preview.warnings).toEqual([
+      expect.objectContaining({
+        row: 1,
+        field: 'assignees',
+        message: expect.stringMatching(/nobody/),
+      }),
+    ]);
+  });
+
+  it('should credit comment authors other than the importer', () => {
+    const { payload } = prepareImport(
+      makeParsed([
+        makeTask({
+          comments: [
+            { content: 'Mine', author: 'me@example.com', created_at: null },
+            { content: 'Theirs', author: 'Alex', created_at: null },
+            { content: '  ', author: null, created_at: null },
+          ],
+        }),
+      ]),
+      context
+    );
+
+    expect(payload.tasks[0].comments.map((c) => c.content)).toEqual([
+      'Mine',
+      'Alex wrote:\nTheirs',
+    ]);
+  });
+
+  it('should trim extra tags and drop orphaned checklist parents', () => {
+    const { payload, preview } = prepareImport(
+      makeParsed([
+        makeTask({
+          tags: Array.from({ length: 12 }, (_, i) => `tag-${i}`),
+          checklist: [
+            {
+              ref: 'a',
+              parent_ref: 'missing',
+              title: 'Orphan',
+              is_completed: false,
+              due_date: null,
+            },
+            { ref: 'b', parent_ref: null, title: ' ', is_completed: false, due_date: null },
+          ],
+        }),
+      ]),
+      context
+    );
+
+    expect(payload.tasks[0].tags).toHaveLength(10);
+    expect(payload.tasks[0].checklist).toEqual([
+      { ref: 'a', parent_ref: null, title: 'Orphan', is_completed: false, due_date: null },
+    ]);
+    expect(preview.warnings).toEqual([expect.objectContaining({ field: 'tags' })]);
+  });
+
+  it('should flag an empty file', () => {
+    expect(prepareImport(makeParsed([]), context).preview.errors).toEqual([
+      { row: 0, message: 'No tasks found in file' },
+    ]);
+  });
+});
@@ -0,0 +1,275 @@
+import { getCsvHeaders, parseCsv } from '../csv';
+import {
+  normalizeDate,
+  normalizePriority,
+  parseJiraCsv,
+  parseKanbanProExport,
+  parseMappedCsv,
+  parseTrelloBoard,
+} from '../sources';
+import { BOARD_EXPORT_FORMAT, BOARD_EXPORT_VERSION } from '@/lib/export';
+
+describe('board import', () => {
+  describe('parseCsv', () => {
+    it('should handle quotes, escaped quotes and embedded newlines', () => {
+      const rows = parseCsv('Title,Notes\r\n"Fix, now","He said ""hi""\nthen left"\r\nPlain,\r\n');
+
+      expect(rows).toEqual([
+        ['Title', 'Notes'],
+        ['Fix, now', 'He said "hi"\nthen left'],
+        ['Plain', ''],
+      ]);
+    });
+
+    it('should skip blank lines and a byte-order mark', () => {
+      expect(parseCsv('\uFEFFa,b\n\n1,2')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+      expect(getCsvHeaders('\uFEFF Title , Status \n')).toEqual(['Title', 'Status']);
+    });
+  });
+
+  describe('normalizers', () => {
+    it('should map priorities from other tools', () => {
+      expect(normalizePriority('Highest')).toBe('critical');
+      expect(normalizePriority('minor')).toBe('low');
+      expect(normalizePriority('')).toBeNull();
+      expect(normalizePriority('someday')).toBeUndefined();
+    });
+
+    it('should read Jira, ISO and date-only values', () => {
+      expect(normalizeDate('15/Mar/24 2:30 PM')).toBe('2024-03-15T14:30:00.000Z');
+      expect(normalizeDate('01/Jan/2025')).toBe('2025-01-01T00:00:00.000Z');
+      expect(normalizeDate('2024-03-15')).toBe('2024-03-15T00:00:00.000Z');
+      expect(normalizeDate('2024-03-15T00:00:00+00:00')).toBe('2024-03-15T00:00:00.000Z');
+      expect(normalizeDate('next week')).toBeUndefined();
+      expect(normalizeDate(null)).toBeNull();
+    });
+  });
+
+  describe('parseKanbanProExport', () => {
+    it('should read statuses, tasks, assignees, checklists and comments', () => {
+      const timestamp = '2024-03-01T10:00:00+00:00';
+      const content = JSON.stringify({
+        format: BOARD_EXPORT_FORMAT,
+        version: BOARD_EXPORT_VERSION,
+        users: [{ id: 'user-2', email: 'sam@example.com', display_name: 'Sam' }],
+        statuses: [
+          {
+            name: 'Doing',
+            color: '#F59E0B',
+            wip_limit: 3,
+            wip_limit_mode: 'hard',
+            tasks: [
+              {
+                title: 'Write docs',
+                description: null,
+                priority: 'high',
+                tags: ['docs'],
+                due_date: '2024-03-15T00:00:00+00:00',
+                lane: 'Platform',
+                assignees: [{ user_id: 'user-2' }],
+                checklist_items: [
+                  { id: 'c2', parent_id: 'c1', title: 'Child', is_completed: true, order: 1 },
+                  { id: 'c1', parent_id: null, title: 'Parent', is_completed: false, order: 0 },
+                ],
+                comments: [{ user_id: 'user-2', content: 'Looks good', created_at: timestamp }],
+                attachments: [{ id: 'a1' }],
+              },
+            ],
+          },
+        ],
+      });
+
+      const result = parseKanbanProExport(content);
+
+      expect(result.errors).toEqual([]);
+      expect(result.statuses).toEqual([
+        { name: 'Doing', color: '#F59E0B', wip_limit: 3, wip_limit_mode: 'hard' },
+      ]);
+      expect(result.tasks[0]).toMatchObject({
+        row: 1,
+        title: 'Write docs',
+        status: 'Doing',
+        due_date: '2024-03-15T00:00:00.000Z',
+        lane: 'Platform',
+        assignee_emails: ['sam@example.com'],
+        comments: [{ content: 'Looks good', author: 'sam@example.com', created_at: timestamp }],
+      });
+      expect(result.tasks[0].checklist.map((item) => item.ref)).toEqual(['c1', 'c2']);
+      expect(result.warnings).toEqual([expect.objectContaining({ row: 1, field: 'attachments' })]);
+    });
+
+    it('should reject other JSON files', () => {
+      expect(parseKanbanProExport('{"cards": []}').errors).toEqual([
+        { row: 0, message: 'Not a board export file' },
+      ]);
+      expect(parseKanbanProExport('not json').errors).toHaveLength(1);
+    });
+  });
+
+  describe('parseTrelloBoard', () => {
+    const trello = {
+      lists: [
+        { id: 'l1', name: 'Backlog', closed: false },
+        { id: 'l2', name: 'Archived', closed: true },
+      ],
+      cards: [
+        {
+          id: 'card-1',
+          idList: 'l1',
+          name: 'Plan launch',
+          desc: 'Details',
+          due: '2024-04-01T12:00:00.000Z',
+          labels: [
+            { name: 'marketing', color: 'green' },
+            { name: '', color: 'red' },
+          ],
+          idMembers: ['m1'],
+          pos: 1,
+        },
+        { id: 'card-2', idList: 'l2', name: 'Old', pos: 2 },
+        { id: 'card-3', idList: 'l1', name: 'Closed', closed: true, pos: 3 },
+      ],
+      checklists: [
+        {
+          id: 'cl1',
+          idCard: 'card-1',
+          name: 'Steps',
+          checkItems: [
+            { id: 'i2', name: 'Second', state: 'incomplete', pos: 2 },
+            { id: 'i1', name: 'First', state: 'complete', pos: 1 },
+          ],
+        },
+      ],
+      actions: [
+        {
+          type: 'commentCard',
+          date: '2024-03-02T00:00:00.000Z',
+          data: { card: { id: 'card-1' }, text: 'Second comment' },
+          memberCreator: { fullName: 'Alex' },
+        },
+        {
+          type: 'commentCard',
+          date: '2024-03-01T00:00:00.000Z',
+          data: { card: { id: 'card-1' }, text: 'First comment' },
+          memberCreator: { username: 'kim' },
+        },
+      ],
+    };
+
+    it('should map open lists and cards', () => {
+      const result = parseTrelloBoard(JSON.stringify(trello));
+
+      expect(result.statuses.map((s) => s.name)).toEqual(['Backlog']);
+      expect(result.tasks).toHaveLength(1);
+      expect(result.tasks[0]).toMatchObject({
+        title: 'Plan launch',
+        description: 'Details',
+        status: 'Backlog',
+        due_date: '2024-04-01T12:00:00.000Z',
+        tags: ['marketing', 'red'],
+      });
+    });
+
+    it('should nest checklist items under their checklist', () => {
+      const [task] = parseTrelloBoard(JSON.stringify(trello)).tasks;
+
+      expect(task.checklist).toEqual([
+        { ref: 'cl1', parent_ref: null, title: 'Steps', is_completed: false, due_date: null },
+        { ref: 'i1', parent_ref: 'cl1', title: 'First', is_completed: true, due_date: null },
+        { ref: 'i2', parent_ref: 'cl1', title: 'Second', is_completed: false, due_date: null },
+      ]);
+    });
+
+    it('should keep comments oldest first and warn about members', () => {
+      const result = parseTrelloBoard(JSON.stringify(trello));
+
+      expect(result.tasks[0].comments.map((c) => [c.author, c.content])).toEqual([
+        ['kim', 'First comment'],
+        ['Alex', 'Second comment'],
+      ]);
+      expect(result.warnings).toEqual([expect.objectContaining({ row: 1, field: 'assignees' })]);
+    });
+  });
+
+  describe('parseJiraCsv', () => {
+    const jira = [
+      'Summary,Issue key,Status,Priority,Labels,Labels,Due date,Assignee,Comment,Comment',
+      'Login fails,WEB-1,In Progress,Highest,auth,bug,15/Mar/24 12:00 AM,dev@example.com,"14/Mar/24 9:00 AM;abc123;Seen on staging",',
+      'Typo,WEB-2,,Lowest,,,,Jane Doe,,',
+    ].join('\n');
+
+    it('should read repeated Labels and Comment columns', () => {
+      const result = parseJiraCsv(jira, { defaultStatus: 'Todo' });
+
+      expect(result.errors).toEqual([]);
+      expect(result.tasks[0]).toMatchObject({
+        title: 'Login fails',
+        status: 'In Progress',
+        priority: 'critical',
+        tags: ['auth', 'bug'],
+        due_date: '2024-03-15T00:00:00.000Z',
+        assignee_emails: ['dev@example.com'],
+        comments: [
+          { content: 'Seen on staging', author: 'abc123', created_at: '2024-03-14T09:00:00.000Z' },
+        ],
+      });
+      expect(result.tasks[1]).toMatchObject({ status: 'Todo', priority: 'low' });
+      expect(result.statuses.map((s) => s.name)).toEqual(['In Progress', 'Todo']);
+    });
+
+    it('should warn about assignees without an email', () => {
+      expect(parseJiraCsv(jira).warnings).toEqual([
+        expect.objectContaining({ row: 2, field: 'assignees' }),
+      ]);
+    });
+
+    it('should reject files without a Summary column', () => {
+      expect(parseJiraCsv('Title\nTask').errors[0].message).toMatch(/Summary/);
+    });
+  });
+
+  describe('parseMappedCsv', () => {
+    const csv =
+      'Name,Column,Prio,Labels,Deadline,Who\nShip it,Doing,urgent,"a; b",2024-05-01,x@example.com\nLater,,soon,,tomorrow,';
+
+    it('should read columns through the mapping', () => {
+      const result = parseMappedCsv(csv, {
+        mapping: {
+          title: 'Name',
+          status: 'Column',
+          priority: 'Prio',
+          tags: 'Labels',
+          due_date: 'Deadline',
+          assignees: 'Who',
+        },
+        defaultStatus: 'Backlog',
+      });
+
+      expect(result.tasks[0]).toMatchObject({
+        title: 'Ship it',
+        status: 'Doing',
+        priority: 'critical',
+        tags: ['a', 'b'],
+        due_date: '2024-05-01T00:00:00.000Z',
+        assignee_emails: ['x@example.com'],
+      });
+      expect(result.tasks[1].status).toBe('Backlog');
+      expect(result.warnings).toEqual([
+        { row: 2, field: 'priority', message: 'Unknown priority "soon"' },
+      ]);
+      expect(result.errors).toEqual([
+        { row: 2, field: 'due_date', message: 'Invalid date "tomorrow"' },
+      ]);
+    });
+
+    it('should require a title column that exists', () => {
+      expect(parseMappedCsv(csv).errors[0].message).toMatch(/title/);
+      expect(parseMappedCsv(csv, { mapping: { title: 'Missing' } }).errors).toEqual([
+        { row: 0, message: 'Column not found: Missing' },
+      ]);
+    });
+  });
+});
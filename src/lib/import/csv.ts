@@ -0,0 +1,82 @@
+/**
+ * Minimal RFC 4180 CSV reader
+ * Handles quoted fields, escaped quotes, embedded newlines and CRLF line endings
+ */
+
+/**
+ * Parse CSV text into rows of cells
+ * Blank lines are skipped; a leading byte-order mark is ignored
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Header row of a CSV file, trimmed, for building a column mapping
+ */
+export function getCsvHeaders(text: string): string[] {
+  const [header = []] = parseCsv(text);
+  return header.map((name) => name.trim());
+}
+
+/**
+ * Split a list cell such as "bug; ui" or "bug, ui"
+ */
+export function splitList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(/[;,]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
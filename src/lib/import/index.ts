@@ -0,0 +1,29 @@
+/**
+ * Board import
+ * Parsers for our JSON export, generic CSV, Trello JSON and Jira CSV, plus validation
+ */
+
+export { getCsvHeaders, parseCsv, splitList } from './csv';
+export {
+  DEFAULT_IMPORT_STATUS,
+  normalizeDate,
+  normalizePriority,
+  parseImport,
+  parseJiraCsv,
+  parseKanbanProExport,
+  parseMappedCsv,
+  parseTrelloBoard,
+  type ParseImportOptions,
+} from './sources';
+export { prepareImport, type ImportContext, type PreparedImport } from './prepare';
+export type {
+  ImportedChecklistItem,
+  ImportedComment,
+  ImportedStatus,
+  ImportedTask,
+  ImportIssue,
+  ImportPayload,
+  ImportPayloadTask,
+  ImportPreview,
+  ParsedImport,
+} from './types';
@@ -0,0 +1,235 @@
+/**
+ * Import validation and payload building
+ * Checks parsed rows against the board before anything is written
+ */
+
+import { HexColorSchema, ImportedTaskSchema } from '@/lib/validation';
+import { sanitizeMarkdown } from '@/lib/security/sanitize';
+import type {
+  ImportedChecklistItem,
+  ImportedStatus,
+  ImportIssue,
+  ImportPayload,
+  ImportPayloadTask,
+  ImportPreview,
+  ParsedImport,
+} from './types';
+
+/** Colors given to created statuses that did not bring their own */
+const STATUS_COLORS = ['#6B7280', '#3B82F6', '#F59E0B', '#10B981', '#8B5CF6', '#EC4899'];
+
+const MAX_TAGS = 10;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_CHECKLIST_TITLE_LENGTH = 500;
+const MAX_COMMENT_LENGTH = 5000;
+const PREVIEW_SAMPLE_SIZE = 20;
+
+export interface ImportContext {
+  /** Statuses already on the board */
+  existingStatuses: { name: string }[];
+  /** Board members, for matching assignees by email */
+  members: { user_id: string; email: string }[];
+  /** Email of the user running the import; their comments are kept without attribution */
+  importerEmail?: string | null;
+}
+
+export interface PreparedImport {
+  payload: ImportPayload;
+  preview: ImportPreview;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Checklist items keep only their titles, nesting and completion; dates are cut to YYYY-MM-DD
+ */
+function prepareChecklist(items: ImportedChecklistItem[]): ImportedChecklistItem[] {
+  const refs = new Set<string>();
+
+  return items
+    .filter((item) => item.title.trim() !== '')
+    .map((item) => {
+      refs.add(item.ref);
+      const dueDate = item.due_date?.slice(0, 10) ?? null;
+      return {
+        ...item,
+        title: truncate(item.title.trim(), MAX_CHECKLIST_TITLE_LENGTH),
+        due_date: dueDate && /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? dueDate : null,
+      };
+    })
+    .map((item) => ({
+      ...item,
+      // Items whose parent was dropped move to the top level
+      parent_ref: item.parent_ref && refs.has(item.parent_ref) ? item.parent_ref : null,
+    }));
+}
+
+/**
+ * Validate parsed rows and build the database payload plus a preview
+ * Rows with errors are reported and left out of the payload
+ */
+export function prepareImport(parsed: ParsedImport, context: ImportContext): PreparedImport {
+  const errors: ImportIssue[] = [...parsed.errors];
+  const warnings: ImportIssue[] = [...parsed.warnings];
+  const membersByEmail = new Map(
+    context.members.map((member) => [member.email.toLowerCase(), member])
+  );
+  const importerEmail = context.importerEmail?.toLowerCase();
+
+  // Status names match case-insensitively, keeping the board's spelling
+  const statusNames = new Map(
+    context.existingStatuses.map((status) => [status.name.trim().toLowerCase(), status.name])
+  );
+  const statusesToCreate: ImportedStatus[] = [];
+  const declaredStatuses = new Map(
+    parsed.statuses.map((status) => [status.name.trim().toLowerCase(), status])
+  );
+
+  const resolveStatus = (name: string): string => {
+    const key = name.trim().toLowerCase();
+    const existing = statusNames.get(key);
+    if (existing) return existing;
+
+    const declared = declaredStatuses.get(key);
+    const color =
+      declared?.color && HexColorSchema.safeParse(declared.color).success
+        ? declared.color
+        : STATUS_COLORS[statusesToCreate.length % STATUS_COLORS.length];
+
+    statusesToCreate.push({
+      name: name.trim(),
+      color,
+      wip_limit: declared?.wip_limit ?? null,
+      wip_limit_mode: declared?.wip_limit_mode ?? 'soft',
+    });
+    statusNames.set(key, name.trim());
+    return name.trim();
+  };
+
+  // Keep the source's column order, including empty columns
+  parsed.statuses.forEach((status) => {
+    if (status.name.trim() !== '' && status.name.length <= 50) resolveStatus(status.name);
+  });
+
+  const tasks: (ImportPayloadTask & { row: number; assignee_emails: string[] })[] = [];
+
+  parsed.tasks.forEach((task) => {
+    let description = task.description;
+    if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+      description = truncate(description, MAX_DESCRIPTION_LENGTH);
+      warnings.push({
+        row: task.row,
+        field: 'description',
+        message: `Description shortened to ${MAX_DESCRIPTION_LENGTH} characters`,
+      });
+    }
+
+    let tags = [...new Set(task.tags.map((tag) => truncate(tag.trim(), 50)).filter(Boolean))];
+    if (tags.length > MAX_TAGS) {
+      warnings.push({
+        row: task.row,
+        field: 'tags',
+        message: `Only the first ${MAX_TAGS} of ${tags.length} tags were kept`,
+      });
+      tags = tags.slice(0, MAX_TAGS);
+    }
+
+    const validation = ImportedTaskSchema.safeParse({
+      title: task.title,
+      description,
+      status: task.status,
+      priority: task.priority,
+      tags,
+      due_date: task.due_date,
+      lane: task.lane,
+    });
+
+    if (!validation.success) {
+      validation.error.issues.forEach((issue) =>
+        errors.push({
+          row: task.row,
+          field: issue.path.length > 0 ? issue.path.join('.') : undefined,
+          message: issue.message,
+        })
+      );
+      return;
+    }
+
+    const assignees = task.assignee_emails.flatMap((email) => {
+      const member = membersByEmail.get(email.toLowerCase());
+      if (!member) {
+        warnings.push({
+          row: task.row,
+          field: 'assignees',
+          message: `${email} is not a member of this board and was not assigned`,
+        });
+        return [];
+      }
+      return [member];
+    });
+    const uniqueAssignees = [...new Map(assignees.map((a) => [a.user_id, a])).values()];
+
+    tasks.push({
+      row: task.row,
+      status_name: resolveStatus(validation.data.status),
+      title: validation.data.title,
+      description: validation.data.description
+        ? sanitizeMarkdown(validation.data.description, { maxLength: MAX_DESCRIPTION_LENGTH }) ||
+          null
+        : null,
+      priority: validation.data.priority,
+      tags: validation.data.tags,
+      due_date: validation.data.due_date,
+      lane: validation.data.lane || null,
+      assignee_ids: uniqueAssignees.slice(0, 10).map((a) => a.user_id),
+      assignee_emails: uniqueAssignees.slice(0, 10).map((a) => a.email),
+      checklist: prepareChecklist(task.checklist),
+      comments: task.comments
+        .filter((comment) => comment.content.trim() !== '')
+        .map((comment) => {
+          // Comments are written as the importer, so credit the original author in the text
+          const credited =
+            comment.author && comment.author.toLowerCase() !== importerEmail
+              ? `${comment.author} wrote:\n${comment.content.trim()}`
+              : comment.content.trim();
+          return {
+            content: sanitizeMarkdown(truncate(credited, MAX_COMMENT_LENGTH), {
+              maxLength: MAX_COMMENT_LENGTH,
+            }),
+            created_at: comment.created_at,
+          };
+        }),
+    });
+  });
+
+  if (parsed.tasks.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, message: 'No tasks found in file' });
+  }
+
+  const payload: ImportPayload = {
+    statuses: statusesToCreate,
+    tasks: tasks.map(({ row: _row, assignee_emails: _emails, ...task }) => task),
+  };
+
+  const preview: ImportPreview = {
+    statuses_to_create: statusesToCreate.map((status) => status.name),
+    task_count: tasks.length,
+    checklist_item_count: tasks.reduce((sum, task) => sum + task.checklist.length, 0),
+    comment_count: tasks.reduce((sum, task) => sum + task.comments.length, 0),
+    sample: tasks.slice(0, PREVIEW_SAMPLE_SIZE).map((task) => ({
+      row: task.row,
+      title: task.title,
+      status: task.status_name,
+      priority: task.priority,
+      tags: task.tags,
+      due_date: task.due_date,
+      assignees: task.assignee_emails,
+    })),
+    errors: errors.sort((a, b) => a.row - b.row),
+    warnings: warnings.sort((a, b) => a.row - b.row),
+  };
+
+  return { payload, preview };
+}
@@ -0,0 +1,485 @@
+/**
+ * Import source parsers
+ * Each parser turns a file into a ParsedImport; nothing here touches the database
+ */
+
+import type { TaskPriority } from '@/types/board';
+import type { CsvColumnMapping, ImportSource } from '@/lib/validation';
+import { BOARD_EXPORT_FORMAT, type BoardExport } from '@/lib/export';
+import { parseCsv, splitList } from './csv';
+import type {
+  ImportedChecklistItem,
+  ImportedComment,
+  ImportedStatus,
+  ImportedTask,
+  ImportIssue,
+  ParsedImport,
+} from './types';
+
+export interface ParseImportOptions {
+  /** Column mapping, required for generic CSV */
+  mapping?: CsvColumnMapping;
+  /** Status used for rows that do not name one */
+  defaultStatus?: string;
+}
+
+export const DEFAULT_IMPORT_STATUS = 'To Do';
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  low: 'low',
+  lowest: 'low',
+  minor: 'low',
+  trivial: 'low',
+  medium: 'medium',
+  normal: 'medium',
+  major: 'high',
+  high: 'high',
+  highest: 'critical',
+  critical: 'critical',
+  blocker: 'critical',
+  urgent: 'critical',
+};
+
+const JIRA_MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+function emptyResult(): ParsedImport {
+  return { statuses: [], tasks: [], errors: [], warnings: [] };
+}
+
+function fileError(message: string): ParsedImport {
+  return { ...emptyResult(), errors: [{ row: 0, message }] };
+}
+
+function emptyTask(row: number, status: string): ImportedTask {
+  return {
+    row,
+    title: '',
+    description: null,
+    status,
+    priority: null,
+    tags: [],
+    due_date: null,
+    lane: null,
+    assignee_emails: [],
+    checklist: [],
+    comments: [],
+  };
+}
+
+function statusFromName(name: string): ImportedStatus {
+  return { name, color: null, wip_limit: null, wip_limit_mode: 'soft' };
+}
+
+/**
+ * Map a priority label from another tool onto ours
+ * Returns undefined for labels we do not recognise
+ */
+export function normalizePriority(
+  value: string | null | undefined
+): TaskPriority | null | undefined {
+  const key = value?.trim().toLowerCase();
+  if (!key) return null;
+  return PRIORITY_ALIASES[key];
+}
+
+/**
+ * Parse a date in ISO, YYYY-MM-DD or Jira ("15/Mar/24 12:00 AM") form into an ISO timestamp
+ * Returns undefined when the value cannot be read
+ */
+export function normalizeDate(value: string | null | undefined): string | null | undefined {
+  const text = value?.trim();
+  if (!text) return null;
+
+  const jira = text.match(
+    /^(\d{1,2})\/([A-Za-z]{3})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2})\s*([AP]M))?$/i
+  );
+  if (jira) {
+    const [, day, monthName, yearText, hourText, minute, meridiem] = jira;
+    const month = JIRA_MONTHS[monthName.toLowerCase()];
+    if (month === undefined) return undefined;
+
+    const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+    let hour = hourText ? Number(hourText) % 12 : 0;
+    if (meridiem?.toUpperCase() === 'PM') hour += 12;
+
+    return new Date(Date.UTC(year, month, Number(day), hour, Number(minute || 0))).toISOString();
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return `${text}T00:00:00.000Z`;
+  }
+
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null;
+}
+
+/**
+ * Board JSON produced by our own export
+ */
+export function parseKanbanProExport(content: string): ParsedImport {
+  const data = parseJson(content);
+  if (!isRecord(data) || data.format !== BOARD_EXPORT_FORMAT || !Array.isArray(data.statuses)) {
+    return fileError('Not a board export file');
+  }
+
+  const exported = data as unknown as BoardExport;
+  const result = emptyResult();
+  const emailsById = new Map((exported.users || []).map((user) => [user.id, user.email]));
+  let row = 0;
+
+  exported.statuses.forEach((status) => {
+    result.statuses.push({
+      name: status.name,
+      color: status.color ?? null,
+      wip_limit: status.wip_limit ?? null,
+      wip_limit_mode: status.wip_limit_mode ?? 'soft',
+    });
+
+    (status.tasks || []).forEach((task) => {
+      row++;
+      if ((task.attachments || []).length > 0) {
+        result.warnings.push({
+          row,
+          field: 'attachments',
+          message: `${task.attachments.length} attachment(s) were not imported`,
+        });
+      }
+
+      result.tasks.push({
+        row,
+        title: task.title,
+        description: task.description,
+        status: status.name,
+        priority: task.priority,
+        tags: task.tags || [],
+        due_date: normalizeDate(task.due_date) ?? null,
+        lane: task.lane ?? null,
+        assignee_emails: (task.assignees || [])
+          .map((assignee) => emailsById.get(assignee.user_id))
+          .filter((email): email is string => Boolean(email)),
+        checklist: [...(task.checklist_items || [])]
+          .sort((a, b) => a.order - b.order)
+          .map((item) => ({
+            ref: item.id,
+            parent_ref: item.parent_id,
+            title: item.title,
+            is_completed: item.is_completed,
+            due_date: item.due_date,
+          })),
+        comments: (task.comments || []).map((comment) => ({
+          content: comment.content,
+          author: emailsById.get(comment.user_id) ?? null,
+          created_at: comment.created_at,
+        })),
+      });
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Board JSON from Trello's "Export as JSON"
+ * Lists become statuses, labels become tags and checklists are nested one level under their name
+ */
+export function parseTrelloBoard(content: string): ParsedImport {
+  const data = parseJson(content);
+  if (!isRecord(data) || !Array.isArray(data.lists) || !Array.isArray(data.cards)) {
+    return fileError('Not a Trello board export');
+  }
+
+  const result = emptyResult();
+  const lists = (data.lists as Record<string, unknown>[]).filter((list) => !list.closed);
+  const listNames = new Map(lists.map((list) => [list.id, String(list.name ?? '').trim()]));
+  const checklists = Array.isArray(data.checklists)
+    ? (data.checklists as Record<string, unknown>[])
+    : [];
+  const actions = Array.isArray(data.actions) ? (data.actions as Record<string, unknown>[]) : [];
+
+  listNames.forEach((name) => result.statuses.push(statusFromName(name)));
+
+  const cards = (data.cards as Record<string, unknown>[])
+    .filter((card) => !card.closed && listNames.has(card.idList))
+    .sort((a, b) => Number(a.pos ?? 0) - Number(b.pos ?? 0));
+
+  cards.forEach((card, index) => {
+    const row = index + 1;
+    const task = emptyTask(row, listNames.get(card.idList) as string);
+
+    task.title = String(card.name ?? '').trim();
+    task.description = asString(card.desc);
+    task.due_date = normalizeDate(asString(card.due)) ?? null;
+    task.tags = Array.isArray(card.labels)
+      ? (card.labels as Record<string, unknown>[])
+          .map((label) => asString(label.name) ?? asString(label.color))
+          .filter((tag): tag is string => Boolean(tag))
+      : [];
+
+    if (Array.isArray(card.idMembers) && card.idMembers.length > 0) {
+      result.warnings.push({
+        row,
+        field: 'assignees',
+        message: 'Trello members cannot be matched to users and were not assigned',
+      });
+    }
+
+    checklists
+      .filter((checklist) => checklist.idCard === card.id)
+      .sort((a, b) => Number(a.pos ?? 0) - Number(b.pos ?? 0))
+      .forEach((checklist) => {
+        const parentRef = String(checklist.id);
+        task.checklist.push({
+          ref: parentRef,
+          parent_ref: null,
+          title: String(checklist.name ?? 'Checklist'),
+          is_completed: false,
+          due_date: null,
+        });
+
+        const items = Array.isArray(checklist.checkItems)
+          ? (checklist.checkItems as Record<string, unknown>[])
+          : [];
+        items
+          .sort((a, b) => Number(a.pos ?? 0) - Number(b.pos ?? 0))
+          .forEach((item) =>
+            task.checklist.push({
+              ref: String(item.id),
+              parent_ref: parentRef,
+              title: String(item.name ?? ''),
+              is_completed: item.state === 'complete',
+              due_date: null,
+            })
+          );
+
+        // A checklist is done when all of its items are
+        const parent = task.checklist.find(
+          (item) => item.ref === parentRef
+        ) as ImportedChecklistItem;
+        parent.is_completed = items.length > 0 && items.every((item) => item.state === 'complete');
+      });
+
+    // Trello lists actions newest first
+    task.comments = actions
+      .filter(
+        (action) =>
+          action.type === 'commentCard' &&
+          isRecord(action.data) &&
+          isRecord(action.data.card) &&
+          action.data.card.id === card.id
+      )
+      .map((action): ImportedComment => {
+        const creator = isRecord(action.memberCreator) ? action.memberCreator : {};
+        return {
+          content: String((action.data as Record<string, unknown>).text ?? ''),
+          author: asString(creator.fullName) ?? asString(creator.username),
+          created_at: asString(action.date),
+        };
+      })
+      .reverse();
+
+    if (Array.isArray(card.attachments) && card.attachments.length > 0) {
+      result.warnings.push({
+        row,
+        field: 'attachments',
+        message: `${card.attachments.length} attachment(s) were not imported`,
+      });
+    }
+
+    result.tasks.push(task);
+  });
+
+  return result;
+}
+
+/**
+ * Read a header row into column indexes; repeated headers (Jira's Labels, Comment) keep every index
+ */
+function indexHeaders(header: string[]): Map<string, number[]> {
+  const indexes = new Map<string, number[]>();
+  header.forEach((name, index) => {
+    const key = name.trim().toLowerCase();
+    indexes.set(key, [...(indexes.get(key) || []), index]);
+  });
+  return indexes;
+}
+
+function readCells(row: string[], indexes: number[] | undefined): string[] {
+  return (indexes || []).map((index) => (row[index] ?? '').trim()).filter(Boolean);
+}
+
+function readCell(row: string[], indexes: number[] | undefined): string {
+  return readCells(row, indexes)[0] ?? '';
+}
+
+/**
+ * Apply a priority cell, reporting labels we do not know
+ */
+function applyPriority(task: ImportedTask, value: string, warnings: ImportIssue[]) {
+  const priority = normalizePriority(value);
+  if (priority === undefined) {
+    warnings.push({ row: task.row, field: 'priority', message: `Unknown priority "${value}"` });
+    return;
+  }
+  task.priority = priority;
+}
+
+/**
+ * Apply a due date cell, reporting values that are not dates
+ */
+function applyDueDate(task: ImportedTask, value: string, errors: ImportIssue[]) {
+  const dueDate = normalizeDate(value);
+  if (dueDate === undefined) {
+    errors.push({ row: task.row, field: 'due_date', message: `Invalid date "${value}"` });
+    return;
+  }
+  task.due_date = dueDate;
+}
+
+/**
+ * Issue CSV from Jira's "Export CSV (all fields)"
+ */
+export function parseJiraCsv(content: string, options: ParseImportOptions = {}): ParsedImport {
+  const [header, ...rows] = parseCsv(content);
+  const columns = indexHeaders(header || []);
+
+  if (!columns.has('summary')) {
+    return fileError('Not a Jira CSV export: missing "Summary" column');
+  }
+
+  const result = emptyResult();
+  const defaultStatus = options.defaultStatus || DEFAULT_IMPORT_STATUS;
+  const dueColumn = columns.get('due date') ?? columns.get('due');
+  const statuses = new Set<string>();
+
+  rows.forEach((cells, index) => {
+    const task = emptyTask(index + 1, readCell(cells, columns.get('status')) || defaultStatus);
+
+    task.title = readCell(cells, columns.get('summary'));
+    task.description = readCell(cells, columns.get('description')) || null;
+    task.tags = readCells(cells, columns.get('labels'));
+    task.lane = readCell(cells, columns.get('epic link')) || null;
+    applyPriority(task, readCell(cells, columns.get('priority')), result.warnings);
+    applyDueDate(task, readCell(cells, dueColumn), result.errors);
+
+    const assignee = readCell(cells, columns.get('assignee'));
+    if (assignee.includes('@')) {
+      task.assignee_emails = [assignee];
+    } else if (assignee) {
+      result.warnings.push({
+        row: task.row,
+        field: 'assignees',
+        message: `Assignee "${assignee}" has no email address and was not assigned`,
+      });
+    }
+
+    // Jira comment cells look like "15/Mar/24 10:00 AM;accountId;text"
+    task.comments = readCells(cells, columns.get('comment')).map((cell) => {
+      const match = cell.match(/^([^;]+);([^;]*);([\s\S]*)$/);
+      if (!match) return { content: cell, author: null, created_at: null };
+      return {
+        content: match[3].trim(),
+        author: match[2].trim() || null,
+        created_at: normalizeDate(match[1]) ?? null,
+      };
+    });
+
+    statuses.add(task.status);
+    result.tasks.push(task);
+  });
+
+  statuses.forEach((name) => result.statuses.push(statusFromName(name)));
+  return result;
+}
+
+/**
+ * Any CSV, with columns picked by the user
+ */
+export function parseMappedCsv(content: string, options: ParseImportOptions = {}): ParsedImport {
+  const { mapping = {} } = options;
+  if (!mapping.title) {
+    return fileError('Choose which column holds the task title');
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  const columns = indexHeaders(header || []);
+  const result = emptyResult();
+
+  const missing = Object.entries(mapping).filter(
+    ([, column]) => column && !columns.has(column.trim().toLowerCase())
+  );
+  if (missing.length > 0) {
+    return fileError(`Column not found: ${missing.map(([, column]) => column).join(', ')}`);
+  }
+
+  const column = (field: keyof CsvColumnMapping) =>
+    mapping[field] ? columns.get((mapping[field] as string).trim().toLowerCase()) : undefined;
+  const defaultStatus = options.defaultStatus || DEFAULT_IMPORT_STATUS;
+  const statuses = new Set<string>();
+
+  rows.forEach((cells, index) => {
+    const task = emptyTask(index + 1, readCell(cells, column('status')) || defaultStatus);
+
+    task.title = readCell(cells, column('title'));
+    task.description = readCell(cells, column('description')) || null;
+    task.tags = splitList(readCell(cells, column('tags')));
+    task.lane = readCell(cells, column('lane')) || null;
+    task.assignee_emails = splitList(readCell(cells, column('assignees')));
+    applyPriority(task, readCell(cells, column('priority')), result.warnings);
+    applyDueDate(task, readCell(cells, column('due_date')), result.errors);
+
+    statuses.add(task.status);
+    result.tasks.push(task);
+  });
+
+  statuses.forEach((name) => result.statuses.push(statusFromName(name)));
+  return result;
+}
+
+/**
+ * Parse a file from any supported source
+ */
+export function parseImport(
+  source: ImportSource,
+  content: string,
+  options: ParseImportOptions = {}
+): ParsedImport {
+  switch (source) {
+    case 'kanbanpro':
+      return parseKanbanProExport(content);
+    case 'trello':
+      return parseTrelloBoard(content);
+    case 'jira':
+      return parseJiraCsv(content, options);
+    default:
+      return parseMappedCsv(content, options);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Board import types
+ * Every source is parsed into the same shape before validation and writing
+ */
+
+import type { TaskPriority, WipLimitMode } from '@/types/board';
+
+/**
+ * Problem found while importing
+ * `row` is the 1-based data row (CSV) or item (JSON) it came from, 0 for the whole file
+ */
+export interface ImportIssue {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportedStatus {
+  name: string;
+  color: string | null;
+  wip_limit: number | null;
+  wip_limit_mode: WipLimitMode;
+}
+
+export interface ImportedChecklistItem {
+  /** Source-local ID, referenced by `parent_ref` of nested items */
+  ref: string;
+  parent_ref: string | null;
+  title: string;
+  is_completed: boolean;
+  due_date: string | null;
+}
+
+export interface ImportedComment {
+  content: string;
+  /** Original author (email or display name) when known */
+  author: string | null;
+  created_at: string | null;
+}
+
+export interface ImportedTask {
+  row: number;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: TaskPriority | null;
+  tags: string[];
+  due_date: string | null;
+  lane: string | null;
+  /** Matched against board members; unknown emails are dropped with a warning */
+  assignee_emails: string[];
+  checklist: ImportedChecklistItem[];
+  comments: ImportedComment[];
+}
+
+export interface ParsedImport {
+  statuses: ImportedStatus[];
+  tasks: ImportedTask[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+/**
+ * Task as sent to the import_board_data database function
+ */
+export interface ImportPayloadTask {
+  status_name: string;
+  title: string;
+  description: string | null;
+  priority: TaskPriority | null;
+  tags: string[];
+  due_date: string | null;
+  lane: string | null;
+  assignee_ids: string[];
+  checklist: ImportedChecklistItem[];
+  comments: { content: string; created_at: string | null }[];
+}
+
+export interface ImportPayload {
+  /** Only statuses the board does not have yet */
+  statuses: ImportedStatus[];
+  tasks: ImportPayloadTask[];
+}
+
+/**
+ * Dry-run report shown by the import wizard
+ */
+export interface ImportPreview {
+  statuses_to_create: string[];
+  task_count: number;
+  checklist_item_count: number;
+  comment_count: number;
+  /** First tasks as they will be created */
+  sample: {
+    row: number;
+    title: string;
+    status: string;
+    priority: TaskPriority | null;
+    tags: string[];
+    due_date: string | null;
+    assignees: string[];
+  }[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
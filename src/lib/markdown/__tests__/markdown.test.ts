@@ -0,0 +1,270 @@
+import {
+  applyMarkdownFormat,
+  formatAttachmentImage,
+  getAttachmentImageId,
+  markdownToPlainText,
+  parseMarkdown,
+  toggleTaskListItem,
+} from '..';
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const ATTACHMENT_ID = '22222222-2222-4222-8222-222222222222';
+
+describe('parseMarkdown', () => {
+  it('should parse headings, paragraphs and rules', () => {
+    expect(parseMarkdown('## Title ##\n\nHello\nworld\n\n---')).toEqual([
+      { type: 'heading', level: 2, children: [{ type: 'text', text: 'Title' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'Hello' },
+          { type: 'break' },
+          { type: 'text', text: 'world' },
+        ],
+      },
+      { type: 'hr' },
+    ]);
+  });
+
+  it('should not treat #tags as headings', () => {
+    expect(parseMarkdown('#123')[0].type).toBe('paragraph');
+  });
+
+  it('should parse emphasis, strikethrough and inline code', () => {
+    const [paragraph] = parseMarkdown('**bold** _em_ ***both*** ~~gone~~ `a*b*`');
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+        { type: 'text', text: ' ' },
+        { type: 'em', children: [{ type: 'text', text: 'em' }] },
+        { type: 'text', text: ' ' },
+        { type: 'strong', children: [{ type: 'em', children: [{ type: 'text', text: 'both' }] }] },
+        { type: 'text', text: ' ' },
+        { type: 'del', children: [{ type: 'text', text: 'gone' }] },
+        { type: 'text', text: ' ' },
+        { type: 'code', text: 'a*b*' },
+      ],
+    });
+  });
+
+  it('should leave intraword underscores and lone asterisks alone', () => {
+    expect(parseMarkdown('snake_case_name and 2 * 3')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'snake_case_name and 2 * 3' }] },
+    ]);
+  });
+
+  it('should keep fenced code verbatim', () => {
+    expect(parseMarkdown('```ts\nconst a = <b>1</b>;\n**not bold**\n```')).toEqual([
+      { type: 'code', language: 'ts', text: 'const a = <b>1</b>;\n**not bold**' },
+    ]);
+  });
+
+  it('should keep raw HTML as text', () => {
+    expect(parseMarkdown('<script>alert(1)</script>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '<script>alert(1)</script>' }] },
+    ]);
+  });
+
+  it('should parse safe links and drop unsafe hrefs', () => {
+    const [paragraph] = parseMarkdown('[docs](https://example.com) [bad](javascript:alert(1))');
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] },
+        { type: 'text', text: ' ' },
+        { type: 'link', href: null, children: [{ type: 'text', text: 'bad' }] },
+      ],
+    });
+  });
+
+  it('should autolink bare URLs without trailing punctuation', () => {
+    const [paragraph] = parseMarkdown('See https://example.com/a.');
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'text', text: 'See ' },
+        {
+          type: 'link',
+          href: 'https://example.com/a',
+          children: [{ type: 'text', text: 'https://example.com/a' }],
+        },
+        { type: 'text', text: '.' },
+      ],
+    });
+  });
+
+  it('should parse mention tokens before links', () => {
+    const [paragraph] = parseMarkdown(`hi @[Ann](${USER_ID})`);
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'text', text: 'hi ' },
+        { type: 'mention', name: 'Ann', userId: USER_ID },
+      ],
+    });
+  });
+
+  it('should parse images with their raw destination', () => {
+    const [paragraph] = parseMarkdown(`![Screen shot](attachment:${ATTACHMENT_ID})`);
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      children: [{ type: 'image', alt: 'Screen shot', src: `attachment:${ATTACHMENT_ID}` }],
+    });
+  });
+
+  it('should parse block quotes', () => {
+    expect(parseMarkdown('> quoted\n> text')).toEqual([
+      {
+        type: 'blockquote',
+        children: [
+          {
+            type: 'paragraph',
+            children: [
+              { type: 'text', text: 'quoted' },
+              { type: 'break' },
+              { type: 'text', text: 'text' },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should parse ordered lists with their start number', () => {
+    const [list] = parseMarkdown('3. three\n4. four');
+    expect(list).toMatchObject({ type: 'list', ordered: true, start: 3 });
+    expect(list.type === 'list' && list.items).toHaveLength(2);
+  });
+
+  it('should parse task lists with source lines, including nested items', () => {
+    const [list] = parseMarkdown('- [ ] todo\n- [x] done\n  - [X] nested\n- plain');
+    if (list.type !== 'list') throw new Error('expected a list');
+
+    expect(list.items.map((item) => [item.checked, item.line])).toEqual([
+      [false, 0],
+      [true, 1],
+      [null, 3],
+    ]);
+
+    const nested = list.items[1].children[1];
+    if (nested.type !== 'list') throw new Error('expected a nested list');
+    expect(nested.items).toEqual([
+      {
+        checked: true,
+        line: 2,
+        children: [{ type: 'paragraph', children: [{ type: 'text', text: 'nested' }] }],
+      },
+    ]);
+  });
+
+  it('should report source lines of task items inside quotes', () => {
+    const [, blockquote] = parseMarkdown('intro\n\n> - [ ] quoted');
+    if (blockquote.type !== 'blockquote' || blockquote.children[0].type !== 'list') {
+      throw new Error('expected a quoted list');
+    }
+    expect(blockquote.children[0].items[0].line).toBe(2);
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('should strip formatting and keep the text', () => {
+    expect(
+      markdownToPlainText(`# Plan\n\n**Ship** [it](https://x.dev) @[Ann](${USER_ID})\n\n- [ ] a`)
+    ).toBe('Plan\nShip it @Ann\na');
+  });
+});
+
+describe('toggleTaskListItem', () => {
+  it('should check and uncheck the item on a line', () => {
+    const source = '- [ ] a\n  - [x] b';
+    expect(toggleTaskListItem(source, 0, true)).toBe('- [x] a\n  - [x] b');
+    expect(toggleTaskListItem(source, 1, false)).toBe('- [ ] a\n  - [ ] b');
+  });
+
+  it('should handle quoted items and leave other lines unchanged', () => {
+    expect(toggleTaskListItem('> 1. [ ] a', 0, true)).toBe('> 1. [x] a');
+    expect(toggleTaskListItem('plain [ ] text', 0, true)).toBe('plain [ ] text');
+    expect(toggleTaskListItem('- [ ] a', 5, true)).toBe('- [ ] a');
+  });
+
+  it('should agree with the line numbers from parseMarkdown', () => {
+    const source = 'Steps:\n\n- [ ] one\n- [ ] two';
+    const list = parseMarkdown(source)[1];
+    if (list.type !== 'list') throw new Error('expected a list');
+
+    const toggled = toggleTaskListItem(source, list.items[1].line, true);
+    expect(toggled).toBe('Steps:\n\n- [ ] one\n- [x] two');
+  });
+});
+
+describe('applyMarkdownFormat', () => {
+  it('should wrap the selection and keep it selected', () => {
+    expect(applyMarkdownFormat('make this bold', 10, 14, 'bold')).toEqual({
+      text: 'make this **bold**',
+      selectionStart: 12,
+      selectionEnd: 16,
+    });
+  });
+
+  it('should unwrap an already wrapped selection', () => {
+    expect(applyMarkdownFormat('a **b** c', 4, 5, 'bold')).toEqual({
+      text: 'a b c',
+      selectionStart: 2,
+      selectionEnd: 3,
+    });
+  });
+
+  it('should insert a selected placeholder without a selection', () => {
+    const edit = applyMarkdownFormat('', 0, 0, 'italic');
+    expect(edit.text).toBe('_italic text_');
+    expect(edit.text.slice(edit.selectionStart, edit.selectionEnd)).toBe('italic text');
+  });
+
+  it('should build a link and select the URL', () => {
+    const edit = applyMarkdownFormat('see docs', 4, 8, 'link');
+    expect(edit.text).toBe('see [docs](https://)');
+    expect(edit.text.slice(edit.selectionStart, edit.selectionEnd)).toBe('https://');
+  });
+
+  it('should prefix and number every selected line', () => {
+    expect(applyMarkdownFormat('a\nb', 0, 3, 'numberedList').text).toBe('1. a\n2. b');
+    expect(applyMarkdownFormat('a\nb', 0, 3, 'taskList').text).toBe('- [ ] a\n- [ ] b');
+  });
+
+  it('should remove a prefix every line already has', () => {
+    expect(applyMarkdownFormat('- a\n- b', 0, 7, 'bulletList').text).toBe('a\nb');
+  });
+
+  it('should keep the caret in place on a single line', () => {
+    expect(applyMarkdownFormat('x\ntitle', 4, 4, 'heading')).toEqual({
+      text: 'x\n### title',
+      selectionStart: 8,
+      selectionEnd: 8,
+    });
+  });
+
+  it('should fence a code block on its own lines', () => {
+    expect(applyMarkdownFormat('run npm test now', 4, 12, 'codeBlock').text).toBe(
+      'run \n```\nnpm test\n```\n now'
+    );
+  });
+});
+
+describe('attachment images', () => {
+  it('should round-trip an attachment reference', () => {
+    const markdown = formatAttachmentImage({ id: ATTACHMENT_ID, original_name: 'shot [1].png' });
+    expect(markdown).toBe(`![shot 1.png](attachment:${ATTACHMENT_ID})`);
+
+    const [paragraph] = parseMarkdown(markdown);
+    if (paragraph.type !== 'paragraph' || paragraph.children[0].type !== 'image') {
+      throw new Error('expected an image');
+    }
+    expect(getAttachmentImageId(paragraph.children[0].src)).toBe(ATTACHMENT_ID);
+  });
+
+  it('should ignore other image destinations', () => {
+    expect(getAttachmentImageId('https://example.com/a.png')).toBeNull();
+    expect(getAttachmentImageId('attachment:not-an-id')).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Inline attachment images
+ * Images reference task attachments as `![name](attachment:<id>)` rather than by URL,
+ * because attachment URLs are short-lived signed links
+ */
+
+import type { Attachment } from '@/types/board';
+import { sanitizeUUID } from '@/lib/security/sanitize';
+
+export const ATTACHMENT_URL_PREFIX = 'attachment:';
+
+/** Attachment types that are embedded inline; anything else renders as a link */
+export const EMBEDDABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/**
+ * Whether an attachment can be shown inline
+ */
+export function isEmbeddableImage(attachment: Pick<Attachment, 'mime_type'>): boolean {
+  return EMBEDDABLE_IMAGE_TYPES.includes(attachment.mime_type);
+}
+
+/**
+ * The attachment id an image destination points at, or null for other destinations
+ */
+export function getAttachmentImageId(src: string): string | null {
+  if (!src.toLowerCase().startsWith(ATTACHMENT_URL_PREFIX)) return null;
+  return sanitizeUUID(src.slice(ATTACHMENT_URL_PREFIX.length));
+}
+
+/**
+ * Markdown that embeds an attachment image
+ */
+export function formatAttachmentImage(
+  attachment: Pick<Attachment, 'id' | 'original_name'>
+): string {
+  const alt = attachment.original_name.replace(/[[\]\n\\]/g, '').slice(0, 100);
+  return `![${alt}](${ATTACHMENT_URL_PREFIX}${attachment.id})`;
+}
@@ -0,0 +1,205 @@
+/**
+ * Markdown editing helpers
+ * Pure text transforms behind the editor toolbar, shortcuts and task-list checkboxes
+ */
+
+export type MarkdownFormat =
+  | 'bold'
+  | 'italic'
+  | 'strikethrough'
+  | 'code'
+  | 'link'
+  | 'heading'
+  | 'quote'
+  | 'bulletList'
+  | 'numberedList'
+  | 'taskList'
+  | 'codeBlock';
+
+export interface MarkdownEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+type LineFormat = 'heading' | 'quote' | 'bulletList' | 'numberedList' | 'taskList';
+
+const WRAP_FORMATS: Partial<Record<MarkdownFormat, { marker: string; placeholder: string }>> = {
+  bold: { marker: '**', placeholder: 'bold text' },
+  italic: { marker: '_', placeholder: 'italic text' },
+  strikethrough: { marker: '~~', placeholder: 'strikethrough text' },
+  code: { marker: '`', placeholder: 'code' },
+};
+
+const LINE_PREFIX_PATTERNS: Record<LineFormat, RegExp> = {
+  heading: /^#{1,6}[ \t]+/,
+  quote: /^>[ \t]?/,
+  bulletList: /^[-*+][ \t]+(?!\[[ xX]\])/,
+  numberedList: /^\d{1,9}[.)][ \t]+/,
+  taskList: /^[-*+][ \t]+\[[ xX]\][ \t]+/,
+};
+
+const TASK_ITEM_LINE_REGEX = /^((?:[ \t]*>)*[ \t]*(?:(?:[-*+]|\d{1,9}[.)])[ \t]+)+)\[[ xX]\]/;
+
+function getLinePrefix(format: LineFormat, index: number): string {
+  switch (format) {
+    case 'heading':
+      return '### ';
+    case 'quote':
+      return '> ';
+    case 'bulletList':
+      return '- ';
+    case 'numberedList':
+      return `${index + 1}. `;
+    case 'taskList':
+      return '- [ ] ';
+  }
+}
+
+function toggleWrap(
+  text: string,
+  start: number,
+  end: number,
+  marker: string,
+  placeholder: string
+): MarkdownEdit {
+  const selected = text.slice(start, end);
+  const length = marker.length;
+
+  // Already wrapped: remove the markers instead
+  if (
+    start >= length &&
+    text.slice(start - length, start) === marker &&
+    text.slice(end, end + length) === marker
+  ) {
+    return {
+      text: text.slice(0, start - length) + selected + text.slice(end + length),
+      selectionStart: start - length,
+      selectionEnd: end - length,
+    };
+  }
+
+  const inner = selected || placeholder;
+  return {
+    text: text.slice(0, start) + marker + inner + marker + text.slice(end),
+    selectionStart: start + length,
+    selectionEnd: start + length + inner.length,
+  };
+}
+
+function insertLink(text: string, start: number, end: number): MarkdownEdit {
+  const selected = text.slice(start, end);
+  const label = selected || 'link text';
+  const url = 'https://';
+  const urlStart = start + label.length + 3;
+
+  return {
+    text: `${text.slice(0, start)}[${label}](${url})${text.slice(end)}`,
+    // Select whatever the user still has to type
+    selectionStart: selected ? urlStart : start + 1,
+    selectionEnd: selected ? urlStart + url.length : start + 1 + label.length,
+  };
+}
+
+function wrapCodeBlock(text: string, start: number, end: number): MarkdownEdit {
+  const inner = text.slice(start, end) || 'code';
+  const before = start > 0 && text[start - 1] !== '\n' ? '\n' : '';
+  const after = end < text.length && text[end] !== '\n' ? '\n' : '';
+  const innerStart = start + before.length + 4;
+
+  return {
+    text: `${text.slice(0, start)}${before}\`\`\`\n${inner}\n\`\`\`${after}${text.slice(end)}`,
+    selectionStart: innerStart,
+    selectionEnd: innerStart + inner.length,
+  };
+}
+
+function toggleLinePrefix(
+  text: string,
+  start: number,
+  end: number,
+  format: LineFormat
+): MarkdownEdit {
+  // A selection ending just after a newline doesn't include the next line
+  const lastIndex = end > start && text[end - 1] === '\n' ? end - 1 : end;
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const newline = text.indexOf('\n', lastIndex);
+  const lineEnd = newline === -1 ? text.length : newline;
+
+  const original = text.slice(lineStart, lineEnd);
+  const lines = original.split('\n');
+  const pattern = LINE_PREFIX_PATTERNS[format];
+  const filled = lines.filter((line) => line.trim());
+  const remove = filled.length > 0 && filled.every((line) => pattern.test(line));
+
+  let counter = 0;
+  const block = lines
+    .map((line) => {
+      if (remove) return line.replace(pattern, '');
+      if (!line.trim() && lines.length > 1) return line;
+      return getLinePrefix(format, counter++) + line;
+    })
+    .join('\n');
+
+  const result = text.slice(0, lineStart) + block + text.slice(lineEnd);
+
+  if (lines.length === 1 && start === end) {
+    const caret = Math.max(lineStart, end + block.length - original.length);
+    return { text: result, selectionStart: caret, selectionEnd: caret };
+  }
+
+  return { text: result, selectionStart: lineStart, selectionEnd: lineStart + block.length };
+}
+
+/**
+ * Apply a toolbar format to the selection
+ * Inline formats wrap the selection (or a placeholder), line formats prefix every
+ * selected line; applying a format that is already present removes it
+ */
+export function applyMarkdownFormat(
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  format: MarkdownFormat
+): MarkdownEdit {
+  const wrap = WRAP_FORMATS[format];
+  if (wrap) return toggleWrap(text, selectionStart, selectionEnd, wrap.marker, wrap.placeholder);
+
+  switch (format) {
+    case 'link':
+      return insertLink(text, selectionStart, selectionEnd);
+    case 'codeBlock':
+      return wrapCodeBlock(text, selectionStart, selectionEnd);
+    default:
+      return toggleLinePrefix(text, selectionStart, selectionEnd, format as LineFormat);
+  }
+}
+
+/**
+ * Replace the selection with `insertion` and put the caret after it
+ */
+export function insertMarkdown(
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  insertion: string
+): MarkdownEdit {
+  const caret = selectionStart + insertion.length;
+  return {
+    text: text.slice(0, selectionStart) + insertion + text.slice(selectionEnd),
+    selectionStart: caret,
+    selectionEnd: caret,
+  };
+}
+
+/**
+ * Check or uncheck the task-list item on a source line (see MarkdownListItem.line)
+ * Returns the source unchanged if that line isn't a task-list item
+ */
+export function toggleTaskListItem(source: string, line: number, checked: boolean): string {
+  const lines = source.split('\n');
+  if (line < 0 || line >= lines.length) return source;
+
+  lines[line] = lines[line].replace(TASK_ITEM_LINE_REGEX, `$1[${checked ? 'x' : ' '}]`);
+  return lines.join('\n');
+}
@@ -0,0 +1,24 @@
+/**
+ * Markdown
+ * Safe Markdown parsing and editing for task descriptions and comments
+ */
+
+export type { MarkdownBlock, MarkdownInline, MarkdownListItem } from './types';
+
+export { parseMarkdown, markdownToPlainText } from './parse';
+
+export {
+  applyMarkdownFormat,
+  insertMarkdown,
+  toggleTaskListItem,
+  type MarkdownFormat,
+  type MarkdownEdit,
+} from './editing';
+
+export {
+  ATTACHMENT_URL_PREFIX,
+  EMBEDDABLE_IMAGE_TYPES,
+  isEmbeddableImage,
+  getAttachmentImageId,
+  formatAttachmentImage,
+} from './attachments';
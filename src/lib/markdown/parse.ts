@@ -0,0 +1,522 @@
+/**
+ * Markdown parser
+ * Supports a safe subset: headings, paragraphs, emphasis, code, links, images, block
+ * quotes, bullet/ordered/task lists and rules. Raw HTML is never interpreted; it stays text.
+ */
+
+import { MENTION_PATTERN } from '@/lib/comments/mentions';
+import { sanitizeUrl } from '@/lib/security/sanitize';
+import type { MarkdownBlock, MarkdownInline, MarkdownListItem } from './types';
+
+/** Deepest nesting of quotes, lists and emphasis before the rest is kept as text */
+const MAX_DEPTH = 8;
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const HR_REGEX = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_REGEX = /^ {0,3}> ?/;
+const LIST_ITEM_REGEX = /^([ \t]*)([-*+]|(\d{1,9})[.)])(?:([ \t]+)(.*))?$/;
+const TASK_MARKER_REGEX = /^\[([ xX])\](?:[ \t]+|$)/;
+const LANGUAGE_REGEX = /^[\w+#.-]{1,30}$/;
+const ESCAPABLE_REGEX = /[!-/:-@[-`{-~]/;
+const AUTOLINK_REGEX = /^https?:\/\/[^\s<>]+/i;
+
+/** Mention tokens are matched in place, before `[` can start a link */
+const MENTION_AT_REGEX = new RegExp(MENTION_PATTERN.source, 'iy');
+
+interface ListMarker {
+  ordered: boolean;
+  start: number;
+  indent: number;
+  /** Column where the item's content starts; deeper lines belong to the item */
+  contentOffset: number;
+  content: string;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+/** Leading whitespace width, counting tabs as four columns */
+function indentOf(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width += 1;
+    else if (char === '\t') width += 4;
+    else break;
+  }
+  return width;
+}
+
+/** Remove up to `width` columns of leading whitespace */
+function dedent(line: string, width: number): string {
+  let removed = 0;
+  let index = 0;
+  while (index < line.length && removed < width) {
+    if (line[index] === ' ') removed += 1;
+    else if (line[index] === '\t') removed += 4;
+    else break;
+    index++;
+  }
+  return line.slice(index);
+}
+
+function matchListItem(line: string): ListMarker | null {
+  if (HR_REGEX.test(line)) return null;
+
+  const match = line.match(LIST_ITEM_REGEX);
+  if (!match) return null;
+
+  const indent = indentOf(match[1]);
+  const spacing = match[4] ? Math.min(indentOf(match[4]), 4) : 1;
+
+  return {
+    ordered: match[3] !== undefined,
+    start: match[3] !== undefined ? parseInt(match[3], 10) : 1,
+    indent,
+    contentOffset: indent + match[2].length + spacing,
+    content: match[5] ?? '',
+  };
+}
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE_REGEX.test(line) ||
+    HEADING_REGEX.test(line) ||
+    HR_REGEX.test(line) ||
+    QUOTE_REGEX.test(line) ||
+    LIST_ITEM_REGEX.test(line)
+  );
+}
+
+function parseList(
+  lines: string[],
+  start: number,
+  baseLine: number,
+  depth: number
+): { block: MarkdownBlock; next: number } {
+  const first = matchListItem(lines[start])!;
+  const items: MarkdownListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = matchListItem(lines[i])!;
+    const itemStart = i;
+    const body = [marker.content];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (isBlank(line)) {
+        // Blank lines stay in the item only when more of its content follows
+        let next = i;
+        while (next < lines.length && isBlank(lines[next])) next++;
+        if (next < lines.length && indentOf(lines[next]) >= marker.contentOffset) {
+          while (i < next) {
+            body.push('');
+            i++;
+          }
+          continue;
+        }
+        break;
+      }
+
+      if (indentOf(line) >= marker.contentOffset) {
+        body.push(dedent(line, marker.contentOffset));
+      } else if (!isBlank(body[body.length - 1]) && !startsBlock(line)) {
+        // Lazy continuation of the item's paragraph
+        body.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    const task = body[0].match(TASK_MARKER_REGEX);
+    if (task) body[0] = body[0].slice(task[0].length);
+
+    items.push({
+      checked: task ? task[1] !== ' ' : null,
+      line: baseLine + itemStart,
+      children: parseBlocks(body, baseLine + itemStart, depth + 1),
+    });
+
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const sibling = next < lines.length ? matchListItem(lines[next]) : null;
+    if (!sibling || sibling.ordered !== first.ordered) break;
+    i = next;
+  }
+
+  return {
+    block: { type: 'list', ordered: first.ordered, start: first.start, items },
+    next: i,
+  };
+}
+
+function parseBlocks(lines: string[], baseLine: number, depth: number): MarkdownBlock[] {
+  if (depth > MAX_DEPTH) {
+    const text = lines.join('\n').trim();
+    return text ? [{ type: 'paragraph', children: [{ type: 'text', text }] }] : [];
+  }
+
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}[ \\t]*$`);
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i])) body.push(lines[i++]);
+      i++;
+      blocks.push({
+        type: 'code',
+        language: LANGUAGE_REGEX.test(fence[2]) ? fence[2].toLowerCase() : null,
+        text: body.join('\n'),
+      });
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInline(heading[2] ?? '', depth),
+      });
+      i++;
+      continue;
+    }
+
+    if (HR_REGEX.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_REGEX.test(line)) {
+      const start = i;
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (QUOTE_REGEX.test(lines[i])) {
+          quoted.push(lines[i].replace(QUOTE_REGEX, ''));
+        } else if (!startsBlock(lines[i])) {
+          quoted.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: 'blockquote',
+        children: parseBlocks(quoted, baseLine + start, depth + 1),
+      });
+      continue;
+    }
+
+    if (matchListItem(line)) {
+      const { block, next } = parseList(lines, i, baseLine, depth);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), depth) });
+  }
+
+  return blocks;
+}
+
+function countRun(text: string, index: number): number {
+  let end = index;
+  while (text[end] === text[index]) end++;
+  return end - index;
+}
+
+function findCodeSpanEnd(text: string, from: number, length: number): number {
+  for (let k = from; k < text.length; k++) {
+    if (text[k] !== '`') continue;
+    const run = countRun(text, k);
+    if (run === length) return k;
+    k += run - 1;
+  }
+  return -1;
+}
+
+/** Parse `[label](destination "title")` starting at the `[` */
+function parseLinkAt(
+  text: string,
+  open: number
+): { label: string; destination: string; end: number } | null {
+  let nesting = 0;
+  let close = -1;
+
+  for (let k = open; k < text.length; k++) {
+    if (text[k] === '\\') {
+      k++;
+    } else if (text[k] === '[') {
+      nesting++;
+    } else if (text[k] === ']') {
+      nesting--;
+      if (nesting === 0) {
+        close = k;
+        break;
+      }
+    }
+  }
+
+  if (close === -1 || text[close + 1] !== '(') return null;
+
+  const target = text
+    .slice(close + 2)
+    .match(
+      /^[ \t]*(?:<([^<>\n]*)>|([^\s()]*(?:\([^\s()]*\)[^\s()]*)*))(?:[ \t]+(?:"[^"\n]*"|'[^'\n]*'))?[ \t]*\)/
+    );
+  if (!target) return null;
+
+  return {
+    label: text.slice(open + 1, close),
+    destination: target[1] ?? target[2],
+    end: close + 2 + target[0].length,
+  };
+}
+
+/** Parse `*em*`, `_em_`, `**strong**`, `***both***` or `~~del~~` starting at index */
+function parseEmphasisAt(
+  text: string,
+  index: number,
+  depth: number,
+  inLink: boolean
+): { node: MarkdownInline; end: number } | null {
+  const char = text[index];
+  const run = countRun(text, index);
+  const isWordChar = (c: string | undefined) => !!c && /[\p{L}\p{N}]/u.test(c);
+
+  if (char === '~' ? run !== 2 : run > 3) return null;
+  if (!text[index + run] || /\s/.test(text[index + run])) return null;
+  if (char === '_' && isWordChar(text[index - 1])) return null;
+
+  for (let k = index + run + 1; k < text.length; k++) {
+    if (text[k] !== char || text[k - 1] === char) continue;
+
+    const closeRun = countRun(text, k);
+    const closes =
+      closeRun === run &&
+      !/\s/.test(text[k - 1]) &&
+      text[k - 1] !== '\\' &&
+      !(char === '_' && isWordChar(text[k + run]));
+
+    if (!closes) {
+      k += closeRun - 1;
+      continue;
+    }
+
+    const children = parseInline(text.slice(index + run, k), depth + 1, inLink);
+    const node: MarkdownInline =
+      char === '~'
+        ? { type: 'del', children }
+        : run === 1
+          ? { type: 'em', children }
+          : run === 2
+            ? { type: 'strong', children }
+            : { type: 'strong', children: [{ type: 'em', children }] };
+
+    return { node, end: k + run };
+  }
+
+  return null;
+}
+
+/** Match a bare http(s) URL, leaving trailing punctuation out of the link */
+function matchAutolink(text: string, index: number): string | null {
+  const match = text.slice(index).match(AUTOLINK_REGEX);
+  if (!match) return null;
+
+  let url = match[0];
+  while (/[.,;:!?'"*_~]$/.test(url) || (url.endsWith(')') && !url.includes('('))) {
+    url = url.slice(0, -1);
+  }
+  return url.length > 'https://'.length ? url : null;
+}
+
+function parseInline(text: string, depth: number, inLink = false): MarkdownInline[] {
+  if (depth > MAX_DEPTH) return text ? [{ type: 'text', text }] : [];
+
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const push = (node: MarkdownInline) => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE_REGEX.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = countRun(text, i);
+      const close = findCodeSpanEnd(text, i + run, run);
+      if (close === -1) {
+        buffer += text.slice(i, i + run);
+        i += run;
+        continue;
+      }
+      let code = text.slice(i + run, close).replace(/\n/g, ' ');
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim()) {
+        code = code.slice(1, -1);
+      }
+      push({ type: 'code', text: code });
+      i = close + run;
+      continue;
+    }
+
+    if (char === '@') {
+      MENTION_AT_REGEX.lastIndex = i;
+      const mention = MENTION_AT_REGEX.exec(text);
+      if (mention) {
+        push({ type: 'mention', name: mention[1], userId: mention[2].toLowerCase() });
+        i += mention[0].length;
+        continue;
+      }
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const image = parseLinkAt(text, i + 1);
+      if (image) {
+        push({
+          type: 'image',
+          alt: inlineToPlainText(parseInline(image.label, depth + 1, true)),
+          src: image.destination,
+        });
+        i = image.end;
+        continue;
+      }
+    }
+
+    if (char === '[' && !inLink) {
+      const link = parseLinkAt(text, i);
+      if (link) {
+        push({
+          type: 'link',
+          href: sanitizeUrl(link.destination),
+          children: parseInline(link.label, depth + 1, true),
+        });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const emphasis = parseEmphasisAt(text, i, depth, inLink);
+      if (emphasis) {
+        push(emphasis.node);
+        i = emphasis.end;
+        continue;
+      }
+      // Skip the whole run so its tail isn't retried as a shorter delimiter
+      const run = countRun(text, i);
+      buffer += text.slice(i, i + run);
+      i += run;
+      continue;
+    }
+
+    if ((char === 'h' || char === 'H') && !inLink && !/\w/.test(text[i - 1] ?? '')) {
+      const url = matchAutolink(text, i);
+      if (url) {
+        push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  if (buffer) nodes.push({ type: 'text', text: buffer });
+  return nodes;
+}
+
+function inlineToPlainText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return '\n';
+        case 'mention':
+          return `@${node.name}`;
+        case 'image':
+          return node.alt;
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join('');
+}
+
+function blocksToPlainText(blocks: MarkdownBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+          return inlineToPlainText(block.children);
+        case 'code':
+          return block.text;
+        case 'blockquote':
+          return blocksToPlainText(block.children);
+        case 'list':
+          return block.items.map((item) => blocksToPlainText(item.children)).join('\n');
+        case 'hr':
+          return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Parse Markdown source into blocks
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'), 0, 0);
+}
+
+/**
+ * Markdown reduced to its text, e.g. for card previews, notifications and emails
+ */
+export function markdownToPlainText(source: string): string {
+  return blocksToPlainText(parseMarkdown(source));
+}
@@ -0,0 +1,33 @@
+/**
+ * Markdown syntax tree
+ * Produced by parseMarkdown and rendered as React elements, never as raw HTML
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'del'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  /** href is null when the destination isn't a safe URL; the label still renders */
+  | { type: 'link'; href: string | null; children: MarkdownInline[] }
+  /** src is the raw destination; only task attachment images are embedded */
+  | { type: 'image'; alt: string; src: string }
+  | { type: 'mention'; userId: string; name: string }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  /** null for plain items, a boolean for task-list items */
+  checked: boolean | null;
+  /** 0-based source line of the item, used to toggle task-list checkboxes */
+  line: number;
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string | null; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'hr' };
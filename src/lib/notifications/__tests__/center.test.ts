@@ -0,0 +1,98 @@
+import {
+  decodeNotificationCursor,
+  encodeNotificationCursor,
+  getNotificationHref,
+  groupNotifications,
+} from '../center';
+import type { NotificationWithContext } from '@/types/board';
+
+const boardA = { id: 'board-a', name: 'Roadmap' };
+const taskA = { id: 'task-a', title: 'Ship v2' };
+
+function notification(overrides: Partial<NotificationWithContext>): NotificationWithContext {
+  return {
+    id: 'n',
+    user_id: 'user-1',
+    type: 'task_updated',
+    title: 'Task updated',
+    message: null,
+    board_id: null,
+    task_id: null,
+    read_at: null,
+    archived_at: null,
+    in_app: true,
+    created_at: '2026-01-01T00:00:00.000Z',
+    board: null,
+    task: null,
+    ...overrides,
+  } as NotificationWithContext;
+}
+
+describe('notification cursor', () => {
+  const cursor = {
+    created_at: '2026-03-04T05:06:07.890Z',
+    id: '7b2c4f0e-1a2b-4c3d-8e9f-0a1b2c3d4e5f',
+  };
+
+  it('should round-trip created_at and id', () => {
+    const encoded = encodeNotificationCursor(cursor);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeNotificationCursor(encoded)).toEqual(cursor);
+  });
+
+  it('should reject malformed or tampered cursors', () => {
+    expect(decodeNotificationCursor('not base64!')).toBeNull();
+    expect(decodeNotificationCursor(btoa('2026-01-01|not-a-uuid'))).toBeNull();
+    expect(decodeNotificationCursor(btoa(`yesterday|${cursor.id}`))).toBeNull();
+    expect(decodeNotificationCursor(btoa(`${cursor.created_at}|${cursor.id}|x`))).toBeNull();
+    expect(decodeNotificationCursor(btoa(`${cursor.created_at}|${cursor.id},id.gt.0`))).toBeNull();
+  });
+});
+
+describe('groupNotifications', () => {
+  it('should group by task, then board, then other, in order of the newest item', () => {
+    const groups = groupNotifications([
+      notification({ id: '1', board_id: boardA.id, board: boardA }),
+      notification({ id: '2', board_id: boardA.id, task_id: taskA.id, board: boardA, task: taskA }),
+      notification({ id: '3', type: 'board_invite' }),
+      notification({
+        id: '4',
+        board_id: boardA.id,
+        task_id: taskA.id,
+        board: boardA,
+        task: taskA,
+        read_at: '2026-01-02T00:00:00.000Z',
+      }),
+      notification({ id: '5', board_id: boardA.id, board: boardA }),
+    ]);
+
+    expect(groups.map((g) => g.key)).toEqual(['board:board-a', 'task:task-a', 'other']);
+    expect(groups[0]).toMatchObject({ kind: 'board', title: 'Roadmap', subtitle: null });
+    expect(groups[0].notifications.map((n) => n.id)).toEqual(['1', '5']);
+    expect(groups[1]).toMatchObject({
+      kind: 'task',
+      title: 'Ship v2',
+      subtitle: 'Roadmap',
+      boardId: 'board-a',
+      taskId: 'task-a',
+      unreadCount: 1,
+    });
+    expect(groups[2]).toMatchObject({ kind: 'other', title: 'Other', unreadCount: 1 });
+  });
+
+  it('should name groups whose task or board is gone', () => {
+    const groups = groupNotifications([
+      notification({ id: '1', board_id: 'gone', task_id: 'gone-task' }),
+      notification({ id: '2', board_id: 'gone' }),
+    ]);
+    expect(groups.map((g) => g.title)).toEqual(['Deleted task', 'Deleted board']);
+  });
+});
+
+describe('getNotificationHref', () => {
+  it('should open the task on its board, or the board', () => {
+    expect(getNotificationHref({ board_id: 'b', task_id: 't' })).toBe('/boards/b?task=t');
+    expect(getNotificationHref({ board_id: 'b', task_id: null })).toBe('/boards/b');
+    expect(getNotificationHref({ board_id: null, task_id: null })).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  getDueNotificationType,
+  getDueRecipientIds,
+  sendDueDateReminders,
+  DUE_SOON_WINDOW_MS,
+  OVERDUE_LOOKBACK_MS,
+} from '../dueDates';
+import { notifyUsers } from '../notify';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+
+jest.mock('../notify', () => ({
+  notifyUsers: jest.fn().mockResolvedValue(undefined),
+}));
+
+const now = new Date('2026-03-05T12:00:00.000Z');
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 3600 * 1000).toISOString();
+
+describe('getDueNotificationType', () => {
+  it('should flag tasks due within the window as due soon', () => {
+    expect(getDueNotificationType(hoursFromNow(2), now)).toBe('task_due_soon');
+    expect(
+      getDueNotificationType(new Date(now.getTime() + DUE_SOON_WINDOW_MS).toISOString(), now)
+    ).toBe('task_due_soon');
+  });
+
+  it('should flag past due dates as overdue within the lookback', () => {
+    expect(getDueNotificationType(hoursFromNow(-1), now)).toBe('task_overdue');
+    expect(getDueNotificationType(now.toISOString(), now)).toBe('task_overdue');
+  });
+
+  it('should ignore far-off, long-overdue and invalid dates', () => {
+    expect(getDueNotificationType(hoursFromNow(48), now)).toBeNull();
+    expect(
+      getDueNotificationType(new Date(now.getTime() - OVERDUE_LOOKBACK_MS - 1).toISOString(), now)
+    ).toBeNull();
+    expect(getDueNotificationType('not a date', now)).toBeNull();
+  });
+});
+
+describe('getDueRecipientIds', () => {
+  const members = [
+    { user_id: 'owner', role: 'owner' as const },
+    { user_id: 'admin', role: 'admin' as const },
+    { user_id: 'member', role: 'member' as const },
+    { user_id: 'viewer', role: 'viewer' as const },
+  ];
+
+  it('should remind only the assignees of an assigned task', () => {
+    expect(getDueRecipientIds(['member', 'member'], members)).toEqual(['member']);
+  });
+
+  it('should remind everyone but viewers when nobody is assigned', () => {
+    expect(getDueRecipientIds([], members)).toEqual(['owner', 'admin', 'member']);
+  });
+});
+
+describe('sendDueDateReminders', () => {
+  /**
+   * Minimal query builder: every filter returns the builder, awaiting it yields the
+   * table's rows; task_due_reminders upserts honour the unique key
+   */
+  const createSupabase = (tables: Record<string, unknown[]>) => {
+    const sentReminders = new Set<string>();
+
+    const from = jest.fn((table: string) => {
+      let result: { data: unknown; error: null } = { data: tables[table] ?? [], error: null };
+      const builder: Record<string, unknown> = {};
+      for (const method of ['select', 'not', 'gte', 'lte', 'order', 'in', 'eq']) {
+        builder[method] = jest.fn(() => builder);
+      }
+      builder.upsert = jest.fn(
+        (rows: { task_id: string; user_id: string; type: string; due_date: string }[]) => {
+          const inserted = rows.filter((row) => {
+            const key = [row.task_id, row.user_id, row.type, row.due_date].join('|');
+            if (sentReminders.has(key)) return false;
+            sentReminders.add(key);
+            return true;
+          });
+          result = { data: inserted.map((row) => ({ user_id: row.user_id })), error: null };
+          return builder;
+        }
+      );
+      builder.then = (resolve: (value: unknown) => unknown) =>
+        Promise.resolve(result).then(resolve);
+      return builder;
+    });
+
+    return { from } as unknown as SupabaseClient<Database>;
+  };
+
+  const tables = {
+    tasks: [
+      {
+        id: 'task-soon',
+        board_id: 'board-1',
+        status_id: 'todo',
+        title: 'Ship it',
+        due_date: hoursFromNow(3),
+      },
+      {
+        id: 'task-late',
+        board_id: 'board-1',
+        status_id: 'todo',
+        title: 'Write docs',
+        due_date: hoursFromNow(-3),
+      },
+      {
+        id: 'task-done',
+        board_id: 'board-1',
+        status_id: 'done',
+        title: 'Finished',
+        due_date: hoursFromNow(-3),
+      },
+    ],
+    statuses: [
+      { id: 'todo', board_id: 'board-1', order: 0 },
+      { id: 'done', board_id: 'board-1', order: 1 },
+    ],
+    boards: [{ id: 'board-1', name: 'Launch', user_id: 'owner' }],
+    board_members: [
+      { board_id: 'board-1', user_id: 'member', role: 'member' },
+      { board_id: 'board-1', user_id: 'viewer', role: 'viewer' },
+    ],
+    task_assignees: [{ task_id: 'task-soon', user_id: 'member' }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should notify assignees, or the board when unassigned, and skip done tasks', async () => {
+    const result = await sendDueDateReminders(createSupabase(tables), now);
+
+    expect(result).toEqual({ tasks: 2, notified: 3 });
+    expect(notifyUsers).toHaveBeenCalledTimes(2);
+    expect(notifyUsers).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        type: 'task_due_soon',
+        recipientIds: ['member'],
+        title: 'Task Due Soon',
+        taskId: 'task-soon',
+        emailData: expect.objectContaining({ taskTitle: 'Ship it', overdue: false }),
+      })
+    );
+    expect(notifyUsers).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        type: 'task_overdue',
+        recipientIds: ['owner', 'member'],
+        title: 'Task Overdue',
+        taskId: 'task-late',
+      })
+    );
+  });
+
+  it('should not remind anyone twice for the same due date', async () => {
+    const supabase = createSupabase(tables);
+
+    await sendDueDateReminders(supabase, now);
+    const second = await sendDueDateReminders(supabase, now);
+
+    expect(second.notified).toBe(0);
+    expect(notifyUsers).toHaveBeenCalledTimes(2);
+  });
+
+  it('should do nothing when no task is due', async () => {
+    const result = await sendDueDateReminders(createSupabase({ tasks: [] }), now);
+
+    expect(result).toEqual({ tasks: 0, notified: 0 });
+    expect(notifyUsers).not.toHaveBeenCalled();
+  });
+});
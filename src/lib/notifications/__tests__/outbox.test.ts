@@ -0,0 +1,269 @@
+import { isDigestDue, processEmailOutbox, DIGEST_INTERVAL_MS } from '../outbox';
+import type { EmailMessage, EmailTransport } from '@/lib/email';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+
+const now = new Date('2026-03-05T12:00:00.000Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+describe('isDigestDue', () => {
+  it('should send the first digest right away', () => {
+    expect(isDigestDue('daily', null, now)).toBe(true);
+  });
+
+  it('should wait a full period between digests', () => {
+    expect(isDigestDue('hourly', minutesAgo(59), now)).toBe(false);
+    expect(isDigestDue('hourly', minutesAgo(60), now)).toBe(true);
+    expect(
+      isDigestDue(
+        'daily',
+        new Date(now.getTime() - DIGEST_INTERVAL_MS.daily + 1).toISOString(),
+        now
+      )
+    ).toBe(false);
+  });
+});
+
+describe('processEmailOutbox', () => {
+  type Update = { table: string; values: Record<string, unknown>; ids: string[] };
+
+  /**
+   * Minimal query builder: filters return the builder, awaiting it yields the table's
+   * rows; updates are recorded with the ids they targeted and applied to the rows; the
+   * outbox claim returns unsent rows that are not held, oldest first, up to the batch size
+   */
+  const createSupabase = (tables: Record<string, Record<string, unknown>[]>) => {
+    const updates: Update[] = [];
+
+    const from = jest.fn((table: string) => {
+      let update: Update | null = null;
+      const builder: Record<string, unknown> = {};
+      builder.select = jest.fn(() => builder);
+      builder.update = jest.fn((values: Record<string, unknown>) => {
+        update = { table, values, ids: [] };
+        updates.push(update);
+        return builder;
+      });
+      builder.in = jest.fn((_column: string, ids: string[]) => {
+        update?.ids.push(...ids);
+        return builder;
+      });
+      builder.eq = jest.fn((_column: string, id: string) => {
+        update?.ids.push(id);
+        return builder;
+      });
+      builder.then = (resolve: (value: unknown) => unknown) => {
+        if (update) {
+          for (const row of tables[table] ?? []) {
+            if (update.ids.includes(row.id as string)) Object.assign(row, update.values);
+          }
+        }
+        return Promise.resolve({ data: update ? null : (tables[table] ?? []), error: null }).then(
+          resolve
+        );
+      };
+      return builder;
+    });
+
+    const rpc = jest.fn(async (_name: string, args: { p_batch_size: number }) => ({
+      data: (tables.notifications ?? [])
+        .filter(
+          (row) =>
+            !row.email_sent &&
+            (!row.email_send_after || Date.parse(row.email_send_after as string) <= now.getTime())
+        )
+        .sort((a, b) => (a.created_at as string).localeCompare(b.created_at as string))
+        .slice(0, args.p_batch_size)
+        .map((row) => ({ ...row })),
+      error: null,
+    }));
+
+    return { supabase: { from, rpc } as unknown as SupabaseClient<Database>, updates };
+  };
+
+  const createTransport = (fail = false) => {
+    const sent: EmailMessage[] = [];
+    const transport: EmailTransport = {
+      name: 'test',
+      send: jest.fn(async (message: EmailMessage) => {
+        if (fail) throw new Error('connection refused');
+        sent.push(message);
+      }),
+    };
+    return { transport, sent };
+  };
+
+  const notification = (id: string, userId: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    user_id: userId,
+    type: 'task_assigned',
+    title: 'Task Assigned',
+    message: `You were assigned to ${id}`,
+    board_id: 'board-1',
+    task_id: id,
+    email_data: {
+      template: 'task_assigned',
+      data: { taskTitle: `Task ${id}`, boardName: 'Launch', assignerName: 'Ann' },
+    },
+    email_attempts: 0,
+    created_at: minutesAgo(10),
+    ...overrides,
+  });
+
+  const profile = (id: string, preferences: Record<string, unknown> = {}, lastDigest?: string) => ({
+    id,
+    email: `${id}@example.com`,
+    display_name: id,
+    notification_preferences: preferences,
+    last_digest_sent_at: lastDigest ?? null,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send instant emails one by one and mark them sent', async () => {
+    const { supabase, updates } = createSupabase({
+      notifications: [notification('n1', 'ann'), notification('n2', 'ann')],
+      profiles: [profile('ann')],
+    });
+    const { transport, sent } = createTransport();
+
+    const result = await processEmailOutbox(supabase, transport, now);
+
+    expect(result).toEqual({ sent: 2, digests: 0, skipped: 0, failed: 0 });
+    expect(sent.map((message) => message.subject)).toEqual([
+      `You've been assigned to "Task n1"`,
+      `You've been assigned to "Task n2"`,
+    ]);
+    expect(sent[0].to).toBe('ann@example.com');
+    expect(sent[0].html).toContain('Hi ann,');
+    expect(updates.filter((u) => u.values.email_sent).flatMap((u) => u.ids)).toEqual(['n1', 'n2']);
+  });
+
+  it('should batch a due digest into one email and stamp the profile', async () => {
+    const { supabase, updates } = createSupabase({
+      notifications: [notification('n1', 'bob'), notification('n2', 'bob')],
+      profiles: [profile('bob', { email_frequency: 'hourly' }, minutesAgo(90))],
+    });
+    const { transport, sent } = createTransport();
+
+    const result = await processEmailOutbox(supabase, transport, now);
+
+    expect(result).toEqual({ sent: 0, digests: 1, skipped: 0, failed: 0 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].subject).toBe('Your hourly KanbanPro digest: 2 new notifications');
+    expect(sent[0].text).toContain('You were assigned to n1');
+    expect(updates).toEqual(
+      expect.arrayContaining([
+        {
+          table: 'notifications',
+          values: { email_sent: true, email_error: null, email_claimed_at: null },
+          ids: ['n1', 'n2'],
+        },
+        { table: 'profiles', values: { last_digest_sent_at: now.toISOString() }, ids: ['bob'] },
+      ])
+    );
+  });
+
+  it('should claim queued notifications before sending them', async () => {
+    const { supabase } = createSupabase({ notifications: [] });
+    const { transport } = createTransport();
+
+    const result = await processEmailOutbox(supabase, transport, now);
+
+    expect(result).toEqual({ sent: 0, digests: 0, skipped: 0, failed: 0 });
+    expect(supabase.rpc).toHaveBeenCalledWith(
+      'claim_email_outbox',
+      expect.objectContaining({ p_max_attempts: 5 })
+    );
+  });
+
+  it('should hold digest notifications until the period has passed', async () => {
+    const { supabase, updates } = createSupabase({
+      notifications: [notification('n1', 'bob')],
+      profiles: [profile('bob', { email_frequency: 'daily' }, minutesAgo(60))],
+    });
+    const { transport, sent } = createTransport();
+
+    const result = await processEmailOutbox(supabase, transport, now);
+
+    expect(result).toEqual({ sent: 0, digests: 0, skipped: 0, failed: 0 });
+    expect(sent).toHaveLength(0);
+    expect(updates).toEqual([
+      {
+        table: 'notifications',
+        values: { email_claimed_at: null, email_send_after: minutesAgo(60 - 24 * 60) },
+        ids: ['n1'],
+      },
+    ]);
+  });
+
+  it('should not let held digest rows crowd out instant emails', async () => {
+    const held = Array.from({ length: 500 }, (_, index) =>
+      notification(`held-${index}`, 'bob', { created_at: minutesAgo(600 - index) })
+    );
+    const { supabase } = createSupabase({
+      notifications: [...held, notification('n1', 'ann', { created_at: minutesAgo(5) })],
+      profiles: [profile('bob', { email_frequency: 'daily' }, minutesAgo(60)), profile('ann')],
+    });
+    const { transport, sent } = createTransport();
+
+    // The held rows fill the first batch; once held they are left out of the next claim
+    await expect(processEmailOutbox(supabase, transport, now)).resolves.toMatchObject({
+      sent: 0,
+    });
+    await expect(processEmailOutbox(supabase, transport, now)).resolves.toMatchObject({
+      sent: 1,
+      digests: 0,
+    });
+    expect(sent.map((message) => message.to)).toEqual(['ann@example.com']);
+  });
+
+  it('should drop emails the recipient has since turned off', async () => {
+    const { supabase, updates } = createSupabase({
+      notifications: [notification('n1', 'cy')],
+      profiles: [profile('cy', { email_task_assigned: false })],
+    });
+    const { transport, sent } = createTransport();
+
+    const result = await processEmailOutbox(supabase, transport, now);
+
+    expect(result.skipped).toBe(1);
+    expect(sent).toHaveLength(0);
+    expect(updates).toEqual([
+      {
+        table: 'notifications',
+        values: {
+          email_data: null,
+          email_error: 'Email disabled in preferences',
+          email_claimed_at: null,
+        },
+        ids: ['n1'],
+      },
+    ]);
+  });
+
+  it('should count failed sends and leave them queued for a retry', async () => {
+    const { supabase, updates } = createSupabase({
+      notifications: [notification('n1', 'ann', { email_attempts: 2 })],
+      profiles: [profile('ann')],
+    });
+    const { transport } = createTransport(true);
+
+    const result = await processEmailOutbox(supabase, transport, now);
+
+    expect(result.failed).toBe(1);
+    expect(updates).toEqual([
+      {
+        table: 'notifications',
+        values: { email_attempts: 3, email_error: 'connection refused', email_claimed_at: null },
+        ids: ['n1'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import { getSubscriptionLevel, getWatcherIds } from '../subscriptions';
+import { getNotificationChannels, notifyUsers, wantsEmail } from '../notify';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+
+describe('notification subscriptions', () => {
+  const subscriptions = [
+    { user_id: 'ann', task_id: null, level: 'mute' as const },
+    { user_id: 'ann', task_id: 'task-1', level: 'watch' as const },
+    { user_id: 'bob', task_id: null, level: 'watch' as const },
+    { user_id: 'bob', task_id: 'task-2', level: 'mute' as const },
+  ];
+
+  describe('getSubscriptionLevel', () => {
+    it('should let a task level override the board level', () => {
+      expect(getSubscriptionLevel(subscriptions, 'ann', 'task-1')).toBe('watch');
+      expect(getSubscriptionLevel(subscriptions, 'bob', 'task-2')).toBe('mute');
+    });
+
+    it('should fall back to the board level', () => {
+      expect(getSubscriptionLevel(subscriptions, 'ann', 'task-3')).toBe('mute');
+      expect(getSubscriptionLevel(subscriptions, 'ann')).toBe('mute');
+    });
+
+    it('should return null without any subscription', () => {
+      expect(getSubscriptionLevel(subscriptions, 'cy', 'task-1')).toBeNull();
+    });
+  });
+
+  describe('getWatcherIds', () => {
+    it('should list users whose effective level is watch', () => {
+      expect(getWatcherIds(subscriptions, 'task-1')).toEqual(['ann', 'bob']);
+      expect(getWatcherIds(subscriptions, 'task-2')).toEqual([]);
+      expect(getWatcherIds(subscriptions)).toEqual(['bob']);
+    });
+  });
+});
+
+describe('notification channels', () => {
+  it('should prefer per-type channels over the grouped email toggles', () => {
+    const preferences = {
+      email_comments: true,
+      channels: { comment_added: { in_app: true, email: false } },
+    };
+    expect(wantsEmail(preferences, 'comment_added')).toBe(false);
+    expect(wantsEmail(preferences, 'comment_mention')).toBe(true);
+  });
+
+  it('should default to in-app, and to email when the type has a template', () => {
+    expect(getNotificationChannels(null, 'task_assigned')).toEqual({ in_app: true, email: true });
+    expect(getNotificationChannels(null, 'task_moved')).toEqual({ in_app: true, email: false });
+  });
+
+  it('should never email types without a template', () => {
+    const preferences = { channels: { task_moved: { in_app: false, email: true } } };
+    expect(getNotificationChannels(preferences, 'task_moved')).toEqual({
+      in_app: false,
+      email: false,
+    });
+  });
+});
+
+describe('notifyUsers', () => {
+  /**
+   * Minimal query builder: filters return the builder, awaiting it yields the table's
+   * rows; inserts are captured
+   */
+  const createSupabase = (tables: Record<string, unknown[]>) => {
+    const inserted: Record<string, unknown>[] = [];
+
+    const from = jest.fn((table: string) => {
+      const builder: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'in', 'is', 'or']) {
+        builder[method] = jest.fn(() => builder);
+      }
+      builder.insert = jest.fn((rows: Record<string, unknown>[]) => {
+        inserted.push(...rows);
+        return Promise.resolve({ error: null });
+      });
+      builder.then = (resolve: (value: unknown) => unknown) =>
+        Promise.resolve({ data: tables[table] ?? [], error: null }).then(resolve);
+      return builder;
+    });
+
+    return { supabase: { from } as unknown as SupabaseClient<Database>, inserted };
+  };
+
+  const baseOptions = {
+    type: 'comment_added' as const,
+    actorId: 'author',
+    title: 'New Comment',
+    message: 'Hello',
+    boardId: 'board-1',
+    taskId: 'task-1',
+    emailData: { taskTitle: 'Ship it' },
+  };
+
+  it('should insert rows for other users without reading them back', async () => {
+    const { supabase, inserted } = createSupabase({});
+
+    await notifyUsers(supabase, { ...baseOptions, recipientIds: ['assignee'] });
+
+    const notificationQueries = (supabase.from as jest.Mock).mock.results
+      .filter((_, index) => (supabase.from as jest.Mock).mock.calls[index][0] === 'notifications')
+      .map((result) => result.value);
+    expect(inserted.map((row) => row.user_id)).toEqual(['assignee']);
+    expect(notificationQueries).toHaveLength(1);
+    expect(notificationQueries[0].select).not.toHaveBeenCalled();
+  });
+
+  it('should add watchers and skip users who muted the task', async () => {
+    const { supabase, inserted } = createSupabase({
+      notification_subscriptions: [
+        { user_id: 'watcher', task_id: null, level: 'watch' },
+        { user_id: 'assignee', task_id: 'task-1', level: 'mute' },
+        { user_id: 'author', task_id: null, level: 'watch' },
+      ],
+      profiles: [],
+    });
+
+    await notifyUsers(supabase, {
+      ...baseOptions,
+      recipientIds: ['assignee', 'other'],
+      includeWatchers: true,
+    });
+
+    expect(inserted.map((row) => row.user_id)).toEqual(['other', 'watcher']);
+  });
+
+  it('should leave out excluded users', async () => {
+    const { supabase, inserted } = createSupabase({
+      notification_subscriptions: [{ user_id: 'mentioned', task_id: null, level: 'watch' }],
+    });
+
+    await notifyUsers(supabase, {
+      ...baseOptions,
+      recipientIds: ['assignee'],
+      includeWatchers: true,
+      excludeIds: ['mentioned'],
+    });
+
+    expect(inserted.map((row) => row.user_id)).toEqual(['assignee']);
+  });
+
+  it('should still deliver membership notifications to muted users', async () => {
+    const { supabase, inserted } = createSupabase({
+      notification_subscriptions: [{ user_id: 'member', task_id: null, level: 'mute' }],
+    });
+
+    await notifyUsers(supabase, {
+      ...baseOptions,
+      type: 'board_role_changed',
+      taskId: null,
+      recipientIds: ['member'],
+    });
+
+    expect(inserted).toHaveLength(1);
+  });
+
+  it('should store each recipient’s channels on the row', async () => {
+    const { supabase, inserted } = createSupabase({
+      profiles: [
+        {
+          id: 'email-only',
+          notification_preferences: { channels: { comment_added: { in_app: false, email: true } } },
+        },
+        {
+          id: 'app-only',
+          notification_preferences: { channels: { comment_added: { in_app: true, email: false } } },
+        },
+        {
+          id: 'neither',
+          notification_preferences: {
+            channels: { comment_added: { in_app: false, email: false } },
+          },
+        },
+      ],
+    });
+
+    await notifyUsers(supabase, {
+      ...baseOptions,
+      recipientIds: ['email-only', 'app-only', 'neither'],
+    });
+
+    expect(inserted).toEqual([
+      expect.objectContaining({
+        user_id: 'email-only',
+        in_app: false,
+        email_data: { template: 'comment_added', data: { taskTitle: 'Ship it' } },
+      }),
+      expect.objectContaining({ user_id: 'app-only', in_app: true, email_data: null }),
+    ]);
+  });
+});
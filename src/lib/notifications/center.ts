@@ -0,0 +1,110 @@
+/**
+ * Notification center helpers
+ * Cursor encoding for the newest-first list and grouping by task or board
+ */
+
+import type { NotificationWithContext } from '@/types/board';
+
+export interface NotificationCursor {
+  created_at: string;
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Opaque cursor pointing after a notification
+ */
+export function encodeNotificationCursor(cursor: NotificationCursor): string {
+  return btoa(`${cursor.created_at}|${cursor.id}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Read a cursor back; null when it was tampered with or is malformed
+ * The values end up in a PostgREST filter, so both parts are strictly checked
+ */
+export function decodeNotificationCursor(value: string): NotificationCursor | null {
+  try {
+    const [createdAt, id, ...rest] = atob(value.replace(/-/g, '+').replace(/_/g, '/')).split('|');
+    if (rest.length > 0 || !id || !UUID_PATTERN.test(id)) return null;
+
+    const date = new Date(createdAt);
+    if (Number.isNaN(date.getTime())) return null;
+
+    return { created_at: date.toISOString(), id };
+  } catch {
+    return null;
+  }
+}
+
+export interface NotificationGroup {
+  /** `task:<id>`, `board:<id>` or `other` */
+  key: string;
+  kind: 'task' | 'board' | 'other';
+  /** Task title, board name, or "Other" */
+  title: string;
+  /** Board name shown under a task group */
+  subtitle: string | null;
+  boardId: string | null;
+  taskId: string | null;
+  notifications: NotificationWithContext[];
+  unreadCount: number;
+}
+
+/**
+ * Group notifications by task, or by board when they have no task
+ * Groups keep the order of their newest notification; items keep the input order
+ */
+export function groupNotifications(notifications: NotificationWithContext[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const kind = notification.task_id ? 'task' : notification.board_id ? 'board' : 'other';
+    const key =
+      kind === 'task'
+        ? `task:${notification.task_id}`
+        : kind === 'board'
+          ? `board:${notification.board_id}`
+          : 'other';
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        kind,
+        title:
+          kind === 'task'
+            ? notification.task?.title || 'Deleted task'
+            : kind === 'board'
+              ? notification.board?.name || 'Deleted board'
+              : 'Other',
+        subtitle: kind === 'task' ? (notification.board?.name ?? null) : null,
+        boardId: notification.board_id,
+        taskId: notification.task_id,
+        notifications: [],
+        unreadCount: 0,
+      };
+      groups.set(key, group);
+    }
+
+    group.notifications.push(notification);
+    if (!notification.read_at) group.unreadCount += 1;
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Where a notification leads: its task, its board, or nowhere
+ */
+export function getNotificationHref(
+  notification: Pick<NotificationWithContext, 'board_id' | 'task_id'>
+): string | null {
+  if (!notification.board_id) return null;
+  return notification.task_id
+    ? `/boards/${notification.board_id}?task=${notification.task_id}`
+    : `/boards/${notification.board_id}`;
+}
@@ -0,0 +1,177 @@
+/**
+ * Due date scheduler
+ * Finds tasks that are due soon or overdue and notifies the people responsible,
+ * once per user, task and due date
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import type { BoardMemberRole } from '@/types/board';
+import { getDoneStatusId } from '@/lib/tasks/completion';
+import { notifyUsers } from './notify';
+
+export type DueNotificationType = 'task_due_soon' | 'task_overdue';
+
+/** Tasks due within this window get a task_due_soon reminder */
+export const DUE_SOON_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Tasks overdue for longer than this are left alone, so old boards aren't flooded */
+export const OVERDUE_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Roles notified about unassigned tasks; viewers can't act on them */
+const RESPONSIBLE_ROLES: BoardMemberRole[] = ['owner', 'admin', 'member'];
+
+export interface DueDateScanResult {
+  /** Tasks in the window that are not done */
+  tasks: number;
+  /** Notifications created by this run */
+  notified: number;
+}
+
+/**
+ * Classify a due date relative to now; null when it needs no reminder
+ */
+export function getDueNotificationType(
+  dueDate: string,
+  now: Date = new Date()
+): DueNotificationType | null {
+  const due = new Date(dueDate).getTime();
+  if (Number.isNaN(due)) return null;
+
+  const diff = due - now.getTime();
+  if (diff <= 0) return diff >= -OVERDUE_LOOKBACK_MS ? 'task_overdue' : null;
+  return diff <= DUE_SOON_WINDOW_MS ? 'task_due_soon' : null;
+}
+
+/**
+ * Who to remind about a task: its assignees, or the board's owner and
+ * editing members when nobody is assigned
+ */
+export function getDueRecipientIds(
+  assigneeIds: string[],
+  members: { user_id: string; role: BoardMemberRole }[]
+): string[] {
+  if (assigneeIds.length > 0) return [...new Set(assigneeIds)];
+
+  return [
+    ...new Set(
+      members.filter((m) => RESPONSIBLE_ROLES.includes(m.role)).map((member) => member.user_id)
+    ),
+  ];
+}
+
+/**
+ * Format a due date for notification text, e.g. "Mar 5, 2026, 2:00 PM UTC"
+ */
+export function formatDueDate(dueDate: string): string {
+  return new Date(dueDate).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  });
+}
+
+/**
+ * Scan all boards for due and overdue tasks and send reminders
+ * Needs a service role client: it reads every board and writes other users' notifications
+ */
+export async function sendDueDateReminders(
+  supabase: SupabaseClient<Database>,
+  now: Date = new Date()
+): Promise<DueDateScanResult> {
+  const { data: dueTasks, error } = await supabase
+    .from('tasks')
+    .select('id, board_id, status_id, title, due_date')
+    .not('due_date', 'is', null)
+    .gte('due_date', new Date(now.getTime() - OVERDUE_LOOKBACK_MS).toISOString())
+    .lte('due_date', new Date(now.getTime() + DUE_SOON_WINDOW_MS).toISOString())
+    .order('due_date', { ascending: true });
+
+  if (error) throw error;
+  if (!dueTasks?.length) return { tasks: 0, notified: 0 };
+
+  const boardIds = [...new Set(dueTasks.map((task) => task.board_id))];
+  const taskIds = dueTasks.map((task) => task.id);
+
+  const [{ data: statuses }, { data: boards }, { data: members }, { data: assignees }] =
+    await Promise.all([
+      supabase.from('statuses').select('id, board_id, order').in('board_id', boardIds),
+      supabase.from('boards').select('id, name, user_id').in('id', boardIds),
+      supabase.from('board_members').select('board_id, user_id, role').in('board_id', boardIds),
+      supabase.from('task_assignees').select('task_id, user_id').in('task_id', taskIds),
+    ]);
+
+  const doneStatusIds = new Set(
+    boardIds.map((boardId) =>
+      getDoneStatusId((statuses || []).filter((status) => status.board_id === boardId))
+    )
+  );
+  const openTasks = dueTasks.filter((task) => !doneStatusIds.has(task.status_id));
+
+  let notified = 0;
+
+  for (const task of openTasks) {
+    const type = getDueNotificationType(task.due_date!, now);
+    const board = boards?.find((b) => b.id === task.board_id);
+    if (!type || !board) continue;
+
+    const recipientIds = getDueRecipientIds(
+      (assignees || []).filter((a) => a.task_id === task.id).map((a) => a.user_id),
+      [
+        { user_id: board.user_id, role: 'owner' },
+        ...(members || []).filter((m) => m.board_id === board.id),
+      ]
+    );
+    if (recipientIds.length === 0) continue;
+
+    // The unique key makes concurrent or repeated runs safe; only new rows come back
+    const { data: reminders, error: reminderError } = await supabase
+      .from('task_due_reminders')
+      .upsert(
+        recipientIds.map((userId) => ({
+          task_id: task.id,
+          user_id: userId,
+          type,
+          due_date: task.due_date!,
+        })),
+        { onConflict: 'task_id,user_id,type,due_date', ignoreDuplicates: true }
+      )
+      .select('user_id');
+
+    if (reminderError) {
+      console.error(`Error recording due reminders for task ${task.id}:`, reminderError);
+      continue;
+    }
+    if (!reminders?.length) continue;
+
+    const dueDate = formatDueDate(task.due_date!);
+
+    await notifyUsers(supabase, {
+      type,
+      recipientIds: reminders.map((r) => r.user_id),
+      title: type === 'task_overdue' ? 'Task Overdue' : 'Task Due Soon',
+      message:
+        type === 'task_overdue'
+          ? `"${task.title}" was due ${dueDate}`
+          : `"${task.title}" is due ${dueDate}`,
+      boardId: board.id,
+      taskId: task.id,
+      emailData: {
+        boardName: board.name,
+        boardId: board.id,
+        taskTitle: task.title,
+        taskId: task.id,
+        dueDate,
+        overdue: type === 'task_overdue',
+      },
+    });
+
+    notified += reminders.length;
+  }
+
+  return { tasks: openTasks.length, notified };
+}
@@ -0,0 +1,59 @@
+/**
+ * Notifications
+ * Exports for producing in-app and email notifications, board and task subscriptions,
+ * the notification center, the email outbox sender and scheduled due date reminders
+ */
+
+export {
+  notifyUsers,
+  wantsEmail,
+  wantsInApp,
+  getNotificationChannels,
+  getEmailFrequency,
+  EMAIL_PREFERENCE_BY_TYPE,
+  EMAIL_TEMPLATE_BY_TYPE,
+  type EmailTemplate,
+  type NotificationEmailData,
+  type NotifyUsersOptions,
+  type QueuedEmail,
+} from './notify';
+
+export { NOTIFICATION_TYPE_OPTIONS } from './labels';
+
+export {
+  encodeNotificationCursor,
+  decodeNotificationCursor,
+  groupNotifications,
+  getNotificationHref,
+  type NotificationCursor,
+  type NotificationGroup,
+} from './center';
+
+export {
+  fetchSubscriptions,
+  getSubscriptionLevel,
+  getWatcherIds,
+  saveSubscription,
+  deleteSubscription,
+  MUTE_EXEMPT_TYPES,
+} from './subscriptions';
+
+export {
+  processEmailOutbox,
+  getNextDigestAt,
+  isDigestDue,
+  DIGEST_INTERVAL_MS,
+  MAX_EMAIL_ATTEMPTS,
+  type EmailOutboxResult,
+} from './outbox';
+
+export {
+  sendDueDateReminders,
+  getDueNotificationType,
+  getDueRecipientIds,
+  formatDueDate,
+  DUE_SOON_WINDOW_MS,
+  OVERDUE_LOOKBACK_MS,
+  type DueNotificationType,
+  type DueDateScanResult,
+} from './dueDates';
@@ -0,0 +1,38 @@
+/**
+ * Notification type labels
+ * Names and descriptions for the settings matrix and the notification list
+ */
+
+import type { NotificationType } from '@/types/board';
+
+export const NOTIFICATION_TYPE_OPTIONS: {
+  type: NotificationType;
+  label: string;
+  description: string;
+}[] = [
+  { type: 'task_assigned', label: 'Task assigned', description: 'You are assigned to a task' },
+  { type: 'comment_mention', label: 'Mentions', description: 'Someone @mentions you' },
+  {
+    type: 'comment_added',
+    label: 'Comments',
+    description: 'New comments on your tasks and anything you watch',
+  },
+  { type: 'task_due_soon', label: 'Due soon', description: 'Your task is due within a day' },
+  { type: 'task_overdue', label: 'Overdue', description: 'Your task is past its due date' },
+  {
+    type: 'task_moved',
+    label: 'Task moved',
+    description: 'Your tasks, or tasks you watch, change column',
+  },
+  {
+    type: 'task_updated',
+    label: 'Task updated',
+    description: 'Your tasks, or tasks you watch, are edited',
+  },
+  { type: 'board_invite', label: 'Board invitations', description: 'You are added to a board' },
+  {
+    type: 'board_role_changed',
+    label: 'Role changes',
+    description: 'Your role on a board changes',
+  },
+];
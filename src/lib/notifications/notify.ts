@@ -0,0 +1,206 @@
+/**
+ * Notification producer
+ * Creates in-app notifications; those the recipient wants emailed are queued for the
+ * email outbox (see outbox.ts) with their template data. Board and task subscriptions
+ * (see subscriptions.ts) add watchers and drop members who muted the board or task
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/lib/supabase/types';
+import type {
+  EmailFrequency,
+  NotificationChannels,
+  NotificationPreferences,
+  NotificationType,
+} from '@/types/board';
+import type { EmailTemplate, NotificationEmailData } from '@/lib/email/templates';
+import {
+  fetchSubscriptions,
+  getSubscriptionLevel,
+  getWatcherIds,
+  MUTE_EXEMPT_TYPES,
+} from './subscriptions';
+
+export type { EmailTemplate, NotificationEmailData };
+
+/**
+ * What a queued notification stores in notifications.email_data
+ */
+export interface QueuedEmail {
+  template: EmailTemplate;
+  data: NotificationEmailData;
+}
+
+export interface NotifyUsersOptions {
+  type: NotificationType;
+  recipientIds: string[];
+  /** User who triggered the notification; never notified about their own action */
+  actorId?: string;
+  title: string;
+  message: string;
+  boardId?: string | null;
+  taskId?: string | null;
+  /** Data forwarded to the email template, when the type has one */
+  emailData?: NotificationEmailData;
+  /** Also notify everyone watching the board or task */
+  includeWatchers?: boolean;
+  /** Users already told about this another way, e.g. mentioned in the same comment */
+  excludeIds?: string[];
+}
+
+/**
+ * Which preference toggle controls emails for a notification type
+ */
+export const EMAIL_PREFERENCE_BY_TYPE: Partial<
+  Record<NotificationType, Exclude<keyof NotificationPreferences, 'email_frequency' | 'channels'>>
+> = {
+  task_assigned: 'email_task_assigned',
+  task_due_soon: 'email_task_due',
+  task_overdue: 'email_task_due',
+  comment_added: 'email_comments',
+  comment_mention: 'email_comments',
+  board_invite: 'email_board_invites',
+};
+
+/**
+ * Which email template renders a notification type
+ */
+export const EMAIL_TEMPLATE_BY_TYPE: Partial<Record<NotificationType, EmailTemplate>> = {
+  task_assigned: 'task_assigned',
+  task_due_soon: 'task_due',
+  task_overdue: 'task_due',
+  comment_added: 'comment_added',
+  comment_mention: 'comment_added',
+  board_invite: 'board_invite',
+};
+
+/**
+ * Check whether a user wants emails for a notification type
+ * A per-type channel choice wins over the older grouped email_* toggles; missing
+ * preferences default to enabled, matching the profiles column default
+ */
+export function wantsEmail(
+  preferences: Partial<NotificationPreferences> | null | undefined,
+  type: NotificationType
+): boolean {
+  const key = EMAIL_PREFERENCE_BY_TYPE[type];
+  if (!key) return false;
+  return preferences?.channels?.[type]?.email ?? preferences?.[key] ?? true;
+}
+
+/**
+ * Check whether a user wants a notification type in the app; on unless turned off
+ */
+export function wantsInApp(
+  preferences: Partial<NotificationPreferences> | null | undefined,
+  type: NotificationType
+): boolean {
+  return preferences?.channels?.[type]?.in_app ?? true;
+}
+
+/**
+ * Where a user gets a notification type delivered
+ */
+export function getNotificationChannels(
+  preferences: Partial<NotificationPreferences> | null | undefined,
+  type: NotificationType
+): NotificationChannels {
+  return {
+    in_app: wantsInApp(preferences, type),
+    email: !!EMAIL_TEMPLATE_BY_TYPE[type] && wantsEmail(preferences, type),
+  };
+}
+
+/**
+ * How a user wants emails delivered; instant unless they chose a digest
+ */
+export function getEmailFrequency(
+  preferences: Partial<NotificationPreferences> | null | undefined
+): EmailFrequency {
+  const frequency = preferences?.email_frequency;
+  return frequency === 'hourly' || frequency === 'daily' ? frequency : 'instant';
+}
+
+/**
+ * Create notifications for a set of users and queue emails for those who opted in
+ * Recipients who muted the board or task are skipped, as is anyone who turned off
+ * both channels for the type
+ * Failures are logged rather than thrown so the triggering request still succeeds
+ * Rows are inserted without RETURNING: RLS only lets users read and update their own
+ * notifications, so emails are sent later by the outbox with the service role
+ */
+export async function notifyUsers(
+  supabase: SupabaseClient<Database>,
+  options: NotifyUsersOptions
+): Promise<void> {
+  const {
+    type,
+    actorId,
+    title,
+    message,
+    boardId = null,
+    taskId = null,
+    emailData,
+    includeWatchers = false,
+    excludeIds = [],
+  } = options;
+
+  let recipientIds = [...new Set(options.recipientIds)];
+
+  if (boardId) {
+    const subscriptions = await fetchSubscriptions(supabase, boardId, taskId);
+    if (includeWatchers) {
+      recipientIds = [...new Set([...recipientIds, ...getWatcherIds(subscriptions, taskId)])];
+    }
+    if (!MUTE_EXEMPT_TYPES.has(type)) {
+      recipientIds = recipientIds.filter(
+        (id) => getSubscriptionLevel(subscriptions, id, taskId) !== 'mute'
+      );
+    }
+  }
+
+  recipientIds = recipientIds.filter((id) => id !== actorId && !excludeIds.includes(id));
+  if (recipientIds.length === 0) return;
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, notification_preferences')
+    .in('id', recipientIds);
+
+  const channelsByUser = new Map(
+    recipientIds.map((userId) => {
+      const preferences = profiles?.find((p) => p.id === userId)?.notification_preferences as
+        | Partial<NotificationPreferences>
+        | null
+        | undefined;
+      return [userId, getNotificationChannels(preferences, type)] as const;
+    })
+  );
+
+  const template = EMAIL_TEMPLATE_BY_TYPE[type];
+  const queuedEmail: QueuedEmail | null = template ? { template, data: emailData ?? {} } : null;
+
+  const rows = recipientIds
+    .filter((userId) => {
+      const channels = channelsByUser.get(userId)!;
+      return channels.in_app || channels.email;
+    })
+    .map((userId) => ({
+      user_id: userId,
+      type,
+      title,
+      message,
+      board_id: boardId,
+      task_id: taskId,
+      in_app: channelsByUser.get(userId)!.in_app,
+      // The recipient's name is filled in when the email is rendered
+      email_data: channelsByUser.get(userId)!.email ? (queuedEmail as unknown as Json) : null,
+    }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('notifications').insert(rows);
+
+  if (error) {
+    console.error(`Error creating ${type} notifications:`, error);
+  }
+}
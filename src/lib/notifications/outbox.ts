@@ -0,0 +1,233 @@
+/**
+ * Email outbox
+ * Sends queued notification emails: one email per notification for instant delivery,
+ * or one digest per user once their hourly/daily period has passed
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import type { EmailFrequency, NotificationPreferences, NotificationType } from '@/types/board';
+import type { EmailTransport } from '@/lib/email/types';
+import { renderDigestEmail, renderNotificationEmail } from '@/lib/email/templates';
+import { getEmailFrequency, wantsEmail, type QueuedEmail } from './notify';
+
+/** Time between digests for each frequency */
+export const DIGEST_INTERVAL_MS: Record<Exclude<EmailFrequency, 'instant'>, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+/** A notification is given up after this many failed sends */
+export const MAX_EMAIL_ATTEMPTS = 5;
+
+/** Queued notifications claimed per run */
+const OUTBOX_BATCH_SIZE = 500;
+
+/** A claim older than this is treated as abandoned by a run that died */
+const OUTBOX_CLAIM_TTL = '15 minutes';
+
+export interface EmailOutboxResult {
+  /** Single notification emails sent */
+  sent: number;
+  /** Digest emails sent */
+  digests: number;
+  /** Notifications dropped because the recipient no longer wants the email */
+  skipped: number;
+  /** Notifications whose send failed this run */
+  failed: number;
+}
+
+type QueuedNotification = {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  board_id: string | null;
+  task_id: string | null;
+  email_data: unknown;
+  email_attempts: number;
+  created_at: string;
+};
+
+/**
+ * When a user's next digest may go out; null when none has been sent yet
+ */
+export function getNextDigestAt(
+  frequency: Exclude<EmailFrequency, 'instant'>,
+  lastSentAt: string | null
+): Date | null {
+  if (!lastSentAt) return null;
+  return new Date(new Date(lastSentAt).getTime() + DIGEST_INTERVAL_MS[frequency]);
+}
+
+/**
+ * Whether a user's next digest is due
+ */
+export function isDigestDue(
+  frequency: Exclude<EmailFrequency, 'instant'>,
+  lastSentAt: string | null,
+  now: Date = new Date()
+): boolean {
+  const nextDigestAt = getNextDigestAt(frequency, lastSentAt);
+  return !nextDigestAt || now.getTime() >= nextDigestAt.getTime();
+}
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, 1000);
+}
+
+/**
+ * Send everything in the email outbox that is due
+ * Rows are claimed first so an overlapping run never sends them twice; every row is
+ * released again once sent, skipped or failed. Rows held for a later digest are left out
+ * of the claim until it is due, so they never crowd instant emails out of a batch
+ * Needs a service role client: it reads and updates every user's notifications
+ */
+export async function processEmailOutbox(
+  supabase: SupabaseClient<Database>,
+  transport: EmailTransport,
+  now: Date = new Date()
+): Promise<EmailOutboxResult> {
+  const result: EmailOutboxResult = { sent: 0, digests: 0, skipped: 0, failed: 0 };
+
+  const { data: claimed, error } = await supabase.rpc('claim_email_outbox', {
+    p_batch_size: OUTBOX_BATCH_SIZE,
+    p_max_attempts: MAX_EMAIL_ATTEMPTS,
+    p_claim_ttl: OUTBOX_CLAIM_TTL,
+  });
+
+  if (error) throw error;
+  if (!claimed?.length) return result;
+
+  const queued: QueuedNotification[] = [...claimed].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at)
+  );
+
+  const userIds = [...new Set(queued.map((notification) => notification.user_id))];
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, email, display_name, notification_preferences, last_digest_sent_at')
+    .in('id', userIds);
+
+  const markSent = (ids: string[]) =>
+    supabase
+      .from('notifications')
+      .update({ email_sent: true, email_error: null, email_claimed_at: null })
+      .in('id', ids);
+
+  // Held for a later digest: not claimed again before `sendAfter`
+  const hold = (ids: string[], sendAfter: Date) =>
+    supabase
+      .from('notifications')
+      .update({ email_claimed_at: null, email_send_after: sendAfter.toISOString() })
+      .in('id', ids);
+
+  // Preferences are checked again at send time; the user may have opted out since
+  const skip = async (ids: string[], reason: string) => {
+    await supabase
+      .from('notifications')
+      .update({ email_data: null, email_error: reason, email_claimed_at: null })
+      .in('id', ids);
+    result.skipped += ids.length;
+  };
+
+  const recordFailure = async (notifications: QueuedNotification[], error: unknown) => {
+    console.error(`Error sending email via ${transport.name}:`, error);
+    for (const notification of notifications) {
+      await supabase
+        .from('notifications')
+        .update({
+          email_attempts: notification.email_attempts + 1,
+          email_error: errorMessage(error),
+          email_claimed_at: null,
+        })
+        .eq('id', notification.id);
+    }
+    result.failed += notifications.length;
+  };
+
+  for (const userId of userIds) {
+    const profile = profiles?.find((p) => p.id === userId);
+    const preferences =
+      (profile?.notification_preferences as Partial<NotificationPreferences> | null) ?? null;
+    const userQueue = queued.filter((notification) => notification.user_id === userId);
+
+    if (!profile?.email) {
+      await skip(
+        userQueue.map((notification) => notification.id),
+        'Recipient has no email address'
+      );
+      continue;
+    }
+
+    const wanted = userQueue.filter((notification) =>
+      wantsEmail(preferences, notification.type as NotificationType)
+    );
+    const unwanted = userQueue.filter((notification) => !wanted.includes(notification));
+    if (unwanted.length > 0) {
+      await skip(
+        unwanted.map((notification) => notification.id),
+        'Email disabled in preferences'
+      );
+    }
+    if (wanted.length === 0) continue;
+
+    const recipientName = profile.display_name || undefined;
+    const frequency = getEmailFrequency(preferences);
+
+    if (frequency === 'instant') {
+      for (const notification of wanted) {
+        const { template, data } = notification.email_data as unknown as QueuedEmail;
+        try {
+          await transport.send({
+            to: profile.email,
+            ...renderNotificationEmail(template, { ...data, recipientName }),
+          });
+          await markSent([notification.id]);
+          result.sent += 1;
+        } catch (sendError) {
+          await recordFailure([notification], sendError);
+        }
+      }
+      continue;
+    }
+
+    const nextDigestAt = getNextDigestAt(frequency, profile.last_digest_sent_at);
+    if (nextDigestAt && now < nextDigestAt) {
+      await hold(
+        wanted.map((notification) => notification.id),
+        nextDigestAt
+      );
+      continue;
+    }
+
+    try {
+      await transport.send({
+        to: profile.email,
+        ...renderDigestEmail({
+          recipientName,
+          frequency,
+          items: wanted.map((notification) => ({
+            title: notification.title,
+            message: notification.message,
+            boardId: notification.board_id,
+            taskId: notification.task_id,
+            createdAt: notification.created_at,
+          })),
+        }),
+      });
+      await markSent(wanted.map((notification) => notification.id));
+      await supabase
+        .from('profiles')
+        .update({ last_digest_sent_at: now.toISOString() })
+        .eq('id', userId);
+      result.digests += 1;
+    } catch (sendError) {
+      await recordFailure(wanted, sendError);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,109 @@
+/**
+ * Notification subscriptions
+ * Members watch or mute a board, or a single task inside it; the task setting wins
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import type { NotificationSubscription, NotificationType, SubscriptionLevel } from '@/types/board';
+
+type SubscriptionRule = Pick<NotificationSubscription, 'user_id' | 'task_id' | 'level'>;
+
+/** About the membership itself, so they reach members who muted the board */
+export const MUTE_EXEMPT_TYPES: ReadonlySet<NotificationType> = new Set([
+  'board_invite',
+  'board_role_changed',
+]);
+
+/**
+ * A user's effective level for a board, or for a task when taskId is given
+ * Null when they have neither a task nor a board subscription
+ */
+export function getSubscriptionLevel(
+  subscriptions: SubscriptionRule[],
+  userId: string,
+  taskId?: string | null
+): SubscriptionLevel | null {
+  const own = subscriptions.filter((s) => s.user_id === userId);
+  const taskRule = taskId ? own.find((s) => s.task_id === taskId) : undefined;
+  const boardRule = own.find((s) => s.task_id === null);
+  return taskRule?.level ?? boardRule?.level ?? null;
+}
+
+/**
+ * Fetch the subscriptions that apply to a board, or to one task on it
+ */
+export async function fetchSubscriptions(
+  supabase: SupabaseClient<Database>,
+  boardId: string,
+  taskId?: string | null
+): Promise<SubscriptionRule[]> {
+  const query = supabase
+    .from('notification_subscriptions')
+    .select('user_id, task_id, level')
+    .eq('board_id', boardId);
+
+  const { data, error } = taskId
+    ? await query.or(`task_id.is.null,task_id.eq.${taskId}`)
+    : await query.is('task_id', null);
+
+  if (error) {
+    console.error('Error fetching notification subscriptions:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Users whose effective level is watch
+ */
+export function getWatcherIds(subscriptions: SubscriptionRule[], taskId?: string | null): string[] {
+  const userIds = [...new Set(subscriptions.map((s) => s.user_id))];
+  return userIds.filter((id) => getSubscriptionLevel(subscriptions, id, taskId) === 'watch');
+}
+
+/**
+ * Set a user's level on a board (taskId null) or a task
+ */
+export async function saveSubscription(
+  supabase: SupabaseClient<Database>,
+  subscription: {
+    userId: string;
+    boardId: string;
+    taskId: string | null;
+    level: SubscriptionLevel;
+  }
+): Promise<NotificationSubscription> {
+  const { userId, boardId, taskId, level } = subscription;
+
+  const { data, error } = await supabase
+    .from('notification_subscriptions')
+    .upsert(
+      { user_id: userId, board_id: boardId, task_id: taskId, level },
+      { onConflict: 'user_id,board_id,task_id' }
+    )
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Remove a user's board (taskId null) or task subscription, restoring the default
+ */
+export async function deleteSubscription(
+  supabase: SupabaseClient<Database>,
+  subscription: { userId: string; boardId: string; taskId: string | null }
+): Promise<void> {
+  const { userId, boardId, taskId } = subscription;
+
+  const query = supabase
+    .from('notification_subscriptions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('board_id', boardId);
+
+  const { error } = taskId ? await query.eq('task_id', taskId) : await query.is('task_id', null);
+  if (error) throw error;
+}
@@ -0,0 +1,224 @@
+import { createMutationQueue, getMutationRequest, type MutationQueueOptions } from '../queue';
+import { createMemoryStore } from '../store';
+import { getTaskSnapshot } from '@/lib/undo';
+import type { NewQueuedMutation, ReplayResponse } from '../types';
+import { makeTask } from '@/test-utils/tasks';
+
+const base = { ...getTaskSnapshot(makeTask()), updated_at: '2026-10-01T00:00:00Z' };
+
+const update = (body: Record<string, unknown>, taskId = 'task-1'): NewQueuedMutation => ({
+  boardId: 'board-1',
+  kind: 'updateTask',
+  taskId,
+  body,
+  base: taskId.startsWith('temp-') ? null : base,
+  label: 'Task',
+});
+
+const ok = (data: Record<string, unknown> = {}): ReplayResponse => ({
+  ok: true,
+  status: 200,
+  data,
+});
+
+function setup(overrides: Partial<MutationQueueOptions> = {}) {
+  const store = createMemoryStore();
+  const send = jest.fn<Promise<ReplayResponse>, [ReturnType<typeof getMutationRequest>]>(async () =>
+    ok()
+  );
+  const fetchTask = jest.fn(async () => makeTask());
+  const queue = createMutationQueue({ store, send, fetchTask, ...overrides });
+  return { store, send, fetchTask, queue };
+}
+
+describe('createMutationQueue', () => {
+  it('should replay queued changes in order and empty the queue', async () => {
+    const { queue, send, store } = setup();
+    await queue.enqueue(update({ title: 'First' }));
+    await queue.enqueue(update({ priority: 'high' }));
+    expect(queue.getState().pending).toBe(2);
+    expect(queue.hasPending('board-1')).toBe(true);
+
+    const result = await queue.replay();
+
+    expect(send.mock.calls.map(([request]) => request.body)).toEqual([
+      { title: 'First' },
+      { priority: 'high' },
+    ]);
+    expect(send.mock.calls[0][0]).toMatchObject({
+      url: '/api/boards/board-1/tasks/task-1',
+      method: 'PUT',
+    });
+    expect(result).toMatchObject({ synced: 2, boardIds: ['board-1'], interrupted: false });
+    expect(queue.getState().pending).toBe(0);
+    expect(await store.getAll()).toEqual([]);
+  });
+
+  it('should stop and keep the remaining changes when the server cannot be reached', async () => {
+    const { queue, send } = setup();
+    send.mockResolvedValueOnce(ok()).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await queue.enqueue(update({ title: 'First' }));
+    await queue.enqueue(update({ title: 'Second' }));
+    await queue.enqueue(update({ title: 'Third' }));
+
+    const result = await queue.replay();
+
+    expect(result).toMatchObject({ synced: 1, interrupted: true });
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(queue.getState().pending).toBe(2);
+  });
+
+  it('should retry server errors later and drop rejected changes', async () => {
+    const { queue, send } = setup();
+    send
+      .mockResolvedValueOnce({ ok: false, status: 400, data: { error: 'Invalid priority' } })
+      .mockResolvedValueOnce({ ok: false, status: 503, data: {} });
+    await queue.enqueue(update({ priority: 'urgent' }));
+    await queue.enqueue(update({ title: 'Later' }));
+
+    const result = await queue.replay();
+
+    expect(result.dropped).toEqual([expect.objectContaining({ reason: 'Invalid priority' })]);
+    expect(result.interrupted).toBe(true);
+    expect(queue.getState().pending).toBe(1);
+  });
+
+  it('should give tasks created offline their real id in later changes', async () => {
+    const { queue, send } = setup();
+    send.mockResolvedValueOnce(ok({ task: makeTask({ id: 'task-9' }) }));
+    await queue.enqueue({
+      boardId: 'board-1',
+      kind: 'createTask',
+      taskId: 'temp-1',
+      body: { title: 'New', status_id: 'status-1' },
+      base: null,
+      label: 'New',
+    });
+    await queue.enqueue(update({ title: 'Renamed' }, 'temp-1'));
+    await queue.enqueue({
+      boardId: 'board-1',
+      kind: 'reorderTasks',
+      taskId: null,
+      body: { tasks: [{ id: 'temp-1', order: 0 }] },
+      base: null,
+      label: 'Task order',
+    });
+
+    await queue.replay();
+
+    expect(send.mock.calls.map(([request]) => [request.method, request.url])).toEqual([
+      ['POST', '/api/boards/board-1/tasks'],
+      ['PUT', '/api/boards/board-1/tasks/task-9'],
+      ['PATCH', '/api/boards/board-1/tasks/reorder'],
+    ]);
+    expect(send.mock.calls[2][0].body).toEqual({ tasks: [{ id: 'task-9', order: 0 }] });
+  });
+
+  it('should cancel everything queued for a task created and deleted offline', async () => {
+    const { queue, send } = setup();
+    await queue.enqueue({
+      boardId: 'board-1',
+      kind: 'createTask',
+      taskId: 'temp-1',
+      body: { title: 'Oops' },
+      base: null,
+      label: 'Oops',
+    });
+    await queue.enqueue(update({ title: 'Still oops' }, 'temp-1'));
+
+    expect(
+      await queue.enqueue({
+        boardId: 'board-1',
+        kind: 'deleteTask',
+        taskId: 'temp-1',
+        body: null,
+        base: null,
+        label: 'Oops',
+      })
+    ).toBeNull();
+    expect(queue.getState().pending).toBe(0);
+
+    await queue.replay();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should hold conflicting changes until the user picks a side', async () => {
+    const { queue, send, store } = setup({
+      fetchTask: jest.fn(async () =>
+        makeTask({ title: 'Their title', updated_at: '2026-10-02T00:00:00Z' })
+      ),
+    });
+    await queue.enqueue(update({ title: 'My title', priority: 'low' }));
+
+    const result = await queue.replay();
+
+    // The non-conflicting part is sent straight away
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0].body).toEqual({ priority: 'low' });
+    expect(result.conflicts).toHaveLength(1);
+    expect(queue.getState()).toMatchObject({ pending: 0, conflicts: [expect.any(Object)] });
+    expect(queue.hasPending('board-1')).toBe(false);
+    expect((await store.getAll())[0].conflict?.type).toBe('concurrent_edit');
+
+    await queue.resolve(queue.getState().conflicts[0].id, 'mine');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0].body).toEqual({ title: 'My title' });
+    expect(queue.getState().conflicts).toEqual([]);
+  });
+
+  it('should discard the change when the user keeps the other version', async () => {
+    const { queue, send } = setup({
+      fetchTask: jest.fn(async () =>
+        makeTask({ status_id: 'status-3', updated_at: '2026-10-02T00:00:00Z' })
+      ),
+    });
+    await queue.enqueue({
+      boardId: 'board-1',
+      kind: 'moveTask',
+      taskId: 'task-1',
+      body: { status_id: 'status-2', order: 0 },
+      base,
+      label: 'Task',
+    });
+
+    await queue.replay();
+    expect(send).not.toHaveBeenCalled();
+
+    await queue.resolve(queue.getState().conflicts[0].id, 'theirs');
+    expect(send).not.toHaveBeenCalled();
+    expect(queue.getState().conflicts).toEqual([]);
+  });
+
+  it('should pick up changes persisted by an earlier session', async () => {
+    const first = setup();
+    await first.queue.enqueue(update({ title: 'Before reload' }));
+
+    const send = jest.fn(async () => ok());
+    const queue = createMutationQueue({
+      store: first.store,
+      send,
+      fetchTask: jest.fn(async () => makeTask()),
+    });
+    await queue.replay();
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({ body: { title: 'Before reload' } })
+    );
+  });
+
+  it('should notify subscribers and replay listeners', async () => {
+    const { queue } = setup();
+    const listener = jest.fn();
+    const onReplay = jest.fn();
+    queue.subscribe(listener);
+    queue.onReplay(onReplay);
+
+    await queue.enqueue(update({ title: 'Changed' }));
+    await queue.replay();
+
+    expect(listener).toHaveBeenCalled();
+    expect(onReplay).toHaveBeenCalledWith(expect.objectContaining({ synced: 1 }));
+    expect(queue.getState().syncing).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { getConflictFields, reconcileMutation } from '../reconcile';
+import { getTaskSnapshot } from '@/lib/undo';
+import type { QueuedMutation } from '../types';
+import type { Task } from '@/types/board';
+import { makeTask } from '@/test-utils/tasks';
+
+const base = { ...getTaskSnapshot(makeTask()), updated_at: '2026-10-01T00:00:00Z' };
+
+const makeMutation = (overrides: Partial<QueuedMutation> = {}): QueuedMutation => ({
+  id: 'mutation-1',
+  sequence: 1,
+  boardId: 'board-1',
+  kind: 'updateTask',
+  taskId: 'task-1',
+  body: { title: 'Offline title' },
+  base,
+  label: 'Task',
+  queuedAt: '2026-10-02T10:00:00Z',
+  conflict: null,
+  ...overrides,
+});
+
+/** The task after someone else's edit while this client was offline */
+const edited = (overrides: Partial<Task>, updatedAt = '2026-10-02T09:00:00Z') =>
+  makeTask({ ...overrides, updated_at: updatedAt });
+
+describe('reconcileMutation', () => {
+  it('should send creates, reorders and changes to tasks created offline as they are', () => {
+    const create = makeMutation({ kind: 'createTask', base: null, body: { title: 'New' } });
+    expect(reconcileMutation(create, null)).toEqual({ action: 'send', body: { title: 'New' } });
+    expect(reconcileMutation(makeMutation({ base: null }), null).action).toBe('send');
+  });
+
+  it('should send the change when nobody else touched the task', () => {
+    expect(reconcileMutation(makeMutation(), makeTask())).toEqual({
+      action: 'send',
+      body: { title: 'Offline title' },
+    });
+  });
+
+  it('should send the change when others edited different fields', () => {
+    const server = edited({ priority: 'high', description: 'Theirs' });
+    expect(reconcileMutation(makeMutation(), server).action).toBe('send');
+  });
+
+  it('should send the change when the other edit made the same change', () => {
+    expect(reconcileMutation(makeMutation(), edited({ title: 'Offline title' })).action).toBe(
+      'send'
+    );
+  });
+
+  it('should drop changes to tasks deleted in the meantime', () => {
+    expect(reconcileMutation(makeMutation(), null)).toEqual({
+      action: 'drop',
+      reason: 'The task was deleted while you were offline',
+    });
+    expect(reconcileMutation(makeMutation({ kind: 'deleteTask', body: null }), null)).toEqual({
+      action: 'drop',
+      reason: 'The task was already deleted',
+    });
+  });
+
+  it('should merge tags edited on both sides', () => {
+    const mutation = makeMutation({ body: { tags: ['bug', 'ui'] } });
+    const result = reconcileMutation(mutation, edited({ tags: ['backend'] }));
+    expect(result).toEqual({ action: 'send', body: { tags: ['bug', 'ui', 'backend'] } });
+  });
+
+  it('should keep the newer description when both sides edited it', () => {
+    const mutation = makeMutation({ body: { description: 'Mine' } });
+    expect(reconcileMutation(mutation, edited({ description: 'Theirs' }))).toEqual({
+      action: 'send',
+      body: { description: 'Mine' },
+    });
+    expect(
+      reconcileMutation(mutation, edited({ description: 'Theirs' }, '2026-10-02T11:00:00Z'))
+    ).toEqual({ action: 'send', body: { description: 'Theirs' } });
+  });
+
+  it('should report overlapping edits to other fields as a manual conflict', () => {
+    const mutation = makeMutation({ body: { title: 'Offline title', priority: 'low' } });
+    const result = reconcileMutation(mutation, edited({ title: 'Their title' }));
+
+    expect(result.action).toBe('conflict');
+    if (result.action !== 'conflict') return;
+    expect(result.conflict.type).toBe('concurrent_edit');
+    expect(result.conflict.localVersion.data).toEqual({ title: 'Offline title' });
+    expect(result.conflict.remoteVersion.data).toEqual({ title: 'Their title' });
+    expect(getConflictFields(result.conflict)).toEqual(['title']);
+    // The rest of the update still goes through
+    expect(result.body).toEqual({ priority: 'low' });
+  });
+
+  it('should report a move to a task others moved elsewhere', () => {
+    const mutation = makeMutation({
+      kind: 'moveTask',
+      body: { status_id: 'status-2', order: 0 },
+    });
+    const result = reconcileMutation(mutation, edited({ status_id: 'status-3' }));
+
+    expect(result.action).toBe('conflict');
+    if (result.action !== 'conflict') return;
+    expect(result.conflict.type).toBe('move_edit');
+    expect(result.body).toBeNull();
+  });
+
+  it('should report deleting a task others changed', () => {
+    const mutation = makeMutation({ kind: 'deleteTask', body: null });
+    expect(reconcileMutation(mutation, makeTask()).action).toBe('send');
+
+    const result = reconcileMutation(mutation, edited({ title: 'Renamed' }));
+    expect(result.action).toBe('conflict');
+    if (result.action !== 'conflict') return;
+    expect(result.conflict.type).toBe('delete_edit');
+    expect(getConflictFields(result.conflict)).toEqual(['title']);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Browser mutation queue
+ * One queue per tab, persisted in IndexedDB and replayed through the task API
+ */
+
+import { fetchWithCsrf } from '@/lib/security/fetch-with-csrf';
+import type { Task } from '@/types/board';
+import { createMutationQueue, type MutationQueue } from './queue';
+import { createDefaultStore } from './store';
+
+let queue: MutationQueue | null = null;
+
+/**
+ * Whether the browser reports being offline
+ * A reported connection can still fail, so requests also queue on network errors
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * fetch rejects with a TypeError when the request never reached the server
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+export function getMutationQueue(): MutationQueue {
+  queue ??= createMutationQueue({
+    store: createDefaultStore(),
+    send: async ({ url, method, body }) => {
+      const response = await fetchWithCsrf(url, {
+        method,
+        ...(body && {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      return { ok: response.ok, status: response.status, data };
+    },
+    fetchTask: async (boardId, taskId) => {
+      const response = await fetch(`/api/boards/${boardId}/tasks/${taskId}`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error('Failed to fetch task');
+      const { task } = await response.json();
+      return task as Task;
+    },
+  });
+  return queue;
+}
@@ -0,0 +1,31 @@
+/**
+ * Offline editing
+ * Queue for task changes made without a connection, replayed when it returns
+ */
+
+export type {
+  QueuedMutationKind,
+  QueuedTaskBase,
+  QueuedMutation,
+  NewQueuedMutation,
+  MutationStore,
+  ReplayResponse,
+  DroppedMutation,
+  ReplayResult,
+  MutationQueueState,
+} from './types';
+
+export { createIndexedDbStore, createMemoryStore, createDefaultStore } from './store';
+
+export { reconcileMutation, getConflictFields, type Reconciliation } from './reconcile';
+
+export {
+  TEMP_TASK_PREFIX,
+  isTempTaskId,
+  getMutationRequest,
+  createMutationQueue,
+  type MutationQueue,
+  type MutationQueueOptions,
+} from './queue';
+
+export { isOffline, isNetworkError, getMutationQueue } from './client';
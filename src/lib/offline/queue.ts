@@ -0,0 +1,327 @@
+/**
+ * Offline mutation queue
+ * Persists task changes made offline and replays them in order once the server
+ * can be reached again, reconciling each one with the task's current state
+ */
+
+import type { Task } from '@/types/board';
+import { reconcileMutation } from './reconcile';
+import type {
+  DroppedMutation,
+  MutationQueueState,
+  MutationStore,
+  NewQueuedMutation,
+  QueuedMutation,
+  ReplayResponse,
+  ReplayResult,
+} from './types';
+
+/** Prefix of the ids given to tasks created optimistically */
+export const TEMP_TASK_PREFIX = 'temp-';
+
+export function isTempTaskId(taskId: string | null): boolean {
+  return !!taskId && taskId.startsWith(TEMP_TASK_PREFIX);
+}
+
+/**
+ * Request a queued mutation replays as
+ */
+export function getMutationRequest(mutation: QueuedMutation): {
+  url: string;
+  method: string;
+  body: Record<string, unknown> | null;
+} {
+  const tasksUrl = `/api/boards/${mutation.boardId}/tasks`;
+  const { body } = mutation;
+
+  switch (mutation.kind) {
+    case 'createTask':
+      return { url: tasksUrl, method: 'POST', body };
+    case 'updateTask':
+      return { url: `${tasksUrl}/${mutation.taskId}`, method: 'PUT', body };
+    case 'deleteTask':
+      return { url: `${tasksUrl}/${mutation.taskId}`, method: 'DELETE', body: null };
+    case 'moveTask':
+      return { url: `${tasksUrl}/${mutation.taskId}/move`, method: 'PATCH', body };
+    case 'reorderTasks':
+      return { url: `${tasksUrl}/reorder`, method: 'PATCH', body };
+  }
+}
+
+export interface MutationQueueOptions {
+  store: MutationStore;
+  /** Send a request; throws when the server cannot be reached */
+  send: (request: ReturnType<typeof getMutationRequest>) => Promise<ReplayResponse>;
+  /** Current server task, or null when it no longer exists; throws when offline */
+  fetchTask: (boardId: string, taskId: string) => Promise<Task | null>;
+  now?: () => Date;
+}
+
+export type MutationQueue = ReturnType<typeof createMutationQueue>;
+
+/**
+ * Replace a replayed create's temp id in the changes queued after it
+ */
+function remapTaskId(mutation: QueuedMutation, tempId: string, taskId: string): QueuedMutation {
+  const tasks = mutation.kind === 'reorderTasks' ? mutation.body?.tasks : undefined;
+  const referenced =
+    mutation.taskId === tempId ||
+    (Array.isArray(tasks) && tasks.some((task: { id: string }) => task.id === tempId));
+  if (!referenced) return mutation;
+
+  return {
+    ...mutation,
+    taskId: mutation.taskId === tempId ? taskId : mutation.taskId,
+    body: Array.isArray(tasks)
+      ? {
+          ...mutation.body,
+          tasks: tasks.map((task: { id: string; order: number }) =>
+            task.id === tempId ? { ...task, id: taskId } : task
+          ),
+        }
+      : mutation.body,
+  };
+}
+
+function getErrorMessage(response: ReplayResponse): string {
+  return typeof response.data.error === 'string'
+    ? response.data.error
+    : `The server rejected the change (${response.status})`;
+}
+
+export function createMutationQueue({
+  store,
+  send,
+  fetchTask,
+  now = () => new Date(),
+}: MutationQueueOptions) {
+  let mutations: QueuedMutation[] = [];
+  let syncing = false;
+  let state: MutationQueueState = { pending: 0, conflicts: [], syncing: false };
+  let replaying: Promise<ReplayResult> | null = null;
+  const listeners = new Set<() => void>();
+  const replayListeners = new Set<(result: ReplayResult) => void>();
+
+  const loaded = store
+    .getAll()
+    .then((stored) => {
+      mutations = stored.sort((a, b) => a.sequence - b.sequence);
+    })
+    .catch(() => undefined)
+    .finally(() => notify());
+
+  function notify() {
+    state = {
+      pending: mutations.filter((mutation) => !mutation.conflict).length,
+      conflicts: mutations.filter((mutation) => mutation.conflict),
+      syncing,
+    };
+    listeners.forEach((listener) => listener());
+  }
+
+  async function save(mutation: QueuedMutation) {
+    mutations = mutations.map((m) => (m.id === mutation.id ? mutation : m));
+    await store.put(mutation);
+  }
+
+  async function remove(ids: string[]) {
+    mutations = mutations.filter((mutation) => !ids.includes(mutation.id));
+    await Promise.all(ids.map((id) => store.delete(id)));
+  }
+
+  async function enqueue(input: NewQueuedMutation): Promise<QueuedMutation | null> {
+    await loaded;
+
+    // Deleting a task that was only ever created offline cancels everything queued for it
+    if (input.kind === 'deleteTask' && isTempTaskId(input.taskId)) {
+      await remove(
+        mutations
+          .filter((mutation) => mutation.taskId === input.taskId)
+          .map((mutation) => mutation.id)
+      );
+      notify();
+      return null;
+    }
+
+    const mutation: QueuedMutation = {
+      ...input,
+      id: crypto.randomUUID(),
+      sequence: Math.max(now().getTime(), (mutations[mutations.length - 1]?.sequence ?? 0) + 1),
+      queuedAt: now().toISOString(),
+      conflict: null,
+    };
+    mutations = [...mutations, mutation];
+    await store.put(mutation);
+    notify();
+    return mutation;
+  }
+
+  /**
+   * Replay one mutation; false when the server could not be reached
+   */
+  async function replayOne(mutation: QueuedMutation, result: ReplayResult): Promise<boolean> {
+    const { kind, boardId, taskId } = mutation;
+    const drop = async (reason: string) => {
+      result.dropped.push({ mutation, reason } satisfies DroppedMutation);
+      await remove([mutation.id]);
+    };
+
+    let server: Task | null = null;
+    if (mutation.base && taskId && !isTempTaskId(taskId)) {
+      try {
+        server = await fetchTask(boardId, taskId);
+      } catch {
+        return false;
+      }
+    }
+
+    const reconciliation = reconcileMutation(mutation, server);
+    if (reconciliation.action === 'drop') {
+      await drop(reconciliation.reason);
+      return true;
+    }
+
+    let response: ReplayResponse | null = null;
+    if (reconciliation.action === 'send' || reconciliation.body) {
+      try {
+        response = await send(getMutationRequest({ ...mutation, body: reconciliation.body }));
+      } catch {
+        return false;
+      }
+
+      // Server trouble is retried on the next replay; rejected changes are dropped
+      if (response.status >= 500) return false;
+      if (!response.ok && !(kind === 'deleteTask' && response.status === 404)) {
+        await drop(getErrorMessage(response));
+        return true;
+      }
+      result.boardIds.push(boardId);
+    }
+
+    if (reconciliation.action === 'conflict') {
+      const conflicted: QueuedMutation = {
+        ...mutation,
+        conflict: reconciliation.conflict,
+        // Keeping this side later resends only the conflicting part of an update
+        body:
+          kind === 'updateTask'
+            ? Object.fromEntries(
+                Object.keys(reconciliation.conflict.localVersion.data).map((field) => [
+                  field,
+                  mutation.body?.[field],
+                ])
+              )
+            : mutation.body,
+      };
+      await save(conflicted);
+      result.conflicts.push(conflicted);
+      return true;
+    }
+
+    await remove([mutation.id]);
+    result.synced++;
+
+    const created = response?.data.task as Task | undefined;
+    if (kind === 'createTask' && taskId && created?.id) {
+      const remapped = mutations.map((m) => remapTaskId(m, taskId, created.id));
+      await Promise.all(
+        remapped.filter((m, index) => m !== mutations[index]).map((m) => store.put(m))
+      );
+      mutations = remapped;
+    }
+    return true;
+  }
+
+  async function runReplay(): Promise<ReplayResult> {
+    await loaded;
+    const result: ReplayResult = {
+      synced: 0,
+      boardIds: [],
+      dropped: [],
+      conflicts: [],
+      interrupted: false,
+    };
+
+    syncing = true;
+    notify();
+    try {
+      // Changes queued during the replay are picked up by the same loop
+      let next = mutations.find((mutation) => !mutation.conflict);
+      while (next) {
+        if (!(await replayOne(next, result))) {
+          result.interrupted = true;
+          break;
+        }
+        notify();
+        next = mutations.find((mutation) => !mutation.conflict);
+      }
+    } finally {
+      syncing = false;
+      notify();
+    }
+
+    result.boardIds = [...new Set(result.boardIds)];
+    replayListeners.forEach((listener) => listener(result));
+    return result;
+  }
+
+  return {
+    enqueue,
+
+    /**
+     * Send queued changes in order; concurrent calls share one replay
+     */
+    replay(): Promise<ReplayResult> {
+      replaying ??= runReplay().finally(() => {
+        replaying = null;
+      });
+      return replaying;
+    },
+
+    /**
+     * Settle a conflict: `mine` resends this client's change, `theirs` discards it
+     * Throws when `mine` cannot reach the server or is rejected
+     */
+    async resolve(id: string, choice: 'mine' | 'theirs'): Promise<void> {
+      const mutation = mutations.find((m) => m.id === id);
+      if (!mutation) return;
+
+      if (choice === 'mine') {
+        const response = await send(getMutationRequest(mutation));
+        if (!response.ok && !(mutation.kind === 'deleteTask' && response.status === 404)) {
+          throw new Error(getErrorMessage(response));
+        }
+      }
+
+      await remove([id]);
+      notify();
+    },
+
+    /**
+     * Whether changes for the board are still waiting to be sent
+     * New changes go through the queue too then, so the server sees them in order
+     */
+    hasPending(boardId: string): boolean {
+      return mutations.some((mutation) => mutation.boardId === boardId && !mutation.conflict);
+    },
+
+    async clear(): Promise<void> {
+      mutations = [];
+      await store.clear();
+      notify();
+    },
+
+    getState: (): MutationQueueState => state,
+
+    subscribe(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    /** Called after every replay, whoever started it */
+    onReplay(listener: (result: ReplayResult) => void): () => void {
+      replayListeners.add(listener);
+      return () => replayListeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Replay reconciliation
+ * Decides what a queued change should do now that the task may have been
+ * changed by others while this client was offline
+ */
+
+import {
+  canAutoMerge,
+  mergeArrays,
+  resolveConflict,
+  type Conflict,
+  type ConflictType,
+  type VersionedData,
+} from '@/lib/conflictResolution';
+import {
+  findChangedFields,
+  getTaskSnapshot,
+  pickFields,
+  toTaskInput,
+  type TaskSnapshot,
+} from '@/lib/undo';
+import type { Task } from '@/types/board';
+import type { QueuedMutation } from './types';
+
+type TaskField = keyof TaskSnapshot;
+
+export type Reconciliation =
+  | { action: 'send'; body: Record<string, unknown> | null }
+  | { action: 'drop'; reason: string }
+  | {
+      action: 'conflict';
+      conflict: Conflict<Partial<TaskSnapshot>>;
+      /** Non-conflicting part of an update that can be sent straight away */
+      body: Record<string, unknown> | null;
+    };
+
+function version(
+  data: Partial<TaskSnapshot>,
+  updatedAt: string,
+  updatedBy: string
+): VersionedData<Partial<TaskSnapshot>> {
+  return { data, version: Date.parse(updatedAt) || 0, updatedAt, updatedBy };
+}
+
+function conflict(
+  type: ConflictType,
+  localVersion: VersionedData<Partial<TaskSnapshot>>,
+  remoteVersion: VersionedData<Partial<TaskSnapshot>>
+): Conflict<Partial<TaskSnapshot>> {
+  return { type, localVersion, remoteVersion, detectedAt: new Date().toISOString() };
+}
+
+/**
+ * Task fields a queued change sets
+ */
+function getLocalChanges(mutation: QueuedMutation, snapshot: TaskSnapshot): Partial<TaskSnapshot> {
+  const body = mutation.body || {};
+  if (mutation.kind === 'moveTask') return { status_id: body.status_id as string };
+
+  const fields = (Object.keys(body) as TaskField[]).filter((field) => field in snapshot);
+  return pickFields(body as Partial<TaskSnapshot>, fields);
+}
+
+/**
+ * Reconcile a queued change with the current server task (null when it no longer exists)
+ * Fields only one side changed go through; overlapping edits to tags, descriptions
+ * and colors are merged, anything else becomes a manual conflict
+ */
+export function reconcileMutation(mutation: QueuedMutation, server: Task | null): Reconciliation {
+  const { kind, base } = mutation;
+
+  if (kind === 'createTask' || kind === 'reorderTasks' || !base) {
+    return { action: 'send', body: mutation.body };
+  }
+
+  if (!server) {
+    return kind === 'deleteTask'
+      ? { action: 'drop', reason: 'The task was already deleted' }
+      : { action: 'drop', reason: 'The task was deleted while you were offline' };
+  }
+
+  const remote = getTaskSnapshot(server);
+  const remoteChanges = findChangedFields(
+    pickFields(base, Object.keys(remote) as TaskField[]),
+    remote
+  );
+  const remoteVersion = (fields: TaskField[]) =>
+    version(pickFields(remote, fields), server.updated_at, 'remote');
+
+  if (kind === 'deleteTask') {
+    if (remoteChanges.length === 0) return { action: 'send', body: null };
+    return {
+      action: 'conflict',
+      conflict: conflict(
+        'delete_edit',
+        version({}, mutation.queuedAt, 'local'),
+        remoteVersion(remoteChanges)
+      ),
+      body: null,
+    };
+  }
+
+  const local = getLocalChanges(mutation, remote);
+  const overlap = remoteChanges.filter(
+    (field) => field in local && findChangedFields({ [field]: local[field] }, remote).length > 0
+  );
+  if (overlap.length === 0) return { action: 'send', body: mutation.body };
+
+  const localVersion = version(pickFields(local, overlap), mutation.queuedAt, 'local');
+  const type: ConflictType = kind === 'moveTask' ? 'move_edit' : 'concurrent_edit';
+
+  if (kind === 'updateTask' && canAutoMerge(localVersion, remoteVersion(overlap))) {
+    const merged = resolveConflict(localVersion, remoteVersion(overlap), 'last_write_wins').result;
+    if (overlap.includes('tags')) {
+      merged.tags = mergeArrays(local.tags || [], remote.tags);
+    }
+    return { action: 'send', body: { ...mutation.body, ...toTaskInput(merged) } };
+  }
+
+  const rest =
+    kind === 'updateTask'
+      ? Object.fromEntries(
+          Object.entries(mutation.body || {}).filter(
+            ([field]) => !overlap.includes(field as TaskField)
+          )
+        )
+      : {};
+
+  return {
+    action: 'conflict',
+    conflict: conflict(type, localVersion, remoteVersion(overlap)),
+    body: Object.keys(rest).length > 0 ? rest : null,
+  };
+}
+
+/**
+ * Fields a conflict is about
+ */
+export function getConflictFields(conflict: Conflict<Partial<TaskSnapshot>>): TaskField[] {
+  return Object.keys(
+    conflict.type === 'delete_edit' ? conflict.remoteVersion.data : conflict.localVersion.data
+  ) as TaskField[];
+}
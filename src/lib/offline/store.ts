@@ -0,0 +1,74 @@
+/**
+ * Mutation stores
+ * IndexedDB keeps queued changes across reloads; the memory store is used where
+ * IndexedDB is unavailable (server rendering, private browsing in some browsers)
+ */
+
+import type { MutationStore, QueuedMutation } from './types';
+
+const DB_NAME = 'kanbanpro-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbStore(): MutationStore {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    database ??= openDatabase();
+    const db = await database;
+    return promisify(operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    getAll: () => run('readonly', (store) => store.getAll() as IDBRequest<QueuedMutation[]>),
+    put: async (mutation) => {
+      await run('readwrite', (store) => store.put(mutation));
+    },
+    delete: (id) => run('readwrite', (store) => store.delete(id)),
+    clear: () => run('readwrite', (store) => store.clear()),
+  };
+}
+
+export function createMemoryStore(initial: QueuedMutation[] = []): MutationStore {
+  const mutations = new Map(initial.map((mutation) => [mutation.id, mutation]));
+
+  return {
+    getAll: async () => [...mutations.values()],
+    put: async (mutation) => {
+      mutations.set(mutation.id, mutation);
+    },
+    delete: async (id) => {
+      mutations.delete(id);
+    },
+    clear: async () => {
+      mutations.clear();
+    },
+  };
+}
+
+export function createDefaultStore(): MutationStore {
+  return typeof indexedDB === 'undefined' ? createMemoryStore() : createIndexedDbStore();
+}
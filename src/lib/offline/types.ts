@@ -0,0 +1,94 @@
+/**
+ * Offline Mutation Queue Types
+ * Task changes made without a connection, persisted until they can be replayed
+ */
+
+import type { Conflict } from '@/lib/conflictResolution';
+import type { TaskSnapshot } from '@/lib/undo';
+
+/**
+ * Task requests that can be queued; status and board changes still need a connection
+ */
+export type QueuedMutationKind =
+  | 'createTask'
+  | 'updateTask'
+  | 'deleteTask'
+  | 'moveTask'
+  | 'reorderTasks';
+
+/**
+ * The task as this client last saw it from the server
+ * Replay compares it with the current task to find changes made by others meanwhile
+ */
+export interface QueuedTaskBase extends TaskSnapshot {
+  updated_at: string;
+}
+
+export interface QueuedMutation {
+  id: string;
+  /** Replay order */
+  sequence: number;
+  boardId: string;
+  kind: QueuedMutationKind;
+  /**
+   * Target task; a `temp-` id until the queued create for it has been replayed
+   * For creates, the temp id the task was shown with
+   */
+  taskId: string | null;
+  /** Request body, as the online mutation would have sent it */
+  body: Record<string, unknown> | null;
+  base: QueuedTaskBase | null;
+  /** Task title, for messages about this change */
+  label: string;
+  queuedAt: string;
+  /** Set when replay found conflicting changes that the user has to pick between */
+  conflict: Conflict<Partial<TaskSnapshot>> | null;
+}
+
+export type NewQueuedMutation = Omit<QueuedMutation, 'id' | 'sequence' | 'queuedAt' | 'conflict'>;
+
+/**
+ * Where queued mutations are persisted
+ */
+export interface MutationStore {
+  getAll(): Promise<QueuedMutation[]>;
+  put(mutation: QueuedMutation): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Server response to a replayed request
+ */
+export interface ReplayResponse {
+  ok: boolean;
+  status: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * A queued change that could not be applied and was discarded
+ */
+export interface DroppedMutation {
+  mutation: QueuedMutation;
+  reason: string;
+}
+
+export interface ReplayResult {
+  synced: number;
+  /** Boards whose data changed on the server */
+  boardIds: string[];
+  dropped: DroppedMutation[];
+  /** Conflicts found during this replay */
+  conflicts: QueuedMutation[];
+  /** Replay stopped early because the server could not be reached */
+  interrupted: boolean;
+}
+
+export interface MutationQueueState {
+  /** Changes waiting to be sent */
+  pending: number;
+  /** Changes waiting for the user to resolve a conflict */
+  conflicts: QueuedMutation[];
+  syncing: boolean;
+}
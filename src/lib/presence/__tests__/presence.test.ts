@@ -0,0 +1,70 @@
+import { getTaskPresence, mergePresenceState } from '../presence';
+import type { BoardPresenceState } from '@/types/board';
+
+const makeState = (overrides: Partial<BoardPresenceState>): BoardPresenceState => ({
+  user_id: 'user-1',
+  email: 'ada@example.com',
+  display_name: 'Ada',
+  avatar_url: null,
+  task_id: null,
+  typing: null,
+  online_at: '2024-01-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('mergePresenceState', () => {
+  it('should return one member per user, ordered by who joined first', () => {
+    const members = mergePresenceState({
+      'user-2': [
+        makeState({ user_id: 'user-2', display_name: 'Grace', online_at: '2024-01-01T09:00:00Z' }),
+      ],
+      'user-1': [makeState({})],
+    });
+
+    expect(members.map((m) => m.user_id)).toEqual(['user-2', 'user-1']);
+    expect(members[0].profile).toEqual({
+      id: 'user-2',
+      email: 'ada@example.com',
+      display_name: 'Grace',
+      avatar_url: null,
+    });
+  });
+
+  it('should combine the tasks and typing of all tabs', () => {
+    const [member] = mergePresenceState({
+      'user-1': [
+        makeState({ task_id: 'task-1', typing: 'comment' }),
+        makeState({ task_id: 'task-2', online_at: '2024-01-01T08:00:00Z' }),
+        makeState({ task_id: 'task-1' }),
+      ],
+    });
+
+    expect(member.task_ids).toEqual(['task-1', 'task-2']);
+    expect(member.typing).toEqual([{ task_id: 'task-1', activity: 'comment' }]);
+  });
+
+  it('should ignore entries without a user', () => {
+    expect(
+      mergePresenceState({ bogus: [{} as BoardPresenceState], empty: [] as BoardPresenceState[] })
+    ).toEqual([]);
+  });
+});
+
+describe('getTaskPresence', () => {
+  const members = mergePresenceState({
+    'user-1': [makeState({ task_id: 'task-1', typing: 'description' })],
+    'user-2': [makeState({ user_id: 'user-2', task_id: 'task-1', typing: 'comment' })],
+    'user-3': [makeState({ user_id: 'user-3', task_id: 'task-2', typing: 'comment' })],
+  });
+
+  it('should list others viewing and typing in the task', () => {
+    const presence = getTaskPresence(members, 'task-1', 'user-1');
+
+    expect(presence.viewers.map((m) => m.user_id)).toEqual(['user-2']);
+    expect(presence.typing).toEqual([{ member: presence.viewers[0], activity: 'comment' }]);
+  });
+
+  it('should return nobody for a task no one else has open', () => {
+    expect(getTaskPresence(members, 'task-9', 'user-1')).toEqual({ viewers: [], typing: [] });
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Presence
+ * Who is on a board, which task they have open and where they are typing
+ */
+
+export {
+  PRESENCE_TYPING_TIMEOUT_MS,
+  mergePresenceState,
+  getTaskPresence,
+  type TaskPresence,
+} from './presence';
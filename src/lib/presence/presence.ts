@@ -0,0 +1,83 @@
+/**
+ * Board presence
+ * Turns the raw Supabase presence state into one entry per user
+ */
+
+import type { BoardPresenceMember, BoardPresenceState, PresenceActivity } from '@/types/board';
+
+/** A typing indicator is cleared after this long without a keystroke */
+export const PRESENCE_TYPING_TIMEOUT_MS = 4000;
+
+/**
+ * Merge presence entries (one per open tab) into one member per user,
+ * ordered by who joined first
+ */
+export function mergePresenceState(
+  state: Record<string, BoardPresenceState[]>
+): BoardPresenceMember[] {
+  const byUser = new Map<string, { member: BoardPresenceMember; onlineAt: string }>();
+
+  Object.values(state)
+    .flat()
+    .forEach((entry) => {
+      if (!entry?.user_id) return;
+
+      const existing = byUser.get(entry.user_id);
+      const member = existing?.member ?? {
+        user_id: entry.user_id,
+        profile: {
+          id: entry.user_id,
+          email: entry.email || '',
+          display_name: entry.display_name,
+          avatar_url: entry.avatar_url,
+        },
+        task_ids: [],
+        typing: [],
+      };
+
+      if (entry.task_id && !member.task_ids.includes(entry.task_id)) {
+        member.task_ids.push(entry.task_id);
+      }
+      if (entry.task_id && entry.typing) {
+        member.typing.push({ task_id: entry.task_id, activity: entry.typing });
+      }
+
+      const onlineAt =
+        existing && existing.onlineAt < entry.online_at ? existing.onlineAt : entry.online_at;
+      byUser.set(entry.user_id, { member, onlineAt });
+    });
+
+  return Array.from(byUser.values())
+    .sort((a, b) => a.onlineAt.localeCompare(b.onlineAt))
+    .map(({ member }) => member);
+}
+
+export interface TaskPresence {
+  /** Other users with the task open */
+  viewers: BoardPresenceMember[];
+  /** Other users typing in the task */
+  typing: { member: BoardPresenceMember; activity: PresenceActivity }[];
+}
+
+/**
+ * Who else has a task open, excluding the current user
+ */
+export function getTaskPresence(
+  members: BoardPresenceMember[],
+  taskId: string,
+  currentUserId: string | null
+): TaskPresence {
+  const others = members.filter(
+    (member) => member.user_id !== currentUserId && member.task_ids.includes(taskId)
+  );
+
+  return {
+    viewers: others,
+    typing: others.flatMap((member) =>
+      member.typing
+        .filter((entry) => entry.task_id === taskId)
+        .slice(0, 1)
+        .map((entry) => ({ member, activity: entry.activity }))
+    ),
+  };
+}
@@ -0,0 +1,45 @@
+import { prependToFirstPage, removeById, upsertById } from '../cacheUpdates';
+
+type Item = { id: string; text: string; profile?: { name: string } };
+
+const a: Item = { id: 'a', text: 'first', profile: { name: 'Ada' } };
+const b: Item = { id: 'b', text: 'second' };
+
+describe('upsertById', () => {
+  it('should append or prepend a new item', () => {
+    expect(upsertById([a], b)).toEqual([a, b]);
+    expect(upsertById([a], b, 'start')).toEqual([b, a]);
+  });
+
+  it('should replace an existing item in place, keeping joined fields', () => {
+    const updated = upsertById([a, b], { id: 'a', text: 'edited' });
+
+    expect(updated).toEqual([{ id: 'a', text: 'edited', profile: { name: 'Ada' } }, b]);
+  });
+});
+
+describe('removeById', () => {
+  it('should remove the matching item', () => {
+    expect(removeById([a, b], 'a')).toEqual([b]);
+  });
+
+  it('should return the same list when nothing matches', () => {
+    const list = [a, b];
+    expect(removeById(list, 'missing')).toBe(list);
+  });
+});
+
+describe('prependToFirstPage', () => {
+  const data = { pages: [[a], [b]], pageParams: [0, 1] };
+
+  it('should add the item to the front of the first page', () => {
+    const c = { id: 'c', text: 'third' };
+
+    expect(prependToFirstPage(data, c)).toEqual({ pages: [[c, a], [b]], pageParams: [0, 1] });
+  });
+
+  it('should ignore items already loaded and queries not yet fetched', () => {
+    expect(prependToFirstPage(data, b)).toBe(data);
+    expect(prependToFirstPage(undefined, b)).toBeUndefined();
+  });
+});
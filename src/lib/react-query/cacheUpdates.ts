@@ -0,0 +1,52 @@
+/**
+ * Cache update helpers
+ * Immutable list updates shared by mutations and realtime handlers, which can
+ * deliver the same row twice (our own response plus the realtime echo)
+ */
+
+import type { InfiniteData } from '@tanstack/react-query';
+
+type WithId = { id: string };
+
+/**
+ * Replace the item with the same id, or add it at the end (or start)
+ * Joined fields already in the cache are kept when the new item lacks them
+ */
+export function upsertById<T extends WithId>(
+  list: T[],
+  item: T,
+  position: 'end' | 'start' = 'end'
+): T[] {
+  const index = list.findIndex((existing) => existing.id === item.id);
+
+  if (index === -1) {
+    return position === 'start' ? [item, ...list] : [...list, item];
+  }
+
+  const next = [...list];
+  next[index] = { ...list[index], ...item };
+  return next;
+}
+
+/**
+ * Remove the item with the given id; returns the same list when absent
+ */
+export function removeById<T extends WithId>(list: T[], id: string): T[] {
+  return list.some((item) => item.id === id) ? list.filter((item) => item.id !== id) : list;
+}
+
+/**
+ * Add an item to the front of the first page of an infinite query
+ * Later pages are offset-based and simply shift by one on the server too
+ */
+export function prependToFirstPage<T extends WithId>(
+  data: InfiniteData<T[], number> | undefined,
+  item: T
+): InfiniteData<T[], number> | undefined {
+  if (!data || data.pages.some((page) => page.some((existing) => existing.id === item.id))) {
+    return data;
+  }
+
+  const [first = [], ...rest] = data.pages;
+  return { ...data, pages: [[item, ...first], ...rest] };
+}
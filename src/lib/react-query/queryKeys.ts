@@ -32,10 +32,24 @@ export const queryKeys = {
       [...queryKeys.tasks.list(boardId), 'status', statusId] as const,
   },
 
+  // Checklists
+  checklist: {
+    all: ['checklist'] as const,
+    byTask: (taskId: string) => [...queryKeys.checklist.all, 'task', taskId] as const,
+  },
+
+  // Time tracking
+  timeEntries: {
+    all: ['time-entries'] as const,
+    byTask: (taskId: string) => [...queryKeys.timeEntries.all, 'task', taskId] as const,
+    report: (boardId: string) => [...queryKeys.timeEntries.all, 'report', boardId] as const,
+  },
+
   // Comments
   comments: {
     all: ['comments'] as const,
     byTask: (taskId: string) => [...queryKeys.comments.all, 'task', taskId] as const,
+    revisions: (commentId: string) => [...queryKeys.comments.all, 'revisions', commentId] as const,
   },
 
   // Attachments
@@ -51,6 +65,35 @@ export const queryKeys = {
     byTask: (taskId: string) => [...queryKeys.activities.all, 'task', taskId] as const,
   },
 
+  // Webhooks
+  webhooks: {
+    all: ['webhooks'] as const,
+    byBoard: (boardId: string) => [...queryKeys.webhooks.all, 'board', boardId] as const,
+    deliveries: (webhookId: string) =>
+      [...queryKeys.webhooks.all, 'deliveries', webhookId] as const,
+  },
+
+  // Notification subscriptions (the current user's watch/mute levels)
+  subscriptions: {
+    all: ['subscriptions'] as const,
+    byBoard: (boardId: string) => [...queryKeys.subscriptions.all, 'board', boardId] as const,
+    byTask: (taskId: string) => [...queryKeys.subscriptions.all, 'task', taskId] as const,
+  },
+
+  // Saved board filters (the current user's)
+  savedFilters: {
+    all: ['saved-filters'] as const,
+    byBoard: (boardId: string) => [...queryKeys.savedFilters.all, 'board', boardId] as const,
+  },
+
+  // Notification center (the current user's notifications)
+  notifications: {
+    all: ['notifications'] as const,
+    list: (filters: Record<string, unknown>) =>
+      [...queryKeys.notifications.all, 'list', filters] as const,
+    unreadCount: () => [...queryKeys.notifications.all, 'unread-count'] as const,
+  },
+
   // Search
   search: {
     all: ['search'] as const,
@@ -0,0 +1,50 @@
+import { makeExcerpt, splitHighlights } from '../highlight';
+
+describe('splitHighlights', () => {
+  it('marks case-insensitive matches', () => {
+    expect(splitHighlights('Fix Login bug on login page', ['login'])).toEqual([
+      { text: 'Fix ', match: false },
+      { text: 'Login', match: true },
+      { text: ' bug on ', match: false },
+      { text: 'login', match: true },
+      { text: ' page', match: false },
+    ]);
+  });
+
+  it('prefers the longest term and escapes regex characters', () => {
+    expect(splitHighlights('error page (v2)', ['error', 'error page', '(v2)'])).toEqual([
+      { text: 'error page', match: true },
+      { text: ' ', match: false },
+      { text: '(v2)', match: true },
+    ]);
+  });
+
+  it('returns the text unmarked without terms', () => {
+    expect(splitHighlights('Plain', [])).toEqual([{ text: 'Plain', match: false }]);
+    expect(splitHighlights('', ['x'])).toEqual([]);
+  });
+});
+
+describe('makeExcerpt', () => {
+  const long = `${'intro words '.repeat(30)}the deploy failed here ${'trailing text '.repeat(30)}`;
+
+  it('returns short text unchanged apart from whitespace', () => {
+    expect(makeExcerpt('Short\n\ntext', ['text'])).toBe('Short text');
+  });
+
+  it('centres the window on the first match', () => {
+    const excerpt = makeExcerpt(long, ['deploy'], 80);
+
+    expect(excerpt).toContain('deploy');
+    expect(excerpt.startsWith('…')).toBe(true);
+    expect(excerpt.endsWith('…')).toBe(true);
+    expect(excerpt.length).toBeLessThanOrEqual(82);
+  });
+
+  it('starts at the beginning when nothing matches', () => {
+    const excerpt = makeExcerpt(long, ['missing'], 80);
+
+    expect(excerpt.startsWith('intro words')).toBe(true);
+    expect(excerpt.endsWith('…')).toBe(true);
+  });
+});
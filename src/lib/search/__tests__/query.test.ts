@@ -0,0 +1,168 @@
+import {
+  getHighlightTerms,
+  hasSearchCriteria,
+  parseSearchQuery,
+  translateSearchQuery,
+} from '../query';
+
+const userId = '11111111-1111-4111-8111-111111111111';
+const now = new Date('2026-10-18T15:30:00.000Z');
+
+function translate(query: string) {
+  return translateSearchQuery(parseSearchQuery(query), { userId, now });
+}
+
+describe('parseSearchQuery', () => {
+  it('parses free text, phrases and negated words', () => {
+    expect(parseSearchQuery('login "error page" -flaky').nodes).toEqual([
+      { kind: 'text', value: 'login', phrase: false, negated: false },
+      { kind: 'text', value: 'error page', phrase: true, negated: false },
+      { kind: 'text', value: 'flaky', phrase: false, negated: true },
+    ]);
+  });
+
+  it('parses operators with quoted and negated values', () => {
+    const { nodes, errors } = parseSearchQuery(
+      'board:"Team Roadmap" -tag:wontfix priority:HIGH assignee:me is:overdue in:comments'
+    );
+
+    expect(errors).toEqual([]);
+    expect(nodes).toEqual([
+      { kind: 'board', value: 'Team Roadmap', negated: false },
+      { kind: 'tag', value: 'wontfix', negated: true },
+      { kind: 'priority', value: 'high', negated: false },
+      { kind: 'assignee', value: 'me', negated: false },
+      { kind: 'is', value: 'overdue', negated: false },
+      { kind: 'in', value: 'comments' },
+    ]);
+  });
+
+  it('parses due comparisons, relative days and none', () => {
+    expect(parseSearchQuery('due:<2026-11-01 due:>=today due:none').nodes).toEqual([
+      { kind: 'due', comparison: '<', date: '2026-11-01', negated: false },
+      { kind: 'due', comparison: '>=', date: 'today', negated: false },
+      { kind: 'due', comparison: '=', date: null, negated: false },
+    ]);
+  });
+
+  it('accepts operator aliases', () => {
+    expect(parseSearchQuery('column:done tags:bug').nodes).toEqual([
+      { kind: 'status', value: 'done', negated: false },
+      { kind: 'tag', value: 'bug', negated: false },
+    ]);
+  });
+
+  it('keeps unknown keys as text', () => {
+    expect(parseSearchQuery('http://example.com').nodes).toEqual([
+      { kind: 'text', value: 'http://example.com', phrase: false, negated: false },
+    ]);
+  });
+
+  it('reports invalid operator values and leaves them out', () => {
+    const { nodes, errors } = parseSearchQuery('priority:urgent due:soon is:blocked tag: bug');
+
+    expect(nodes).toEqual([{ kind: 'text', value: 'bug', phrase: false, negated: false }]);
+    expect(errors.map((error) => error.token)).toEqual([
+      'priority:urgent',
+      'due:soon',
+      'is:blocked',
+      'tag:',
+    ]);
+  });
+});
+
+describe('translateSearchQuery', () => {
+  it('builds the full-text query from text nodes only', () => {
+    const search = translate('login "error page" -flaky tag:bug');
+
+    expect(search.text).toBe('login "error page" -flaky');
+    expect(search.filters).toEqual({ tags: ['bug'] });
+    expect(search.scope).toBe('all');
+  });
+
+  it('maps operators to filters and resolves assignee:me', () => {
+    const search = translate(
+      'board:roadmap -board:archive status:review priority:high priority:critical -tag:wontfix assignee:me -assignee:sam'
+    );
+
+    expect(search.filters).toEqual({
+      boards: ['roadmap'],
+      exclude_boards: ['archive'],
+      statuses: ['review'],
+      priorities: ['high', 'critical'],
+      exclude_tags: ['wontfix'],
+      assignee_ids: [userId],
+      exclude_assignee_names: ['sam'],
+    });
+  });
+
+  it('maps is: values to flags', () => {
+    expect(translate('is:overdue is:unassigned').filters).toEqual({
+      overdue: true,
+      unassigned: true,
+    });
+    expect(translate('is:open').filters).toEqual({ done: false });
+    expect(translate('-is:open').filters).toEqual({ done: true });
+    expect(translate('is:done -is:overdue').filters).toEqual({ done: true, overdue: false });
+  });
+
+  it('turns due comparisons into UTC day bounds', () => {
+    expect(translate('due:<2026-11-01').filters).toEqual({
+      due_lt: '2026-11-01T00:00:00.000Z',
+    });
+    expect(translate('due:<=2026-11-01').filters).toEqual({
+      due_lt: '2026-11-02T00:00:00.000Z',
+    });
+    expect(translate('due:>2026-11-01').filters).toEqual({
+      due_gte: '2026-11-02T00:00:00.000Z',
+    });
+    expect(translate('due:2026-11-01').filters).toEqual({
+      due_gte: '2026-11-01T00:00:00.000Z',
+      due_lt: '2026-11-02T00:00:00.000Z',
+    });
+  });
+
+  it('resolves relative days against now and keeps the tightest bounds', () => {
+    expect(translate('due:>=today due:<2026-12-01 due:<tomorrow').filters).toEqual({
+      due_gte: '2026-10-18T00:00:00.000Z',
+      due_lt: '2026-10-19T00:00:00.000Z',
+    });
+  });
+
+  it('inverts negated due comparisons and handles due:none', () => {
+    expect(translate('-due:<2026-11-01').filters).toEqual({
+      due_gte: '2026-11-01T00:00:00.000Z',
+    });
+    expect(translate('due:none').filters).toEqual({ has_due: false });
+    expect(translate('-due:none').filters).toEqual({ has_due: true });
+  });
+
+  it('reports a negated single due day', () => {
+    const search = translate('-due:2026-11-01');
+
+    expect(search.filters).toEqual({});
+    expect(search.errors).toHaveLength(1);
+  });
+
+  it('sets the scope from in:', () => {
+    expect(translate('deploy in:comments').scope).toBe('comments');
+    expect(translate('deploy in:tasks').scope).toBe('tasks');
+  });
+});
+
+describe('getHighlightTerms', () => {
+  it('returns positive text terms without duplicates', () => {
+    expect(getHighlightTerms(parseSearchQuery('login "error page" -flaky login tag:bug'))).toEqual([
+      'login',
+      'error page',
+    ]);
+  });
+});
+
+describe('hasSearchCriteria', () => {
+  it('is false when nothing usable was parsed', () => {
+    expect(hasSearchCriteria(translate('priority:urgent'))).toBe(false);
+    expect(hasSearchCriteria(translate('is:overdue'))).toBe(true);
+    expect(hasSearchCriteria(translate('login'))).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Search result highlighting
+ * Splits text into plain and matched segments so the UI can wrap matches without injecting HTML
+ */
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildPattern(terms: string[]): RegExp | null {
+  const cleaned = [...new Set(terms.map((term) => term.trim()).filter(Boolean))]
+    // Longest first so a phrase wins over one of its words
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+
+  return cleaned.length > 0 ? new RegExp(`(${cleaned.join('|')})`, 'gi') : null;
+}
+
+/**
+ * Split text on case-insensitive occurrences of the terms
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  const pattern = buildPattern(terms);
+  if (!pattern || !text) return text ? [{ text, match: false }] : [];
+
+  // With a capturing group, split puts the matches at odd indexes
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((segment) => segment.text.length > 0);
+}
+
+/**
+ * A window of the text around the first match, trimmed to word boundaries,
+ * or the start of the text when nothing matches
+ */
+export function makeExcerpt(text: string, terms: string[], maxLength = 160): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= maxLength) return normalized;
+
+  const pattern = buildPattern(terms);
+  const matchIndex = pattern ? normalized.search(pattern) : -1;
+
+  let start = matchIndex > maxLength / 3 ? matchIndex - Math.floor(maxLength / 3) : 0;
+  let end = Math.min(normalized.length, start + maxLength);
+  start = Math.max(0, end - maxLength);
+
+  if (start > 0) {
+    const space = normalized.indexOf(' ', start);
+    if (space !== -1 && space < matchIndex) start = space + 1;
+  }
+  if (end < normalized.length) {
+    const space = normalized.lastIndexOf(' ', end);
+    if (space > start && space > matchIndex) end = space;
+  }
+
+  return `${start > 0 ? '…' : ''}${normalized.slice(start, end)}${end < normalized.length ? '…' : ''}`;
+}
@@ -0,0 +1,22 @@
+/**
+ * Search
+ * Query language parsing and translation for global search, and result highlighting
+ */
+
+export {
+  SEARCH_OPERATORS,
+  parseSearchQuery,
+  translateSearchQuery,
+  getHighlightTerms,
+  hasSearchCriteria,
+  type DueComparison,
+  type SearchIsValue,
+  type SearchScope,
+  type SearchNode,
+  type SearchQueryError,
+  type ParsedSearchQuery,
+  type SearchFilters,
+  type TranslatedSearch,
+} from './query';
+
+export { splitHighlights, makeExcerpt, type HighlightSegment } from './highlight';
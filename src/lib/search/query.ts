@@ -0,0 +1,364 @@
+/**
+ * Search query language
+ * `login board:Roadmap priority:high -tag:wontfix due:<2026-11-01 assignee:me is:overdue`
+ * is parsed into a typed AST, then translated into a full-text query plus structured filters
+ */
+
+import type { TaskPriority } from '@/types/board';
+
+export type DueComparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type SearchIsValue = 'overdue' | 'open' | 'done' | 'unassigned';
+
+/** Where free text is looked for: task fields, comments, or both */
+export type SearchScope = 'all' | 'tasks' | 'comments';
+
+export type SearchNode =
+  | { kind: 'text'; value: string; phrase: boolean; negated: boolean }
+  | { kind: 'board' | 'status' | 'tag'; value: string; negated: boolean }
+  | { kind: 'priority'; value: TaskPriority; negated: boolean }
+  /** `date` is YYYY-MM-DD, a relative day, or null for "no due date" */
+  | { kind: 'due'; comparison: DueComparison; date: string | null; negated: boolean }
+  /** `me` or part of a name or email */
+  | { kind: 'assignee'; value: string; negated: boolean }
+  | { kind: 'is'; value: SearchIsValue; negated: boolean }
+  | { kind: 'in'; value: Exclude<SearchScope, 'all'> };
+
+export interface SearchQueryError {
+  token: string;
+  message: string;
+}
+
+export interface ParsedSearchQuery {
+  nodes: SearchNode[];
+  /** Operators with values that could not be understood; they are left out of the search */
+  errors: SearchQueryError[];
+}
+
+/** Operators with their value hints, for the search help */
+export const SEARCH_OPERATORS: { example: string; description: string }[] = [
+  { example: 'board:roadmap', description: 'Board name contains' },
+  { example: 'status:"in progress"', description: 'Column name contains' },
+  { example: 'priority:high', description: 'low, medium, high or critical' },
+  { example: 'tag:bug', description: 'Has the tag' },
+  { example: 'due:<2026-11-01', description: '<, <=, >, >= or a day; today, tomorrow, none' },
+  { example: 'assignee:me', description: 'Assigned to you, or a name' },
+  { example: 'is:overdue', description: 'overdue, open, done or unassigned' },
+  { example: 'in:comments', description: 'Only match text in comments (or in:tasks)' },
+  { example: '-tag:wontfix', description: 'Exclude with a leading minus' },
+];
+
+const PRIORITIES: readonly TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+const IS_VALUES: readonly SearchIsValue[] = ['overdue', 'open', 'done', 'unassigned'];
+const RELATIVE_DAYS = ['today', 'tomorrow', 'yesterday'] as const;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DUE_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+
+/** Operator aliases; anything else with a colon is plain text, e.g. a URL */
+const OPERATOR_KEYS: Record<string, SearchNode['kind']> = {
+  board: 'board',
+  status: 'status',
+  column: 'status',
+  priority: 'priority',
+  tag: 'tag',
+  tags: 'tag',
+  due: 'due',
+  assignee: 'assignee',
+  is: 'is',
+  in: 'in',
+};
+
+interface Token {
+  raw: string;
+  negated: boolean;
+  key: string | null;
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * Split into whitespace-separated tokens; double quotes group words, also after `key:`
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const [raw, minus, key, quotedValue, bareValue] = match;
+    if (!raw.trim()) continue;
+
+    const quoted = quotedValue !== undefined;
+    // `tag:` with nothing after it is an operator missing its value
+    const emptyKey = !key && !quoted ? /^([a-z]+):$/i.exec(bareValue)?.[1] : undefined;
+    tokens.push({
+      raw,
+      negated: minus === '-',
+      key: (key ?? emptyKey)?.toLowerCase() ?? null,
+      value: emptyKey ? '' : (quoted ? quotedValue : bareValue || '').trim(),
+      quoted,
+    });
+  }
+
+  return tokens;
+}
+
+function parseOperator(kind: SearchNode['kind'], token: Token): SearchNode | SearchQueryError {
+  const value = token.value;
+  const lower = value.toLowerCase();
+  const error = (message: string): SearchQueryError => ({ token: token.raw, message });
+
+  if (!value) return error(`${token.key}: needs a value`);
+
+  switch (kind) {
+    case 'board':
+    case 'status':
+    case 'tag':
+      return { kind, value, negated: token.negated };
+
+    case 'priority':
+      return (PRIORITIES as readonly string[]).includes(lower)
+        ? { kind, value: lower as TaskPriority, negated: token.negated }
+        : error('Priority must be low, medium, high or critical');
+
+    case 'assignee':
+      return { kind, value: lower === 'me' ? 'me' : value, negated: token.negated };
+
+    case 'is':
+      return (IS_VALUES as readonly string[]).includes(lower)
+        ? { kind, value: lower as SearchIsValue, negated: token.negated }
+        : error('Use is:overdue, is:open, is:done or is:unassigned');
+
+    case 'in':
+      if (token.negated) return error('in: cannot be negated');
+      return lower === 'comments' || lower === 'tasks'
+        ? { kind, value: lower }
+        : error('Use in:comments or in:tasks');
+
+    case 'due': {
+      const [, comparison = '=', rest] = DUE_PATTERN.exec(lower) ?? [];
+      const date = rest?.trim() ?? '';
+
+      if (date === 'none') {
+        return comparison === '='
+          ? { kind, comparison: '=', date: null, negated: token.negated }
+          : error('due:none cannot be compared');
+      }
+      if (
+        !(RELATIVE_DAYS as readonly string[]).includes(date) &&
+        !(DATE_ONLY_PATTERN.test(date) && !Number.isNaN(Date.parse(date)))
+      ) {
+        return error('Due dates look like 2026-11-01, today, tomorrow or none');
+      }
+      return { kind, comparison: comparison as DueComparison, date, negated: token.negated };
+    }
+
+    default:
+      return error(`Unknown operator ${token.key}:`);
+  }
+}
+
+/**
+ * Parse a search box query into nodes; never throws
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const nodes: SearchNode[] = [];
+  const errors: SearchQueryError[] = [];
+
+  for (const token of tokenize(input)) {
+    const kind = token.key ? OPERATOR_KEYS[token.key] : undefined;
+
+    if (kind) {
+      const result = parseOperator(kind, token);
+      if ('kind' in result) nodes.push(result);
+      else errors.push(result);
+      continue;
+    }
+
+    // Unknown keys stay part of the text
+    const value = token.key ? `${token.key}:${token.value}` : token.value;
+    if (value) {
+      nodes.push({ kind: 'text', value, phrase: token.quoted, negated: token.negated });
+    }
+  }
+
+  return { nodes, errors };
+}
+
+/**
+ * Structured filters in the shape the search_tasks_advanced function reads
+ * Repeated operators widen the match (any board, any priority) except tags, which must all be present
+ */
+export interface SearchFilters {
+  boards?: string[];
+  exclude_boards?: string[];
+  statuses?: string[];
+  exclude_statuses?: string[];
+  priorities?: TaskPriority[];
+  exclude_priorities?: TaskPriority[];
+  tags?: string[];
+  exclude_tags?: string[];
+  assignee_ids?: string[];
+  exclude_assignee_ids?: string[];
+  assignee_names?: string[];
+  exclude_assignee_names?: string[];
+  unassigned?: boolean;
+  has_due?: boolean;
+  due_gte?: string;
+  due_lt?: string;
+  overdue?: boolean;
+  done?: boolean;
+}
+
+export interface TranslatedSearch {
+  /** websearch_to_tsquery syntax; empty when the query only filters */
+  text: string;
+  filters: SearchFilters;
+  scope: SearchScope;
+  errors: SearchQueryError[];
+}
+
+const NEGATED_COMPARISON: Record<Exclude<DueComparison, '='>, DueComparison> = {
+  '<': '>=',
+  '<=': '>',
+  '>': '<=',
+  '>=': '<',
+};
+
+/** Midnight UTC of a calendar or relative day; due dates are stored as UTC midnight */
+function startOfDay(date: string, now: Date): Date {
+  if (DATE_ONLY_PATTERN.test(date)) return new Date(`${date}T00:00:00.000Z`);
+
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (date === 'tomorrow') day.setUTCDate(day.getUTCDate() + 1);
+  if (date === 'yesterday') day.setUTCDate(day.getUTCDate() - 1);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+function push<K extends keyof SearchFilters>(
+  filters: SearchFilters,
+  key: K,
+  value: NonNullable<SearchFilters[K]> extends (infer T)[] ? T : never
+) {
+  const list = (filters[key] as unknown[] | undefined) ?? [];
+  if (!list.includes(value)) (filters[key] as unknown[]) = [...list, value];
+}
+
+/** Quote for websearch_to_tsquery; quotes inside a value cannot be expressed */
+function toTextTerm(node: Extract<SearchNode, { kind: 'text' }>): string {
+  const value = node.value.replace(/"/g, ' ').trim();
+  if (!value) return '';
+  const term = node.phrase || /\s/.test(value) ? `"${value}"` : value.replace(/^-+/, '');
+  return node.negated ? `-${term}` : term;
+}
+
+/**
+ * Turn parsed nodes into the full-text query and filters
+ * `assignee:me` resolves to the searching user; relative days resolve against `now` (UTC)
+ */
+export function translateSearchQuery(
+  parsed: ParsedSearchQuery,
+  context: { userId: string; now?: Date }
+): TranslatedSearch {
+  const now = context.now ?? new Date();
+  const filters: SearchFilters = {};
+  const errors = [...parsed.errors];
+  const text: string[] = [];
+  let scope: SearchScope = 'all';
+  let dueFrom: Date | null = null;
+  let dueUntil: Date | null = null;
+
+  const narrowDue = (comparison: DueComparison, day: Date) => {
+    const from =
+      comparison === '>=' || comparison === '=' ? day : comparison === '>' ? addDays(day, 1) : null;
+    const until =
+      comparison === '<' ? day : comparison === '<=' || comparison === '=' ? addDays(day, 1) : null;
+    if (from && (!dueFrom || from > dueFrom)) dueFrom = from;
+    if (until && (!dueUntil || until < dueUntil)) dueUntil = until;
+  };
+
+  for (const node of parsed.nodes) {
+    switch (node.kind) {
+      case 'text': {
+        const term = toTextTerm(node);
+        if (term) text.push(term);
+        break;
+      }
+      case 'board':
+        push(filters, node.negated ? 'exclude_boards' : 'boards', node.value);
+        break;
+      case 'status':
+        push(filters, node.negated ? 'exclude_statuses' : 'statuses', node.value);
+        break;
+      case 'tag':
+        push(filters, node.negated ? 'exclude_tags' : 'tags', node.value);
+        break;
+      case 'priority':
+        push(filters, node.negated ? 'exclude_priorities' : 'priorities', node.value);
+        break;
+      case 'assignee':
+        if (node.value === 'me') {
+          push(filters, node.negated ? 'exclude_assignee_ids' : 'assignee_ids', context.userId);
+        } else {
+          push(filters, node.negated ? 'exclude_assignee_names' : 'assignee_names', node.value);
+        }
+        break;
+      case 'is':
+        if (node.value === 'overdue') filters.overdue = !node.negated;
+        if (node.value === 'unassigned') filters.unassigned = !node.negated;
+        if (node.value === 'done') filters.done = !node.negated;
+        if (node.value === 'open') filters.done = node.negated;
+        break;
+      case 'in':
+        scope = node.value;
+        break;
+      case 'due': {
+        if (node.date === null) {
+          filters.has_due = node.negated;
+          break;
+        }
+        let comparison = node.comparison;
+        if (node.negated) {
+          if (comparison === '=') {
+            errors.push({
+              token: `-due:${node.date}`,
+              message: 'A single day cannot be excluded; use due:< or due:>',
+            });
+            break;
+          }
+          comparison = NEGATED_COMPARISON[comparison];
+        }
+        narrowDue(comparison, startOfDay(node.date, now));
+        break;
+      }
+    }
+  }
+
+  if (dueFrom) filters.due_gte = (dueFrom as Date).toISOString();
+  if (dueUntil) filters.due_lt = (dueUntil as Date).toISOString();
+
+  return { text: text.join(' '), filters, scope, errors };
+}
+
+/**
+ * Words and phrases to highlight in results: the positive free-text terms
+ */
+export function getHighlightTerms(parsed: ParsedSearchQuery): string[] {
+  const terms = parsed.nodes.flatMap((node) =>
+    node.kind === 'text' && !node.negated && node.value.trim() ? [node.value.trim()] : []
+  );
+  return [...new Set(terms)];
+}
+
+/**
+ * Whether the query has anything to search by once parsed
+ */
+export function hasSearchCriteria(search: TranslatedSearch): boolean {
+  return search.text.length > 0 || Object.keys(search.filters).length > 0;
+}
@@ -0,0 +1,58 @@
+import { sanitizeMarkdown, sanitizeUrl } from '../sanitize';
+
+describe('sanitizeUrl', () => {
+  it('should allow http, https, mailto and relative URLs', () => {
+    expect(sanitizeUrl(' https://example.com/a?b=1 ')).toBe('https://example.com/a?b=1');
+    expect(sanitizeUrl('http://example.com')).toBe('http://example.com');
+    expect(sanitizeUrl('mailto:team@example.com')).toBe('mailto:team@example.com');
+    expect(sanitizeUrl('/boards/1')).toBe('/boards/1');
+    expect(sanitizeUrl('#section')).toBe('#section');
+  });
+
+  it('should reject script and data URLs, including disguised ones', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('JavaScript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('java\tscript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('\x01javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(sanitizeUrl('vbscript:msgbox(1)')).toBeNull();
+  });
+
+  it('should reject empty and non-string input', () => {
+    expect(sanitizeUrl('   ')).toBeNull();
+    expect(sanitizeUrl(null)).toBeNull();
+    expect(sanitizeUrl(undefined)).toBeNull();
+  });
+});
+
+describe('sanitizeMarkdown', () => {
+  it('should keep Markdown formatting', () => {
+    const source = '# Title\n\n- [x] **done** [docs](https://example.com)';
+    expect(sanitizeMarkdown(source)).toBe(source);
+  });
+
+  it('should strip raw HTML tags and comments', () => {
+    expect(sanitizeMarkdown('a <img src=x onerror=alert(1)> b <!-- hidden --> c')).toBe('a  b  c');
+    expect(sanitizeMarkdown('<scr<b>ipt>alert(1)</script>')).toBe('alert(1)');
+  });
+
+  it('should keep HTML inside code', () => {
+    const source = 'Use `<div>` here\n\n```html\n<script>x()</script>\n```';
+    expect(sanitizeMarkdown(source)).toBe(source);
+  });
+
+  it('should replace unsafe link destinations', () => {
+    expect(sanitizeMarkdown('[x](javascript:alert(1)) ![y](data:image/png;base64,AA)')).toBe(
+      '[x](#) ![y](#)'
+    );
+  });
+
+  it('should keep attachment image references', () => {
+    const source = '![shot](attachment:22222222-2222-4222-8222-222222222222)';
+    expect(sanitizeMarkdown(source)).toBe(source);
+  });
+
+  it('should apply the length limit and remove control characters', () => {
+    expect(sanitizeMarkdown('ab\x00cdef', { maxLength: 4 })).toBe('abcd');
+  });
+});
@@ -3,6 +3,7 @@
  * Provides functions to check user permissions in API handlers
  */
 
+import { timingSafeEqual } from 'crypto';
 import { createClient } from '@/lib/supabase/server';
 import { type BoardMemberRole } from '@/types/board';
 import { type Permission, requirePermission, AuthorizationError } from './rbac';
@@ -219,6 +220,23 @@ export async function authorizeAttachment(
   };
 }
 
+/**
+ * Authorize a scheduled job request
+ * Cron callers send `Authorization: Bearer <CRON_SECRET>`; without a configured secret
+ * every request is rejected
+ */
+export function authorizeCron(request: Request): void {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization') || '';
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+
+  if (!secret || expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new AuthenticationError('Invalid cron secret');
+  }
+}
+
 /**
  * Handle authorization errors in API routes
  */
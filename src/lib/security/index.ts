@@ -11,6 +11,8 @@ export {
   sanitizeStringArray,
   sanitizeTags,
   escapeHtml,
+  sanitizeUrl,
+  sanitizeMarkdown,
   type SanitizeStringOptions,
 } from './sanitize';
 
@@ -52,6 +54,7 @@ export {
   authorizeTask,
   authorizeComment,
   authorizeAttachment,
+  authorizeCron,
   handleAuthError,
   AuthenticationError,
 } from './authMiddleware';
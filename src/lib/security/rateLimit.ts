@@ -59,6 +59,18 @@ export const rateLimitConfigs = {
       maxRequests: 20,
       windowMs: 60 * 1000,
     } as RateLimitConfig,
+
+    /** Board export: 10 requests per minute */
+    export: {
+      maxRequests: 10,
+      windowMs: 60 * 1000,
+    } as RateLimitConfig,
+
+    /** Board import: 10 requests per minute */
+    import: {
+      maxRequests: 10,
+      windowMs: 60 * 1000,
+    } as RateLimitConfig,
   },
 
   /** Authentication operations */
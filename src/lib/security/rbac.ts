@@ -42,7 +42,9 @@ export type Permission =
   | 'attachment:delete_own'
   | 'attachment:delete_any'
   // Activity permissions
-  | 'activity:read';
+  | 'activity:read'
+  // Webhook permissions
+  | 'webhook:manage';
 
 /**
  * Role permission matrix
@@ -84,6 +86,8 @@ const ROLE_PERMISSIONS: Record<BoardMemberRole, Set<Permission>> = {
     'attachment:delete_any',
     // Activity
     'activity:read',
+    // Webhooks
+    'webhook:manage',
   ]),
 
   admin: new Set([
@@ -118,6 +122,8 @@ const ROLE_PERMISSIONS: Record<BoardMemberRole, Set<Permission>> = {
     'attachment:delete_any',
     // Activity
     'activity:read',
+    // Webhooks
+    'webhook:manage',
   ]),
 
   member: new Set([
@@ -294,6 +300,7 @@ export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
   'attachment:delete_own': 'Delete own attachments',
   'attachment:delete_any': 'Delete any attachment',
   'activity:read': 'View activity log',
+  'webhook:manage': 'Manage outgoing webhooks',
 };
 
 /**
@@ -16,6 +16,8 @@ export const STORAGE_KEYS = {
   SIDEBAR_COLLAPSED: 'kanbanpro-sidebar-collapsed',
   RECENT_BOARDS: 'kanbanpro-recent-boards',
   PREFERENCES: 'kanbanpro-preferences',
+  SWIMLANES: 'kanbanpro-swimlanes',
+  BOARD_VIEWS: 'kanbanpro-board-views',
 } as const;
 
 /**
@@ -290,6 +292,126 @@ export function addRecentBoard(board: { id: string; name: string }): boolean {
   return safeSetItem(STORAGE_KEYS.RECENT_BOARDS, updated);
 }
 
+/**
+ * Swimlane view state for one board
+ */
+export interface BoardSwimlaneState {
+  /** Attribute the board is grouped by, or null for a single row of columns */
+  grouping: string | null;
+  /** Keys of collapsed lanes */
+  collapsed: string[];
+}
+
+/**
+ * Type validator for swimlane state keyed by board ID
+ */
+const isSwimlaneStateMap: TypeValidator<Record<string, BoardSwimlaneState>> = (
+  value: unknown
+): value is Record<string, BoardSwimlaneState> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.values(value).every(
+    (item) =>
+      typeof item === 'object' &&
+      item !== null &&
+      (typeof item.grouping === 'string' || item.grouping === null) &&
+      Array.isArray(item.collapsed) &&
+      item.collapsed.every((key: unknown) => typeof key === 'string')
+  );
+};
+
+/**
+ * Gets the swimlane grouping and collapsed lanes for a board
+ *
+ * @param boardId - Board to look up
+ * @returns The stored state, or no grouping with nothing collapsed
+ */
+export function getBoardSwimlanes(boardId: string): BoardSwimlaneState {
+  const all = safeGetItem(STORAGE_KEYS.SWIMLANES, {}, isSwimlaneStateMap);
+  return all[boardId] || { grouping: null, collapsed: [] };
+}
+
+/**
+ * Stores the swimlane grouping and collapsed lanes for a board
+ *
+ * @param boardId - Board to update
+ * @param state - New swimlane state
+ * @returns true if successful
+ */
+export function setBoardSwimlanes(boardId: string, state: BoardSwimlaneState): boolean {
+  const all = safeGetItem(STORAGE_KEYS.SWIMLANES, {}, isSwimlaneStateMap);
+  return safeSetItem(STORAGE_KEYS.SWIMLANES, { ...all, [boardId]: state });
+}
+
+/**
+ * View settings for one board
+ */
+export interface BoardViewState {
+  /** Board, table, calendar or timeline */
+  view: string;
+  /** Visible table columns, in order */
+  tableColumns: string[] | null;
+  tableSort: { column: string; direction: 'asc' | 'desc' } | null;
+  /** Month or week */
+  calendarMode: string | null;
+}
+
+const DEFAULT_BOARD_VIEW: BoardViewState = {
+  view: 'board',
+  tableColumns: null,
+  tableSort: null,
+  calendarMode: null,
+};
+
+/**
+ * Type validator for view settings keyed by board ID
+ */
+const isBoardViewStateMap: TypeValidator<Record<string, BoardViewState>> = (
+  value: unknown
+): value is Record<string, BoardViewState> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.values(value).every(
+    (item) =>
+      typeof item === 'object' &&
+      item !== null &&
+      typeof item.view === 'string' &&
+      (item.tableColumns === null ||
+        (Array.isArray(item.tableColumns) &&
+          item.tableColumns.every((column: unknown) => typeof column === 'string'))) &&
+      (item.tableSort === null ||
+        (typeof item.tableSort === 'object' &&
+          typeof item.tableSort.column === 'string' &&
+          (item.tableSort.direction === 'asc' || item.tableSort.direction === 'desc'))) &&
+      (typeof item.calendarMode === 'string' || item.calendarMode === null)
+  );
+};
+
+/**
+ * Gets the view settings for a board
+ *
+ * @param boardId - Board to look up
+ * @returns The stored settings, or the column view with defaults
+ */
+export function getBoardViewState(boardId: string): BoardViewState {
+  const all = safeGetItem(STORAGE_KEYS.BOARD_VIEWS, {}, isBoardViewStateMap);
+  return all[boardId] || DEFAULT_BOARD_VIEW;
+}
+
+/**
+ * Stores the view settings for a board
+ *
+ * @param boardId - Board to update
+ * @param state - New view settings
+ * @returns true if successful
+ */
+export function setBoardViewState(boardId: string, state: BoardViewState): boolean {
+  const all = safeGetItem(STORAGE_KEYS.BOARD_VIEWS, {}, isBoardViewStateMap);
+  return safeSetItem(STORAGE_KEYS.BOARD_VIEWS, { ...all, [boardId]: state });
+}
+
 /**
  * Clears all KanbanPro storage items
  *
@@ -0,0 +1,19 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './types';
+
+/**
+ * Service role client for scheduled jobs that act on behalf of no user
+ * Bypasses RLS, so never use it in request handlers that serve a signed-in user
+ */
+export function createAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  }
+
+  return createSupabaseClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
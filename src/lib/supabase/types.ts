@@ -45,6 +45,8 @@ export type Database = {
           name: string;
           color: string;
           order: number;
+          wip_limit: number | null;
+          wip_limit_mode: 'soft' | 'hard';
           created_at: string;
           updated_at: string;
         };
@@ -54,6 +56,8 @@ export type Database = {
           name: string;
           color?: string;
           order?: number;
+          wip_limit?: number | null;
+          wip_limit_mode?: 'soft' | 'hard';
           created_at?: string;
           updated_at?: string;
         };
@@ -63,6 +67,8 @@ export type Database = {
           name?: string;
           color?: string;
           order?: number;
+          wip_limit?: number | null;
+          wip_limit_mode?: 'soft' | 'hard';
           created_at?: string;
           updated_at?: string;
         };
@@ -88,6 +94,12 @@ export type Database = {
           assignee_name: string | null;
           assignee_color: string | null;
           due_date: string | null;
+          lane: string | null;
+          recurrence_rule: string | null;
+          next_occurrence_id: string | null;
+          start_date: string | null;
+          estimate: number | null;
+          estimate_unit: 'hours' | 'points';
           order: number;
           created_at: string;
           updated_at: string;
@@ -103,6 +115,12 @@ export type Database = {
           assignee_name?: string | null;
           assignee_color?: string | null;
           due_date?: string | null;
+          lane?: string | null;
+          recurrence_rule?: string | null;
+          next_occurrence_id?: string | null;
+          start_date?: string | null;
+          estimate?: number | null;
+          estimate_unit?: 'hours' | 'points';
           order?: number;
           created_at?: string;
           updated_at?: string;
@@ -118,6 +136,12 @@ export type Database = {
           assignee_name?: string | null;
           assignee_color?: string | null;
           due_date?: string | null;
+          lane?: string | null;
+          recurrence_rule?: string | null;
+          next_occurrence_id?: string | null;
+          start_date?: string | null;
+          estimate?: number | null;
+          estimate_unit?: 'hours' | 'points';
           order?: number;
           created_at?: string;
           updated_at?: string;
@@ -194,6 +218,9 @@ export type Database = {
           task_id: string;
           user_id: string;
           content: string;
+          mentions: string[];
+          parent_id: string | null;
+          edited_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -202,6 +229,9 @@ export type Database = {
           task_id: string;
           user_id: string;
           content: string;
+          mentions?: string[];
+          parent_id?: string | null;
+          edited_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -210,6 +240,9 @@ export type Database = {
           task_id?: string;
           user_id?: string;
           content?: string;
+          mentions?: string[];
+          parent_id?: string | null;
+          edited_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -221,6 +254,13 @@ export type Database = {
             referencedRelation: 'tasks';
             referencedColumns: ['id'];
           },
+          {
+            foreignKeyName: 'comments_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'comments_user_id_fkey';
             columns: ['user_id'];
@@ -230,6 +270,70 @@ export type Database = {
           },
         ];
       };
+      comment_reactions: {
+        Row: {
+          id: string;
+          comment_id: string;
+          user_id: string;
+          emoji: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          comment_id: string;
+          user_id: string;
+          emoji: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          comment_id?: string;
+          user_id?: string;
+          emoji?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comment_reactions_comment_id_fkey';
+            columns: ['comment_id'];
+            isOneToOne: false;
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      comment_revisions: {
+        Row: {
+          id: string;
+          comment_id: string;
+          content: string;
+          edited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          comment_id: string;
+          content: string;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          comment_id?: string;
+          content?: string;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comment_revisions_comment_id_fkey';
+            columns: ['comment_id'];
+            isOneToOne: false;
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       attachments: {
         Row: {
           id: string;
@@ -278,6 +382,122 @@ export type Database = {
           },
         ];
       };
+      task_assignees: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          assigned_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          assigned_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          user_id?: string;
+          assigned_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_assignees_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_assignees_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_assignees_assigned_by_fkey';
+            columns: ['assigned_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      checklist_items: {
+        Row: {
+          id: string;
+          task_id: string;
+          parent_id: string | null;
+          title: string;
+          is_completed: boolean;
+          completed_at: string | null;
+          completed_by: string | null;
+          assignee_id: string | null;
+          due_date: string | null;
+          order: number;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          parent_id?: string | null;
+          title: string;
+          is_completed?: boolean;
+          completed_at?: string | null;
+          completed_by?: string | null;
+          assignee_id?: string | null;
+          due_date?: string | null;
+          order?: number;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          parent_id?: string | null;
+          title?: string;
+          is_completed?: boolean;
+          completed_at?: string | null;
+          completed_by?: string | null;
+          assignee_id?: string | null;
+          due_date?: string | null;
+          order?: number;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'checklist_items_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'checklist_items_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'checklist_items';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'checklist_items_assignee_id_fkey';
+            columns: ['assignee_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       activities: {
         Row: {
           id: string;
@@ -330,6 +550,154 @@ export type Database = {
           },
         ];
       };
+      webhooks: {
+        Row: {
+          id: string;
+          board_id: string;
+          url: string;
+          secret: string;
+          events: string[];
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          board_id: string;
+          url: string;
+          secret: string;
+          events?: string[];
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          board_id?: string;
+          url?: string;
+          secret?: string;
+          events?: string[];
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhooks_board_id_fkey';
+            columns: ['board_id'];
+            isOneToOne: false;
+            referencedRelation: 'boards';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          webhook_id: string;
+          activity_id: string | null;
+          event: string;
+          payload: Json;
+          status: 'pending' | 'succeeded' | 'failed';
+          attempts: number;
+          next_attempt_at: string | null;
+          response_status: number | null;
+          response_body: string | null;
+          latency_ms: number | null;
+          error: string | null;
+          delivered_at: string | null;
+          claimed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          webhook_id: string;
+          activity_id?: string | null;
+          event: string;
+          payload: Json;
+          status?: 'pending' | 'succeeded' | 'failed';
+          attempts?: number;
+          next_attempt_at?: string | null;
+          response_status?: number | null;
+          response_body?: string | null;
+          latency_ms?: number | null;
+          error?: string | null;
+          delivered_at?: string | null;
+          claimed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          webhook_id?: string;
+          activity_id?: string | null;
+          event?: string;
+          payload?: Json;
+          status?: 'pending' | 'succeeded' | 'failed';
+          attempts?: number;
+          next_attempt_at?: string | null;
+          response_status?: number | null;
+          response_body?: string | null;
+          latency_ms?: number | null;
+          error?: string | null;
+          delivered_at?: string | null;
+          claimed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_deliveries_webhook_id_fkey';
+            columns: ['webhook_id'];
+            isOneToOne: false;
+            referencedRelation: 'webhooks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'webhook_deliveries_activity_id_fkey';
+            columns: ['activity_id'];
+            isOneToOne: false;
+            referencedRelation: 'activities';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      task_due_reminders: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          type: 'task_due_soon' | 'task_overdue';
+          due_date: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          type: 'task_due_soon' | 'task_overdue';
+          due_date: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          user_id?: string;
+          type?: 'task_due_soon' | 'task_overdue';
+          due_date?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_due_reminders_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       board_templates: {
         Row: {
           id: string;
@@ -378,6 +746,14 @@ export type Database = {
           board_id: string | null;
           task_id: string | null;
           read_at: string | null;
+          email_sent: boolean;
+          email_data: Json | null;
+          email_attempts: number;
+          email_error: string | null;
+          email_claimed_at: string | null;
+          email_send_after: string | null;
+          in_app: boolean;
+          archived_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -389,6 +765,14 @@ export type Database = {
           board_id?: string | null;
           task_id?: string | null;
           read_at?: string | null;
+          email_sent?: boolean;
+          email_data?: Json | null;
+          email_attempts?: number;
+          email_error?: string | null;
+          email_claimed_at?: string | null;
+          email_send_after?: string | null;
+          in_app?: boolean;
+          archived_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -400,6 +784,14 @@ export type Database = {
           board_id?: string | null;
           task_id?: string | null;
           read_at?: string | null;
+          email_sent?: boolean;
+          email_data?: Json | null;
+          email_attempts?: number;
+          email_error?: string | null;
+          email_claimed_at?: string | null;
+          email_send_after?: string | null;
+          in_app?: boolean;
+          archived_at?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -426,6 +818,51 @@ export type Database = {
           },
         ];
       };
+      notification_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          board_id: string;
+          task_id: string | null;
+          level: 'watch' | 'mute';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          board_id: string;
+          task_id?: string | null;
+          level: 'watch' | 'mute';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          board_id?: string;
+          task_id?: string | null;
+          level?: 'watch' | 'mute';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notification_subscriptions_board_id_fkey';
+            columns: ['board_id'];
+            isOneToOne: false;
+            referencedRelation: 'boards';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notification_subscriptions_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       profiles: {
         Row: {
           id: string;
@@ -433,6 +870,7 @@ export type Database = {
           display_name: string | null;
           avatar_url: string | null;
           notification_preferences: Json;
+          last_digest_sent_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -442,6 +880,7 @@ export type Database = {
           display_name?: string | null;
           avatar_url?: string | null;
           notification_preferences?: Json;
+          last_digest_sent_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -451,6 +890,7 @@ export type Database = {
           display_name?: string | null;
           avatar_url?: string | null;
           notification_preferences?: Json;
+          last_digest_sent_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -464,6 +904,95 @@ export type Database = {
           },
         ];
       };
+      saved_filters: {
+        Row: {
+          id: string;
+          user_id: string;
+          board_id: string;
+          name: string;
+          filters: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          board_id: string;
+          name: string;
+          filters?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          board_id?: string;
+          name?: string;
+          filters?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_filters_board_id_fkey';
+            columns: ['board_id'];
+            isOneToOne: false;
+            referencedRelation: 'boards';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      time_entries: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          started_at: string;
+          ended_at: string | null;
+          note: string | null;
+          is_manual: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          started_at: string;
+          ended_at?: string | null;
+          note?: string | null;
+          is_manual?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          user_id?: string;
+          started_at?: string;
+          ended_at?: string | null;
+          note?: string | null;
+          is_manual?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'time_entries_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'time_entries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
     };
     Views: {
       [_ in never]: never;
@@ -488,6 +1017,66 @@ export type Database = {
           rank: number;
         }[];
       };
+      search_tasks_advanced: {
+        Args: {
+          search_query?: string;
+          filters?: Json;
+          search_scope?: string;
+          max_results?: number;
+        };
+        Returns: {
+          id: string;
+          board_id: string;
+          board_name: string;
+          status_id: string;
+          status_name: string;
+          title: string;
+          description: string | null;
+          priority: string | null;
+          tags: string[];
+          due_date: string | null;
+          rank: number;
+          comment_id: string | null;
+          comment_content: string | null;
+        }[];
+      };
+      import_board_data: {
+        Args: {
+          p_board_id: string;
+          p_payload: Json;
+        };
+        Returns: {
+          statuses_created: number;
+          tasks_created: number;
+          checklist_items_created: number;
+          comments_created: number;
+        };
+      };
+      bulk_update_tasks: {
+        Args: {
+          p_board_id: string;
+          p_task_ids: string[];
+          p_action: Json;
+        };
+        Returns: {
+          tasks_changed: number;
+        };
+      };
+      claim_email_outbox: {
+        Args: {
+          p_batch_size: number;
+          p_max_attempts: number;
+          p_claim_ttl?: string;
+        };
+        Returns: Database['public']['Tables']['notifications']['Row'][];
+      };
+      claim_webhook_deliveries: {
+        Args: {
+          p_batch_size: number;
+          p_claim_ttl?: string;
+        };
+        Returns: Database['public']['Tables']['webhook_deliveries']['Row'][];
+      };
     };
     Enums: {
       task_priority: 'low' | 'medium' | 'high' | 'critical';
@@ -524,6 +1113,14 @@ export type Attachment = Database['public']['Tables']['attachments']['Row'];
 export type AttachmentInsert = Database['public']['Tables']['attachments']['Insert'];
 export type AttachmentUpdate = Database['public']['Tables']['attachments']['Update'];
 
+export type TaskAssignee = Database['public']['Tables']['task_assignees']['Row'];
+export type TaskAssigneeInsert = Database['public']['Tables']['task_assignees']['Insert'];
+export type TaskAssigneeUpdate = Database['public']['Tables']['task_assignees']['Update'];
+
+export type ChecklistItem = Database['public']['Tables']['checklist_items']['Row'];
+export type ChecklistItemInsert = Database['public']['Tables']['checklist_items']['Insert'];
+export type ChecklistItemUpdate = Database['public']['Tables']['checklist_items']['Update'];
+
 export type Activity = Database['public']['Tables']['activities']['Row'];
 export type ActivityInsert = Database['public']['Tables']['activities']['Insert'];
 export type ActivityUpdate = Database['public']['Tables']['activities']['Update'];
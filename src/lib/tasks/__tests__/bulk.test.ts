@@ -0,0 +1,146 @@
+import {
+  applyBulkAction,
+  describeBulkAction,
+  findTasksOverTagLimit,
+  getBulkTaskUpdates,
+} from '../bulk';
+import type { BoardWithData, Status, Task } from '@/types/board';
+import { makeTask as makeFixtureTask } from '@/test-utils/tasks';
+
+const makeTask = (id: string, statusId: string, overrides: Partial<Task> = {}): Task =>
+  makeFixtureTask({ id, status_id: statusId, title: id, ...overrides });
+
+const makeStatus = (id: string, tasks: Task[]): Status & { tasks: Task[] } => ({
+  id,
+  board_id: 'board-1',
+  name: id,
+  color: '#6366F1',
+  order: 0,
+  wip_limit: null,
+  wip_limit_mode: 'soft',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  tasks,
+});
+
+const board: BoardWithData = {
+  id: 'board-1',
+  user_id: 'user-1',
+  name: 'Board',
+  description: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  statuses: [
+    makeStatus('todo', [
+      makeTask('a', 'todo', { order: 0, tags: ['bug'] }),
+      makeTask('b', 'todo', { order: 1 }),
+    ]),
+    makeStatus('done', [makeTask('c', 'done', { order: 4 })]),
+  ],
+};
+
+const idsIn = (result: BoardWithData, statusId: string) =>
+  result.statuses.find((s) => s.id === statusId)!.tasks.map((t) => t.id);
+
+describe('getBulkTaskUpdates', () => {
+  const task = makeTask('a', 'todo', { priority: 'high', tags: ['bug'] });
+
+  it('should return only real changes', () => {
+    expect(getBulkTaskUpdates(task, { type: 'move', status_id: 'done' })).toEqual({
+      status_id: 'done',
+    });
+    expect(getBulkTaskUpdates(task, { type: 'move', status_id: 'todo' })).toBeNull();
+    expect(getBulkTaskUpdates(task, { type: 'set_priority', priority: 'high' })).toBeNull();
+    expect(getBulkTaskUpdates(task, { type: 'add_tag', tag: 'bug' })).toBeNull();
+    expect(getBulkTaskUpdates(task, { type: 'remove_tag', tag: 'ui' })).toBeNull();
+  });
+
+  it('should add and remove tags', () => {
+    expect(getBulkTaskUpdates(task, { type: 'add_tag', tag: 'ui' })).toEqual({
+      tags: ['bug', 'ui'],
+    });
+    expect(getBulkTaskUpdates(task, { type: 'remove_tag', tag: 'bug' })).toEqual({ tags: [] });
+  });
+
+  it('should compare assignees as a set', () => {
+    const assigned = makeTask('a', 'todo', {
+      assignees: ['u1', 'u2'].map((userId) => ({
+        id: `ta-${userId}`,
+        task_id: 'a',
+        user_id: userId,
+        assigned_by: null,
+        created_at: '2024-01-01T00:00:00Z',
+      })),
+    });
+
+    expect(getBulkTaskUpdates(assigned, { type: 'assign', assignee_ids: ['u2', 'u1'] })).toBeNull();
+    expect(getBulkTaskUpdates(assigned, { type: 'assign', assignee_ids: [] })).toEqual({
+      assignee_ids: [],
+    });
+  });
+});
+
+describe('findTasksOverTagLimit', () => {
+  it('should flag tasks that already have the maximum number of tags', () => {
+    const full = makeTask('full', 'todo', {
+      tags: Array.from({ length: 10 }, (_, i) => `t${i}`),
+    });
+    const tagged = makeTask('tagged', 'todo', { tags: [...full.tags!.slice(0, 9), 'new'] });
+
+    expect(findTasksOverTagLimit([full, tagged], { type: 'add_tag', tag: 'new' })).toEqual([full]);
+    expect(findTasksOverTagLimit([full], { type: 'remove_tag', tag: 't1' })).toEqual([]);
+  });
+});
+
+describe('applyBulkAction', () => {
+  it('should move tasks to the end of the column in selection order', () => {
+    const result = applyBulkAction(board, ['b', 'a', 'c'], { type: 'move', status_id: 'done' });
+
+    expect(idsIn(result, 'todo')).toEqual([]);
+    expect(idsIn(result, 'done')).toEqual(['c', 'b', 'a']);
+    expect(result.statuses[1].tasks.map((t) => t.order)).toEqual([4, 5, 6]);
+    expect(result.statuses[1].tasks.every((t) => t.status_id === 'done')).toBe(true);
+  });
+
+  it('should delete the selected tasks', () => {
+    const result = applyBulkAction(board, ['a', 'c'], { type: 'delete' });
+
+    expect(idsIn(result, 'todo')).toEqual(['b']);
+    expect(idsIn(result, 'done')).toEqual([]);
+  });
+
+  it('should update fields on the selected tasks only', () => {
+    const result = applyBulkAction(board, ['a', 'b'], { type: 'add_tag', tag: 'ui' });
+
+    expect(result.statuses[0].tasks.map((t) => t.tags)).toEqual([['bug', 'ui'], ['ui']]);
+    expect(result.statuses[1].tasks[0]).toBe(board.statuses[1].tasks[0]);
+  });
+
+  it('should fill in new assignees from the given profiles', () => {
+    const profile = {
+      id: 'u1',
+      email: 'ada@example.com',
+      display_name: 'Ada',
+      avatar_url: null,
+    };
+    const result = applyBulkAction(board, ['a'], { type: 'assign', assignee_ids: ['u1'] }, [
+      profile as never,
+    ]);
+
+    expect(result.statuses[0].tasks[0].assignees).toEqual([
+      expect.objectContaining({ user_id: 'u1', profile }),
+    ]);
+  });
+});
+
+describe('describeBulkAction', () => {
+  it('should summarize the action', () => {
+    expect(describeBulkAction({ type: 'move', status_id: 'done' }, 3, 'Done')).toBe(
+      'Moved 3 tasks to Done'
+    );
+    expect(describeBulkAction({ type: 'set_priority', priority: null }, 1)).toBe(
+      'Cleared the priority of 1 task'
+    );
+    expect(describeBulkAction({ type: 'delete' }, 2)).toBe('Deleted 2 tasks');
+  });
+});
@@ -0,0 +1,17 @@
+import { getDoneStatusId } from '../completion';
+
+describe('getDoneStatusId', () => {
+  it('should return the last column by order', () => {
+    expect(
+      getDoneStatusId([
+        { id: 'done', order: 2 },
+        { id: 'todo', order: 0 },
+        { id: 'doing', order: 1 },
+      ])
+    ).toBe('done');
+  });
+
+  it('should return null for a board without columns', () => {
+    expect(getDoneStatusId([])).toBeNull();
+  });
+});
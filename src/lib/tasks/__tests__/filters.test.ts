@@ -0,0 +1,140 @@
+import {
+  areTaskFiltersEqual,
+  countActiveFilters,
+  filterBoardTasks,
+  getBoardTags,
+  getDueRange,
+  matchesTaskFilters,
+  parseTaskFilters,
+  toTaskFilterParams,
+} from '../filters';
+import type { BoardWithData, Task } from '@/types/board';
+import { makeTask } from '@/test-utils/tasks';
+
+const USER_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+const makeBoard = (tasks: Task[]): BoardWithData => ({
+  id: 'board-1',
+  user_id: 'user-1',
+  name: 'Board',
+  description: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  statuses: [
+    {
+      id: 'status-1',
+      board_id: 'board-1',
+      name: 'Todo',
+      color: '#6366F1',
+      order: 0,
+      wip_limit: null,
+      wip_limit_mode: 'soft',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      tasks,
+    },
+  ],
+});
+
+describe('task filter params', () => {
+  it('should round-trip filters through search params', () => {
+    const filters = {
+      search: 'login',
+      priority: 'high' as const,
+      tags: ['bug', 'ui'],
+      assignee_id: USER_ID,
+      due_after: '2026-03-01',
+      due_before: '2026-03-31',
+    };
+    expect(parseTaskFilters(toTaskFilterParams(filters))).toEqual(filters);
+  });
+
+  it('should keep unrelated params and drop cleared filters', () => {
+    const params = toTaskFilterParams({ priority: 'low' }, 'task=abc&search=old&tags=x');
+    expect(params.toString()).toBe('task=abc&priority=low');
+  });
+
+  it('should drop values the filter bar cannot show', () => {
+    const params = new URLSearchParams(
+      'priority=urgent&assignee_id=ada&due_after=soon&tags=%20&search=%20%20'
+    );
+    expect(parseTaskFilters(params)).toEqual({});
+  });
+
+  it('should count fields in use and compare ignoring tag order', () => {
+    expect(countActiveFilters({})).toBe(0);
+    expect(countActiveFilters({ tags: ['a', 'b'], priority: 'low', search: ' ' })).toBe(2);
+    expect(areTaskFiltersEqual({ tags: ['a', 'b'] }, { tags: ['b', 'a'] })).toBe(true);
+    expect(areTaskFiltersEqual({ tags: ['a'] }, { tags: ['a'], priority: 'low' })).toBe(false);
+  });
+});
+
+describe('getDueRange', () => {
+  it('should treat calendar days as whole UTC days, inclusive', () => {
+    expect(getDueRange({ due_after: '2026-02-28', due_before: '2026-02-28' })).toEqual({
+      gte: '2026-02-28T00:00:00.000Z',
+      lt: '2026-03-01T00:00:00.000Z',
+    });
+  });
+
+  it('should use exact timestamps as given', () => {
+    expect(getDueRange({ due_before: '2026-02-28T12:00:00.000Z' })).toEqual({
+      lte: '2026-02-28T12:00:00.000Z',
+    });
+  });
+});
+
+describe('matchesTaskFilters', () => {
+  const task = makeTask({
+    title: 'Fix login',
+    description: 'Session expires too early',
+    priority: 'high',
+    tags: ['bug', 'auth'],
+    due_date: '2026-03-15T00:00:00.000Z',
+    assignees: [
+      { id: 'ta-1', task_id: 'task-1', user_id: USER_ID, assigned_by: null, created_at: '' },
+    ],
+  });
+
+  it('should match text in the title or description, case-insensitively', () => {
+    expect(matchesTaskFilters(task, { search: 'LOGIN' })).toBe(true);
+    expect(matchesTaskFilters(task, { search: 'session' })).toBe(true);
+    expect(matchesTaskFilters(task, { search: 'signup' })).toBe(false);
+  });
+
+  it('should match any selected tag', () => {
+    expect(matchesTaskFilters(task, { tags: ['ui', 'auth'] })).toBe(true);
+    expect(matchesTaskFilters(task, { tags: ['ui'] })).toBe(false);
+  });
+
+  it('should match priority and assignee', () => {
+    expect(matchesTaskFilters(task, { priority: 'high', assignee_id: USER_ID })).toBe(true);
+    expect(matchesTaskFilters(task, { priority: 'low' })).toBe(false);
+    expect(matchesTaskFilters(makeTask({}), { assignee_id: USER_ID })).toBe(false);
+  });
+
+  it('should include the due range end day and exclude tasks without a due date', () => {
+    expect(matchesTaskFilters(task, { due_after: '2026-03-15', due_before: '2026-03-15' })).toBe(
+      true
+    );
+    expect(matchesTaskFilters(task, { due_before: '2026-03-14' })).toBe(false);
+    expect(matchesTaskFilters(task, { due_after: '2026-03-16' })).toBe(false);
+    expect(matchesTaskFilters(makeTask({}), { due_after: '2026-01-01' })).toBe(false);
+  });
+});
+
+describe('filterBoardTasks', () => {
+  it('should keep statuses and only matching tasks', () => {
+    const board = makeBoard([
+      makeTask({ id: 'a', tags: ['bug'] }),
+      makeTask({ id: 'b', tags: ['ui', 'bug'] }),
+      makeTask({ id: 'c' }),
+    ]);
+
+    expect(filterBoardTasks(board, {})).toBe(board);
+    const filtered = filterBoardTasks(board, { tags: ['ui'] });
+    expect(filtered.statuses).toHaveLength(1);
+    expect(filtered.statuses[0].tasks.map((t) => t.id)).toEqual(['b']);
+    expect(getBoardTags(board)).toEqual(['bug', 'ui']);
+  });
+});
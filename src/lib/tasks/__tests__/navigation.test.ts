@@ -0,0 +1,99 @@
+import { getAdjacentTaskId, getNavigationColumns, type NavigationColumn } from '../navigation';
+import type { BoardWithData, Status, Task } from '@/types/board';
+import { makeTask as makeFixtureTask } from '@/test-utils/tasks';
+
+const makeTask = (id: string, statusId: string, overrides: Partial<Task> = {}): Task =>
+  makeFixtureTask({ id, status_id: statusId, title: id, ...overrides });
+
+const makeStatus = (id: string, tasks: Task[]): Status & { tasks: Task[] } => ({
+  id,
+  board_id: 'board-1',
+  name: id,
+  color: '#6366F1',
+  order: 0,
+  wip_limit: null,
+  wip_limit_mode: 'soft',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  tasks,
+});
+
+const board: BoardWithData = {
+  id: 'board-1',
+  user_id: 'user-1',
+  name: 'Board',
+  description: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  statuses: [
+    makeStatus('todo', [
+      makeTask('a', 'todo', { priority: 'low' }),
+      makeTask('b', 'todo', { priority: 'high' }),
+    ]),
+    makeStatus('doing', []),
+    makeStatus('done', [makeTask('c', 'done', { priority: 'high' })]),
+  ],
+};
+
+describe('getNavigationColumns', () => {
+  it('should list tasks per status in board order', () => {
+    expect(getNavigationColumns(board)).toEqual([
+      { statusId: 'todo', taskIds: ['a', 'b'] },
+      { statusId: 'doing', taskIds: [] },
+      { statusId: 'done', taskIds: ['c'] },
+    ]);
+  });
+
+  it('should follow lane order and skip collapsed lanes', () => {
+    const lanes = [
+      { key: 'v:high', label: 'High', value: 'high' },
+      { key: 'v:low', label: 'Low', value: 'low' },
+    ];
+
+    expect(
+      getNavigationColumns(board, { grouping: 'priority', lanes, collapsedLanes: new Set() })[0]
+    ).toEqual({ statusId: 'todo', taskIds: ['b', 'a'] });
+    expect(
+      getNavigationColumns(board, {
+        grouping: 'priority',
+        lanes,
+        collapsedLanes: new Set(['v:high']),
+      })
+    ).toEqual([
+      { statusId: 'todo', taskIds: ['a'] },
+      { statusId: 'doing', taskIds: [] },
+      { statusId: 'done', taskIds: [] },
+    ]);
+  });
+});
+
+describe('getAdjacentTaskId', () => {
+  const columns: NavigationColumn[] = [
+    { statusId: 'todo', taskIds: ['a', 'b', 'c'] },
+    { statusId: 'doing', taskIds: [] },
+    { statusId: 'done', taskIds: ['d', 'e'] },
+  ];
+
+  it('should start at the first card when nothing is focused', () => {
+    expect(getAdjacentTaskId(columns, null, 'down')).toBe('a');
+    expect(getAdjacentTaskId(columns, 'missing', 'right')).toBe('a');
+  });
+
+  it('should move within a column and stop at its ends', () => {
+    expect(getAdjacentTaskId(columns, 'a', 'down')).toBe('b');
+    expect(getAdjacentTaskId(columns, 'b', 'up')).toBe('a');
+    expect(getAdjacentTaskId(columns, 'a', 'up')).toBeNull();
+    expect(getAdjacentTaskId(columns, 'c', 'down')).toBeNull();
+  });
+
+  it('should skip empty columns and keep the row where possible', () => {
+    expect(getAdjacentTaskId(columns, 'b', 'right')).toBe('e');
+    expect(getAdjacentTaskId(columns, 'c', 'right')).toBe('e');
+    expect(getAdjacentTaskId(columns, 'd', 'left')).toBe('a');
+  });
+
+  it('should return null past the first and last column', () => {
+    expect(getAdjacentTaskId(columns, 'a', 'left')).toBeNull();
+    expect(getAdjacentTaskId(columns, 'd', 'right')).toBeNull();
+  });
+});
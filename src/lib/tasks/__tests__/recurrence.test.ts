@@ -0,0 +1,163 @@
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getNextOccurrenceRule,
+  getPresetRule,
+  getRecurrencePreset,
+  parseRecurrenceRule,
+  type RecurrenceRule,
+} from '../recurrence';
+
+function rule(value: string): RecurrenceRule {
+  const parsed = parseRecurrenceRule(value);
+  if (!parsed.success) throw new Error(parsed.error);
+  return parsed.rule;
+}
+
+function next(value: string, from: string, notBefore?: string): string | null {
+  return getNextOccurrence(rule(value), from, notBefore)?.toISOString().slice(0, 10) ?? null;
+}
+
+describe('parseRecurrenceRule', () => {
+  it('should parse a rule with or without the RRULE prefix', () => {
+    expect(parseRecurrenceRule('RRULE:freq=weekly;interval=2;byday=MO,TH')).toEqual({
+      success: true,
+      rule: { freq: 'WEEKLY', interval: 2, byDay: [{ day: 'MO' }, { day: 'TH' }] },
+    });
+    expect(rule('FREQ=DAILY')).toEqual({ freq: 'DAILY', interval: 1 });
+  });
+
+  it('should parse numbered weekdays, month days, COUNT and UNTIL', () => {
+    expect(rule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')).toEqual({
+      freq: 'MONTHLY',
+      interval: 1,
+      byDay: [{ day: 'FR', ordinal: -1 }],
+      count: 3,
+    });
+    expect(rule('FREQ=MONTHLY;BYMONTHDAY=1,15;UNTIL=20261231T000000Z')).toEqual({
+      freq: 'MONTHLY',
+      interval: 1,
+      byMonthDay: [1, 15],
+      until: '2026-12-31',
+    });
+  });
+
+  it.each([
+    ['', 'Recurrence rule is empty'],
+    ['INTERVAL=2', 'FREQ is required'],
+    ['FREQ=HOURLY', 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY'],
+    ['FREQ=DAILY;INTERVAL=0', 'INTERVAL must be a whole number from 1 to 365'],
+    ['FREQ=DAILY;BYDAY=MO', 'BYDAY needs FREQ=WEEKLY or FREQ=MONTHLY'],
+    ['FREQ=WEEKLY;BYDAY=1MO', 'Numbered BYDAY values need FREQ=MONTHLY'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'Invalid BYDAY value "XX"'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'BYMONTHDAY days must be from 1 to 31 or -1 to -31'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20261231', 'Use either COUNT or UNTIL, not both'],
+    ['FREQ=DAILY;BYHOUR=9', 'BYHOUR is not supported'],
+    ['FREQ=DAILY;FREQ=WEEKLY', 'FREQ is given more than once'],
+  ])('should reject %p', (value, error) => {
+    expect(parseRecurrenceRule(value)).toEqual({ success: false, error });
+  });
+});
+
+describe('formatRecurrenceRule', () => {
+  it('should write the canonical form', () => {
+    expect(formatRecurrenceRule(rule('rrule:byday=mo,th;freq=weekly;interval=1'))).toBe(
+      'FREQ=WEEKLY;BYDAY=MO,TH'
+    );
+    expect(formatRecurrenceRule(rule('FREQ=MONTHLY;UNTIL=20261231;INTERVAL=3'))).toBe(
+      'FREQ=MONTHLY;INTERVAL=3;UNTIL=20261231'
+    );
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('should step daily and weekly rules by their interval', () => {
+    expect(next('FREQ=DAILY', '2026-10-15T00:00:00.000Z')).toBe('2026-10-16');
+    expect(next('FREQ=DAILY;INTERVAL=3', '2026-10-15')).toBe('2026-10-18');
+    expect(next('FREQ=WEEKLY', '2026-10-15')).toBe('2026-10-22');
+  });
+
+  it('should move to the next listed weekday, skipping weeks by the interval', () => {
+    // 2026-10-15 is a Thursday
+    expect(next('FREQ=WEEKLY;BYDAY=MO,TH', '2026-10-12')).toBe('2026-10-15');
+    expect(next('FREQ=WEEKLY;BYDAY=MO,TH', '2026-10-15')).toBe('2026-10-19');
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2026-10-15')).toBe('2026-10-26');
+    expect(next('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', '2026-10-16')).toBe('2026-10-19');
+  });
+
+  it('should fall on the last day of short months', () => {
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=31', '2026-01-31')).toBe('2026-02-28');
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=31', '2026-02-28')).toBe('2026-03-31');
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-10-15')).toBe('2026-10-31');
+  });
+
+  it('should follow numbered weekdays in monthly rules', () => {
+    expect(next('FREQ=MONTHLY;BYDAY=-1FR', '2026-10-15')).toBe('2026-10-30');
+    expect(next('FREQ=MONTHLY;BYDAY=-1FR', '2026-10-30')).toBe('2026-11-27');
+    expect(next('FREQ=MONTHLY;BYDAY=1TU', '2026-11-27')).toBe('2026-12-01');
+  });
+
+  it('should end the series at COUNT and UNTIL', () => {
+    expect(next('FREQ=DAILY;COUNT=1', '2026-10-15')).toBeNull();
+    expect(next('FREQ=DAILY;COUNT=2', '2026-10-15')).toBe('2026-10-16');
+    expect(next('FREQ=DAILY;UNTIL=20261020', '2026-10-19')).toBe('2026-10-20');
+    expect(next('FREQ=DAILY;UNTIL=20261020', '2026-10-20')).toBeNull();
+  });
+
+  it('should skip occurrences before notBefore', () => {
+    expect(next('FREQ=DAILY', '2026-10-01', '2026-10-18T15:30:00.000Z')).toBe('2026-10-18');
+    expect(next('FREQ=WEEKLY;BYDAY=MO', '2026-09-07', '2026-10-18')).toBe('2026-10-19');
+    expect(next('FREQ=DAILY', '2026-10-20', '2026-10-18')).toBe('2026-10-21');
+  });
+});
+
+describe('getNextOccurrenceRule', () => {
+  it('should count down COUNT and keep other rules as they are', () => {
+    expect(getNextOccurrenceRule(rule('FREQ=DAILY;COUNT=3')).count).toBe(2);
+    const untilRule = rule('FREQ=DAILY;UNTIL=20261231');
+    expect(getNextOccurrenceRule(untilRule)).toBe(untilRule);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it.each([
+    ['FREQ=DAILY', 'Daily'],
+    ['FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', 'Every weekday'],
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', 'Every 2 weeks on Mon, Thu'],
+    ['FREQ=MONTHLY;BYDAY=-1FR', 'Monthly on the last Fri'],
+    ['FREQ=MONTHLY;BYMONTHDAY=1,22', 'Monthly on the 1st, the 22nd'],
+    ['FREQ=MONTHLY;BYMONTHDAY=12', 'Monthly on the 12th'],
+    ['FREQ=DAILY;COUNT=3', 'Daily, 3 more times'],
+    ['FREQ=YEARLY;UNTIL=20301231', 'Yearly until 2030-12-31'],
+  ])('should describe %p', (value, text) => {
+    expect(describeRecurrence(rule(value))).toBe(text);
+  });
+});
+
+describe('recurrence presets', () => {
+  it('should build weekly and monthly presets from the due date', () => {
+    expect(formatRecurrenceRule(getPresetRule('weekly', '2026-10-15'))).toBe(
+      'FREQ=WEEKLY;BYDAY=TH'
+    );
+    expect(formatRecurrenceRule(getPresetRule('monthly', '2026-10-15'))).toBe(
+      'FREQ=MONTHLY;BYMONTHDAY=15'
+    );
+    expect(formatRecurrenceRule(getPresetRule('weekdays'))).toBe(
+      'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'
+    );
+  });
+
+  it.each([
+    [null, 'none'],
+    ['FREQ=DAILY;INTERVAL=2', 'daily'],
+    ['FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', 'weekdays'],
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TU,WE,TH,FR', 'weekly'],
+    ['FREQ=MONTHLY;BYMONTHDAY=15', 'monthly'],
+    ['FREQ=MONTHLY;BYDAY=-1FR', 'custom'],
+    ['FREQ=DAILY;COUNT=5', 'custom'],
+    ['not a rule', 'custom'],
+  ])('should show %p as the %p preset', (value, preset) => {
+    expect(getRecurrencePreset(value)).toBe(preset);
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  applyLaneChange,
+  buildSwimlanes,
+  getAssigneeIdsForLane,
+  getLaneCellId,
+  getTagsForLane,
+  getTaskLaneValue,
+  parseLaneCellId,
+} from '../swimlanes';
+import type { BoardWithData, Task } from '@/types/board';
+import { makeTask } from '@/test-utils/tasks';
+
+const makeBoard = (tasks: Task[]): BoardWithData => ({
+  id: 'board-1',
+  user_id: 'user-1',
+  name: 'Board',
+  description: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  statuses: [
+    {
+      id: 'status-1',
+      board_id: 'board-1',
+      name: 'Todo',
+      color: '#6366F1',
+      order: 0,
+      wip_limit: null,
+      wip_limit_mode: 'soft',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      tasks,
+    },
+  ],
+});
+
+const assignee = (userId: string, name: string) => ({
+  id: `ta-${userId}`,
+  task_id: 'task-1',
+  user_id: userId,
+  assigned_by: null,
+  created_at: '2024-01-01T00:00:00Z',
+  profile: {
+    id: userId,
+    email: `${name}@example.com`,
+    display_name: name,
+    avatar_url: null,
+    notification_preferences: {} as never,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  },
+});
+
+describe('swimlanes', () => {
+  describe('buildSwimlanes', () => {
+    it('should list every priority followed by the catch-all lane', () => {
+      const lanes = buildSwimlanes(makeBoard([]), 'priority');
+
+      expect(lanes.map((lane) => lane.value)).toEqual(['critical', 'high', 'medium', 'low', null]);
+      expect(lanes[4].label).toBe('No priority');
+    });
+
+    it('should collect sorted tag and custom lanes from tasks', () => {
+      const board = makeBoard([
+        makeTask({ id: 'a', tags: ['frontend', 'bug'], lane: 'Team B' }),
+        makeTask({ id: 'b', tags: ['api'], lane: 'Team A' }),
+      ]);
+
+      expect(buildSwimlanes(board, 'tag').map((lane) => lane.label)).toEqual([
+        'api',
+        'bug',
+        'frontend',
+        'No tag',
+      ]);
+      expect(buildSwimlanes(board, 'lane').map((lane) => lane.value)).toEqual([
+        'Team A',
+        'Team B',
+        null,
+      ]);
+    });
+
+    it('should include board members without tasks as assignee lanes', () => {
+      const board = makeBoard([makeTask({ assignees: [assignee('u2', 'Zoe')] })]);
+      const lanes = buildSwimlanes(board, 'assignee', [
+        { id: 'u1', email: 'amy@example.com', display_name: 'Amy', avatar_url: null },
+      ]);
+
+      expect(lanes.map((lane) => lane.label)).toEqual(['Amy', 'Zoe', 'Unassigned']);
+      expect(lanes[1].profile?.id).toBe('u2');
+    });
+  });
+
+  describe('getTaskLaneValue', () => {
+    it('should group by first tag and most recent assignee', () => {
+      const task = makeTask({
+        tags: ['bug', 'api'],
+        assignees: [assignee('u1', 'Amy'), assignee('u2', 'Zoe')],
+      });
+
+      expect(getTaskLaneValue(task, 'tag')).toBe('bug');
+      expect(getTaskLaneValue(task, 'assignee')).toBe('u2');
+      expect(getTaskLaneValue(task, 'priority')).toBeNull();
+    });
+  });
+
+  describe('lane cell IDs', () => {
+    it('should round-trip status and lane key', () => {
+      const id = getLaneCellId('status-1', 'v:Team A');
+
+      expect(parseLaneCellId(id)).toEqual({ statusId: 'status-1', laneKey: 'v:Team A' });
+      expect(parseLaneCellId('status-1')).toBeNull();
+    });
+  });
+
+  describe('lane changes', () => {
+    it('should swap the lane tag and keep the others', () => {
+      expect(getTagsForLane(['bug', 'api'], 'feature')).toEqual(['feature', 'api']);
+      expect(getTagsForLane(['bug', 'api'], 'api')).toEqual(['api']);
+      expect(getTagsForLane(['bug', 'api'], null)).toEqual([]);
+    });
+
+    it('should swap the lane assignee and keep co-assignees', () => {
+      expect(getAssigneeIdsForLane(['u1', 'u2'], 'u3')).toEqual(['u1', 'u3']);
+      expect(getAssigneeIdsForLane([], 'u3')).toEqual(['u3']);
+      expect(getAssigneeIdsForLane(['u1', 'u2'], null)).toEqual([]);
+    });
+
+    it('should apply priority and custom lane changes to a task', () => {
+      const task = makeTask({ priority: 'low' });
+
+      expect(applyLaneChange(task, { field: 'priority', value: 'high' }).priority).toBe('high');
+      expect(applyLaneChange(task, { field: 'lane', value: 'Team A' }).lane).toBe('Team A');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  buildTimeReport,
+  findRunningEntry,
+  formatDuration,
+  getEntryMinutes,
+  getTrackedByUser,
+  getTrackedMinutes,
+  isStartAfterDue,
+  parseDuration,
+} from '../timeTracking';
+import type { TimeEntry } from '@/types/board';
+
+const now = new Date('2024-01-10T12:00:00Z');
+
+const makeEntry = (
+  id: string,
+  taskId: string,
+  userId: string,
+  startedAt: string,
+  endedAt: string | null
+): TimeEntry => ({
+  id,
+  task_id: taskId,
+  user_id: userId,
+  started_at: startedAt,
+  ended_at: endedAt,
+  note: null,
+  is_manual: false,
+  created_at: startedAt,
+  updated_at: startedAt,
+  user: null,
+});
+
+describe('isStartAfterDue', () => {
+  it('should only flag a start date later than the due date', () => {
+    expect(isStartAfterDue('2024-01-05', '2024-01-03')).toBe(true);
+    expect(isStartAfterDue('2024-01-03', '2024-01-03')).toBe(false);
+    expect(isStartAfterDue('2024-01-01', '2024-01-03')).toBe(false);
+    expect(isStartAfterDue('2024-01-05', null)).toBe(false);
+    expect(isStartAfterDue(undefined, '2024-01-03')).toBe(false);
+  });
+});
+
+describe('getEntryMinutes', () => {
+  it('should measure finished entries and count running ones up to now', () => {
+    expect(
+      getEntryMinutes({ started_at: '2024-01-10T09:00:00Z', ended_at: '2024-01-10T10:30:00Z' })
+    ).toBe(90);
+    expect(getEntryMinutes({ started_at: '2024-01-10T11:45:00Z', ended_at: null }, now)).toBe(15);
+  });
+
+  it('should sum entries', () => {
+    expect(
+      getTrackedMinutes(
+        [
+          { started_at: '2024-01-10T09:00:00Z', ended_at: '2024-01-10T10:00:00Z' },
+          { started_at: '2024-01-10T11:30:00Z', ended_at: null },
+        ],
+        now
+      )
+    ).toBe(90);
+  });
+});
+
+describe('findRunningEntry', () => {
+  it("should find only the user's open entry", () => {
+    const entries = [
+      makeEntry('e1', 't1', 'u1', '2024-01-10T09:00:00Z', '2024-01-10T10:00:00Z'),
+      makeEntry('e2', 't1', 'u2', '2024-01-10T11:00:00Z', null),
+    ];
+    expect(findRunningEntry(entries, 'u2')?.id).toBe('e2');
+    expect(findRunningEntry(entries, 'u1')).toBeUndefined();
+  });
+});
+
+describe('getTrackedByUser', () => {
+  it('should total each member, most first', () => {
+    const totals = getTrackedByUser(
+      [
+        makeEntry('e1', 't1', 'u1', '2024-01-10T09:00:00Z', '2024-01-10T09:30:00Z'),
+        makeEntry('e2', 't1', 'u2', '2024-01-10T09:00:00Z', '2024-01-10T11:00:00Z'),
+        makeEntry('e3', 't1', 'u1', '2024-01-10T10:00:00Z', '2024-01-10T10:15:00Z'),
+      ],
+      now
+    );
+    expect(totals.map(({ userId, minutes }) => [userId, minutes])).toEqual([
+      ['u2', 120],
+      ['u1', 45],
+    ]);
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format hours and minutes', () => {
+    expect(formatDuration(0)).toBe('0m');
+    expect(formatDuration(45.9)).toBe('45m');
+    expect(formatDuration(180)).toBe('3h');
+    expect(formatDuration(125)).toBe('2h 5m');
+  });
+});
+
+describe('parseDuration', () => {
+  it('should accept hour and minute formats', () => {
+    expect(parseDuration('1h 30m')).toBe(90);
+    expect(parseDuration('1.5h')).toBe(90);
+    expect(parseDuration('90m')).toBe(90);
+    expect(parseDuration('1:30')).toBe(90);
+    expect(parseDuration('2')).toBe(120);
+    expect(parseDuration(' 2H ')).toBe(120);
+  });
+
+  it('should reject empty, zero and malformed input', () => {
+    expect(parseDuration('')).toBeNull();
+    expect(parseDuration('0h')).toBeNull();
+    expect(parseDuration('1:75')).toBeNull();
+    expect(parseDuration('soon')).toBeNull();
+  });
+});
+
+describe('buildTimeReport', () => {
+  it('should roll up estimates and tracked time per status and for the board', () => {
+    const report = buildTimeReport(
+      [{ id: 's1' }, { id: 's2' }],
+      [
+        { id: 't1', status_id: 's1', estimate: 2, estimate_unit: 'hours' },
+        { id: 't2', status_id: 's1', estimate: 3, estimate_unit: 'points' },
+        { id: 't3', status_id: 's2', estimate: null, estimate_unit: 'hours' },
+      ],
+      [
+        { task_id: 't1', started_at: '2024-01-10T09:00:00Z', ended_at: '2024-01-10T10:00:00Z' },
+        { task_id: 't3', started_at: '2024-01-10T11:30:00Z', ended_at: null },
+      ],
+      now
+    );
+
+    expect(report.statuses).toEqual([
+      { statusId: 's1', taskCount: 2, estimateHours: 2, estimatePoints: 3, trackedMinutes: 60 },
+      { statusId: 's2', taskCount: 1, estimateHours: 0, estimatePoints: 0, trackedMinutes: 30 },
+    ]);
+    expect(report.total).toEqual({
+      taskCount: 3,
+      estimateHours: 2,
+      estimatePoints: 3,
+      trackedMinutes: 90,
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  addDays,
+  daysBetween,
+  getCalendarDays,
+  getNextTableSort,
+  getRescheduledDueDate,
+  getTableRows,
+  getTaskStartDay,
+  getTimelineGroups,
+  groupTasksByDueDay,
+  shiftCalendarAnchor,
+  toDayKey,
+} from '../views';
+import type { BoardWithData, Status, Task } from '@/types/board';
+import { makeTask as makeFixtureTask } from '@/test-utils/tasks';
+
+const makeTask = (id: string, statusId: string, overrides: Partial<Task> = {}): Task =>
+  makeFixtureTask({ id, status_id: statusId, title: id, ...overrides });
+
+const makeStatus = (id: string, order: number, tasks: Task[]): Status & { tasks: Task[] } => ({
+  id,
+  board_id: 'board-1',
+  name: id,
+  color: '#6366F1',
+  order,
+  wip_limit: null,
+  wip_limit_mode: 'soft',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  tasks,
+});
+
+const board: BoardWithData = {
+  id: 'board-1',
+  user_id: 'user-1',
+  name: 'Board',
+  description: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  statuses: [
+    makeStatus('todo', 0, [
+      makeTask('Write docs', 'todo', { priority: 'low', due_date: '2024-01-10T15:30:00.000Z' }),
+      makeTask('Fix bug', 'todo', { priority: 'critical' }),
+    ]),
+    makeStatus('done', 1, [
+      makeTask('Add login', 'done', {
+        priority: 'high',
+        due_date: '2024-01-05T00:00:00.000Z',
+        created_at: '2024-01-03T09:00:00Z',
+      }),
+    ]),
+  ],
+};
+
+const titles = (rows: { task: Task }[]) => rows.map((row) => row.task.title);
+
+describe('day helpers', () => {
+  it('should convert timestamps to UTC days and count between them', () => {
+    expect(toDayKey('2024-01-10T23:59:00Z')).toBe('2024-01-10');
+    expect(addDays('2024-01-30', 3)).toBe('2024-02-02');
+    expect(daysBetween('2024-02-02', '2024-01-30')).toBe(-3);
+  });
+});
+
+describe('getTableRows', () => {
+  it('should keep board order without a sort', () => {
+    expect(titles(getTableRows(board))).toEqual(['Write docs', 'Fix bug', 'Add login']);
+  });
+
+  it('should sort by priority rank in both directions', () => {
+    expect(titles(getTableRows(board, { column: 'priority', direction: 'asc' }))).toEqual([
+      'Fix bug',
+      'Add login',
+      'Write docs',
+    ]);
+    expect(titles(getTableRows(board, { column: 'priority', direction: 'desc' }))).toEqual([
+      'Write docs',
+      'Add login',
+      'Fix bug',
+    ]);
+  });
+
+  it('should put tasks without a value last in either direction', () => {
+    expect(titles(getTableRows(board, { column: 'due_date', direction: 'asc' }))).toEqual([
+      'Add login',
+      'Write docs',
+      'Fix bug',
+    ]);
+    expect(titles(getTableRows(board, { column: 'due_date', direction: 'desc' }))).toEqual([
+      'Write docs',
+      'Add login',
+      'Fix bug',
+    ]);
+  });
+
+  it('should keep board order for ties', () => {
+    expect(titles(getTableRows(board, { column: 'status', direction: 'asc' }))).toEqual([
+      'Write docs',
+      'Fix bug',
+      'Add login',
+    ]);
+  });
+});
+
+describe('getNextTableSort', () => {
+  it('should cycle ascending, descending and off', () => {
+    const asc = getNextTableSort(null, 'title');
+    expect(asc).toEqual({ column: 'title', direction: 'asc' });
+
+    const desc = getNextTableSort(asc, 'title');
+    expect(desc).toEqual({ column: 'title', direction: 'desc' });
+    expect(getNextTableSort(desc, 'title')).toBeNull();
+  });
+
+  it('should start ascending on another column', () => {
+    expect(getNextTableSort({ column: 'title', direction: 'desc' }, 'status')).toEqual({
+      column: 'status',
+      direction: 'asc',
+    });
+  });
+});
+
+describe('getCalendarDays', () => {
+  it('should cover the month in whole weeks starting on Monday', () => {
+    const days = getCalendarDays('2024-02-14', 'month');
+
+    expect(days).toHaveLength(35);
+    expect(days[0]).toBe('2024-01-29');
+    expect(days[days.length - 1]).toBe('2024-03-03');
+  });
+
+  it('should return the week around the anchor', () => {
+    expect(getCalendarDays('2024-01-07', 'week')).toEqual([
+      '2024-01-01',
+      '2024-01-02',
+      '2024-01-03',
+      '2024-01-04',
+      '2024-01-05',
+      '2024-01-06',
+      '2024-01-07',
+    ]);
+  });
+});
+
+describe('shiftCalendarAnchor', () => {
+  it('should clamp to the end of shorter months', () => {
+    expect(shiftCalendarAnchor('2024-01-31', 'month', 1)).toBe('2024-02-29');
+    expect(shiftCalendarAnchor('2024-03-31', 'month', -1)).toBe('2024-02-29');
+  });
+
+  it('should move a week at a time', () => {
+    expect(shiftCalendarAnchor('2024-01-29', 'week', 1)).toBe('2024-02-05');
+  });
+});
+
+describe('groupTasksByDueDay', () => {
+  it('should group tasks by due day and leave out undated tasks', () => {
+    const byDay = groupTasksByDueDay(board);
+
+    expect(Array.from(byDay.keys()).sort()).toEqual(['2024-01-05', '2024-01-10']);
+    expect(byDay.get('2024-01-10')?.map((task) => task.title)).toEqual(['Write docs']);
+  });
+});
+
+describe('getRescheduledDueDate', () => {
+  it('should keep the time of day', () => {
+    expect(getRescheduledDueDate({ due_date: '2024-01-10T15:30:00.000Z' }, '2024-01-12')).toBe(
+      '2024-01-12T15:30:00.000Z'
+    );
+  });
+
+  it('should use midnight for tasks without a due date', () => {
+    expect(getRescheduledDueDate({ due_date: null }, '2024-01-12')).toBe(
+      '2024-01-12T00:00:00.000Z'
+    );
+  });
+});
+
+describe('getTaskStartDay', () => {
+  const dates = { start_date: null, created_at: '2024-01-03T09:00:00Z' };
+
+  it('should start on the start date when there is one', () => {
+    expect(getTaskStartDay({ ...dates, start_date: '2023-12-28T00:00:00Z', due_date: null })).toBe(
+      '2023-12-28'
+    );
+  });
+
+  it('should fall back to the creation day, or the due day when that is earlier', () => {
+    expect(getTaskStartDay({ ...dates, due_date: '2024-01-05T00:00:00Z' })).toBe('2024-01-03');
+    expect(getTaskStartDay({ ...dates, due_date: '2024-01-01T00:00:00Z' })).toBe('2024-01-01');
+  });
+});
+
+describe('getTimelineGroups', () => {
+  it('should place bars relative to the range, per status', () => {
+    const groups = getTimelineGroups(board, '2024-01-01', 28);
+
+    expect(groups.map((group) => group.status.id)).toEqual(['todo', 'done']);
+    expect(groups[0].items).toEqual([
+      expect.objectContaining({ offset: 0, span: 10, clippedStart: false, clippedEnd: false }),
+    ]);
+    expect(groups[1].items).toEqual([
+      expect.objectContaining({ offset: 2, span: 3, clippedStart: false, clippedEnd: false }),
+    ]);
+  });
+
+  it('should clip bars at the edges and drop tasks outside the range', () => {
+    const groups = getTimelineGroups(board, '2024-01-04', 3);
+
+    expect(groups[0].items).toEqual([
+      expect.objectContaining({ offset: 0, span: 3, clippedStart: true, clippedEnd: true }),
+    ]);
+    expect(groups[1].items).toEqual([
+      expect.objectContaining({ offset: 0, span: 2, clippedStart: true, clippedEnd: false }),
+    ]);
+    expect(getTimelineGroups(board, '2024-01-11', 7).flatMap((group) => group.items)).toEqual([]);
+  });
+});
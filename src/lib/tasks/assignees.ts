@@ -0,0 +1,219 @@
+/**
+ * Task assignee helpers for API routes
+ * Validates assignees against board membership and keeps task_assignees in sync
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import type { TaskAssignee } from '@/types/board';
+import { notifyUsers } from '@/lib/notifications';
+
+type Supabase = SupabaseClient<Database>;
+
+/**
+ * Select clause for assignees joined with their public profile fields
+ */
+export const TASK_ASSIGNEE_SELECT = '*, profile:profiles(id, email, display_name, avatar_url)';
+
+/**
+ * Select clause for tasks with their assignees embedded
+ */
+export const TASK_WITH_ASSIGNEES_SELECT =
+  `*, assignees:task_assignees(${TASK_ASSIGNEE_SELECT})` as const;
+
+/**
+ * Get the IDs of every user who can be assigned on a board (owner + members)
+ */
+export async function getAssignableUserIds(
+  supabase: Supabase,
+  boardId: string
+): Promise<Set<string>> {
+  const [{ data: board }, { data: members }] = await Promise.all([
+    supabase.from('boards').select('user_id').eq('id', boardId).single(),
+    supabase.from('board_members').select('user_id').eq('board_id', boardId),
+  ]);
+
+  const userIds = new Set((members || []).map((m) => m.user_id));
+  if (board) {
+    userIds.add(board.user_id);
+  }
+
+  return userIds;
+}
+
+/**
+ * Return the subset of user IDs that are not members of the board
+ */
+export async function findNonMemberIds(
+  supabase: Supabase,
+  boardId: string,
+  userIds: string[]
+): Promise<string[]> {
+  if (userIds.length === 0) return [];
+
+  const assignable = await getAssignableUserIds(supabase, boardId);
+  return userIds.filter((id) => !assignable.has(id));
+}
+
+/**
+ * Replace a task's assignees with the given set
+ * Returns which users were newly added and which were removed
+ */
+export async function syncTaskAssignees(
+  supabase: Supabase,
+  taskId: string,
+  assigneeIds: string[],
+  assignedBy: string
+): Promise<{ added: string[]; removed: string[] }> {
+  const { data: existing } = await supabase
+    .from('task_assignees')
+    .select('user_id')
+    .eq('task_id', taskId);
+
+  const currentIds = new Set((existing || []).map((a) => a.user_id));
+  const nextIds = new Set(assigneeIds);
+
+  const added = assigneeIds.filter((id) => !currentIds.has(id));
+  const removed = [...currentIds].filter((id) => !nextIds.has(id));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('task_assignees')
+      .delete()
+      .eq('task_id', taskId)
+      .in('user_id', removed);
+
+    if (error) throw error;
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('task_assignees')
+      .insert(
+        added.map((userId) => ({ task_id: taskId, user_id: userId, assigned_by: assignedBy }))
+      );
+
+    if (error) throw error;
+  }
+
+  return { added, removed };
+}
+
+/**
+ * Fetch a task's assignees with profiles
+ */
+export async function getTaskAssignees(
+  supabase: Supabase,
+  taskId: string
+): Promise<TaskAssignee[]> {
+  const { data } = await supabase
+    .from('task_assignees')
+    .select(TASK_ASSIGNEE_SELECT)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  return (data || []) as unknown as TaskAssignee[];
+}
+
+/**
+ * Send task_assigned notifications (and emails) to newly assigned users
+ */
+export async function notifyAssignees(
+  supabase: Supabase,
+  options: {
+    boardId: string;
+    task: { id: string; title: string };
+    assigneeIds: string[];
+    assignedBy: string;
+  }
+): Promise<void> {
+  const { boardId, task, assigneeIds, assignedBy } = options;
+  if (assigneeIds.length === 0) return;
+
+  const [{ data: board }, { data: assigner }] = await Promise.all([
+    supabase.from('boards').select('name').eq('id', boardId).single(),
+    supabase.from('profiles').select('display_name, email').eq('id', assignedBy).single(),
+  ]);
+
+  const assignerName = assigner?.display_name || assigner?.email || 'Someone';
+
+  await notifyUsers(supabase, {
+    type: 'task_assigned',
+    recipientIds: assigneeIds,
+    actorId: assignedBy,
+    title: 'Task Assigned',
+    message: `${assignerName} assigned you to "${task.title}"`,
+    boardId,
+    taskId: task.id,
+    emailData: {
+      assignerName,
+      boardName: board?.name,
+      boardId,
+      taskTitle: task.title,
+      taskId: task.id,
+    },
+  });
+}
+
+/** How task fields read in task_updated notifications */
+const TASK_FIELD_LABELS: Record<string, string> = {
+  title: 'the title',
+  description: 'the description',
+  status_id: 'the column',
+  priority: 'the priority',
+  tags: 'the tags',
+  assignee_name: 'the assignee',
+  assignee_color: 'the assignee',
+  assignee_ids: 'the assignees',
+  due_date: 'the due date',
+  start_date: 'the start date',
+  estimate: 'the estimate',
+  estimate_unit: 'the estimate',
+  lane: 'the lane',
+  recurrence_rule: 'the recurrence',
+};
+
+/**
+ * Describe changed task fields as a list, e.g. "the title and the due date"
+ */
+export function describeTaskFields(fields: string[]): string {
+  const labels = [...new Set(fields.map((field) => TASK_FIELD_LABELS[field] ?? field))];
+  if (labels.length <= 1) return labels[0] ?? 'the task';
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+/**
+ * Send task_moved or task_updated notifications to the task's assignees and to
+ * everyone watching the task or board
+ * `change` completes a sentence that starts with the actor's name
+ */
+export async function notifyTaskChange(
+  supabase: Supabase,
+  options: {
+    type: 'task_moved' | 'task_updated';
+    boardId: string;
+    task: { id: string; title: string };
+    actorId: string;
+    change: string;
+  }
+): Promise<void> {
+  const { type, boardId, task, actorId, change } = options;
+
+  const [{ data: assignees }, { data: actor }] = await Promise.all([
+    supabase.from('task_assignees').select('user_id').eq('task_id', task.id),
+    supabase.from('profiles').select('display_name, email').eq('id', actorId).single(),
+  ]);
+
+  const actorName = actor?.display_name || actor?.email || 'Someone';
+
+  await notifyUsers(supabase, {
+    type,
+    recipientIds: (assignees || []).map((a) => a.user_id),
+    actorId,
+    includeWatchers: true,
+    title: type === 'task_moved' ? 'Task Moved' : 'Task Updated',
+    message: `${actorName} ${change}`,
+    boardId,
+    taskId: task.id,
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Bulk task actions
+ * One action applied to several selected tasks; the route writes them in one transaction
+ * and the board applies the same changes optimistically
+ */
+
+import type { BulkTaskAction } from '@/lib/validation';
+import type { BoardWithData, Profile, Task, TaskAssignee } from '@/types/board';
+
+/** Most tasks one bulk request may change */
+export const BULK_TASK_LIMIT = 100;
+
+/** Tags allowed per task, as in the tag validation */
+const MAX_TAGS = 10;
+
+/** Task fields a bulk action reads, so routes can pass a partial select */
+type BulkActionTarget = Pick<Task, 'status_id' | 'priority' | 'tags' | 'due_date'> & {
+  assignees?: Pick<TaskAssignee, 'user_id'>[];
+};
+
+/** Changes a bulk action makes to one task */
+export type BulkTaskUpdates = Partial<
+  Pick<Task, 'status_id' | 'priority' | 'tags' | 'due_date'>
+> & {
+  assignee_ids?: string[];
+};
+
+/**
+ * Fields a bulk action changes on one task, or null when it leaves the task as it is
+ * Deletes are not field changes and always return null
+ */
+export function getBulkTaskUpdates(
+  task: BulkActionTarget,
+  action: BulkTaskAction
+): BulkTaskUpdates | null {
+  const tags = task.tags || [];
+
+  switch (action.type) {
+    case 'move':
+      return task.status_id !== action.status_id ? { status_id: action.status_id } : null;
+    case 'set_priority':
+      return task.priority !== action.priority ? { priority: action.priority } : null;
+    case 'add_tag':
+      return tags.includes(action.tag) ? null : { tags: [...tags, action.tag] };
+    case 'remove_tag':
+      return tags.includes(action.tag) ? { tags: tags.filter((tag) => tag !== action.tag) } : null;
+    case 'set_due_date':
+      return task.due_date !== action.due_date ? { due_date: action.due_date } : null;
+    case 'assign': {
+      const currentIds = (task.assignees || []).map((assignee) => assignee.user_id);
+      const unchanged =
+        currentIds.length === action.assignee_ids.length &&
+        action.assignee_ids.every((id) => currentIds.includes(id));
+      return unchanged ? null : { assignee_ids: action.assignee_ids };
+    }
+    case 'delete':
+      return null;
+  }
+}
+
+/**
+ * Selected tasks that would end up with more tags than allowed
+ */
+export function findTasksOverTagLimit<T extends Pick<Task, 'tags'>>(
+  tasks: T[],
+  action: BulkTaskAction
+): T[] {
+  if (action.type !== 'add_tag') return [];
+  return tasks.filter((task) => {
+    const tags = task.tags || [];
+    return !tags.includes(action.tag) && tags.length >= MAX_TAGS;
+  });
+}
+
+/**
+ * The board after a bulk action, for optimistic updates
+ * Moved tasks go to the end of their new column in selection order; `profiles` fill in
+ * new assignees so their avatars show straight away
+ */
+export function applyBulkAction(
+  board: BoardWithData,
+  taskIds: string[],
+  action: BulkTaskAction,
+  profiles: Profile[] = []
+): BoardWithData {
+  const selected = new Set(taskIds);
+
+  if (action.type === 'delete') {
+    return {
+      ...board,
+      statuses: board.statuses.map((status) => ({
+        ...status,
+        tasks: status.tasks.filter((task) => !selected.has(task.id)),
+      })),
+    };
+  }
+
+  if (action.type === 'move') {
+    const moving = taskIds.flatMap((id) => {
+      const task = board.statuses
+        .flatMap((status) => status.tasks)
+        .find((t) => t.id === id && t.status_id !== action.status_id);
+      return task ? [task] : [];
+    });
+    const movingIds = new Set(moving.map((task) => task.id));
+
+    return {
+      ...board,
+      statuses: board.statuses.map((status) => {
+        const tasks = status.tasks.filter((task) => !movingIds.has(task.id));
+        if (status.id !== action.status_id) return { ...status, tasks };
+
+        const lastOrder = tasks.reduce((max, task) => Math.max(max, task.order), -1);
+        return {
+          ...status,
+          tasks: [
+            ...tasks,
+            ...moving.map((task, index) => ({
+              ...task,
+              status_id: status.id,
+              order: lastOrder + 1 + index,
+            })),
+          ],
+        };
+      }),
+    };
+  }
+
+  const applyToTask = (task: Task): Task => {
+    const updates = getBulkTaskUpdates(task, action);
+    if (!updates) return task;
+
+    const { assignee_ids, ...fields } = updates;
+    if (!assignee_ids) return { ...task, ...fields };
+
+    const current = task.assignees || [];
+    const assignees = assignee_ids.map(
+      (userId): TaskAssignee =>
+        current.find((a) => a.user_id === userId) || {
+          id: `temp-${userId}`,
+          task_id: task.id,
+          user_id: userId,
+          assigned_by: null,
+          created_at: new Date().toISOString(),
+          profile: profiles.find((profile) => profile.id === userId),
+        }
+    );
+    return { ...task, ...fields, assignees };
+  };
+
+  return {
+    ...board,
+    statuses: board.statuses.map((status) => ({
+      ...status,
+      tasks: status.tasks.map((task) => (selected.has(task.id) ? applyToTask(task) : task)),
+    })),
+  };
+}
+
+/**
+ * Past-tense summary for toasts and undo labels, e.g. "Moved 3 tasks to Done"
+ */
+export function describeBulkAction(
+  action: BulkTaskAction,
+  count: number,
+  statusName?: string
+): string {
+  const tasks = count === 1 ? '1 task' : `${count} tasks`;
+
+  switch (action.type) {
+    case 'move':
+      return `Moved ${tasks} to ${statusName ?? 'another column'}`;
+    case 'set_priority':
+      return action.priority
+        ? `Set ${tasks} to ${action.priority} priority`
+        : `Cleared the priority of ${tasks}`;
+    case 'add_tag':
+      return `Tagged ${tasks} "${action.tag}"`;
+    case 'remove_tag':
+      return `Removed "${action.tag}" from ${tasks}`;
+    case 'set_due_date':
+      return action.due_date ? `Set the due date of ${tasks}` : `Cleared the due date of ${tasks}`;
+    case 'assign':
+      return action.assignee_ids.length > 0 ? `Assigned ${tasks}` : `Unassigned ${tasks}`;
+    case 'delete':
+      return `Deleted ${tasks}`;
+  }
+}
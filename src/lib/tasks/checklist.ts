@@ -0,0 +1,94 @@
+/**
+ * Checklist helpers
+ * Shared by the checklist API routes and the progress shown on task cards
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import type { ChecklistItem } from '@/types/board';
+
+type Supabase = SupabaseClient<Database>;
+
+/**
+ * Select clause for checklist items joined with the assignee's public profile
+ */
+export const CHECKLIST_ITEM_SELECT = '*, assignee:profiles(id, email, display_name, avatar_url)';
+
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Count completed items, including nested ones
+ */
+export function getChecklistProgress(
+  items: Pick<ChecklistItem, 'is_completed'>[] | null | undefined
+): ChecklistProgress {
+  const list = items || [];
+  return {
+    completed: list.filter((item) => item.is_completed).length,
+    total: list.length,
+  };
+}
+
+/**
+ * Check that a task belongs to the board before touching its checklist
+ */
+export async function findBoardTask(
+  supabase: Supabase,
+  boardId: string,
+  taskId: string
+): Promise<{ id: string; title: string } | null> {
+  const { data } = await supabase
+    .from('tasks')
+    .select('id, title')
+    .eq('id', taskId)
+    .eq('board_id', boardId)
+    .single();
+
+  return data;
+}
+
+/**
+ * Validate a parent item: it must belong to the same task and be top-level,
+ * so checklists nest at most one level deep
+ * Returns an error message, or null when the parent is valid
+ */
+export async function validateChecklistParent(
+  supabase: Supabase,
+  taskId: string,
+  parentId: string,
+  itemId?: string
+): Promise<string | null> {
+  if (parentId === itemId) {
+    return 'A checklist item cannot be its own parent';
+  }
+
+  const { data: parent } = await supabase
+    .from('checklist_items')
+    .select('id, task_id, parent_id')
+    .eq('id', parentId)
+    .single();
+
+  if (!parent || parent.task_id !== taskId) {
+    return 'Parent item not found in this task';
+  }
+
+  if (parent.parent_id) {
+    return 'Checklist items can only be nested one level deep';
+  }
+
+  if (itemId) {
+    const { count } = await supabase
+      .from('checklist_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', itemId);
+
+    if (count) {
+      return 'Items with sub-items cannot be nested';
+    }
+  }
+
+  return null;
+}
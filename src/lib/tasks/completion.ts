@@ -0,0 +1,13 @@
+/**
+ * Task completion
+ * Boards have no explicit "done" flag; the last column (e.g. "Done" in every
+ * template) is where finished work goes
+ */
+
+/**
+ * Id of the board's done column, or null for a board without columns
+ */
+export function getDoneStatusId(statuses: { id: string; order: number }[]): string | null {
+  if (statuses.length === 0) return null;
+  return statuses.reduce((last, status) => (status.order > last.order ? status : last)).id;
+}
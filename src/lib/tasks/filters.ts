@@ -0,0 +1,195 @@
+/**
+ * Task filters
+ * One filter model for the board filter bar, the URL, saved filters and the task list API
+ */
+
+import type { BoardWithData, Task, TaskFilters, TaskPriority } from '@/types/board';
+
+/** Query parameter names, shared with the task list API */
+export const TASK_FILTER_KEYS = [
+  'search',
+  'priority',
+  'tags',
+  'assignee_id',
+  'due_after',
+  'due_before',
+] as const;
+
+const PRIORITIES: readonly TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isPriority(value: string | null | undefined): value is TaskPriority {
+  return !!value && (PRIORITIES as readonly string[]).includes(value);
+}
+
+function isDueBound(value: string | null | undefined): value is string {
+  return !!value && (DATE_ONLY_PATTERN.test(value) || !Number.isNaN(Date.parse(value)));
+}
+
+/**
+ * Read filters from URL search params
+ * Values the filter bar cannot show are dropped rather than rejected, since anyone can edit a URL
+ */
+export function parseTaskFilters(params: URLSearchParams): TaskFilters {
+  const filters: TaskFilters = {};
+
+  const search = params.get('search')?.trim();
+  if (search) filters.search = search.slice(0, 200);
+
+  const priority = params.get('priority');
+  if (isPriority(priority)) filters.priority = priority;
+
+  const tags = [...new Set(params.getAll('tags').map((tag) => tag.trim()))].filter(Boolean);
+  if (tags.length > 0) filters.tags = tags.slice(0, 10);
+
+  const assigneeId = params.get('assignee_id');
+  if (assigneeId && UUID_PATTERN.test(assigneeId)) filters.assignee_id = assigneeId;
+
+  const dueAfter = params.get('due_after');
+  if (isDueBound(dueAfter)) filters.due_after = dueAfter;
+
+  const dueBefore = params.get('due_before');
+  if (isDueBound(dueBefore)) filters.due_before = dueBefore;
+
+  return filters;
+}
+
+/**
+ * Write filters into search params, keeping unrelated params (e.g. an open task)
+ */
+export function toTaskFilterParams(
+  filters: TaskFilters,
+  base: URLSearchParams | string = ''
+): URLSearchParams {
+  const params = new URLSearchParams(base);
+  TASK_FILTER_KEYS.forEach((key) => params.delete(key));
+
+  if (filters.search?.trim()) params.set('search', filters.search.trim());
+  if (filters.priority) params.set('priority', filters.priority);
+  filters.tags?.forEach((tag) => params.append('tags', tag));
+  if (filters.assignee_id) params.set('assignee_id', filters.assignee_id);
+  if (filters.due_after) params.set('due_after', filters.due_after);
+  if (filters.due_before) params.set('due_before', filters.due_before);
+
+  return params;
+}
+
+/**
+ * Number of filter fields in use; tags count once
+ */
+export function countActiveFilters(filters: TaskFilters): number {
+  return [
+    filters.search?.trim(),
+    filters.priority,
+    filters.tags?.length,
+    filters.assignee_id,
+    filters.due_after,
+    filters.due_before,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Whether two filter sets select the same tasks, ignoring tag order
+ */
+export function areTaskFiltersEqual(a: TaskFilters, b: TaskFilters): boolean {
+  const normalize = (filters: TaskFilters) =>
+    toTaskFilterParams({ ...filters, tags: [...(filters.tags || [])].sort() }).toString();
+  return normalize(a) === normalize(b);
+}
+
+export interface DueRange {
+  gte?: string;
+  lt?: string;
+  lte?: string;
+}
+
+/**
+ * Timestamp bounds for the due date filters
+ * Calendar days are whole UTC days, matching how due dates are stored (UTC midnight),
+ * so due_before includes its day; an exact timestamp bound is used as given
+ */
+export function getDueRange(filters: Pick<TaskFilters, 'due_after' | 'due_before'>): DueRange {
+  const range: DueRange = {};
+
+  if (filters.due_after) {
+    range.gte = DATE_ONLY_PATTERN.test(filters.due_after)
+      ? `${filters.due_after}T00:00:00.000Z`
+      : new Date(filters.due_after).toISOString();
+  }
+
+  if (filters.due_before) {
+    if (DATE_ONLY_PATTERN.test(filters.due_before)) {
+      const nextDay = new Date(`${filters.due_before}T00:00:00.000Z`);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      range.lt = nextDay.toISOString();
+    } else {
+      range.lte = new Date(filters.due_before).toISOString();
+    }
+  }
+
+  return range;
+}
+
+/**
+ * Whether a task passes every filter; the same rules the task list API applies
+ */
+export function matchesTaskFilters(task: Task, filters: TaskFilters): boolean {
+  const search = filters.search?.trim().toLowerCase();
+  if (
+    search &&
+    !task.title.toLowerCase().includes(search) &&
+    !(task.description || '').toLowerCase().includes(search)
+  ) {
+    return false;
+  }
+
+  if (filters.priority && task.priority !== filters.priority) return false;
+
+  if (filters.tags?.length && !filters.tags.some((tag) => task.tags.includes(tag))) return false;
+
+  if (
+    filters.assignee_id &&
+    !(task.assignees || []).some((assignee) => assignee.user_id === filters.assignee_id)
+  ) {
+    return false;
+  }
+
+  if (filters.due_after || filters.due_before) {
+    if (!task.due_date) return false;
+
+    const due = Date.parse(task.due_date);
+    const range = getDueRange(filters);
+    if (range.gte && due < Date.parse(range.gte)) return false;
+    if (range.lt && due >= Date.parse(range.lt)) return false;
+    if (range.lte && due > Date.parse(range.lte)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * The board with only the tasks that pass the filters; the board itself when none are set
+ */
+export function filterBoardTasks(board: BoardWithData, filters: TaskFilters): BoardWithData {
+  if (countActiveFilters(filters) === 0) return board;
+
+  return {
+    ...board,
+    statuses: board.statuses.map((status) => ({
+      ...status,
+      tasks: status.tasks.filter((task) => matchesTaskFilters(task, filters)),
+    })),
+  };
+}
+
+/**
+ * Every tag used on the board, sorted, for the tag filter
+ */
+export function getBoardTags(board: BoardWithData): string[] {
+  const tags = new Set<string>();
+  board.statuses.forEach((status) =>
+    status.tasks.forEach((task) => task.tags.forEach((tag) => tags.add(tag)))
+  );
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,144 @@
+/**
+ * Task helpers
+ * Assignee, checklist, WIP limit, swimlane, filter, completion, recurrence, keyboard navigation,
+ * bulk action, board view and time tracking logic shared by API routes and board components
+ */
+
+export {
+  TASK_ASSIGNEE_SELECT,
+  TASK_WITH_ASSIGNEES_SELECT,
+  getAssignableUserIds,
+  findNonMemberIds,
+  syncTaskAssignees,
+  getTaskAssignees,
+  notifyAssignees,
+  notifyTaskChange,
+  describeTaskFields,
+} from './assignees';
+
+export {
+  CHECKLIST_ITEM_SELECT,
+  getChecklistProgress,
+  findBoardTask,
+  validateChecklistParent,
+  type ChecklistProgress,
+} from './checklist';
+
+export {
+  checkWipLimit,
+  formatWipLimitMessage,
+  getWipLimitCheck,
+  getWipLimitWarning,
+  type WipLimitCheck,
+} from './wipLimits';
+
+export {
+  SWIMLANE_GROUPINGS,
+  isSwimlaneGrouping,
+  getLaneKey,
+  getTaskLaneValue,
+  buildSwimlanes,
+  getLaneCellId,
+  parseLaneCellId,
+  getTagsForLane,
+  getAssigneeIdsForLane,
+  applyLaneChange,
+  type SwimlaneGrouping,
+  type Swimlane,
+  type LaneChange,
+} from './swimlanes';
+
+export {
+  TASK_FILTER_KEYS,
+  parseTaskFilters,
+  toTaskFilterParams,
+  countActiveFilters,
+  areTaskFiltersEqual,
+  getDueRange,
+  matchesTaskFilters,
+  filterBoardTasks,
+  getBoardTags,
+  type DueRange,
+} from './filters';
+
+export { getDoneStatusId } from './completion';
+
+export {
+  WEEKDAYS,
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getNextOccurrenceRule,
+  describeRecurrence,
+  getPresetRule,
+  getRecurrencePreset,
+  toUtcDay,
+  type RecurrenceFrequency,
+  type RecurrenceParseResult,
+  type RecurrencePreset,
+  type RecurrenceRule,
+  type RecurrenceWeekday,
+  type Weekday,
+} from './recurrence';
+
+export { spawnNextOccurrence } from './occurrences';
+
+export {
+  getNavigationColumns,
+  getAdjacentTaskId,
+  type NavigationColumn,
+  type NavigationDirection,
+} from './navigation';
+
+export {
+  BULK_TASK_LIMIT,
+  getBulkTaskUpdates,
+  findTasksOverTagLimit,
+  applyBulkAction,
+  describeBulkAction,
+  type BulkTaskUpdates,
+} from './bulk';
+
+export {
+  BOARD_VIEWS,
+  isBoardView,
+  toDayKey,
+  addDays,
+  daysBetween,
+  TABLE_COLUMNS,
+  DEFAULT_TABLE_COLUMNS,
+  isTableColumn,
+  getTableRows,
+  getNextTableSort,
+  isCalendarMode,
+  getCalendarDays,
+  shiftCalendarAnchor,
+  groupTasksByDueDay,
+  getRescheduledDueDate,
+  getTaskStartDay,
+  getTimelineGroups,
+  type BoardView,
+  type TableColumn,
+  type TableSort,
+  type TableRow,
+  type CalendarMode,
+  type TimelineItem,
+  type TimelineGroup,
+} from './views';
+
+export {
+  TIME_ENTRY_SELECT,
+  MAX_ENTRY_MINUTES,
+  ESTIMATE_UNITS,
+  isStartAfterDue,
+  getEntryMinutes,
+  getTrackedMinutes,
+  findRunningEntry,
+  getTrackedByUser,
+  formatDuration,
+  parseDuration,
+  buildTimeReport,
+  type UserTimeTotal,
+  type TimeRollup,
+  type TimeReport,
+} from './timeTracking';
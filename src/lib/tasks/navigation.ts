@@ -0,0 +1,73 @@
+/**
+ * Board keyboard navigation
+ * Cards are laid out as columns of task IDs in the order they appear on screen
+ */
+
+import type { BoardWithData } from '@/types/board';
+import { getLaneKey, getTaskLaneValue, type Swimlane, type SwimlaneGrouping } from './swimlanes';
+
+export type NavigationDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface NavigationColumn {
+  statusId: string;
+  taskIds: string[];
+}
+
+/**
+ * Visible cards per status column, top to bottom
+ * With swimlanes a column runs through every expanded lane in lane order
+ */
+export function getNavigationColumns(
+  board: BoardWithData,
+  swimlanes?: {
+    grouping: SwimlaneGrouping;
+    lanes: Swimlane[];
+    collapsedLanes: Set<string>;
+  } | null
+): NavigationColumn[] {
+  return board.statuses.map((status) => {
+    if (!swimlanes) {
+      return { statusId: status.id, taskIds: status.tasks.map((task) => task.id) };
+    }
+
+    const taskIds = swimlanes.lanes
+      .filter((lane) => !swimlanes.collapsedLanes.has(lane.key))
+      .flatMap((lane) =>
+        status.tasks
+          .filter((task) => getLaneKey(getTaskLaneValue(task, swimlanes.grouping)) === lane.key)
+          .map((task) => task.id)
+      );
+    return { statusId: status.id, taskIds };
+  });
+}
+
+/**
+ * Card to focus after moving from `taskId` in a direction
+ * Up and down stop at the ends of a column; left and right skip empty columns and keep
+ * the row where possible. Without a current card the first card on the board is picked.
+ * Returns null when there is nowhere to go.
+ */
+export function getAdjacentTaskId(
+  columns: NavigationColumn[],
+  taskId: string | null,
+  direction: NavigationDirection
+): string | null {
+  const columnIndex = taskId ? columns.findIndex((column) => column.taskIds.includes(taskId)) : -1;
+  if (columnIndex === -1) {
+    return columns.find((column) => column.taskIds.length > 0)?.taskIds[0] ?? null;
+  }
+
+  const { taskIds } = columns[columnIndex];
+  const row = taskIds.indexOf(taskId!);
+
+  if (direction === 'up' || direction === 'down') {
+    return taskIds[direction === 'up' ? row - 1 : row + 1] ?? null;
+  }
+
+  const step = direction === 'left' ? -1 : 1;
+  for (let i = columnIndex + step; i >= 0 && i < columns.length; i += step) {
+    const target = columns[i].taskIds;
+    if (target.length > 0) return target[Math.min(row, target.length - 1)];
+  }
+  return null;
+}
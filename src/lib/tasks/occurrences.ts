@@ -0,0 +1,125 @@
+/**
+ * Recurring task occurrences for API routes
+ * Finishing a recurring task (moving it into the done column) creates the next one
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import type { Task } from '@/types/board';
+import { TASK_WITH_ASSIGNEES_SELECT, syncTaskAssignees } from './assignees';
+import { getDoneStatusId } from './completion';
+import {
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getNextOccurrenceRule,
+  parseRecurrenceRule,
+} from './recurrence';
+
+type Supabase = SupabaseClient<Database>;
+
+/**
+ * Create the next occurrence of a recurring task that is now in the done column
+ * The copy keeps the task's details and assignees, goes to the end of the first column and
+ * is due on the rule's next day that is not already in the past. Returns null when the task
+ * is not recurring, not done, already has a next occurrence or its series has ended.
+ * A failed insert is logged and also returns null: the move that finished the task has
+ * already been saved and should not fail because of it.
+ */
+export async function spawnNextOccurrence(
+  supabase: Supabase,
+  options: { boardId: string; taskId: string; actorId: string; now?: Date }
+): Promise<Task | null> {
+  const { boardId, taskId, actorId, now = new Date() } = options;
+
+  const [{ data: task }, { data: statuses }] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('*, assignees:task_assignees(user_id, created_at)')
+      .eq('id', taskId)
+      .eq('board_id', boardId)
+      .single(),
+    supabase.from('statuses').select('id, order').eq('board_id', boardId),
+  ]);
+
+  if (!task?.recurrence_rule || task.next_occurrence_id || !statuses) return null;
+  if (task.status_id !== getDoneStatusId(statuses)) return null;
+
+  const parsed = parseRecurrenceRule(task.recurrence_rule);
+  if (!parsed.success) return null;
+
+  const dueDate = getNextOccurrence(parsed.rule, task.due_date ?? now, now);
+  if (!dueDate) return null;
+
+  // Keep the same lead time between start and due date
+  const startDate =
+    task.start_date && task.due_date
+      ? new Date(dueDate.getTime() - (Date.parse(task.due_date) - Date.parse(task.start_date)))
+      : null;
+
+  const firstStatusId = statuses.reduce((first, status) =>
+    status.order < first.order ? status : first
+  ).id;
+
+  const { data: maxOrder } = await supabase
+    .from('tasks')
+    .select('order')
+    .eq('status_id', firstStatusId)
+    .order('order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: created, error } = await supabase
+    .from('tasks')
+    .insert({
+      board_id: boardId,
+      status_id: firstStatusId,
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      tags: task.tags,
+      assignee_name: task.assignee_name,
+      assignee_color: task.assignee_color,
+      lane: task.lane,
+      due_date: dueDate.toISOString(),
+      start_date: startDate?.toISOString() ?? null,
+      estimate: task.estimate,
+      estimate_unit: task.estimate_unit,
+      recurrence_rule: formatRecurrenceRule(getNextOccurrenceRule(parsed.rule)),
+      order: (maxOrder?.order ?? -1) + 1,
+    })
+    .select('id')
+    .single();
+
+  if (error || !created) {
+    console.error('Error creating next occurrence:', error);
+    return null;
+  }
+
+  // Claim the spawn; if another request got there first, drop this copy
+  const { data: claimed } = await supabase
+    .from('tasks')
+    .update({ next_occurrence_id: created.id })
+    .eq('id', taskId)
+    .is('next_occurrence_id', null)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    await supabase.from('tasks').delete().eq('id', created.id);
+    return null;
+  }
+
+  const assigneeIds = [...(task.assignees || [])]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((assignee) => assignee.user_id);
+  if (assigneeIds.length > 0) {
+    await syncTaskAssignees(supabase, created.id, assigneeIds, actorId);
+  }
+
+  const { data: occurrence } = await supabase
+    .from('tasks')
+    .select(TASK_WITH_ASSIGNEES_SELECT)
+    .eq('id', created.id)
+    .single();
+
+  return (occurrence as unknown as Task) ?? null;
+}
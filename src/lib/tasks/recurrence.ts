@@ -0,0 +1,380 @@
+/**
+ * Task recurrence
+ * Rules are stored as iCalendar RRULE strings (RFC 5545) and work in whole UTC days,
+ * matching how due dates are stored. Supported parts: FREQ (DAILY, WEEKLY, MONTHLY,
+ * YEARLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/** A BYDAY entry; `ordinal` picks e.g. the first (1) or last (-1) weekday of a month */
+export interface RecurrenceWeekday {
+  day: Weekday;
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  /** Days of the month; negative counts from the end (-1 is the last day) */
+  byMonthDay?: number[];
+  /** Occurrences left, including the current one */
+  count?: number;
+  /** Last allowed day, YYYY-MM-DD */
+  until?: string;
+}
+
+export type RecurrenceParseResult =
+  | { success: true; rule: RecurrenceRule }
+  | { success: false; error: string };
+
+export const WEEKDAYS: readonly Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const FREQUENCIES: readonly RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const MAX_INTERVAL = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Safety bound on how far ahead the next occurrence is searched */
+const MAX_SEARCH_STEPS = 1000;
+
+/**
+ * Parse an RRULE string, with or without the `RRULE:` prefix
+ */
+export function parseRecurrenceRule(value: string): RecurrenceParseResult {
+  const fail = (error: string): RecurrenceParseResult => ({ success: false, error });
+  const source = value.trim().replace(/^RRULE:/i, '');
+  if (!source) return fail('Recurrence rule is empty');
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(';').filter(Boolean)) {
+    const [key, partValue, ...rest] = part.split('=');
+    if (!key || partValue === undefined || rest.length > 0) {
+      return fail(`Invalid rule part "${part}"`);
+    }
+    const name = key.trim().toUpperCase();
+    if (parts.has(name)) return fail(`${name} is given more than once`);
+    parts.set(name, partValue.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq) return fail('FREQ is required');
+  if (!FREQUENCIES.includes(freq)) return fail('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+
+      case 'INTERVAL': {
+        const interval = Number(partValue);
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+          return fail(`INTERVAL must be a whole number from 1 to ${MAX_INTERVAL}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+
+      case 'BYDAY': {
+        if (freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+          return fail('BYDAY needs FREQ=WEEKLY or FREQ=MONTHLY');
+        }
+        const days: RecurrenceWeekday[] = [];
+        for (const entry of partValue.split(',')) {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(entry);
+          if (!match) return fail(`Invalid BYDAY value "${entry}"`);
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined) {
+            if (freq !== 'MONTHLY') return fail('Numbered BYDAY values need FREQ=MONTHLY');
+            if (ordinal === 0 || Math.abs(ordinal) > 5)
+              return fail(`Invalid BYDAY value "${entry}"`);
+          }
+          days.push({ day: match[2] as Weekday, ...(ordinal !== undefined && { ordinal }) });
+        }
+        rule.byDay = days;
+        break;
+      }
+
+      case 'BYMONTHDAY': {
+        if (freq !== 'MONTHLY') return fail('BYMONTHDAY needs FREQ=MONTHLY');
+        const days = partValue.split(',').map(Number);
+        if (days.some((day) => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31)) {
+          return fail('BYMONTHDAY days must be from 1 to 31 or -1 to -31');
+        }
+        rule.byMonthDay = [...new Set(days)];
+        break;
+      }
+
+      case 'COUNT': {
+        const count = Number(partValue);
+        if (!Number.isInteger(count) || count < 1 || count > 1000) {
+          return fail('COUNT must be a whole number from 1 to 1000');
+        }
+        rule.count = count;
+        break;
+      }
+
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(partValue);
+        const until = match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+        if (!match || Number.isNaN(Date.parse(until))) {
+          return fail('UNTIL must be a date like 20261231');
+        }
+        rule.until = until;
+        break;
+      }
+
+      default:
+        return fail(`${name} is not supported`);
+    }
+  }
+
+  if (rule.byDay && rule.byMonthDay) return fail('Use either BYDAY or BYMONTHDAY, not both');
+  if (rule.count !== undefined && rule.until) return fail('Use either COUNT or UNTIL, not both');
+
+  return { success: true, rule };
+}
+
+/**
+ * Canonical RRULE string for a rule, without the `RRULE:` prefix
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(({ day, ordinal }) => `${ordinal ?? ''}${day}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/** Monday-based weekday index, matching WEEKDAYS */
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Midnight UTC of the day the timestamp falls on */
+export function toUtcDay(date: Date | string): Date {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
+
+/**
+ * Days of one month a MONTHLY rule falls on, sorted
+ * Days past the end of a short month fall on its last day
+ */
+function getMonthDays(rule: RecurrenceRule, year: number, month: number, anchorDay: number) {
+  const length = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  if (rule.byDay?.length) {
+    const firstWeekday = weekdayIndex(new Date(Date.UTC(year, month, 1)));
+    for (const { day, ordinal } of rule.byDay) {
+      const first = ((WEEKDAYS.indexOf(day) - firstWeekday + 7) % 7) + 1;
+      const matches: number[] = [];
+      for (let d = first; d <= length; d += 7) matches.push(d);
+
+      if (ordinal === undefined) matches.forEach((d) => days.add(d));
+      else {
+        const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (picked !== undefined) days.add(picked);
+      }
+    }
+  } else {
+    for (const day of rule.byMonthDay ?? [anchorDay]) {
+      days.add(day > 0 ? Math.min(day, length) : Math.max(1, length + day + 1));
+    }
+  }
+
+  return [...days].sort((a, b) => a - b);
+}
+
+/** The first occurrence strictly after `from` (a UTC day), ignoring COUNT and UNTIL */
+function stepAfter(rule: RecurrenceRule, from: Date): Date | null {
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(from, rule.interval);
+
+    case 'WEEKLY': {
+      if (!rule.byDay?.length) return addDays(from, 7 * rule.interval);
+
+      const weekStart = addDays(from, -weekdayIndex(from));
+      const days = [...new Set(rule.byDay.map(({ day }) => WEEKDAYS.indexOf(day)))].sort();
+      // Later days this week, otherwise the first day of the next matching week
+      const later = days.find((day) => day > weekdayIndex(from));
+      return later !== undefined
+        ? addDays(weekStart, later)
+        : addDays(weekStart, 7 * rule.interval + days[0]);
+    }
+
+    case 'MONTHLY': {
+      const anchorDay = from.getUTCDate();
+      for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+        const monthIndex = from.getUTCMonth() + step * rule.interval;
+        const year = from.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = ((monthIndex % 12) + 12) % 12;
+        const next = getMonthDays(rule, year, month, anchorDay)
+          .map((day) => new Date(Date.UTC(year, month, day)))
+          .find((date) => date > from);
+        if (next) return next;
+      }
+      return null;
+    }
+
+    case 'YEARLY': {
+      const year = from.getUTCFullYear() + rule.interval;
+      const month = from.getUTCMonth();
+      return new Date(Date.UTC(year, month, Math.min(from.getUTCDate(), daysInMonth(year, month))));
+    }
+  }
+}
+
+/**
+ * Due date of the occurrence after one due on `from`, or null when the series has ended
+ * With `notBefore`, occurrences missed while the task was late are skipped, so a chore
+ * finished two weeks late comes back on its next regular day rather than already overdue
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  from: Date | string,
+  notBefore?: Date | string
+): Date | null {
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const earliest = notBefore ? toUtcDay(notBefore) : null;
+  const until = rule.until ? new Date(`${rule.until}T00:00:00.000Z`) : null;
+  let next = stepAfter(rule, toUtcDay(from));
+
+  for (let step = 0; next && earliest && next < earliest && step < MAX_SEARCH_STEPS; step++) {
+    next = stepAfter(rule, next);
+  }
+
+  if (!next || (until && next > until)) return null;
+  return next;
+}
+
+/**
+ * The rule carried by the next occurrence: one fewer remaining for COUNT
+ */
+export function getNextOccurrenceRule(rule: RecurrenceRule): RecurrenceRule {
+  return rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule;
+}
+
+function ordinalLabel(ordinal: number): string {
+  if (ordinal === -1) return 'last';
+  if (ordinal < 0) return `${ordinalLabel(-ordinal)} to last`;
+  return ['first', 'second', 'third', 'fourth', 'fifth'][ordinal - 1] ?? `${ordinal}th`;
+}
+
+function dayOfMonthLabel(day: number): string {
+  if (day === -1) return 'the last day';
+  if (day < 0) return `${-day} days before month end`;
+  const teen = day >= 11 && day <= 13;
+  const suffix = teen ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[day % 10];
+  return `the ${day}${suffix ?? 'th'}`;
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu" or "Monthly on the last Fri"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    DAILY: ['Daily', 'days'],
+    WEEKLY: ['Weekly', 'weeks'],
+    MONTHLY: ['Monthly', 'months'],
+    YEARLY: ['Yearly', 'years'],
+  };
+  const [single, plural] = units[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single;
+
+  const weekdays = rule.byDay?.map(({ day }) => WEEKDAYS.indexOf(day)).sort();
+  if (rule.freq === 'WEEKLY' && weekdays?.join() === '0,1,2,3,4' && rule.interval === 1) {
+    text = 'Every weekday';
+  } else if (rule.byDay?.length) {
+    text += ` on ${rule.byDay
+      .map(({ day, ordinal }) =>
+        ordinal !== undefined
+          ? `the ${ordinalLabel(ordinal)} ${WEEKDAY_LABELS[day]}`
+          : WEEKDAY_LABELS[day]
+      )
+      .join(', ')}`;
+  } else if (rule.byMonthDay?.length) {
+    text += ` on ${rule.byMonthDay.map(dayOfMonthLabel).join(', ')}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += rule.count === 1 ? ', last time' : `, ${rule.count} more times`;
+  } else if (rule.until) {
+    text += ` until ${rule.until}`;
+  }
+
+  return text;
+}
+
+export type RecurrencePreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'custom';
+
+/**
+ * Rule for a preset picked in the task form; weekly and monthly follow the due date's day
+ */
+export function getPresetRule(
+  preset: Exclude<RecurrencePreset, 'none' | 'custom'>,
+  dueDate?: string | null
+): RecurrenceRule {
+  const day = toUtcDay(dueDate ? new Date(`${dueDate.slice(0, 10)}T00:00:00.000Z`) : new Date());
+
+  switch (preset) {
+    case 'daily':
+      return { freq: 'DAILY', interval: 1 };
+    case 'weekdays':
+      return { freq: 'WEEKLY', interval: 1, byDay: WEEKDAYS.slice(0, 5).map((d) => ({ day: d })) };
+    case 'weekly':
+      return { freq: 'WEEKLY', interval: 1, byDay: [{ day: WEEKDAYS[weekdayIndex(day)] }] };
+    case 'monthly':
+      return { freq: 'MONTHLY', interval: 1, byMonthDay: [day.getUTCDate()] };
+  }
+}
+
+/**
+ * Which preset a stored rule matches, so the form can show it; anything else is custom
+ */
+export function getRecurrencePreset(value: string | null | undefined): RecurrencePreset {
+  if (!value) return 'none';
+
+  const parsed = parseRecurrenceRule(value);
+  if (!parsed.success) return 'custom';
+
+  const { freq, interval, byDay, byMonthDay, count, until } = parsed.rule;
+  if (count !== undefined || until) return 'custom';
+
+  if (freq === 'DAILY') return 'daily';
+  if (freq === 'WEEKLY' && byDay?.length && byDay.every(({ ordinal }) => ordinal === undefined)) {
+    const weekdays = formatRecurrenceRule(parsed.rule) === 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    return weekdays && interval === 1 ? 'weekdays' : 'weekly';
+  }
+  if (freq === 'MONTHLY' && byMonthDay?.length === 1 && byMonthDay[0] > 0) return 'monthly';
+  return 'custom';
+}
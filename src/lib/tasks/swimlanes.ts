@@ -0,0 +1,205 @@
+/**
+ * Swimlane helpers
+ * Groups tasks into horizontal lanes and works out the attribute change when a task changes lane
+ */
+
+import type { BoardWithData, Profile, Task, TaskAssignee, TaskPriority } from '@/types/board';
+
+type LaneProfile = Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'>;
+
+export type SwimlaneGrouping = 'priority' | 'assignee' | 'tag' | 'lane';
+
+export const SWIMLANE_GROUPINGS: { value: SwimlaneGrouping; label: string }[] = [
+  { value: 'priority', label: 'Priority' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'tag', label: 'Tag' },
+  { value: 'lane', label: 'Lane' },
+];
+
+export interface Swimlane {
+  /** Unique within the grouping, also used in droppable IDs */
+  key: string;
+  label: string;
+  /** Attribute value shared by tasks in the lane, null for the catch-all lane */
+  value: string | null;
+  /** Set for assignee lanes */
+  profile?: LaneProfile;
+}
+
+/**
+ * Attribute change applied to a task dragged into another lane
+ */
+export interface LaneChange {
+  field: SwimlaneGrouping;
+  value: string | null;
+}
+
+const NO_VALUE_KEY = 'none';
+
+const PRIORITY_LANES: { value: TaskPriority; label: string }[] = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const EMPTY_LANE_LABELS: Record<SwimlaneGrouping, string> = {
+  priority: 'No priority',
+  assignee: 'Unassigned',
+  tag: 'No tag',
+  lane: 'No lane',
+};
+
+export function isSwimlaneGrouping(value: unknown): value is SwimlaneGrouping {
+  return SWIMLANE_GROUPINGS.some((g) => g.value === value);
+}
+
+/**
+ * Lane key for an attribute value
+ */
+export function getLaneKey(value: string | null): string {
+  return value === null ? NO_VALUE_KEY : `v:${value}`;
+}
+
+/**
+ * Value a task is grouped by
+ * Tasks with several tags sit in the lane of their first tag, and tasks with several
+ * assignees in the lane of the most recently assigned user, so a drop always lands
+ * in the lane it was dropped on
+ */
+export function getTaskLaneValue(task: Task, grouping: SwimlaneGrouping): string | null {
+  switch (grouping) {
+    case 'priority':
+      return task.priority;
+    case 'assignee':
+      return task.assignees?.[task.assignees.length - 1]?.user_id ?? null;
+    case 'tag':
+      return task.tags?.[0] ?? null;
+    case 'lane':
+      return task.lane;
+  }
+}
+
+/**
+ * Build the ordered lanes for a board, ending with the catch-all lane
+ * Board members are passed in so assignee lanes exist for users with no tasks yet
+ */
+export function buildSwimlanes(
+  board: BoardWithData,
+  grouping: SwimlaneGrouping,
+  members: LaneProfile[] = []
+): Swimlane[] {
+  const tasks = board.statuses.flatMap((status) => status.tasks);
+  let lanes: Swimlane[];
+
+  if (grouping === 'priority') {
+    lanes = PRIORITY_LANES.map(({ value, label }) => ({ key: getLaneKey(value), label, value }));
+  } else if (grouping === 'assignee') {
+    const profiles = new Map(members.map((profile) => [profile.id, profile]));
+    tasks.forEach((task) =>
+      task.assignees?.forEach((assignee) => {
+        if (!profiles.has(assignee.user_id)) {
+          profiles.set(
+            assignee.user_id,
+            assignee.profile || {
+              id: assignee.user_id,
+              email: 'Unknown user',
+              display_name: null,
+              avatar_url: null,
+            }
+          );
+        }
+      })
+    );
+
+    lanes = [...profiles.values()]
+      .map((profile) => ({
+        key: getLaneKey(profile.id),
+        label: profile.display_name || profile.email,
+        value: profile.id,
+        profile,
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  } else {
+    const values = new Set(
+      tasks.flatMap((task) => (grouping === 'tag' ? task.tags || [] : task.lane ? [task.lane] : []))
+    );
+
+    lanes = [...values]
+      .sort((a, b) => a.localeCompare(b))
+      .map((value) => ({ key: getLaneKey(value), label: value, value }));
+  }
+
+  return [...lanes, { key: getLaneKey(null), label: EMPTY_LANE_LABELS[grouping], value: null }];
+}
+
+/**
+ * Droppable ID for the cell where a lane crosses a status column
+ */
+export function getLaneCellId(statusId: string, laneKey: string): string {
+  return `${statusId}|${laneKey}`;
+}
+
+/**
+ * Split a lane cell droppable ID, or return null for any other ID
+ */
+export function parseLaneCellId(id: string): { statusId: string; laneKey: string } | null {
+  const separator = id.indexOf('|');
+  if (separator === -1) return null;
+
+  return { statusId: id.slice(0, separator), laneKey: id.slice(separator + 1) };
+}
+
+/**
+ * Tags after moving a task into a tag lane
+ * The task's current lane tag is swapped for the new one; the catch-all lane clears all tags
+ */
+export function getTagsForLane(tags: string[], value: string | null): string[] {
+  if (value === null) return [];
+
+  return [value, ...tags.slice(1).filter((tag) => tag !== value)];
+}
+
+/**
+ * Assignee IDs after moving a task into an assignee lane
+ * The task's current lane assignee is swapped for the new one; the catch-all lane unassigns everyone
+ */
+export function getAssigneeIdsForLane(assigneeIds: string[], value: string | null): string[] {
+  if (value === null) return [];
+
+  return [...assigneeIds.slice(0, -1).filter((id) => id !== value), value];
+}
+
+/**
+ * Apply a lane change to a task for optimistic updates
+ * `profile` fills in the new assignee when moving into an assignee lane
+ */
+export function applyLaneChange(task: Task, change: LaneChange, profile?: LaneProfile): Task {
+  switch (change.field) {
+    case 'priority':
+      return { ...task, priority: change.value as TaskPriority | null };
+    case 'lane':
+      return { ...task, lane: change.value };
+    case 'tag':
+      return { ...task, tags: getTagsForLane(task.tags || [], change.value) };
+    case 'assignee': {
+      const current = task.assignees || [];
+      const nextIds = getAssigneeIdsForLane(
+        current.map((a) => a.user_id),
+        change.value
+      );
+      const assignees = nextIds.map(
+        (userId): TaskAssignee =>
+          current.find((a) => a.user_id === userId) || {
+            id: `temp-${userId}`,
+            task_id: task.id,
+            user_id: userId,
+            assigned_by: null,
+            created_at: new Date().toISOString(),
+            profile: profile as Profile | undefined,
+          }
+      );
+      return { ...task, assignees };
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Time tracking helpers
+ * Entry durations, manual duration input, and estimate vs. tracked time per status and board
+ */
+
+import type { EstimateUnit, Status, Task, TimeEntry } from '@/types/board';
+
+/**
+ * Select clause for time entries joined with the member's public profile
+ */
+export const TIME_ENTRY_SELECT = '*, user:profiles(id, email, display_name, avatar_url)';
+
+/** Longest manual entry, so a typo cannot log weeks of work */
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+export const ESTIMATE_UNITS: { value: EstimateUnit; label: string }[] = [
+  { value: 'hours', label: 'Hours' },
+  { value: 'points', label: 'Points' },
+];
+
+/**
+ * True when both dates are set and the task would start after it is due
+ */
+export function isStartAfterDue(
+  startDate: string | null | undefined,
+  dueDate: string | null | undefined
+): boolean {
+  if (!startDate || !dueDate) return false;
+  return Date.parse(startDate) > Date.parse(dueDate);
+}
+
+/**
+ * Minutes an entry covers, fractional; a running timer counts up to `now`
+ */
+export function getEntryMinutes(
+  entry: Pick<TimeEntry, 'started_at' | 'ended_at'>,
+  now: Date = new Date()
+): number {
+  const end = entry.ended_at ? Date.parse(entry.ended_at) : now.getTime();
+  return Math.max(0, (end - Date.parse(entry.started_at)) / 60000);
+}
+
+export function getTrackedMinutes(
+  entries: Pick<TimeEntry, 'started_at' | 'ended_at'>[],
+  now: Date = new Date()
+): number {
+  return entries.reduce((total, entry) => total + getEntryMinutes(entry, now), 0);
+}
+
+/**
+ * The user's running timer among `entries`
+ */
+export function findRunningEntry<T extends Pick<TimeEntry, 'user_id' | 'ended_at'>>(
+  entries: T[],
+  userId: string
+): T | undefined {
+  return entries.find((entry) => entry.user_id === userId && !entry.ended_at);
+}
+
+export interface UserTimeTotal {
+  userId: string;
+  user: TimeEntry['user'];
+  minutes: number;
+}
+
+/**
+ * Tracked time per member, most first
+ */
+export function getTrackedByUser(entries: TimeEntry[], now: Date = new Date()): UserTimeTotal[] {
+  const byUser = new Map<string, UserTimeTotal>();
+  for (const entry of entries) {
+    const total = byUser.get(entry.user_id) ?? {
+      userId: entry.user_id,
+      user: entry.user ?? null,
+      minutes: 0,
+    };
+    total.minutes += getEntryMinutes(entry, now);
+    byUser.set(entry.user_id, total);
+  }
+  return Array.from(byUser.values()).sort((a, b) => b.minutes - a.minutes);
+}
+
+/**
+ * Whole minutes as "2h 5m", "45m" or "3h"
+ */
+export function formatDuration(minutes: number): string {
+  const total = Math.floor(minutes);
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Parse a typed duration into minutes: "1h 30m", "1.5h", "90m", "1:30" or plain hours ("2")
+ * Returns null when the input is not a duration or is zero
+ */
+export function parseDuration(input: string): number | null {
+  const value = input.trim().toLowerCase();
+  let minutes: number | null = null;
+
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  const units = value.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+
+  if (clock) {
+    minutes = Number(clock[1]) * 60 + Number(clock[2]);
+  } else if (/^\d+(?:\.\d+)?$/.test(value)) {
+    minutes = Number(value) * 60;
+  } else if (units && (units[1] || units[2])) {
+    minutes = Number(units[1] ?? 0) * 60 + Number(units[2] ?? 0);
+  }
+
+  if (minutes === null || !Number.isFinite(minutes)) return null;
+  const rounded = Math.round(minutes);
+  return rounded > 0 ? rounded : null;
+}
+
+export interface TimeRollup {
+  taskCount: number;
+  /** Sum of estimates given in hours */
+  estimateHours: number;
+  /** Sum of estimates given in points */
+  estimatePoints: number;
+  trackedMinutes: number;
+}
+
+export interface TimeReport {
+  statuses: (TimeRollup & { statusId: string })[];
+  total: TimeRollup;
+}
+
+const emptyRollup = (): TimeRollup => ({
+  taskCount: 0,
+  estimateHours: 0,
+  estimatePoints: 0,
+  trackedMinutes: 0,
+});
+
+/**
+ * Estimates and tracked time summed per status, in status order, and for the whole board
+ */
+export function buildTimeReport(
+  statuses: Pick<Status, 'id'>[],
+  tasks: Pick<Task, 'id' | 'status_id' | 'estimate' | 'estimate_unit'>[],
+  entries: Pick<TimeEntry, 'task_id' | 'started_at' | 'ended_at'>[],
+  now: Date = new Date()
+): TimeReport {
+  const trackedByTask = new Map<string, number>();
+  for (const entry of entries) {
+    trackedByTask.set(
+      entry.task_id,
+      (trackedByTask.get(entry.task_id) ?? 0) + getEntryMinutes(entry, now)
+    );
+  }
+
+  const byStatus = new Map(statuses.map((status) => [status.id, emptyRollup()]));
+  const total = emptyRollup();
+
+  for (const task of tasks) {
+    const tracked = trackedByTask.get(task.id) ?? 0;
+    for (const rollup of [byStatus.get(task.status_id), total]) {
+      if (!rollup) continue;
+      rollup.taskCount += 1;
+      rollup.trackedMinutes += tracked;
+      if (task.estimate !== null) {
+        if (task.estimate_unit === 'points') rollup.estimatePoints += task.estimate;
+        else rollup.estimateHours += task.estimate;
+      }
+    }
+  }
+
+  return {
+    statuses: statuses.map((status) => ({ statusId: status.id, ...byStatus.get(status.id)! })),
+    total,
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * Board views
+ * Table, calendar and timeline layouts over the same board data as the columns
+ */
+
+import type { BoardWithData, Status, Task, TaskPriority } from '@/types/board';
+import { toUtcDay } from './recurrence';
+
+export type BoardView = 'board' | 'table' | 'calendar' | 'timeline';
+
+export const BOARD_VIEWS: { value: BoardView; label: string }[] = [
+  { value: 'board', label: 'Board' },
+  { value: 'table', label: 'Table' },
+  { value: 'calendar', label: 'Calendar' },
+  { value: 'timeline', label: 'Timeline' },
+];
+
+export function isBoardView(value: unknown): value is BoardView {
+  return BOARD_VIEWS.some((v) => v.value === value);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Calendar day (YYYY-MM-DD, UTC) a timestamp falls on */
+export function toDayKey(date: Date | string): string {
+  return toUtcDay(date).toISOString().slice(0, 10);
+}
+
+/** Day `count` days after `day` */
+export function addDays(day: string, count: number): string {
+  return toDayKey(new Date(Date.parse(day) + count * DAY_MS));
+}
+
+/** Whole days from `from` to `to`, negative when `to` is earlier */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+// ============================================
+// TABLE
+// ============================================
+
+export type TableColumn =
+  | 'title'
+  | 'status'
+  | 'priority'
+  | 'assignees'
+  | 'tags'
+  | 'due_date'
+  | 'created_at'
+  | 'updated_at';
+
+export const TABLE_COLUMNS: { value: TableColumn; label: string }[] = [
+  { value: 'title', label: 'Title' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'assignees', label: 'Assignees' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'created_at', label: 'Created' },
+  { value: 'updated_at', label: 'Updated' },
+];
+
+export const DEFAULT_TABLE_COLUMNS: TableColumn[] = [
+  'title',
+  'status',
+  'priority',
+  'assignees',
+  'due_date',
+];
+
+export function isTableColumn(value: unknown): value is TableColumn {
+  return TABLE_COLUMNS.some((c) => c.value === value);
+}
+
+export interface TableSort {
+  column: TableColumn;
+  direction: 'asc' | 'desc';
+}
+
+export interface TableRow {
+  task: Task;
+  status: Status;
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+/**
+ * Value a row is sorted by; null sorts last in either direction
+ */
+function getSortValue(row: TableRow, column: TableColumn): string | number | null {
+  const { task, status } = row;
+
+  switch (column) {
+    case 'title':
+      return task.title.toLowerCase();
+    case 'status':
+      return status.order;
+    case 'priority':
+      return task.priority ? PRIORITY_RANK[task.priority] : null;
+    case 'assignees': {
+      const profile = task.assignees?.[0]?.profile;
+      const name = profile?.display_name || profile?.email || task.assignee_name;
+      return name ? name.toLowerCase() : null;
+    }
+    case 'tags':
+      return task.tags?.[0]?.toLowerCase() ?? null;
+    case 'due_date':
+      return task.due_date ? Date.parse(task.due_date) : null;
+    case 'created_at':
+      return Date.parse(task.created_at);
+    case 'updated_at':
+      return Date.parse(task.updated_at);
+  }
+}
+
+/**
+ * Every task with its status, in board order or sorted by a column
+ * Ties keep board order, so sorting by status lists each column top to bottom
+ */
+export function getTableRows(board: BoardWithData, sort?: TableSort | null): TableRow[] {
+  const rows = board.statuses.flatMap((status) => status.tasks.map((task) => ({ task, status })));
+  if (!sort) return rows;
+
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return rows
+    .map((row, index) => ({ row, index, value: getSortValue(row, sort.column) }))
+    .sort((a, b) => {
+      if (a.value === b.value) return a.index - b.index;
+      if (a.value === null) return 1;
+      if (b.value === null) return -1;
+      return (a.value < b.value ? -1 : 1) * sign;
+    })
+    .map(({ row }) => row);
+}
+
+/**
+ * Sort after clicking a column header: ascending, then descending, then board order
+ */
+export function getNextTableSort(current: TableSort | null, column: TableColumn): TableSort | null {
+  if (current?.column !== column) return { column, direction: 'asc' };
+  return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+}
+
+// ============================================
+// CALENDAR
+// ============================================
+
+export type CalendarMode = 'month' | 'week';
+
+export function isCalendarMode(value: unknown): value is CalendarMode {
+  return value === 'month' || value === 'week';
+}
+
+/** Same day `count` months later, clamped to the end of shorter months */
+function addMonths(day: string, count: number): string {
+  const date = new Date(day);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, 1));
+  const length = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), length));
+  return toDayKey(target);
+}
+
+/** Monday of the week `day` is in */
+function startOfWeek(day: string): string {
+  const weekday = new Date(day).getUTCDay();
+  return addDays(day, -((weekday + 6) % 7));
+}
+
+/**
+ * Days shown for the month or week around `anchor`, in whole weeks starting on Monday
+ */
+export function getCalendarDays(anchor: string, mode: CalendarMode): string[] {
+  if (mode === 'week') {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+
+  const first = `${anchor.slice(0, 7)}-01`;
+  const last = addDays(addMonths(first, 1), -1);
+  const start = startOfWeek(first);
+  const weeks = Math.ceil((daysBetween(start, last) + 1) / 7);
+  return Array.from({ length: weeks * 7 }, (_, i) => addDays(start, i));
+}
+
+/**
+ * Anchor day one month or week before (`step` -1) or after (`step` 1)
+ */
+export function shiftCalendarAnchor(anchor: string, mode: CalendarMode, step: number): string {
+  return mode === 'month' ? addMonths(anchor, step) : addDays(anchor, step * 7);
+}
+
+/**
+ * Tasks by the day they are due; tasks without a due date are left out
+ */
+export function groupTasksByDueDay(board: BoardWithData): Map<string, Task[]> {
+  const byDay = new Map<string, Task[]>();
+  for (const task of board.statuses.flatMap((status) => status.tasks)) {
+    if (!task.due_date) continue;
+    const day = toDayKey(task.due_date);
+    byDay.set(day, [...(byDay.get(day) || []), task]);
+  }
+  return byDay;
+}
+
+/**
+ * Due date after dropping a task on another calendar day, keeping its time of day
+ */
+export function getRescheduledDueDate(task: Pick<Task, 'due_date'>, day: string): string {
+  const time = task.due_date ? new Date(task.due_date).toISOString().slice(10) : 'T00:00:00.000Z';
+  return `${day}${time}`;
+}
+
+// ============================================
+// TIMELINE
+// ============================================
+
+export interface TimelineItem {
+  task: Task;
+  /** Days from the start of the range to the first day of the bar */
+  offset: number;
+  /** Length of the bar in days, at least 1 */
+  span: number;
+  /** The task starts before or ends after the visible range */
+  clippedStart: boolean;
+  clippedEnd: boolean;
+}
+
+export interface TimelineGroup {
+  status: Status;
+  items: TimelineItem[];
+}
+
+/**
+ * First day of a task's bar: its start date, else the day it was created,
+ * or its due day if that is earlier
+ */
+export function getTaskStartDay(
+  task: Pick<Task, 'start_date' | 'created_at' | 'due_date'>
+): string {
+  const start = toDayKey(task.start_date ?? task.created_at);
+  const due = task.due_date ? toDayKey(task.due_date) : null;
+  return due && due < start ? due : start;
+}
+
+/**
+ * Bars for tasks with a due date that overlap `days` days from `rangeStart`, per status
+ * Tasks without a due date have no end and are left out
+ */
+export function getTimelineGroups(
+  board: BoardWithData,
+  rangeStart: string,
+  days: number
+): TimelineGroup[] {
+  const rangeEnd = addDays(rangeStart, days - 1);
+
+  return board.statuses.map((status) => ({
+    status,
+    items: status.tasks.flatMap((task): TimelineItem[] => {
+      if (!task.due_date) return [];
+      const start = getTaskStartDay(task);
+      const end = toDayKey(task.due_date);
+      if (end < rangeStart || start > rangeEnd) return [];
+
+      const first = start < rangeStart ? rangeStart : start;
+      const last = end > rangeEnd ? rangeEnd : end;
+      return [
+        {
+          task,
+          offset: daysBetween(rangeStart, first),
+          span: daysBetween(first, last) + 1,
+          clippedStart: start < rangeStart,
+          clippedEnd: end > rangeEnd,
+        },
+      ];
+    }),
+  }));
+}
@@ -0,0 +1,88 @@
+/**
+ * WIP limit helpers
+ * The same check runs in the drag-and-drop hook and in the tasks/move API routes
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import type { Status } from '@/types/board';
+
+type Supabase = SupabaseClient<Database>;
+
+export interface WipLimitCheck {
+  statusName: string;
+  limit: number;
+  /** Task count in the column once the task lands */
+  count: number;
+  exceeded: boolean;
+  /** True when the limit is exceeded and the column is in hard mode */
+  blocked: boolean;
+}
+
+/**
+ * Evaluate a column's WIP limit for the given task count
+ * Returns null when the column has no limit
+ */
+export function checkWipLimit(
+  status: Pick<Status, 'name' | 'wip_limit' | 'wip_limit_mode'>,
+  count: number
+): WipLimitCheck | null {
+  if (!status.wip_limit) return null;
+
+  const exceeded = count > status.wip_limit;
+
+  return {
+    statusName: status.name,
+    limit: status.wip_limit,
+    count,
+    exceeded,
+    blocked: exceeded && status.wip_limit_mode === 'hard',
+  };
+}
+
+/**
+ * Human-readable message for an exceeded limit
+ */
+export function formatWipLimitMessage(check: WipLimitCheck): string {
+  return check.blocked
+    ? `"${check.statusName}" is at its WIP limit of ${check.limit}`
+    : `"${check.statusName}" is over its WIP limit (${check.count}/${check.limit})`;
+}
+
+/**
+ * Warning attached to API responses when a soft limit is exceeded
+ */
+export function getWipLimitWarning(check: WipLimitCheck | null) {
+  if (!check?.exceeded) return undefined;
+
+  return {
+    code: 'WIP_LIMIT_EXCEEDED' as const,
+    message: formatWipLimitMessage(check),
+    wip_limit: check,
+  };
+}
+
+/**
+ * Check the WIP limit of a column before adding a task to it
+ * `movingTaskId` is excluded from the count so moves within a column never trip the limit
+ */
+export async function getWipLimitCheck(
+  supabase: Supabase,
+  status: Pick<Status, 'id' | 'name' | 'wip_limit' | 'wip_limit_mode'>,
+  movingTaskId?: string
+): Promise<WipLimitCheck | null> {
+  if (!status.wip_limit) return null;
+
+  let query = supabase
+    .from('tasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('status_id', status.id);
+
+  if (movingTaskId) {
+    query = query.neq('id', movingTaskId);
+  }
+
+  const { count } = await query;
+
+  return checkWipLimit(status, (count ?? 0) + 1);
+}
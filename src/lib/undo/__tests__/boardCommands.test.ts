@@ -0,0 +1,356 @@
+import { createBoardCommands, type BoardCommandApi } from '../boardCommands';
+import { UndoConflictError } from '../snapshots';
+import type { StatusWithTasks, Task } from '@/types/board';
+import { makeTask } from '@/test-utils/tasks';
+
+const makeStatus = (overrides: Partial<StatusWithTasks>): StatusWithTasks => ({
+  id: 'status-1',
+  board_id: 'board-1',
+  name: 'Todo',
+  color: '#6366F1',
+  order: 0,
+  wip_limit: null,
+  wip_limit_mode: 'soft',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  tasks: [],
+  ...overrides,
+});
+
+/**
+ * In-memory board standing in for the API and the cached board data
+ */
+function createFakeBoard(statuses: StatusWithTasks[]) {
+  let nextId = 1;
+  const allTasks = () => statuses.flatMap((status) => status.tasks);
+  const findStatus = (id: string) => statuses.find((status) => status.id === id);
+  const removeTask = (id: string) =>
+    statuses.forEach((status) => {
+      status.tasks = status.tasks.filter((task) => task.id !== id);
+    });
+
+  const api: jest.Mocked<BoardCommandApi> = {
+    createTask: jest.fn(async ({ assignee_ids, ...input }) => {
+      const status = findStatus(input.status_id)!;
+      const task = makeTask({
+        ...input,
+        id: `new-task-${nextId++}`,
+        order: status.tasks.length,
+        assignees: assignee_ids.map((userId) => ({
+          id: `a-${userId}`,
+          task_id: 'x',
+          user_id: userId,
+          assigned_by: null,
+          created_at: '',
+        })),
+      });
+      status.tasks.push(task);
+      return task;
+    }),
+    updateTask: jest.fn(async (taskId, { assignee_ids, ...updates }) => {
+      const task = allTasks().find((t) => t.id === taskId)!;
+      Object.assign(task, updates);
+      if (updates.description === '') task.description = null;
+      if (assignee_ids) {
+        task.assignees = assignee_ids.map((userId) => ({
+          id: `a-${userId}`,
+          task_id: taskId,
+          user_id: userId,
+          assigned_by: null,
+          created_at: '',
+        }));
+      }
+    }),
+    deleteTask: jest.fn(async (taskId) => removeTask(taskId)),
+    moveTask: jest.fn(async (taskId, statusId, order, lane) => {
+      const task = allTasks().find((t) => t.id === taskId)!;
+      removeTask(taskId);
+      Object.assign(task, { status_id: statusId, order });
+      if (lane?.field === 'priority') task.priority = lane.value as Task['priority'];
+      findStatus(statusId)!.tasks.push(task);
+    }),
+    reorderTasks: jest.fn(async (tasks) => {
+      tasks.forEach(({ id, order }) => {
+        allTasks().find((t) => t.id === id)!.order = order;
+      });
+    }),
+    createStatus: jest.fn(async (input) => {
+      const status = makeStatus({ ...input, id: `new-status-${nextId++}`, order: statuses.length });
+      statuses.push(status);
+      return status;
+    }),
+    updateStatus: jest.fn(async (statusId, data) => {
+      Object.assign(findStatus(statusId)!, data);
+    }),
+    deleteStatus: jest.fn(async (statusId) => {
+      statuses.splice(statuses.indexOf(findStatus(statusId)!), 1);
+    }),
+  };
+
+  const commands = createBoardCommands({
+    api,
+    getTask: (taskId) => allTasks().find((task) => task.id === taskId),
+    getStatus: findStatus,
+  });
+
+  return { api, commands, statuses, allTasks };
+}
+
+describe('createBoardCommands', () => {
+  describe('taskUpdated', () => {
+    it('should restore and re-apply only the changed fields', async () => {
+      const task = makeTask({ title: 'Old', description: null, priority: 'low' });
+      const board = createFakeBoard([makeStatus({ tasks: [task] })]);
+      const command = board.commands.taskUpdated(task, { title: 'New', description: 'Details' })!;
+      await board.api.updateTask(task.id, { title: 'New', description: 'Details' });
+
+      await command.undo();
+      expect(board.api.updateTask).toHaveBeenLastCalledWith('task-1', {
+        title: 'Old',
+        description: '',
+      });
+      expect(task).toMatchObject({ title: 'Old', description: null, priority: 'low' });
+
+      await command.redo();
+      expect(task).toMatchObject({ title: 'New', description: 'Details' });
+    });
+
+    it('should return null when no tracked field changes', () => {
+      const task = makeTask({});
+      const board = createFakeBoard([makeStatus({ tasks: [task] })]);
+
+      expect(board.commands.taskUpdated(task, { order: 3 })).toBeNull();
+    });
+
+    it('should refuse to undo when another user changed the same field', async () => {
+      const task = makeTask({ title: 'Old' });
+      const board = createFakeBoard([makeStatus({ tasks: [task] })]);
+      const command = board.commands.taskUpdated(task, { title: 'Mine' })!;
+      await board.api.updateTask(task.id, { title: 'Mine' });
+      board.api.updateTask.mockClear();
+
+      // Realtime update from someone else
+      task.title = 'Theirs';
+
+      await expect(command.undo()).rejects.toThrow(UndoConflictError);
+      expect(board.api.updateTask).not.toHaveBeenCalled();
+      expect(task.title).toBe('Theirs');
+    });
+
+    it('should ignore changes to other fields', async () => {
+      const task = makeTask({ title: 'Old' });
+      const board = createFakeBoard([makeStatus({ tasks: [task] })]);
+      const command = board.commands.taskUpdated(task, { title: 'Mine' })!;
+      await board.api.updateTask(task.id, { title: 'Mine' });
+
+      task.priority = 'high';
+
+      await command.undo();
+      expect(task).toMatchObject({ title: 'Old', priority: 'high' });
+    });
+
+    it('should treat equivalent dates as unchanged', async () => {
+      const task = makeTask({ due_date: null });
+      const board = createFakeBoard([makeStatus({ tasks: [task] })]);
+      const command = board.commands.taskUpdated(task, { due_date: '2024-03-15T00:00:00.000Z' })!;
+      task.due_date = '2024-03-15T00:00:00+00:00';
+
+      await expect(command.undo()).resolves.toBeUndefined();
+      expect(task.due_date).toBeNull();
+    });
+  });
+
+  describe('taskDeleted', () => {
+    it('should recreate the task and follow its new id', async () => {
+      const task = makeTask({ title: 'Gone', tags: ['bug'], order: 0 });
+      const other = makeTask({ id: 'task-2', order: 1 });
+      const board = createFakeBoard([makeStatus({ tasks: [task, other] })]);
+      const deleted = board.commands.taskDeleted(task);
+      await board.api.deleteTask(task.id);
+
+      await deleted.undo();
+      const restored = board.allTasks().find((t) => t.title === 'Gone')!;
+      expect(restored).toMatchObject({ id: 'new-task-1', tags: ['bug'], order: 0 });
+      expect(board.api.moveTask).toHaveBeenCalledWith('new-task-1', 'status-1', 0);
+
+      await deleted.redo();
+      expect(board.api.deleteTask).toHaveBeenLastCalledWith('new-task-1');
+      expect(board.allTasks().map((t) => t.id)).toEqual(['task-2']);
+    });
+
+    it('should let older commands act on the recreated task', async () => {
+      const task = makeTask({ title: 'Old' });
+      const board = createFakeBoard([makeStatus({ tasks: [task] })]);
+      const updated = board.commands.taskUpdated(task, { title: 'New' })!;
+      await board.api.updateTask(task.id, { title: 'New' });
+      const deleted = board.commands.taskDeleted({ ...task, title: 'New' });
+      await board.api.deleteTask(task.id);
+
+      await deleted.undo();
+      await updated.undo();
+
+      expect(board.api.updateTask).toHaveBeenLastCalledWith('new-task-1', { title: 'Old' });
+      expect(board.allTasks()[0].title).toBe('Old');
+    });
+
+    it('should report a conflict when the status was deleted meanwhile', async () => {
+      const task = makeTask({});
+      const board = createFakeBoard([makeStatus({ tasks: [task] })]);
+      const deleted = board.commands.taskDeleted(task);
+      board.statuses.splice(0, 1);
+
+      await expect(deleted.undo()).rejects.toThrow('This status was deleted by someone else');
+    });
+  });
+
+  describe('taskCreated', () => {
+    it('should not delete a task someone else has edited', async () => {
+      const task = makeTask({ title: 'Mine' });
+      const board = createFakeBoard([makeStatus({ tasks: [task] })]);
+      const created = board.commands.taskCreated(task);
+      task.description = 'Added by a teammate';
+
+      await expect(created.undo()).rejects.toThrow(UndoConflictError);
+      expect(board.api.deleteTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('taskMoved', () => {
+    it('should move the task back and restore the lane field', async () => {
+      const task = makeTask({ priority: 'low', order: 2 });
+      const board = createFakeBoard([
+        makeStatus({ tasks: [task] }),
+        makeStatus({ id: 'status-2' }),
+      ]);
+      const lane = { field: 'priority' as const, value: 'high' };
+      const moved = board.commands.taskMoved(task, 'status-2', 0, lane);
+      await board.api.moveTask(task.id, 'status-2', 0, lane);
+
+      await moved.undo();
+      expect(board.api.moveTask).toHaveBeenLastCalledWith('task-1', 'status-1', 2);
+      expect(board.api.updateTask).toHaveBeenLastCalledWith('task-1', { priority: 'low' });
+      expect(task).toMatchObject({ status_id: 'status-1', order: 2, priority: 'low' });
+
+      await moved.redo();
+      expect(task).toMatchObject({ status_id: 'status-2', order: 0, priority: 'high' });
+    });
+
+    it('should refuse to undo after someone else moved the task on', async () => {
+      const task = makeTask({});
+      const board = createFakeBoard([
+        makeStatus({ tasks: [task] }),
+        makeStatus({ id: 'status-2' }),
+        makeStatus({ id: 'status-3' }),
+      ]);
+      const moved = board.commands.taskMoved(task, 'status-2', 0);
+      await board.api.moveTask(task.id, 'status-2', 0);
+      await board.api.moveTask(task.id, 'status-3', 0);
+
+      await expect(moved.undo()).rejects.toThrow('This task was changed by someone else');
+    });
+  });
+
+  describe('tasksReordered', () => {
+    it('should send the whole column with the previous order', async () => {
+      const a = makeTask({ id: 'a', order: 0 });
+      const b = makeTask({ id: 'b', order: 1 });
+      const board = createFakeBoard([makeStatus({ tasks: [a, b] })]);
+      const after = [
+        { ...b, order: 0 },
+        { ...a, order: 1 },
+      ];
+      const reordered = board.commands.tasksReordered([a, b], after);
+      await board.api.reorderTasks(after);
+
+      await reordered.undo();
+      expect(board.api.reorderTasks).toHaveBeenLastCalledWith([
+        expect.objectContaining({ id: 'a', order: 0 }),
+        expect.objectContaining({ id: 'b', order: 1 }),
+      ]);
+    });
+
+    it('should report a conflict when a task left the column', async () => {
+      const a = makeTask({ id: 'a', order: 0 });
+      const b = makeTask({ id: 'b', order: 1 });
+      const board = createFakeBoard([makeStatus({ tasks: [a, b] })]);
+      const reordered = board.commands.tasksReordered(
+        [a, b],
+        [
+          { ...b, order: 0 },
+          { ...a, order: 1 },
+        ]
+      );
+      await board.api.deleteTask('b');
+
+      await expect(reordered.undo()).rejects.toThrow(UndoConflictError);
+    });
+  });
+
+  describe('tasksChanged', () => {
+    it('should undo every task of a bulk action as one entry', async () => {
+      const a = makeTask({ id: 'a', title: 'A', order: 0 });
+      const b = makeTask({ id: 'b', title: 'B', order: 1 });
+      const board = createFakeBoard([makeStatus({ tasks: [a, b] })]);
+      const changed = board.commands.tasksChanged('Delete tasks', [
+        board.commands.taskDeleted(a),
+        board.commands.taskDeleted(b),
+      ])!;
+      await board.api.deleteTask('a');
+      await board.api.deleteTask('b');
+
+      await changed.undo();
+      // Undone in reverse, so the last deleted task comes back first
+      expect(board.api.createTask.mock.calls.map(([input]) => input.title)).toEqual(['B', 'A']);
+      expect(board.allTasks()).toHaveLength(2);
+
+      await changed.redo();
+      expect(board.allTasks()).toEqual([]);
+      expect(changed.label).toBe('Delete tasks');
+    });
+
+    it('should return null when there is nothing to undo', () => {
+      const board = createFakeBoard([makeStatus({})]);
+      expect(board.commands.tasksChanged('Edit tasks', [null])).toBeNull();
+    });
+  });
+
+  describe('status commands', () => {
+    it('should restore a deleted status at its position', async () => {
+      const todo = makeStatus({ order: 0 });
+      const done = makeStatus({ id: 'status-2', name: 'Done', order: 1, wip_limit: 3 });
+      const board = createFakeBoard([todo, done]);
+      const deleted = board.commands.statusDeleted(done);
+      await board.api.deleteStatus('status-2');
+      board.statuses.push(makeStatus({ id: 'status-3', order: 2 }));
+
+      await deleted.undo();
+      expect(board.api.createStatus).toHaveBeenCalledWith({
+        name: 'Done',
+        color: '#6366F1',
+        wip_limit: 3,
+        wip_limit_mode: 'soft',
+      });
+      expect(board.api.updateStatus).toHaveBeenCalledWith('new-status-1', { order: 1 });
+    });
+
+    it('should not undo creating a status that now has tasks', async () => {
+      const status = makeStatus({ id: 'status-2' });
+      const board = createFakeBoard([status]);
+      const created = board.commands.statusCreated(status);
+      status.tasks.push(makeTask({ status_id: 'status-2' }));
+
+      await expect(created.undo()).rejects.toThrow('Tasks have been added to this status since');
+      expect(board.api.deleteStatus).not.toHaveBeenCalled();
+    });
+
+    it('should revert status edits', async () => {
+      const status = makeStatus({ name: 'Todo', wip_limit: null });
+      const board = createFakeBoard([status]);
+      const updated = board.commands.statusUpdated(status, { name: 'Backlog', wip_limit: 5 })!;
+      await board.api.updateStatus(status.id, { name: 'Backlog', wip_limit: 5 });
+
+      await updated.undo();
+      expect(status).toMatchObject({ name: 'Todo', wip_limit: null });
+    });
+  });
+});
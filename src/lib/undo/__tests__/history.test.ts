@@ -0,0 +1,68 @@
+import {
+  UNDO_HISTORY_LIMIT,
+  commitRedo,
+  commitUndo,
+  createUndoHistory,
+  discardCommand,
+  recordCommand,
+} from '../history';
+import type { UndoableCommand } from '../types';
+
+const makeCommand = (label: string): UndoableCommand => ({
+  label,
+  undo: jest.fn().mockResolvedValue(undefined),
+  redo: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('undo history', () => {
+  it('should record commands and clear the redo stack', () => {
+    const first = makeCommand('first');
+    const second = makeCommand('second');
+
+    let history = recordCommand(createUndoHistory(), first);
+    history = commitUndo(history);
+    expect(history.future).toEqual([first]);
+
+    history = recordCommand(history, second);
+    expect(history).toEqual({ past: [second], future: [] });
+  });
+
+  it('should keep at most the limit, dropping the oldest', () => {
+    let history = createUndoHistory();
+    for (let i = 0; i < UNDO_HISTORY_LIMIT + 5; i++) {
+      history = recordCommand(history, makeCommand(`command-${i}`));
+    }
+
+    expect(history.past).toHaveLength(UNDO_HISTORY_LIMIT);
+    expect(history.past[0].label).toBe('command-5');
+  });
+
+  it('should move commands between the stacks on undo and redo', () => {
+    const first = makeCommand('first');
+    const second = makeCommand('second');
+    let history = recordCommand(recordCommand(createUndoHistory(), first), second);
+
+    history = commitUndo(history);
+    expect(history).toEqual({ past: [first], future: [second] });
+
+    history = commitUndo(history);
+    history = commitRedo(history);
+    expect(history).toEqual({ past: [first], future: [second] });
+  });
+
+  it('should leave an empty history unchanged', () => {
+    const history = createUndoHistory();
+
+    expect(commitUndo(history)).toBe(history);
+    expect(commitRedo(history)).toBe(history);
+  });
+
+  it('should discard a command from either stack', () => {
+    const first = makeCommand('first');
+    const second = makeCommand('second');
+    const history = commitUndo(recordCommand(recordCommand(createUndoHistory(), first), second));
+
+    expect(discardCommand(history, second)).toEqual({ past: [first], future: [] });
+    expect(discardCommand(history, first)).toEqual({ past: [], future: [second] });
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Board commands
+ * Builds undoable commands for task and status operations. Commands check the
+ * current board state before writing, so a change another user made in the
+ * meantime (delivered by realtime) is reported as a conflict instead of being
+ * overwritten.
+ */
+
+import type { Status, StatusWithTasks, Task } from '@/types/board';
+import { applyLaneChange, type LaneChange } from '@/lib/tasks';
+import type { UndoableCommand } from './types';
+import {
+  UndoConflictError,
+  findChangedFields,
+  getStatusSnapshot,
+  getTaskSnapshot,
+  pickFields,
+  toTaskInput,
+  type StatusSnapshot,
+  type TaskSnapshot,
+} from './snapshots';
+
+export type TaskInput = Partial<TaskSnapshot> & { order?: number };
+export type StatusInput = Partial<StatusSnapshot> & { order?: number };
+
+/**
+ * Requests the commands send; the board page wires these to the board mutations
+ */
+export interface BoardCommandApi {
+  createTask: (input: TaskSnapshot) => Promise<Task>;
+  updateTask: (taskId: string, updates: TaskInput) => Promise<void>;
+  deleteTask: (taskId: string) => Promise<void>;
+  moveTask: (taskId: string, statusId: string, order: number, lane?: LaneChange) => Promise<void>;
+  reorderTasks: (tasks: Task[]) => Promise<void>;
+  createStatus: (input: StatusSnapshot) => Promise<Status>;
+  updateStatus: (statusId: string, data: StatusInput) => Promise<void>;
+  deleteStatus: (statusId: string) => Promise<void>;
+}
+
+export interface BoardCommandContext {
+  api: BoardCommandApi;
+  /** Current task, as last seen by this client */
+  getTask: (taskId: string) => Task | undefined;
+  /** Current status with its tasks, as last seen by this client */
+  getStatus: (statusId: string) => StatusWithTasks | undefined;
+}
+
+const TASK_FIELDS: readonly (keyof TaskSnapshot)[] = [
+  'title',
+  'description',
+  'status_id',
+  'priority',
+  'tags',
+  'assignee_ids',
+  'assignee_name',
+  'assignee_color',
+  'due_date',
+  'start_date',
+  'estimate',
+  'estimate_unit',
+  'lane',
+  'recurrence_rule',
+];
+
+const STATUS_FIELDS: readonly (keyof StatusSnapshot)[] = [
+  'name',
+  'color',
+  'wip_limit',
+  'wip_limit_mode',
+];
+
+const LANE_CHANGE_FIELDS: Record<LaneChange['field'], keyof TaskSnapshot> = {
+  priority: 'priority',
+  assignee: 'assignee_ids',
+  tag: 'tags',
+  lane: 'lane',
+};
+
+/**
+ * Command factories for one board
+ * Undoing a delete recreates the row under a new id; later commands follow
+ * that id through an alias map so the history stays usable.
+ */
+export function createBoardCommands({ api, getTask, getStatus }: BoardCommandContext) {
+  const aliases = new Map<string, string>();
+
+  const resolve = (id: string): string => {
+    let current = id;
+    while (aliases.has(current)) current = aliases.get(current)!;
+    return current;
+  };
+
+  const alias = (originalId: string, newId: string) => {
+    const current = resolve(originalId);
+    if (current !== newId) aliases.set(current, newId);
+  };
+
+  const requireTask = (taskId: string, expected?: Partial<TaskSnapshot>): Task => {
+    const task = getTask(resolve(taskId));
+    if (!task) {
+      throw new UndoConflictError('This task was deleted by someone else');
+    }
+    if (expected) {
+      const resolved = expected.status_id
+        ? { ...expected, status_id: resolve(expected.status_id) }
+        : expected;
+      if (findChangedFields(resolved, getTaskSnapshot(task)).length > 0) {
+        throw new UndoConflictError('This task was changed by someone else');
+      }
+    }
+    return task;
+  };
+
+  const requireStatus = (statusId: string, expected?: Partial<StatusSnapshot>) => {
+    const status = getStatus(resolve(statusId));
+    if (!status) {
+      throw new UndoConflictError('This status was deleted by someone else');
+    }
+    if (expected && findChangedFields(expected, getStatusSnapshot(status)).length > 0) {
+      throw new UndoConflictError('This status was changed by someone else');
+    }
+    return status;
+  };
+
+  const recreateTask = async (originalId: string, snapshot: TaskSnapshot, order?: number) => {
+    const status = requireStatus(snapshot.status_id);
+    const task = await api.createTask(toTaskInput({ ...snapshot, status_id: status.id }));
+    alias(originalId, task.id);
+    if (order !== undefined && task.order !== order) {
+      await api.moveTask(task.id, status.id, order);
+    }
+  };
+
+  const recreateStatus = async (originalId: string, snapshot: StatusSnapshot, order?: number) => {
+    const status = await api.createStatus(snapshot);
+    alias(originalId, status.id);
+    if (order !== undefined && status.order !== order) {
+      await api.updateStatus(status.id, { order });
+    }
+  };
+
+  return {
+    taskCreated(task: Task): UndoableCommand {
+      const snapshot = getTaskSnapshot(task);
+
+      return {
+        label: 'Create task',
+        undo: async () => {
+          requireTask(task.id, snapshot);
+          await api.deleteTask(resolve(task.id));
+        },
+        redo: () => recreateTask(task.id, snapshot),
+      };
+    },
+
+    /**
+     * Returns null when the updates touch no tracked field
+     */
+    taskUpdated(before: Task, updates: TaskInput): UndoableCommand | null {
+      const fields = TASK_FIELDS.filter((field) => updates[field] !== undefined);
+      if (fields.length === 0) return null;
+
+      const previous = pickFields(getTaskSnapshot(before), fields);
+      const next = pickFields(updates as TaskSnapshot, fields);
+
+      return {
+        label: 'Edit task',
+        undo: async () => {
+          requireTask(before.id, next);
+          await api.updateTask(resolve(before.id), toTaskInput(previous));
+        },
+        redo: async () => {
+          requireTask(before.id, previous);
+          await api.updateTask(resolve(before.id), toTaskInput(next));
+        },
+      };
+    },
+
+    taskDeleted(task: Task): UndoableCommand {
+      const snapshot = getTaskSnapshot(task);
+      const { order } = task;
+
+      return {
+        label: 'Delete task',
+        undo: () => recreateTask(task.id, snapshot, order),
+        redo: async () => {
+          requireTask(task.id, snapshot);
+          await api.deleteTask(resolve(task.id));
+        },
+      };
+    },
+
+    taskMoved(before: Task, statusId: string, order: number, lane?: LaneChange): UndoableCommand {
+      const laneFields = lane ? [LANE_CHANGE_FIELDS[lane.field]] : [];
+      const fields: (keyof TaskSnapshot)[] = ['status_id', ...laneFields];
+      const after = lane ? applyLaneChange(before, lane) : before;
+      const previous = pickFields(getTaskSnapshot(before), fields);
+      const next = pickFields({ ...getTaskSnapshot(after), status_id: statusId }, fields);
+      const { status_id: previousStatusId, order: previousOrder } = before;
+
+      return {
+        label: 'Move task',
+        undo: async () => {
+          requireTask(before.id, next);
+          await api.moveTask(resolve(before.id), resolve(previousStatusId), previousOrder);
+          if (lane) {
+            await api.updateTask(resolve(before.id), toTaskInput(pickFields(previous, laneFields)));
+          }
+        },
+        redo: async () => {
+          requireTask(before.id, previous);
+          await api.moveTask(resolve(before.id), resolve(statusId), order, lane);
+        },
+      };
+    },
+
+    /**
+     * `before` and `after` are the same column's tasks with their old and new order
+     */
+    tasksReordered(before: Task[], after: Task[]): UndoableCommand {
+      const statusId = after[0]?.status_id ?? before[0]?.status_id;
+      const previousOrders = before.map((task) => [task.id, task.order] as const);
+      const nextOrders = after.map((task) => [task.id, task.order] as const);
+
+      const applyOrders = async (orders: (readonly [string, number])[]) => {
+        const status = requireStatus(statusId);
+        const byId = new Map(orders.map(([id, taskOrder]) => [resolve(id), taskOrder]));
+        const columnIds = new Set(status.tasks.map((task) => task.id));
+        if (Array.from(byId.keys()).some((id) => !columnIds.has(id))) {
+          throw new UndoConflictError('Tasks in this column were changed by someone else');
+        }
+
+        await api.reorderTasks(
+          status.tasks
+            .map((task) => ({ ...task, order: byId.get(task.id) ?? task.order }))
+            .sort((a, b) => a.order - b.order)
+        );
+      };
+
+      return {
+        label: 'Reorder tasks',
+        undo: () => applyOrders(previousOrders),
+        redo: () => applyOrders(nextOrders),
+      };
+    },
+
+    /**
+     * Several task commands recorded as one entry, e.g. a bulk action
+     * Undo runs them in reverse order. Returns null when no command is left.
+     */
+    tasksChanged(label: string, commands: (UndoableCommand | null)[]): UndoableCommand | null {
+      const steps = commands.filter((command): command is UndoableCommand => command !== null);
+      if (steps.length === 0) return null;
+
+      return {
+        label,
+        undo: async () => {
+          for (const step of [...steps].reverse()) await step.undo();
+        },
+        redo: async () => {
+          for (const step of steps) await step.redo();
+        },
+      };
+    },
+
+    statusCreated(status: Status): UndoableCommand {
+      const snapshot = getStatusSnapshot(status);
+
+      return {
+        label: 'Create status',
+        undo: async () => {
+          const current = requireStatus(status.id, snapshot);
+          if (current.tasks.length > 0) {
+            throw new UndoConflictError('Tasks have been added to this status since');
+          }
+          await api.deleteStatus(current.id);
+        },
+        redo: () => recreateStatus(status.id, snapshot),
+      };
+    },
+
+    /**
+     * Returns null when the data touches no tracked field
+     */
+    statusUpdated(before: Status, data: StatusInput): UndoableCommand | null {
+      const fields = STATUS_FIELDS.filter((field) => data[field] !== undefined);
+      if (fields.length === 0) return null;
+
+      const previous = pickFields(getStatusSnapshot(before), fields);
+      const next = pickFields(data as StatusSnapshot, fields);
+
+      return {
+        label: 'Edit status',
+        undo: async () => {
+          requireStatus(before.id, next);
+          await api.updateStatus(resolve(before.id), previous);
+        },
+        redo: async () => {
+          requireStatus(before.id, previous);
+          await api.updateStatus(resolve(before.id), next);
+        },
+      };
+    },
+
+    statusDeleted(status: Status): UndoableCommand {
+      const snapshot = getStatusSnapshot(status);
+      const { order } = status;
+
+      return {
+        label: 'Delete status',
+        undo: () => recreateStatus(status.id, snapshot, order),
+        redo: async () => {
+          const current = requireStatus(status.id, snapshot);
+          if (current.tasks.length > 0) {
+            throw new UndoConflictError('Tasks have been added to this status since');
+          }
+          await api.deleteStatus(current.id);
+        },
+      };
+    },
+  };
+}
+
+export type BoardCommands = ReturnType<typeof createBoardCommands>;
@@ -0,0 +1,63 @@
+/**
+ * Undo history
+ * Immutable stack operations used by the useUndoRedo hook
+ */
+
+import type { UndoableCommand, UndoHistory } from './types';
+
+/** Commands kept per session; the oldest are dropped first */
+export const UNDO_HISTORY_LIMIT = 50;
+
+export function createUndoHistory(): UndoHistory {
+  return { past: [], future: [] };
+}
+
+/**
+ * Record a newly performed command; anything that could be redone is discarded
+ */
+export function recordCommand(
+  history: UndoHistory,
+  command: UndoableCommand,
+  limit: number = UNDO_HISTORY_LIMIT
+): UndoHistory {
+  return {
+    past: [...history.past, command].slice(-limit),
+    future: [],
+  };
+}
+
+/**
+ * Move the latest command to the redo stack after it was undone
+ */
+export function commitUndo(history: UndoHistory): UndoHistory {
+  const command = history.past[history.past.length - 1];
+  if (!command) return history;
+
+  return {
+    past: history.past.slice(0, -1),
+    future: [...history.future, command],
+  };
+}
+
+/**
+ * Move the latest undone command back to the undo stack after it was redone
+ */
+export function commitRedo(history: UndoHistory): UndoHistory {
+  const command = history.future[history.future.length - 1];
+  if (!command) return history;
+
+  return {
+    past: [...history.past, command],
+    future: history.future.slice(0, -1),
+  };
+}
+
+/**
+ * Forget a command that can no longer be applied, e.g. after a conflict
+ */
+export function discardCommand(history: UndoHistory, command: UndoableCommand): UndoHistory {
+  return {
+    past: history.past.filter((c) => c !== command),
+    future: history.future.filter((c) => c !== command),
+  };
+}
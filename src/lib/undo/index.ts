@@ -0,0 +1,33 @@
+/**
+ * Undo/Redo
+ * Command history and undoable board operations
+ */
+
+export type { UndoableCommand, UndoHistory } from './types';
+
+export {
+  UNDO_HISTORY_LIMIT,
+  createUndoHistory,
+  recordCommand,
+  commitUndo,
+  commitRedo,
+  discardCommand,
+} from './history';
+
+export {
+  UndoConflictError,
+  getTaskSnapshot,
+  getStatusSnapshot,
+  findChangedFields,
+  pickFields,
+  toTaskInput,
+  type TaskSnapshot,
+  type StatusSnapshot,
+} from './snapshots';
+
+export {
+  createBoardCommands,
+  type BoardCommands,
+  type BoardCommandApi,
+  type BoardCommandContext,
+} from './boardCommands';
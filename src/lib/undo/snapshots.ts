@@ -0,0 +1,127 @@
+/**
+ * Undo snapshots
+ * Captures the user-editable fields of tasks and statuses so commands can
+ * restore them and tell whether someone else has changed them in the meantime
+ */
+
+import type { EstimateUnit, Status, Task, TaskPriority, WipLimitMode } from '@/types/board';
+
+export interface TaskSnapshot {
+  title: string;
+  description: string | null;
+  status_id: string;
+  priority: TaskPriority | null;
+  tags: string[];
+  assignee_ids: string[];
+  assignee_name: string | null;
+  assignee_color: string | null;
+  due_date: string | null;
+  start_date: string | null;
+  estimate: number | null;
+  estimate_unit: EstimateUnit;
+  lane: string | null;
+  recurrence_rule: string | null;
+}
+
+export interface StatusSnapshot {
+  name: string;
+  color: string;
+  wip_limit: number | null;
+  wip_limit_mode: WipLimitMode;
+}
+
+/**
+ * Thrown by a command when the state it would revert has been changed by another user
+ */
+export class UndoConflictError extends Error {
+  constructor(message: string = 'This change was modified by someone else and cannot be undone') {
+    super(message);
+    this.name = 'UndoConflictError';
+  }
+}
+
+export function getTaskSnapshot(task: Task): TaskSnapshot {
+  return {
+    title: task.title,
+    description: task.description,
+    status_id: task.status_id,
+    priority: task.priority,
+    tags: task.tags || [],
+    assignee_ids: (task.assignees || []).map((assignee) => assignee.user_id),
+    assignee_name: task.assignee_name,
+    assignee_color: task.assignee_color,
+    due_date: task.due_date,
+    start_date: task.start_date,
+    estimate: task.estimate,
+    estimate_unit: task.estimate_unit,
+    lane: task.lane,
+    recurrence_rule: task.recurrence_rule,
+  };
+}
+
+export function getStatusSnapshot(status: Status): StatusSnapshot {
+  return {
+    name: status.name,
+    color: status.color,
+    wip_limit: status.wip_limit,
+    wip_limit_mode: status.wip_limit_mode,
+  };
+}
+
+/**
+ * Subset of a snapshot, limited to the given fields
+ */
+export function pickFields<T extends object, K extends keyof T>(
+  snapshot: T,
+  fields: readonly K[]
+): Pick<T, K> {
+  const picked = {} as Pick<T, K>;
+  fields.forEach((field) => {
+    picked[field] = snapshot[field];
+  });
+  return picked;
+}
+
+/**
+ * Compare values the way the API stores them: strings are trimmed, empty
+ * strings are null, dates compare by instant and arrays ignore order
+ */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return JSON.stringify([...value].sort());
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+      const time = Date.parse(trimmed);
+      return Number.isNaN(time) ? trimmed : time;
+    }
+    return trimmed;
+  }
+  return value ?? null;
+}
+
+/**
+ * Fields whose current value differs from the expected one
+ */
+export function findChangedFields<T extends object>(expected: Partial<T>, current: T): (keyof T)[] {
+  return (Object.keys(expected) as (keyof T)[]).filter(
+    (field) => normalize(expected[field]) !== normalize(current[field])
+  );
+}
+
+/**
+ * Snapshot values in the shape accepted by the task create/update endpoints
+ * The update endpoint ignores a null description, so clearing is sent as ''
+ */
+export function toTaskInput<T extends Partial<TaskSnapshot>>(values: T): T {
+  const input = { ...values };
+  if ('description' in input && input.description === null) {
+    input.description = '';
+  }
+  if (input.due_date) {
+    input.due_date = new Date(input.due_date).toISOString();
+  }
+  return input;
+}
@@ -0,0 +1,24 @@
+/**
+ * Undo/Redo Types
+ * Command pattern: every undoable board operation knows how to revert and re-apply itself
+ */
+
+/**
+ * A recorded operation
+ * `undo` and `redo` throw UndoConflictError when someone else has changed the
+ * affected task or status since, so stale state is never written back
+ */
+export interface UndoableCommand {
+  /** Short description for toasts, e.g. "Move task" */
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+/**
+ * Session history; the last entry of `past` is undone first
+ */
+export interface UndoHistory {
+  past: UndoableCommand[];
+  future: UndoableCommand[];
+}
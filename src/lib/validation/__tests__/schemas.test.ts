@@ -4,14 +4,22 @@ import {
   CreateBoardSchema,
   UpdateBoardSchema,
   CreateCommentSchema,
+  ToggleCommentReactionSchema,
   SearchQuerySchema,
   TaskListQuerySchema,
+  SaveFilterSchema,
   TagsArraySchema,
   UUIDSchema,
   HexColorSchema,
   TaskPriorityEnum,
   InviteMemberSchema,
   CreateStatusSchema,
+  CreateChecklistItemSchema,
+  UpdateChecklistItemSchema,
+  MoveTaskLaneSchema,
+  BulkTaskRequestSchema,
+  CreateTimeEntrySchema,
+  CreateWebhookSchema,
 } from '../schemas';
 
 describe('Zod Validation Schemas', () => {
@@ -165,6 +173,79 @@ describe('Zod Validation Schemas', () => {
       });
       expect(result.description).toBeNull();
     });
+
+    it('should default assignee_ids to empty array', () => {
+      const result = CreateTaskSchema.parse(validTask);
+      expect(result.assignee_ids).toEqual([]);
+    });
+
+    it('should accept assignee user IDs', () => {
+      const userId = '123e4567-e89b-12d3-a456-426614174000';
+      const result = CreateTaskSchema.parse({ ...validTask, assignee_ids: [userId] });
+      expect(result.assignee_ids).toEqual([userId]);
+    });
+
+    it('should reject invalid assignee IDs', () => {
+      expect(() => CreateTaskSchema.parse({ ...validTask, assignee_ids: ['john'] })).toThrow();
+    });
+
+    it('should reject duplicate assignee IDs', () => {
+      const userId = '123e4567-e89b-12d3-a456-426614174000';
+      expect(() =>
+        CreateTaskSchema.parse({ ...validTask, assignee_ids: [userId, userId] })
+      ).toThrow();
+    });
+
+    it('should store recurrence rules in canonical form', () => {
+      const result = CreateTaskSchema.parse({
+        ...validTask,
+        recurrence_rule: 'RRULE:freq=weekly;byday=mo,th',
+      });
+      expect(result.recurrence_rule).toBe('FREQ=WEEKLY;BYDAY=MO,TH');
+      expect(CreateTaskSchema.parse(validTask).recurrence_rule).toBeNull();
+    });
+
+    it('should reject invalid recurrence rules', () => {
+      expect(() =>
+        CreateTaskSchema.parse({ ...validTask, recurrence_rule: 'FREQ=HOURLY' })
+      ).toThrow('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+    });
+
+    it('should default the estimate unit to hours', () => {
+      const result = CreateTaskSchema.parse({ ...validTask, estimate: 2.555 });
+      expect(result.estimate).toBe(2.56);
+      expect(result.estimate_unit).toBe('hours');
+      expect(CreateTaskSchema.parse(validTask).estimate).toBeNull();
+    });
+
+    it('should reject a start date after the due date', () => {
+      expect(() =>
+        CreateTaskSchema.parse({
+          ...validTask,
+          start_date: '2024-02-01T00:00:00Z',
+          due_date: '2024-01-01T00:00:00Z',
+        })
+      ).toThrow('Start date must be on or before the due date');
+    });
+  });
+
+  describe('CreateTimeEntrySchema', () => {
+    it('should accept a manual entry in whole minutes', () => {
+      const result = CreateTimeEntrySchema.parse({
+        started_at: '2024-01-10T09:00:00Z',
+        duration_minutes: 90,
+      });
+      expect(result.note).toBeNull();
+    });
+
+    it('should reject entries longer than a day', () => {
+      expect(() =>
+        CreateTimeEntrySchema.parse({
+          started_at: '2024-01-10T09:00:00Z',
+          duration_minutes: 24 * 60 + 1,
+        })
+      ).toThrow('Duration must be at most 24 hours');
+    });
   });
 
   describe('UpdateTaskSchema', () => {
@@ -186,6 +267,139 @@ describe('Zod Validation Schemas', () => {
     it('should reject invalid priority', () => {
       expect(() => UpdateTaskSchema.parse({ priority: 'invalid' })).toThrow();
     });
+
+    it('should accept clearing all assignees', () => {
+      const result = UpdateTaskSchema.parse({ assignee_ids: [] });
+      expect(result.assignee_ids).toEqual([]);
+    });
+
+    it('should accept clearing the recurrence rule', () => {
+      expect(UpdateTaskSchema.parse({ recurrence_rule: null }).recurrence_rule).toBeNull();
+    });
+  });
+
+  describe('MoveTaskLaneSchema', () => {
+    it('should accept lane changes for each grouping', () => {
+      expect(MoveTaskLaneSchema.parse({ field: 'priority', value: 'high' }).value).toBe('high');
+      expect(MoveTaskLaneSchema.parse({ field: 'tag', value: 'bug' }).value).toBe('bug');
+      expect(MoveTaskLaneSchema.parse({ field: 'lane', value: null }).value).toBeNull();
+      expect(
+        MoveTaskLaneSchema.parse({
+          field: 'assignee',
+          value: '123e4567-e89b-12d3-a456-426614174000',
+        }).field
+      ).toBe('assignee');
+    });
+
+    it('should reject invalid priorities and assignees', () => {
+      expect(() => MoveTaskLaneSchema.parse({ field: 'priority', value: 'urgent' })).toThrow();
+      expect(() => MoveTaskLaneSchema.parse({ field: 'assignee', value: 'someone' })).toThrow();
+    });
+
+    it('should reject unknown fields', () => {
+      expect(() => MoveTaskLaneSchema.parse({ field: 'status', value: 'done' })).toThrow();
+    });
+  });
+
+  describe('BulkTaskRequestSchema', () => {
+    const taskId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('should accept each action type', () => {
+      const actions = [
+        { type: 'move', status_id: taskId },
+        { type: 'set_priority', priority: null },
+        { type: 'add_tag', tag: ' bug ' },
+        { type: 'remove_tag', tag: 'bug' },
+        { type: 'set_due_date', due_date: '2024-06-01T00:00:00.000Z' },
+        { type: 'assign', assignee_ids: [] },
+        { type: 'delete' },
+      ];
+
+      actions.forEach((action) => {
+        expect(BulkTaskRequestSchema.safeParse({ task_ids: [taskId], action }).success).toBe(true);
+      });
+      expect(
+        BulkTaskRequestSchema.parse({
+          task_ids: [taskId],
+          action: { type: 'add_tag', tag: ' bug ' },
+        }).action
+      ).toEqual({ type: 'add_tag', tag: 'bug' });
+    });
+
+    it('should reject empty, duplicate or oversized selections', () => {
+      const action = { type: 'delete' };
+      expect(BulkTaskRequestSchema.safeParse({ task_ids: [], action }).success).toBe(false);
+      expect(BulkTaskRequestSchema.safeParse({ task_ids: [taskId, taskId], action }).success).toBe(
+        false
+      );
+      expect(
+        BulkTaskRequestSchema.safeParse({
+          task_ids: Array.from({ length: 101 }, (_, i) => `${taskId.slice(0, -3)}${100 + i}`),
+          action,
+        }).success
+      ).toBe(false);
+    });
+
+    it('should reject unknown actions and invalid values', () => {
+      expect(
+        BulkTaskRequestSchema.safeParse({ task_ids: [taskId], action: { type: 'archive' } }).success
+      ).toBe(false);
+      expect(
+        BulkTaskRequestSchema.safeParse({
+          task_ids: [taskId],
+          action: { type: 'set_priority', priority: 'urgent' },
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('CreateChecklistItemSchema', () => {
+    it('should accept a title only', () => {
+      const result = CreateChecklistItemSchema.parse({ title: '  Write tests  ' });
+      expect(result).toEqual({
+        title: 'Write tests',
+        parent_id: null,
+        assignee_id: null,
+        due_date: null,
+      });
+    });
+
+    it('should accept a date-only due date', () => {
+      const result = CreateChecklistItemSchema.parse({ title: 'Ship', due_date: '2026-03-01' });
+      expect(result.due_date).toBe('2026-03-01');
+    });
+
+    it('should reject empty title', () => {
+      expect(() => CreateChecklistItemSchema.parse({ title: '' })).toThrow();
+    });
+
+    it('should reject invalid parent ID', () => {
+      expect(() => CreateChecklistItemSchema.parse({ title: 'Step', parent_id: 'abc' })).toThrow();
+    });
+
+    it('should reject datetime due dates', () => {
+      expect(() =>
+        CreateChecklistItemSchema.parse({ title: 'Step', due_date: '2026-03-01T10:00:00Z' })
+      ).toThrow();
+    });
+  });
+
+  describe('UpdateChecklistItemSchema', () => {
+    it('should accept toggling completion', () => {
+      expect(UpdateChecklistItemSchema.parse({ is_completed: true })).toEqual({
+        is_completed: true,
+      });
+    });
+
+    it('should accept clearing assignee and due date', () => {
+      const result = UpdateChecklistItemSchema.parse({ assignee_id: null, due_date: null });
+      expect(result.assignee_id).toBeNull();
+      expect(result.due_date).toBeNull();
+    });
+
+    it('should reject non-boolean completion', () => {
+      expect(() => UpdateChecklistItemSchema.parse({ is_completed: 'yes' })).toThrow();
+    });
   });
 
   describe('CreateBoardSchema', () => {
@@ -253,6 +467,21 @@ describe('Zod Validation Schemas', () => {
       const result = CreateCommentSchema.parse({ content: '  trimmed comment  ' });
       expect(result.content).toBe('trimmed comment');
     });
+
+    it('should accept a parent comment id', () => {
+      const parentId = '550e8400-e29b-41d4-a716-446655440000';
+      expect(CreateCommentSchema.parse({ content: 'reply', parent_id: parentId }).parent_id).toBe(
+        parentId
+      );
+      expect(() => CreateCommentSchema.parse({ content: 'reply', parent_id: 'nope' })).toThrow();
+    });
+  });
+
+  describe('ToggleCommentReactionSchema', () => {
+    it('should accept picker emoji only', () => {
+      expect(ToggleCommentReactionSchema.parse({ emoji: '🎉' }).emoji).toBe('🎉');
+      expect(() => ToggleCommentReactionSchema.parse({ emoji: '🦄' })).toThrow();
+    });
   });
 
   describe('SearchQuerySchema', () => {
@@ -316,6 +545,41 @@ describe('Zod Validation Schemas', () => {
     it('should reject page less than 1', () => {
       expect(() => TaskListQuerySchema.parse({ page: 0 })).toThrow();
     });
+
+    it('should accept one or repeated tags and calendar-day due bounds', () => {
+      expect(TaskListQuerySchema.parse({ tags: 'bug' }).tags).toEqual(['bug']);
+      expect(TaskListQuerySchema.parse({ tags: ['bug', 'ui'] }).tags).toEqual(['bug', 'ui']);
+
+      const result = TaskListQuerySchema.parse({
+        due_after: '2026-03-01',
+        due_before: '2026-03-31T23:59:59.000Z',
+        assignee_id: '123e4567-e89b-12d3-a456-426614174000',
+      });
+      expect(result.due_after).toBe('2026-03-01');
+      expect(result.assignee_id).toBe('123e4567-e89b-12d3-a456-426614174000');
+    });
+
+    it('should reject malformed due bounds and assignee ids', () => {
+      expect(() => TaskListQuerySchema.parse({ due_after: 'tomorrow' })).toThrow();
+      expect(() => TaskListQuerySchema.parse({ assignee_id: 'ada' })).toThrow();
+    });
+  });
+
+  describe('SaveFilterSchema', () => {
+    it('should accept a name with filters', () => {
+      const result = SaveFilterSchema.parse({
+        name: '  My bugs ',
+        filters: { priority: 'high', tags: ['bug'] },
+      });
+      expect(result).toEqual({ name: 'My bugs', filters: { priority: 'high', tags: ['bug'] } });
+    });
+
+    it('should reject an empty name or an invalid filter', () => {
+      expect(() => SaveFilterSchema.parse({ name: ' ', filters: {} })).toThrow();
+      expect(() =>
+        SaveFilterSchema.parse({ name: 'x', filters: { priority: 'urgent' } })
+      ).toThrow();
+    });
   });
 
   describe('InviteMemberSchema', () => {
@@ -374,5 +638,68 @@ describe('Zod Validation Schemas', () => {
         })
       ).toThrow();
     });
+
+    it('should default to no WIP limit in soft mode', () => {
+      const result = CreateStatusSchema.parse({ name: 'Doing', color: '#3B82F6' });
+      expect(result.wip_limit).toBeNull();
+      expect(result.wip_limit_mode).toBe('soft');
+    });
+
+    it('should accept a hard WIP limit', () => {
+      const result = CreateStatusSchema.parse({
+        name: 'Doing',
+        color: '#3B82F6',
+        wip_limit: 3,
+        wip_limit_mode: 'hard',
+      });
+      expect(result.wip_limit).toBe(3);
+      expect(result.wip_limit_mode).toBe('hard');
+    });
+
+    it('should reject non-positive or fractional WIP limits', () => {
+      expect(() =>
+        CreateStatusSchema.parse({ name: 'Doing', color: '#3B82F6', wip_limit: 0 })
+      ).toThrow();
+      expect(() =>
+        CreateStatusSchema.parse({ name: 'Doing', color: '#3B82F6', wip_limit: 2.5 })
+      ).toThrow();
+    });
+
+    it('should reject unknown WIP limit modes', () => {
+      expect(() =>
+        CreateStatusSchema.parse({ name: 'Doing', color: '#3B82F6', wip_limit_mode: 'strict' })
+      ).toThrow();
+    });
+  });
+
+  describe('CreateWebhookSchema', () => {
+    it('should accept an HTTPS URL with events', () => {
+      const result = CreateWebhookSchema.parse({
+        url: 'https://ci.example.com/hooks/kanban',
+        events: ['task_created', 'task_moved'],
+      });
+      expect(result.is_active).toBe(true);
+    });
+
+    it('should reject plain HTTP and private hosts', () => {
+      const events = ['task_created'];
+      expect(() => CreateWebhookSchema.parse({ url: 'http://example.com', events })).toThrow();
+      expect(() => CreateWebhookSchema.parse({ url: 'https://localhost:3000', events })).toThrow();
+      expect(() => CreateWebhookSchema.parse({ url: 'https://10.0.0.5/hook', events })).toThrow();
+      expect(() =>
+        CreateWebhookSchema.parse({ url: 'https://192.168.1.10/hook', events })
+      ).toThrow();
+      expect(() => CreateWebhookSchema.parse({ url: 'https://100.64.0.1/hook', events })).toThrow();
+      expect(() => CreateWebhookSchema.parse({ url: 'https://[::1]/hook', events })).toThrow();
+    });
+
+    it('should require known, unique events', () => {
+      const url = 'https://example.com/hook';
+      expect(() => CreateWebhookSchema.parse({ url, events: [] })).toThrow();
+      expect(() => CreateWebhookSchema.parse({ url, events: ['task_exploded'] })).toThrow();
+      expect(() =>
+        CreateWebhookSchema.parse({ url, events: ['task_created', 'task_created'] })
+      ).toThrow();
+    });
   });
 });
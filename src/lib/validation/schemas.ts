@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { COMMENT_REACTIONS } from '@/lib/comments/reactions';
+import { formatRecurrenceRule, parseRecurrenceRule } from '@/lib/tasks/recurrence';
+import { MAX_ENTRY_MINUTES, isStartAfterDue } from '@/lib/tasks/timeTracking';
+import { isBlockedAddress, isIPAddress } from '@/lib/webhooks/address';
 
 // ============================================
 // ENUMS
@@ -6,8 +10,12 @@ import { z } from 'zod';
 
 export const TaskPriorityEnum = z.enum(['low', 'medium', 'high', 'critical']);
 
+export const EstimateUnitEnum = z.enum(['hours', 'points']);
+
 export const BoardMemberRoleEnum = z.enum(['owner', 'admin', 'member', 'viewer']);
 
+export const WipLimitModeEnum = z.enum(['soft', 'hard']);
+
 export const ActivityActionEnum = z.enum([
   'board_created',
   'board_updated',
@@ -53,6 +61,9 @@ export const UUIDSchema = z.string().uuid('Invalid UUID format');
 /** ISO date string validation */
 export const ISODateSchema = z.string().datetime({ message: 'Invalid ISO date format' });
 
+/** Calendar date without time (YYYY-MM-DD) */
+export const DateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format');
+
 /** Hex color validation (e.g., #FF5733) */
 export const HexColorSchema = z
   .string()
@@ -71,36 +82,88 @@ export const TagsArraySchemaBase = z.array(TagSchema).max(10, 'Maximum 10 tags a
 /** Tags array validation with default empty array (for create operations) */
 export const TagsArraySchema = TagsArraySchemaBase.default([]);
 
+/**
+ * Assignee user IDs validation (max 10, no duplicates)
+ * Membership of the board is checked by the route, not here
+ */
+export const AssigneeIdsSchema = z
+  .array(UUIDSchema)
+  .max(10, 'Maximum 10 assignees allowed')
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: 'Assignees must be unique',
+  });
+
+/** Custom swimlane name */
+export const LaneSchema = z.string().max(50, 'Lane must be at most 50 characters').trim();
+
+/**
+ * Recurrence rule as an iCalendar RRULE (see lib/tasks/recurrence for the supported parts)
+ * Stored in canonical form, without the `RRULE:` prefix
+ */
+export const RecurrenceRuleSchema = z
+  .string()
+  .trim()
+  .max(200, 'Recurrence rule must be at most 200 characters')
+  .transform((value, ctx) => {
+    const parsed = parseRecurrenceRule(value);
+    if (!parsed.success) {
+      ctx.addIssue({ code: 'custom', message: parsed.error });
+      return z.NEVER;
+    }
+    return formatRecurrenceRule(parsed.rule);
+  });
+
+/** Task estimate in hours or points, rounded to two decimals */
+export const EstimateSchema = z
+  .number()
+  .positive('Estimate must be greater than 0')
+  .max(10000, 'Estimate must be at most 10000')
+  .transform((value) => Math.round(value * 100) / 100);
+
+/** Attributes a board can be grouped into swimlanes by */
+export const SwimlaneFieldEnum = z.enum(['priority', 'assignee', 'tag', 'lane']);
+
 // ============================================
 // TASK SCHEMAS
 // ============================================
 
 /** Schema for creating a new task */
-export const CreateTaskSchema = z.object({
-  title: z
-    .string()
-    .min(1, 'Title is required')
-    .max(200, 'Title must be at most 200 characters')
-    .trim(),
-  description: z
-    .string()
-    .max(2000, 'Description must be at most 2000 characters')
-    .trim()
-    .nullish()
-    .transform((val) => val || null),
-  status_id: UUIDSchema,
-  priority: TaskPriorityEnum.nullish().transform((val) => val || null),
-  tags: TagsArraySchema.optional().default([]),
-  assignee_name: z
-    .string()
-    .max(100, 'Assignee name must be at most 100 characters')
-    .trim()
-    .nullish()
-    .transform((val) => val || null),
-  assignee_color: HexColorSchema.nullish().transform((val) => val || null),
-  due_date: ISODateSchema.nullish().transform((val) => val || null),
-  order: z.number().int().nonnegative().optional(),
-});
+export const CreateTaskSchema = z
+  .object({
+    title: z
+      .string()
+      .min(1, 'Title is required')
+      .max(200, 'Title must be at most 200 characters')
+      .trim(),
+    description: z
+      .string()
+      .max(2000, 'Description must be at most 2000 characters')
+      .trim()
+      .nullish()
+      .transform((val) => val || null),
+    status_id: UUIDSchema,
+    priority: TaskPriorityEnum.nullish().transform((val) => val || null),
+    tags: TagsArraySchema.optional().default([]),
+    assignee_name: z
+      .string()
+      .max(100, 'Assignee name must be at most 100 characters')
+      .trim()
+      .nullish()
+      .transform((val) => val || null),
+    assignee_color: HexColorSchema.nullish().transform((val) => val || null),
+    assignee_ids: AssigneeIdsSchema.optional().default([]),
+    due_date: ISODateSchema.nullish().transform((val) => val || null),
+    start_date: ISODateSchema.nullish().transform((val) => val || null),
+    estimate: EstimateSchema.nullish().transform((val) => val ?? null),
+    estimate_unit: EstimateUnitEnum.optional().default('hours'),
+    lane: LaneSchema.nullish().transform((val) => val || null),
+    recurrence_rule: RecurrenceRuleSchema.nullish().transform((val) => val || null),
+    order: z.number().int().nonnegative().optional(),
+  })
+  .refine((task) => !isStartAfterDue(task.start_date, task.due_date), {
+    message: 'Start date must be on or before the due date',
+    path: ['start_date'],
+  });
 
 /** Schema for updating an existing task (all fields optional) */
 export const UpdateTaskSchema = z.object({
@@ -125,10 +188,38 @@ export const UpdateTaskSchema = z.object({
     .trim()
     .nullish(),
   assignee_color: HexColorSchema.nullish(),
+  assignee_ids: AssigneeIdsSchema.optional(),
   due_date: ISODateSchema.nullish(),
+  start_date: ISODateSchema.nullish(),
+  estimate: EstimateSchema.nullish(),
+  estimate_unit: EstimateUnitEnum.optional(),
+  lane: LaneSchema.nullish(),
+  recurrence_rule: RecurrenceRuleSchema.nullish(),
   order: z.number().int().nonnegative().optional(),
 });
 
+/**
+ * Lane change sent with a move when a task is dragged into another swimlane
+ * A null value targets the catch-all lane (no priority, unassigned, ...)
+ */
+export const MoveTaskLaneSchema = z
+  .object({
+    field: SwimlaneFieldEnum,
+    value: z.string().trim().min(1).max(50).nullable(),
+  })
+  .refine(
+    (lane) =>
+      lane.field !== 'priority' ||
+      lane.value === null ||
+      TaskPriorityEnum.safeParse(lane.value).success,
+    { message: 'Invalid priority', path: ['value'] }
+  )
+  .refine(
+    (lane) =>
+      lane.field !== 'assignee' || lane.value === null || UUIDSchema.safeParse(lane.value).success,
+    { message: 'Invalid assignee', path: ['value'] }
+  );
+
 /** Schema for task reordering */
 export const ReorderTaskSchema = z.object({
   task_id: UUIDSchema,
@@ -141,6 +232,88 @@ export const BulkReorderTasksSchema = z.object({
   tasks: z.array(ReorderTaskSchema).min(1, 'At least one task required'),
 });
 
+/** Action applied to every task of a bulk request */
+export const BulkTaskActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('move'), status_id: UUIDSchema }),
+  z.object({ type: z.literal('set_priority'), priority: TaskPriorityEnum.nullable() }),
+  z.object({ type: z.literal('add_tag'), tag: TagSchema }),
+  z.object({ type: z.literal('remove_tag'), tag: TagSchema }),
+  z.object({ type: z.literal('set_due_date'), due_date: ISODateSchema.nullable() }),
+  z.object({ type: z.literal('assign'), assignee_ids: AssigneeIdsSchema }),
+  z.object({ type: z.literal('delete') }),
+]);
+
+/** Schema for applying one action to many tasks at once */
+export const BulkTaskRequestSchema = z.object({
+  task_ids: z
+    .array(UUIDSchema)
+    .min(1, 'Select at least one task')
+    .max(100, 'Cannot change more than 100 tasks at once')
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: 'Tasks must be unique',
+    }),
+  action: BulkTaskActionSchema,
+});
+
+// ============================================
+// CHECKLIST SCHEMAS
+// ============================================
+
+/** Schema for creating a checklist item */
+export const CreateChecklistItemSchema = z.object({
+  title: z
+    .string()
+    .min(1, 'Title is required')
+    .max(500, 'Title must be at most 500 characters')
+    .trim(),
+  parent_id: UUIDSchema.nullish().transform((val) => val || null),
+  assignee_id: UUIDSchema.nullish().transform((val) => val || null),
+  due_date: DateOnlySchema.nullish().transform((val) => val || null),
+  order: z.number().int().nonnegative().optional(),
+});
+
+/** Schema for updating a checklist item (all fields optional) */
+export const UpdateChecklistItemSchema = z.object({
+  title: z
+    .string()
+    .min(1, 'Title cannot be empty')
+    .max(500, 'Title must be at most 500 characters')
+    .trim()
+    .optional(),
+  is_completed: z.boolean().optional(),
+  parent_id: UUIDSchema.nullish(),
+  assignee_id: UUIDSchema.nullish(),
+  due_date: DateOnlySchema.nullish(),
+  order: z.number().int().nonnegative().optional(),
+});
+
+// ============================================
+// TIME TRACKING SCHEMAS
+// ============================================
+
+/** Minutes of a manual time entry */
+export const EntryDurationSchema = z
+  .number()
+  .int('Duration must be whole minutes')
+  .min(1, 'Duration must be at least 1 minute')
+  .max(MAX_ENTRY_MINUTES, 'Duration must be at most 24 hours');
+
+const TimeEntryNoteSchema = z.string().max(500, 'Note must be at most 500 characters').trim();
+
+/** Schema for logging time by hand */
+export const CreateTimeEntrySchema = z.object({
+  started_at: ISODateSchema,
+  duration_minutes: EntryDurationSchema,
+  note: TimeEntryNoteSchema.nullish().transform((val) => val || null),
+});
+
+/** Schema for correcting a logged entry (all fields optional) */
+export const UpdateTimeEntrySchema = z.object({
+  started_at: ISODateSchema.optional(),
+  duration_minutes: EntryDurationSchema.optional(),
+  note: TimeEntryNoteSchema.nullish(),
+});
+
 // ============================================
 // BOARD SCHEMAS
 // ============================================
@@ -176,6 +349,13 @@ export const UpdateBoardSchema = z.object({
 // STATUS SCHEMAS
 // ============================================
 
+/** Maximum tasks per column (null = no limit) */
+export const WipLimitSchema = z
+  .number()
+  .int('WIP limit must be a whole number')
+  .positive('WIP limit must be at least 1')
+  .max(999, 'WIP limit must be at most 999');
+
 /** Schema for creating a new status column */
 export const CreateStatusSchema = z.object({
   name: z
@@ -185,6 +365,8 @@ export const CreateStatusSchema = z.object({
     .trim(),
   color: HexColorSchema,
   order: z.number().int().nonnegative().optional(),
+  wip_limit: WipLimitSchema.nullish().transform((val) => val ?? null),
+  wip_limit_mode: WipLimitModeEnum.optional().default('soft'),
 });
 
 /** Schema for updating an existing status column */
@@ -197,6 +379,8 @@ export const UpdateStatusSchema = z.object({
     .optional(),
   color: HexColorSchema.optional(),
   order: z.number().int().nonnegative().optional(),
+  wip_limit: WipLimitSchema.nullish(),
+  wip_limit_mode: WipLimitModeEnum.optional(),
 });
 
 /** Schema for status reordering */
@@ -221,6 +405,8 @@ export const CreateCommentSchema = z.object({
     .min(1, 'Comment cannot be empty')
     .max(5000, 'Comment must be at most 5000 characters')
     .trim(),
+  /** Comment being replied to; replies to a reply join the root thread */
+  parent_id: UUIDSchema.nullish(),
 });
 
 /** Schema for updating an existing comment */
@@ -232,6 +418,11 @@ export const UpdateCommentSchema = z.object({
     .trim(),
 });
 
+/** Schema for adding or removing a reaction on a comment */
+export const ToggleCommentReactionSchema = z.object({
+  emoji: z.enum(COMMENT_REACTIONS, { message: 'Unsupported reaction' }),
+});
+
 // ============================================
 // BOARD MEMBER SCHEMAS
 // ============================================
@@ -251,10 +442,118 @@ export const UpdateMemberRoleSchema = z.object({
   }),
 });
 
+// ============================================
+// IMPORT SCHEMAS
+// ============================================
+
+/** Supported import file types */
+export const ImportSourceEnum = z.enum(['kanbanpro', 'csv', 'trello', 'jira']);
+
+/** Task fields a generic CSV column can be mapped to */
+export const ImportFieldEnum = z.enum([
+  'title',
+  'description',
+  'status',
+  'priority',
+  'tags',
+  'due_date',
+  'assignees',
+  'lane',
+]);
+
+/** Generic CSV column mapping (task field -> CSV header) */
+export const CsvColumnMappingSchema = z.partialRecord(ImportFieldEnum, z.string().max(200));
+
+/** Schema for import requests; nothing is written unless dry_run is false */
+export const ImportRequestSchema = z.object({
+  source: ImportSourceEnum,
+  content: z.string().min(1, 'File is empty').max(5_000_000, 'File must be at most 5 MB'),
+  mapping: CsvColumnMappingSchema.optional(),
+  dry_run: z.boolean().optional().default(true),
+});
+
+/** A parsed task before it is written, checked row by row */
+export const ImportedTaskSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(200, 'Title must be at most 200 characters'),
+  description: z.string().max(2000, 'Description must be at most 2000 characters').nullable(),
+  status: z
+    .string()
+    .trim()
+    .min(1, 'Status is required')
+    .max(50, 'Status name must be at most 50 characters'),
+  priority: TaskPriorityEnum.nullable(),
+  tags: TagsArraySchemaBase,
+  due_date: ISODateSchema.nullable(),
+  lane: LaneSchema.nullable(),
+});
+
+// ============================================
+// WEBHOOK SCHEMAS
+// ============================================
+
+/**
+ * Hostnames a webhook must never point at (loopback and private networks)
+ * Names are resolved again at send time, where private addresses are refused as well
+ */
+const PRIVATE_HOST_PATTERN = /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i;
+
+/** Public HTTPS endpoint that receives webhook deliveries */
+export const WebhookUrlSchema = z
+  .string()
+  .trim()
+  .max(2000, 'URL must be at most 2000 characters')
+  .url('Invalid URL')
+  .refine((url) => url.startsWith('https://'), { message: 'Webhook URL must use HTTPS' })
+  .refine(
+    (url) => {
+      try {
+        const { hostname } = new URL(url);
+        if (isIPAddress(hostname)) return !isBlockedAddress(hostname);
+        return !PRIVATE_HOST_PATTERN.test(hostname);
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Webhook URL must be publicly reachable' }
+  );
+
+/** Activity events a webhook subscribes to (at least one, no duplicates) */
+export const WebhookEventsSchema = z
+  .array(ActivityActionEnum)
+  .min(1, 'Select at least one event')
+  .refine((events) => new Set(events).size === events.length, {
+    message: 'Events must be unique',
+  });
+
+/** Schema for creating a webhook; the secret is generated by the server */
+export const CreateWebhookSchema = z.object({
+  url: WebhookUrlSchema,
+  events: WebhookEventsSchema,
+  is_active: z.boolean().optional().default(true),
+});
+
+/** Schema for updating a webhook (all fields optional) */
+export const UpdateWebhookSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  events: WebhookEventsSchema.optional(),
+  is_active: z.boolean().optional(),
+  /** Replace the signing secret with a new one */
+  rotate_secret: z.boolean().optional(),
+});
+
 // ============================================
 // SEARCH & QUERY SCHEMAS
 // ============================================
 
+/** Schema for board export query params */
+export const ExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'md']).optional().default('json'),
+});
+
 /** Schema for search queries */
 export const SearchQuerySchema = z.object({
   q: z.string().min(1, 'Search query is required').max(200, 'Search query too long').trim(),
@@ -269,16 +568,32 @@ export const SearchQuerySchema = z.object({
   offset: z.coerce.number().int().nonnegative().optional().default(0),
 });
 
+/** Due date bound: a calendar day (inclusive) or an exact timestamp */
+const DueBoundSchema = z.union([DateOnlySchema, ISODateSchema]);
+
+/**
+ * Task filter fields shared by the task list query and saved filters
+ * `tags` may repeat in a query string; a task matches when it has any of them
+ */
+export const TaskFiltersSchema = z.object({
+  search: z.string().max(200).trim().optional(),
+  priority: TaskPriorityEnum.optional(),
+  tags: z
+    .union([TagSchema, TagsArraySchemaBase])
+    .optional()
+    .transform((value) => (typeof value === 'string' ? [value] : value)),
+  assignee_id: UUIDSchema.optional(),
+  due_after: DueBoundSchema.optional(),
+  due_before: DueBoundSchema.optional(),
+});
+
 /** Schema for task list query parameters */
 export const TaskListQuerySchema = z.object({
   page: z.coerce.number().int().min(1).optional().default(1),
   limit: z.coerce.number().int().min(1).max(100).optional().default(20),
   status_id: UUIDSchema.optional(),
-  priority: TaskPriorityEnum.optional(),
-  search: z.string().max(200).trim().optional(),
+  ...TaskFiltersSchema.shape,
   assignee_name: z.string().max(100).trim().optional(),
-  due_before: ISODateSchema.optional(),
-  due_after: ISODateSchema.optional(),
   sort_by: z
     .enum(['created_at', 'updated_at', 'due_date', 'priority', 'order', 'title'])
     .optional()
@@ -286,6 +601,59 @@ export const TaskListQuerySchema = z.object({
   sort_order: z.enum(['asc', 'desc']).optional().default('asc'),
 });
 
+/** Schema for saving a named filter; saving an existing name overwrites it */
+export const SaveFilterSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name must be at most 50 characters'),
+  filters: TaskFiltersSchema,
+});
+
+// ============================================
+// NOTIFICATION SCHEMAS
+// ============================================
+
+/** "true"/"false" query flags */
+const QueryFlagSchema = z
+  .enum(['true', 'false'])
+  .optional()
+  .transform((value) => value === 'true');
+
+/** Schema for notification list query parameters; `type` may repeat */
+export const NotificationListQuerySchema = z.object({
+  type: z
+    .union([NotificationTypeEnum, z.array(NotificationTypeEnum).max(20)])
+    .optional()
+    .transform((value) => (value === undefined ? [] : Array.isArray(value) ? value : [value])),
+  board_id: UUIDSchema.optional(),
+  unread: QueryFlagSchema,
+  archived: QueryFlagSchema,
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(30),
+});
+
+/** Schema for marking, archiving or restoring notifications */
+export const UpdateNotificationsSchema = z
+  .object({
+    action: z
+      .enum(['read', 'unread', 'archive', 'unarchive'], {
+        message: 'Action must be read, unread, archive or unarchive',
+      })
+      .optional()
+      .default('read'),
+    notification_ids: z.array(UUIDSchema).min(1).max(100).optional(),
+    mark_all: z.boolean().optional(),
+  })
+  .refine((data) => data.mark_all || data.notification_ids, {
+    message: 'notification_ids or mark_all required',
+  });
+
+/** Schema for deleting notifications */
+export const DeleteNotificationsSchema = z.object({
+  notification_ids: z
+    .array(UUIDSchema)
+    .min(1, 'Select at least one notification')
+    .max(100, 'Cannot delete more than 100 notifications at once'),
+});
+
 // ============================================
 // PROFILE SCHEMAS
 // ============================================
@@ -296,6 +664,21 @@ export const NotificationPreferencesSchema = z.object({
   email_task_due: z.boolean().optional(),
   email_comments: z.boolean().optional(),
   email_board_invites: z.boolean().optional(),
+  email_frequency: z.enum(['instant', 'hourly', 'daily']).optional(),
+  channels: z
+    .partialRecord(
+      NotificationTypeEnum,
+      z.object({
+        in_app: z.boolean(),
+        email: z.boolean(),
+      })
+    )
+    .optional(),
+});
+
+/** Schema for watching or muting a board or task */
+export const NotificationSubscriptionSchema = z.object({
+  level: z.enum(['watch', 'mute'], { message: 'Level must be watch or mute' }),
 });
 
 /** Schema for updating user profile */
@@ -326,8 +709,17 @@ export const PaginationSchema = z.object({
 
 export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
+export type MoveTaskLaneInput = z.infer<typeof MoveTaskLaneSchema>;
 export type ReorderTaskInput = z.infer<typeof ReorderTaskSchema>;
 export type BulkReorderTasksInput = z.infer<typeof BulkReorderTasksSchema>;
+export type BulkTaskAction = z.infer<typeof BulkTaskActionSchema>;
+export type BulkTaskRequestInput = z.infer<typeof BulkTaskRequestSchema>;
+
+export type CreateChecklistItemInput = z.infer<typeof CreateChecklistItemSchema>;
+export type UpdateChecklistItemInput = z.infer<typeof UpdateChecklistItemSchema>;
+
+export type CreateTimeEntryInput = z.infer<typeof CreateTimeEntrySchema>;
+export type UpdateTimeEntryInput = z.infer<typeof UpdateTimeEntrySchema>;
 
 export type CreateBoardInput = z.infer<typeof CreateBoardSchema>;
 export type UpdateBoardInput = z.infer<typeof UpdateBoardSchema>;
@@ -339,20 +731,36 @@ export type BulkReorderStatusesInput = z.infer<typeof BulkReorderStatusesSchema>
 
 export type CreateCommentInput = z.infer<typeof CreateCommentSchema>;
 export type UpdateCommentInput = z.infer<typeof UpdateCommentSchema>;
+export type ToggleCommentReactionInput = z.infer<typeof ToggleCommentReactionSchema>;
 
 export type InviteMemberInput = z.infer<typeof InviteMemberSchema>;
 export type UpdateMemberRoleInput = z.infer<typeof UpdateMemberRoleSchema>;
 
+export type ImportSource = z.infer<typeof ImportSourceEnum>;
+export type ImportField = z.infer<typeof ImportFieldEnum>;
+export type CsvColumnMapping = z.infer<typeof CsvColumnMappingSchema>;
+export type ImportRequestInput = z.infer<typeof ImportRequestSchema>;
+export type CreateWebhookInput = z.infer<typeof CreateWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof UpdateWebhookSchema>;
+export type ExportQueryInput = z.infer<typeof ExportQuerySchema>;
 export type SearchQueryInput = z.infer<typeof SearchQuerySchema>;
 export type TaskListQueryInput = z.infer<typeof TaskListQuerySchema>;
+export type TaskFiltersInput = z.infer<typeof TaskFiltersSchema>;
+export type SaveFilterInput = z.infer<typeof SaveFilterSchema>;
 
+export type NotificationListQueryInput = z.infer<typeof NotificationListQuerySchema>;
+export type UpdateNotificationsInput = z.infer<typeof UpdateNotificationsSchema>;
+export type DeleteNotificationsInput = z.infer<typeof DeleteNotificationsSchema>;
 export type NotificationPreferencesInput = z.infer<typeof NotificationPreferencesSchema>;
+export type NotificationSubscriptionInput = z.infer<typeof NotificationSubscriptionSchema>;
 export type UpdateProfileInput = z.infer<typeof UpdateProfileSchema>;
 
 export type PaginationInput = z.infer<typeof PaginationSchema>;
 
 // Re-export enum types
 export type TaskPriority = z.infer<typeof TaskPriorityEnum>;
+export type EstimateUnit = z.infer<typeof EstimateUnitEnum>;
 export type BoardMemberRole = z.infer<typeof BoardMemberRoleEnum>;
+export type WipLimitMode = z.infer<typeof WipLimitModeEnum>;
 export type ActivityAction = z.infer<typeof ActivityActionEnum>;
 export type NotificationType = z.infer<typeof NotificationTypeEnum>;
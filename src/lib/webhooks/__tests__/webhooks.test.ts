@@ -0,0 +1,157 @@
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+  getWebhookRetryDelay,
+  isBlockedAddress,
+  maskWebhookSecret,
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  withMaskedSecret,
+} from '..';
+
+const secret = 'whsec_0123456789abcdef0123456789abcdef';
+const body = JSON.stringify({ event: 'task_created', board_id: 'board-1' });
+
+const mockResponse = (status: number, text: string) => ({
+  status,
+  text: () => Promise.resolve(text),
+});
+
+describe('webhooks', () => {
+  describe('signatures', () => {
+    it('should sign with a timestamp and HMAC-SHA256 digest', () => {
+      const header = signWebhookPayload(secret, body, 1700000000);
+
+      expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+      expect(signWebhookPayload(secret, body, 1700000000)).toBe(header);
+    });
+
+    it('should verify its own signatures', () => {
+      const header = signWebhookPayload(secret, body, 1700000000);
+
+      expect(verifyWebhookSignature(secret, body, header, 1700000010)).toBe(true);
+    });
+
+    it('should reject tampered bodies, wrong secrets and stale timestamps', () => {
+      const header = signWebhookPayload(secret, body, 1700000000);
+
+      expect(verifyWebhookSignature(secret, `${body} `, header, 1700000000)).toBe(false);
+      expect(verifyWebhookSignature(`${secret}x`, body, header, 1700000000)).toBe(false);
+      expect(verifyWebhookSignature(secret, body, header, 1700000000 + 301)).toBe(false);
+      expect(verifyWebhookSignature(secret, body, 'garbage', 1700000000)).toBe(false);
+    });
+
+    it('should generate distinct secrets and mask them', () => {
+      const generated = generateWebhookSecret();
+
+      expect(generated).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(generateWebhookSecret()).not.toBe(generated);
+      expect(maskWebhookSecret(secret)).toBe('whsec_••••cdef');
+      expect(withMaskedSecret({ id: 'w1', secret })).toEqual({
+        id: 'w1',
+        secret: 'whsec_••••cdef',
+      });
+    });
+  });
+
+  describe('getWebhookRetryDelay', () => {
+    it('should back off after each failed attempt and stop at the limit', () => {
+      const delays = Array.from({ length: WEBHOOK_MAX_ATTEMPTS - 1 }, (_, i) =>
+        getWebhookRetryDelay(i + 1)
+      );
+
+      delays.reduce((previous, delay) => {
+        expect(delay).toBeGreaterThan(previous as number);
+        return delay;
+      }, 0);
+      expect(getWebhookRetryDelay(WEBHOOK_MAX_ATTEMPTS)).toBeNull();
+    });
+  });
+
+  describe('isBlockedAddress', () => {
+    it('should block loopback, private, link-local and CGNAT addresses', () => {
+      for (const address of [
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.20.0.1',
+        '192.168.0.10',
+        '169.254.169.254',
+        '100.100.0.1',
+        '0.0.0.0',
+        '::1',
+        'fd00::1',
+        'fe80::1',
+        '::ffff:10.0.0.1',
+      ]) {
+        expect(isBlockedAddress(address)).toBe(true);
+      }
+    });
+
+    it('should allow public addresses', () => {
+      for (const address of ['93.184.216.34', '100.128.0.1', '172.32.0.1', '2606:4700::1111']) {
+        expect(isBlockedAddress(address)).toBe(false);
+      }
+    });
+  });
+
+  describe('sendWebhook', () => {
+    const request = {
+      url: 'https://example.com/hook',
+      secret,
+      deliveryId: 'delivery-1',
+      event: 'task_created' as const,
+      payload: { event: 'task_created' },
+    };
+    const publicLookup = jest.fn().mockResolvedValue(['93.184.216.34']);
+
+    it('should POST a signed JSON body and report the response', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(mockResponse(200, 'ok'));
+
+      const attempt = await sendWebhook(request, fetchMock, publicLookup);
+
+      expect(attempt).toMatchObject({ ok: true, status: 200, responseBody: 'ok', error: null });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(request.url);
+      expect(init.method).toBe('POST');
+      expect(init.body).toBe(JSON.stringify(request.payload));
+      expect(
+        verifyWebhookSignature(secret, init.body, init.headers[WEBHOOK_SIGNATURE_HEADER])
+      ).toBe(true);
+    });
+
+    it('should treat non-2xx responses as failures', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(mockResponse(500, 'nope'));
+
+      await expect(sendWebhook(request, fetchMock, publicLookup)).resolves.toMatchObject({
+        ok: false,
+        status: 500,
+        responseBody: 'nope',
+      });
+    });
+
+    it('should refuse hosts that resolve to a private address', async () => {
+      const fetchMock = jest.fn();
+      const lookup = jest.fn().mockResolvedValue(['93.184.216.34', '169.254.169.254']);
+
+      await expect(sendWebhook(request, fetchMock, lookup)).resolves.toMatchObject({
+        ok: false,
+        status: null,
+        error: 'Webhook URL resolves to a private address',
+      });
+      expect(lookup).toHaveBeenCalledWith('example.com');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should report network errors without throwing', async () => {
+      const fetchMock = jest.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(sendWebhook(request, fetchMock, publicLookup)).resolves.toMatchObject({
+        ok: false,
+        status: null,
+        error: 'ECONNREFUSED',
+      });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Webhook target addresses
+ * Webhooks may only reach the public internet: never the app's own network
+ */
+
+/** IPv4 ranges a webhook must not reach, as [first octets, prefix length] */
+const BLOCKED_IPV4_RANGES: Array<[number[], number]> = [
+  [[0], 8], // "this" network
+  [[10], 8], // private
+  [[100, 64], 10], // carrier-grade NAT
+  [[127], 8], // loopback
+  [[169, 254], 16], // link-local, including cloud metadata endpoints
+  [[172, 16], 12], // private
+  [[192, 168], 16], // private
+  [[224], 3], // multicast and reserved, up to 255.255.255.255
+];
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+}
+
+function isBlockedIPv4(octets: number[]): boolean {
+  const value = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+  return BLOCKED_IPV4_RANGES.some(([start, prefix]) => {
+    const base = start.concat([0, 0, 0]).slice(0, 4);
+    const network = ((base[0] << 24) | (base[1] << 16) | (base[2] << 8) | base[3]) >>> 0;
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return (value & mask) >>> 0 === network;
+  });
+}
+
+function isBlockedIPv6(address: string): boolean {
+  const normalized = address
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .split('%')[0];
+
+  // IPv4-mapped (::ffff:10.0.0.1) and IPv4-compatible addresses carry an IPv4 target
+  const embedded = normalized.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const octets = parseIPv4(embedded[1]);
+    return !octets || isBlockedIPv4(octets);
+  }
+
+  if (normalized === '::' || normalized === '::1') return true;
+
+  const firstGroup = parseInt(normalized.split(':')[0] || '0', 16);
+  return (
+    (firstGroup & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (firstGroup & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (firstGroup & 0xff00) === 0xff00 || // multicast ff00::/8
+    normalized.startsWith('::ffff:') // any other IPv4-mapped form
+  );
+}
+
+/**
+ * Whether a string is an IP address literal (IPv6 may be in brackets, as in URLs)
+ */
+export function isIPAddress(value: string): boolean {
+  return parseIPv4(value) !== null || /^\[?[0-9a-f:.%]*:[0-9a-f:.%]*\]?$/i.test(value);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, CGNAT or otherwise not public
+ * Anything that is not a valid address counts as blocked
+ */
+export function isBlockedAddress(address: string): boolean {
+  const octets = parseIPv4(address);
+  if (octets) return isBlockedIPv4(octets);
+  if (address.includes(':')) return isBlockedIPv6(address);
+  return true;
+}
@@ -0,0 +1,130 @@
+/**
+ * Webhook delivery
+ * Sends one signed request and reports what happened, plus the retry schedule
+ */
+
+import { lookup } from 'dns/promises';
+import type { ActivityAction } from '@/types/board';
+import { isBlockedAddress } from './address';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from './signature';
+
+/** Delay before each retry; a delivery is marked failed after the last one */
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_LOGGED_RESPONSE_LENGTH = 2000;
+
+export type WebhookEvent = ActivityAction | 'ping';
+
+/** Resolves a hostname to every address it points at */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+const lookupHost: HostLookup = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(({ address }) => address);
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+}
+
+export interface WebhookAttempt {
+  ok: boolean;
+  /** HTTP status, null when no response arrived */
+  status: number | null;
+  responseBody: string | null;
+  latencyMs: number;
+  error: string | null;
+}
+
+/**
+ * Wait before the next attempt, or null when attempts are used up
+ * `attempts` counts attempts already made, including the one that just failed
+ */
+export function getWebhookRetryDelay(attempts: number): number | null {
+  return WEBHOOK_RETRY_DELAYS_MS[attempts - 1] ?? null;
+}
+
+/**
+ * Refuse a target whose hostname resolves to a loopback, private, link-local or CGNAT
+ * address; the URL was only checked as text when the webhook was saved
+ */
+async function assertPublicTarget(url: string, lookupImpl: HostLookup): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = await lookupImpl(hostname);
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error('Webhook URL resolves to a private address');
+  }
+}
+
+/**
+ * POST a signed payload; never throws
+ */
+export async function sendWebhook(
+  request: WebhookRequest,
+  fetchImpl: typeof fetch = fetch,
+  lookupImpl: HostLookup = lookupHost
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(request.payload);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  const startedAt = Date.now();
+
+  try {
+    await assertPublicTarget(request.url, lookupImpl);
+
+    const response = await fetchImpl(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'KanbanPro-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: request.event,
+        [WEBHOOK_DELIVERY_HEADER]: request.deliveryId,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(request.secret, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+
+    const text = await response.text().catch(() => '');
+
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      responseBody: text.slice(0, MAX_LOGGED_RESPONSE_LENGTH) || null,
+      latencyMs: Date.now() - startedAt,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      responseBody: null,
+      latencyMs: Date.now() - startedAt,
+      error:
+        error instanceof Error && error.name === 'AbortError'
+          ? `Timed out after ${DELIVERY_TIMEOUT_MS / 1000}s`
+          : error instanceof Error
+            ? error.message
+            : 'Request failed',
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
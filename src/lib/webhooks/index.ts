@@ -0,0 +1,27 @@
+/**
+ * Outgoing webhooks
+ * Signing, delivery and retry schedule for board event webhooks
+ */
+
+export {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  generateWebhookSecret,
+  maskWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  withMaskedSecret,
+} from './signature';
+export {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_DELAYS_MS,
+  getWebhookRetryDelay,
+  sendWebhook,
+  type HostLookup,
+  type WebhookAttempt,
+  type WebhookEvent,
+  type WebhookRequest,
+} from './delivery';
+export { isBlockedAddress, isIPAddress } from './address';
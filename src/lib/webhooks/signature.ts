@@ -0,0 +1,77 @@
+/**
+ * Webhook signing
+ * Deliveries carry `X-KanbanPro-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>`,
+ * computed over `<t>.<raw body>` with the webhook's secret.
+ * The deliver-webhooks Edge Function signs the same way; keep the two in sync.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-KanbanPro-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-KanbanPro-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-KanbanPro-Delivery';
+
+/** Signatures older than this are rejected by verifyWebhookSignature */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * New random signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Hide all but the last 4 characters of a secret
+ */
+export function maskWebhookSecret(secret: string): string {
+  return `${SECRET_PREFIX}••••${secret.slice(-4)}`;
+}
+
+/**
+ * Signature header value for a body sent at `timestamp` (unix seconds)
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header the way a receiver should
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    })
+  );
+
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1];
+  const a = Buffer.from(signature, 'hex');
+  const b = Buffer.from(expected, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Copy of a webhook row that is safe to return from the API
+ */
+export function withMaskedSecret<T extends { secret: string }>(webhook: T): T {
+  return { ...webhook, secret: maskWebhookSecret(webhook.secret) };
+}
@@ -17,6 +17,8 @@ export class TaskService {
       status_id?: string;
       priority?: TaskPriority;
       search?: string;
+      tags?: string[];
+      assignee_id?: string;
       assignee_name?: string;
       due_before?: string;
       due_after?: string;
@@ -28,7 +30,9 @@ export class TaskService {
 
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
+        if (Array.isArray(value)) {
+          value.forEach((item) => queryParams.append(key, item));
+        } else if (value !== undefined) {
           queryParams.append(key, String(value));
         }
       });
@@ -60,6 +64,7 @@ export class TaskService {
       tags?: string[];
       assignee_name?: string;
       assignee_color?: string;
+      assignee_ids?: string[];
       due_date?: string;
     }
   ): Promise<ServiceResponse<TaskResponse>> {
@@ -72,7 +77,7 @@ export class TaskService {
   async updateTask(
     boardId: string,
     taskId: string,
-    data: Partial<Task>
+    data: Partial<Task> & { assignee_ids?: string[] }
   ): Promise<ServiceResponse<TaskResponse>> {
     return apiClient.put<TaskResponse>(`/boards/${boardId}/tasks/${taskId}`, data);
   }
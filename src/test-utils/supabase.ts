@@ -0,0 +1,45 @@
+/**
+ * Supabase client mock shared by the route test suites
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+export type QueryResult = { data?: unknown; error?: unknown; count?: number | null };
+
+/**
+ * Query builder mock: chained calls return the builder; awaiting it, or calling
+ * single/maybeSingle, resolves with the next result queued for the table. Inserts and
+ * updates are recorded in `writes`, and `rpc` resolves with an empty result unless a
+ * test overrides it.
+ */
+export const createSupabaseMock = (results: Record<string, QueryResult[]>) => {
+  const writes: { table: string; values: unknown }[] = [];
+
+  const from = jest.fn((table: string) => {
+    const next = () =>
+      Promise.resolve({ data: null, error: null, ...(results[table]?.shift() ?? {}) });
+    const builder: any = {};
+    for (const method of ['select', 'delete', 'eq', 'neq', 'in', 'is', 'order', 'limit']) {
+      builder[method] = jest.fn(() => builder);
+    }
+    for (const method of ['insert', 'update']) {
+      builder[method] = jest.fn((values: unknown) => {
+        writes.push({ table, values });
+        return builder;
+      });
+    }
+    builder.single = jest.fn(next);
+    builder.maybeSingle = jest.fn(next);
+    builder.then = (resolve: any, reject: any) => next().then(resolve, reject);
+    return builder;
+  });
+
+  const supabase = {
+    from,
+    rpc: jest.fn().mockResolvedValue({ data: null, error: null }),
+    auth: {
+      getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+    },
+  };
+
+  return { supabase, writes };
+};
@@ -0,0 +1,31 @@
+/**
+ * Task fixtures shared by the test suites
+ */
+
+import type { Task } from '@/types/board';
+
+/**
+ * A task with every column set to its empty default; pass only what a test cares about
+ */
+export const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  board_id: 'board-1',
+  status_id: 'status-1',
+  title: 'Task',
+  description: null,
+  priority: null,
+  tags: [],
+  assignee_name: null,
+  assignee_color: null,
+  due_date: null,
+  lane: null,
+  recurrence_rule: null,
+  next_occurrence_id: null,
+  start_date: null,
+  estimate: null,
+  estimate_unit: 'hours',
+  order: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
@@ -14,6 +14,12 @@ describe('Board Types', () => {
         assignee_name: 'John Doe',
         assignee_color: '#6366f1',
         due_date: '2024-12-31',
+        lane: null,
+        recurrence_rule: null,
+        next_occurrence_id: null,
+        start_date: null,
+        estimate: null,
+        estimate_unit: 'hours',
         order: 0,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
@@ -37,6 +43,12 @@ describe('Board Types', () => {
         assignee_name: null,
         assignee_color: null,
         due_date: null,
+        lane: null,
+        recurrence_rule: null,
+        next_occurrence_id: null,
+        start_date: null,
+        estimate: null,
+        estimate_unit: 'hours',
         order: 0,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
@@ -61,6 +73,12 @@ describe('Board Types', () => {
           assignee_name: null,
           assignee_color: null,
           due_date: null,
+          lane: null,
+          recurrence_rule: null,
+          next_occurrence_id: null,
+          start_date: null,
+          estimate: null,
+          estimate_unit: 'hours',
           order: 0,
           created_at: '2024-01-01T00:00:00Z',
           updated_at: '2024-01-01T00:00:00Z',
@@ -78,6 +96,8 @@ describe('Board Types', () => {
         name: 'To Do',
         color: '#3B82F6',
         order: 0,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -93,6 +113,8 @@ describe('Board Types', () => {
         name: 'In Progress',
         color: '#F59E0B',
         order: 1,
+        wip_limit: null,
+        wip_limit_mode: 'soft',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
         tasks: [
@@ -107,6 +129,12 @@ describe('Board Types', () => {
             assignee_name: null,
             assignee_color: null,
             due_date: null,
+            lane: null,
+            recurrence_rule: null,
+            next_occurrence_id: null,
+            start_date: null,
+            estimate: null,
+            estimate_unit: 'hours',
             order: 0,
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
@@ -164,6 +192,8 @@ describe('Board Types', () => {
             name: 'To Do',
             color: '#3B82F6',
             order: 0,
+            wip_limit: null,
+            wip_limit_mode: 'soft',
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
             tasks: [],
@@ -174,6 +204,8 @@ describe('Board Types', () => {
             name: 'Done',
             color: '#22C55E',
             order: 1,
+            wip_limit: null,
+            wip_limit_mode: 'soft',
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
             tasks: [],
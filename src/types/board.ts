@@ -19,10 +19,16 @@ export interface Status {
   name: string;
   color: string;
   order: number;
+  /** Maximum tasks in the column, or null for no limit */
+  wip_limit: number | null;
+  wip_limit_mode: WipLimitMode;
   created_at: string;
   updated_at: string;
 }
 
+/** Soft limits warn when exceeded, hard limits block */
+export type WipLimitMode = 'soft' | 'hard';
+
 export interface Task {
   id: string;
   board_id: string;
@@ -31,16 +37,63 @@ export interface Task {
   description: string | null;
   priority: TaskPriority | null;
   tags: string[];
+  /** Legacy free-text assignee, superseded by `assignees` */
   assignee_name: string | null;
   assignee_color: string | null;
   due_date: string | null;
+  /** Custom swimlane, used when the board is grouped by lane */
+  lane: string | null;
+  /** iCalendar RRULE, e.g. FREQ=WEEKLY;BYDAY=MO; null for a one-off task */
+  recurrence_rule: string | null;
+  /** Occurrence created when this one was finished */
+  next_occurrence_id: string | null;
+  /** First day of work, shown as the start of the task's timeline bar */
+  start_date: string | null;
+  /** Expected effort in `estimate_unit` */
+  estimate: number | null;
+  estimate_unit: EstimateUnit;
   order: number;
   created_at: string;
   updated_at: string;
+  // Joined fields
+  assignees?: TaskAssignee[];
+  /** Completion state only, used for progress on cards */
+  checklist_items?: Pick<ChecklistItem, 'id' | 'is_completed'>[];
 }
 
 export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
 
+/** Estimates are either hours, comparable with tracked time, or story points */
+export type EstimateUnit = 'hours' | 'points';
+
+// ============================================
+// TASK FILTERS
+// ============================================
+
+/**
+ * Board filter bar state; the keys match the task list query parameters
+ * Due dates are inclusive calendar days (YYYY-MM-DD)
+ */
+export interface TaskFilters {
+  search?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  assignee_id?: string;
+  due_after?: string;
+  due_before?: string;
+}
+
+/** A member's named filter for a board, private to them */
+export interface SavedFilter {
+  id: string;
+  user_id: string;
+  board_id: string;
+  name: string;
+  filters: TaskFilters;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================
 // BOARD MEMBERS (Sharing)
 // ============================================
@@ -60,6 +113,61 @@ export interface BoardMember {
   profile?: Profile;
 }
 
+// ============================================
+// TASK ASSIGNEES
+// ============================================
+
+export interface TaskAssignee {
+  id: string;
+  task_id: string;
+  user_id: string;
+  assigned_by: string | null;
+  created_at: string;
+  // Joined fields
+  profile?: Profile;
+}
+
+// ============================================
+// CHECKLISTS
+// ============================================
+
+export interface ChecklistItem {
+  id: string;
+  task_id: string;
+  parent_id: string | null;
+  title: string;
+  is_completed: boolean;
+  completed_at: string | null;
+  completed_by: string | null;
+  assignee_id: string | null;
+  due_date: string | null;
+  order: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined fields
+  assignee?: Profile | null;
+}
+
+// ============================================
+// TIME TRACKING
+// ============================================
+
+/** Time a member spent on a task; `ended_at` is null while the timer runs */
+export interface TimeEntry {
+  id: string;
+  task_id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  note: string | null;
+  is_manual: boolean;
+  created_at: string;
+  updated_at: string;
+  // Joined fields
+  user?: Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'> | null;
+}
+
 // ============================================
 // COMMENTS
 // ============================================
@@ -68,11 +176,38 @@ export interface Comment {
   id: string;
   task_id: string;
   user_id: string;
+  /** May contain mention tokens, see src/lib/comments/mentions.ts */
   content: string;
+  /** Ids of the users mentioned in content */
+  mentions: string[];
+  /** Top-level comment this is a reply to; replies are never nested deeper */
+  parent_id: string | null;
+  /** When the content was last edited, null if never */
+  edited_at: string | null;
   created_at: string;
   updated_at: string;
   // Joined fields
   profile?: Profile;
+  reactions?: CommentReaction[];
+}
+
+export interface CommentReaction {
+  id: string;
+  comment_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+/** A comment's text before one of its edits */
+export interface CommentRevision {
+  id: string;
+  comment_id: string;
+  content: string;
+  edited_by: string | null;
+  created_at: string;
+  // Joined fields
+  editor?: Pick<Profile, 'id' | 'email' | 'display_name'> | null;
 }
 
 // ============================================
@@ -132,6 +267,42 @@ export interface Activity {
   task?: Pick<Task, 'id' | 'title'>;
 }
 
+// ============================================
+// WEBHOOKS
+// ============================================
+
+export interface Webhook {
+  id: string;
+  board_id: string;
+  url: string;
+  /** Masked (last 4 characters) except in the response that creates or rotates it */
+  secret: string;
+  events: ActivityAction[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  activity_id: string | null;
+  event: ActivityAction | 'ping';
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  latency_ms: number | null;
+  error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
 // ============================================
 // TEMPLATES
 // ============================================
@@ -178,18 +349,55 @@ export interface Notification {
   task_id: string | null;
   read_at: string | null;
   email_sent: boolean;
+  in_app: boolean;
+  archived_at: string | null;
+  created_at: string;
+}
+
+/** A notification with the board and task it points at, as the notification list returns it */
+export interface NotificationWithContext extends Notification {
+  board: { id: string; name: string } | null;
+  task: { id: string; title: string } | null;
+}
+
+/** Watch: notify about all activity; mute: notify about nothing */
+export type SubscriptionLevel = 'watch' | 'mute';
+
+/**
+ * A member's board-wide (task_id null) or per-task notification setting
+ * A task subscription overrides the board one
+ */
+export interface NotificationSubscription {
+  id: string;
+  user_id: string;
+  board_id: string;
+  task_id: string | null;
+  level: SubscriptionLevel;
   created_at: string;
+  updated_at: string;
+}
+
+/** Where a notification type is delivered */
+export interface NotificationChannels {
+  in_app: boolean;
+  email: boolean;
 }
 
 // ============================================
 // PROFILES
 // ============================================
 
+/** How emails are delivered: one per notification, or batched into a digest */
+export type EmailFrequency = 'instant' | 'hourly' | 'daily';
+
 export interface NotificationPreferences {
   email_task_assigned: boolean;
   email_task_due: boolean;
   email_comments: boolean;
   email_board_invites: boolean;
+  email_frequency?: EmailFrequency;
+  /** Per-type delivery; overrides the email_* toggles above when set */
+  channels?: Partial<Record<NotificationType, NotificationChannels>>;
 }
 
 export interface Profile {
@@ -202,6 +410,33 @@ export interface Profile {
   updated_at: string;
 }
 
+// ============================================
+// PRESENCE
+// ============================================
+
+/** Where a user is typing inside an open task */
+export type PresenceActivity = 'description' | 'comment';
+
+/** State each client tracks on the board's realtime channel */
+export interface BoardPresenceState {
+  user_id: string;
+  email: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  /** Task open in the drawer, if any */
+  task_id: string | null;
+  typing: PresenceActivity | null;
+  online_at: string;
+}
+
+/** A user on the board, merged across their open tabs */
+export interface BoardPresenceMember {
+  user_id: string;
+  profile: Pick<Profile, 'id' | 'email' | 'display_name' | 'avatar_url'>;
+  task_ids: string[];
+  typing: { task_id: string; activity: PresenceActivity }[];
+}
+
 // ============================================
 // EXTENDED/COMPOSITE TYPES
 // ============================================
@@ -0,0 +1,251 @@
+// Supabase Edge Function that drains the webhook delivery queue
+// Deploy with: supabase functions deploy deliver-webhooks
+// Schedule once per minute with pg_cron (see migration 009_webhooks.sql)
+//
+// Signing, retry timings and blocked addresses mirror src/lib/webhooks; keep the two in sync.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const BATCH_SIZE = 50;
+// Longer than a full batch can take (BATCH_SIZE deliveries at DELIVERY_TIMEOUT_MS each)
+const CLAIM_TTL = '15 minutes';
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_LOGGED_RESPONSE_LENGTH = 2000;
+
+// Delay before each retry; a delivery is marked failed after the last one
+const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+
+interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+}
+
+interface QueuedDelivery {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+}
+
+// IPv4 ranges a webhook must not reach: "this" network, private, CGNAT, loopback,
+// link-local (cloud metadata) and multicast/reserved
+const BLOCKED_IPV4_RANGES: Array<[number[], number]> = [
+  [[0], 8],
+  [[10], 8],
+  [[100, 64], 10],
+  [[127], 8],
+  [[169, 254], 16],
+  [[172, 16], 12],
+  [[192, 168], 16],
+  [[224], 3],
+];
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+}
+
+function toUint32(octets: number[]): number {
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+}
+
+function isBlockedAddress(address: string): boolean {
+  const octets = parseIPv4(address);
+  if (octets) {
+    const value = toUint32(octets);
+    return BLOCKED_IPV4_RANGES.some(([start, prefix]) => {
+      const mask = (~0 << (32 - prefix)) >>> 0;
+      return (value & mask) >>> 0 === toUint32(start.concat([0, 0, 0]).slice(0, 4));
+    });
+  }
+  if (!address.includes(':')) return true;
+
+  const normalized = address.toLowerCase().split('%')[0];
+  const embedded = normalized.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return isBlockedAddress(embedded[1]);
+  if (normalized === '::' || normalized === '::1') return true;
+
+  const firstGroup = parseInt(normalized.split(':')[0] || '0', 16);
+  return (
+    (firstGroup & 0xfe00) === 0xfc00 ||
+    (firstGroup & 0xffc0) === 0xfe80 ||
+    (firstGroup & 0xff00) === 0xff00 ||
+    normalized.startsWith('::ffff:')
+  );
+}
+
+// The URL was only checked as text when the webhook was saved; resolve it now
+async function assertPublicTarget(url: string) {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses =
+    parseIPv4(hostname) || hostname.includes(':')
+      ? [hostname]
+      : (
+          await Promise.all(
+            (['A', 'AAAA'] as const).map((type) =>
+              Deno.resolveDns(hostname, type).catch(() => [] as string[])
+            )
+          )
+        ).flat();
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error('Webhook URL resolves to a private address');
+  }
+}
+
+async function sign(secret: string, body: string, timestamp: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  const hex = Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `t=${timestamp},v1=${hex}`;
+}
+
+async function deliver(delivery: QueuedDelivery, { url, secret }: Webhook) {
+  const body = JSON.stringify(delivery.payload);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  const startedAt = Date.now();
+
+  try {
+    await assertPublicTarget(url);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'KanbanPro-Webhooks/1.0',
+        'X-KanbanPro-Event': delivery.event,
+        'X-KanbanPro-Delivery': delivery.id,
+        'X-KanbanPro-Signature': await sign(secret, body, Math.floor(Date.now() / 1000)),
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+    const text = await response.text().catch(() => '');
+
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      responseBody: text.slice(0, MAX_LOGGED_RESPONSE_LENGTH) || null,
+      latencyMs: Date.now() - startedAt,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      responseBody: null,
+      latencyMs: Date.now() - startedAt,
+      error: error.name === 'AbortError' ? 'Timed out after 10s' : error.message,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+serve(async (req: Request) => {
+  // Only the scheduler, which sends the service role key, may drain the queue
+  if (req.headers.get('Authorization') !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // Claimed rows are skipped by an overlapping run until released or expired
+    const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+      p_batch_size: BATCH_SIZE,
+      p_claim_ttl: CLAIM_TTL,
+    });
+
+    if (error) throw error;
+
+    const deliveries = (data || []) as QueuedDelivery[];
+    const webhookIds = [...new Set(deliveries.map((delivery) => delivery.webhook_id))];
+    const { data: webhooks } = webhookIds.length
+      ? await supabase.from('webhooks').select('id, url, secret, is_active').in('id', webhookIds)
+      : { data: [] };
+    let succeeded = 0;
+
+    for (const delivery of deliveries) {
+      const webhook = (webhooks as Webhook[] | null)?.find(
+        (candidate) => candidate.id === delivery.webhook_id
+      );
+
+      // Webhook was switched off after the event was queued
+      if (!webhook?.is_active) {
+        await supabase
+          .from('webhook_deliveries')
+          .update({
+            status: 'failed',
+            error: 'Webhook disabled',
+            next_attempt_at: null,
+            claimed_at: null,
+          })
+          .eq('id', delivery.id);
+        continue;
+      }
+
+      const attempt = await deliver(delivery, webhook);
+      const attempts = delivery.attempts + 1;
+      const retryDelay = RETRY_DELAYS_MS[attempts - 1];
+
+      await supabase
+        .from('webhook_deliveries')
+        .update({
+          attempts,
+          status: attempt.ok ? 'succeeded' : retryDelay ? 'pending' : 'failed',
+          next_attempt_at:
+            !attempt.ok && retryDelay ? new Date(Date.now() + retryDelay).toISOString() : null,
+          response_status: attempt.status,
+          response_body: attempt.responseBody,
+          latency_ms: attempt.latencyMs,
+          error: attempt.error,
+          delivered_at: attempt.ok ? new Date().toISOString() : null,
+          claimed_at: null,
+        })
+        .eq('id', delivery.id);
+
+      if (attempt.ok) succeeded++;
+    }
+
+    return new Response(JSON.stringify({ processed: deliveries.length, succeeded }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in deliver-webhooks:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,60 @@
+-- Migration: Task Assignees
+-- Links tasks to real board members instead of free-text assignee_name/assignee_color
+
+-- ============================================
+-- 1. TASK ASSIGNEES
+-- ============================================
+CREATE TABLE IF NOT EXISTS task_assignees (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(task_id, user_id)
+);
+
+CREATE INDEX idx_task_assignees_task ON task_assignees(task_id);
+CREATE INDEX idx_task_assignees_user ON task_assignees(user_id);
+
+-- ============================================
+-- 2. RLS POLICIES
+-- ============================================
+ALTER TABLE task_assignees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view assignees on accessible boards"
+    ON task_assignees FOR SELECT
+    USING (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR bm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Editors can assign members on accessible boards"
+    ON task_assignees FOR INSERT
+    WITH CHECK (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role != 'viewer')
+        )
+    );
+
+CREATE POLICY "Editors can unassign members on accessible boards"
+    ON task_assignees FOR DELETE
+    USING (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role != 'viewer')
+        )
+    );
+
+-- ============================================
+-- 3. REALTIME SUBSCRIPTIONS
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE task_assignees;
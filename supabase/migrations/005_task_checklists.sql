@@ -0,0 +1,87 @@
+-- Migration: Task Checklists
+-- Ordered, checkable checklist items under a task, optionally nested one level under another item
+
+-- ============================================
+-- 1. CHECKLIST ITEMS
+-- ============================================
+CREATE TABLE IF NOT EXISTS checklist_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES checklist_items(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    is_completed BOOLEAN NOT NULL DEFAULT FALSE,
+    completed_at TIMESTAMPTZ,
+    completed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    assignee_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    due_date DATE,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_checklist_items_task ON checklist_items(task_id, "order");
+CREATE INDEX idx_checklist_items_parent ON checklist_items(parent_id);
+CREATE INDEX idx_checklist_items_assignee ON checklist_items(assignee_id);
+
+-- ============================================
+-- 2. RLS POLICIES
+-- ============================================
+ALTER TABLE checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view checklist items on accessible boards"
+    ON checklist_items FOR SELECT
+    USING (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR bm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Editors can create checklist items on accessible boards"
+    ON checklist_items FOR INSERT
+    WITH CHECK (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role != 'viewer')
+        )
+    );
+
+CREATE POLICY "Editors can update checklist items on accessible boards"
+    ON checklist_items FOR UPDATE
+    USING (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role != 'viewer')
+        )
+    );
+
+CREATE POLICY "Editors can delete checklist items on accessible boards"
+    ON checklist_items FOR DELETE
+    USING (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role != 'viewer')
+        )
+    );
+
+-- ============================================
+-- 3. REALTIME SUBSCRIPTIONS
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE checklist_items;
+
+-- ============================================
+-- 4. UPDATED_AT TRIGGER
+-- ============================================
+CREATE TRIGGER update_checklist_items_updated_at
+    BEFORE UPDATE ON checklist_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Migration: WIP Limits
+-- Optional work-in-progress limit per status column
+-- 'soft' limits warn when exceeded, 'hard' limits block new and moved tasks
+
+-- ============================================
+-- 1. STATUS COLUMNS
+-- ============================================
+ALTER TABLE statuses
+    ADD COLUMN IF NOT EXISTS wip_limit INTEGER CHECK (wip_limit IS NULL OR wip_limit > 0),
+    ADD COLUMN IF NOT EXISTS wip_limit_mode TEXT NOT NULL DEFAULT 'soft'
+        CHECK (wip_limit_mode IN ('soft', 'hard'));
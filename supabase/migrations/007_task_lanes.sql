@@ -0,0 +1,10 @@
+-- Migration: Swimlanes
+-- Free-text lane on tasks, used when the board is grouped by a custom lane field
+
+-- ============================================
+-- 1. TASK COLUMNS
+-- ============================================
+ALTER TABLE tasks
+    ADD COLUMN IF NOT EXISTS lane TEXT CHECK (lane IS NULL OR char_length(lane) <= 50);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_board_lane ON tasks(board_id, lane);
@@ -0,0 +1,140 @@
+-- Migration: Board import
+-- Writes a validated import (statuses, tasks, assignees, checklists, comments) in one transaction
+
+-- ============================================
+-- 1. IMPORT FUNCTION
+-- ============================================
+-- Runs as the caller so the usual RLS policies still apply.
+-- p_payload is built by the API route:
+--   { "statuses": [{ name, color, wip_limit, wip_limit_mode }],
+--     "tasks": [{ status_name, title, description, priority, tags, due_date, lane,
+--                 assignee_ids, checklist: [{ ref, parent_ref, title, is_completed, due_date }],
+--                 comments: [{ content, created_at }] }] }
+CREATE OR REPLACE FUNCTION import_board_data(
+    p_board_id UUID,
+    p_payload JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_status JSONB;
+    v_task JSONB;
+    v_item JSONB;
+    v_comment JSONB;
+    v_status_id UUID;
+    v_task_id UUID;
+    v_item_id UUID;
+    v_status_order INTEGER;
+    v_task_order INTEGER;
+    v_item_order INTEGER;
+    v_refs JSONB;
+    v_status_count INTEGER := 0;
+    v_task_count INTEGER := 0;
+    v_item_count INTEGER := 0;
+    v_comment_count INTEGER := 0;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT COALESCE(MAX("order"), -1) INTO v_status_order FROM statuses WHERE board_id = p_board_id;
+
+    -- Statuses the board does not have yet
+    FOR v_status IN SELECT * FROM jsonb_array_elements(COALESCE(p_payload->'statuses', '[]'::jsonb))
+    LOOP
+        v_status_order := v_status_order + 1;
+        INSERT INTO statuses (board_id, name, color, "order", wip_limit, wip_limit_mode)
+        VALUES (
+            p_board_id,
+            v_status->>'name',
+            COALESCE(v_status->>'color', '#6B7280'),
+            v_status_order,
+            (v_status->>'wip_limit')::INTEGER,
+            COALESCE(v_status->>'wip_limit_mode', 'soft')
+        );
+        v_status_count := v_status_count + 1;
+    END LOOP;
+
+    FOR v_task IN SELECT * FROM jsonb_array_elements(COALESCE(p_payload->'tasks', '[]'::jsonb))
+    LOOP
+        SELECT id INTO v_status_id
+        FROM statuses
+        WHERE board_id = p_board_id AND lower(name) = lower(v_task->>'status_name')
+        ORDER BY "order"
+        LIMIT 1;
+
+        IF v_status_id IS NULL THEN
+            RAISE EXCEPTION 'Unknown status: %', v_task->>'status_name';
+        END IF;
+
+        SELECT COALESCE(MAX("order"), -1) + 1 INTO v_task_order FROM tasks WHERE status_id = v_status_id;
+
+        INSERT INTO tasks (board_id, status_id, title, description, priority, tags, due_date, lane, "order")
+        VALUES (
+            p_board_id,
+            v_status_id,
+            v_task->>'title',
+            v_task->>'description',
+            v_task->>'priority',
+            COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_task->'tags')), '{}'),
+            (v_task->>'due_date')::TIMESTAMPTZ,
+            v_task->>'lane',
+            v_task_order
+        )
+        RETURNING id INTO v_task_id;
+        v_task_count := v_task_count + 1;
+
+        INSERT INTO task_assignees (task_id, user_id, assigned_by)
+        SELECT v_task_id, assignee_id::UUID, v_user_id
+        FROM jsonb_array_elements_text(COALESCE(v_task->'assignee_ids', '[]'::jsonb)) AS assignee_id
+        ON CONFLICT (task_id, user_id) DO NOTHING;
+
+        -- Checklist items arrive parents first; refs map source IDs to new rows
+        v_refs := '{}'::jsonb;
+        v_item_order := 0;
+        FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_task->'checklist', '[]'::jsonb))
+        LOOP
+            INSERT INTO checklist_items (
+                task_id, parent_id, title, is_completed, completed_at, completed_by, due_date, "order", created_by
+            )
+            VALUES (
+                v_task_id,
+                (v_refs->>(v_item->>'parent_ref'))::UUID,
+                v_item->>'title',
+                COALESCE((v_item->>'is_completed')::BOOLEAN, FALSE),
+                CASE WHEN (v_item->>'is_completed')::BOOLEAN THEN NOW() END,
+                CASE WHEN (v_item->>'is_completed')::BOOLEAN THEN v_user_id END,
+                (v_item->>'due_date')::DATE,
+                v_item_order,
+                v_user_id
+            )
+            RETURNING id INTO v_item_id;
+
+            v_refs := v_refs || jsonb_build_object(v_item->>'ref', v_item_id);
+            v_item_order := v_item_order + 1;
+            v_item_count := v_item_count + 1;
+        END LOOP;
+
+        FOR v_comment IN SELECT * FROM jsonb_array_elements(COALESCE(v_task->'comments', '[]'::jsonb))
+        LOOP
+            INSERT INTO comments (task_id, user_id, content, created_at)
+            VALUES (
+                v_task_id,
+                v_user_id,
+                v_comment->>'content',
+                COALESCE((v_comment->>'created_at')::TIMESTAMPTZ, NOW())
+            );
+            v_comment_count := v_comment_count + 1;
+        END LOOP;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'statuses_created', v_status_count,
+        'tasks_created', v_task_count,
+        'checklist_items_created', v_item_count,
+        'comments_created', v_comment_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION import_board_data(UUID, JSONB) TO authenticated;
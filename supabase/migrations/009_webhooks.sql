@@ -0,0 +1,154 @@
+-- Migration: Outgoing webhooks
+-- Per-board webhook subscriptions to activity events, with a delivery log that doubles as the retry queue
+
+-- ============================================
+-- 1. WEBHOOKS
+-- ============================================
+CREATE TABLE IF NOT EXISTS webhooks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+    url TEXT NOT NULL CHECK (url ~ '^https?://' AND char_length(url) <= 2000),
+    secret TEXT NOT NULL CHECK (char_length(secret) BETWEEN 16 AND 200),
+    -- Activity actions to send; each must be a valid activities.action
+    events TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhooks_board ON webhooks(board_id) WHERE is_active;
+
+CREATE TRIGGER update_webhooks_updated_at
+    BEFORE UPDATE ON webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. WEBHOOK DELIVERIES
+-- ============================================
+-- One row per event per webhook. Pending rows are picked up by the deliver-webhooks
+-- Edge Function, which records each attempt and schedules retries with backoff.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    activity_id UUID REFERENCES activities(id) ON DELETE SET NULL,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+    response_status INTEGER,
+    response_body TEXT,
+    latency_ms INTEGER,
+    error TEXT,
+    delivered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+-- Only the board owner and admins can see or manage webhooks (secrets included)
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and admins can view webhooks"
+    ON webhooks FOR SELECT
+    USING (
+        board_id IN (
+            SELECT b.id FROM boards b
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role = 'admin')
+        )
+    );
+
+CREATE POLICY "Owners and admins can create webhooks"
+    ON webhooks FOR INSERT
+    WITH CHECK (
+        board_id IN (
+            SELECT b.id FROM boards b
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role = 'admin')
+        )
+    );
+
+CREATE POLICY "Owners and admins can update webhooks"
+    ON webhooks FOR UPDATE
+    USING (
+        board_id IN (
+            SELECT b.id FROM boards b
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role = 'admin')
+        )
+    );
+
+CREATE POLICY "Owners and admins can delete webhooks"
+    ON webhooks FOR DELETE
+    USING (
+        board_id IN (
+            SELECT b.id FROM boards b
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role = 'admin')
+        )
+    );
+
+CREATE POLICY "Owners and admins can view webhook deliveries"
+    ON webhook_deliveries FOR SELECT
+    USING (webhook_id IN (SELECT id FROM webhooks));
+
+-- Test pings are sent and logged by the API on behalf of the owner or admin
+CREATE POLICY "Owners and admins can log webhook deliveries"
+    ON webhook_deliveries FOR INSERT
+    WITH CHECK (webhook_id IN (SELECT id FROM webhooks));
+
+-- ============================================
+-- 4. ENQUEUE DELIVERIES FOR NEW ACTIVITIES
+-- ============================================
+-- Runs as definer so events raised by any member reach webhooks they cannot read
+CREATE OR REPLACE FUNCTION enqueue_webhook_deliveries()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO webhook_deliveries (webhook_id, activity_id, event, payload)
+    SELECT
+        w.id,
+        NEW.id,
+        NEW.action,
+        jsonb_build_object(
+            'id', NEW.id,
+            'event', NEW.action,
+            'board_id', NEW.board_id,
+            'task_id', NEW.task_id,
+            'actor_id', NEW.user_id,
+            'details', COALESCE(NEW.details, '{}'::jsonb),
+            'created_at', NEW.created_at
+        )
+    FROM webhooks w
+    WHERE w.board_id = NEW.board_id
+        AND w.is_active
+        AND NEW.action = ANY(w.events);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enqueue_webhook_deliveries_on_activity
+    AFTER INSERT ON activities
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_webhook_deliveries();
+
+-- ============================================
+-- 5. DELIVERY SCHEDULE
+-- ============================================
+-- The deliver-webhooks Edge Function drains the queue. Schedule it once per minute
+-- with pg_cron + pg_net (see DEPLOYMENT.md), e.g.:
+--
+-- SELECT cron.schedule('deliver-webhooks', '* * * * *', $$
+--     SELECT net.http_post(
+--         url := 'https://<project-ref>.supabase.co/functions/v1/deliver-webhooks',
+--         headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--     );
+-- $$);
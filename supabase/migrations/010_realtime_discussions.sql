@@ -0,0 +1,18 @@
+-- Migration: Realtime Discussions
+-- Streams attachments alongside comments, activities and board members, and
+-- includes full old rows in DELETE events so clients know which task or board
+-- a deleted row belonged to
+
+-- ============================================
+-- 1. REALTIME SUBSCRIPTIONS
+-- ============================================
+-- comments, activities and board_members were added in 002_extended_features.sql
+ALTER PUBLICATION supabase_realtime ADD TABLE attachments;
+
+-- ============================================
+-- 2. REPLICA IDENTITY
+-- ============================================
+-- DELETE payloads otherwise only carry the primary key
+ALTER TABLE comments REPLICA IDENTITY FULL;
+ALTER TABLE attachments REPLICA IDENTITY FULL;
+ALTER TABLE board_members REPLICA IDENTITY FULL;
@@ -0,0 +1,45 @@
+-- Migration: Due date reminders
+-- Log of task_due_soon / task_overdue notifications sent by the due date scheduler, so each
+-- user is reminded once per task and due date
+
+-- ============================================
+-- 1. TASK DUE REMINDERS
+-- ============================================
+-- The due date is part of the key: moving a task's due date makes it eligible again
+CREATE TABLE IF NOT EXISTS task_due_reminders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('task_due_soon', 'task_overdue')),
+    due_date TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (task_id, user_id, type, due_date)
+);
+
+CREATE INDEX idx_task_due_reminders_user ON task_due_reminders(user_id);
+
+-- The scheduler scans a window around now
+CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date) WHERE due_date IS NOT NULL;
+
+-- ============================================
+-- 2. RLS POLICIES
+-- ============================================
+-- Written only by the scheduler with the service role key; users can see their own
+ALTER TABLE task_due_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own due reminders"
+    ON task_due_reminders FOR SELECT
+    USING (user_id = auth.uid());
+
+-- ============================================
+-- 3. SCHEDULE
+-- ============================================
+-- Call the due date route every 15 minutes with the CRON_SECRET (see DEPLOYMENT.md), e.g.
+-- with pg_cron + pg_net:
+--
+-- SELECT cron.schedule('due-date-reminders', '*/15 * * * *', $$
+--     SELECT net.http_get(
+--         url := 'https://your-app-domain.com/api/cron/due-dates',
+--         headers := jsonb_build_object('Authorization', 'Bearer <cron-secret>')
+--     );
+-- $$);
@@ -0,0 +1,11 @@
+-- Migration: Comment mentions
+-- Comments reference mentioned users inline as @[Name](user-id); the ids are also stored
+-- in a column so mentions can be queried without parsing content
+
+-- ============================================
+-- 1. COMMENT MENTIONS
+-- ============================================
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS mentions UUID[] NOT NULL DEFAULT '{}';
+
+-- "Comments that mention me"
+CREATE INDEX IF NOT EXISTS idx_comments_mentions ON comments USING GIN (mentions);
@@ -0,0 +1,123 @@
+-- Migration: Comment Threads, Reactions and Edit History
+-- Replies hang one level under a top-level comment, members react with a fixed set of
+-- emoji, and every edit keeps the previous text as a revision
+
+-- ============================================
+-- 1. THREADED REPLIES AND EDIT MARKER
+-- ============================================
+-- Replies always point at the top-level comment; deleting it deletes the thread
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES comments(id) ON DELETE CASCADE;
+-- Set when the content changes; updated_at also moves for mention-only updates
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_id);
+
+-- Board owners and admins hold comment:delete_any
+CREATE POLICY "Board admins can delete any comment"
+    ON comments FOR DELETE
+    USING (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role = 'admin')
+        )
+    );
+
+-- ============================================
+-- 2. COMMENT REACTIONS
+-- ============================================
+CREATE TABLE IF NOT EXISTS comment_reactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (comment_id, user_id, emoji)
+);
+
+CREATE INDEX idx_comment_reactions_comment ON comment_reactions(comment_id);
+
+ALTER TABLE comment_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reactions on accessible boards"
+    ON comment_reactions FOR SELECT
+    USING (
+        comment_id IN (
+            SELECT c.id FROM comments c
+            JOIN tasks t ON c.task_id = t.id
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR bm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Commenters can add own reactions"
+    ON comment_reactions FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid() AND
+        comment_id IN (
+            SELECT c.id FROM comments c
+            JOIN tasks t ON c.task_id = t.id
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role != 'viewer')
+        )
+    );
+
+CREATE POLICY "Users can remove own reactions"
+    ON comment_reactions FOR DELETE
+    USING (user_id = auth.uid());
+
+-- ============================================
+-- 3. COMMENT REVISIONS
+-- ============================================
+-- One row per edit, holding the text as it was before that edit
+CREATE TABLE IF NOT EXISTS comment_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_comment_revisions_comment ON comment_revisions(comment_id, created_at);
+
+ALTER TABLE comment_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view comment revisions on accessible boards"
+    ON comment_revisions FOR SELECT
+    USING (
+        comment_id IN (
+            SELECT c.id FROM comments c
+            JOIN tasks t ON c.task_id = t.id
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR bm.user_id = auth.uid()
+        )
+    );
+
+-- Revisions are written by the trigger below, never directly by clients
+CREATE OR REPLACE FUNCTION record_comment_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        INSERT INTO comment_revisions (comment_id, content, edited_by)
+        VALUES (OLD.id, OLD.content, auth.uid());
+        NEW.edited_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_comment_revision
+    BEFORE UPDATE ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION record_comment_revision();
+
+-- ============================================
+-- 4. REALTIME
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE comment_reactions;
+-- DELETE payloads carry the comment and emoji that were removed
+ALTER TABLE comment_reactions REPLICA IDENTITY FULL;
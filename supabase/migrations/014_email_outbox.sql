@@ -0,0 +1,36 @@
+-- Migration: Email outbox
+-- Notifications that should be emailed carry their template data; a scheduled sender picks
+-- up unsent rows, sends them one by one or batched into hourly/daily digests, and marks
+-- email_sent
+
+-- ============================================
+-- 1. NOTIFICATION EMAIL QUEUE
+-- ============================================
+-- { "template": "...", "data": { ... } }; NULL when the notification has no email
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_data JSONB;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_error TEXT;
+
+-- The sender only ever scans the unsent part of the queue
+CREATE INDEX IF NOT EXISTS idx_notifications_email_outbox
+    ON notifications(created_at)
+    WHERE email_sent = false AND email_data IS NOT NULL;
+
+-- ============================================
+-- 2. DIGEST SCHEDULE
+-- ============================================
+-- notification_preferences.email_frequency is 'instant' (default), 'hourly' or 'daily'
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMPTZ;
+
+-- ============================================
+-- 3. SCHEDULE
+-- ============================================
+-- Call the email route every 5 minutes with the CRON_SECRET (see DEPLOYMENT.md), e.g.
+-- with pg_cron + pg_net:
+--
+-- SELECT cron.schedule('notification-emails', '*/5 * * * *', $$
+--     SELECT net.http_get(
+--         url := 'https://your-app-domain.com/api/cron/emails',
+--         headers := jsonb_build_object('Authorization', 'Bearer <cron-secret>')
+--     );
+-- $$);
@@ -0,0 +1,88 @@
+-- Migration: Notification Subscriptions
+-- Members watch or mute a whole board or a single task; producers of notifications
+-- consult these before notifying anyone. Per-type in-app/email choices live in
+-- profiles.notification_preferences.channels
+
+-- ============================================
+-- 1. SUBSCRIPTIONS
+-- ============================================
+-- task_id NULL is the board-wide setting; a task row overrides it for that task
+CREATE TABLE IF NOT EXISTS notification_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+    level TEXT NOT NULL CHECK (level IN ('watch', 'mute')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (user_id, board_id, task_id)
+);
+
+CREATE INDEX idx_notification_subscriptions_board ON notification_subscriptions(board_id, task_id);
+
+CREATE TRIGGER update_notification_subscriptions_updated_at
+    BEFORE UPDATE ON notification_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. RLS POLICIES
+-- ============================================
+ALTER TABLE notification_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are produced with the acting member's session, so members need to
+-- read each other's subscriptions on a shared board
+CREATE POLICY "Users can view subscriptions on accessible boards"
+    ON notification_subscriptions FOR SELECT
+    USING (
+        board_id IN (
+            SELECT b.id FROM boards b
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR bm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can subscribe to accessible boards"
+    ON notification_subscriptions FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid() AND
+        board_id IN (
+            SELECT b.id FROM boards b
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR bm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update own subscriptions"
+    ON notification_subscriptions FOR UPDATE
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own subscriptions"
+    ON notification_subscriptions FOR DELETE
+    USING (user_id = auth.uid());
+
+-- ============================================
+-- 3. CLEANUP ON LEAVING A BOARD
+-- ============================================
+-- A removed member must stop receiving notifications as a watcher; the admin removing
+-- them cannot delete their rows under RLS, so a trigger does it
+CREATE OR REPLACE FUNCTION delete_member_subscriptions()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM notification_subscriptions
+    WHERE board_id = OLD.board_id AND user_id = OLD.user_id;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_board_member_removed
+    AFTER DELETE ON board_members
+    FOR EACH ROW
+    EXECUTE FUNCTION delete_member_subscriptions();
+
+-- ============================================
+-- 4. IN-APP VISIBILITY
+-- ============================================
+-- A notification the recipient only wants by email still needs a row for the email
+-- outbox; it is hidden from the in-app list
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS in_app BOOLEAN NOT NULL DEFAULT true;
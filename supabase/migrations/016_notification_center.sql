@@ -0,0 +1,29 @@
+-- Migration: Notification Center
+-- Notifications can be archived out of the inbox or deleted, and the list pages with a
+-- (created_at, id) cursor
+
+-- ============================================
+-- 1. ARCHIVE
+-- ============================================
+-- Archived notifications leave the inbox and the unread count but stay searchable
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- ============================================
+-- 2. CURSOR PAGINATION
+-- ============================================
+-- Serves the newest-first list with its type/board filters and the cursor condition
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+    ON notifications(user_id, created_at DESC, id DESC);
+
+-- The unread badge counts inbox rows only
+DROP INDEX IF EXISTS idx_notifications_unread;
+CREATE INDEX idx_notifications_unread
+    ON notifications(user_id)
+    WHERE read_at IS NULL AND archived_at IS NULL AND in_app;
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+CREATE POLICY "Users can delete own notifications"
+    ON notifications FOR DELETE
+    USING (user_id = auth.uid());
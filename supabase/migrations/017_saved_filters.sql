@@ -0,0 +1,53 @@
+-- Migration: Saved Filters
+-- Named task filters each member keeps for a board; `filters` holds the same keys the
+-- task list accepts as query parameters
+
+-- ============================================
+-- 1. SAVED FILTERS
+-- ============================================
+CREATE TABLE IF NOT EXISTS saved_filters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+    filters JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, board_id, name)
+);
+
+CREATE INDEX idx_saved_filters_user_board ON saved_filters(user_id, board_id);
+
+CREATE TRIGGER update_saved_filters_updated_at
+    BEFORE UPDATE ON saved_filters
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. RLS POLICIES
+-- ============================================
+-- Saved filters are private to their owner
+ALTER TABLE saved_filters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved filters"
+    ON saved_filters FOR SELECT
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can save filters on accessible boards"
+    ON saved_filters FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid() AND
+        board_id IN (
+            SELECT b.id FROM boards b
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR bm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update own saved filters"
+    ON saved_filters FOR UPDATE
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own saved filters"
+    ON saved_filters FOR DELETE
+    USING (user_id = auth.uid());
@@ -0,0 +1,210 @@
+-- Migration: Advanced Search
+-- Search with structured filters parsed from the search box (board:, status:, priority:,
+-- tag:, due:, assignee:, is:) and full-text matches in comments as well as tasks
+
+-- ============================================
+-- 1. COMMENT SEARCH INDEX
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_comments_search
+    ON comments USING GIN (to_tsvector('english', content));
+
+-- ============================================
+-- 2. ADVANCED SEARCH FUNCTION
+-- ============================================
+-- `filters` keys (all optional):
+--   boards / exclude_boards, statuses / exclude_statuses   name contains any (case-insensitive)
+--   priorities / exclude_priorities                        exact values
+--   tags (all present) / exclude_tags (none present)
+--   assignee_ids / exclude_assignee_ids                    user ids
+--   assignee_names / exclude_assignee_names                display name, email or legacy name contains
+--   unassigned, has_due, overdue, done                     booleans
+--   due_gte / due_lt                                       timestamps
+-- `search_scope` is 'all', 'tasks' or 'comments'; an empty `search_query` only filters
+-- The done column is the board's last status, as in the app
+CREATE OR REPLACE FUNCTION search_tasks_advanced(
+    user_uuid UUID,
+    search_query TEXT DEFAULT '',
+    filters JSONB DEFAULT '{}',
+    search_scope TEXT DEFAULT 'all',
+    max_results INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    board_id UUID,
+    board_name TEXT,
+    status_id UUID,
+    status_name TEXT,
+    title TEXT,
+    description TEXT,
+    priority TEXT,
+    tags TEXT[],
+    due_date TIMESTAMPTZ,
+    rank REAL,
+    comment_id UUID,
+    comment_content TEXT
+) AS $$
+DECLARE
+    tsq tsquery;
+BEGIN
+    IF coalesce(trim(search_query), '') <> '' THEN
+        tsq := websearch_to_tsquery('english', search_query);
+    END IF;
+
+    RETURN QUERY
+    WITH accessible_boards AS (
+        SELECT b.id, b.name
+        FROM boards b
+        WHERE b.user_id = user_uuid
+           OR EXISTS (
+               SELECT 1 FROM board_members bm
+               WHERE bm.board_id = b.id AND bm.user_id = user_uuid
+           )
+    ),
+    candidates AS (
+        SELECT
+            t.id AS task_id,
+            t.board_id AS task_board_id,
+            ab.name AS task_board_name,
+            t.status_id AS task_status_id,
+            s.name AS task_status_name,
+            t.title AS task_title,
+            t.description AS task_description,
+            t.priority AS task_priority,
+            t.tags AS task_tags,
+            t.due_date AS task_due_date,
+            t.updated_at AS task_updated_at,
+            t.search_vector AS task_search_vector,
+            t.status_id = (
+                SELECT ds.id FROM statuses ds
+                WHERE ds.board_id = t.board_id
+                ORDER BY ds."order" DESC
+                LIMIT 1
+            ) AS is_done
+        FROM tasks t
+        JOIN accessible_boards ab ON ab.id = t.board_id
+        JOIN statuses s ON s.id = t.status_id
+        WHERE
+            (NOT filters ? 'boards' OR EXISTS (
+                SELECT 1 FROM jsonb_array_elements_text(filters->'boards') f(v)
+                WHERE position(lower(f.v) IN lower(ab.name)) > 0
+            ))
+            AND (NOT filters ? 'exclude_boards' OR NOT EXISTS (
+                SELECT 1 FROM jsonb_array_elements_text(filters->'exclude_boards') f(v)
+                WHERE position(lower(f.v) IN lower(ab.name)) > 0
+            ))
+            AND (NOT filters ? 'statuses' OR EXISTS (
+                SELECT 1 FROM jsonb_array_elements_text(filters->'statuses') f(v)
+                WHERE position(lower(f.v) IN lower(s.name)) > 0
+            ))
+            AND (NOT filters ? 'exclude_statuses' OR NOT EXISTS (
+                SELECT 1 FROM jsonb_array_elements_text(filters->'exclude_statuses') f(v)
+                WHERE position(lower(f.v) IN lower(s.name)) > 0
+            ))
+            AND (NOT filters ? 'priorities' OR t.priority IN (
+                SELECT jsonb_array_elements_text(filters->'priorities')
+            ))
+            AND (NOT filters ? 'exclude_priorities' OR t.priority IS NULL OR t.priority NOT IN (
+                SELECT jsonb_array_elements_text(filters->'exclude_priorities')
+            ))
+            AND (NOT filters ? 'tags'
+                OR t.tags @> ARRAY(SELECT jsonb_array_elements_text(filters->'tags')))
+            AND (NOT filters ? 'exclude_tags'
+                OR NOT t.tags && ARRAY(SELECT jsonb_array_elements_text(filters->'exclude_tags')))
+            AND (NOT filters ? 'assignee_ids' OR EXISTS (
+                SELECT 1 FROM task_assignees ta
+                WHERE ta.task_id = t.id
+                  AND ta.user_id::TEXT IN (SELECT jsonb_array_elements_text(filters->'assignee_ids'))
+            ))
+            AND (NOT filters ? 'exclude_assignee_ids' OR NOT EXISTS (
+                SELECT 1 FROM task_assignees ta
+                WHERE ta.task_id = t.id
+                  AND ta.user_id::TEXT IN (SELECT jsonb_array_elements_text(filters->'exclude_assignee_ids'))
+            ))
+            AND (NOT filters ? 'assignee_names' OR EXISTS (
+                SELECT 1 FROM jsonb_array_elements_text(filters->'assignee_names') f(v)
+                WHERE position(lower(f.v) IN lower(coalesce(t.assignee_name, ''))) > 0
+                   OR EXISTS (
+                       SELECT 1 FROM task_assignees ta
+                       JOIN profiles p ON p.id = ta.user_id
+                       WHERE ta.task_id = t.id
+                         AND (position(lower(f.v) IN lower(coalesce(p.display_name, ''))) > 0
+                              OR position(lower(f.v) IN lower(p.email)) > 0)
+                   )
+            ))
+            AND (NOT filters ? 'exclude_assignee_names' OR NOT EXISTS (
+                SELECT 1 FROM jsonb_array_elements_text(filters->'exclude_assignee_names') f(v)
+                WHERE position(lower(f.v) IN lower(coalesce(t.assignee_name, ''))) > 0
+                   OR EXISTS (
+                       SELECT 1 FROM task_assignees ta
+                       JOIN profiles p ON p.id = ta.user_id
+                       WHERE ta.task_id = t.id
+                         AND (position(lower(f.v) IN lower(coalesce(p.display_name, ''))) > 0
+                              OR position(lower(f.v) IN lower(p.email)) > 0)
+                   )
+            ))
+            AND (NOT filters ? 'unassigned' OR (filters->>'unassigned')::BOOLEAN = (
+                t.assignee_name IS NULL
+                AND NOT EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = t.id)
+            ))
+            AND (NOT filters ? 'has_due'
+                OR (filters->>'has_due')::BOOLEAN = (t.due_date IS NOT NULL))
+            AND (NOT filters ? 'due_gte' OR t.due_date >= (filters->>'due_gte')::TIMESTAMPTZ)
+            AND (NOT filters ? 'due_lt' OR t.due_date < (filters->>'due_lt')::TIMESTAMPTZ)
+    ),
+    filtered AS (
+        SELECT c.*
+        FROM candidates c
+        WHERE
+            (NOT filters ? 'done' OR (filters->>'done')::BOOLEAN = c.is_done)
+            AND (NOT filters ? 'overdue' OR (filters->>'overdue')::BOOLEAN = (
+                c.task_due_date IS NOT NULL AND c.task_due_date < NOW() AND NOT c.is_done
+            ))
+    ),
+    comment_hits AS (
+        -- Best matching comment per task
+        SELECT DISTINCT ON (cm.task_id)
+            cm.task_id AS hit_task_id,
+            cm.id AS hit_comment_id,
+            cm.content AS hit_content
+        FROM comments cm
+        JOIN filtered f ON f.task_id = cm.task_id
+        WHERE tsq IS NOT NULL
+          AND search_scope <> 'tasks'
+          AND to_tsvector('english', cm.content) @@ tsq
+        ORDER BY cm.task_id, ts_rank(to_tsvector('english', cm.content), tsq) DESC, cm.created_at DESC
+    ),
+    scored AS (
+        SELECT
+            f.*,
+            ch.hit_comment_id,
+            ch.hit_content,
+            (CASE
+                WHEN tsq IS NULL OR search_scope = 'comments' THEN 0
+                ELSE ts_rank(f.task_search_vector, tsq)
+             END
+             + CASE WHEN ch.hit_task_id IS NULL THEN 0 ELSE 0.05 END)::REAL AS score
+        FROM filtered f
+        LEFT JOIN comment_hits ch ON ch.hit_task_id = f.task_id
+        WHERE tsq IS NULL
+           OR (search_scope <> 'comments' AND f.task_search_vector @@ tsq)
+           OR ch.hit_task_id IS NOT NULL
+    )
+    SELECT
+        sc.task_id,
+        sc.task_board_id,
+        sc.task_board_name,
+        sc.task_status_id,
+        sc.task_status_name,
+        sc.task_title,
+        sc.task_description,
+        sc.task_priority,
+        sc.task_tags,
+        sc.task_due_date,
+        sc.score,
+        sc.hit_comment_id,
+        sc.hit_content
+    FROM scored sc
+    ORDER BY sc.score DESC, sc.task_due_date ASC NULLS LAST, sc.task_updated_at DESC
+    LIMIT LEAST(GREATEST(max_results, 1), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
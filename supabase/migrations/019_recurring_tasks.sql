@@ -0,0 +1,14 @@
+-- Migration: Recurring Tasks
+-- An iCalendar RRULE on tasks; finishing a recurring task creates its next occurrence,
+-- and next_occurrence_id records it so the same task never spawns twice
+
+-- ============================================
+-- 1. TASK COLUMNS
+-- ============================================
+ALTER TABLE tasks
+    ADD COLUMN IF NOT EXISTS recurrence_rule TEXT
+        CHECK (recurrence_rule IS NULL OR char_length(recurrence_rule) <= 200),
+    ADD COLUMN IF NOT EXISTS next_occurrence_id UUID REFERENCES tasks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_next_occurrence ON tasks(next_occurrence_id)
+    WHERE next_occurrence_id IS NOT NULL;
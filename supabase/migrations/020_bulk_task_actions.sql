@@ -0,0 +1,136 @@
+-- Migration: Bulk task actions
+-- Applies one action to many tasks of a board in a single transaction and logs
+-- one activity per task
+
+-- ============================================
+-- 1. BULK ACTION FUNCTION
+-- ============================================
+-- Runs as the caller so the usual RLS policies still apply.
+-- p_action is validated by the API route, one of:
+--   { "type": "move", "status_id": UUID }
+--   { "type": "set_priority", "priority": TEXT | null }
+--   { "type": "add_tag" | "remove_tag", "tag": TEXT }
+--   { "type": "set_due_date", "due_date": TIMESTAMPTZ | null }
+--   { "type": "assign", "assignee_ids": [UUID] }   -- replaces the assignees
+--   { "type": "delete" }
+-- Moved tasks go to the end of the target column in the order of p_task_ids.
+CREATE OR REPLACE FUNCTION bulk_update_tasks(
+    p_board_id UUID,
+    p_task_ids UUID[],
+    p_action JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_type TEXT := p_action->>'type';
+    v_task RECORD;
+    v_status_id UUID;
+    v_status_name TEXT;
+    v_order INTEGER;
+    v_assignee_ids UUID[];
+    v_count INTEGER := 0;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF (
+        SELECT COUNT(*) FROM tasks WHERE board_id = p_board_id AND id = ANY(p_task_ids)
+    ) <> cardinality(p_task_ids) THEN
+        RAISE EXCEPTION 'Task not found in this board';
+    END IF;
+
+    IF v_type = 'move' THEN
+        SELECT id, name INTO v_status_id, v_status_name
+        FROM statuses
+        WHERE id = (p_action->>'status_id')::UUID AND board_id = p_board_id;
+
+        IF v_status_id IS NULL THEN
+            RAISE EXCEPTION 'Status not found in this board';
+        END IF;
+
+        SELECT COALESCE(MAX("order"), -1) INTO v_order FROM tasks WHERE status_id = v_status_id;
+    ELSIF v_type = 'assign' THEN
+        v_assignee_ids := ARRAY(
+            SELECT jsonb_array_elements_text(COALESCE(p_action->'assignee_ids', '[]'::jsonb))::UUID
+        );
+    END IF;
+
+    -- Lock the rows in request order so concurrent bulk actions cannot interleave
+    FOR v_task IN
+        SELECT t.id, t.title, t.status_id, s.name AS status_name
+        FROM unnest(p_task_ids) WITH ORDINALITY AS ids(id, position)
+        JOIN tasks t ON t.id = ids.id
+        JOIN statuses s ON s.id = t.status_id
+        ORDER BY ids.position
+        FOR UPDATE OF t
+    LOOP
+        CASE v_type
+            WHEN 'move' THEN
+                -- Tasks already in the column keep their place
+                CONTINUE WHEN v_task.status_id = v_status_id;
+
+                v_order := v_order + 1;
+                UPDATE tasks SET status_id = v_status_id, "order" = v_order WHERE id = v_task.id;
+
+                INSERT INTO activities (board_id, task_id, user_id, action, details)
+                VALUES (
+                    p_board_id, v_task.id, v_user_id, 'task_moved',
+                    jsonb_build_object(
+                        'task_title', v_task.title,
+                        'old_status', v_task.status_name,
+                        'new_status', v_status_name,
+                        'bulk', TRUE
+                    )
+                );
+
+            WHEN 'delete' THEN
+                -- Logged without task_id, which would cascade away with the task
+                INSERT INTO activities (board_id, task_id, user_id, action, details)
+                VALUES (
+                    p_board_id, NULL, v_user_id, 'task_deleted',
+                    jsonb_build_object('task_id', v_task.id, 'task_title', v_task.title, 'bulk', TRUE)
+                );
+
+                DELETE FROM tasks WHERE id = v_task.id;
+
+            ELSE
+                CASE v_type
+                    WHEN 'set_priority' THEN
+                        UPDATE tasks SET priority = p_action->>'priority' WHERE id = v_task.id;
+                    WHEN 'add_tag' THEN
+                        UPDATE tasks SET tags = array_append(tags, p_action->>'tag')
+                        WHERE id = v_task.id AND NOT (p_action->>'tag' = ANY(tags));
+                    WHEN 'remove_tag' THEN
+                        UPDATE tasks SET tags = array_remove(tags, p_action->>'tag')
+                        WHERE id = v_task.id;
+                    WHEN 'set_due_date' THEN
+                        UPDATE tasks SET due_date = (p_action->>'due_date')::TIMESTAMPTZ
+                        WHERE id = v_task.id;
+                    WHEN 'assign' THEN
+                        DELETE FROM task_assignees
+                        WHERE task_id = v_task.id AND NOT (user_id = ANY(v_assignee_ids));
+
+                        INSERT INTO task_assignees (task_id, user_id, assigned_by)
+                        SELECT v_task.id, assignee_id, v_user_id
+                        FROM unnest(v_assignee_ids) AS assignee_id
+                        ON CONFLICT (task_id, user_id) DO NOTHING;
+                    ELSE
+                        RAISE EXCEPTION 'Unknown bulk action: %', v_type;
+                END CASE;
+
+                INSERT INTO activities (board_id, task_id, user_id, action, details)
+                VALUES (
+                    p_board_id, v_task.id, v_user_id, 'task_updated',
+                    jsonb_build_object('task_title', v_task.title, 'bulk', TRUE, 'change', p_action)
+                );
+        END CASE;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object('tasks_changed', v_count);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION bulk_update_tasks(UUID, UUID[], JSONB) TO authenticated;
@@ -0,0 +1,84 @@
+-- Migration: Time Tracking
+-- Start dates and estimates on tasks, and a log of time members spend on them.
+-- An entry without ended_at is a running timer; each user has at most one.
+
+-- ============================================
+-- 1. TASK COLUMNS
+-- ============================================
+ALTER TABLE tasks
+    ADD COLUMN IF NOT EXISTS start_date TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS estimate NUMERIC(7, 2)
+        CHECK (estimate IS NULL OR (estimate > 0 AND estimate <= 10000)),
+    ADD COLUMN IF NOT EXISTS estimate_unit TEXT NOT NULL DEFAULT 'hours'
+        CHECK (estimate_unit IN ('hours', 'points'));
+
+ALTER TABLE tasks
+    ADD CONSTRAINT tasks_start_before_due
+        CHECK (start_date IS NULL OR due_date IS NULL OR start_date <= due_date);
+
+-- ============================================
+-- 2. TIME ENTRIES
+-- ============================================
+CREATE TABLE IF NOT EXISTS time_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ CHECK (ended_at IS NULL OR ended_at >= started_at),
+    note TEXT CHECK (note IS NULL OR char_length(note) <= 500),
+    -- Entered by hand rather than recorded with the timer
+    is_manual BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_time_entries_task ON time_entries(task_id, started_at);
+CREATE INDEX idx_time_entries_user ON time_entries(user_id, started_at DESC);
+CREATE UNIQUE INDEX idx_time_entries_running ON time_entries(user_id) WHERE ended_at IS NULL;
+
+CREATE TRIGGER update_time_entries_updated_at
+    BEFORE UPDATE ON time_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+-- Everyone on the board sees the log; members log, edit and delete only their own time
+ALTER TABLE time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view time entries on accessible boards"
+    ON time_entries FOR SELECT
+    USING (
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR bm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Editors can log own time on accessible boards"
+    ON time_entries FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid() AND
+        task_id IN (
+            SELECT t.id FROM tasks t
+            JOIN boards b ON t.board_id = b.id
+            LEFT JOIN board_members bm ON b.id = bm.board_id
+            WHERE b.user_id = auth.uid() OR (bm.user_id = auth.uid() AND bm.role != 'viewer')
+        )
+    );
+
+CREATE POLICY "Users can update own time entries"
+    ON time_entries FOR UPDATE
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own time entries"
+    ON time_entries FOR DELETE
+    USING (user_id = auth.uid());
+
+-- ============================================
+-- 4. REALTIME SUBSCRIPTIONS
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE time_entries;
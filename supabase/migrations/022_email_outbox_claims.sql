@@ -0,0 +1,40 @@
+-- Migration: Email outbox claims
+-- A sender run claims its batch before sending so an overlapping run (a slow run still
+-- going when the next cron tick fires) skips those rows instead of emailing them again.
+-- Claims are released when a row is sent, skipped or fails; a run that dies leaves its
+-- claims to expire.
+
+-- ============================================
+-- 1. CLAIM COLUMN
+-- ============================================
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_claimed_at TIMESTAMPTZ;
+
+-- ============================================
+-- 2. CLAIM FUNCTION
+-- ============================================
+-- Locks and stamps up to p_batch_size unsent rows, oldest first, skipping rows another
+-- run holds; a claim older than p_claim_ttl counts as abandoned
+CREATE OR REPLACE FUNCTION claim_email_outbox(
+    p_batch_size INTEGER,
+    p_max_attempts INTEGER,
+    p_claim_ttl INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF notifications AS $$
+    UPDATE notifications
+    SET email_claimed_at = NOW()
+    WHERE id IN (
+        SELECT id FROM notifications
+        WHERE email_sent = false
+            AND email_data IS NOT NULL
+            AND email_attempts < p_max_attempts
+            AND (email_claimed_at IS NULL OR email_claimed_at < NOW() - p_claim_ttl)
+        ORDER BY created_at
+        LIMIT p_batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Only the service role sender may claim; it reads every user's notifications
+REVOKE EXECUTE ON FUNCTION claim_email_outbox(INTEGER, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_email_outbox(INTEGER, INTEGER, INTERVAL) TO service_role;
@@ -0,0 +1,39 @@
+-- Migration: Webhook delivery claims
+-- The deliver-webhooks function runs every minute but a batch can take minutes (50
+-- deliveries with a 10s timeout each). A run now claims its batch first so an
+-- overlapping run skips those rows instead of delivering the same event twice.
+-- Claims are released when a delivery is recorded; a run that dies leaves its claims
+-- to expire.
+
+-- ============================================
+-- 1. CLAIM COLUMN
+-- ============================================
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+-- ============================================
+-- 2. CLAIM FUNCTION
+-- ============================================
+-- Locks and stamps up to p_batch_size due deliveries, soonest first, skipping rows
+-- another run holds; a claim older than p_claim_ttl counts as abandoned
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+    p_batch_size INTEGER,
+    p_claim_ttl INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF webhook_deliveries AS $$
+    UPDATE webhook_deliveries
+    SET claimed_at = NOW()
+    WHERE id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending'
+            AND next_attempt_at <= NOW()
+            AND (claimed_at IS NULL OR claimed_at < NOW() - p_claim_ttl)
+        ORDER BY next_attempt_at
+        LIMIT p_batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Only the service role worker may claim; it reads every board's deliveries
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, INTERVAL) TO service_role;
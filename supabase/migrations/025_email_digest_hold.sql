@@ -0,0 +1,62 @@
+-- Migration: Hold digest notifications out of the outbox claim
+-- Notifications waiting for an hourly or daily digest are unsent too, so the claim in
+-- 022_email_outbox_claims.sql kept picking them up. Enough pending digest rows filled
+-- every batch and kept instant emails for other users from being claimed until those
+-- digests went out. The sender now stamps held rows with the time their digest is due
+-- and the claim skips them until then.
+
+-- ============================================
+-- 1. SEND-AFTER COLUMN
+-- ============================================
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_send_after TIMESTAMPTZ;
+
+-- ============================================
+-- 2. CLAIM FUNCTION
+-- ============================================
+-- As before, but rows held until a later digest are not claimed early
+CREATE OR REPLACE FUNCTION claim_email_outbox(
+    p_batch_size INTEGER,
+    p_max_attempts INTEGER,
+    p_claim_ttl INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF notifications AS $$
+    UPDATE notifications
+    SET email_claimed_at = NOW()
+    WHERE id IN (
+        SELECT id FROM notifications
+        WHERE email_sent = false
+            AND email_data IS NOT NULL
+            AND email_attempts < p_max_attempts
+            AND (email_claimed_at IS NULL OR email_claimed_at < NOW() - p_claim_ttl)
+            AND (email_send_after IS NULL OR email_send_after <= NOW())
+        ORDER BY created_at
+        LIMIT p_batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- ============================================
+-- 3. RELEASE HELD ROWS ON A FREQUENCY CHANGE
+-- ============================================
+-- A user who switches to instant emails, or to a shorter digest period, should not
+-- wait for the period they just left
+CREATE OR REPLACE FUNCTION release_held_notification_emails()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE notifications
+    SET email_send_after = NULL
+    WHERE user_id = NEW.id
+        AND email_sent = false
+        AND email_send_after IS NOT NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS release_held_notification_emails ON profiles;
+CREATE TRIGGER release_held_notification_emails
+    AFTER UPDATE OF notification_preferences ON profiles
+    FOR EACH ROW
+    WHEN (OLD.notification_preferences->>'email_frequency'
+        IS DISTINCT FROM NEW.notification_preferences->>'email_frequency')
+    EXECUTE FUNCTION release_held_notification_emails();